@@ -0,0 +1,120 @@
+#!/usr/bin/env node
+/**
+ * Notification sink
+ * Local stand-in for a webhook receiver and an SMTP relay, printing whatever
+ * the notification service delivers. For trying out destinations without
+ * real endpoints:
+ *
+ *   npm run notification-sink
+ *   webhook: http://localhost:9090/hook   (add ?fail=503 to answer with that status)
+ *   email:   host localhost, port 2525, security none, any username/password
+ *
+ * Ports: SINK_HTTP_PORT (9090) and SINK_SMTP_PORT (2525).
+ */
+
+const http = require('http');
+const net = require('net');
+
+const HTTP_PORT = parseInt(process.env.SINK_HTTP_PORT, 10) || 9090;
+const SMTP_PORT = parseInt(process.env.SINK_SMTP_PORT, 10) || 2525;
+
+const stamp = () => new Date().toISOString();
+
+http.createServer((req, res) => {
+  let body = '';
+  req.on('data', (chunk) => { body += chunk; });
+  req.on('end', () => {
+    const fail = parseInt(new URL(req.url, 'http://sink').searchParams.get('fail'), 10);
+    console.log(`[${stamp()}] HTTP ${req.method} ${req.url}${fail ? ` -> ${fail}` : ''}`);
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+    } catch {
+      console.log(body);
+    }
+    res.writeHead(fail || 200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ ok: !fail }));
+  });
+}).listen(HTTP_PORT, () => console.log(`Webhook sink on http://localhost:${HTTP_PORT}/`));
+
+// Decode the base64 text part the notification service sends
+const printMessage = (data) => {
+  const [head, ...rest] = data.split('\r\n\r\n');
+  const body = rest.join('\r\n\r\n').replace(/^\.\./gm, '.');
+  const text = /Content-Transfer-Encoding: base64/i.test(head)
+    ? Buffer.from(body.replace(/\s+/g, ''), 'base64').toString('utf8')
+    : body;
+  console.log(`${head}\n\n${text}`);
+};
+
+net.createServer((socket) => {
+  let buffer = '';
+  let data = null;
+  let login = 0;
+  const reply = (line) => socket.write(`${line}\r\n`);
+
+  console.log(`[${stamp()}] SMTP connection from ${socket.remoteAddress}`);
+  reply('220 localhost notification sink');
+
+  socket.on('data', (chunk) => {
+    buffer += chunk.toString('utf8');
+    let end;
+    while ((end = buffer.indexOf('\r\n')) !== -1) {
+      const line = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+
+      if (data !== null) {
+        if (line === '.') {
+          printMessage(data);
+          data = null;
+          reply('250 OK: message accepted');
+        } else {
+          data += `${line}\r\n`;
+        }
+        continue;
+      }
+      if (login > 0) {
+        login -= 1;
+        reply(login > 0 ? '334 UGFzc3dvcmQ6' : '235 Authenticated');
+        continue;
+      }
+
+      const command = line.split(' ')[0].toUpperCase();
+      if (command !== 'AUTH') console.log(`  > ${line}`);
+      switch (command) {
+        case 'EHLO':
+          reply('250-localhost');
+          reply('250-AUTH PLAIN LOGIN');
+          reply('250 8BITMIME');
+          break;
+        case 'HELO':
+          reply('250 localhost');
+          break;
+        case 'AUTH':
+          if (/^AUTH LOGIN/i.test(line)) {
+            login = 2;
+            reply('334 VXNlcm5hbWU6');
+          } else {
+            reply('235 Authenticated');
+          }
+          break;
+        case 'MAIL':
+        case 'RCPT':
+        case 'RSET':
+        case 'NOOP':
+          reply('250 OK');
+          break;
+        case 'DATA':
+          data = '';
+          reply('354 End data with <CR><LF>.<CR><LF>');
+          break;
+        case 'QUIT':
+          reply('221 Bye');
+          socket.end();
+          break;
+        default:
+          reply('502 Command not implemented');
+      }
+    }
+  });
+  socket.on('error', () => {});
+}).listen(SMTP_PORT, () => console.log(`SMTP sink on localhost:${SMTP_PORT}`));
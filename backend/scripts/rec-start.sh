@@ -12,20 +12,33 @@ CONFIG_DIR="${CONFIG_DIR:-/opt/brateshub/configs}"
 FIFO_DIR="${FIFO_DIR:-/var/run/brateshub}"
 FIFO="${FIFO_DIR}/channel${PORT}.ts"
 REC_BASE_DIR="${REC_BASE_DIR:-/opt/brateshub/recordings}"
-OUTPUT_DIR="${REC_BASE_DIR}/channel${PORT}"
 
 # Load channel-specific config if exists
 if [ -f "${CONFIG_DIR}/channel${PORT}.env" ]; then
   source "${CONFIG_DIR}/channel${PORT}.env"
 fi
 
+# Recording switched off in the channel config: exit with the status the unit
+# treats as a clean stop without a restart (SuccessExitStatus/RestartPreventExitStatus)
+if [ "${REC_ENABLED:-true}" != "true" ]; then
+  echo "Recording disabled for channel ${PORT}"
+  exit 78
+fi
+
 # Defaults
-REC_SEGMENT_DURATION="${REC_SEGMENT_DURATION:-3600}"  # 1 hour segments
+OUTPUT_DIR="${REC_DIR:-${REC_BASE_DIR}/channel${PORT}}"
+REC_SEGMENT_DURATION="${REC_SEGMENT_DURATION:-3600}"  # 1 hour segments, 0 for one file
 REC_MAX_FILES="${REC_MAX_FILES:-24}"                   # Keep 24 hours
-REC_FORMAT="${REC_FORMAT:-%Y%m%d_%H%M%S}"
+REC_FORMAT="${REC_FORMAT:-rec_%Y%m%d_%H%M%S}"
+REC_REPACK_MP4="${REC_REPACK_MP4:-false}"
+REC_REPACK_DIR="${REC_REPACK_DIR:-${OUTPUT_DIR}}"
+REC_REPACK_INTERVAL="${REC_REPACK_INTERVAL:-30}"
 
 # Create output directory
 mkdir -p "$OUTPUT_DIR"
+if [ "$REC_REPACK_MP4" = "true" ]; then
+  mkdir -p "$REC_REPACK_DIR"
+fi
 
 # Wait for FIFO to exist
 WAIT_COUNT=0
@@ -43,17 +56,71 @@ echo "Starting REC service for channel ${PORT}"
 echo "  Input FIFO: ${FIFO}"
 echo "  Output dir: ${OUTPUT_DIR}"
 echo "  Segment duration: ${REC_SEGMENT_DURATION}s"
+if [ "$REC_REPACK_MP4" = "true" ]; then
+  echo "  Repack to MP4: ${REC_REPACK_DIR}"
+fi
 
 # Generate output filename with timestamp
-OUTPUT_FILE="${OUTPUT_DIR}/rec_$(date +${REC_FORMAT}).ts"
+OUTPUT_FILE="${OUTPUT_DIR}/$(date +"${REC_FORMAT}").ts"
+
+# Segmenting: TSDuck starts a new file (with a time suffix) every REC_SEGMENT_DURATION seconds
+SEGMENT_ARGS=""
+if [ "$REC_SEGMENT_DURATION" -gt 0 ]; then
+  SEGMENT_ARGS="--max-duration ${REC_SEGMENT_DURATION} --max-files ${REC_MAX_FILES}"
+fi
+
+# Copy finished recordings into MP4 without re-encoding. The newest .ts is
+# still being written unless $1 is "all" (after the recorder has stopped).
+repack_recordings() {
+  local newest ts mp4
+  newest=$(ls -t "$OUTPUT_DIR"/*.ts 2>/dev/null | head -n1)
+  for ts in "$OUTPUT_DIR"/*.ts; do
+    [ -f "$ts" ] || continue
+    if [ "$ts" = "$newest" ] && [ "$1" != "all" ]; then
+      continue
+    fi
+    mp4="${REC_REPACK_DIR}/$(basename "${ts%.ts}").mp4"
+    [ -f "$mp4" ] && continue
+    if ffmpeg -hide_banner -loglevel error -nostdin -y -i "$ts" -map 0:v? -map 0:a? -c copy -f mp4 "${mp4}.tmp"; then
+      mv "${mp4}.tmp" "$mp4"
+      echo "Repacked $(basename "$ts") to ${mp4}"
+    else
+      rm -f "${mp4}.tmp"
+      echo "WARNING: failed to repack $(basename "$ts")"
+    fi
+  done
+}
 
 # TSDuck recorder
 # Using -P until for continuous operation
 # The file output plugin handles the actual recording
-exec tsp \
-  -I file "$FIFO" --infinite \
-  -P regulate \
-  -P pcrverify --jitter-max 100 \
-  -O file "$OUTPUT_FILE" \
-    --reopen-on-error \
+TSP_ARGS=(
+  -I file "$FIFO" --infinite
+  -P regulate
+  -P pcrverify --jitter-max 100
+  -O file "$OUTPUT_FILE"
+    --reopen-on-error
     --retry-interval 1000
+    $SEGMENT_ARGS
+)
+
+if [ "$REC_REPACK_MP4" != "true" ]; then
+  exec tsp "${TSP_ARGS[@]}"
+fi
+
+# With repacking the shell stays up: it repacks each segment once TSDuck has
+# moved on to the next one, and the last file after TSDuck stops
+tsp "${TSP_ARGS[@]}" &
+TSP_PID=$!
+trap 'kill -TERM "$TSP_PID" 2>/dev/null' TERM INT
+
+while kill -0 "$TSP_PID" 2>/dev/null; do
+  sleep "$REC_REPACK_INTERVAL" &
+  wait $! || true
+  repack_recordings
+done
+
+TSP_STATUS=0
+wait "$TSP_PID" || TSP_STATUS=$?
+repack_recordings all
+exit "$TSP_STATUS"
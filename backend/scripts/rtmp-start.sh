@@ -1,7 +1,7 @@
 #!/bin/bash
 #
 # RTMP Service - RTMP output using FFmpeg
-# Remuxes transport stream to RTMP (copy codecs, no re-encoding)
+# Remuxes transport stream to RTMP, transcoding when the channel config asks for it
 # Usage: rtmp-start.sh <port>
 #
 
@@ -17,10 +17,20 @@ if [ -f "${CONFIG_DIR}/channel${PORT}.env" ]; then
   source "${CONFIG_DIR}/channel${PORT}.env"
 fi
 
+# RTMP output switched off in the channel config: exit with the status the unit
+# treats as a clean stop without a restart (SuccessExitStatus/RestartPreventExitStatus)
+if [ "${RTMP_ENABLED:-true}" != "true" ]; then
+  echo "RTMP output disabled for channel ${PORT}"
+  exit 78
+fi
+
 # Defaults
 RTMP_URL="${RTMP_URL:-rtmp://localhost/live/channel${PORT}}"
 RTMP_RECONNECT="${RTMP_RECONNECT:-1}"
 RTMP_RECONNECT_DELAY="${RTMP_RECONNECT_DELAY:-5}"
+RTMP_VIDEO_CODEC="${RTMP_VIDEO_CODEC:-copy}"
+RTMP_AUDIO_CODEC="${RTMP_AUDIO_CODEC:-copy}"
+RTMP_AUDIO_PAIR="${RTMP_AUDIO_PAIR:-primary}"
 
 # Wait for FIFO to exist
 WAIT_COUNT=0
@@ -36,18 +46,51 @@ done
 
 echo "Starting RTMP service for channel ${PORT}"
 echo "  Input FIFO: ${FIFO}"
-echo "  Output URL: ${RTMP_URL}"
+echo "  Output URL: ${RTMP_URL%/*}/***"
+echo "  Video: ${RTMP_VIDEO_CODEC}, audio: ${RTMP_AUDIO_CODEC} (${RTMP_AUDIO_PAIR})"
+
+# Streams: first video, if any (audio-only sources still stream), plus the selected audio pair
+MAP_ARGS="-map 0:v:0?"
+case "$RTMP_AUDIO_PAIR" in
+  secondary) MAP_ARGS="$MAP_ARGS -map 0:a:1?" ;;
+  both)      MAP_ARGS="$MAP_ARGS -map 0:a:0? -map 0:a:1?" ;;
+  *)         MAP_ARGS="$MAP_ARGS -map 0:a:0?" ;;
+esac
+
+VIDEO_ARGS="-c:v ${RTMP_VIDEO_CODEC}"
+if [ "$RTMP_VIDEO_CODEC" != "copy" ]; then
+  VIDEO_ARGS="$VIDEO_ARGS -preset ${RTMP_VIDEO_PRESET:-veryfast}"
+  if [ -n "$RTMP_VIDEO_BITRATE" ]; then
+    VIDEO_ARGS="$VIDEO_ARGS -b:v ${RTMP_VIDEO_BITRATE}k -maxrate ${RTMP_VIDEO_BITRATE}k -bufsize $((RTMP_VIDEO_BITRATE * 2))k"
+  fi
+  if [ -n "$RTMP_VIDEO_WIDTH" ] && [ -n "$RTMP_VIDEO_HEIGHT" ]; then
+    VIDEO_ARGS="$VIDEO_ARGS -vf scale=${RTMP_VIDEO_WIDTH}:${RTMP_VIDEO_HEIGHT}"
+  fi
+  if [ -n "$RTMP_VIDEO_FPS" ]; then
+    VIDEO_ARGS="$VIDEO_ARGS -r ${RTMP_VIDEO_FPS}"
+  fi
+  if [ -n "$RTMP_GOP" ]; then
+    VIDEO_ARGS="$VIDEO_ARGS -g ${RTMP_GOP}"
+  fi
+fi
+
+AUDIO_ARGS="-c:a ${RTMP_AUDIO_CODEC}"
+if [ "$RTMP_AUDIO_CODEC" != "copy" ]; then
+  AUDIO_ARGS="$AUDIO_ARGS -b:a ${RTMP_AUDIO_BITRATE:-192}k -ar ${RTMP_AUDIO_RATE:-48000}"
+fi
 
 # FFmpeg RTMP output
 # -re: Read input at native frame rate (important for live streaming)
-# -c copy: Copy codecs without re-encoding (preserves quality)
+# MAP/VIDEO/AUDIO_ARGS: stream selection and codecs from the channel config
+#   (copy passes streams through without re-encoding)
 # -f flv: FLV container for RTMP
 # -flvflags no_duration_filesize: Better for live streaming
 exec ffmpeg -hide_banner \
   -re \
   -i "$FIFO" \
-  -c:v copy \
-  -c:a copy \
+  $MAP_ARGS \
+  $VIDEO_ARGS \
+  $AUDIO_ARGS \
   -f flv \
   -flvflags no_duration_filesize \
   "$RTMP_URL"
@@ -22,6 +22,8 @@ SRT_LATENCY="${SRT_LATENCY:-200}"
 SRT_RCVBUF="${SRT_RCVBUF:-12288000}"
 SRT_PASSPHRASE="${SRT_PASSPHRASE:-}"
 SRT_MODE="${SRT_MODE:-listener}"
+SRT_PORT="${SRT_PORT:-${PORT}}"
+MULTICAST_ENABLED="${MULTICAST_ENABLED:-false}"
 
 # Create FIFO directory if not exists
 mkdir -p "$FIFO_DIR"
@@ -34,28 +36,66 @@ fi
 
 echo "Starting RX service on port ${PORT}"
 echo "  Mode: ${SRT_MODE}"
+echo "  Port: ${SRT_PORT}"
 echo "  Latency: ${SRT_LATENCY}ms"
 echo "  Output FIFO: ${FIFO}"
 
-# Build TSDuck command
-TSP_CMD="tsp -I srt"
+# Build TSDuck command as an array so values with spaces or glob characters stay one argument
+TSP_ARGS=(-I srt)
 
 if [ "$SRT_MODE" = "listener" ]; then
-  TSP_CMD="$TSP_CMD --listener --localport ${PORT}"
+  TSP_ARGS+=(--listener --localport "${SRT_PORT}")
 else
   # Caller mode - connect to remote
-  TSP_CMD="$TSP_CMD --caller ${SRT_CALLER_HOST}:${SRT_CALLER_PORT:-${PORT}}"
+  TSP_ARGS+=(--caller "${SRT_CALLER_HOST}:${SRT_CALLER_PORT:-${PORT}}")
 fi
 
-TSP_CMD="$TSP_CMD --latency ${SRT_LATENCY} --rcvbuf ${SRT_RCVBUF}"
+TSP_ARGS+=(--latency "${SRT_LATENCY}" --rcvbuf "${SRT_RCVBUF}")
+
+if [ -n "$SRT_STREAMID" ]; then
+  TSP_ARGS+=(--streamid "${SRT_STREAMID}")
+fi
+
+if [ -n "$SRT_OHEADBW" ]; then
+  TSP_ARGS+=(--ohead-bandwidth "${SRT_OHEADBW}")
+fi
+
+# Max bitrate is configured in Mbps (possibly fractional), SRT takes whole bytes per second
+if [ -n "$SRT_MAXBW_MBPS" ]; then
+  SRT_MAXBW_BYTES=$(awk -v mbps="$SRT_MAXBW_MBPS" 'BEGIN { printf "%d", mbps * 125000 }')
+  TSP_ARGS+=(--max-bandwidth "${SRT_MAXBW_BYTES}")
+fi
 
 # Add passphrase if set
 if [ -n "$SRT_PASSPHRASE" ]; then
-  TSP_CMD="$TSP_CMD --passphrase ${SRT_PASSPHRASE}"
+  TSP_ARGS+=(--passphrase "${SRT_PASSPHRASE}")
+  if [ -n "$SRT_PBKEYLEN" ]; then
+    TSP_ARGS+=(--pbkeylen "${SRT_PBKEYLEN}")
+  fi
+fi
+
+# Copy the stream to a multicast group, sent from the configured interface's address
+if [ "$MULTICAST_ENABLED" = "true" ] && [ -n "$MULTICAST_DST" ]; then
+  TSP_ARGS+=(-P tee ip "${MULTICAST_DST}")
+  if [ -n "$MULTICAST_INTERFACE" ]; then
+    LOCAL_ADDR=$(ip -4 -o addr show dev "$MULTICAST_INTERFACE" 2>/dev/null | awk '{print $4}' | cut -d/ -f1 | head -n1)
+    if [ -n "$LOCAL_ADDR" ]; then
+      TSP_ARGS+=(--local-address "${LOCAL_ADDR}")
+    fi
+  fi
 fi
 
 # Add analysis plugin for monitoring
-TSP_CMD="$TSP_CMD -P analyze --interval 10 -O file ${FIFO}"
+TSP_ARGS+=(-P analyze --interval 10 -O file "${FIFO}")
 
-echo "Executing: ${TSP_CMD}"
-exec $TSP_CMD
+# The journal is readable through /api/logs, so the passphrase is masked in the echo
+LOGGED_ARGS=()
+for ARG in "${TSP_ARGS[@]}"; do
+  if [ -n "$SRT_PASSPHRASE" ] && [ "$ARG" = "$SRT_PASSPHRASE" ]; then
+    LOGGED_ARGS+=("******")
+  else
+    LOGGED_ARGS+=("$ARG")
+  fi
+done
+echo "Executing: tsp ${LOGGED_ARGS[*]}"
+exec tsp "${TSP_ARGS[@]}"
@@ -16,6 +16,19 @@ module.exports = {
   // Optional API key for security
   apiKey: process.env.API_KEY || null,
   
+  // Optional bearer tokens (comma-separated), accepted alongside the API key
+  apiTokens: (process.env.API_TOKENS || '')
+    .split(',')
+    .map(token => token.trim())
+    .filter(Boolean),
+  
+  // User accounts; the first admin is created from these when there are no users yet
+  auth: {
+    adminUsername: process.env.ADMIN_USERNAME || 'admin',
+    adminPassword: process.env.ADMIN_PASSWORD || null,
+    sessionTtlHours: parseInt(process.env.SESSION_TTL_HOURS, 10) || 12,
+  },
+  
   // iLO configuration
   ilo: {
     host: process.env.ILO_HOST || null,
@@ -37,6 +50,18 @@ module.exports = {
   // Config file paths
   configPath: process.env.CONFIG_PATH || '/etc/brateshub',
   
+  // Directory of the channel<PORT>.env files read by the start scripts
+  // (default /opt/brateshub/configs, or CONFIG_PATH/env in development)
+  channelEnvPath: process.env.CHANNEL_ENV_PATH || null,
+  
   // Log settings
   logMaxLines: parseInt(process.env.LOG_MAX_LINES, 10) || 200,
+  
+  // Live monitor polling (pushed to clients via /api/events)
+  monitor: {
+    statusIntervalMs: parseInt(process.env.MONITOR_STATUS_INTERVAL_MS, 10) || 5000,
+    bitrateIntervalMs: parseInt(process.env.MONITOR_BITRATE_INTERVAL_MS, 10) || 2000,
+    pidIntervalMs: parseInt(process.env.MONITOR_PID_INTERVAL_MS, 10) || 10000,
+    heartbeatIntervalMs: parseInt(process.env.MONITOR_HEARTBEAT_INTERVAL_MS, 10) || 15000,
+  },
 };
@@ -0,0 +1,128 @@
+/**
+ * Alert routes
+ * Alerts raised by the rule engine, and the rules themselves
+ */
+
+const express = require('express');
+const router = express.Router();
+const alertService = require('../services/alertService');
+const alertRuleStore = require('../services/alertRuleStore');
+const { requireRole } = require('../services/authService');
+const logger = require('../utils/logger');
+
+const ALERT_STATES = ['firing', 'acknowledged', 'resolved'];
+
+// GET /api/alerts/rules - All alert rules
+router.get('/rules', (req, res) => {
+  try {
+    res.json({ success: true, data: alertRuleStore.loadRules() });
+  } catch (error) {
+    logger.error('Failed to get alert rules:', error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// POST /api/alerts/rules - Add a rule
+router.post('/rules', requireRole('engineer'), (req, res) => {
+  try {
+    const { rule, errors } = alertRuleStore.createRule(req.body || {});
+    if (errors) {
+      return res.status(400).json({ success: false, error: errors.join('; ') });
+    }
+    logger.info(`Alert rule created: ${rule.name}`);
+    res.status(201).json({ success: true, data: rule });
+  } catch (error) {
+    logger.error('Failed to create alert rule:', error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// PUT /api/alerts/rules/:id - Update a rule; omitted fields keep their current value
+router.put('/rules/:id', requireRole('engineer'), (req, res) => {
+  try {
+    const result = alertRuleStore.updateRule(req.params.id, req.body || {});
+    if (!result) {
+      return res.status(404).json({ success: false, error: `Alert rule ${req.params.id} not found` });
+    }
+    if (result.errors) {
+      return res.status(400).json({ success: false, error: result.errors.join('; ') });
+    }
+    logger.info(`Alert rule updated: ${result.rule.name}`);
+    res.json({ success: true, data: result.rule });
+  } catch (error) {
+    logger.error(`Failed to update alert rule ${req.params.id}:`, error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// DELETE /api/alerts/rules/:id - Delete a rule; its open alerts resolve on the next evaluation
+router.delete('/rules/:id', requireRole('engineer'), (req, res) => {
+  try {
+    if (!alertRuleStore.deleteRule(req.params.id)) {
+      return res.status(404).json({ success: false, error: `Alert rule ${req.params.id} not found` });
+    }
+    logger.info(`Alert rule deleted: ${req.params.id}`);
+    res.json({ success: true });
+  } catch (error) {
+    logger.error(`Failed to delete alert rule ${req.params.id}:`, error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// GET /api/alerts - Open alerts, then resolved ones, newest first
+// Query: state (comma-separated: firing, acknowledged, resolved), limit
+router.get('/', (req, res) => {
+  try {
+    const states = req.query.state ? String(req.query.state).split(',') : undefined;
+    if (states && !states.every(state => ALERT_STATES.includes(state))) {
+      return res.status(400).json({ success: false, error: `state must be one of ${ALERT_STATES.join(', ')}` });
+    }
+    const limit = req.query.limit ? parseInt(req.query.limit, 10) : 200;
+    if (Number.isNaN(limit) || limit < 1) {
+      return res.status(400).json({ success: false, error: 'limit must be a positive number' });
+    }
+
+    res.json({ success: true, data: alertService.listAlerts({ states, limit }) });
+  } catch (error) {
+    logger.error('Failed to get alerts:', error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// POST /api/alerts/:id/acknowledge - Acknowledge a firing alert
+router.post('/:id/acknowledge', requireRole('operator'), (req, res) => {
+  try {
+    const alert = alertService.acknowledge(req.params.id);
+    if (!alert) {
+      return res.status(404).json({ success: false, error: `No open alert ${req.params.id}` });
+    }
+    res.json({ success: true, data: alert });
+  } catch (error) {
+    logger.error(`Failed to acknowledge alert ${req.params.id}:`, error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// POST /api/alerts/:id/silence - Silence the alert's rule and subject
+// Body: { durationMinutes } (0 lifts the silence)
+router.post('/:id/silence', requireRole('operator'), (req, res) => {
+  try {
+    const { durationMinutes } = req.body || {};
+    if (!Number.isFinite(durationMinutes) || durationMinutes < 0 || durationMinutes > 10080) {
+      return res.status(400).json({ success: false, error: 'durationMinutes must be between 0 and 10080 (7 days)' });
+    }
+    const alert = alertService.silence(req.params.id, durationMinutes);
+    if (!alert) {
+      return res.status(404).json({ success: false, error: `Alert ${req.params.id} not found` });
+    }
+    logger.info(durationMinutes > 0
+      ? `Alert silenced for ${durationMinutes} min: ${alert.ruleName} - ${alert.message}`
+      : `Alert silence lifted: ${alert.ruleName} - ${alert.message}`);
+    res.json({ success: true, data: alert });
+  } catch (error) {
+    logger.error(`Failed to silence alert ${req.params.id}:`, error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+module.exports = router;
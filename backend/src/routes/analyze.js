@@ -7,6 +7,11 @@ const express = require('express');
 const router = express.Router();
 const config = require('../config');
 const tsanalyzeService = require('../services/tsanalyzeService');
+const bitrateHistoryService = require('../services/bitrateHistoryService');
+const pidHistoryService = require('../services/pidHistoryService');
+const tr101290Service = require('../services/tr101290Service');
+const channelStore = require('../services/channelStore');
+const { requireRole } = require('../services/authService');
 const logger = require('../utils/logger');
 
 // Helper to get channel IDs
@@ -84,6 +89,122 @@ router.get('/:channelId/bitrate', async (req, res) => {
   }
 });
 
+// Accepts ISO timestamps or epoch milliseconds
+const parseTime = (value) => {
+  if (value === undefined) return null;
+  const time = /^\d+$/.test(value) ? parseInt(value, 10) : Date.parse(value);
+  return Number.isNaN(time) ? NaN : time;
+};
+
+// GET /api/analyze/:channelId/history - Recorded bitrate and markers for a time window
+// Query: from, to (default: the last hour), maxPoints (default 500)
+router.get('/:channelId/history', (req, res) => {
+  try {
+    const channelId = parseInt(req.params.channelId, 10);
+    if (!channelStore.getChannelIds().includes(channelId)) {
+      return res.status(404).json({
+        success: false,
+        error: `Channel ${channelId} not found`,
+      });
+    }
+
+    const to = parseTime(req.query.to) ?? Date.now();
+    const from = parseTime(req.query.from) ?? to - 3_600_000;
+    const maxPoints = req.query.maxPoints ? parseInt(req.query.maxPoints, 10) : undefined;
+    if (Number.isNaN(from) || Number.isNaN(to) || from >= to) {
+      return res.status(400).json({ success: false, error: 'from and to must be valid times with from before to' });
+    }
+    if (maxPoints !== undefined && (Number.isNaN(maxPoints) || maxPoints < 10 || maxPoints > 5000)) {
+      return res.status(400).json({ success: false, error: 'maxPoints must be between 10 and 5000' });
+    }
+
+    res.json({ success: true, data: bitrateHistoryService.query(channelId, from, to, maxPoints) });
+  } catch (error) {
+    logger.error(`Failed to get bitrate history for channel ${req.params.channelId}:`, error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// GET /api/analyze/:channelId/pids - Per-PID history, error counters and baseline comparison
+router.get('/:channelId/pids', (req, res) => {
+  try {
+    const channelId = parseInt(req.params.channelId, 10);
+    if (!channelStore.getChannelIds().includes(channelId)) {
+      return res.status(404).json({
+        success: false,
+        error: `Channel ${channelId} not found`,
+      });
+    }
+
+    res.json({ success: true, data: pidHistoryService.query(channelId) });
+  } catch (error) {
+    logger.error(`Failed to get PID history for channel ${req.params.channelId}:`, error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// POST /api/analyze/:channelId/pids/reset - Zero the error counters and/or retake the baseline
+// Body: { counters?: boolean, baseline?: boolean } (both default to true)
+router.post('/:channelId/pids/reset', requireRole('operator'), (req, res) => {
+  try {
+    const channelId = parseInt(req.params.channelId, 10);
+    if (!channelStore.getChannelIds().includes(channelId)) {
+      return res.status(404).json({
+        success: false,
+        error: `Channel ${channelId} not found`,
+      });
+    }
+
+    const { counters = true, baseline = true } = req.body || {};
+    if (typeof counters !== 'boolean' || typeof baseline !== 'boolean') {
+      return res.status(400).json({ success: false, error: 'counters and baseline must be booleans' });
+    }
+
+    logger.info(`Resetting PID ${[counters && 'counters', baseline && 'baseline'].filter(Boolean).join(' and ')} for channel ${channelId}`);
+    res.json({ success: true, data: pidHistoryService.reset(channelId, { counters, baseline }) });
+  } catch (error) {
+    logger.error(`Failed to reset PID history for channel ${req.params.channelId}:`, error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// GET /api/analyze/:channelId/tr101290 - TR 101 290 priority 1 and 2 indicators with counters
+router.get('/:channelId/tr101290', (req, res) => {
+  try {
+    const channelId = parseInt(req.params.channelId, 10);
+    if (!channelStore.getChannelIds().includes(channelId)) {
+      return res.status(404).json({
+        success: false,
+        error: `Channel ${channelId} not found`,
+      });
+    }
+
+    res.json({ success: true, data: tr101290Service.query(channelId) });
+  } catch (error) {
+    logger.error(`Failed to get TR 101 290 status for channel ${req.params.channelId}:`, error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// POST /api/analyze/:channelId/tr101290/reset - Zero the TR 101 290 counters
+router.post('/:channelId/tr101290/reset', requireRole('operator'), (req, res) => {
+  try {
+    const channelId = parseInt(req.params.channelId, 10);
+    if (!channelStore.getChannelIds().includes(channelId)) {
+      return res.status(404).json({
+        success: false,
+        error: `Channel ${channelId} not found`,
+      });
+    }
+
+    logger.info(`Resetting TR 101 290 counters for channel ${channelId}`);
+    res.json({ success: true, data: tr101290Service.reset(channelId) });
+  } catch (error) {
+    logger.error(`Failed to reset TR 101 290 counters for channel ${req.params.channelId}:`, error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
 // GET /api/analyze - Get analysis summary for all channels
 router.get('/', async (req, res) => {
   try {
@@ -0,0 +1,60 @@
+/**
+ * Audit routes
+ * Searchable trail of operator actions
+ */
+
+const express = require('express');
+const router = express.Router();
+const auditService = require('../services/auditService');
+const { requireRole } = require('../services/authService');
+const logger = require('../utils/logger');
+
+const CATEGORIES = [...new Set(auditService.ACTIONS.map(action => action.split('.')[0]))];
+
+// Milliseconds since the epoch or an ISO date
+const parseTime = (value) => {
+  if (value === undefined || value === '') return undefined;
+  const time = /^\d+$/.test(value) ? parseInt(value, 10) : Date.parse(value);
+  return Number.isNaN(time) ? NaN : time;
+};
+
+// GET /api/audit - Audit entries, newest first: { total, entries }
+// Query: action (e.g. service.restart, or a category such as service), actor,
+// channelId, outcome, from, to, search, offset, limit (default 50, max 5000)
+// Engineers and admins only: the trail holds configs and who signed in from where
+router.get('/', requireRole('engineer'), (req, res) => {
+  const { action, actor, outcome, search } = req.query;
+  const channelId = req.query.channelId ? parseInt(req.query.channelId, 10) : undefined;
+  const from = parseTime(req.query.from);
+  const to = parseTime(req.query.to);
+  const offset = req.query.offset ? parseInt(req.query.offset, 10) : 0;
+  const limit = req.query.limit ? parseInt(req.query.limit, 10) : 50;
+
+  if (action && !auditService.ACTIONS.includes(action) && !CATEGORIES.includes(action)) {
+    return res.status(400).json({ success: false, error: `Invalid action. Valid: ${[...CATEGORIES, ...auditService.ACTIONS].join(', ')}` });
+  }
+  if (outcome && !auditService.OUTCOMES.includes(outcome)) {
+    return res.status(400).json({ success: false, error: `outcome must be one of ${auditService.OUTCOMES.join(', ')}` });
+  }
+  if (Number.isNaN(channelId)) {
+    return res.status(400).json({ success: false, error: 'channelId must be a number' });
+  }
+  if (Number.isNaN(from) || Number.isNaN(to)) {
+    return res.status(400).json({ success: false, error: 'from and to must be valid times' });
+  }
+  if (Number.isNaN(offset) || offset < 0 || Number.isNaN(limit) || limit < 1 || limit > 5000) {
+    return res.status(400).json({ success: false, error: 'offset must be 0 or more and limit between 1 and 5000' });
+  }
+
+  try {
+    res.json({
+      success: true,
+      data: auditService.query({ action, actor, channelId, outcome, from, to, search, offset, limit }),
+    });
+  } catch (error) {
+    logger.error('Failed to get audit log:', error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+module.exports = router;
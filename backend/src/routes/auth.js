@@ -0,0 +1,62 @@
+/**
+ * Auth routes
+ * Sign in and out, and who the current credentials belong to
+ */
+
+const express = require('express');
+const router = express.Router();
+const authService = require('../services/authService');
+const auditService = require('../services/auditService');
+const logger = require('../utils/logger');
+
+// POST /api/auth/login - Sign in with { username, password }: { token, expiresAt, user }
+router.post('/login', (req, res) => {
+  const { username, password } = req.body || {};
+  if (typeof username !== 'string' || typeof password !== 'string' || !username || !password) {
+    return res.status(400).json({ success: false, error: 'username and password are required' });
+  }
+
+  const result = authService.login(req, username, password);
+  if (result.error) {
+    logger.warn(`Failed sign-in as ${username} from ${req.ip}`);
+    auditService.record(req, {
+      action: 'auth.login',
+      summary: `Failed sign-in as ${username}`,
+      outcome: 'failure',
+      error: result.error,
+    });
+    return res.status(result.status).json({ success: false, error: result.error });
+  }
+
+  logger.info(`User ${result.user.username} signed in`);
+  // The request itself carried no identity yet
+  req.user = { id: result.user.id, username: result.user.username, role: result.user.role };
+  req.credential = 'session';
+  auditService.record(req, { action: 'auth.login', summary: `${result.user.username} signed in` });
+  res.json({ success: true, data: result });
+});
+
+// POST /api/auth/logout - End the session the request was made with
+router.post('/logout', (req, res) => {
+  const header = req.headers.authorization || '';
+  if (req.credential === 'session' && header.startsWith('Bearer ')) {
+    authService.logout(header.slice(7).trim());
+  }
+  res.json({ success: true, message: 'Signed out' });
+});
+
+// GET /api/auth/me - The current user and role; username is null for the API
+// key, API tokens and backends without accounts, which all act as admin
+router.get('/me', (req, res) => {
+  res.json({
+    success: true,
+    data: {
+      username: req.user.username,
+      role: req.user.role,
+      credential: req.credential,
+      authEnabled: authService.authEnabled(),
+    },
+  });
+});
+
+module.exports = router;
@@ -5,72 +5,22 @@
 
 const express = require('express');
 const router = express.Router();
-const fs = require('fs');
-const path = require('path');
-const config = require('../config');
 const systemdService = require('../services/systemdService');
+const { loadChannels, saveChannels, getAppliedConfig, setAppliedConfig, removeAppliedConfig } = require('../services/channelStore');
+const eventService = require('../services/eventService');
+const configApplyService = require('../services/configApplyService');
+const configHistoryService = require('../services/configHistoryService');
+const channelEnvService = require('../services/channelEnvService');
+const bitrateHistoryService = require('../services/bitrateHistoryService');
+const pidHistoryService = require('../services/pidHistoryService');
+const tr101290Service = require('../services/tr101290Service');
+const serviceEventService = require('../services/serviceEventService');
+const auditService = require('../services/auditService');
+const { getDefaultChannelConfig } = require('../services/settingsStore');
+const { requireRole } = require('../services/authService');
 const logger = require('../utils/logger');
 
-// Channels storage file
-const CHANNELS_FILE = path.join(config.configPath, 'channels.json');
-
-// Ensure config directory exists
-function ensureConfigDir() {
-  if (!fs.existsSync(config.configPath)) {
-    fs.mkdirSync(config.configPath, { recursive: true });
-  }
-}
-
-// Load channels from file
-function loadChannels() {
-  ensureConfigDir();
-  if (!fs.existsSync(CHANNELS_FILE)) {
-    // Return empty array if file doesn't exist
-    return [];
-  }
-  try {
-    const data = fs.readFileSync(CHANNELS_FILE, 'utf8');
-    return JSON.parse(data);
-  } catch (error) {
-    logger.error('Failed to load channels file:', error.message);
-    return [];
-  }
-}
-
-// Save channels to file
-function saveChannels(channels) {
-  ensureConfigDir();
-  fs.writeFileSync(CHANNELS_FILE, JSON.stringify(channels, null, 2));
-}
-
-// Get default channel config
-function getDefaultChannelConfig(id, name) {
-  return {
-    channelId: id,
-    name: name || `Channel ${id}`,
-    rx: {
-      srt: {
-        mode: 'listener',
-        listenPort: 5000 + id,
-        latencyMs: 200,
-      },
-      multicastEnabled: false,
-    },
-    rec: {
-      recordEnabled: false,
-      recordPath: `/srv/recordings/ch${id}`,
-      filenameTemplate: `ch${id}_%Y%m%d_%H%M%S`,
-      repackToMp4: false,
-    },
-    rtmp: {
-      rtmpEnabled: false,
-      videoCodec: 'copy',
-      audioCodec: 'copy',
-      audioPair: 'primary',
-      qualityPreset: 'passthrough',
-    },
-  };
-}
+const validServices = ['rx', 'rec', 'rtmp'];
 
 // GET /api/channels - List all channels with service status
 router.get('/', async (req, res) => {
@@ -166,7 +116,7 @@ router.get('/:id', async (req, res) => {
 });
 
 // POST /api/channels - Create new channel
-router.post('/', async (req, res) => {
+router.post('/', requireRole('engineer'), async (req, res) => {
   try {
     const { name, channelId } = req.body;
     
@@ -187,19 +137,35 @@ router.post('/', async (req, res) => {
       });
     }
     
-    // Create new channel with default config
+    // Create new channel from the global defaults
     const newChannel = getDefaultChannelConfig(channelId, name);
     
-    // Merge any provided config
-    if (req.body.rx) newChannel.rx = { ...newChannel.rx, ...req.body.rx };
+    // Merge any provided config; SRT settings merge field by field so partial ones keep the defaults
+    if (req.body.rx) {
+      newChannel.rx = { ...newChannel.rx, ...req.body.rx, srt: { ...newChannel.rx.srt, ...req.body.rx.srt } };
+    }
     if (req.body.rec) newChannel.rec = { ...newChannel.rec, ...req.body.rec };
     if (req.body.rtmp) newChannel.rtmp = { ...newChannel.rtmp, ...req.body.rtmp };
+    if (typeof req.body.extraArgs === 'string') newChannel.extraArgs = req.body.extraArgs;
+    if (Array.isArray(req.body.tags)) newChannel.tags = req.body.tags.filter(tag => typeof tag === 'string');
+    if (typeof req.body.group === 'string') newChannel.group = req.body.group;
     
     channels.push(newChannel);
     channels.sort((a, b) => a.channelId - b.channelId);
+    channelEnvService.writeChannelEnv(newChannel);
     saveChannels(channels);
+    // Services of a new channel have never run, so they will start with exactly this config
+    setAppliedConfig(channelId, newChannel);
+    configHistoryService.recordVersion(channelId, newChannel, 'create', configHistoryService.changeFromRequest(req));
     
     logger.info(`Channel ${channelId} created: ${name}`);
+    auditService.record(req, {
+      action: 'channel.create',
+      channelId,
+      summary: `Created channel ${channelId}${name ? ` (${name})` : ''}`,
+      after: newChannel,
+    });
+    eventService.publish('channels-changed', { reason: 'created', channelId });
     res.status(201).json({ success: true, data: newChannel });
   } catch (error) {
     logger.error('Failed to create channel:', error.message);
@@ -208,7 +174,7 @@ router.post('/', async (req, res) => {
 });
 
 // PUT /api/channels/:id - Update channel
-router.put('/:id', async (req, res) => {
+router.put('/:id', requireRole('engineer'), async (req, res) => {
   try {
     const id = parseInt(req.params.id, 10);
     const channels = loadChannels();
@@ -218,6 +184,10 @@ router.put('/:id', async (req, res) => {
       return res.status(404).json({ success: false, error: `Channel ${id} not found` });
     }
     
+    if (configApplyService.isApplying(id)) {
+      return res.status(409).json({ success: false, error: `An apply is in progress for channel ${id}` });
+    }
+    
     // Update channel config
     const updatedChannel = {
       ...channels[index],
@@ -225,10 +195,21 @@ router.put('/:id', async (req, res) => {
       channelId: id, // Prevent changing ID
     };
     
+    const previous = channels[index];
     channels[index] = updatedChannel;
+    channelEnvService.writeChannelEnv(updatedChannel);
     saveChannels(channels);
+    configHistoryService.recordVersion(id, updatedChannel, 'update', configHistoryService.changeFromRequest(req), previous);
     
     logger.info(`Channel ${id} updated`);
+    auditService.record(req, {
+      action: 'channel.update',
+      channelId: id,
+      summary: `Updated channel ${id}`,
+      before: previous,
+      after: updatedChannel,
+    });
+    eventService.publish('channels-changed', { reason: 'updated', channelId: id });
     res.json({ success: true, data: updatedChannel });
   } catch (error) {
     logger.error(`Failed to update channel ${req.params.id}:`, error.message);
@@ -237,7 +218,7 @@ router.put('/:id', async (req, res) => {
 });
 
 // DELETE /api/channels/:id - Delete channel
-router.delete('/:id', async (req, res) => {
+router.delete('/:id', requireRole('engineer'), async (req, res) => {
   try {
     const id = parseInt(req.params.id, 10);
     const channels = loadChannels();
@@ -247,6 +228,10 @@ router.delete('/:id', async (req, res) => {
       return res.status(404).json({ success: false, error: `Channel ${id} not found` });
     }
     
+    if (configApplyService.isApplying(id)) {
+      return res.status(409).json({ success: false, error: `An apply is in progress for channel ${id}` });
+    }
+    
     // Stop all services first
     await Promise.all([
       systemdService.controlService(id, 'rx', 'stop').catch(() => {}),
@@ -254,10 +239,23 @@ router.delete('/:id', async (req, res) => {
       systemdService.controlService(id, 'rtmp', 'stop').catch(() => {}),
     ]);
     
-    channels.splice(index, 1);
+    const [removed] = channels.splice(index, 1);
     saveChannels(channels);
+    removeAppliedConfig(id);
+    configHistoryService.removeHistory(id);
+    bitrateHistoryService.removeHistory(id);
+    pidHistoryService.removeHistory(id);
+    tr101290Service.removeHistory(id);
+    serviceEventService.removeHistory(id);
     
     logger.info(`Channel ${id} deleted`);
+    auditService.record(req, {
+      action: 'channel.delete',
+      channelId: id,
+      summary: `Deleted channel ${id}${removed.name ? ` (${removed.name})` : ''}`,
+      before: removed,
+    });
+    eventService.publish('channels-changed', { reason: 'deleted', channelId: id });
     res.json({ success: true, message: `Channel ${id} deleted` });
   } catch (error) {
     logger.error(`Failed to delete channel ${req.params.id}:`, error.message);
@@ -283,8 +281,60 @@ router.get('/:id/config', async (req, res) => {
   }
 });
 
+// GET /api/channels/:id/applied - Config the channel's services are running with
+// data is null when it is not known (channel created before tracking started)
+router.get('/:id/applied', async (req, res) => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    
+    if (!loadChannels().some(c => c.channelId === id)) {
+      return res.status(404).json({ success: false, error: `Channel ${id} not found` });
+    }
+    
+    res.json({ success: true, data: getAppliedConfig(id) });
+  } catch (error) {
+    logger.error(`Failed to get applied config for channel ${req.params.id}:`, error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// GET /api/channels/:id/history - Saved versions of the channel config, newest first.
+// Versions keep their secrets so they can be restored, so only engineers can read them.
+router.get('/:id/history', requireRole('engineer'), async (req, res) => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    
+    if (!loadChannels().some(c => c.channelId === id)) {
+      return res.status(404).json({ success: false, error: `Channel ${id} not found` });
+    }
+    
+    res.json({ success: true, data: configHistoryService.getVersions(id) });
+  } catch (error) {
+    logger.error(`Failed to get config history for channel ${req.params.id}:`, error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// GET /api/channels/:id/env - Env file rendered from the stored config (secrets masked),
+// and whether the file on disk matches it
+router.get('/:id/env', async (req, res) => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    const channelConfig = loadChannels().find(c => c.channelId === id);
+    
+    if (!channelConfig) {
+      return res.status(404).json({ success: false, error: `Channel ${id} not found` });
+    }
+    
+    res.json({ success: true, data: channelEnvService.getEnvStatus(channelConfig) });
+  } catch (error) {
+    logger.error(`Failed to get env for channel ${req.params.id}:`, error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
 // PUT /api/channels/:id/config - Update channel configuration
-router.put('/:id/config', async (req, res) => {
+router.put('/:id/config', requireRole('engineer'), async (req, res) => {
   try {
     const id = parseInt(req.params.id, 10);
     const channels = loadChannels();
@@ -294,18 +344,37 @@ router.put('/:id/config', async (req, res) => {
       return res.status(404).json({ success: false, error: `Channel ${id} not found` });
     }
     
+    if (configApplyService.isApplying(id)) {
+      return res.status(409).json({ success: false, error: `An apply is in progress for channel ${id}` });
+    }
+    
     const configData = req.body;
     
+    // Untracked channel: assume its services run the config being replaced, so the save shows as not applied
+    if (!getAppliedConfig(id)) setAppliedConfig(id, channels[index]);
+    
     // Merge config, preserving channelId
+    const previous = channels[index];
     channels[index] = {
       ...channels[index],
       ...configData,
       channelId: id,
     };
     
+    // Services read the env file when they start, so a saved config takes effect on their next restart
+    channelEnvService.writeChannelEnv(channels[index]);
     saveChannels(channels);
+    configHistoryService.recordVersion(id, channels[index], 'save', configHistoryService.changeFromRequest(req), previous);
     
     logger.info(`Config updated for channel ${id}`);
+    auditService.record(req, {
+      action: 'config.save',
+      channelId: id,
+      summary: `Saved config of channel ${id}`,
+      before: previous,
+      after: channels[index],
+    });
+    eventService.publish('channels-changed', { reason: 'updated', channelId: id });
     res.json({ success: true, message: 'Configuration saved' });
   } catch (error) {
     logger.error(`Failed to save config for channel ${req.params.id}:`, error.message);
@@ -313,4 +382,64 @@ router.put('/:id/config', async (req, res) => {
   }
 });
 
+// POST /api/channels/:id/apply - Save config, restart services and verify, rolling back on failure
+// Body: { config, services, verifyStream?, timeoutSec?, applyId? }
+router.post('/:id/apply', requireRole('engineer'), async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  const { config: nextConfig, services = [], verifyStream, timeoutSec, applyId } = req.body;
+  
+  if (!nextConfig || typeof nextConfig !== 'object') {
+    return res.status(400).json({ success: false, error: 'config is required' });
+  }
+  
+  if (!Array.isArray(services) || services.some(s => !validServices.includes(s))) {
+    return res.status(400).json({ 
+      success: false, 
+      error: `Invalid services. Valid: ${validServices.join(', ')}` 
+    });
+  }
+  
+  if (!loadChannels().some(c => c.channelId === id)) {
+    return res.status(404).json({ success: false, error: `Channel ${id} not found` });
+  }
+  
+  if (configApplyService.isApplying(id)) {
+    return res.status(409).json({ success: false, error: `An apply is already in progress for channel ${id}` });
+  }
+  
+  try {
+    const previous = loadChannels().find(c => c.channelId === id);
+    // A rolled-back apply is still a completed request; the outcome tells the client what happened
+    const result = await configApplyService.applyConfig(id, { ...nextConfig, channelId: id }, {
+      services,
+      verifyStream,
+      timeoutSec,
+      applyId,
+      change: configHistoryService.changeFromRequest(req),
+    });
+    auditService.record(req, {
+      action: 'config.apply',
+      channelId: id,
+      summary: `Applied config to channel ${id}, restarting ${services.join(', ') || 'no services'}: ${result.outcome}`,
+      outcome: result.outcome === 'applied' ? 'success' : 'failure',
+      error: result.error,
+      details: { services, outcome: result.outcome },
+      before: previous,
+      after: { ...nextConfig, channelId: id },
+    });
+    res.json({ success: true, data: result });
+  } catch (error) {
+    logger.error(`Failed to apply config to channel ${id}:`, error.message);
+    auditService.record(req, {
+      action: 'config.apply',
+      channelId: id,
+      summary: `Applied config to channel ${id}`,
+      outcome: 'failure',
+      error: error.message,
+      details: { services },
+    });
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
 module.exports = router;
@@ -0,0 +1,31 @@
+/**
+ * Live event stream
+ * Server-Sent Events carrying service state changes, bitrate samples
+ * and connection heartbeats
+ */
+
+const express = require('express');
+const router = express.Router();
+const eventService = require('../services/eventService');
+const monitorService = require('../services/monitorService');
+
+// GET /api/events - Subscribe to the live event stream
+router.get('/', (req, res) => {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    // Disable proxy buffering (nginx)
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+
+  // Tell EventSource how long to wait before reconnecting
+  res.write('retry: 5000\n\n');
+
+  const removeClient = eventService.addClient(res, monitorService.getSnapshot());
+
+  req.on('close', removeClient);
+});
+
+module.exports = router;
@@ -7,6 +7,7 @@ const router = express.Router();
 const config = require('../config');
 const iloService = require('../services/iloService');
 const systemdService = require('../services/systemdService');
+const authService = require('../services/authService');
 
 // GET /api/health - Basic health check
 router.get('/', async (req, res) => {
@@ -38,6 +39,14 @@ router.get('/', async (req, res) => {
   });
 });
 
+// GET /api/health/auth - Verify credentials (sits behind the auth middleware)
+router.get('/auth', (req, res) => {
+  res.json({
+    success: true,
+    authEnabled: authService.authEnabled(),
+  });
+});
+
 // GET /api/health/full - Detailed health check
 router.get('/full', async (req, res) => {
   const health = {
@@ -6,10 +6,12 @@ const express = require('express');
 const router = express.Router();
 const config = require('../config');
 const iloService = require('../services/iloService');
+const auditService = require('../services/auditService');
+const { requireRole } = require('../services/authService');
 const logger = require('../utils/logger');
 
 // POST /api/ilo/credentials - Set iLO credentials
-router.post('/credentials', (req, res) => {
+router.post('/credentials', requireRole('admin'), (req, res) => {
   const { host, username, password } = req.body;
   
   if (!host || !username || !password) {
@@ -21,6 +23,10 @@ router.post('/credentials', (req, res) => {
   
   iloService.setCredentials(host, username, password);
   logger.info(`iLO credentials updated for host: ${host}`);
+  auditService.record(req, {
+    action: 'ilo.credentials',
+    summary: `Set iLO credentials for ${username}@${host}`,
+  });
   
   res.json({ 
     success: true, 
@@ -30,7 +36,7 @@ router.post('/credentials', (req, res) => {
 });
 
 // POST /api/ilo/test - Test iLO connection
-router.post('/test', async (req, res) => {
+router.post('/test', requireRole('admin'), async (req, res) => {
   try {
     const { host, username, password } = req.body;
     
@@ -66,7 +72,7 @@ router.get('/status', async (req, res) => {
 });
 
 // POST /api/ilo/power/:action - Execute power action
-router.post('/power/:action', async (req, res) => {
+router.post('/power/:action', requireRole('admin'), async (req, res) => {
   const { action } = req.params;
   const validActions = ['powerOn', 'powerOff', 'forcePowerOff', 'reset', 'forceReset', 'powerCycle'];
   
@@ -80,9 +86,17 @@ router.post('/power/:action', async (req, res) => {
   try {
     const result = await iloService.powerAction(action);
     logger.info(`Power action '${action}' executed successfully`);
+    auditService.record(req, { action: 'ilo.power', summary: `iLO power ${action}`, details: { action } });
     res.json(result);
   } catch (error) {
     logger.error(`Power action '${action}' failed:`, error.message);
+    auditService.record(req, {
+      action: 'ilo.power',
+      summary: `iLO power ${action}`,
+      outcome: 'failure',
+      error: error.message,
+      details: { action },
+    });
     res.status(500).json({ success: false, error: error.message });
   }
 });
@@ -0,0 +1,108 @@
+/**
+ * Notification routes
+ * Webhook and email destinations for alerts, test messages and delivery history
+ */
+
+const express = require('express');
+const router = express.Router();
+const notificationStore = require('../services/notificationStore');
+const notificationService = require('../services/notificationService');
+const { requireRole } = require('../services/authService');
+const logger = require('../utils/logger');
+
+// GET /api/notifications/destinations - All destinations (SMTP passwords omitted, header values masked)
+router.get('/destinations', requireRole('engineer'), (req, res) => {
+  try {
+    res.json({ success: true, data: notificationStore.loadDestinations().map(notificationStore.toPublic) });
+  } catch (error) {
+    logger.error('Failed to get notification destinations:', error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// POST /api/notifications/destinations - Add a destination
+router.post('/destinations', requireRole('engineer'), (req, res) => {
+  try {
+    const { destination, errors } = notificationStore.createDestination(req.body || {});
+    if (errors) {
+      return res.status(400).json({ success: false, error: errors.join('; ') });
+    }
+    logger.info(`Notification destination created: ${destination.name}`);
+    res.status(201).json({ success: true, data: notificationStore.toPublic(destination) });
+  } catch (error) {
+    logger.error('Failed to create notification destination:', error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// PUT /api/notifications/destinations/:id - Update a destination; omitted fields
+// (including the SMTP password) keep their current value
+router.put('/destinations/:id', requireRole('engineer'), (req, res) => {
+  try {
+    const result = notificationStore.updateDestination(req.params.id, req.body || {});
+    if (!result) {
+      return res.status(404).json({ success: false, error: `Notification destination ${req.params.id} not found` });
+    }
+    if (result.errors) {
+      return res.status(400).json({ success: false, error: result.errors.join('; ') });
+    }
+    logger.info(`Notification destination updated: ${result.destination.name}`);
+    res.json({ success: true, data: notificationStore.toPublic(result.destination) });
+  } catch (error) {
+    logger.error(`Failed to update notification destination ${req.params.id}:`, error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// DELETE /api/notifications/destinations/:id - Delete a destination; its pending retries are dropped
+router.delete('/destinations/:id', requireRole('engineer'), (req, res) => {
+  try {
+    if (!notificationStore.deleteDestination(req.params.id)) {
+      return res.status(404).json({ success: false, error: `Notification destination ${req.params.id} not found` });
+    }
+    logger.info(`Notification destination deleted: ${req.params.id}`);
+    res.json({ success: true });
+  } catch (error) {
+    logger.error(`Failed to delete notification destination ${req.params.id}:`, error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// POST /api/notifications/destinations/:id/test - Send a test message now
+// 502 if it could not be delivered; the attempt is in the delivery history either way
+router.post('/destinations/:id/test', requireRole('engineer'), async (req, res) => {
+  try {
+    const delivery = await notificationService.sendTest(req.params.id);
+    if (!delivery) {
+      return res.status(404).json({ success: false, error: `Notification destination ${req.params.id} not found` });
+    }
+    if (delivery.status !== 'delivered') {
+      return res.status(502).json({ success: false, error: `Test notification failed: ${delivery.lastError}` });
+    }
+    const { alert, ...data } = delivery;
+    res.json({ success: true, data });
+  } catch (error) {
+    logger.error(`Failed to send test notification to ${req.params.id}:`, error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// GET /api/notifications/deliveries - Recent deliveries, newest first
+// Query: destinationId, limit
+router.get('/deliveries', requireRole('engineer'), (req, res) => {
+  try {
+    const limit = req.query.limit ? parseInt(req.query.limit, 10) : 100;
+    if (Number.isNaN(limit) || limit < 1) {
+      return res.status(400).json({ success: false, error: 'limit must be a positive number' });
+    }
+    res.json({
+      success: true,
+      data: notificationService.listDeliveries({ destinationId: req.query.destinationId, limit }),
+    });
+  } catch (error) {
+    logger.error('Failed to get notification deliveries:', error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+module.exports = router;
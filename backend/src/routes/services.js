@@ -7,6 +7,11 @@ const express = require('express');
 const router = express.Router();
 const config = require('../config');
 const systemdService = require('../services/systemdService');
+const monitorService = require('../services/monitorService');
+const serviceEventService = require('../services/serviceEventService');
+const auditService = require('../services/auditService');
+const { markServiceApplied } = require('../services/channelStore');
+const { requireRole } = require('../services/authService');
 const logger = require('../utils/logger');
 
 const validServices = ['rx', 'rec', 'rtmp'];
@@ -22,7 +27,7 @@ const getChannelIds = () => {
 };
 
 // POST /api/services/:channelId/:service/:action - Control single service
-router.post('/:channelId/:service/:action', async (req, res) => {
+router.post('/:channelId/:service/:action', requireRole('operator'), async (req, res) => {
   const { channelId, service, action } = req.params;
   const id = parseInt(channelId, 10);
   const channelIds = getChannelIds();
@@ -49,11 +54,19 @@ router.post('/:channelId/:service/:action', async (req, res) => {
   }
   
   try {
-    await systemdService.controlService(id, service, action);
+    await serviceEventService.runAction(id, service, action);
     logger.info(`Service ${service} on channel ${id}: ${action} executed`);
+    auditService.record(req, {
+      action: `service.${action}`,
+      channelId: id,
+      service,
+      summary: `${service.toUpperCase()} ${action} on channel ${id}`,
+    });
+    if (action !== 'stop') markServiceApplied(id, service);
     
-    // Get updated status
+    // Get updated status and push it to live clients
     const status = await systemdService.getServiceStatus(id, service);
+    monitorService.recordServiceState(id, service, status);
     
     res.json({ 
       success: true, 
@@ -62,12 +75,20 @@ router.post('/:channelId/:service/:action', async (req, res) => {
     });
   } catch (error) {
     logger.error(`Failed to ${action} ${service} on channel ${id}:`, error.message);
+    auditService.record(req, {
+      action: `service.${action}`,
+      channelId: id,
+      service,
+      summary: `${service.toUpperCase()} ${action} on channel ${id}`,
+      outcome: 'failure',
+      error: error.message,
+    });
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
 // POST /api/services/bulk/:service/:action - Bulk operation on all channels
-router.post('/bulk/:service/:action', async (req, res) => {
+router.post('/bulk/:service/:action', requireRole('operator'), async (req, res) => {
   const { service, action } = req.params;
   const { channelIds: requestedIds } = req.body;
   
@@ -100,7 +121,9 @@ router.post('/bulk/:service/:action', async (req, res) => {
   try {
     const results = await Promise.allSettled(
       targetIds.map(async (id) => {
-        await systemdService.controlService(id, service, action);
+        const status = await serviceEventService.runAction(id, service, action);
+        monitorService.recordServiceState(id, service, status);
+        if (action !== 'stop') markServiceApplied(id, service);
         return { id, success: true };
       })
     );
@@ -109,6 +132,17 @@ router.post('/bulk/:service/:action', async (req, res) => {
     const failed = results.filter(r => r.status === 'rejected').length;
     
     logger.info(`Bulk ${action} on ${service}: ${succeeded} succeeded, ${failed} failed`);
+    auditService.record(req, {
+      action: 'service.bulk',
+      service,
+      summary: `${service.toUpperCase()} ${action} on ${targetIds.length} channels (${succeeded} succeeded, ${failed} failed)`,
+      outcome: failed === 0 ? 'success' : 'failure',
+      details: {
+        action,
+        channelIds: targetIds,
+        failedChannelIds: targetIds.filter((_, i) => results[i].status === 'rejected'),
+      },
+    });
     
     res.json({ 
       success: failed === 0, 
@@ -149,4 +183,47 @@ router.get('/status', async (req, res) => {
   }
 });
 
+// Milliseconds since the epoch or an ISO date
+const parseTime = (value) => {
+  if (value === undefined) return undefined;
+  const time = /^\d+$/.test(value) ? parseInt(value, 10) : Date.parse(value);
+  return Number.isNaN(time) ? NaN : time;
+};
+
+// GET /api/services/events - State transitions and operator actions, newest first
+// Query: channelId, service, kind (transition|action), cause, from, to, limit (default 500)
+router.get('/events', (req, res) => {
+  const { service, kind, cause } = req.query;
+  const channelId = req.query.channelId !== undefined ? parseInt(req.query.channelId, 10) : undefined;
+  const from = parseTime(req.query.from);
+  const to = parseTime(req.query.to);
+  const limit = req.query.limit ? parseInt(req.query.limit, 10) : 500;
+
+  if (Number.isNaN(channelId)) {
+    return res.status(400).json({ success: false, error: 'channelId must be a number' });
+  }
+  if (service && !validServices.includes(service)) {
+    return res.status(400).json({ success: false, error: `Invalid service. Valid: ${validServices.join(', ')}` });
+  }
+  if (kind && !['transition', 'action'].includes(kind)) {
+    return res.status(400).json({ success: false, error: 'kind must be transition or action' });
+  }
+  if (cause && !serviceEventService.CAUSES.includes(cause)) {
+    return res.status(400).json({ success: false, error: `Invalid cause. Valid: ${serviceEventService.CAUSES.join(', ')}` });
+  }
+  if (Number.isNaN(from) || Number.isNaN(to)) {
+    return res.status(400).json({ success: false, error: 'from and to must be valid times' });
+  }
+  if (Number.isNaN(limit) || limit < 1 || limit > 5000) {
+    return res.status(400).json({ success: false, error: 'limit must be between 1 and 5000' });
+  }
+
+  try {
+    res.json({ success: true, data: serviceEventService.query({ channelId, service, kind, cause, from, to, limit }) });
+  } catch (error) {
+    logger.error('Failed to get service events:', error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
 module.exports = router;
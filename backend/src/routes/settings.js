@@ -0,0 +1,57 @@
+/**
+ * Global settings routes
+ * Defaults applied to new channels, shared by every client of this backend
+ */
+
+const express = require('express');
+const router = express.Router();
+const settingsStore = require('../services/settingsStore');
+const eventService = require('../services/eventService');
+const auditService = require('../services/auditService');
+const { requireRole } = require('../services/authService');
+const logger = require('../utils/logger');
+
+// GET /api/settings - Current global defaults
+router.get('/', (req, res) => {
+  try {
+    res.json({ success: true, data: settingsStore.loadSettings() });
+  } catch (error) {
+    logger.error('Failed to get settings:', error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// PUT /api/settings - Replace the global defaults
+// Body: { rx, rec, rtmp }; omitted fields keep their current value
+router.put('/', requireRole('engineer'), (req, res) => {
+  try {
+    const current = settingsStore.loadSettings();
+    const { rx, rec, rtmp } = req.body || {};
+    const next = {
+      rx: { ...current.rx, ...rx },
+      rec: { ...current.rec, ...rec },
+      rtmp: { ...current.rtmp, ...rtmp },
+    };
+    
+    const errors = settingsStore.validateSettings(next);
+    if (errors.length > 0) {
+      return res.status(400).json({ success: false, error: errors.join('; ') });
+    }
+    
+    settingsStore.saveSettings(next);
+    logger.info('Global settings updated');
+    auditService.record(req, {
+      action: 'settings.update',
+      summary: 'Updated the global channel defaults',
+      before: current,
+      after: next,
+    });
+    eventService.publish('settings-changed', {});
+    res.json({ success: true, data: next });
+  } catch (error) {
+    logger.error('Failed to save settings:', error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+module.exports = router;
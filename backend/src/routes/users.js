@@ -0,0 +1,101 @@
+/**
+ * User routes
+ * Account management; mounted behind the admin role
+ */
+
+const express = require('express');
+const router = express.Router();
+const userStore = require('../services/userStore');
+const authService = require('../services/authService');
+const auditService = require('../services/auditService');
+const logger = require('../utils/logger');
+
+// GET /api/users - All users (password hashes omitted)
+router.get('/', (req, res) => {
+  try {
+    res.json({ success: true, data: userStore.loadUsers().map(userStore.toPublic) });
+  } catch (error) {
+    logger.error('Failed to get users:', error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// POST /api/users - Add a user: { username, password, role }
+router.post('/', (req, res) => {
+  try {
+    const { user, errors } = userStore.createUser(req.body || {});
+    if (errors) {
+      return res.status(400).json({ success: false, error: errors.join('; ') });
+    }
+    logger.info(`User created: ${user.username} (${user.role})`);
+    auditService.record(req, {
+      action: 'user.create',
+      summary: `Created user ${user.username} as ${user.role}`,
+      details: { username: user.username, role: user.role },
+    });
+    res.status(201).json({ success: true, data: userStore.toPublic(user) });
+  } catch (error) {
+    logger.error('Failed to create user:', error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// PUT /api/users/:id - Change { role, disabled, password }; omitted fields keep their value.
+// Disabling a user or setting a new password signs them out everywhere.
+router.put('/:id', (req, res) => {
+  try {
+    const { role, disabled, password } = req.body || {};
+    const previous = userStore.getUser(req.params.id);
+    const result = userStore.updateUser(req.params.id, { role, disabled, password });
+    if (!result) {
+      return res.status(404).json({ success: false, error: `User ${req.params.id} not found` });
+    }
+    if (result.errors) {
+      return res.status(400).json({ success: false, error: result.errors.join('; ') });
+    }
+
+    const { user } = result;
+    if (user.disabled || password !== undefined) authService.revokeUser(user.id);
+    const changes = [
+      previous.role !== user.role && `role ${previous.role} → ${user.role}`,
+      previous.disabled !== user.disabled && (user.disabled ? 'disabled' : 'enabled'),
+      password !== undefined && 'password reset',
+    ].filter(Boolean);
+    logger.info(`User updated: ${user.username}`);
+    auditService.record(req, {
+      action: 'user.update',
+      summary: `Updated user ${user.username}${changes.length ? `: ${changes.join(', ')}` : ''}`,
+      details: { username: user.username, role: user.role, disabled: user.disabled, passwordReset: password !== undefined },
+    });
+    res.json({ success: true, data: userStore.toPublic(user) });
+  } catch (error) {
+    logger.error(`Failed to update user ${req.params.id}:`, error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// DELETE /api/users/:id - Delete a user and end their sessions
+router.delete('/:id', (req, res) => {
+  try {
+    const result = userStore.deleteUser(req.params.id);
+    if (!result) {
+      return res.status(404).json({ success: false, error: `User ${req.params.id} not found` });
+    }
+    if (result.errors) {
+      return res.status(400).json({ success: false, error: result.errors.join('; ') });
+    }
+    authService.revokeUser(result.user.id);
+    logger.info(`User deleted: ${result.user.username}`);
+    auditService.record(req, {
+      action: 'user.delete',
+      summary: `Deleted user ${result.user.username}`,
+      details: { username: result.user.username, role: result.user.role },
+    });
+    res.json({ success: true, message: `User ${result.user.username} deleted` });
+  } catch (error) {
+    logger.error(`Failed to delete user ${req.params.id}:`, error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+module.exports = router;
@@ -21,6 +21,22 @@ const channelsRoutes = require('./routes/channels');
 const servicesRoutes = require('./routes/services');
 const logsRoutes = require('./routes/logs');
 const analyzeRoutes = require('./routes/analyze');
+const eventsRoutes = require('./routes/events');
+const settingsRoutes = require('./routes/settings');
+const alertsRoutes = require('./routes/alerts');
+const notificationsRoutes = require('./routes/notifications');
+const auditRoutes = require('./routes/audit');
+const authRoutes = require('./routes/auth');
+const usersRoutes = require('./routes/users');
+const authService = require('./services/authService');
+const userStore = require('./services/userStore');
+const monitorService = require('./services/monitorService');
+const bitrateHistoryService = require('./services/bitrateHistoryService');
+const pidHistoryService = require('./services/pidHistoryService');
+const tr101290Service = require('./services/tr101290Service');
+const serviceEventService = require('./services/serviceEventService');
+const alertService = require('./services/alertService');
+const notificationService = require('./services/notificationService');
 
 const app = express();
 
@@ -43,20 +59,8 @@ app.use(cors({
   credentials: true
 }));
 
-// Optional API key authentication
-if (config.apiKey) {
-  app.use((req, res, next) => {
-    // Skip auth for health check
-    if (req.path === '/api/health') return next();
-    
-    const providedKey = req.headers['x-api-key'] || req.query.apiKey;
-    if (providedKey !== config.apiKey) {
-      logger.warn(`Unauthorized request from ${req.ip}`);
-      return res.status(401).json({ error: 'Unauthorized', message: 'Invalid or missing API key' });
-    }
-    next();
-  });
-}
+// Accounts, API key and bearer tokens; roles are checked per route
+app.use(authService.authenticate);
 
 // Request logging
 app.use((req, res, next) => {
@@ -71,6 +75,13 @@ app.use('/api/channels', channelsRoutes);
 app.use('/api/services', servicesRoutes);
 app.use('/api/logs', logsRoutes);
 app.use('/api/analyze', analyzeRoutes);
+app.use('/api/events', eventsRoutes);
+app.use('/api/settings', settingsRoutes);
+app.use('/api/alerts', alertsRoutes);
+app.use('/api/notifications', notificationsRoutes);
+app.use('/api/audit', auditRoutes);
+app.use('/api/auth', authRoutes);
+app.use('/api/users', authService.requireRole('admin'), usersRoutes);
 
 // 404 handler
 app.use((req, res) => {
@@ -84,6 +95,7 @@ app.use((err, req, res, next) => {
 });
 
 // Start server
+userStore.ensureAdmin();
 const PORT = config.port;
 app.listen(PORT, '0.0.0.0', () => {
   logger.info('='.repeat(50));
@@ -92,7 +104,9 @@ app.listen(PORT, '0.0.0.0', () => {
   logger.info(`Server running on port ${PORT}`);
   logger.info(`Environment: ${config.nodeEnv}`);
   logger.info(`CORS origins: ${corsOrigins.join(', ')}`);
-  logger.info(`API key auth: ${config.apiKey ? 'enabled' : 'disabled'}`);
+  logger.info(`API auth: ${authService.authEnabled()
+    ? `enabled (${userStore.loadUsers().length} user(s), ${config.apiKey ? 'key' : 'no key'}, ${config.apiTokens.length} token(s))`
+    : 'disabled'}`);
   logger.info(`Channels: ${config.channelStart} - ${config.channelStart + config.channelCount - 1}`);
   logger.info('='.repeat(50));
   logger.info('Endpoints:');
@@ -103,11 +117,30 @@ app.listen(PORT, '0.0.0.0', () => {
   logger.info('  GET  /api/channels/:id');
   logger.info('  POST /api/services/:channelId/:service/:action');
   logger.info('  POST /api/services/bulk/:service/:action');
+  logger.info('  GET  /api/services/events');
   logger.info('  GET  /api/logs/:channelId/:service');
   logger.info('  GET  /api/analyze');
   logger.info('  GET  /api/analyze/:channelId');
   logger.info('  GET  /api/analyze/:channelId/bitrate');
+  logger.info('  GET  /api/analyze/:channelId/history');
+  logger.info('  GET  /api/analyze/:channelId/pids');
+  logger.info('  GET  /api/analyze/:channelId/tr101290');
+  logger.info('  GET  /api/alerts');
+  logger.info('  GET  /api/notifications/destinations');
+  logger.info('  GET  /api/audit');
+  logger.info('  POST /api/auth/login');
+  logger.info('  GET  /api/users');
+  logger.info('  GET  /api/events (SSE)');
   logger.info('='.repeat(50));
+  
+  // Subscribe before the first poll so its samples are recorded
+  bitrateHistoryService.start();
+  pidHistoryService.start();
+  tr101290Service.start();
+  serviceEventService.start();
+  notificationService.start();
+  alertService.start();
+  monitorService.start();
 });
 
 module.exports = app;
@@ -0,0 +1,176 @@
+/**
+ * Alert Rule Store
+ * Alert rules (alert-rules.json), shared by every client, with a default
+ * set used until the rules are first edited
+ *
+ * A rule is { id, name, type, enabled, severity, channelIds, forSeconds, ...params }:
+ * - service-state:   service is in status (channel rule)
+ * - bitrate:         bitrate below/above threshold Mbps while rx runs (channel rule)
+ * - pid-missing:     a PID of the baseline is missing from the stream (channel rule)
+ * - cc-errors:       continuity errors per minute above threshold (channel rule)
+ * - ilo-health:      iLO reports the server health as warning or critical
+ * - ilo-temperature: a temperature sensor above threshold °C
+ * - disk-space:      free space on path below threshold percent
+ * channelIds limits channel rules to those channels; empty means every channel.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const config = require('../config');
+const logger = require('../utils/logger');
+
+const RULES_FILE = path.join(config.configPath, 'alert-rules.json');
+
+const RULE_TYPES = ['service-state', 'bitrate', 'pid-missing', 'cc-errors', 'ilo-health', 'ilo-temperature', 'disk-space'];
+const CHANNEL_RULE_TYPES = ['service-state', 'bitrate', 'pid-missing', 'cc-errors'];
+const SEVERITIES = ['critical', 'warning', 'info'];
+const SERVICES = ['rx', 'rec', 'rtmp'];
+const STATUSES = ['running', 'stopped', 'error', 'starting', 'stopping', 'unknown'];
+const COMPARISONS = ['below', 'above'];
+
+const DEFAULT_RULES = [
+  { id: 'rx-error', name: 'Receiver failed', type: 'service-state', severity: 'critical', forSeconds: 0, service: 'rx', status: 'error' },
+  { id: 'rec-error', name: 'Recorder failed', type: 'service-state', severity: 'warning', forSeconds: 0, service: 'rec', status: 'error' },
+  { id: 'rtmp-error', name: 'Restreamer failed', type: 'service-state', severity: 'warning', forSeconds: 0, service: 'rtmp', status: 'error' },
+  { id: 'no-input', name: 'No input', type: 'bitrate', severity: 'critical', forSeconds: 30, comparison: 'below', threshold: 0.1 },
+  { id: 'pid-missing', name: 'PID missing', type: 'pid-missing', severity: 'warning', forSeconds: 30 },
+  { id: 'cc-errors', name: 'Continuity errors', type: 'cc-errors', severity: 'warning', forSeconds: 0, threshold: 10 },
+  { id: 'ilo-health', name: 'Server health', type: 'ilo-health', severity: 'critical', forSeconds: 0 },
+  { id: 'ilo-temperature', name: 'Server temperature', type: 'ilo-temperature', severity: 'warning', forSeconds: 60, threshold: 80 },
+  { id: 'disk-space', name: 'Recording disk space', type: 'disk-space', severity: 'warning', forSeconds: 0, path: '/srv/recordings', threshold: 10 },
+].map(rule => ({ enabled: true, channelIds: [], ...rule }));
+
+let cachedRules = null;
+
+const isChannelRule = (rule) => CHANNEL_RULE_TYPES.includes(rule.type);
+
+const loadRules = () => {
+  if (cachedRules) return cachedRules;
+  cachedRules = DEFAULT_RULES;
+  if (fs.existsSync(RULES_FILE)) {
+    try {
+      cachedRules = JSON.parse(fs.readFileSync(RULES_FILE, 'utf8'));
+    } catch (error) {
+      logger.error('Failed to load alert rules file:', error.message);
+    }
+  }
+  return cachedRules;
+};
+
+const saveRules = (rules) => {
+  if (!fs.existsSync(config.configPath)) {
+    fs.mkdirSync(config.configPath, { recursive: true });
+  }
+  fs.writeFileSync(RULES_FILE, JSON.stringify(rules, null, 2));
+  cachedRules = rules;
+};
+
+/**
+ * Only the fields that apply to the rule's type, so a changed type leaves nothing stale behind
+ */
+const normalizeRule = (rule) => {
+  const base = {
+    id: rule.id,
+    name: typeof rule.name === 'string' ? rule.name.trim() : rule.name,
+    type: rule.type,
+    enabled: rule.enabled ?? true,
+    severity: rule.severity ?? 'warning',
+    channelIds: isChannelRule(rule) ? rule.channelIds ?? [] : [],
+    forSeconds: rule.forSeconds ?? 0,
+  };
+  switch (rule.type) {
+    case 'service-state':
+      return { ...base, service: rule.service, status: rule.status ?? 'error' };
+    case 'bitrate':
+      return { ...base, comparison: rule.comparison ?? 'below', threshold: rule.threshold };
+    case 'cc-errors':
+    case 'ilo-temperature':
+      return { ...base, threshold: rule.threshold };
+    case 'disk-space':
+      return { ...base, path: rule.path, threshold: rule.threshold };
+    default:
+      return base;
+  }
+};
+
+/**
+ * Problems with a (normalized) rule, empty if it is valid
+ */
+const validateRule = (rule) => {
+  const errors = [];
+  if (typeof rule.name !== 'string' || !rule.name) errors.push('name is required');
+  if (!RULE_TYPES.includes(rule.type)) errors.push(`type must be one of ${RULE_TYPES.join(', ')}`);
+  if (typeof rule.enabled !== 'boolean') errors.push('enabled must be a boolean');
+  if (!SEVERITIES.includes(rule.severity)) errors.push(`severity must be one of ${SEVERITIES.join(', ')}`);
+  if (!Array.isArray(rule.channelIds) || !rule.channelIds.every(Number.isInteger)) {
+    errors.push('channelIds must be a list of channel IDs');
+  }
+  if (!Number.isFinite(rule.forSeconds) || rule.forSeconds < 0) errors.push('forSeconds must be 0 or more');
+
+  const threshold = (name) => {
+    if (!Number.isFinite(rule.threshold) || rule.threshold < 0) errors.push(`threshold (${name}) must be 0 or more`);
+  };
+  switch (rule.type) {
+    case 'service-state':
+      if (!SERVICES.includes(rule.service)) errors.push(`service must be one of ${SERVICES.join(', ')}`);
+      if (!STATUSES.includes(rule.status)) errors.push(`status must be one of ${STATUSES.join(', ')}`);
+      break;
+    case 'bitrate':
+      if (!COMPARISONS.includes(rule.comparison)) errors.push('comparison must be below or above');
+      threshold('Mbps');
+      break;
+    case 'cc-errors':
+      threshold('errors per minute');
+      break;
+    case 'ilo-temperature':
+      threshold('°C');
+      break;
+    case 'disk-space':
+      if (typeof rule.path !== 'string' || !path.isAbsolute(rule.path)) errors.push('path must be an absolute path');
+      threshold('percent free');
+      if (rule.threshold > 100) errors.push('threshold (percent free) must be at most 100');
+      break;
+  }
+  return errors;
+};
+
+/**
+ * Add a rule; returns { rule } or { errors }
+ */
+const createRule = (input) => {
+  const rule = normalizeRule({ ...input, id: crypto.randomUUID() });
+  const errors = validateRule(rule);
+  if (errors.length > 0) return { errors };
+  saveRules([...loadRules(), rule]);
+  return { rule };
+};
+
+/**
+ * Update a rule with the given fields; returns { rule }, { errors } or null if there is no such rule
+ */
+const updateRule = (id, updates) => {
+  const rules = loadRules();
+  const current = rules.find(r => r.id === id);
+  if (!current) return null;
+  const rule = normalizeRule({ ...current, ...updates, id });
+  const errors = validateRule(rule);
+  if (errors.length > 0) return { errors };
+  saveRules(rules.map(r => (r.id === id ? rule : r)));
+  return { rule };
+};
+
+const deleteRule = (id) => {
+  const rules = loadRules();
+  if (!rules.some(r => r.id === id)) return false;
+  saveRules(rules.filter(r => r.id !== id));
+  return true;
+};
+
+module.exports = {
+  loadRules,
+  createRule,
+  updateRule,
+  deleteRule,
+  isChannelRule,
+};
@@ -0,0 +1,370 @@
+/**
+ * Alert Service
+ * Evaluates the alert rules every few seconds against the monitor's service
+ * states and bitrates, the PID history, the iLO and the local disks, and
+ * keeps the resulting alerts: firing until acknowledged, resolved once the
+ * condition clears. Silencing an alert keeps its rule and subject quiet
+ * (no new alert is flagged for attention) until the silence runs out.
+ *
+ * Every change is published as an `alert` event. Open alerts, the last
+ * resolved ones and silences are saved to ${CONFIG_PATH}/alerts.json.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const config = require('../config');
+const eventService = require('./eventService');
+const channelStore = require('./channelStore');
+const pidHistoryService = require('./pidHistoryService');
+const iloService = require('./iloService');
+const alertRuleStore = require('./alertRuleStore');
+const logger = require('../utils/logger');
+
+const ALERTS_FILE = path.join(config.configPath, 'alerts.json');
+const EVALUATE_INTERVAL_MS = 5000;
+const ILO_INTERVAL_MS = 60_000;
+const DISK_INTERVAL_MS = 60_000;
+const CC_WINDOW_MS = 60_000;
+// A bitrate sample older than a few monitor polls no longer says anything about the input
+const BITRATE_STALE_MS = config.monitor.bitrateIntervalMs * 5;
+const MAX_HISTORY = 500;
+
+const SERVICE_LABELS = { rx: 'Receiver', rec: 'Recorder', rtmp: 'Restreamer' };
+
+// Inputs, kept current from events and slower polls
+const serviceStatuses = new Map(); // `${channelId}-${service}` -> status
+const bitrates = new Map(); // channelId -> { bps (null without a stream), receivedAt }
+let iloStatus = null;
+const diskUsage = new Map(); // path -> { freePercent } or { error }
+
+// key (`${ruleId}|${subject}`) -> alert, for firing and acknowledged alerts
+const openAlerts = new Map();
+// Resolved alerts, newest last
+let history = [];
+// key -> ISO time the silence ends
+let silences = {};
+// key -> ms since the condition has held (for rules with forSeconds)
+const pending = new Map();
+
+const unsubscribers = [];
+const timers = [];
+
+const loadAlerts = () => {
+  if (!fs.existsSync(ALERTS_FILE)) return;
+  try {
+    const saved = JSON.parse(fs.readFileSync(ALERTS_FILE, 'utf8'));
+    for (const alert of saved.open || []) openAlerts.set(alert.key, alert);
+    history = saved.history || [];
+    silences = saved.silences || {};
+  } catch (error) {
+    logger.error('Failed to load alerts file:', error.message);
+  }
+};
+
+const saveAlerts = () => {
+  try {
+    if (!fs.existsSync(config.configPath)) fs.mkdirSync(config.configPath, { recursive: true });
+    fs.writeFileSync(ALERTS_FILE, JSON.stringify({
+      open: Array.from(openAlerts.values()),
+      history,
+      silences,
+    }, null, 2));
+  } catch (error) {
+    logger.error('Failed to save alerts:', error.message);
+  }
+};
+
+const publish = (alert) => {
+  saveAlerts();
+  eventService.publish('alert', { alert });
+};
+
+// -- conditions ----------------------------------------------------------------
+// Each returns the subjects the rule's condition currently holds for:
+// [{ subject, channelId, value, message }]
+
+const ruleChannels = (rule) => {
+  const ids = channelStore.getChannelIds();
+  return rule.channelIds.length > 0 ? ids.filter(id => rule.channelIds.includes(id)) : ids;
+};
+
+const rxRunning = (channelId) => serviceStatuses.get(`${channelId}-rx`) === 'running';
+
+const compare = (value, comparison, threshold) =>
+  comparison === 'above' ? value > threshold : value < threshold;
+
+const conditions = {
+  'service-state': (rule) => ruleChannels(rule)
+    .filter(id => serviceStatuses.get(`${id}-${rule.service}`) === rule.status)
+    .map(id => ({
+      subject: `ch${id}`,
+      channelId: id,
+      value: null,
+      message: `${SERVICE_LABELS[rule.service]} on channel ${id} is ${rule.status}`,
+    })),
+
+  // A stopped receiver has no bitrate by design, so only running ones are checked, and
+  // only once they have a recent sample: no sample yet is not the same as no input
+  bitrate: (rule) => ruleChannels(rule)
+    .filter(rxRunning)
+    .filter(id => Date.now() - (bitrates.get(id)?.receivedAt ?? 0) <= BITRATE_STALE_MS)
+    .map(id => ({ id, mbps: (bitrates.get(id).bps || 0) / 1_000_000 }))
+    .filter(({ mbps }) => compare(mbps, rule.comparison, rule.threshold))
+    .map(({ id, mbps }) => ({
+      subject: `ch${id}`,
+      channelId: id,
+      value: Number(mbps.toFixed(2)),
+      message: `Bitrate on channel ${id} is ${mbps.toFixed(2)} Mbps, ${rule.comparison} ${rule.threshold} Mbps`,
+    })),
+
+  'pid-missing': (rule) => ruleChannels(rule)
+    .filter(rxRunning)
+    .flatMap(id => pidHistoryService.summarize(id, CC_WINDOW_MS).missing.map(({ pid, type }) => ({
+      subject: `ch${id}:pid${pid}`,
+      channelId: id,
+      value: pid,
+      message: `PID ${pid} (${type}) is missing from channel ${id}`,
+    }))),
+
+  'cc-errors': (rule) => ruleChannels(rule)
+    .filter(rxRunning)
+    .map(id => ({ id, perMinute: pidHistoryService.summarize(id, CC_WINDOW_MS).ccErrors }))
+    .filter(({ perMinute }) => perMinute > rule.threshold)
+    .map(({ id, perMinute }) => ({
+      subject: `ch${id}`,
+      channelId: id,
+      value: perMinute,
+      message: `${perMinute} continuity errors in the last minute on channel ${id}`,
+    })),
+
+  'ilo-health': () => (iloStatus && ['warning', 'critical'].includes(iloStatus.health)
+    ? [{ subject: 'ilo', channelId: null, value: null, message: `Server health is ${iloStatus.health}` }]
+    : []),
+
+  'ilo-temperature': (rule) => (iloStatus?.temperatures || [])
+    .filter(t => t.value > rule.threshold)
+    .map(t => ({
+      subject: `ilo:${t.name}`,
+      channelId: null,
+      value: t.value,
+      message: `${t.name} is at ${t.value} °C, above ${rule.threshold} °C`,
+    })),
+
+  'disk-space': (rule) => {
+    const usage = diskUsage.get(rule.path);
+    if (!usage || usage.error || usage.freePercent >= rule.threshold) return [];
+    return [{
+      subject: `disk:${rule.path}`,
+      channelId: null,
+      value: usage.freePercent,
+      message: `${usage.freePercent}% free on ${rule.path}, below ${rule.threshold}%`,
+    }];
+  },
+};
+
+// -- lifecycle -----------------------------------------------------------------
+
+const isSilenced = (key, now) => silences[key] && new Date(silences[key]).getTime() > now;
+
+const fire = (rule, match, key, now) => {
+  const alert = {
+    id: crypto.randomUUID(),
+    key,
+    ruleId: rule.id,
+    ruleName: rule.name,
+    type: rule.type,
+    severity: rule.severity,
+    channelId: match.channelId,
+    subject: match.subject,
+    message: match.message,
+    value: match.value,
+    state: 'firing',
+    firedAt: new Date(now).toISOString(),
+    acknowledgedAt: null,
+    resolvedAt: null,
+    silencedUntil: isSilenced(key, now) ? silences[key] : null,
+  };
+  openAlerts.set(key, alert);
+  logger.warn(`Alert firing: ${rule.name} - ${match.message}`);
+  publish(alert);
+};
+
+const resolve = (alert, now) => {
+  openAlerts.delete(alert.key);
+  const resolved = { ...alert, state: 'resolved', resolvedAt: new Date(now).toISOString() };
+  history = [...history, resolved].slice(-MAX_HISTORY);
+  logger.info(`Alert resolved: ${alert.ruleName} - ${alert.message}`);
+  publish(resolved);
+};
+
+const evaluate = () => {
+  const now = Date.now();
+  const rules = alertRuleStore.loadRules().filter(rule => rule.enabled);
+  const active = new Set();
+  const failed = new Set();
+
+  for (const rule of rules) {
+    let matches = [];
+    try {
+      matches = conditions[rule.type]?.(rule) || [];
+    } catch (error) {
+      logger.warn(`Failed to evaluate alert rule ${rule.name}:`, error.message);
+      failed.add(rule.id);
+      continue;
+    }
+
+    for (const match of matches) {
+      const key = `${rule.id}|${match.subject}`;
+      active.add(key);
+      if (!pending.has(key)) pending.set(key, now);
+      if (now - pending.get(key) < rule.forSeconds * 1000) continue;
+
+      const open = openAlerts.get(key);
+      if (!open) {
+        fire(rule, match, key, now);
+      } else if (open.message !== match.message) {
+        // Keep the reading current without announcing it as a change
+        openAlerts.set(key, { ...open, message: match.message, value: match.value });
+      }
+    }
+  }
+
+  for (const key of pending.keys()) {
+    if (!active.has(key) && !failed.has(key.split('|')[0])) pending.delete(key);
+  }
+  // Alerts whose condition cleared, or whose rule was disabled or deleted
+  for (const alert of Array.from(openAlerts.values())) {
+    if (!active.has(alert.key) && !failed.has(alert.ruleId)) resolve(alert, now);
+  }
+  // Silences that ran out
+  for (const [key, until] of Object.entries(silences)) {
+    if (new Date(until).getTime() > now) continue;
+    delete silences[key];
+    const open = openAlerts.get(key);
+    if (open?.silencedUntil) {
+      const updated = { ...open, silencedUntil: null };
+      openAlerts.set(key, updated);
+      publish(updated);
+    }
+  }
+};
+
+const pollIlo = async () => {
+  const credentials = iloService.getCredentials();
+  if (!credentials.host || !credentials.hasPassword) {
+    iloStatus = null;
+    return;
+  }
+  try {
+    iloStatus = await iloService.getStatus();
+  } catch (error) {
+    logger.debug('iLO poll for alerts failed:', error.message);
+    iloStatus = null;
+  }
+};
+
+const pollDisks = async () => {
+  const paths = new Set(alertRuleStore.loadRules()
+    .filter(rule => rule.enabled && rule.type === 'disk-space')
+    .map(rule => rule.path));
+  diskUsage.clear();
+  for (const diskPath of paths) {
+    try {
+      const stats = await fs.promises.statfs(diskPath);
+      diskUsage.set(diskPath, { freePercent: Math.round((stats.bavail / stats.blocks) * 1000) / 10 });
+    } catch (error) {
+      diskUsage.set(diskPath, { error: error.message });
+    }
+  }
+};
+
+// -- API ---------------------------------------------------------------------------
+
+const findAlert = (id) => Array.from(openAlerts.values()).find(a => a.id === id)
+  || history.find(a => a.id === id)
+  || null;
+
+/**
+ * Alerts newest first, optionally only in the given states
+ */
+const listAlerts = ({ states, limit } = {}) => {
+  const open = Array.from(openAlerts.values()).sort((a, b) => b.firedAt.localeCompare(a.firedAt));
+  const all = [...open, ...history.slice().reverse()]
+    .filter(alert => !states || states.includes(alert.state));
+  return limit ? all.slice(0, limit) : all;
+};
+
+/**
+ * Acknowledge a firing alert; returns the alert, or null if there is no open alert with this id
+ */
+const acknowledge = (id) => {
+  const alert = Array.from(openAlerts.values()).find(a => a.id === id);
+  if (!alert) return null;
+  if (alert.state === 'acknowledged') return alert;
+  const updated = { ...alert, state: 'acknowledged', acknowledgedAt: new Date().toISOString() };
+  openAlerts.set(alert.key, updated);
+  logger.info(`Alert acknowledged: ${alert.ruleName} - ${alert.message}`);
+  publish(updated);
+  return updated;
+};
+
+/**
+ * Silence the alert's rule and subject for durationMinutes (0 lifts the silence)
+ */
+const silence = (id, durationMinutes) => {
+  const alert = findAlert(id);
+  if (!alert) return null;
+  const until = durationMinutes > 0 ? new Date(Date.now() + durationMinutes * 60_000).toISOString() : null;
+  if (until) silences[alert.key] = until;
+  else delete silences[alert.key];
+
+  const open = openAlerts.get(alert.key);
+  if (open) {
+    const updated = { ...open, silencedUntil: until };
+    openAlerts.set(alert.key, updated);
+    publish(updated);
+    return updated;
+  }
+  saveAlerts();
+  return { ...alert, silencedUntil: until };
+};
+
+/**
+ * Start evaluating rules
+ */
+const start = () => {
+  if (timers.length > 0) return;
+  loadAlerts();
+
+  unsubscribers.push(eventService.subscribe('service-state', ({ channelId, service, state }) => {
+    serviceStatuses.set(`${channelId}-${service}`, state.status);
+    // Samples from before the receiver stopped don't count once it is back
+    if (service === 'rx' && state.status !== 'running') bitrates.delete(channelId);
+  }));
+  unsubscribers.push(eventService.subscribe('bitrate', (sample) => {
+    bitrates.set(sample.channelId, {
+      bps: sample.available && sample.bitrate ? sample.bitrate.total : null,
+      receivedAt: Date.now(),
+    });
+  }));
+
+  pollIlo();
+  pollDisks();
+  timers.push(setInterval(evaluate, EVALUATE_INTERVAL_MS));
+  timers.push(setInterval(pollIlo, ILO_INTERVAL_MS));
+  timers.push(setInterval(pollDisks, DISK_INTERVAL_MS));
+};
+
+const stop = () => {
+  while (unsubscribers.length > 0) unsubscribers.pop()();
+  while (timers.length > 0) clearInterval(timers.pop());
+};
+
+module.exports = {
+  start,
+  stop,
+  listAlerts,
+  acknowledge,
+  silence,
+};
@@ -0,0 +1,159 @@
+/**
+ * Audit Service
+ * Persistent trail of operator actions: who did what, when and from which
+ * address, with the config before and after for edits. Routes record an
+ * entry once the outcome of an action is known.
+ *
+ * "Who" is the signed-in user (or, for the API key, tokens and backends
+ * without accounts, the operator name the dashboard sends as X-Change-Author)
+ * plus the credential the request authenticated with. Entries are appended to
+ * ${CONFIG_PATH}/audit.log, one JSON object per line; the newest 20,000 are
+ * kept.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const config = require('../config');
+const { changeFromRequest } = require('./configHistoryService');
+const logger = require('../utils/logger');
+
+const AUDIT_FILE = path.join(config.configPath, 'audit.log');
+const MAX_ENTRIES = 20000;
+// The file is rewritten with only the kept entries after this many appends
+const COMPACT_EVERY = 1000;
+
+const ACTIONS = [
+  'service.start',
+  'service.stop',
+  'service.restart',
+  'service.bulk',
+  'channel.create',
+  'channel.update',
+  'channel.delete',
+  'config.save',
+  'config.apply',
+  'settings.update',
+  'ilo.power',
+  'ilo.credentials',
+  'auth.login',
+  'user.create',
+  'user.update',
+  'user.delete',
+];
+const OUTCOMES = ['success', 'failure'];
+
+// Oldest first
+let entries = null;
+let appends = 0;
+
+const load = () => {
+  if (entries) return entries;
+  entries = [];
+  if (!fs.existsSync(AUDIT_FILE)) return entries;
+  try {
+    for (const line of fs.readFileSync(AUDIT_FILE, 'utf8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // A line cut short by a crash; the rest of the trail is still good
+      }
+    }
+    entries = entries.slice(-MAX_ENTRIES);
+  } catch (error) {
+    logger.error('Failed to load audit log:', error.message);
+  }
+  return entries;
+};
+
+const compact = () => {
+  appends = 0;
+  try {
+    fs.writeFileSync(AUDIT_FILE, entries.map(e => JSON.stringify(e)).join('\n') + '\n', { mode: 0o600 });
+  } catch (error) {
+    logger.error('Failed to compact audit log:', error.message);
+  }
+};
+
+// Secrets stay out of the trail (and out of exports of it): the SRT passphrase
+// and stream key, which config diffs mask, and the RTMP URL, which the env
+// preview masks as it may carry the key or credentials
+const SECRET_FIELDS = [['rx', 'srt', 'passphrase'], ['rtmp', 'rtmpStreamKey'], ['rtmp', 'rtmpUrl']];
+
+const maskField = (object, [key, ...rest]) => {
+  if (!object || typeof object !== 'object' || !object[key]) return object;
+  return { ...object, [key]: rest.length > 0 ? maskField(object[key], rest) : '******' };
+};
+
+const redact = (channelConfig) => SECRET_FIELDS.reduce(maskField, channelConfig);
+
+/**
+ * Record an action taken through req
+ * entry: { action, summary, channelId?, service?, outcome?, error?, details?, before?, after? }
+ */
+const record = (req, { action, summary, channelId, service, outcome = 'success', error, details, before, after }) => {
+  load();
+  const entry = {
+    id: crypto.randomUUID(),
+    timestamp: new Date().toISOString(),
+    actor: changeFromRequest(req).author || null,
+    credential: req.credential || null,
+    ip: req.ip || req.socket?.remoteAddress || null,
+    action,
+    channelId: channelId ?? null,
+    service: service || null,
+    summary,
+    outcome,
+    error: error || null,
+    details: details || null,
+    before: before === undefined ? null : redact(before),
+    after: after === undefined ? null : redact(after),
+  };
+
+  entries.push(entry);
+  if (entries.length > MAX_ENTRIES) entries = entries.slice(-MAX_ENTRIES);
+  try {
+    if (!fs.existsSync(config.configPath)) fs.mkdirSync(config.configPath, { recursive: true });
+    fs.appendFileSync(AUDIT_FILE, JSON.stringify(entry) + '\n', { mode: 0o600 });
+    appends += 1;
+    if (appends >= COMPACT_EVERY) compact();
+  } catch (err) {
+    logger.error('Failed to write audit entry:', err.message);
+  }
+  return entry;
+};
+
+const matchesSearch = (entry, search) =>
+  [entry.summary, entry.actor, entry.ip, entry.credential, entry.action, entry.error, entry.channelId]
+    .some(value => value !== null && value !== undefined && String(value).toLowerCase().includes(search));
+
+/**
+ * Entries matching the filters, newest first, one page at a time
+ * filters: { action (exact, or a prefix such as 'service'), actor, channelId,
+ * outcome, from, to (ms), search, offset, limit }
+ * Resolves to { total, entries }
+ */
+const query = ({ action, actor, channelId, outcome, from, to, search, offset = 0, limit = 50 } = {}) => {
+  const needle = search ? search.toLowerCase() : null;
+  const actorNeedle = actor ? actor.toLowerCase() : null;
+  const matches = load().filter(entry => {
+    const time = new Date(entry.timestamp).getTime();
+    return (!action || entry.action === action || entry.action.startsWith(`${action}.`))
+      && (!actorNeedle || (entry.actor || '').toLowerCase().includes(actorNeedle))
+      && (channelId === undefined || entry.channelId === channelId)
+      && (!outcome || entry.outcome === outcome)
+      && (from === undefined || time >= from)
+      && (to === undefined || time <= to)
+      && (!needle || matchesSearch(entry, needle));
+  });
+  matches.reverse();
+  return { total: matches.length, entries: matches.slice(offset, offset + limit) };
+};
+
+module.exports = {
+  ACTIONS,
+  OUTCOMES,
+  record,
+  query,
+};
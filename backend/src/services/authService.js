@@ -0,0 +1,177 @@
+/**
+ * Auth Service
+ * Who a request comes from and what it may do.
+ *
+ * Requests authenticate with a session token from POST /api/auth/login
+ * (Authorization: Bearer <token>, or ?token= for EventSource), or with the
+ * API key / API tokens from .env, which act as admin for scripts. Until
+ * there are users, an API key or tokens, every request is let through as
+ * admin, as before accounts existed.
+ *
+ * Sessions last SESSION_TTL_HOURS and are saved to ${CONFIG_PATH}/sessions.json
+ * by the SHA-256 of their token, so a restart doesn't sign everyone out.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const config = require('../config');
+const userStore = require('./userStore');
+const logger = require('../utils/logger');
+
+const SESSIONS_FILE = path.join(config.configPath, 'sessions.json');
+// Failed logins per address before further attempts are refused for the window
+const MAX_LOGIN_FAILURES = 5;
+const LOGIN_WINDOW_MS = 15 * 60_000;
+
+// Routes reachable without credentials
+const PUBLIC_PATHS = ['/api/health', '/api/auth/login'];
+
+// SHA-256 of the token -> { userId, createdAt, expiresAt }
+let sessions = null;
+// address -> { count, since }
+const loginFailures = new Map();
+
+const tokenHash = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+const loadSessions = () => {
+  if (sessions) return sessions;
+  sessions = new Map();
+  if (!fs.existsSync(SESSIONS_FILE)) return sessions;
+  try {
+    sessions = new Map(Object.entries(JSON.parse(fs.readFileSync(SESSIONS_FILE, 'utf8'))));
+  } catch (error) {
+    logger.error('Failed to load sessions:', error.message);
+  }
+  return sessions;
+};
+
+const saveSessions = () => {
+  const now = Date.now();
+  for (const [hash, session] of sessions) {
+    if (session.expiresAt <= now) sessions.delete(hash);
+  }
+  try {
+    if (!fs.existsSync(config.configPath)) fs.mkdirSync(config.configPath, { recursive: true });
+    fs.writeFileSync(SESSIONS_FILE, JSON.stringify(Object.fromEntries(sessions)), { mode: 0o600 });
+  } catch (error) {
+    logger.error('Failed to save sessions:', error.message);
+  }
+};
+
+const authEnabled = () => !!(config.apiKey || config.apiTokens.length || userStore.hasUsers());
+
+// The signed-in user behind a session token, looked up each time so role
+// changes and disabled accounts take effect at once
+const sessionUser = (token) => {
+  const session = loadSessions().get(tokenHash(token));
+  if (!session || session.expiresAt <= Date.now()) return null;
+  const user = userStore.getUser(session.userId);
+  return user && !user.disabled ? user : null;
+};
+
+/**
+ * { credential, user: { id, username, role } } for the credentials on req,
+ * or null if there are none or they are not valid. Tokens are identified by
+ * their last four characters only.
+ */
+const identify = (req) => {
+  const providedKey = req.headers['x-api-key'] || req.query.apiKey;
+  if (config.apiKey && providedKey === config.apiKey) {
+    return { credential: 'api-key', user: { id: null, username: null, role: 'admin' } };
+  }
+
+  // EventSource can't set headers, so tokens may also arrive as ?token=
+  const header = req.headers.authorization || '';
+  const bearer = header.startsWith('Bearer ') ? header.slice(7).trim() : req.query.token;
+  if (!bearer) return null;
+  if (bearer === config.apiKey || config.apiTokens.includes(bearer)) {
+    return {
+      credential: bearer === config.apiKey ? 'api-key' : `token …${bearer.slice(-4)}`,
+      user: { id: null, username: null, role: 'admin' },
+    };
+  }
+  const user = sessionUser(bearer);
+  return user ? { credential: 'session', user: { id: user.id, username: user.username, role: user.role } } : null;
+};
+
+/**
+ * Middleware setting req.user and req.credential, answering 401 when
+ * credentials are required and missing or wrong
+ */
+const authenticate = (req, res, next) => {
+  if (!authEnabled()) {
+    req.user = { id: null, username: null, role: 'admin' };
+    req.credential = null;
+    return next();
+  }
+  const identity = identify(req);
+  if (identity) {
+    req.user = identity.user;
+    req.credential = identity.credential;
+    return next();
+  }
+  if (PUBLIC_PATHS.includes(req.path)) return next();
+  logger.warn(`Unauthorized request from ${req.ip}`);
+  res.status(401).json({ error: 'Unauthorized', message: 'Invalid or missing API key, token or session' });
+};
+
+/**
+ * Middleware answering 403 unless the user has at least the given role
+ */
+const requireRole = (role) => (req, res, next) => {
+  if (req.user && userStore.hasRole(req.user.role, role)) return next();
+  res.status(403).json({ success: false, error: `Forbidden: requires the ${role} role` });
+};
+
+/**
+ * Sign in; returns { token, expiresAt, user } or { error, status }
+ */
+const login = (req, username, password) => {
+  const address = req.ip || 'unknown';
+  const failures = loginFailures.get(address);
+  if (failures && Date.now() - failures.since > LOGIN_WINDOW_MS) loginFailures.delete(address);
+  if ((loginFailures.get(address)?.count ?? 0) >= MAX_LOGIN_FAILURES) {
+    return { error: 'Too many failed sign-ins, try again later', status: 429 };
+  }
+
+  const user = userStore.verifyCredentials(username, password);
+  if (!user) {
+    const current = loginFailures.get(address) || { count: 0, since: Date.now() };
+    loginFailures.set(address, { ...current, count: current.count + 1 });
+    return { error: 'Invalid username or password', status: 401 };
+  }
+
+  loginFailures.delete(address);
+  const token = crypto.randomBytes(32).toString('base64url');
+  const now = Date.now();
+  const expiresAt = now + config.auth.sessionTtlHours * 3_600_000;
+  loadSessions().set(tokenHash(token), { userId: user.id, createdAt: now, expiresAt });
+  saveSessions();
+  return { token, expiresAt: new Date(expiresAt).toISOString(), user: userStore.toPublic(user) };
+};
+
+const logout = (token) => {
+  if (loadSessions().delete(tokenHash(token))) saveSessions();
+};
+
+// Sign a user out everywhere, e.g. when they are disabled, deleted or get a new password
+const revokeUser = (userId) => {
+  let revoked = false;
+  for (const [hash, session] of loadSessions()) {
+    if (session.userId === userId) {
+      sessions.delete(hash);
+      revoked = true;
+    }
+  }
+  if (revoked) saveSessions();
+};
+
+module.exports = {
+  authEnabled,
+  authenticate,
+  requireRole,
+  login,
+  logout,
+  revokeUser,
+};
@@ -0,0 +1,242 @@
+/**
+ * Bitrate History Service
+ * Rolling bitrate history per channel, fed by the monitor's bitrate samples
+ * (so it records whether or not a browser is open), plus markers where a
+ * service restarted, stopped or failed and where the input dropped.
+ *
+ * Samples are folded into two tiers of buckets: 10 s for the last 24 h and
+ * 5 min for the last 7 days. Both are saved to ${CONFIG_PATH}/bitrate once
+ * a minute so a restart of the controller keeps the history.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const config = require('../config');
+const eventService = require('./eventService');
+const logger = require('../utils/logger');
+
+const HISTORY_DIR = path.join(config.configPath, 'bitrate');
+const SAVE_INTERVAL_MS = 60_000;
+const RETENTION_MS = 7 * 86_400_000;
+const MAX_MARKERS = 1000;
+const DEFAULT_MAX_POINTS = 500;
+
+const TIERS = [
+  { name: 'fine', bucketMs: 10_000, retentionMs: 86_400_000 },
+  { name: 'coarse', bucketMs: 300_000, retentionMs: RETENTION_MS },
+];
+
+// channelId -> { tiers: { fine, coarse }, open: { fine, coarse }, markers, inputUp, rxStatus, dirty }
+// A bucket is { t, avg, min, max, n }: n available samples, avg/min/max null when there were none
+const channels = new Map();
+const unsubscribers = [];
+let saveTimer = null;
+
+const historyFile = (channelId) => path.join(HISTORY_DIR, `ch${channelId}.json`);
+
+const emptyHistory = () => ({
+  tiers: { fine: [], coarse: [] },
+  open: { fine: null, coarse: null },
+  markers: [],
+  inputUp: null,
+  rxStatus: null,
+  dirty: false,
+});
+
+const loadHistory = (channelId) => {
+  const history = emptyHistory();
+  const file = historyFile(channelId);
+  if (!fs.existsSync(file)) return history;
+  try {
+    const saved = JSON.parse(fs.readFileSync(file, 'utf8'));
+    history.tiers.fine = saved.fine || [];
+    history.tiers.coarse = saved.coarse || [];
+    history.markers = saved.markers || [];
+  } catch (error) {
+    logger.error(`Failed to load bitrate history for channel ${channelId}:`, error.message);
+  }
+  return history;
+};
+
+const getHistory = (channelId) => {
+  if (!channels.has(channelId)) channels.set(channelId, loadHistory(channelId));
+  return channels.get(channelId);
+};
+
+const closeBucket = (bucket) => ({
+  t: bucket.t,
+  avg: bucket.n > 0 ? Math.round(bucket.sum / bucket.n) : null,
+  min: bucket.n > 0 ? bucket.min : null,
+  max: bucket.n > 0 ? bucket.max : null,
+  n: bucket.n,
+});
+
+/**
+ * Fold one sample (bps, or null without a stream) into every tier
+ */
+const addSample = (history, time, bps) => {
+  for (const tier of TIERS) {
+    const t = Math.floor(time / tier.bucketMs) * tier.bucketMs;
+    let bucket = history.open[tier.name];
+    if (bucket && bucket.t !== t) {
+      history.tiers[tier.name].push(closeBucket(bucket));
+      bucket = null;
+    }
+    if (!bucket) {
+      bucket = { t, sum: 0, n: 0, min: null, max: null };
+      history.open[tier.name] = bucket;
+    }
+    if (bps !== null) {
+      bucket.sum += bps;
+      bucket.n += 1;
+      bucket.min = bucket.min === null ? bps : Math.min(bucket.min, bps);
+      bucket.max = bucket.max === null ? bps : Math.max(bucket.max, bps);
+    }
+    const cutoff = time - tier.retentionMs;
+    const buckets = history.tiers[tier.name];
+    if (buckets.length > 0 && buckets[0].t < cutoff) {
+      history.tiers[tier.name] = buckets.filter(b => b.t >= cutoff);
+    }
+  }
+  history.dirty = true;
+};
+
+const addMarker = (history, marker) => {
+  history.markers.push(marker);
+  const cutoff = Date.now() - RETENTION_MS;
+  history.markers = history.markers.filter(m => new Date(m.timestamp).getTime() >= cutoff).slice(-MAX_MARKERS);
+  history.dirty = true;
+};
+
+const handleBitrate = (sample) => {
+  const history = getHistory(sample.channelId);
+  const time = new Date(sample.timestamp).getTime();
+  const bps = sample.available && sample.bitrate ? sample.bitrate.total : null;
+  addSample(history, time, bps);
+
+  // Only a running receiver without data counts as a dropped input; a stopped one has its own marker
+  const inputUp = bps !== null && bps > 0;
+  const rxUp = history.rxStatus === null || history.rxStatus === 'running';
+  if (history.inputUp !== null && inputUp !== history.inputUp && rxUp) {
+    addMarker(history, { timestamp: sample.timestamp, kind: inputUp ? 'input-restored' : 'input-lost' });
+  }
+  history.inputUp = inputUp;
+};
+
+const handleServiceState = ({ channelId, service, state, previousStatus, timestamp }) => {
+  const history = getHistory(channelId);
+  if (service === 'rx') history.rxStatus = state.status;
+  // The monitor's first poll after startup reports every unit without a previous status
+  if (!previousStatus) return;
+
+  let kind = null;
+  if (state.status === 'running' && previousStatus !== 'running') kind = 'restart';
+  else if (state.status === 'error' && previousStatus !== 'error') kind = 'failure';
+  else if (state.status === 'stopped' && ['running', 'stopping'].includes(previousStatus)) kind = 'stop';
+  else if (state.status === 'running' && previousStatus === 'running') kind = 'restart'; // new PID
+  if (kind) addMarker(history, { timestamp, kind, service, message: state.error || undefined });
+};
+
+const saveAll = () => {
+  for (const [channelId, history] of channels) {
+    if (!history.dirty) continue;
+    try {
+      if (!fs.existsSync(HISTORY_DIR)) fs.mkdirSync(HISTORY_DIR, { recursive: true });
+      fs.writeFileSync(historyFile(channelId), JSON.stringify({
+        fine: history.tiers.fine,
+        coarse: history.tiers.coarse,
+        markers: history.markers,
+      }));
+      history.dirty = false;
+    } catch (error) {
+      logger.error(`Failed to save bitrate history for channel ${channelId}:`, error.message);
+    }
+  }
+};
+
+/**
+ * Merge buckets into buckets of resolutionMs, weighting averages by sample count
+ */
+const mergeBuckets = (buckets, resolutionMs) => {
+  const merged = [];
+  for (const bucket of buckets) {
+    const t = Math.floor(bucket.t / resolutionMs) * resolutionMs;
+    let last = merged[merged.length - 1];
+    if (!last || last.t !== t) {
+      last = { t, sum: 0, n: 0, min: null, max: null };
+      merged.push(last);
+    }
+    if (bucket.n > 0) {
+      last.sum += bucket.avg * bucket.n;
+      last.n += bucket.n;
+      last.min = last.min === null ? bucket.min : Math.min(last.min, bucket.min);
+      last.max = last.max === null ? bucket.max : Math.max(last.max, bucket.max);
+    }
+  }
+  return merged.map(closeBucket);
+};
+
+/**
+ * Bitrate history of a channel between from and to (ms), at most maxPoints samples,
+ * from the finest tier that still covers `from`
+ */
+const query = (channelId, from, to, maxPoints = DEFAULT_MAX_POINTS) => {
+  const history = getHistory(channelId);
+  const now = Date.now();
+  const tier = TIERS.find(t => now - from <= t.retentionMs) || TIERS[TIERS.length - 1];
+  const open = history.open[tier.name];
+  const buckets = [...history.tiers[tier.name], ...(open ? [closeBucket(open)] : [])]
+    .filter(b => b.t >= from - tier.bucketMs && b.t <= to);
+
+  const windowMs = Math.max(to - from, tier.bucketMs);
+  const resolutionMs = Math.ceil(windowMs / maxPoints / tier.bucketMs) * tier.bucketMs;
+
+  return {
+    channelId,
+    from: new Date(from).toISOString(),
+    to: new Date(to).toISOString(),
+    resolutionSec: resolutionMs / 1000,
+    samples: mergeBuckets(buckets, resolutionMs).map(b => ({
+      timestamp: new Date(b.t).toISOString(),
+      avgBps: b.avg,
+      minBps: b.min,
+      maxBps: b.max,
+    })),
+    markers: history.markers.filter(m => {
+      const time = new Date(m.timestamp).getTime();
+      return time >= from && time <= to;
+    }),
+  };
+};
+
+const removeHistory = (channelId) => {
+  channels.delete(channelId);
+  const file = historyFile(channelId);
+  if (fs.existsSync(file)) fs.unlinkSync(file);
+};
+
+/**
+ * Start recording from the monitor's events
+ */
+const start = () => {
+  if (saveTimer) return;
+  unsubscribers.push(eventService.subscribe('bitrate', handleBitrate));
+  unsubscribers.push(eventService.subscribe('service-state', handleServiceState));
+  saveTimer = setInterval(saveAll, SAVE_INTERVAL_MS);
+};
+
+const stop = () => {
+  while (unsubscribers.length > 0) unsubscribers.pop()();
+  if (saveTimer) {
+    clearInterval(saveTimer);
+    saveTimer = null;
+  }
+  saveAll();
+};
+
+module.exports = {
+  start,
+  stop,
+  query,
+  removeHistory,
+};
@@ -0,0 +1,169 @@
+/**
+ * Channel Env Service
+ * Renders channel<PORT>.env, the file the rx/rec/rtmp start scripts source,
+ * from a channel's stored config and writes it whenever the config is saved
+ */
+
+const fs = require('fs');
+const path = require('path');
+const config = require('../config');
+const logger = require('../utils/logger');
+
+// Check if mock mode is enabled
+const isMockMode = () => process.env.MOCK_MODE === 'true' || config.nodeEnv === 'development';
+
+// Variables that hold secrets, masked in previews
+const SECRET_KEYS = ['SRT_PASSPHRASE', 'RTMP_URL'];
+
+// Development writes next to channels.json unless a directory is configured
+const getEnvDir = () => config.channelEnvPath
+  || (isMockMode() ? path.join(config.configPath, 'env') : '/opt/brateshub/configs');
+
+const getEnvPath = (channelId) => path.join(getEnvDir(), `channel${channelId}.env`);
+
+/**
+ * Quote a value so bash `source` and systemd EnvironmentFile read it back unchanged
+ */
+const quote = (value) => {
+  const text = String(value);
+  if (/^[\w.,:/@%+=-]*$/.test(text)) return text;
+  return `"${text.replace(/[\\"`$]/g, '\\$&')}"`;
+};
+
+/**
+ * RTMP target with the stream key appended, as ffmpeg expects it
+ */
+const rtmpTarget = (rtmp) => {
+  if (!rtmp.rtmpUrl) return undefined;
+  if (!rtmp.rtmpStreamKey) return rtmp.rtmpUrl;
+  return `${rtmp.rtmpUrl.replace(/\/+$/, '')}/${rtmp.rtmpStreamKey}`;
+};
+
+/**
+ * Variables for a channel config, grouped by the service that reads them.
+ * Unset fields are left out so the scripts' own defaults apply.
+ */
+const buildEnv = (channelConfig) => {
+  const srt = channelConfig.rx?.srt || {};
+  const rx = channelConfig.rx || {};
+  const rec = channelConfig.rec || {};
+  const rtmp = channelConfig.rtmp || {};
+  const transcodeVideo = rtmp.videoCodec && rtmp.videoCodec !== 'copy';
+  const transcodeAudio = rtmp.audioCodec && rtmp.audioCodec !== 'copy';
+
+  return [
+    {
+      title: 'SRT Input (RX Service)',
+      vars: {
+        SRT_MODE: srt.mode,
+        SRT_PORT: srt.mode === 'listener' ? srt.listenPort : undefined,
+        SRT_CALLER_HOST: srt.mode === 'caller' ? srt.targetHost : undefined,
+        SRT_CALLER_PORT: srt.mode === 'caller' ? srt.targetPort : undefined,
+        SRT_STREAMID: srt.streamId,
+        SRT_LATENCY: srt.latencyMs,
+        SRT_OHEADBW: srt.bandwidthOverhead,
+        SRT_MAXBW_MBPS: rx.maxBitrateMbps,
+        SRT_PASSPHRASE: srt.passphrase || '',
+        SRT_PBKEYLEN: srt.passphrase ? srt.pbkeylen : undefined,
+        MULTICAST_ENABLED: !!rx.multicastEnabled,
+        MULTICAST_DST: rx.multicastEnabled && rx.multicastDstIp
+          ? `${rx.multicastDstIp}:${rx.multicastDstPort || 5000}`
+          : undefined,
+        MULTICAST_INTERFACE: rx.interface,
+      },
+    },
+    {
+      title: 'Recording (REC Service)',
+      vars: {
+        REC_ENABLED: !!rec.recordEnabled,
+        REC_DIR: rec.recordPath,
+        REC_FORMAT: rec.filenameTemplate,
+        // 0 records one continuous file
+        REC_SEGMENT_DURATION: rec.segmentMode ? rec.segmentDurationSec || 3600 : 0,
+        REC_REPACK_MP4: !!rec.repackToMp4,
+        REC_REPACK_DIR: rec.repackToMp4 ? rec.repackPath : undefined,
+      },
+    },
+    {
+      title: 'RTMP Output (RTMP Service)',
+      vars: {
+        RTMP_ENABLED: !!rtmp.rtmpEnabled,
+        RTMP_URL: rtmpTarget(rtmp),
+        RTMP_VIDEO_CODEC: rtmp.videoCodec,
+        RTMP_VIDEO_PRESET: transcodeVideo ? rtmp.videoPreset : undefined,
+        RTMP_VIDEO_BITRATE: transcodeVideo ? rtmp.videoBitrate : undefined,
+        RTMP_VIDEO_WIDTH: transcodeVideo ? rtmp.videoWidth : undefined,
+        RTMP_VIDEO_HEIGHT: transcodeVideo ? rtmp.videoHeight : undefined,
+        RTMP_VIDEO_FPS: transcodeVideo ? rtmp.videoFps : undefined,
+        RTMP_GOP: transcodeVideo ? rtmp.gopSize : undefined,
+        RTMP_AUDIO_CODEC: rtmp.audioCodec,
+        RTMP_AUDIO_BITRATE: transcodeAudio ? rtmp.audioBitrate : undefined,
+        RTMP_AUDIO_RATE: transcodeAudio ? rtmp.audioSampleRate : undefined,
+        RTMP_AUDIO_PAIR: rtmp.audioPair,
+      },
+    },
+  ];
+};
+
+/**
+ * Env file text for a channel config
+ * options: { maskSecrets } replaces secret values with ******
+ */
+const renderEnv = (channelConfig, options = {}) => {
+  const lines = [
+    `# Channel ${channelConfig.channelId} (${String(channelConfig.name).replace(/\s+/g, ' ')})`,
+    '# Generated by the BratesHUB controller from channels.json; edits here are overwritten on save',
+  ];
+  for (const { title, vars } of buildEnv(channelConfig)) {
+    lines.push('', `# ${title}`);
+    for (const [key, value] of Object.entries(vars)) {
+      if (value === undefined || value === null) continue;
+      const masked = options.maskSecrets && SECRET_KEYS.includes(key) && value !== '';
+      lines.push(`${key}=${masked ? '******' : quote(value)}`);
+    }
+  }
+  return `${lines.join('\n')}\n`;
+};
+
+/**
+ * Write a channel's env file atomically: render to a temp file, keep the
+ * current file as channel<PORT>.env.prev, then rename into place
+ */
+const writeChannelEnv = (channelConfig) => {
+  const envPath = getEnvPath(channelConfig.channelId);
+  const tmpPath = `${envPath}.tmp`;
+  fs.mkdirSync(path.dirname(envPath), { recursive: true });
+  // Passphrases and stream keys: readable by the owner and the service group only
+  fs.writeFileSync(tmpPath, renderEnv(channelConfig), { mode: 0o640 });
+  if (fs.existsSync(envPath)) fs.copyFileSync(envPath, `${envPath}.prev`);
+  fs.renameSync(tmpPath, envPath);
+  logger.debug(`Wrote ${envPath}`);
+};
+
+/**
+ * What the stored config renders to (secrets masked) and whether the file on disk matches it
+ */
+const getEnvStatus = (channelConfig) => {
+  const envPath = getEnvPath(channelConfig.channelId);
+  const expected = renderEnv(channelConfig);
+  let current = null;
+  let modifiedAt = null;
+  if (fs.existsSync(envPath)) {
+    current = fs.readFileSync(envPath, 'utf8');
+    modifiedAt = fs.statSync(envPath).mtime.toISOString();
+  }
+  return {
+    path: envPath,
+    content: renderEnv(channelConfig, { maskSecrets: true }),
+    exists: current !== null,
+    inSync: current === expected,
+    modifiedAt,
+  };
+};
+
+module.exports = {
+  getEnvPath,
+  renderEnv,
+  writeChannelEnv,
+  getEnvStatus,
+};
@@ -0,0 +1,112 @@
+/**
+ * Channel Store
+ * File-based persistence for channel configurations (channels.json)
+ */
+
+const fs = require('fs');
+const path = require('path');
+const config = require('../config');
+const logger = require('../utils/logger');
+
+// Channels storage file
+const CHANNELS_FILE = path.join(config.configPath, 'channels.json');
+// Config each channel's services were last (re)started with, keyed by channel ID
+const APPLIED_FILE = path.join(config.configPath, 'applied.json');
+
+/**
+ * Ensure config directory exists
+ */
+const ensureConfigDir = () => {
+  if (!fs.existsSync(config.configPath)) {
+    fs.mkdirSync(config.configPath, { recursive: true });
+  }
+};
+
+/**
+ * Load channels from file
+ */
+const loadChannels = () => {
+  ensureConfigDir();
+  if (!fs.existsSync(CHANNELS_FILE)) {
+    // Return empty array if file doesn't exist
+    return [];
+  }
+  try {
+    const data = fs.readFileSync(CHANNELS_FILE, 'utf8');
+    return JSON.parse(data);
+  } catch (error) {
+    logger.error('Failed to load channels file:', error.message);
+    return [];
+  }
+};
+
+/**
+ * Save channels to file
+ */
+const saveChannels = (channels) => {
+  ensureConfigDir();
+  fs.writeFileSync(CHANNELS_FILE, JSON.stringify(channels, null, 2));
+};
+
+/**
+ * Get IDs of all stored channels
+ */
+const getChannelIds = () => loadChannels().map(c => c.channelId);
+
+const loadApplied = () => {
+  ensureConfigDir();
+  if (!fs.existsSync(APPLIED_FILE)) return {};
+  try {
+    return JSON.parse(fs.readFileSync(APPLIED_FILE, 'utf8'));
+  } catch (error) {
+    logger.error('Failed to load applied configs file:', error.message);
+    return {};
+  }
+};
+
+const saveApplied = (applied) => {
+  ensureConfigDir();
+  fs.writeFileSync(APPLIED_FILE, JSON.stringify(applied, null, 2));
+};
+
+/**
+ * Config the running services were started with, or null if unknown
+ * (e.g. channels created before this was tracked)
+ */
+const getAppliedConfig = (channelId) => loadApplied()[channelId] || null;
+
+const setAppliedConfig = (channelId, channelConfig) => {
+  const applied = loadApplied();
+  applied[channelId] = channelConfig;
+  saveApplied(applied);
+};
+
+const removeAppliedConfig = (channelId) => {
+  const applied = loadApplied();
+  delete applied[channelId];
+  saveApplied(applied);
+};
+
+/**
+ * A service was (re)started by hand, so it now runs with the stored config for its section
+ */
+const markServiceApplied = (channelId, service) => {
+  const stored = loadChannels().find(c => c.channelId === channelId);
+  if (!stored) return;
+  const applied = loadApplied();
+  // Untracked channels stay untracked; their running config is unknown for the other services
+  if (!applied[channelId]) return;
+  applied[channelId] = { ...applied[channelId], [service]: stored[service] };
+  saveApplied(applied);
+};
+
+module.exports = {
+  ensureConfigDir,
+  loadChannels,
+  saveChannels,
+  getChannelIds,
+  getAppliedConfig,
+  setAppliedConfig,
+  removeAppliedConfig,
+  markServiceApplied,
+};
@@ -0,0 +1,237 @@
+/**
+ * Config Apply Service
+ * Applies a channel config as one transaction: snapshot the current config,
+ * save the new one, restart the affected services and verify they come up.
+ * If verification fails the previous config is restored and the services
+ * are restarted again. Progress is published as config-apply events.
+ */
+
+const config = require('../config');
+const systemdService = require('./systemdService');
+const tsanalyzeService = require('./tsanalyzeService');
+const monitorService = require('./monitorService');
+const serviceEventService = require('./serviceEventService');
+const channelStore = require('./channelStore');
+const configHistoryService = require('./configHistoryService');
+const channelEnvService = require('./channelEnvService');
+const eventService = require('./eventService');
+const logger = require('../utils/logger');
+
+const POLL_INTERVAL_MS = 1000;
+// A service must still be running this long after it first reports running
+const SETTLE_MS = 2000;
+const DEFAULT_TIMEOUT_SEC = 20;
+
+// Check if mock mode is enabled
+const isMockMode = () => process.env.MOCK_MODE === 'true' || config.nodeEnv === 'development';
+
+// Channels with an apply in progress
+const inProgress = new Set();
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+const isApplying = (channelId) => inProgress.has(channelId);
+
+/**
+ * Whether a config runs a service. Disabled recording and RTMP services exit
+ * as soon as they start, so an apply stops them instead of restarting them.
+ */
+const isServiceEnabled = (channelConfig, service) => {
+  if (service === 'rec') return !!channelConfig.rec?.recordEnabled;
+  if (service === 'rtmp') return !!channelConfig.rtmp?.rtmpEnabled;
+  return true;
+};
+
+/**
+ * Wait for a service to reach running and stay there; throws with the reason otherwise
+ */
+const waitForRunning = async (channelId, service, deadline) => {
+  let runningSince = null;
+
+  while (Date.now() < deadline) {
+    const state = await systemdService.getServiceStatus(channelId, service);
+    monitorService.recordServiceState(channelId, service, state);
+
+    if (state.status === 'error' || state.status === 'not-found') {
+      throw new Error(`${service} is ${state.status}${state.subState ? ` (${state.subState})` : ''}`);
+    }
+    if (state.status === 'running') {
+      runningSince = runningSince || Date.now();
+      if (Date.now() - runningSince >= SETTLE_MS) return;
+    } else {
+      runningSince = null;
+    }
+    await sleep(POLL_INTERVAL_MS);
+  }
+  throw new Error(`${service} did not reach running in time`);
+};
+
+/**
+ * Wait for a service to be stopped; throws if it is still up at the deadline
+ */
+const waitForStopped = async (channelId, service, deadline) => {
+  while (Date.now() < deadline) {
+    const state = await systemdService.getServiceStatus(channelId, service);
+    monitorService.recordServiceState(channelId, service, state);
+
+    if (state.status === 'stopped' || state.status === 'not-found') return;
+    await sleep(POLL_INTERVAL_MS);
+  }
+  throw new Error(`${service} did not stop in time`);
+};
+
+/**
+ * Wait until the channel's stream shows data
+ */
+const waitForStream = async (channelId, deadline) => {
+  while (Date.now() < deadline) {
+    if (isMockMode()) {
+      if (tsanalyzeService.generateMockAnalysis(channelId).available) return;
+    } else if (await tsanalyzeService.getChannelBitrate(channelId)) {
+      return;
+    }
+    await sleep(POLL_INTERVAL_MS);
+  }
+  throw new Error('No stream data within the timeout');
+};
+
+/**
+ * Write a channel config and the env file its services start with, keeping its channelId
+ */
+const writeConfig = (channelId, channelConfig) => {
+  const channels = channelStore.loadChannels();
+  const index = channels.findIndex(c => c.channelId === channelId);
+  if (index === -1) throw new Error(`Channel ${channelId} not found`);
+  channels[index] = { ...channelConfig, channelId };
+  channelEnvService.writeChannelEnv(channels[index]);
+  channelStore.saveChannels(channels);
+};
+
+/**
+ * Remember what the restarted services now run with. Sections of services that
+ * were not restarted keep their previous applied state.
+ */
+const recordApplied = (channelId, channelConfig, services) => {
+  const applied = channelStore.getAppliedConfig(channelId);
+  if (!applied) {
+    // First tracked apply: only exact if every service was restarted
+    if (services.length === 3) channelStore.setAppliedConfig(channelId, { ...channelConfig, channelId });
+    return;
+  }
+  const next = {
+    ...applied,
+    name: channelConfig.name,
+    extraArgs: channelConfig.extraArgs,
+    tags: channelConfig.tags,
+    group: channelConfig.group,
+  };
+  for (const service of services) next[service] = channelConfig[service];
+  channelStore.setAppliedConfig(channelId, next);
+};
+
+/**
+ * Apply a config to a channel
+ * options: { services, verifyStream, timeoutSec, applyId, change }
+ * change ({ author, comment }) is recorded with the new config version if it is applied
+ * Resolves with { applyId, channelId, outcome, steps, error } where outcome is
+ * 'applied', 'rolled-back' or 'rollback-failed'
+ */
+const applyConfig = async (channelId, nextConfig, options = {}) => {
+  const services = options.services || [];
+  const timeoutMs = (options.timeoutSec || DEFAULT_TIMEOUT_SEC) * 1000;
+  const applyId = options.applyId || `${channelId}-${Date.now()}`;
+  const verifyStream = !!options.verifyStream && services.includes('rx');
+
+  const previous = channelStore.loadChannels().find(c => c.channelId === channelId);
+  if (!previous) throw new Error(`Channel ${channelId} not found`);
+  if (inProgress.has(channelId)) throw new Error(`An apply is already in progress for channel ${channelId}`);
+  inProgress.add(channelId);
+
+  const steps = [];
+  let snapshot = null;
+  let outcome = null;
+  let failure = null;
+
+  const publish = () => {
+    eventService.publish('config-apply', { applyId, channelId, steps, outcome, error: failure || undefined });
+  };
+
+  // Run one step, recording its progress; rethrows so the phase stops at the first failure
+  const step = async (key, label, fn) => {
+    const entry = { key, label, status: 'running' };
+    steps.push(entry);
+    publish();
+    try {
+      await fn();
+      entry.status = 'done';
+    } catch (error) {
+      entry.status = 'failed';
+      entry.detail = error.message;
+      throw error;
+    } finally {
+      publish();
+    }
+  };
+
+  // Save, restart and verify; shared by apply and rollback. Services the config
+  // disables are stopped and expected to stay stopped.
+  const runPhase = async (prefix, channelConfig, label) => {
+    await step(`${prefix}save`, `${label} config`, async () => writeConfig(channelId, channelConfig));
+    for (const service of services) {
+      if (isServiceEnabled(channelConfig, service)) {
+        await step(`${prefix}restart-${service}`, `Restart ${service.toUpperCase()}`, () =>
+          serviceEventService.runAction(channelId, service, 'restart', 'apply'));
+      } else {
+        await step(`${prefix}stop-${service}`, `Stop ${service.toUpperCase()}`, () =>
+          serviceEventService.runAction(channelId, service, 'stop', 'apply'));
+      }
+    }
+    const deadline = Date.now() + timeoutMs;
+    // Verify in parallel, but let every check finish so each step gets a final status
+    const results = await Promise.allSettled(services.map(service => (isServiceEnabled(channelConfig, service)
+      ? step(`${prefix}verify-${service}`, `${service.toUpperCase()} running`, () =>
+        waitForRunning(channelId, service, deadline))
+      : step(`${prefix}verify-${service}`, `${service.toUpperCase()} stopped`, () =>
+        waitForStopped(channelId, service, deadline)))));
+    const failed = results.find(r => r.status === 'rejected');
+    if (failed) throw failed.reason;
+    if (verifyStream) {
+      await step(`${prefix}verify-stream`, 'Stream data', () => waitForStream(channelId, deadline));
+    }
+  };
+
+  try {
+    await step('snapshot', 'Snapshot current config', async () => {
+      snapshot = JSON.parse(JSON.stringify(previous));
+    });
+    try {
+      await runPhase('', nextConfig, 'Save new');
+      outcome = 'applied';
+      recordApplied(channelId, nextConfig, services);
+      configHistoryService.recordVersion(channelId, { ...nextConfig, channelId }, 'apply', options.change, previous);
+      logger.info(`Config applied to channel ${channelId}`);
+    } catch (error) {
+      failure = error.message;
+      logger.warn(`Config apply failed on channel ${channelId}, rolling back:`, error.message);
+      try {
+        await runPhase('rollback-', snapshot, 'Restore previous');
+        outcome = 'rolled-back';
+        recordApplied(channelId, snapshot, services);
+      } catch (rollbackError) {
+        outcome = 'rollback-failed';
+        logger.error(`Rollback failed on channel ${channelId}:`, rollbackError.message);
+      }
+    }
+  } finally {
+    inProgress.delete(channelId);
+  }
+
+  publish();
+  eventService.publish('channels-changed', { reason: 'updated', channelId });
+  return { applyId, channelId, outcome, steps, error: failure || undefined };
+};
+
+module.exports = {
+  applyConfig,
+  isApplying,
+};
@@ -0,0 +1,101 @@
+/**
+ * Config History Service
+ * Versioned snapshots of every saved channel config, one file per channel
+ * under ${CONFIG_PATH}/history. Versions are numbered from 1 per channel.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const config = require('../config');
+const logger = require('../utils/logger');
+
+const HISTORY_DIR = path.join(config.configPath, 'history');
+// Oldest versions are dropped beyond this
+const MAX_VERSIONS = 200;
+
+const historyFile = (channelId) => path.join(HISTORY_DIR, `ch${channelId}.json`);
+
+const loadHistory = (channelId) => {
+  const file = historyFile(channelId);
+  if (!fs.existsSync(file)) return [];
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error) {
+    logger.error(`Failed to load config history for channel ${channelId}:`, error.message);
+    return [];
+  }
+};
+
+/**
+ * Author and comment of a change: the signed-in user, else the X-Change-Author
+ * header, and the X-Change-Comment header (URI-encoded so they may contain any text)
+ */
+const changeFromRequest = (req) => {
+  const decode = (value) => {
+    if (!value) return undefined;
+    try {
+      return decodeURIComponent(value).trim() || undefined;
+    } catch {
+      return value;
+    }
+  };
+  return {
+    author: req.user?.username || decode(req.get('x-change-author')),
+    comment: decode(req.get('x-change-comment')),
+  };
+};
+
+/**
+ * Record a saved config as a new version
+ * source: 'create' | 'update' | 'save' | 'apply'
+ * previousConfig, if given, is recorded first as a baseline for channels without history
+ */
+const recordVersion = (channelId, channelConfig, source, change = {}, previousConfig = null) => {
+  try {
+    const history = loadHistory(channelId);
+    if (history.length === 0 && previousConfig) {
+      history.push({
+        version: 1,
+        timestamp: new Date().toISOString(),
+        author: 'system',
+        comment: 'Config before history was recorded',
+        source: 'baseline',
+        config: previousConfig,
+      });
+    }
+    const last = history[history.length - 1];
+    const entry = {
+      version: last ? last.version + 1 : 1,
+      timestamp: new Date().toISOString(),
+      author: change.author || 'unknown',
+      comment: change.comment || undefined,
+      source,
+      config: channelConfig,
+    };
+    history.push(entry);
+    if (!fs.existsSync(HISTORY_DIR)) fs.mkdirSync(HISTORY_DIR, { recursive: true });
+    fs.writeFileSync(historyFile(channelId), JSON.stringify(history.slice(-MAX_VERSIONS), null, 2));
+    return entry;
+  } catch (error) {
+    // History is an audit aid; never fail the save because of it
+    logger.error(`Failed to record config version for channel ${channelId}:`, error.message);
+    return null;
+  }
+};
+
+/**
+ * All versions of a channel's config, newest first
+ */
+const getVersions = (channelId) => loadHistory(channelId).reverse();
+
+const removeHistory = (channelId) => {
+  const file = historyFile(channelId);
+  if (fs.existsSync(file)) fs.unlinkSync(file);
+};
+
+module.exports = {
+  changeFromRequest,
+  recordVersion,
+  getVersions,
+  removeHistory,
+};
@@ -0,0 +1,100 @@
+/**
+ * Live Event Service
+ * Fans out service state, bitrate and heartbeat events to
+ * Server-Sent Events clients and in-process subscribers. Events no
+ * browser needs are published to in-process subscribers only.
+ */
+
+const { EventEmitter } = require('events');
+const config = require('../config');
+const logger = require('../utils/logger');
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+// Connected SSE responses
+const clients = new Set();
+let heartbeatTimer = null;
+
+/**
+ * Write a single SSE frame to a client
+ */
+const writeEvent = (res, type, data) => {
+  res.write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+/**
+ * Publish an event to all SSE clients and in-process subscribers
+ */
+const publish = (type, data) => {
+  const payload = { ...data, timestamp: data.timestamp || new Date().toISOString() };
+
+  for (const res of clients) {
+    try {
+      writeEvent(res, type, payload);
+    } catch (error) {
+      logger.warn(`Failed to write ${type} event to client:`, error.message);
+    }
+  }
+
+  emitter.emit(type, payload);
+};
+
+/**
+ * Publish an event to in-process subscribers only, for results too large
+ * or too frequent to send to every SSE client
+ */
+const publishInternal = (type, data) => {
+  emitter.emit(type, { ...data, timestamp: data.timestamp || new Date().toISOString() });
+};
+
+/**
+ * Subscribe to events of a given type in-process
+ * Returns an unsubscribe function
+ */
+const subscribe = (type, listener) => {
+  emitter.on(type, listener);
+  return () => emitter.off(type, listener);
+};
+
+const startHeartbeat = () => {
+  if (heartbeatTimer) return;
+  heartbeatTimer = setInterval(() => {
+    publish('heartbeat', { clients: clients.size });
+  }, config.monitor.heartbeatIntervalMs);
+};
+
+const stopHeartbeat = () => {
+  if (heartbeatTimer) {
+    clearInterval(heartbeatTimer);
+    heartbeatTimer = null;
+  }
+};
+
+/**
+ * Register an SSE response as a client
+ * Sends the initial snapshot and returns a function that removes the client
+ */
+const addClient = (res, snapshot) => {
+  clients.add(res);
+  startHeartbeat();
+
+  writeEvent(res, 'snapshot', { ...snapshot, timestamp: new Date().toISOString() });
+  logger.debug(`Event stream client connected (${clients.size} total)`);
+
+  return () => {
+    clients.delete(res);
+    if (clients.size === 0) stopHeartbeat();
+    logger.debug(`Event stream client disconnected (${clients.size} total)`);
+  };
+};
+
+const getClientCount = () => clients.size;
+
+module.exports = {
+  publish,
+  publishInternal,
+  subscribe,
+  addClient,
+  getClientCount,
+};
@@ -0,0 +1,216 @@
+/**
+ * Channel Monitor
+ * Polls systemd and TSDuck once on the server for all channels and
+ * publishes changes, so browsers don't have to poll individually
+ */
+
+const config = require('../config');
+const systemdService = require('./systemdService');
+const tsanalyzeService = require('./tsanalyzeService');
+const channelStore = require('./channelStore');
+const eventService = require('./eventService');
+const logger = require('../utils/logger');
+
+const SERVICES = ['rx', 'rec', 'rtmp'];
+
+// Check if mock mode is enabled
+const isMockMode = () => process.env.MOCK_MODE === 'true' || config.nodeEnv === 'development';
+
+// Last known state per `${channelId}-${service}` and bitrate per channel
+const serviceStates = new Map();
+const bitrates = new Map();
+
+const timers = [];
+let statusPollRunning = false;
+let bitratePollRunning = false;
+let pidPollRunning = false;
+let knownChannelIds = null;
+
+/**
+ * Record a service state, publishing a service-state event if it changed
+ */
+const recordServiceState = (channelId, service, state) => {
+  const key = `${channelId}-${service}`;
+  const previous = serviceStates.get(key);
+  serviceStates.set(key, state);
+
+  if (!previous || previous.status !== state.status || previous.pid !== state.pid) {
+    eventService.publish('service-state', {
+      channelId,
+      service,
+      state,
+      previousStatus: previous?.status,
+    });
+  }
+};
+
+/**
+ * Record a bitrate sample and publish it
+ */
+const recordBitrate = (sample) => {
+  bitrates.set(sample.channelId, sample);
+  eventService.publish('bitrate', sample);
+};
+
+/**
+ * Forget cached state for channels that no longer exist
+ */
+const pruneChannels = (channelIds) => {
+  for (const key of serviceStates.keys()) {
+    const id = parseInt(key.split('-')[0], 10);
+    if (!channelIds.includes(id)) serviceStates.delete(key);
+  }
+  for (const id of bitrates.keys()) {
+    if (!channelIds.includes(id)) bitrates.delete(id);
+  }
+};
+
+const pollStatuses = async () => {
+  if (statusPollRunning) return;
+  statusPollRunning = true;
+
+  try {
+    const channelIds = channelStore.getChannelIds();
+    const idsKey = channelIds.join(',');
+    if (knownChannelIds !== null && knownChannelIds !== idsKey) {
+      eventService.publish('channels-changed', { reason: 'discovered' });
+    }
+    knownChannelIds = idsKey;
+    pruneChannels(channelIds);
+
+    await Promise.all(
+      channelIds.flatMap(id =>
+        SERVICES.map(async (service) => {
+          const state = await systemdService.getServiceStatus(id, service)
+            .catch(() => ({ status: 'unknown' }));
+          recordServiceState(id, service, state);
+        })
+      )
+    );
+  } catch (error) {
+    logger.warn('Service status poll failed:', error.message);
+  } finally {
+    statusPollRunning = false;
+  }
+};
+
+const sampleBitrate = async (channelId) => {
+  if (isMockMode()) {
+    const mock = tsanalyzeService.generateMockAnalysis(channelId);
+    return {
+      channelId,
+      available: mock.available,
+      timestamp: mock.timestamp,
+      bitrate: mock.available ? mock.bitrate : undefined,
+      error: mock.error,
+    };
+  }
+
+  const bitrate = await tsanalyzeService.getChannelBitrate(channelId);
+  return bitrate
+    ? {
+        channelId,
+        available: true,
+        timestamp: bitrate.timestamp,
+        bitrate: { total: bitrate.bps, totalMbps: bitrate.mbps },
+      }
+    : {
+        channelId,
+        available: false,
+        timestamp: new Date().toISOString(),
+      };
+};
+
+const pollBitrates = async () => {
+  if (bitratePollRunning) return;
+  bitratePollRunning = true;
+
+  try {
+    const channelIds = channelStore.getChannelIds();
+    const samples = await Promise.all(channelIds.map(id => sampleBitrate(id).catch(() => null)));
+    for (const sample of samples) {
+      if (sample) recordBitrate(sample);
+    }
+  } catch (error) {
+    logger.warn('Bitrate poll failed:', error.message);
+  } finally {
+    bitratePollRunning = false;
+  }
+};
+
+const analyseChannel = async (channelId) => {
+  const analysis = isMockMode()
+    ? tsanalyzeService.generateMockAnalysis(channelId)
+    : await tsanalyzeService.analyzeChannel(channelId);
+  return {
+    channelId,
+    available: analysis.available,
+    timestamp: analysis.timestamp,
+    pids: analysis.available ? analysis.pids : undefined,
+    tr101290: analysis.available ? analysis.tr101290 : undefined,
+  };
+};
+
+// Full tsanalyze runs are heavier than bitrate readings, so they are less frequent
+// and only made for channels whose receiver is running
+const pollPids = async () => {
+  if (pidPollRunning) return;
+  pidPollRunning = true;
+
+  try {
+    const channelIds = channelStore.getChannelIds()
+      .filter(id => serviceStates.get(`${id}-rx`)?.status === 'running');
+    const results = await Promise.all(channelIds.map(id => analyseChannel(id).catch(() => null)));
+    for (const result of results) {
+      // Only the PID history and TR 101 290 services use these; browsers fetch the summaries
+      if (result) eventService.publishInternal('pids', result);
+    }
+  } catch (error) {
+    logger.warn('PID analysis poll failed:', error.message);
+  } finally {
+    pidPollRunning = false;
+  }
+};
+
+/**
+ * Current state of all channels, sent to clients when they connect
+ */
+const getSnapshot = () => ({
+  services: Array.from(serviceStates.entries()).map(([key, state]) => {
+    const [channelId, service] = key.split('-');
+    return { channelId: parseInt(channelId, 10), service, state };
+  }),
+  bitrates: Array.from(bitrates.values()),
+});
+
+/**
+ * Start background polling
+ */
+const start = () => {
+  if (timers.length > 0) return;
+
+  pollStatuses();
+  pollBitrates();
+  timers.push(setInterval(pollStatuses, config.monitor.statusIntervalMs));
+  timers.push(setInterval(pollBitrates, config.monitor.bitrateIntervalMs));
+  timers.push(setInterval(pollPids, config.monitor.pidIntervalMs));
+
+  logger.info(`Channel monitor started (status every ${config.monitor.statusIntervalMs}ms, bitrate every ${config.monitor.bitrateIntervalMs}ms, PIDs every ${config.monitor.pidIntervalMs}ms)`);
+};
+
+/**
+ * Stop background polling
+ */
+const stop = () => {
+  while (timers.length > 0) {
+    clearInterval(timers.pop());
+  }
+};
+
+module.exports = {
+  start,
+  stop,
+  getSnapshot,
+  recordServiceState,
+  pollStatuses,
+};
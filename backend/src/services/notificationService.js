@@ -0,0 +1,284 @@
+/**
+ * Notification Service
+ * Delivers alerts (see alertService) to the notification destinations: a
+ * message when an alert fires, and another when it resolves for destinations
+ * that want it. What gets reported - service failures, lost input, iLO
+ * health - is therefore decided by the alert rules. Silenced and
+ * acknowledged alerts are not sent.
+ *
+ * Failed deliveries are retried with exponential backoff. The last deliveries
+ * are saved to ${CONFIG_PATH}/notification-deliveries.json; those still
+ * waiting for a retry resume after a restart.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const os = require('os');
+const crypto = require('crypto');
+const fetch = require('node-fetch');
+const config = require('../config');
+const eventService = require('./eventService');
+const notificationStore = require('./notificationStore');
+const smtpClient = require('./smtpClient');
+const logger = require('../utils/logger');
+
+const DELIVERIES_FILE = path.join(config.configPath, 'notification-deliveries.json');
+const MAX_DELIVERIES = 200;
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_MS = 30_000;
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+// Newest last
+let deliveries = [];
+const retryTimers = new Map();
+let unsubscribe = null;
+
+const loadDeliveries = () => {
+  if (!fs.existsSync(DELIVERIES_FILE)) return;
+  try {
+    deliveries = JSON.parse(fs.readFileSync(DELIVERIES_FILE, 'utf8'));
+  } catch (error) {
+    logger.error('Failed to load notification deliveries:', error.message);
+  }
+};
+
+const saveDeliveries = () => {
+  try {
+    if (!fs.existsSync(config.configPath)) fs.mkdirSync(config.configPath, { recursive: true });
+    fs.writeFileSync(DELIVERIES_FILE, JSON.stringify(deliveries, null, 2));
+  } catch (error) {
+    logger.error('Failed to save notification deliveries:', error.message);
+  }
+};
+
+// -- messages ------------------------------------------------------------------
+
+const summarize = (event, alert) => {
+  if (event === 'test') return `Test notification from BratesHUB on ${os.hostname()}`;
+  const label = event === 'resolved' ? 'RESOLVED' : alert.severity.toUpperCase();
+  return `[${label}] ${alert.ruleName}: ${alert.message}`;
+};
+
+const testAlert = () => {
+  const now = new Date().toISOString();
+  return {
+    id: `test-${crypto.randomUUID()}`,
+    ruleId: 'test',
+    ruleName: 'Test notification',
+    type: 'test',
+    severity: 'info',
+    channelId: null,
+    subject: 'test',
+    message: 'Notifications from this controller reach this destination',
+    value: null,
+    state: 'firing',
+    firedAt: now,
+    acknowledgedAt: null,
+    resolvedAt: null,
+    silencedUntil: null,
+  };
+};
+
+const lookup = (context, key) => key.split('.').reduce((value, part) => (value == null ? undefined : value[part]), context);
+
+const PLACEHOLDER = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+/**
+ * Fill {{placeholders}} in a parsed template. A string that is only a
+ * placeholder takes the value as is (numbers, null, objects); elsewhere
+ * values are inserted as text.
+ */
+const render = (value, context) => {
+  if (typeof value === 'string') {
+    const whole = value.match(/^\{\{\s*([\w.]+)\s*\}\}$/);
+    if (whole) return lookup(context, whole[1]) ?? null;
+    return value.replace(PLACEHOLDER, (_, key) => {
+      const found = lookup(context, key);
+      if (found == null) return '';
+      return typeof found === 'object' ? JSON.stringify(found) : String(found);
+    });
+  }
+  if (Array.isArray(value)) return value.map(item => render(item, context));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, render(item, context)]));
+  }
+  return value;
+};
+
+const sendWebhook = async (destination, context) => {
+  const payload = destination.template
+    ? render(JSON.parse(destination.template), context)
+    : { event: context.event, text: context.text, alert: context.alert, host: context.host, timestamp: context.timestamp };
+
+  const response = await fetch(destination.url, {
+    method: destination.method,
+    headers: { 'Content-Type': 'application/json', ...destination.headers },
+    body: JSON.stringify(payload),
+    timeout: WEBHOOK_TIMEOUT_MS,
+  });
+  if (!response.ok) {
+    const body = await response.text().catch(() => '');
+    throw new Error(`HTTP ${response.status}${body ? `: ${body.slice(0, 200)}` : ''}`);
+  }
+};
+
+const sendEmail = async (destination, context) => {
+  const { alert } = context;
+  const lines = [
+    context.text,
+    '',
+    `Rule:     ${alert.ruleName}`,
+    `Severity: ${alert.severity}`,
+    alert.channelId !== null ? `Channel:  ${alert.channelId}` : null,
+    `Fired:    ${alert.firedAt}`,
+    alert.resolvedAt ? `Resolved: ${alert.resolvedAt}` : null,
+    `Host:     ${context.host}`,
+  ].filter(line => line !== null);
+
+  await smtpClient.sendMail(destination.smtp, {
+    from: destination.from,
+    to: destination.to,
+    subject: context.text,
+    text: lines.join('\n'),
+  });
+};
+
+const send = (destination, event, alert) => {
+  const context = {
+    event,
+    alert,
+    text: summarize(event, alert),
+    host: os.hostname(),
+    timestamp: new Date().toISOString(),
+  };
+  return destination.type === 'email' ? sendEmail(destination, context) : sendWebhook(destination, context);
+};
+
+// -- deliveries ----------------------------------------------------------------
+
+const update = (delivery, changes) => {
+  Object.assign(delivery, changes, { updatedAt: new Date().toISOString() });
+  saveDeliveries();
+};
+
+const schedule = (delivery) => {
+  const delay = Math.max(0, new Date(delivery.nextAttemptAt).getTime() - Date.now());
+  clearTimeout(retryTimers.get(delivery.id));
+  retryTimers.set(delivery.id, setTimeout(() => {
+    retryTimers.delete(delivery.id);
+    attempt(delivery);
+  }, delay));
+};
+
+async function attempt(delivery) {
+  const destination = notificationStore.getDestination(delivery.destinationId);
+  if (!destination) {
+    update(delivery, { status: 'failed', lastError: 'Destination was deleted', nextAttemptAt: null });
+    return delivery;
+  }
+
+  delivery.attempts += 1;
+  try {
+    await send(destination, delivery.event, delivery.alert);
+    update(delivery, { status: 'delivered', deliveredAt: new Date().toISOString(), lastError: null, nextAttemptAt: null });
+  } catch (error) {
+    const retry = delivery.event !== 'test' && delivery.attempts < MAX_ATTEMPTS;
+    const nextAttemptAt = retry
+      ? new Date(Date.now() + RETRY_BASE_MS * 2 ** (delivery.attempts - 1)).toISOString()
+      : null;
+    update(delivery, { status: retry ? 'retrying' : 'failed', lastError: error.message, nextAttemptAt });
+    logger.warn(`Notification to ${destination.name} failed (attempt ${delivery.attempts}): ${error.message}`);
+    if (retry) schedule(delivery);
+  }
+  return delivery;
+}
+
+const createDelivery = (destination, event, alert) => {
+  const now = new Date().toISOString();
+  const delivery = {
+    id: crypto.randomUUID(),
+    destinationId: destination.id,
+    destinationName: destination.name,
+    destinationType: destination.type,
+    event,
+    alertId: alert.id,
+    summary: summarize(event, alert),
+    status: 'pending',
+    attempts: 0,
+    lastError: null,
+    createdAt: now,
+    updatedAt: now,
+    deliveredAt: null,
+    nextAttemptAt: null,
+    alert,
+  };
+  deliveries = [...deliveries, delivery].slice(-MAX_DELIVERIES);
+  saveDeliveries();
+  return delivery;
+};
+
+const wasNotified = (alertId) => deliveries.some(d => d.alertId === alertId && d.event === 'firing');
+
+const isSilenced = (alert) => alert.silencedUntil && new Date(alert.silencedUntil).getTime() > Date.now();
+
+const handleAlert = ({ alert }) => {
+  let event = null;
+  if (alert.state === 'firing' && !isSilenced(alert) && !wasNotified(alert.id)) event = 'firing';
+  else if (alert.state === 'resolved' && wasNotified(alert.id)) event = 'resolved';
+  if (!event) return;
+
+  const destinations = notificationStore.loadDestinations().filter(destination =>
+    destination.enabled
+    && destination.severities.includes(alert.severity)
+    && (event === 'firing' || destination.notifyResolved));
+
+  for (const destination of destinations) {
+    attempt(createDelivery(destination, event, alert));
+  }
+};
+
+/**
+ * Send a test message to a destination now, without retries
+ */
+const sendTest = (destinationId) => {
+  const destination = notificationStore.getDestination(destinationId);
+  if (!destination) return null;
+  return attempt(createDelivery(destination, 'test', testAlert()));
+};
+
+/**
+ * Recent deliveries, newest first, without the alert they carried
+ */
+const listDeliveries = ({ destinationId, limit = 100 } = {}) => deliveries
+  .filter(d => !destinationId || d.destinationId === destinationId)
+  .slice(-limit)
+  .reverse()
+  .map(({ alert, ...delivery }) => delivery);
+
+/**
+ * Start delivering alerts and resume pending retries
+ */
+const start = () => {
+  if (unsubscribe) return;
+  loadDeliveries();
+  for (const delivery of deliveries) {
+    if (delivery.status === 'retrying') schedule(delivery);
+    // Interrupted mid-send
+    else if (delivery.status === 'pending') attempt(delivery);
+  }
+  unsubscribe = eventService.subscribe('alert', handleAlert);
+};
+
+const stop = () => {
+  if (unsubscribe) unsubscribe();
+  unsubscribe = null;
+  retryTimers.forEach(timer => clearTimeout(timer));
+  retryTimers.clear();
+};
+
+module.exports = {
+  start,
+  stop,
+  sendTest,
+  listDeliveries,
+};
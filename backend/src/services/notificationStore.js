@@ -0,0 +1,221 @@
+/**
+ * Notification Store
+ * Outbound notification destinations (notifications.json), shared by every client
+ *
+ * A destination is { id, name, type, enabled, severities, notifyResolved, ...params }:
+ * - webhook: url, method (POST or PUT), headers, template (JSON text with
+ *            {{placeholders}}, or null for the default payload)
+ * - email:   smtp { host, port, security (none, starttls or tls), username, password }, from, to
+ * severities lists the alert severities delivered; notifyResolved also sends
+ * a message when the alert resolves. SMTP passwords are never sent back to
+ * clients; toPublic() reports whether one is set instead. Webhook header
+ * values (often bearer tokens) go back masked, and a masked value sent in an
+ * update keeps the stored one.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const config = require('../config');
+const logger = require('../utils/logger');
+
+const DESTINATIONS_FILE = path.join(config.configPath, 'notifications.json');
+
+const DESTINATION_TYPES = ['webhook', 'email'];
+const SEVERITIES = ['critical', 'warning', 'info'];
+const METHODS = ['POST', 'PUT'];
+const SMTP_SECURITY = ['none', 'starttls', 'tls'];
+const EMAIL_PATTERN = /^[^\s@<>]+@[^\s@<>]+$/;
+// Stands in for webhook header values in what clients see
+const MASKED = '******';
+
+let cachedDestinations = null;
+
+const loadDestinations = () => {
+  if (cachedDestinations) return cachedDestinations;
+  cachedDestinations = [];
+  if (fs.existsSync(DESTINATIONS_FILE)) {
+    try {
+      cachedDestinations = JSON.parse(fs.readFileSync(DESTINATIONS_FILE, 'utf8'));
+    } catch (error) {
+      logger.error('Failed to load notifications file:', error.message);
+    }
+  }
+  return cachedDestinations;
+};
+
+const saveDestinations = (destinations) => {
+  if (!fs.existsSync(config.configPath)) {
+    fs.mkdirSync(config.configPath, { recursive: true });
+  }
+  // Holds SMTP passwords
+  fs.writeFileSync(DESTINATIONS_FILE, JSON.stringify(destinations, null, 2), { mode: 0o600 });
+  cachedDestinations = destinations;
+};
+
+const getDestination = (id) => loadDestinations().find(d => d.id === id) || null;
+
+/**
+ * The destination as clients see it, without the SMTP password or webhook header values
+ */
+const toPublic = (destination) => {
+  if (destination.type === 'webhook') {
+    const headers = Object.fromEntries(Object.keys(destination.headers || {}).map(name => [name, MASKED]));
+    return { ...destination, headers };
+  }
+  if (destination.type !== 'email') return destination;
+  const { password, ...smtp } = destination.smtp;
+  return { ...destination, smtp: { ...smtp, hasPassword: Boolean(password) } };
+};
+
+/**
+ * Only the fields that apply to the destination's type
+ */
+const normalizeDestination = (destination) => {
+  const base = {
+    id: destination.id,
+    name: typeof destination.name === 'string' ? destination.name.trim() : destination.name,
+    type: destination.type,
+    enabled: destination.enabled ?? true,
+    severities: destination.severities ?? ['critical', 'warning'],
+    notifyResolved: destination.notifyResolved ?? true,
+  };
+  switch (destination.type) {
+    case 'webhook':
+      return {
+        ...base,
+        url: destination.url,
+        method: destination.method ?? 'POST',
+        headers: destination.headers ?? {},
+        template: destination.template || null,
+      };
+    case 'email': {
+      const smtp = destination.smtp || {};
+      return {
+        ...base,
+        smtp: {
+          host: smtp.host,
+          port: smtp.port ?? (smtp.security === 'tls' ? 465 : 587),
+          security: smtp.security ?? 'starttls',
+          username: smtp.username || null,
+          password: smtp.password || null,
+        },
+        from: destination.from,
+        to: destination.to ?? [],
+      };
+    }
+    default:
+      return base;
+  }
+};
+
+/**
+ * Problems with a (normalized) destination, empty if it is valid
+ */
+const validateDestination = (destination) => {
+  const errors = [];
+  if (typeof destination.name !== 'string' || !destination.name) errors.push('name is required');
+  if (!DESTINATION_TYPES.includes(destination.type)) errors.push(`type must be one of ${DESTINATION_TYPES.join(', ')}`);
+  if (typeof destination.enabled !== 'boolean') errors.push('enabled must be a boolean');
+  if (typeof destination.notifyResolved !== 'boolean') errors.push('notifyResolved must be a boolean');
+  if (!Array.isArray(destination.severities) || !destination.severities.every(s => SEVERITIES.includes(s))) {
+    errors.push(`severities must be a list of ${SEVERITIES.join(', ')}`);
+  }
+
+  switch (destination.type) {
+    case 'webhook': {
+      let url = null;
+      try {
+        url = new URL(destination.url);
+      } catch {
+        // reported below
+      }
+      if (!url || !['http:', 'https:'].includes(url.protocol)) errors.push('url must be an http(s) URL');
+      if (!METHODS.includes(destination.method)) errors.push(`method must be one of ${METHODS.join(', ')}`);
+      const headers = destination.headers;
+      if (!headers || typeof headers !== 'object' || Array.isArray(headers)
+        || !Object.values(headers).every(v => typeof v === 'string')) {
+        errors.push('headers must be an object of strings');
+      }
+      if (destination.template !== null) {
+        try {
+          JSON.parse(destination.template);
+        } catch (error) {
+          errors.push(`template is not valid JSON: ${error.message}`);
+        }
+      }
+      break;
+    }
+    case 'email': {
+      const { smtp } = destination;
+      if (typeof smtp.host !== 'string' || !smtp.host) errors.push('smtp.host is required');
+      if (!Number.isInteger(smtp.port) || smtp.port < 1 || smtp.port > 65535) errors.push('smtp.port must be a port number');
+      if (!SMTP_SECURITY.includes(smtp.security)) errors.push(`smtp.security must be one of ${SMTP_SECURITY.join(', ')}`);
+      if (smtp.password && !smtp.username) errors.push('smtp.username is required with a password');
+      if (typeof destination.from !== 'string' || !EMAIL_PATTERN.test(destination.from)) errors.push('from must be an email address');
+      if (!Array.isArray(destination.to) || destination.to.length === 0
+        || !destination.to.every(to => typeof to === 'string' && EMAIL_PATTERN.test(to))) {
+        errors.push('to must be a list of email addresses');
+      }
+      break;
+    }
+  }
+  return errors;
+};
+
+/**
+ * Add a destination; returns { destination } or { errors }
+ */
+const createDestination = (input) => {
+  const destination = normalizeDestination({ ...input, id: crypto.randomUUID() });
+  const errors = validateDestination(destination);
+  if (errors.length > 0) return { errors };
+  saveDestinations([...loadDestinations(), destination]);
+  return { destination };
+};
+
+/**
+ * Update a destination with the given fields; returns { destination }, { errors }
+ * or null if there is no such destination. An omitted SMTP password keeps the
+ * stored one, an empty one clears it; a masked header value keeps the stored
+ * value of that header.
+ */
+const updateDestination = (id, updates) => {
+  const destinations = loadDestinations();
+  const current = destinations.find(d => d.id === id);
+  if (!current) return null;
+
+  const merged = { ...current, ...updates, id };
+  if (updates.smtp) {
+    const { hasPassword, ...smtp } = updates.smtp;
+    merged.smtp = { ...current.smtp, ...smtp };
+    if (smtp.password === undefined) merged.smtp.password = current.smtp?.password;
+  }
+  if (updates.headers && typeof updates.headers === 'object') {
+    merged.headers = Object.fromEntries(Object.entries(updates.headers).map(([name, value]) => [
+      name,
+      value === MASKED && current.headers?.[name] !== undefined ? current.headers[name] : value,
+    ]));
+  }
+  const destination = normalizeDestination(merged);
+  const errors = validateDestination(destination);
+  if (errors.length > 0) return { errors };
+  saveDestinations(destinations.map(d => (d.id === id ? destination : d)));
+  return { destination };
+};
+
+const deleteDestination = (id) => {
+  const destinations = loadDestinations();
+  if (!destinations.some(d => d.id === id)) return false;
+  saveDestinations(destinations.filter(d => d.id !== id));
+  return true;
+};
+
+module.exports = {
+  loadDestinations,
+  getDestination,
+  createDestination,
+  updateDestination,
+  deleteDestination,
+  toPublic,
+};
@@ -0,0 +1,237 @@
+/**
+ * PID History Service
+ * Per-PID bitrate and continuity-counter error history per channel, fed by
+ * the monitor's periodic tsanalyze runs, plus a baseline of the PIDs a
+ * channel is expected to carry so dropped or added PIDs stand out.
+ *
+ * Each tsanalyze run covers one second of stream, so the error counts are
+ * samples rather than a complete tally. The accumulated counters and the
+ * baseline are kept until an operator resets them and, with the last hour
+ * of samples, saved to ${CONFIG_PATH}/pids once a minute.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const config = require('../config');
+const eventService = require('./eventService');
+const logger = require('../utils/logger');
+
+const HISTORY_DIR = path.join(config.configPath, 'pids');
+const SAVE_INTERVAL_MS = 60_000;
+const RETENTION_MS = 3_600_000;
+const NULL_PID = 8191;
+
+// channelId -> { pids: Map<pid, { type, samples, ccErrors, lastSeen }>, baseline, countersResetAt, lastSample, dirty }
+// A sample is { t, bps, cc }: bps 0 when the PID was missing from the stream, null when there was no stream
+const channels = new Map();
+const unsubscribers = [];
+let saveTimer = null;
+
+const historyFile = (channelId) => path.join(HISTORY_DIR, `ch${channelId}.json`);
+
+const emptyHistory = () => ({
+  pids: new Map(),
+  baseline: null,
+  countersResetAt: new Date().toISOString(),
+  // { timestamp, available, present: number[] } of the latest run
+  lastSample: null,
+  dirty: false,
+});
+
+const loadHistory = (channelId) => {
+  const history = emptyHistory();
+  const file = historyFile(channelId);
+  if (!fs.existsSync(file)) return history;
+  try {
+    const saved = JSON.parse(fs.readFileSync(file, 'utf8'));
+    history.baseline = saved.baseline || null;
+    history.countersResetAt = saved.countersResetAt || history.countersResetAt;
+    for (const entry of saved.pids || []) {
+      history.pids.set(entry.pid, {
+        type: entry.type,
+        samples: entry.samples || [],
+        ccErrors: entry.ccErrors || 0,
+        lastSeen: entry.lastSeen || null,
+      });
+    }
+  } catch (error) {
+    logger.error(`Failed to load PID history for channel ${channelId}:`, error.message);
+  }
+  return history;
+};
+
+const getHistory = (channelId) => {
+  if (!channels.has(channelId)) channels.set(channelId, loadHistory(channelId));
+  return channels.get(channelId);
+};
+
+/**
+ * Fold one analysis run ({ channelId, timestamp, available, pids }) into the history
+ */
+const handleAnalysis = ({ channelId, timestamp, available, pids }) => {
+  const history = getHistory(channelId);
+  const time = new Date(timestamp).getTime();
+  const seen = new Map((available ? pids || [] : [])
+    .filter(p => p.pid !== NULL_PID)
+    .map(p => [p.pid, p]));
+
+  for (const [pid, analysed] of seen) {
+    if (!history.pids.has(pid)) {
+      history.pids.set(pid, { type: analysed.type, samples: [], ccErrors: 0, lastSeen: null });
+    }
+  }
+
+  const cutoff = time - RETENTION_MS;
+  for (const [pid, entry] of history.pids) {
+    const analysed = seen.get(pid);
+    if (analysed) {
+      entry.type = analysed.type;
+      entry.ccErrors += analysed.discontinuities;
+      entry.lastSeen = timestamp;
+    }
+    entry.samples.push({
+      t: time,
+      bps: available ? analysed?.bitrate ?? 0 : null,
+      cc: analysed?.discontinuities ?? 0,
+    });
+    if (entry.samples[0].t < cutoff) entry.samples = entry.samples.filter(s => s.t >= cutoff);
+
+    // PIDs that came and went long ago and were never expected are forgotten
+    const expected = history.baseline?.pids.includes(pid);
+    if (!expected && (!entry.lastSeen || new Date(entry.lastSeen).getTime() < cutoff)) {
+      history.pids.delete(pid);
+    }
+  }
+
+  if (available) {
+    history.lastSample = { timestamp, available, present: Array.from(seen.keys()) };
+    if (!history.baseline && seen.size > 0) {
+      history.baseline = { capturedAt: timestamp, pids: Array.from(seen.keys()).sort((a, b) => a - b) };
+    }
+  } else if (history.lastSample) {
+    history.lastSample = { ...history.lastSample, timestamp, available };
+  }
+  history.dirty = true;
+};
+
+const saveAll = () => {
+  for (const [channelId, history] of channels) {
+    if (!history.dirty) continue;
+    try {
+      if (!fs.existsSync(HISTORY_DIR)) fs.mkdirSync(HISTORY_DIR, { recursive: true });
+      fs.writeFileSync(historyFile(channelId), JSON.stringify({
+        baseline: history.baseline,
+        countersResetAt: history.countersResetAt,
+        pids: Array.from(history.pids.entries()).map(([pid, entry]) => ({ pid, ...entry })),
+      }));
+      history.dirty = false;
+    } catch (error) {
+      logger.error(`Failed to save PID history for channel ${channelId}:`, error.message);
+    }
+  }
+};
+
+/**
+ * PID history of a channel, each PID compared with the baseline:
+ * ok (expected and present), missing (expected but absent) or new (present but not expected)
+ */
+const query = (channelId) => {
+  const history = getHistory(channelId);
+  const present = new Set(history.lastSample?.present || []);
+  const expected = history.baseline ? new Set(history.baseline.pids) : present;
+
+  const pids = Array.from(history.pids.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([pid, entry]) => ({
+      pid,
+      type: entry.type,
+      status: !present.has(pid) ? 'missing' : expected.has(pid) ? 'ok' : 'new',
+      ccErrors: entry.ccErrors,
+      lastSeen: entry.lastSeen,
+      samples: entry.samples.map(s => ({ timestamp: new Date(s.t).toISOString(), bps: s.bps, ccErrors: s.cc })),
+    }));
+
+  return {
+    channelId,
+    updatedAt: history.lastSample?.timestamp || null,
+    available: history.lastSample?.available || false,
+    baseline: history.baseline,
+    countersResetAt: history.countersResetAt,
+    pids,
+  };
+};
+
+/**
+ * Missing PIDs and continuity errors within the last windowMs, for alert rules
+ */
+const summarize = (channelId, windowMs) => {
+  const history = getHistory(channelId);
+  const present = new Set(history.lastSample?.present || []);
+  const since = Date.now() - windowMs;
+  let ccErrors = 0;
+  for (const entry of history.pids.values()) {
+    for (const sample of entry.samples) {
+      if (sample.t >= since) ccErrors += sample.cc;
+    }
+  }
+  const missing = history.baseline && history.lastSample?.available
+    ? history.baseline.pids
+      .filter(pid => !present.has(pid))
+      .map(pid => ({ pid, type: history.pids.get(pid)?.type || 'Unknown' }))
+    : [];
+  return { missing, ccErrors };
+};
+
+/**
+ * Zero the error counters and/or take the current PIDs as the new baseline
+ * (the next run's, when there is no stream right now)
+ */
+const reset = (channelId, { counters = true, baseline = true } = {}) => {
+  const history = getHistory(channelId);
+  if (counters) {
+    for (const entry of history.pids.values()) entry.ccErrors = 0;
+    history.countersResetAt = new Date().toISOString();
+  }
+  if (baseline) {
+    const current = history.lastSample?.available ? history.lastSample : null;
+    history.baseline = current
+      ? { capturedAt: new Date().toISOString(), pids: [...current.present].sort((a, b) => a - b) }
+      : null;
+  }
+  history.dirty = true;
+  saveAll();
+  return query(channelId);
+};
+
+const removeHistory = (channelId) => {
+  channels.delete(channelId);
+  const file = historyFile(channelId);
+  if (fs.existsSync(file)) fs.unlinkSync(file);
+};
+
+/**
+ * Start recording from the monitor's analysis runs
+ */
+const start = () => {
+  if (saveTimer) return;
+  unsubscribers.push(eventService.subscribe('pids', handleAnalysis));
+  saveTimer = setInterval(saveAll, SAVE_INTERVAL_MS);
+};
+
+const stop = () => {
+  while (unsubscribers.length > 0) unsubscribers.pop()();
+  if (saveTimer) {
+    clearInterval(saveTimer);
+    saveTimer = null;
+  }
+  saveAll();
+};
+
+module.exports = {
+  start,
+  stop,
+  query,
+  summarize,
+  reset,
+  removeHistory,
+};
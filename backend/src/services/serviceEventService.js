@@ -0,0 +1,200 @@
+/**
+ * Service Event Service
+ * Every rx/rec/rtmp state transition the monitor sees, with its cause and
+ * exit code, and the start/stop/restart actions requested through the API,
+ * so a channel's timeline can show flapping and who caused what.
+ *
+ * Causes: operator (an API action), apply (a config apply or its rollback),
+ * failure (the service exited with an error), restart (systemd restarted it)
+ * and external (anything else, e.g. systemctl by hand or a reboot).
+ *
+ * Events of the last 30 days are saved to ${CONFIG_PATH}/service-events.json
+ * with the last seen state per service, so transitions that happen while the
+ * controller is down are still recorded when it comes back.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const config = require('../config');
+const systemdService = require('./systemdService');
+const eventService = require('./eventService');
+const logger = require('../utils/logger');
+
+const EVENTS_FILE = path.join(config.configPath, 'service-events.json');
+const RETENTION_MS = 30 * 86_400_000;
+const MAX_EVENTS = 10000;
+const SAVE_DELAY_MS = 5000;
+// Transitions this soon after an action are put down to it
+const ACTION_WINDOW_MS = 60_000;
+
+const CAUSES = ['operator', 'apply', 'failure', 'restart', 'external'];
+
+// Oldest first
+let events = null;
+// `${channelId}-${service}` -> { status, subState, pid, restarts } as last seen
+let lastStates = new Map();
+// `${channelId}-${service}` -> { cause, until } of the latest action
+const expected = new Map();
+const unsubscribers = [];
+let saveTimer = null;
+
+const serviceKey = (channelId, service) => `${channelId}-${service}`;
+
+const load = () => {
+  if (events) return;
+  events = [];
+  if (!fs.existsSync(EVENTS_FILE)) return;
+  try {
+    const saved = JSON.parse(fs.readFileSync(EVENTS_FILE, 'utf8'));
+    events = saved.events || [];
+    lastStates = new Map(Object.entries(saved.states || {}));
+  } catch (error) {
+    logger.error('Failed to load service events:', error.message);
+  }
+};
+
+const save = () => {
+  saveTimer = null;
+  try {
+    if (!fs.existsSync(config.configPath)) fs.mkdirSync(config.configPath, { recursive: true });
+    fs.writeFileSync(EVENTS_FILE, JSON.stringify({ events, states: Object.fromEntries(lastStates) }));
+  } catch (error) {
+    logger.error('Failed to save service events:', error.message);
+  }
+};
+
+// Flapping services produce bursts of events, so saves are batched
+const scheduleSave = () => {
+  if (!saveTimer) saveTimer = setTimeout(save, SAVE_DELAY_MS);
+};
+
+const addEvent = (event) => {
+  load();
+  const cutoff = Date.now() - RETENTION_MS;
+  events.push({ id: crypto.randomUUID(), timestamp: new Date().toISOString(), ...event });
+  if (events.length > MAX_EVENTS || new Date(events[0].timestamp).getTime() < cutoff) {
+    events = events.filter(e => new Date(e.timestamp).getTime() >= cutoff).slice(-MAX_EVENTS);
+  }
+  scheduleSave();
+  return events[events.length - 1];
+};
+
+const causeOf = (key, previous, state, restarted) => {
+  if (state.status === 'error' || state.subState === 'auto-restart') return 'failure';
+  const expectation = expected.get(key);
+  if (expectation && expectation.until >= Date.now()) return expectation.cause;
+  if (restarted || previous.status === 'error' || previous.subState === 'auto-restart') return 'restart';
+  return 'external';
+};
+
+/**
+ * Compare a service state from the monitor with the last one seen and
+ * record a transition if the status changed or the process was restarted
+ */
+const handleServiceState = ({ channelId, service, state }) => {
+  // The controller not being able to ask systemd is not a transition
+  if (state.status === 'unknown') return;
+  load();
+  const key = serviceKey(channelId, service);
+  const previous = lastStates.get(key);
+  const current = { status: state.status, subState: state.subState ?? null, pid: state.pid ?? null, restarts: state.restarts ?? null };
+  lastStates.set(key, current);
+  if (!previous) {
+    scheduleSave();
+    return;
+  }
+
+  const restarted = (current.restarts !== null && previous.restarts !== null && current.restarts > previous.restarts)
+    || (current.status === 'running' && previous.status === 'running'
+      && current.pid !== null && previous.pid !== null && current.pid !== previous.pid);
+  if (current.status === previous.status && !restarted) {
+    scheduleSave();
+    return;
+  }
+
+  addEvent({
+    channelId,
+    service,
+    kind: 'transition',
+    cause: causeOf(key, previous, state, restarted),
+    from: previous.status,
+    to: current.status,
+    exitCode: state.lastExitCode ?? null,
+    pid: current.pid,
+    detail: state.error || state.subState || null,
+  });
+};
+
+/**
+ * Run a start/stop/restart on a service, recording the action so the
+ * transitions it causes are attributed to it. Resolves with the new state.
+ */
+const runAction = async (channelId, service, action, cause = 'operator') => {
+  const event = addEvent({ channelId, service, kind: 'action', cause, action, error: null });
+  expected.set(serviceKey(channelId, service), { cause, until: Date.now() + ACTION_WINDOW_MS });
+  try {
+    return await systemdService.controlService(channelId, service, action);
+  } catch (error) {
+    event.error = error.message;
+    expected.delete(serviceKey(channelId, service));
+    scheduleSave();
+    throw error;
+  }
+};
+
+/**
+ * Events matching the filters, newest first
+ * filters: { channelId, service, kind, cause, from, to (ms), limit }
+ */
+const query = ({ channelId, service, kind, cause, from, to, limit = 500 } = {}) => {
+  load();
+  const matches = [];
+  for (let i = events.length - 1; i >= 0 && matches.length < limit; i--) {
+    const event = events[i];
+    const time = new Date(event.timestamp).getTime();
+    if (to !== undefined && time > to) continue;
+    if (from !== undefined && time < from) break;
+    if (channelId !== undefined && event.channelId !== channelId) continue;
+    if (service && event.service !== service) continue;
+    if (kind && event.kind !== kind) continue;
+    if (cause && event.cause !== cause) continue;
+    matches.push(event);
+  }
+  return matches;
+};
+
+const removeHistory = (channelId) => {
+  load();
+  events = events.filter(e => e.channelId !== channelId);
+  for (const key of lastStates.keys()) {
+    if (key.startsWith(`${channelId}-`)) lastStates.delete(key);
+  }
+  scheduleSave();
+};
+
+/**
+ * Start recording from the monitor's service-state events
+ */
+const start = () => {
+  if (unsubscribers.length > 0) return;
+  load();
+  unsubscribers.push(eventService.subscribe('service-state', handleServiceState));
+};
+
+const stop = () => {
+  while (unsubscribers.length > 0) unsubscribers.pop()();
+  if (saveTimer) {
+    clearTimeout(saveTimer);
+    save();
+  }
+};
+
+module.exports = {
+  CAUSES,
+  start,
+  stop,
+  runAction,
+  query,
+  removeHistory,
+};
@@ -0,0 +1,148 @@
+/**
+ * Settings Store
+ * Global defaults for new channels (settings.json), shared by every client,
+ * and the default channel config built from them
+ */
+
+const fs = require('fs');
+const path = require('path');
+const config = require('../config');
+const logger = require('../utils/logger');
+
+const SETTINGS_FILE = path.join(config.configPath, 'settings.json');
+
+const DEFAULT_SETTINGS = {
+  rx: {
+    defaultLatencyMs: 200,
+    defaultBandwidthOverhead: 25,
+    defaultInterface: 'eth0',
+  },
+  rec: {
+    defaultRecordPath: '/srv/recordings',
+    defaultFilenameTemplate: 'ch%CHANNEL%_%Y%m%d_%H%M%S',
+    defaultSegmentDurationSec: 3600,
+    defaultRepackToMp4: false,
+  },
+  rtmp: {
+    defaultVideoBitrate: 6000,
+    defaultAudioBitrate: 192,
+    defaultVideoCodec: 'copy',
+    defaultVideoPreset: 'veryfast',
+    defaultAudioCodec: 'copy',
+  },
+};
+
+const VIDEO_CODECS = ['libx264', 'copy'];
+const VIDEO_PRESETS = ['ultrafast', 'superfast', 'veryfast', 'faster', 'fast', 'medium'];
+const AUDIO_CODECS = ['aac', 'copy'];
+
+/**
+ * Stored settings over the built-in defaults, so fields added later always have a value
+ */
+const loadSettings = () => {
+  let stored = {};
+  if (fs.existsSync(SETTINGS_FILE)) {
+    try {
+      stored = JSON.parse(fs.readFileSync(SETTINGS_FILE, 'utf8'));
+    } catch (error) {
+      logger.error('Failed to load settings file:', error.message);
+    }
+  }
+  return {
+    rx: { ...DEFAULT_SETTINGS.rx, ...stored.rx },
+    rec: { ...DEFAULT_SETTINGS.rec, ...stored.rec },
+    rtmp: { ...DEFAULT_SETTINGS.rtmp, ...stored.rtmp },
+  };
+};
+
+const saveSettings = (settings) => {
+  if (!fs.existsSync(config.configPath)) {
+    fs.mkdirSync(config.configPath, { recursive: true });
+  }
+  fs.writeFileSync(SETTINGS_FILE, JSON.stringify(settings, null, 2));
+};
+
+/**
+ * Problems with a settings payload, empty if it is valid
+ */
+const validateSettings = (settings) => {
+  const errors = [];
+  const { rx = {}, rec = {}, rtmp = {} } = settings || {};
+  const positive = (value, name) => {
+    if (!Number.isFinite(value) || value <= 0) errors.push(`${name} must be a positive number`);
+  };
+
+  positive(rx.defaultLatencyMs, 'rx.defaultLatencyMs');
+  if (!Number.isFinite(rx.defaultBandwidthOverhead) || rx.defaultBandwidthOverhead < 0) {
+    errors.push('rx.defaultBandwidthOverhead must be 0 or more');
+  }
+  if (typeof rx.defaultInterface !== 'string') errors.push('rx.defaultInterface must be a string');
+
+  if (typeof rec.defaultRecordPath !== 'string' || !rec.defaultRecordPath.startsWith('/')) {
+    errors.push('rec.defaultRecordPath must be an absolute path');
+  }
+  if (typeof rec.defaultFilenameTemplate !== 'string' || !rec.defaultFilenameTemplate) {
+    errors.push('rec.defaultFilenameTemplate is required');
+  }
+  positive(rec.defaultSegmentDurationSec, 'rec.defaultSegmentDurationSec');
+  if (typeof rec.defaultRepackToMp4 !== 'boolean') errors.push('rec.defaultRepackToMp4 must be a boolean');
+
+  positive(rtmp.defaultVideoBitrate, 'rtmp.defaultVideoBitrate');
+  positive(rtmp.defaultAudioBitrate, 'rtmp.defaultAudioBitrate');
+  if (!VIDEO_CODECS.includes(rtmp.defaultVideoCodec)) errors.push(`rtmp.defaultVideoCodec must be one of ${VIDEO_CODECS.join(', ')}`);
+  if (!VIDEO_PRESETS.includes(rtmp.defaultVideoPreset)) errors.push(`rtmp.defaultVideoPreset must be one of ${VIDEO_PRESETS.join(', ')}`);
+  if (!AUDIO_CODECS.includes(rtmp.defaultAudioCodec)) errors.push(`rtmp.defaultAudioCodec must be one of ${AUDIO_CODECS.join(', ')}`);
+
+  return errors;
+};
+
+/**
+ * Replace %CHANNEL% with the channel ID
+ */
+const expandChannelPlaceholder = (template, id) => template.replace(/%CHANNEL%/g, String(id));
+
+/**
+ * Config for a new channel from the global defaults
+ */
+const getDefaultChannelConfig = (id, name) => {
+  const { rx, rec, rtmp } = loadSettings();
+  return {
+    channelId: id,
+    name: name || `Channel ${id}`,
+    rx: {
+      srt: {
+        mode: 'listener',
+        listenPort: 5000 + id,
+        latencyMs: rx.defaultLatencyMs,
+        bandwidthOverhead: rx.defaultBandwidthOverhead,
+      },
+      multicastEnabled: false,
+      interface: rx.defaultInterface || undefined,
+    },
+    rec: {
+      recordEnabled: false,
+      recordPath: `${rec.defaultRecordPath.replace(/\/+$/, '')}/ch${id}`,
+      filenameTemplate: expandChannelPlaceholder(rec.defaultFilenameTemplate, id),
+      segmentDurationSec: rec.defaultSegmentDurationSec,
+      repackToMp4: rec.defaultRepackToMp4,
+    },
+    rtmp: {
+      rtmpEnabled: false,
+      videoCodec: rtmp.defaultVideoCodec,
+      videoPreset: rtmp.defaultVideoCodec === 'copy' ? undefined : rtmp.defaultVideoPreset,
+      videoBitrate: rtmp.defaultVideoCodec === 'copy' ? undefined : rtmp.defaultVideoBitrate,
+      audioCodec: rtmp.defaultAudioCodec,
+      audioBitrate: rtmp.defaultAudioCodec === 'copy' ? undefined : rtmp.defaultAudioBitrate,
+      audioPair: 'primary',
+      qualityPreset: rtmp.defaultVideoCodec === 'copy' ? 'passthrough' : 'custom',
+    },
+  };
+};
+
+module.exports = {
+  loadSettings,
+  saveSettings,
+  validateSettings,
+  expandChannelPlaceholder,
+  getDefaultChannelConfig,
+};
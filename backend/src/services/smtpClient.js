@@ -0,0 +1,199 @@
+/**
+ * SMTP Client
+ * Just enough SMTP to hand a plain-text message to a relay: implicit TLS or
+ * STARTTLS, AUTH PLAIN/LOGIN, one message per connection
+ */
+
+const net = require('net');
+const tls = require('tls');
+const os = require('os');
+const crypto = require('crypto');
+
+const TIMEOUT_MS = 15000;
+
+/**
+ * Reads replies off the connection; a reply is { code, lines } and may span
+ * several "250-" lines. The socket can be swapped for its TLS upgrade.
+ */
+const createSession = (socket) => {
+  let current = socket;
+  let buffer = '';
+  let lines = [];
+  const replies = [];
+  let waiting = null;
+  let failure = null;
+
+  const settle = () => {
+    if (!waiting) return;
+    if (replies.length > 0) {
+      const { resolve } = waiting;
+      waiting = null;
+      resolve(replies.shift());
+    } else if (failure) {
+      const { reject } = waiting;
+      waiting = null;
+      reject(failure);
+    }
+  };
+
+  const onData = (chunk) => {
+    buffer += chunk.toString('utf8');
+    let end;
+    while ((end = buffer.indexOf('\r\n')) !== -1) {
+      const line = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      lines.push(line.slice(4));
+      if (line[3] !== '-') {
+        replies.push({ code: parseInt(line.slice(0, 3), 10), lines });
+        lines = [];
+      }
+    }
+    settle();
+  };
+  const onError = (error) => {
+    failure = error;
+    settle();
+  };
+  const onClose = () => onError(failure || new Error('SMTP connection closed'));
+
+  const attach = (next) => {
+    current = next;
+    current.setTimeout(TIMEOUT_MS, () => current.destroy(new Error('SMTP server timed out')));
+    current.on('data', onData);
+    current.on('error', onError);
+    current.on('close', onClose);
+  };
+
+  const detach = () => {
+    current.removeListener('data', onData);
+    current.removeListener('error', onError);
+    current.removeListener('close', onClose);
+    current.setTimeout(0);
+  };
+
+  attach(socket);
+
+  const read = () => new Promise((resolve, reject) => {
+    waiting = { resolve, reject };
+    settle();
+  });
+
+  return {
+    read,
+
+    // Send a command and check the reply code; label keeps secrets out of errors
+    async command(line, expected, label = line) {
+      current.write(`${line}\r\n`);
+      const reply = await read();
+      if (!expected.includes(reply.code)) {
+        throw new Error(`SMTP ${label.split(' ')[0]} rejected: ${reply.code} ${reply.lines.join(' ')}`);
+      }
+      return reply;
+    },
+
+    write(data) {
+      current.write(data);
+    },
+
+    upgrade(host) {
+      detach();
+      return new Promise((resolve, reject) => {
+        const secure = tls.connect({ socket: current, servername: host }, () => {
+          secure.removeListener('error', reject);
+          attach(secure);
+          resolve();
+        });
+        secure.once('error', reject);
+      });
+    },
+
+    close() {
+      detach();
+      current.destroy();
+    },
+  };
+};
+
+const connect = ({ host, port, security }) => new Promise((resolve, reject) => {
+  const socket = security === 'tls'
+    ? tls.connect({ host, port, servername: host })
+    : net.connect({ host, port });
+  socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new Error(`Connection to ${host}:${port} timed out`)));
+  socket.once(security === 'tls' ? 'secureConnect' : 'connect', () => {
+    socket.removeListener('error', reject);
+    resolve(socket);
+  });
+  socket.once('error', reject);
+});
+
+// RFC 2047 encoded-word for non-ASCII header text
+const encodeHeader = (text) =>
+  /^[\x20-\x7e]*$/.test(text) ? text : `=?UTF-8?B?${Buffer.from(text, 'utf8').toString('base64')}?=`;
+
+const buildMessage = ({ from, to, subject, text }) => {
+  const body = Buffer.from(text, 'utf8').toString('base64').replace(/.{1,76}/g, '$&\r\n');
+  return [
+    `From: ${from}`,
+    `To: ${to.join(', ')}`,
+    `Subject: ${encodeHeader(subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${os.hostname()}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body,
+  ].join('\r\n');
+};
+
+const extensions = (reply) => reply.lines.slice(1).map(line => line.toUpperCase());
+
+/**
+ * Send a plain-text message
+ * @param {object} smtp - { host, port, security: none|starttls|tls, username, password }
+ * @param {object} message - { from, to: [], subject, text }
+ */
+const sendMail = async (smtp, message) => {
+  const session = createSession(await connect(smtp));
+  try {
+    const greeting = await session.read();
+    if (greeting.code !== 220) throw new Error(`SMTP server refused connection: ${greeting.code} ${greeting.lines.join(' ')}`);
+
+    const hello = `EHLO ${os.hostname()}`;
+    let ehlo = await session.command(hello, [250]);
+    if (smtp.security === 'starttls') {
+      if (!extensions(ehlo).includes('STARTTLS')) throw new Error('SMTP server does not offer STARTTLS');
+      await session.command('STARTTLS', [220]);
+      await session.upgrade(smtp.host);
+      ehlo = await session.command(hello, [250]);
+    }
+
+    if (smtp.username) {
+      const auth = extensions(ehlo).find(line => line.startsWith('AUTH')) || '';
+      if (auth.includes('PLAIN') || !auth.includes('LOGIN')) {
+        const credentials = Buffer.from(`\0${smtp.username}\0${smtp.password || ''}`).toString('base64');
+        await session.command(`AUTH PLAIN ${credentials}`, [235], 'AUTH');
+      } else {
+        await session.command('AUTH LOGIN', [334]);
+        await session.command(Buffer.from(smtp.username).toString('base64'), [334], 'AUTH');
+        await session.command(Buffer.from(smtp.password || '').toString('base64'), [235], 'AUTH');
+      }
+    }
+
+    await session.command(`MAIL FROM:<${message.from}>`, [250]);
+    for (const recipient of message.to) {
+      await session.command(`RCPT TO:<${recipient}>`, [250, 251]);
+    }
+    await session.command('DATA', [354]);
+    // Lines starting with a dot are doubled so they don't end the message
+    session.write(buildMessage(message).replace(/^\./gm, '..'));
+    await session.command('.', [250], 'DATA');
+    await session.command('QUIT', [221]).catch(() => {});
+  } finally {
+    session.close();
+  }
+};
+
+module.exports = {
+  sendMail,
+};
@@ -101,6 +101,15 @@ const calculateUptime = (timestamp) => {
   }
 };
 
+/**
+ * systemd timestamp to ISO, null when unset
+ */
+const toIsoTime = (timestamp) => {
+  if (!timestamp || timestamp === 'n/a') return null;
+  const time = new Date(timestamp);
+  return Number.isNaN(time.getTime()) ? null : time.toISOString();
+};
+
 /**
  * Get detailed service status
  */
@@ -113,7 +122,7 @@ const getServiceStatus = async (channelId, serviceType) => {
     
     // Get detailed properties
     const { stdout: showOutput } = await systemctl(
-      'show --property=MainPID,ActiveEnterTimestamp,MemoryCurrent,LoadState,SubState',
+      'show --property=MainPID,ActiveEnterTimestamp,MemoryCurrent,LoadState,SubState,Result,ExecMainStatus,NRestarts,StateChangeTimestamp',
       serviceName,
       false
     );
@@ -137,6 +146,12 @@ const getServiceStatus = async (channelId, serviceType) => {
       }
     }
     
+    // Result stays at the failure until the next start, so the exit code
+    // is known while the service is failed or waiting to be restarted
+    const failed = props.Result && props.Result !== 'success';
+    const exitCode = parseInt(props.ExecMainStatus, 10);
+    const restarts = parseInt(props.NRestarts, 10);
+
     return {
       status,
       serviceName,
@@ -144,6 +159,11 @@ const getServiceStatus = async (channelId, serviceType) => {
       uptime: calculateUptime(props.ActiveEnterTimestamp),
       memory: memoryMB,
       subState: props.SubState,
+      lastStartTime: toIsoTime(props.ActiveEnterTimestamp) || undefined,
+      lastExitCode: failed && !isNaN(exitCode) ? exitCode : undefined,
+      lastFailureTime: failed ? toIsoTime(props.StateChangeTimestamp) || undefined : undefined,
+      // Automatic restarts by systemd since the unit was last started by hand
+      restarts: isNaN(restarts) ? null : restarts,
     };
   } catch (error) {
     logger.warn(`Failed to get status for ${serviceName}:`, error.message);
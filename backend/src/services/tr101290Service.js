@@ -0,0 +1,280 @@
+/**
+ * TR 101 290 Service
+ * ETSI TR 101 290 priority 1 and 2 indicators per channel, evaluated on each
+ * of the monitor's periodic analysis runs (see tsanalyzeService for what is
+ * measured).
+ *
+ * Each run covers one second of stream, so counts are samples rather than a
+ * complete tally, and PID errors mean a referenced PID was absent from that
+ * second rather than for the standard's user-defined period. Counters and
+ * the last occurrence of each indicator are kept until an operator resets
+ * them and saved to ${CONFIG_PATH}/tr101290 once a minute.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const config = require('../config');
+const eventService = require('./eventService');
+const logger = require('../utils/logger');
+
+const STATE_DIR = path.join(config.configPath, 'tr101290');
+const SAVE_INTERVAL_MS = 60_000;
+
+// Limits from TR 101 290
+const PSI_INTERVAL_MAX_MS = 500;
+const PCR_INTERVAL_MAX_MS = 40;
+const PTS_INTERVAL_MAX_MS = 700;
+
+const psiProblem = (table, { present, scrambled, maxIntervalMs }) => {
+  if (!present) return `${table} missing`;
+  if (scrambled) return `${table} scrambled`;
+  if (maxIntervalMs !== null && maxIntervalMs > PSI_INTERVAL_MAX_MS) return `${table} repeated after ${maxIntervalMs} ms`;
+  return null;
+};
+
+/**
+ * Each check takes a run's measurements and returns { errors, detail } for
+ * that run, or null when the run could not tell
+ */
+const INDICATORS = [
+  {
+    id: '1.1',
+    priority: 1,
+    name: 'TS sync loss',
+    description: 'Packets without the 0x47 sync byte',
+    check: (m) => ({ errors: m.syncLosses, detail: `${m.syncLosses} packet(s) out of sync` }),
+  },
+  {
+    id: '1.3',
+    priority: 1,
+    name: 'PAT error',
+    description: `PAT missing, scrambled or repeated less often than every ${PSI_INTERVAL_MAX_MS} ms`,
+    check: (m) => {
+      const problem = psiProblem('PAT', m.pat);
+      return { errors: problem ? 1 : 0, detail: problem };
+    },
+  },
+  {
+    id: '1.4',
+    priority: 1,
+    name: 'Continuity count error',
+    description: 'Packets lost, duplicated or out of order',
+    check: (m) => ({ errors: m.ccErrors, detail: `${m.ccErrors} continuity error(s)` }),
+  },
+  {
+    id: '1.5',
+    priority: 1,
+    name: 'PMT error',
+    description: `A PMT missing, scrambled or repeated less often than every ${PSI_INTERVAL_MAX_MS} ms`,
+    check: (m) => {
+      if (m.pmts.length === 0) return null;
+      const problems = m.pmts.map(pmt => psiProblem(`PMT on PID ${pmt.pid}`, pmt)).filter(Boolean);
+      return { errors: problems.length, detail: problems.join('; ') };
+    },
+  },
+  {
+    id: '1.6',
+    priority: 1,
+    name: 'PID error',
+    description: 'A PID referenced by a PMT is not in the stream',
+    check: (m) => ({ errors: m.missingPids.length, detail: `PID ${m.missingPids.join(', ')} absent` }),
+  },
+  {
+    id: '2.1',
+    priority: 2,
+    name: 'Transport error',
+    description: 'Packets with the transport error indicator set',
+    check: (m) => ({ errors: m.transportErrors, detail: `${m.transportErrors} packet(s) flagged` }),
+  },
+  {
+    id: '2.3a',
+    priority: 2,
+    name: 'PCR repetition error',
+    description: `PCRs further apart than ${PCR_INTERVAL_MAX_MS} ms`,
+    check: (m) => {
+      if (m.pcr?.maxIntervalMs == null) return null;
+      const late = m.pcr.maxIntervalMs > PCR_INTERVAL_MAX_MS;
+      return { errors: late ? 1 : 0, detail: `PCR interval ${m.pcr.maxIntervalMs} ms` };
+    },
+  },
+  {
+    id: '2.3b',
+    priority: 2,
+    name: 'PCR discontinuity',
+    description: 'PCR jumped by more than 100 ms or backwards without its discontinuity_indicator set',
+    check: (m) => m.pcr && { errors: m.pcr.discontinuities, detail: `${m.pcr.discontinuities} PCR jump(s)` },
+  },
+  {
+    id: '2.4',
+    priority: 2,
+    name: 'PCR accuracy error',
+    description: 'PCR jitter beyond ±500 ns',
+    check: (m) => m.pcr && {
+      errors: m.pcr.jitterErrors,
+      detail: `${m.pcr.jitterErrors} PCR(s) off, up to ${m.pcr.maxJitterNs} ns`,
+    },
+  },
+  {
+    id: '2.5',
+    priority: 2,
+    name: 'PTS error',
+    description: `PTSs further apart than ${PTS_INTERVAL_MAX_MS} ms`,
+    check: (m) => {
+      if (m.pts?.maxIntervalMs == null) return null;
+      const late = m.pts.maxIntervalMs > PTS_INTERVAL_MAX_MS;
+      return { errors: late ? 1 : 0, detail: `PTS interval ${m.pts.maxIntervalMs} ms` };
+    },
+  },
+];
+
+// channelId -> { counters: { [id]: { errors, lastOccurredAt, lastDetail } }, countersResetAt, lastRun, dirty }
+// lastRun is { timestamp, available, results: { [id]: { errors, detail } | null } }
+const channels = new Map();
+const unsubscribers = [];
+let saveTimer = null;
+
+const stateFile = (channelId) => path.join(STATE_DIR, `ch${channelId}.json`);
+
+const emptyState = () => ({
+  counters: {},
+  countersResetAt: new Date().toISOString(),
+  lastRun: null,
+  dirty: false,
+});
+
+const loadState = (channelId) => {
+  const state = emptyState();
+  const file = stateFile(channelId);
+  if (!fs.existsSync(file)) return state;
+  try {
+    const saved = JSON.parse(fs.readFileSync(file, 'utf8'));
+    state.counters = saved.counters || {};
+    state.countersResetAt = saved.countersResetAt || state.countersResetAt;
+    state.lastRun = saved.lastRun || null;
+  } catch (error) {
+    logger.error(`Failed to load TR 101 290 state for channel ${channelId}:`, error.message);
+  }
+  return state;
+};
+
+const getState = (channelId) => {
+  if (!channels.has(channelId)) channels.set(channelId, loadState(channelId));
+  return channels.get(channelId);
+};
+
+/**
+ * Evaluate one analysis run ({ channelId, timestamp, available, tr101290 })
+ */
+const handleAnalysis = ({ channelId, timestamp, available, tr101290 }) => {
+  const state = getState(channelId);
+  const measured = available && tr101290;
+  const results = {};
+
+  for (const indicator of INDICATORS) {
+    const result = measured ? indicator.check(tr101290) : null;
+    results[indicator.id] = result;
+    if (!result || result.errors === 0) continue;
+    const counter = state.counters[indicator.id] || { errors: 0, lastOccurredAt: null, lastDetail: null };
+    state.counters[indicator.id] = {
+      errors: counter.errors + result.errors,
+      lastOccurredAt: timestamp,
+      lastDetail: result.detail,
+    };
+  }
+
+  state.lastRun = { timestamp, available: !!measured, results };
+  state.dirty = true;
+};
+
+const saveAll = () => {
+  for (const [channelId, state] of channels) {
+    if (!state.dirty) continue;
+    try {
+      if (!fs.existsSync(STATE_DIR)) fs.mkdirSync(STATE_DIR, { recursive: true });
+      fs.writeFileSync(stateFile(channelId), JSON.stringify({
+        counters: state.counters,
+        countersResetAt: state.countersResetAt,
+        lastRun: state.lastRun,
+      }));
+      state.dirty = false;
+    } catch (error) {
+      logger.error(`Failed to save TR 101 290 state for channel ${channelId}:`, error.message);
+    }
+  }
+};
+
+/**
+ * Every indicator of a channel: its status in the latest run (ok, error, or
+ * unknown without a stream or measurement) and errors since countersResetAt
+ */
+const query = (channelId) => {
+  const state = getState(channelId);
+  const run = state.lastRun;
+
+  const indicators = INDICATORS.map(({ id, priority, name, description }) => {
+    const result = run?.available ? run.results[id] : null;
+    const counter = state.counters[id];
+    return {
+      id,
+      priority,
+      name,
+      description,
+      status: !result ? 'unknown' : result.errors > 0 ? 'error' : 'ok',
+      errors: counter?.errors || 0,
+      lastOccurredAt: counter?.lastOccurredAt || null,
+      lastDetail: counter?.lastDetail || null,
+    };
+  });
+
+  return {
+    channelId,
+    updatedAt: run?.timestamp || null,
+    available: run?.available || false,
+    countersResetAt: state.countersResetAt,
+    indicators,
+  };
+};
+
+/**
+ * Zero the counters and forget when each indicator last fired
+ */
+const reset = (channelId) => {
+  const state = getState(channelId);
+  state.counters = {};
+  state.countersResetAt = new Date().toISOString();
+  state.dirty = true;
+  saveAll();
+  return query(channelId);
+};
+
+const removeHistory = (channelId) => {
+  channels.delete(channelId);
+  const file = stateFile(channelId);
+  if (fs.existsSync(file)) fs.unlinkSync(file);
+};
+
+/**
+ * Start evaluating the monitor's analysis runs
+ */
+const start = () => {
+  if (saveTimer) return;
+  unsubscribers.push(eventService.subscribe('pids', handleAnalysis));
+  saveTimer = setInterval(saveAll, SAVE_INTERVAL_MS);
+};
+
+const stop = () => {
+  while (unsubscribers.length > 0) unsubscribers.pop()();
+  if (saveTimer) {
+    clearInterval(saveTimer);
+    saveTimer = null;
+  }
+  saveAll();
+};
+
+module.exports = {
+  start,
+  stop,
+  query,
+  reset,
+  removeHistory,
+};
@@ -1,6 +1,12 @@
 /**
  * TSDuck tsanalyze Service
  * Parses real-time stream analysis from named pipes
+ *
+ * Full analyses also measure what the TR 101 290 priority 1 and 2 checks
+ * need (see tr101290Service): pcrextract lists every PCR and PTS of the
+ * second analysed and pcrverify reports PCRs with too much jitter. A second
+ * pcrextract, run only on packets the filter plugin labels for their
+ * discontinuity_indicator, lists the PCRs whose jumps are signalled.
  */
 
 const { exec } = require('child_process');
@@ -15,6 +21,18 @@ const execAsync = promisify(exec);
 const analysisCache = new Map();
 const CACHE_TTL_MS = 2000; // 2 seconds
 
+const NULL_PID = 8191;
+const TS_PACKET_BITS = 188 * 8;
+// PCR ticks per millisecond (27 MHz clock)
+const PCR_TICKS_PER_MS = 27_000;
+// PCR values wrap with their 33-bit base (times 300 for the extension)
+const PCR_WRAP = 2 ** 33 * 300;
+// Label and CSV separator that set the signalled PCRs' pcrextract apart
+const DISCONTINUITY_LABEL = 1;
+const SIGNALLED_SEPARATOR = '|';
+// pcrverify's limit in PCR ticks: 14 ticks = 518 ns, the nearest to TR 101 290's ±500 ns
+const PCR_JITTER_MAX = 14;
+
 /**
  * Get FIFO path for a channel
  */
@@ -37,9 +55,119 @@ const checkFifoExists = async (channelId) => {
 };
 
 /**
- * Parse tsanalyze JSON output
+ * PCR and PTS timing from the pcrextract CSV lines and pcrverify messages on
+ * tsp's stderr. Intervals are measured by arrival, from packet positions at
+ * the stream bitrate; PCR discontinuities are jumps in the PCR values of more
+ * than 100 ms or backwards, modulo the PCR wrap, on PCRs without the
+ * discontinuity_indicator. Null when neither plugin reported anything.
+ */
+const parseTimingOutput = (output, bitrate) => {
+  const pcrs = new Map();
+  const ptss = new Map();
+  // Packet indexes in TS of PCRs with the discontinuity_indicator set
+  const signalled = new Set();
+  let jitterErrors = 0;
+  let maxJitterNs = null;
+
+  for (const line of (output || '').split('\n')) {
+    const signalledFields = line.split(SIGNALLED_SEPARATOR);
+    if (signalledFields.length >= 6 && /^\d+$/.test(signalledFields[0])) {
+      if (signalledFields[3] === 'PCR') signalled.add(parseInt(signalledFields[1], 10));
+      continue;
+    }
+    // PID;Packet index in TS;Packet index in PID;Type;Count in PID;Value;...
+    const fields = line.split(';');
+    if (fields.length >= 6 && /^\d+$/.test(fields[0])) {
+      const byPid = fields[3] === 'PCR' ? pcrs : fields[3] === 'PTS' ? ptss : null;
+      if (!byPid) continue;
+      const pid = parseInt(fields[0], 10);
+      if (!byPid.has(pid)) byPid.set(pid, []);
+      byPid.get(pid).push({ packet: parseInt(fields[1], 10), value: parseInt(fields[5], 10) });
+      continue;
+    }
+    // * pcrverify: PID: 0x0100 (256), PCR jitter: 540 = 20,000 nanoseconds, ...
+    const jitter = line.match(/pcrverify:.*jitter:\s*[-\d,]+\s*=\s*(-?[\d,]+)\s*nanoseconds/i);
+    if (jitter) {
+      const ns = Math.abs(parseInt(jitter[1].replace(/,/g, ''), 10));
+      jitterErrors++;
+      maxJitterNs = Math.max(maxJitterNs ?? 0, ns);
+    }
+  }
+
+  if (pcrs.size === 0 && ptss.size === 0 && jitterErrors === 0) return null;
+
+  const packetMs = bitrate ? (TS_PACKET_BITS / bitrate) * 1000 : null;
+  const maxInterval = (byPid) => {
+    if (!packetMs) return null;
+    let max = null;
+    for (const points of byPid.values()) {
+      for (let i = 1; i < points.length; i++) {
+        max = Math.max(max ?? 0, (points[i].packet - points[i - 1].packet) * packetMs);
+      }
+    }
+    return max === null ? null : Math.round(max);
+  };
+
+  let discontinuities = 0;
+  for (const points of pcrs.values()) {
+    for (let i = 1; i < points.length; i++) {
+      if (signalled.has(points[i].packet)) continue;
+      // Difference modulo the wrap, taken as backwards when over half of it
+      let delta = (points[i].value - points[i - 1].value) % PCR_WRAP;
+      if (delta < 0) delta += PCR_WRAP;
+      if (delta > PCR_WRAP / 2) delta -= PCR_WRAP;
+      const deltaMs = delta / PCR_TICKS_PER_MS;
+      if (deltaMs < 0 || deltaMs > 100) discontinuities++;
+    }
+  }
+
+  return {
+    pcr: { pids: Array.from(pcrs.keys()), maxIntervalMs: maxInterval(pcrs), discontinuities, jitterErrors, maxJitterNs },
+    pts: { pids: Array.from(ptss.keys()), maxIntervalMs: maxInterval(ptss) },
+  };
+};
+
+/**
+ * What the TR 101 290 checks need from one analysis:
+ * { syncLosses, transportErrors, ccErrors,
+ *   pat: { present, maxIntervalMs, scrambled },
+ *   pmts: [{ pid, present, maxIntervalMs, scrambled }],
+ *   missingPids: PIDs a PMT references that are not in the stream,
+ *   pcr: { pids, maxIntervalMs, discontinuities, jitterErrors, maxJitterNs } | null,
+ *   pts: { pids, maxIntervalMs } | null }
+ * maxIntervalMs is null when it could not be measured.
  */
-const parseTsAnalyzeOutput = (jsonOutput) => {
+const measureTr101290 = (data, timingOutput) => {
+  const ts = data.ts || {};
+  const pids = Array.isArray(data.pids) ? data.pids : [];
+  const services = Array.isArray(data.services) ? data.services : [];
+  const tables = Array.isArray(data.tables) ? data.tables : [];
+  const present = new Set(pids.map(p => p.pid));
+  const scrambled = (pid) => !!pids.find(p => p.pid === pid)?.scrambled;
+  const repetition = (pid, tableId) => tables.find(t => t.pid === pid && t.tid === tableId)?.max_repetition_ms ?? null;
+
+  const pmtPids = [...new Set(services.map(svc => svc.pmt_pid).filter(pid => pid !== undefined))];
+  const referenced = services.flatMap(svc => [...(svc.pids || []), svc.pcr_pid]);
+  const timing = parseTimingOutput(timingOutput, ts.bitrate);
+
+  return {
+    syncLosses: ts.invalid_sync || 0,
+    transportErrors: ts.transport_errors || 0,
+    ccErrors: pids.reduce((sum, p) => sum + (p.discontinuities || 0), 0),
+    pat: { present: present.has(0), maxIntervalMs: repetition(0, 0), scrambled: scrambled(0) },
+    pmts: pmtPids.map(pid => ({ pid, present: present.has(pid), maxIntervalMs: repetition(pid, 2), scrambled: scrambled(pid) })),
+    missingPids: [...new Set(referenced)]
+      .filter(pid => pid !== undefined && pid !== NULL_PID && !present.has(pid))
+      .sort((a, b) => a - b),
+    pcr: timing?.pcr ?? null,
+    pts: timing?.pts ?? null,
+  };
+};
+
+/**
+ * Parse tsanalyze JSON output, with tsp's plugin messages for the TR 101 290 timing checks
+ */
+const parseTsAnalyzeOutput = (jsonOutput, timingOutput = '') => {
   try {
     const data = JSON.parse(jsonOutput);
     
@@ -91,6 +219,7 @@ const parseTsAnalyzeOutput = (jsonOutput) => {
       packets: ts.packets || 0,
       invalid: ts.invalid_sync || 0,
       suspectIgnored: ts.suspect_ignored || 0,
+      tr101290: measureTr101290(data, timingOutput),
     };
   } catch (error) {
     logger.warn('Failed to parse tsanalyze output:', error.message);
@@ -139,13 +268,17 @@ const analyzeChannel = async (channelId) => {
   }
 
   try {
-    // Run tsanalyze with JSON output, timeout after 3 seconds
-    // --duration 1 means analyze 1 second of stream
-    const cmd = `timeout 3 tsanalyze --json "${fifoPath}" --duration 1 2>/dev/null`;
+    // Analyze 1 second of stream, timeout after 3 seconds. The analyze plugin
+    // writes the JSON report to stdout; pcrextract and pcrverify report on stderr
+    const cmd = `timeout 3 tsp -I file "${fifoPath}" -P until --seconds 1`
+      + ` -P filter --discontinuity --set-label ${DISCONTINUITY_LABEL}`
+      + ` -P pcrextract --only-label ${DISCONTINUITY_LABEL} --pcr --separator '${SIGNALLED_SEPARATOR}'`
+      + ` -P pcrextract --pcr --pts -P pcrverify --jitter-max ${PCR_JITTER_MAX}`
+      + ' -P analyze --json -O drop';
     
-    const { stdout } = await execAsync(cmd, { timeout: 5000 });
+    const { stdout, stderr } = await execAsync(cmd, { timeout: 5000, maxBuffer: 4 * 1024 * 1024 });
     
-    const analysis = parseTsAnalyzeOutput(stdout);
+    const analysis = parseTsAnalyzeOutput(stdout, stderr);
     
     if (analysis) {
       analysis.available = true;
@@ -227,6 +360,7 @@ const generateMockAnalysis = (channelId) => {
   }
 
   const baseBitrate = 20_000_000 + Math.random() * 10_000_000;
+  const jitterErrors = Math.random() < 0.1 ? 1 + Math.floor(Math.random() * 5) : 0;
   
   return {
     available: true,
@@ -249,6 +383,19 @@ const generateMockAnalysis = (channelId) => {
     packets: Math.round(baseBitrate / 188 * 1), // ~1 second of packets
     invalid: 0,
     suspectIgnored: 0,
+    // Now and then a few PCRs with too much jitter
+    tr101290: {
+      syncLosses: 0,
+      transportErrors: 0,
+      ccErrors: 0,
+      pat: { present: true, maxIntervalMs: 100, scrambled: false },
+      pmts: [{ pid: 256, present: true, maxIntervalMs: 100, scrambled: false }],
+      missingPids: [],
+      pcr: jitterErrors > 0
+        ? { pids: [257], maxIntervalMs: 38, discontinuities: 0, jitterErrors, maxJitterNs: 600 + Math.round(Math.random() * 1400) }
+        : { pids: [257], maxIntervalMs: 38, discontinuities: 0, jitterErrors: 0, maxJitterNs: null },
+      pts: { pids: [257, 258, 259], maxIntervalMs: 40 },
+    },
   };
 };
 
@@ -0,0 +1,193 @@
+/**
+ * User Store
+ * Operator accounts (users.json) with a role each:
+ * - viewer:   read-only
+ * - operator: also starts, stops and restarts services and handles alerts
+ * - engineer: also edits and applies channel configs, settings, alert rules
+ *             and notification destinations
+ * - admin:    also iLO power and credentials, and user management
+ *
+ * A user is { id, username, role, disabled, passwordHash, createdAt, updatedAt }.
+ * Passwords are stored as salted scrypt hashes and never sent to clients.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const config = require('../config');
+const logger = require('../utils/logger');
+
+const USERS_FILE = path.join(config.configPath, 'users.json');
+
+// Lowest to highest; each role can do everything the ones before it can
+const ROLES = ['viewer', 'operator', 'engineer', 'admin'];
+const USERNAME_PATTERN = /^[a-zA-Z0-9._-]{2,32}$/;
+const MIN_PASSWORD_LENGTH = 8;
+
+let cachedUsers = null;
+
+const loadUsers = () => {
+  if (cachedUsers) return cachedUsers;
+  cachedUsers = [];
+  if (fs.existsSync(USERS_FILE)) {
+    try {
+      cachedUsers = JSON.parse(fs.readFileSync(USERS_FILE, 'utf8'));
+    } catch (error) {
+      logger.error('Failed to load users file:', error.message);
+    }
+  }
+  return cachedUsers;
+};
+
+const saveUsers = (users) => {
+  if (!fs.existsSync(config.configPath)) {
+    fs.mkdirSync(config.configPath, { recursive: true });
+  }
+  // Holds password hashes
+  fs.writeFileSync(USERS_FILE, JSON.stringify(users, null, 2), { mode: 0o600 });
+  cachedUsers = users;
+};
+
+const hasUsers = () => loadUsers().length > 0;
+
+const getUser = (id) => loadUsers().find(u => u.id === id) || null;
+
+const hasRole = (role, required) => ROLES.indexOf(role) >= ROLES.indexOf(required);
+
+// salt:hash, both hex
+const hashPassword = (password) => {
+  const salt = crypto.randomBytes(16).toString('hex');
+  return `${salt}:${crypto.scryptSync(password, salt, 64).toString('hex')}`;
+};
+
+const checkPassword = (password, passwordHash) => {
+  const [salt, hash] = (passwordHash || '').split(':');
+  if (!salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = crypto.scryptSync(password, salt, expected.length);
+  return crypto.timingSafeEqual(expected, actual);
+};
+
+/**
+ * The user as clients see it, without the password hash
+ */
+const toPublic = ({ passwordHash, ...user }) => user;
+
+const validatePassword = (password) =>
+  typeof password === 'string' && password.length >= MIN_PASSWORD_LENGTH
+    ? []
+    : [`password must be at least ${MIN_PASSWORD_LENGTH} characters`];
+
+const validateUser = (user, users) => {
+  const errors = [];
+  if (typeof user.username !== 'string' || !USERNAME_PATTERN.test(user.username)) {
+    errors.push('username must be 2-32 letters, digits, dots, dashes or underscores');
+  } else if (users.some(u => u.id !== user.id && u.username.toLowerCase() === user.username.toLowerCase())) {
+    errors.push(`username ${user.username} is taken`);
+  }
+  if (!ROLES.includes(user.role)) errors.push(`role must be one of ${ROLES.join(', ')}`);
+  if (typeof user.disabled !== 'boolean') errors.push('disabled must be a boolean');
+  return errors;
+};
+
+// Whether users would still include an enabled admin
+const keepsAdmin = (users) => users.some(u => u.role === 'admin' && !u.disabled);
+
+/**
+ * Add a user; returns { user } or { errors }. The first user must be an admin.
+ */
+const createUser = ({ username, password, role = 'viewer' }) => {
+  const users = loadUsers();
+  const now = new Date().toISOString();
+  const user = {
+    id: crypto.randomUUID(),
+    username: typeof username === 'string' ? username.trim() : username,
+    role,
+    disabled: false,
+    createdAt: now,
+    updatedAt: now,
+  };
+  const errors = [...validateUser(user, users), ...validatePassword(password)];
+  // The first account turns sign-in on, so it must be able to manage the others
+  if (errors.length === 0 && !keepsAdmin([...users, user])) errors.push('at least one enabled admin is required');
+  if (errors.length > 0) return { errors };
+  user.passwordHash = hashPassword(password);
+  saveUsers([...users, user]);
+  return { user };
+};
+
+/**
+ * Change a user's role, disabled flag or password; returns { user }, { errors }
+ * or null if there is no such user. The last enabled admin can't be demoted
+ * or disabled.
+ */
+const updateUser = (id, { role, disabled, password }) => {
+  const users = loadUsers();
+  const current = users.find(u => u.id === id);
+  if (!current) return null;
+
+  const user = {
+    ...current,
+    role: role ?? current.role,
+    disabled: disabled ?? current.disabled,
+    updatedAt: new Date().toISOString(),
+  };
+  const errors = validateUser(user, users);
+  if (password !== undefined) errors.push(...validatePassword(password));
+  const next = users.map(u => (u.id === id ? user : u));
+  if (errors.length === 0 && !keepsAdmin(next)) errors.push('at least one enabled admin is required');
+  if (errors.length > 0) return { errors };
+  if (password !== undefined) user.passwordHash = hashPassword(password);
+  saveUsers(next);
+  return { user };
+};
+
+/**
+ * Delete a user; returns { user }, { errors } or null if there is no such user
+ */
+const deleteUser = (id) => {
+  const users = loadUsers();
+  const user = users.find(u => u.id === id);
+  if (!user) return null;
+  const next = users.filter(u => u.id !== id);
+  if (!keepsAdmin(next)) return { errors: ['at least one enabled admin is required'] };
+  saveUsers(next);
+  return { user };
+};
+
+/**
+ * The enabled user with these credentials, or null
+ */
+const verifyCredentials = (username, password) => {
+  if (typeof username !== 'string' || typeof password !== 'string') return null;
+  const user = loadUsers().find(u => u.username.toLowerCase() === username.trim().toLowerCase());
+  if (!user || user.disabled || !checkPassword(password, user.passwordHash)) return null;
+  return user;
+};
+
+/**
+ * Create the first admin from ADMIN_USERNAME / ADMIN_PASSWORD when there are no users yet
+ */
+const ensureAdmin = () => {
+  if (hasUsers() || !config.auth.adminPassword) return;
+  const { errors } = createUser({ username: config.auth.adminUsername, password: config.auth.adminPassword, role: 'admin' });
+  if (errors) {
+    logger.error(`Failed to create the admin user: ${errors.join('; ')}`);
+  } else {
+    logger.info(`Created admin user ${config.auth.adminUsername}`);
+  }
+};
+
+module.exports = {
+  ROLES,
+  loadUsers,
+  hasUsers,
+  getUser,
+  hasRole,
+  toPublic,
+  createUser,
+  updateUser,
+  deleteUser,
+  verifyCredentials,
+  ensureAdmin,
+};
@@ -0,0 +1,146 @@
+import { FormEvent, useState } from 'react';
+import { LogIn, LogOut, UserCircle, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useCurrentUser, useSignIn, useSignOut } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { getBackendConfig, getBackendHost } from '@/services/backendConfig';
+import { ApiError } from '@/services/http';
+import { roleDescriptions, roleLabels } from '@/lib/roles';
+import { cn } from '@/lib/utils';
+
+interface AccountMenuProps {
+  backendId: string;
+}
+
+interface SignInDialogProps {
+  backendId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function SignInDialog({ backendId, open, onOpenChange }: SignInDialogProps) {
+  const backend = getBackendConfig(backendId);
+  const [username, setUsername] = useState(backend.username ?? '');
+  const [password, setPassword] = useState('');
+  const signIn = useSignIn(backendId);
+  const { toast } = useToast();
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    signIn.mutate({ username: username.trim(), password }, {
+      onSuccess: () => {
+        setPassword('');
+        onOpenChange(false);
+        toast({ title: 'Signed in', description: `Signed in to ${backend.name} as ${username.trim()}` });
+      },
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm border-border bg-card">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Sign in</DialogTitle>
+            <DialogDescription>
+              {backend.name} <span className="font-mono">({getBackendHost(backend)})</span>
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="signInUsername">Username</Label>
+            <Input
+              id="signInUsername"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              autoComplete="username"
+              autoFocus
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="signInPassword">Password</Label>
+            <Input
+              id="signInPassword"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="current-password"
+            />
+          </div>
+          {signIn.error && <p className="text-sm text-status-error">{signIn.error.message}</p>}
+          <DialogFooter>
+            <Button type="submit" disabled={!username.trim() || !password || signIn.isPending} className="gap-2">
+              {signIn.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <LogIn className="h-4 w-4" />}
+              Sign in
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Header button showing who we are signed in as on a backend, or offering to sign in
+export function AccountMenu({ backendId }: AccountMenuProps) {
+  const [signInOpen, setSignInOpen] = useState(false);
+  const { data: currentUser, error } = useCurrentUser(backendId);
+  const signOut = useSignOut(backendId);
+
+  const buttonClass = cn(
+    "gap-2 text-muted-foreground hover:text-foreground",
+    "border border-transparent hover:border-border/50"
+  );
+
+  // Signed out, or the configured key or token is no longer accepted
+  if (error instanceof ApiError && error.status === 401) {
+    return (
+      <>
+        <Button variant="ghost" size="sm" className={buttonClass} onClick={() => setSignInOpen(true)}>
+          <LogIn className="h-4 w-4" />
+          <span className="hidden sm:inline text-xs uppercase tracking-wider">Sign in</span>
+        </Button>
+        {signInOpen && <SignInDialog backendId={backendId} open={signInOpen} onOpenChange={setSignInOpen} />}
+      </>
+    );
+  }
+
+  // Nothing to show without accounts, or for the API key and tokens
+  if (!currentUser?.authEnabled || !currentUser.username) return null;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className={buttonClass}>
+          <UserCircle className="h-4 w-4" />
+          <span className="hidden sm:inline text-xs">{currentUser.username}</span>
+          <span className="text-[10px] uppercase tracking-wider rounded-full border border-border/50 bg-secondary/80 px-1.5 py-0.5">
+            {roleLabels[currentUser.role]}
+          </span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel className="space-y-0.5">
+          <div>{currentUser.username}</div>
+          <div className="text-xs font-normal text-muted-foreground">
+            {roleLabels[currentUser.role]}: {roleDescriptions[currentUser.role].toLowerCase()}
+          </div>
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={() => signOut.mutate()} disabled={signOut.isPending}>
+          <LogOut className="h-4 w-4 mr-2" />
+          Sign out
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
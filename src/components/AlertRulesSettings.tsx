@@ -0,0 +1,399 @@
+import { useState } from 'react';
+import { AlertCircle, Pencil, Plus, RefreshCw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { AlertRule, AlertRuleInput, AlertRuleType, AlertSeverity } from '@/types/alerts';
+import { ServiceStatus, ServiceType } from '@/types/channel';
+import {
+  useAlertRules,
+  useCreateAlertRule,
+  useDeleteAlertRule,
+  useUpdateAlertRule,
+} from '@/hooks/useAlerts';
+import { useToast } from '@/hooks/use-toast';
+import { CHANNEL_RULE_TYPES, RULE_TYPE_LABELS, describeRule, severityStyles } from '@/lib/alerts';
+import { cn } from '@/lib/utils';
+
+interface AlertRulesSettingsProps {
+  backendId: string;
+}
+
+// Field values for a new rule of each type, matching the backend's defaults
+const TYPE_DEFAULTS: Record<AlertRuleType, Partial<AlertRuleInput>> = {
+  'service-state': { service: 'rx', status: 'error', forSeconds: 0 },
+  'bitrate': { comparison: 'below', threshold: 0.1, forSeconds: 30 },
+  'pid-missing': { forSeconds: 30 },
+  'cc-errors': { threshold: 10, forSeconds: 0 },
+  'ilo-health': { forSeconds: 0 },
+  'ilo-temperature': { threshold: 80, forSeconds: 60 },
+  'disk-space': { path: '/srv/recordings', threshold: 10, forSeconds: 0 },
+};
+
+const THRESHOLD_LABELS: Partial<Record<AlertRuleType, string>> = {
+  'bitrate': 'Threshold (Mbps)',
+  'cc-errors': 'Errors per minute',
+  'ilo-temperature': 'Temperature (°C)',
+  'disk-space': 'Minimum free (%)',
+};
+
+const STATUS_OPTIONS: ServiceStatus[] = ['error', 'stopped', 'not-found', 'unknown'];
+
+function newRule(type: AlertRuleType = 'service-state'): AlertRuleInput {
+  return {
+    name: '',
+    type,
+    enabled: true,
+    severity: 'warning',
+    channelIds: [],
+    forSeconds: 0,
+    ...TYPE_DEFAULTS[type],
+  };
+}
+
+function parseChannelIds(text: string): number[] | null {
+  const parts = text.split(',').map(s => s.trim()).filter(Boolean);
+  const ids = parts.map(Number);
+  return ids.every(Number.isInteger) ? ids : null;
+}
+
+// Alert rules of one backend, added and edited in place; changes apply on the next evaluation
+export function AlertRulesSettings({ backendId }: AlertRulesSettingsProps) {
+  const { toast } = useToast();
+  const { data: rules, isLoading, error } = useAlertRules(backendId);
+  const createRule = useCreateAlertRule(backendId);
+  const updateRule = useUpdateAlertRule(backendId);
+  const deleteRule = useDeleteAlertRule(backendId);
+
+  // null id: adding a rule
+  const [editing, setEditing] = useState<{ id: string | null; draft: AlertRuleInput } | null>(null);
+  const [channelText, setChannelText] = useState('');
+  const [pendingDelete, setPendingDelete] = useState<AlertRule | null>(null);
+  const isSaving = createRule.isPending || updateRule.isPending;
+
+  const openEditor = (rule: AlertRule | null) => {
+    if (rule) {
+      const { id, ...draft } = rule;
+      setEditing({ id, draft });
+      setChannelText(rule.channelIds.join(', '));
+    } else {
+      setEditing({ id: null, draft: newRule() });
+      setChannelText('');
+    }
+  };
+
+  const updateDraft = (updates: Partial<AlertRuleInput>) =>
+    setEditing(prev => prev && { ...prev, draft: { ...prev.draft, ...updates } });
+
+  const changeType = (type: AlertRuleType) =>
+    setEditing(prev => prev && {
+      ...prev,
+      draft: { ...newRule(type), name: prev.draft.name, enabled: prev.draft.enabled, severity: prev.draft.severity, channelIds: prev.draft.channelIds },
+    });
+
+  const handleToggle = (rule: AlertRule, enabled: boolean) => {
+    updateRule.mutate(
+      { id: rule.id, updates: { enabled } },
+      { onError: (err) => toast({ title: 'Failed to update rule', description: err.message, variant: 'destructive' }) }
+    );
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    const channelIds = parseChannelIds(channelText);
+    if (channelIds === null) {
+      toast({ title: 'Invalid channels', description: 'Enter channel IDs separated by commas.', variant: 'destructive' });
+      return;
+    }
+    const rule = { ...editing.draft, channelIds: CHANNEL_RULE_TYPES.includes(editing.draft.type) ? channelIds : [] };
+    try {
+      if (editing.id) {
+        await updateRule.mutateAsync({ id: editing.id, updates: rule });
+      } else {
+        await createRule.mutateAsync(rule);
+      }
+      toast({ title: editing.id ? 'Rule saved' : 'Rule added', description: rule.name });
+      setEditing(null);
+    } catch (err) {
+      toast({ title: 'Failed to save rule', description: (err as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const handleDelete = () => {
+    if (!pendingDelete) return;
+    const { id, name } = pendingDelete;
+    deleteRule.mutate(id, {
+      onSuccess: () => toast({ title: 'Rule deleted', description: name }),
+      onError: (err) => toast({ title: 'Failed to delete rule', description: err.message, variant: 'destructive' }),
+    });
+    setPendingDelete(null);
+  };
+
+  const draft = editing?.draft;
+  const thresholdLabel = draft && THRESHOLD_LABELS[draft.type];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <AlertCircle className="h-5 w-5" />
+            Alert Rules
+          </CardTitle>
+          <CardDescription>
+            Conditions the backend checks every few seconds. Changes take effect immediately, no save needed.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={() => openEditor(null)} className="gap-2 shrink-0">
+          <Plus className="h-4 w-4" />
+          Add Rule
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <div className="flex items-center gap-2 rounded-lg border border-status-error/50 bg-status-error/10 p-3 text-sm text-status-error">
+            <AlertCircle className="h-4 w-4 shrink-0" />
+            Could not load alert rules: {error.message}
+          </div>
+        ) : isLoading || !rules ? (
+          <div className="animate-pulse bg-secondary rounded h-32" />
+        ) : rules.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">No alert rules</p>
+        ) : (
+          <div className="divide-y divide-border/50">
+            {rules.map(rule => (
+              <div key={rule.id} className="flex items-center gap-4 py-3">
+                <Switch
+                  checked={rule.enabled}
+                  onCheckedChange={(checked) => handleToggle(rule, checked)}
+                  aria-label={`Enable ${rule.name}`}
+                />
+                <div className={cn("flex-1 min-w-0", !rule.enabled && "opacity-60")}>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-sm truncate">{rule.name}</span>
+                    <span className={cn("text-[10px] uppercase tracking-wider", severityStyles[rule.severity].text)}>
+                      {severityStyles[rule.severity].label}
+                    </span>
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">{describeRule(rule)}</p>
+                </div>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openEditor(rule)} aria-label={`Edit ${rule.name}`}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-muted-foreground hover:text-status-error"
+                  onClick={() => setPendingDelete(rule)}
+                  aria-label={`Delete ${rule.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing?.id ? 'Edit Alert Rule' : 'Add Alert Rule'}</DialogTitle>
+            <DialogDescription>{draft && describeRule(draft)}</DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="ruleName">Name</Label>
+                <Input
+                  id="ruleName"
+                  value={draft.name}
+                  onChange={(e) => updateDraft({ name: e.target.value })}
+                  placeholder="RX input lost"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="ruleType">Type</Label>
+                  <Select value={draft.type} onValueChange={(v) => changeType(v as AlertRuleType)}>
+                    <SelectTrigger id="ruleType">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(RULE_TYPE_LABELS) as AlertRuleType[]).map(type => (
+                        <SelectItem key={type} value={type}>{RULE_TYPE_LABELS[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="ruleSeverity">Severity</Label>
+                  <Select value={draft.severity} onValueChange={(v) => updateDraft({ severity: v as AlertSeverity })}>
+                    <SelectTrigger id="ruleSeverity">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(severityStyles) as AlertSeverity[]).map(severity => (
+                        <SelectItem key={severity} value={severity}>{severityStyles[severity].label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {draft.type === 'service-state' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="ruleService">Service</Label>
+                    <Select value={draft.service} onValueChange={(v) => updateDraft({ service: v as ServiceType })}>
+                      <SelectTrigger id="ruleService">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="rx">RX</SelectItem>
+                        <SelectItem value="rec">REC</SelectItem>
+                        <SelectItem value="rtmp">RTMP</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="ruleStatus">Status</Label>
+                    <Select value={draft.status} onValueChange={(v) => updateDraft({ status: v as ServiceStatus })}>
+                      <SelectTrigger id="ruleStatus">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {STATUS_OPTIONS.map(status => (
+                          <SelectItem key={status} value={status}>{status}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              )}
+
+              {draft.type === 'disk-space' && (
+                <div className="space-y-2">
+                  <Label htmlFor="rulePath">Path</Label>
+                  <Input
+                    id="rulePath"
+                    value={draft.path ?? ''}
+                    onChange={(e) => updateDraft({ path: e.target.value })}
+                    className="font-mono"
+                    placeholder="/srv/recordings"
+                  />
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                {draft.type === 'bitrate' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="ruleComparison">Fires when bitrate is</Label>
+                    <Select value={draft.comparison} onValueChange={(v) => updateDraft({ comparison: v as 'below' | 'above' })}>
+                      <SelectTrigger id="ruleComparison">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="below">Below</SelectItem>
+                        <SelectItem value="above">Above</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                {thresholdLabel && (
+                  <div className="space-y-2">
+                    <Label htmlFor="ruleThreshold">{thresholdLabel}</Label>
+                    <Input
+                      id="ruleThreshold"
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={draft.threshold ?? ''}
+                      onChange={(e) => updateDraft({ threshold: parseFloat(e.target.value) })}
+                      className="font-mono"
+                    />
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="ruleFor">For (seconds)</Label>
+                  <Input
+                    id="ruleFor"
+                    type="number"
+                    min={0}
+                    value={draft.forSeconds}
+                    onChange={(e) => updateDraft({ forSeconds: parseInt(e.target.value) || 0 })}
+                    className="font-mono"
+                  />
+                </div>
+              </div>
+
+              {CHANNEL_RULE_TYPES.includes(draft.type) && (
+                <div className="space-y-2">
+                  <Label htmlFor="ruleChannels">Channels</Label>
+                  <Input
+                    id="ruleChannels"
+                    value={channelText}
+                    onChange={(e) => setChannelText(e.target.value)}
+                    className="font-mono"
+                    placeholder="All channels"
+                  />
+                  <p className="text-xs text-muted-foreground">Channel IDs separated by commas; leave empty for all</p>
+                </div>
+              )}
+
+              <div className="flex items-center gap-2">
+                <Switch id="ruleEnabled" checked={draft.enabled} onCheckedChange={(enabled) => updateDraft({ enabled })} />
+                <Label htmlFor="ruleEnabled">Enabled</Label>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={isSaving || !draft?.name.trim()}>
+              {isSaving && <RefreshCw className="h-4 w-4 mr-2 animate-spin" />}
+              {editing?.id ? 'Save Rule' : 'Add Rule'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent className="border-border bg-card">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete “{pendingDelete?.name}”?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its open alerts will resolve. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="border-border">Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-status-error hover:bg-status-error/90">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
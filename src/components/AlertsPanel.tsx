@@ -0,0 +1,206 @@
+import { useState } from 'react';
+import { Bell, BellOff, Check, ExternalLink } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useBackends } from '@/hooks/useBackends';
+import { BackendAlert, useAcknowledgeAlert, useAlertsAcrossBackends, useSilenceAlert } from '@/hooks/useAlerts';
+import { useToast } from '@/hooks/use-toast';
+import { ChannelRef } from '@/lib/channelNavigation';
+import { SILENCE_OPTIONS, isOpen, isSilenced, needsAttention, severityStyles } from '@/lib/alerts';
+import { cn } from '@/lib/utils';
+
+interface AlertsPanelProps {
+  onOpenChannel?: (channel: ChannelRef) => void;
+}
+
+function formatTime(iso: string) {
+  const date = new Date(iso);
+  const sameDay = date.toDateString() === new Date().toDateString();
+  return sameDay
+    ? date.toLocaleTimeString('en-US', { hour12: false })
+    : date.toLocaleString('en-US', { hour12: false, month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+}
+
+// Header bell with the alerts of every backend on screen
+export function AlertsPanel({ onOpenChannel }: AlertsPanelProps) {
+  const [open, setOpen] = useState(false);
+  const { visibleBackends, isAggregated } = useBackends();
+  const { alerts } = useAlertsAcrossBackends(visibleBackends.map(b => b.id));
+  const acknowledge = useAcknowledgeAlert();
+  const silence = useSilenceAlert();
+  const { toast } = useToast();
+
+  const active = alerts.filter(isOpen);
+  const resolved = alerts.filter(alert => !isOpen(alert));
+  const attentionCount = alerts.filter(needsAttention).length;
+  const backendName = (id: string) => visibleBackends.find(b => b.id === id)?.name ?? id;
+
+  const onError = (title: string) => (error: Error) =>
+    toast({ title, description: error.message, variant: 'destructive' });
+
+  const handleAcknowledge = (alert: BackendAlert) =>
+    acknowledge.mutate(
+      { backendId: alert.backendId, id: alert.id },
+      { onError: onError('Failed to acknowledge alert') }
+    );
+
+  const handleSilence = (alert: BackendAlert, durationMinutes: number) =>
+    silence.mutate(
+      { backendId: alert.backendId, id: alert.id, durationMinutes },
+      { onError: onError(durationMinutes > 0 ? 'Failed to silence alert' : 'Failed to lift silence') }
+    );
+
+  const renderAlert = (alert: BackendAlert) => {
+    const style = severityStyles[alert.severity];
+    const silenced = isSilenced(alert);
+    const alertOpen = isOpen(alert);
+
+    return (
+      <div
+        key={`${alert.backendId}-${alert.id}`}
+        className={cn(
+          "rounded-md border border-border/50 p-3 space-y-1.5",
+          (silenced || alert.state === 'acknowledged') && "opacity-70"
+        )}
+      >
+        <div className="flex items-start justify-between gap-2">
+          <div className="flex items-center gap-2 min-w-0">
+            <span className={cn("h-2 w-2 rounded-full shrink-0", alertOpen ? style.dot : "bg-muted-foreground")} />
+            <span className="text-sm font-medium truncate">{alert.ruleName}</span>
+          </div>
+          <span className="text-[10px] font-mono text-muted-foreground shrink-0">
+            {formatTime(alertOpen ? alert.firedAt : alert.resolvedAt ?? alert.firedAt)}
+          </span>
+        </div>
+        <p className="text-xs text-muted-foreground">{alert.message}</p>
+        <div className="flex items-center gap-2 text-[10px] uppercase tracking-wider">
+          <span className={alertOpen ? style.text : 'text-muted-foreground'}>{style.label}</span>
+          {isAggregated && <span className="text-muted-foreground">{backendName(alert.backendId)}</span>}
+          {alert.state === 'acknowledged' && <span className="text-muted-foreground">Acknowledged</span>}
+          {silenced && (
+            <span className="flex items-center gap-1 text-muted-foreground">
+              <BellOff className="h-3 w-3" />
+              until {formatTime(alert.silencedUntil as string)}
+            </span>
+          )}
+        </div>
+        {alertOpen && (
+          <div className="flex items-center gap-1 pt-1">
+            {alert.state === 'firing' && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-xs gap-1"
+                onClick={() => handleAcknowledge(alert)}
+              >
+                <Check className="h-3 w-3" />
+                Acknowledge
+              </Button>
+            )}
+            {silenced ? (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-xs gap-1"
+                onClick={() => handleSilence(alert, 0)}
+              >
+                <Bell className="h-3 w-3" />
+                Unsilence
+              </Button>
+            ) : (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="sm" className="h-7 px-2 text-xs gap-1">
+                    <BellOff className="h-3 w-3" />
+                    Silence
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start">
+                  <DropdownMenuLabel className="text-xs">Silence for</DropdownMenuLabel>
+                  <DropdownMenuSeparator />
+                  {SILENCE_OPTIONS.map(({ minutes, label }) => (
+                    <DropdownMenuItem key={minutes} onClick={() => handleSilence(alert, minutes)}>
+                      {label}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+            {onOpenChannel && alert.channelId !== null && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-xs gap-1 ml-auto"
+                onClick={() => {
+                  setOpen(false);
+                  onOpenChannel({ backendId: alert.backendId, channelId: alert.channelId as number });
+                }}
+              >
+                <ExternalLink className="h-3 w-3" />
+                Channel {alert.channelId}
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={cn(
+            "relative gap-2 text-muted-foreground hover:text-foreground",
+            "border border-transparent hover:border-border/50",
+            attentionCount > 0 && "text-status-error"
+          )}
+          aria-label={`Alerts (${attentionCount} firing)`}
+        >
+          <Bell className="h-4 w-4" />
+          {attentionCount > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-4 h-4 px-1 rounded-full bg-status-error text-[10px] font-bold leading-4 text-white">
+              {attentionCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 p-0">
+        <Tabs defaultValue="active">
+          <div className="flex items-center justify-between border-b border-border/50 px-3 py-2">
+            <span className="text-sm font-semibold">Alerts</span>
+            <TabsList className="h-8">
+              <TabsTrigger value="active" className="text-xs">Active ({active.length})</TabsTrigger>
+              <TabsTrigger value="resolved" className="text-xs">Resolved</TabsTrigger>
+            </TabsList>
+          </div>
+          <TabsContent value="active" className="m-0">
+            <div className="max-h-[420px] overflow-y-auto space-y-2 p-3">
+              {active.length === 0
+                ? <p className="py-6 text-center text-xs text-muted-foreground">No active alerts</p>
+                : active.map(renderAlert)}
+            </div>
+          </TabsContent>
+          <TabsContent value="resolved" className="m-0">
+            <div className="max-h-[420px] overflow-y-auto space-y-2 p-3">
+              {resolved.length === 0
+                ? <p className="py-6 text-center text-xs text-muted-foreground">No resolved alerts</p>
+                : resolved.map(renderAlert)}
+            </div>
+          </TabsContent>
+        </Tabs>
+      </PopoverContent>
+    </Popover>
+  );
+}
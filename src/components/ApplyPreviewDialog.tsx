@@ -0,0 +1,68 @@
+import { RefreshCw } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ServiceType } from '@/types/channel';
+import { ConfigChange } from '@/lib/configDiff';
+import { cn } from '@/lib/utils';
+import { ConfigDiffTable } from './ConfigDiffTable';
+
+interface ApplyPreviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  changes: ConfigChange[];
+  services: ServiceType[];
+  onConfirm: () => void;
+  title?: string;
+}
+
+const serviceBadges: Record<ServiceType, string> = {
+  rx: 'border-rx/30 bg-rx/10 text-rx',
+  rec: 'border-rec/30 bg-rec/10 text-rec',
+  rtmp: 'border-rtmp/30 bg-rtmp/10 text-rtmp',
+};
+
+// Confirms an apply: what changed relative to the running config and which services restart
+export function ApplyPreviewDialog({ open, onOpenChange, changes, services, onConfirm, title = 'Apply configuration' }: ApplyPreviewDialogProps) {
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent className="border-border bg-card max-w-lg">
+        <AlertDialogHeader>
+          <AlertDialogTitle>{title}</AlertDialogTitle>
+          <AlertDialogDescription>
+            {services.length > 0
+              ? 'These services will be restarted, which briefly interrupts their output:'
+              : 'No service reads the changed fields, so nothing will be restarted.'}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {services.length > 0 && (
+          <div className="flex gap-2">
+            {services.map(service => (
+              <span key={service} className={cn('rounded border px-2 py-0.5 text-xs font-semibold', serviceBadges[service])}>
+                {service.toUpperCase()}
+              </span>
+            ))}
+          </div>
+        )}
+
+        <ConfigDiffTable changes={changes} className="max-h-64" />
+
+        <AlertDialogFooter>
+          <AlertDialogCancel className="border-border">Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={onConfirm} className="gap-1">
+            <RefreshCw className="h-4 w-4" />
+            {services.length > 0 ? `Apply & restart ${services.length}` : 'Apply'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,84 @@
+import { CheckCircle2, XCircle, Loader2, Undo2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { ApplyOutcome, ApplyStep } from '@/types/apply';
+
+interface ApplyProgressProps {
+  steps: ApplyStep[];
+  // null while the apply is still running
+  outcome: ApplyOutcome | null;
+  error?: string;
+  onDismiss?: () => void;
+}
+
+const outcomeConfig: Record<ApplyOutcome, { title: string; className: string }> = {
+  'applied': {
+    title: 'Config applied and verified',
+    className: 'border-status-running/30 bg-status-running/10 text-status-running',
+  },
+  'rolled-back': {
+    title: 'Apply failed, previous config restored',
+    className: 'border-status-error/30 bg-status-error/10 text-status-error',
+  },
+  'rollback-failed': {
+    title: 'Apply failed and the rollback did not recover the channel',
+    className: 'border-status-stopped/30 bg-status-stopped/10 text-status-stopped',
+  },
+};
+
+function StepIcon({ status }: { status: ApplyStep['status'] }) {
+  if (status === 'running') return <Loader2 className="h-3.5 w-3.5 animate-spin text-primary" />;
+  if (status === 'failed') return <XCircle className="h-3.5 w-3.5 text-status-stopped" />;
+  return <CheckCircle2 className="h-3.5 w-3.5 text-status-running" />;
+}
+
+// Step-by-step progress and outcome of a transactional config apply
+export function ApplyProgress({ steps, outcome, error, onDismiss }: ApplyProgressProps) {
+  const firstRollbackIndex = steps.findIndex(step => step.key.startsWith('rollback-'));
+
+  return (
+    <div className="rounded-lg border border-border bg-secondary/30 p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium uppercase tracking-wider text-muted-foreground">
+          {outcome ? 'Apply result' : 'Applying configuration…'}
+        </span>
+        {outcome && onDismiss && (
+          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onDismiss} title="Dismiss">
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        )}
+      </div>
+
+      <ol className="space-y-1.5 text-sm">
+        {steps.map((step, index) => (
+          <li key={step.key}>
+            {index === firstRollbackIndex && (
+              <div className="flex items-center gap-2 py-1 text-xs text-status-error">
+                <Undo2 className="h-3.5 w-3.5" />
+                Rolling back
+              </div>
+            )}
+            <div className="flex items-start gap-2">
+              <span className="mt-0.5"><StepIcon status={step.status} /></span>
+              <div className="min-w-0">
+                <span className={cn(step.status === 'running' && 'text-foreground', step.status === 'done' && 'text-muted-foreground')}>
+                  {step.label}
+                </span>
+                {step.detail && (
+                  <p className="text-xs text-status-stopped/80 break-words">{step.detail}</p>
+                )}
+              </div>
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      {outcome && (
+        <div className={cn('rounded-md border px-3 py-2 text-sm', outcomeConfig[outcome].className)}>
+          <div className="font-medium">{outcomeConfig[outcome].title}</div>
+          {error && outcome !== 'applied' && <div className="text-xs opacity-80 break-words">{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
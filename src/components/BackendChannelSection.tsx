@@ -0,0 +1,303 @@
+import { useState, useMemo } from 'react';
+import { ChevronDown, ChevronRight, Inbox, Pencil, SearchX, WifiOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ChannelCard } from '@/components/ChannelCard';
+import { ChannelDetailModal } from '@/components/ChannelDetailModal';
+import { BulkControls } from '@/components/BulkControls';
+import { CreateChannelDialog } from '@/components/CreateChannelDialog';
+import { ExportChannelsDialog } from '@/components/ExportChannelsDialog';
+import { BulkEditDialog } from '@/components/BulkEditDialog';
+import { ConnectionIndicator } from '@/components/ConnectionIndicator';
+import { Channel, ServiceType } from '@/types/channel';
+import { BackendEntry, getBackendHost } from '@/services/backendConfig';
+import { ApiError } from '@/services/http';
+import { useChannelAnalysis } from '@/hooks/useStreamAnalysis';
+import {
+  useChannels,
+  useServiceAction,
+  useBulkServiceAction,
+  useIsBulkActionPending,
+  usePendingServiceActions,
+  ServiceAction,
+} from '@/hooks/useChannels';
+import { useToast } from '@/hooks/use-toast';
+import { usePermissions } from '@/hooks/useAuth';
+import { ChannelFilters, groupChannels, matchesFilters } from '@/lib/channelFilters';
+import { ChannelDetailTarget, channelNavProps } from '@/lib/channelNavigation';
+import { cn } from '@/lib/utils';
+
+interface BackendChannelSectionProps {
+  backend: BackendEntry;
+  // Aggregated view: label the section and every channel with the backend's host
+  grouped: boolean;
+  filters: ChannelFilters;
+  // Detail modal, owned by the page so the command palette and shortcuts can open it
+  detail: ChannelDetailTarget | null;
+  onOpenDetail: (target: ChannelDetailTarget) => void;
+  onCloseDetail: () => void;
+}
+
+// Channels of one backend with their bulk controls and detail modal.
+// All actions in here are routed to that backend.
+export function BackendChannelSection({ backend, grouped, filters, detail, onOpenDetail, onCloseDetail }: BackendChannelSectionProps) {
+  const openDetail = detail?.backendId === backend.id ? detail : null;
+  // Channels ticked for bulk editing
+  const [bulkSelection, setBulkSelection] = useState<Set<number>>(new Set());
+  const [bulkEditOpen, setBulkEditOpen] = useState(false);
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
+  const { toast } = useToast();
+  const host = getBackendHost(backend);
+  const backendLabel = grouped ? `${backend.name} · ${host}` : undefined;
+
+  const channelsQuery = useChannels(backend.id);
+  const channels = useMemo(() => channelsQuery.data ?? [], [channelsQuery.data]);
+  // Timeouts and network failures mean the backend is unreachable, not that the request was wrong
+  const isUnreachable = channelsQuery.error instanceof ApiError
+    && (channelsQuery.error.kind === 'timeout' || channelsQuery.error.kind === 'network');
+
+  const serviceAction = useServiceAction();
+  const bulkAction = useBulkServiceAction();
+  const isBulkPending = useIsBulkActionPending(backend.id);
+  const loadingStates = usePendingServiceActions(backend.id);
+  const { can } = usePermissions(backend.id);
+
+  // Get channel IDs for analysis
+  const channelIds = useMemo(() => channels.map(c => c.id), [channels]);
+  const channelConfigs = useMemo(() => channels.map(c => c.config), [channels]);
+  const { analyses } = useChannelAnalysis(backend.id, 2000, channelIds);
+
+  const visibleChannels = useMemo(() => channels.filter(c => matchesFilters(c, filters)), [channels, filters]);
+  // Group sections only once some channel has a group
+  const channelGroups = useMemo(
+    () => (channels.some(c => c.config.group) ? groupChannels(visibleChannels) : null),
+    [channels, visibleChannels]
+  );
+
+  // Bulk edits act on what is on screen; deleted or filtered-out channels drop out of the selection
+  const selectedChannels = useMemo(() => visibleChannels.filter(c => bulkSelection.has(c.id)), [visibleChannels, bulkSelection]);
+  const allSelected = visibleChannels.length > 0 && selectedChannels.length === visibleChannels.length;
+
+  const toggleGroup = (name: string) => {
+    const next = new Set(collapsedGroups);
+    if (next.has(name)) next.delete(name);
+    else next.add(name);
+    setCollapsedGroups(next);
+  };
+
+  const toggleSelected = (channelId: number, selected: boolean) => {
+    const next = new Set(bulkSelection);
+    if (selected) next.add(channelId);
+    else next.delete(channelId);
+    setBulkSelection(next);
+  };
+
+  const channelName = (channelId: number) =>
+    grouped ? `channel ${channelId} on ${backend.name}` : `channel ${channelId}`;
+
+  const handleServiceAction = async (
+    channelId: number,
+    service: ServiceType,
+    action: ServiceAction
+  ) => {
+    try {
+      await serviceAction.mutateAsync({ backendId: backend.id, channelId, service, action });
+      toast({
+        title: `${service.toUpperCase()} ${action}ed`,
+        description: `${service.toUpperCase()} on ${channelName(channelId)} has been ${action}ed.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Action failed',
+        description: `Failed to ${action} ${service.toUpperCase()} on ${channelName(channelId)}: ${(error as Error).message}`,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleBulkAction = async (service: ServiceType, action: ServiceAction) => {
+    const scope = grouped ? ` on ${backend.name}` : '';
+    try {
+      await bulkAction.mutateAsync({ backendId: backend.id, service, action, channelIds });
+      toast({
+        title: `Bulk ${action} complete`,
+        description: `All ${service.toUpperCase()} services${scope} have been ${action}ed.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Bulk action failed',
+        description: `Failed to ${action} all ${service.toUpperCase()} services${scope}.`,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleOpenDetail = (channelId: number) => onOpenDetail({ backendId: backend.id, channelId, tab: 'status' });
+
+  // Focusable for J/K navigation; Enter on the card itself (not a button inside) opens it
+  const renderCard = (channel: Channel) => (
+    <div
+      key={channel.id}
+      {...channelNavProps({ backendId: backend.id, channelId: channel.id })}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter' && e.target === e.currentTarget) handleOpenDetail(channel.id);
+      }}
+      className="rounded-lg focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+    >
+      <ChannelCard
+        backendId={backend.id}
+        channel={channel}
+        analysis={analyses[channel.id]}
+        hostLabel={grouped ? host : undefined}
+        onServiceAction={handleServiceAction}
+        onOpenDetail={handleOpenDetail}
+        loadingStates={loadingStates}
+        selected={bulkSelection.has(channel.id)}
+        onSelectedChange={toggleSelected}
+      />
+    </div>
+  );
+
+  return (
+    <section className="space-y-4">
+      {/* Section divider with Add Channel button */}
+      <div className="relative py-2">
+        <div className="section-divider" />
+        <div className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 flex items-center gap-4 bg-background px-4">
+          {grouped ? (
+            <>
+              <span className="text-xs uppercase tracking-widest text-foreground/90">
+                {backend.name}
+              </span>
+              <span className="text-xs font-mono text-muted-foreground">{host}</span>
+              <ConnectionIndicator backendId={backend.id} />
+            </>
+          ) : (
+            <span className="text-xs uppercase tracking-widest text-muted-foreground">
+              Channels
+            </span>
+          )}
+          {can('editConfig') && (
+            <CreateChannelDialog backendId={backend.id} existingIds={channelIds} existingConfigs={channelConfigs} />
+          )}
+          <ExportChannelsDialog channels={channels} source={{ name: backend.name, host }} />
+        </div>
+      </div>
+
+      {/* Bulk controls */}
+      {channels.length > 0 && (
+        <BulkControls onBulkAction={handleBulkAction} isLoading={isBulkPending} canControl={can('controlServices')} />
+      )}
+
+      {/* Selection for bulk editing */}
+      {visibleChannels.length > 0 && (
+        <div className="flex items-center gap-3 px-1 text-sm">
+          <label className="flex items-center gap-2 text-muted-foreground">
+            <Checkbox
+              checked={allSelected ? true : selectedChannels.length > 0 ? 'indeterminate' : false}
+              onCheckedChange={(checked) => setBulkSelection(checked === true ? new Set(visibleChannels.map(c => c.id)) : new Set())}
+            />
+            {selectedChannels.length > 0 ? `${selectedChannels.length} selected` : 'Select channels'}
+          </label>
+          {selectedChannels.length > 0 && (
+            <>
+              {can('editConfig') && (
+                <Button size="sm" variant="secondary" className="h-7 gap-1" onClick={() => setBulkEditOpen(true)}>
+                  <Pencil className="h-3.5 w-3.5" />
+                  Edit config
+                </Button>
+              )}
+              <Button size="sm" variant="ghost" className="h-7" onClick={() => setBulkSelection(new Set())}>
+                Clear
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Last known state while the backend is unreachable */}
+      {isUnreachable && channels.length > 0 && (
+        <div className="flex items-center gap-2 rounded-lg border border-status-error/30 bg-status-error/10 px-3 py-2 text-xs text-status-error">
+          <WifiOff className="h-4 w-4 shrink-0" />
+          {host} is not responding ({channelsQuery.error.message}); showing the last known state.
+        </div>
+      )}
+
+      {/* Channel list */}
+      {channelsQuery.isLoading ? (
+        <div className="space-y-3">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <div key={i} className="h-20 animate-pulse rounded-lg bg-card border border-border/40" />
+          ))}
+        </div>
+      ) : channelsQuery.isError && channels.length === 0 ? (
+        <p className="py-6 text-center text-sm text-muted-foreground">
+          {isUnreachable ? `${host} is not responding` : `Could not load channels from ${host}`}: {channelsQuery.error.message}
+        </p>
+      ) : channels.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-16 text-center">
+          <div className={cn(
+            "flex h-16 w-16 items-center justify-center rounded-full mb-4",
+            "bg-gradient-to-br from-muted/50 to-muted/20",
+            "border border-border/50"
+          )}>
+            <Inbox className="h-8 w-8 text-muted-foreground" />
+          </div>
+          <h3 className="text-lg font-semibold mb-2">No Channels</h3>
+          <p className="text-muted-foreground max-w-md mb-6">
+            Get started by adding your first streaming channel. Each channel can have its own SRT input,
+            recording settings, and RTMP output configuration.
+          </p>
+          {can('editConfig') && <CreateChannelDialog backendId={backend.id} existingIds={[]} />}
+        </div>
+      ) : visibleChannels.length === 0 ? (
+        <div className="flex items-center justify-center gap-2 py-6 text-sm text-muted-foreground">
+          <SearchX className="h-4 w-4" />
+          No channels match the filters
+        </div>
+      ) : channelGroups ? (
+        <div className="space-y-4">
+          {channelGroups.map(({ name, channels: groupChannelList }) => {
+            const collapsed = collapsedGroups.has(name);
+            return (
+              <div key={name || '(ungrouped)'} className="space-y-2">
+                <button
+                  type="button"
+                  onClick={() => toggleGroup(name)}
+                  className="flex items-center gap-1.5 text-xs uppercase tracking-wider text-muted-foreground hover:text-foreground"
+                  aria-expanded={!collapsed}
+                >
+                  {collapsed ? <ChevronRight className="h-3.5 w-3.5" /> : <ChevronDown className="h-3.5 w-3.5" />}
+                  {name || 'Ungrouped'}
+                  <span className="font-mono normal-case">({groupChannelList.length})</span>
+                </button>
+                {!collapsed && <div className="space-y-2">{groupChannelList.map(renderCard)}</div>}
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="space-y-2">{visibleChannels.map(renderCard)}</div>
+      )}
+
+      <BulkEditDialog
+        backendId={backend.id}
+        channels={selectedChannels}
+        existingConfigs={channelConfigs}
+        open={bulkEditOpen}
+        onOpenChange={setBulkEditOpen}
+      />
+
+      {/* Channel detail modal */}
+      <ChannelDetailModal
+        backendId={backend.id}
+        backendLabel={backendLabel}
+        channelId={openDetail?.channelId ?? null}
+        tab={openDetail?.tab}
+        onClose={onCloseDetail}
+        onServiceAction={handleServiceAction}
+        loadingStates={loadingStates}
+      />
+    </section>
+  );
+}
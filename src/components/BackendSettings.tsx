@@ -1,8 +1,10 @@
 import { useState, useEffect } from 'react';
-import { Settings, CheckCircle2, XCircle, Loader2 } from 'lucide-react';
+import { Settings, CheckCircle2, XCircle, Loader2, ShieldAlert, Plus, Trash2, RotateCcw } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import {
   Dialog,
   DialogContent,
@@ -13,35 +15,132 @@ import {
 } from '@/components/ui/dialog';
 import { cn } from '@/lib/utils';
 import {
-  getBackendConfig,
-  setBackendConfig,
+  getBackends,
+  getActiveBackendId,
+  addBackend,
+  updateBackend,
+  removeBackend,
+  getBackendHost,
   testBackendConnection,
-  BackendConfig,
+  signIn,
+  BackendEntry,
+  BackendAuthMode,
+  BackendMode,
+  ConnectionTestResult,
+  ALL_BACKENDS,
 } from '@/services/backendConfig';
+import {
+  builtInScenarios,
+  parseScenarioScript,
+  CUSTOM_SCENARIO_ID,
+  DEFAULT_SCENARIO_ID,
+} from '@/services/simulator/scenarios';
+import { resetSimulator } from '@/services/simulator/simulatedBackend';
+
+const SCENARIO_PLACEHOLDER = `{
+  "channels": [5001, 5002, 5003],
+  "steps": [
+    { "at": 30, "action": "input-loss", "channelId": 5003 },
+    { "at": 90, "action": "input-restore", "channelId": 5003 }
+  ]
+}`;
+
+// Unsaved backends get a temporary id until Save assigns a real one
+const NEW_PREFIX = 'new-';
 
 export function BackendSettings() {
-  const [config, setConfig] = useState<BackendConfig>(getBackendConfig);
-  const [testResult, setTestResult] = useState<{ success: boolean; message: string } | null>(null);
+  const [drafts, setDrafts] = useState<BackendEntry[]>(getBackends);
+  const [selectedId, setSelectedId] = useState<string>(() => getBackends()[0].id);
+  const [testResult, setTestResult] = useState<ConnectionTestResult | null>(null);
   const [isTesting, setIsTesting] = useState(false);
+  // Only sent to sign in; the session token is what gets saved
+  const [password, setPassword] = useState('');
   const [open, setOpen] = useState(false);
 
   useEffect(() => {
     if (open) {
-      setConfig(getBackendConfig());
+      const backends = getBackends();
+      const activeId = getActiveBackendId();
+      setDrafts(backends);
+      setSelectedId(activeId === ALL_BACKENDS ? backends[0].id : activeId);
       setTestResult(null);
+      setPassword('');
     }
   }, [open]);
 
+  const config = drafts.find(d => d.id === selectedId) ?? drafts[0];
+
+  const setConfig = (update: (prev: BackendEntry) => BackendEntry) => {
+    setDrafts(prev => prev.map(d => (d.id === config.id ? update(d) : d)));
+  };
+
+  const selectBackend = (id: string) => {
+    setSelectedId(id);
+    setTestResult(null);
+    setPassword('');
+  };
+
+  const handleAdd = () => {
+    const draft: BackendEntry = {
+      id: `${NEW_PREFIX}${Date.now()}`,
+      name: `Backend ${drafts.length + 1}`,
+      url: '',
+      authMode: 'none',
+      mode: 'http',
+    };
+    setDrafts(prev => [...prev, draft]);
+    selectBackend(draft.id);
+  };
+
+  const handleRemove = () => {
+    const remaining = drafts.filter(d => d.id !== config.id);
+    setDrafts(remaining);
+    selectBackend(remaining[0].id);
+  };
+
   const handleTest = async () => {
     setIsTesting(true);
     setTestResult(null);
-    const result = await testBackendConnection(config.url);
+    const result = await testBackendConnection(config.url, config);
     setTestResult(result);
     setIsTesting(false);
   };
 
+  const handleSignIn = async () => {
+    setIsTesting(true);
+    setTestResult(null);
+    const username = config.username?.trim() ?? '';
+    const result = await signIn(config.url, username, password);
+    if (result.success) {
+      setConfig(prev => ({ ...prev, username, sessionToken: result.sessionToken }));
+      setPassword('');
+    }
+    setTestResult({ success: result.success, message: result.message, unauthorized: !result.success });
+    setIsTesting(false);
+  };
+
+  const isSimulated = config.mode === 'simulated';
+  const scenarioId = config.scenarioId ?? DEFAULT_SCENARIO_ID;
+  const scriptError = isSimulated && scenarioId === CUSTOM_SCENARIO_ID
+    ? parseScenarioScript(config.scenarioScript || '{}').error
+    : undefined;
+
   const handleSave = () => {
-    setBackendConfig(config);
+    const existing = getBackends();
+    for (const { id, ...entry } of drafts) {
+      if (!entry.url && entry.mode !== 'simulated') continue;
+      const named = { ...entry, name: entry.name.trim() || getBackendHost(entry) };
+      if (id.startsWith(NEW_PREFIX)) {
+        addBackend(named);
+      } else {
+        updateBackend(id, named);
+      }
+    }
+    // Remove last so at least one backend always exists
+    const draftIds = new Set(drafts.map(d => d.id));
+    for (const backend of existing) {
+      if (!draftIds.has(backend.id)) removeBackend(backend.id);
+    }
     setOpen(false);
   };
 
@@ -69,41 +168,249 @@ export function BackendSettings() {
             Backend Settings
           </DialogTitle>
           <DialogDescription>
-            Configure the connection to your BratesHUB backend server.
+            Configure the BratesHUB backend servers this dashboard controls.
           </DialogDescription>
         </DialogHeader>
 
         <div className="space-y-6 py-4">
-          {/* Backend URL */}
+          {/* Backend list */}
+          <div className="space-y-2">
+            <Label>Backends</Label>
+            <div className="flex flex-wrap items-center gap-2">
+              {drafts.map((draft) => (
+                <Button
+                  key={draft.id}
+                  variant={draft.id === config.id ? 'secondary' : 'ghost'}
+                  size="sm"
+                  onClick={() => selectBackend(draft.id)}
+                  className="border border-border/50"
+                >
+                  {draft.name || 'Unnamed'}
+                </Button>
+              ))}
+              <Button variant="ghost" size="sm" onClick={handleAdd} className="gap-1 text-muted-foreground">
+                <Plus className="h-4 w-4" />
+                Add
+              </Button>
+            </div>
+          </div>
+
+          {/* Backend name */}
           <div className="space-y-2">
-            <Label htmlFor="backend-url">Backend URL</Label>
+            <Label htmlFor="backend-name">Name</Label>
             <div className="flex gap-2">
               <Input
-                id="backend-url"
-                value={config.url}
-                onChange={(e) => setConfig(prev => ({ ...prev, url: e.target.value }))}
-                placeholder="http://192.168.1.100:3001"
-                className="font-mono text-sm"
+                id="backend-name"
+                value={config.name}
+                onChange={(e) => setConfig(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="encoder-1"
               />
               <Button
-                variant="secondary"
-                size="sm"
-                onClick={handleTest}
-                disabled={isTesting || !config.url}
-                className="shrink-0"
+                variant="ghost"
+                size="icon"
+                onClick={handleRemove}
+                disabled={drafts.length <= 1}
+                className="shrink-0 text-muted-foreground hover:text-status-error"
+                title="Remove backend"
               >
-                {isTesting ? (
-                  <Loader2 className="h-4 w-4 animate-spin" />
-                ) : (
-                  'Test'
-                )}
+                <Trash2 className="h-4 w-4" />
               </Button>
             </div>
-            <p className="text-xs text-muted-foreground">
-              Examples: <code className="text-primary/80">http://192.168.1.100:3001</code> or <code className="text-primary/80">http://[2a04:ee41::1]:3001</code> (IPv6)
-            </p>
           </div>
 
+          {/* Backend type */}
+          <div className="space-y-2">
+            <Label htmlFor="backend-mode">Type</Label>
+            <Select
+              value={config.mode}
+              onValueChange={(v) => {
+                setConfig(prev => ({ ...prev, mode: v as BackendMode }));
+                setTestResult(null);
+              }}
+            >
+              <SelectTrigger id="backend-mode">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="http">HTTP backend</SelectItem>
+                <SelectItem value="simulated">Simulated (in-browser)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isSimulated ? (
+            /* Simulation scenario */
+            <div className="space-y-2">
+              <Label htmlFor="backend-scenario">Scenario</Label>
+              <div className="flex gap-2">
+                <Select
+                  value={scenarioId}
+                  onValueChange={(v) => setConfig(prev => ({ ...prev, scenarioId: v }))}
+                >
+                  <SelectTrigger id="backend-scenario">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {builtInScenarios.map((scenario) => (
+                      <SelectItem key={scenario.id} value={scenario.id}>{scenario.name}</SelectItem>
+                    ))}
+                    <SelectItem value={CUSTOM_SCENARIO_ID}>Custom script</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => resetSimulator(config.id)}
+                  disabled={config.id.startsWith(NEW_PREFIX)}
+                  className="shrink-0 gap-1"
+                  title="Restart the scenario from t=0"
+                >
+                  <RotateCcw className="h-4 w-4" />
+                  Restart
+                </Button>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={handleTest}
+                  disabled={isTesting}
+                  className="shrink-0"
+                >
+                  Test
+                </Button>
+              </div>
+              {scenarioId === CUSTOM_SCENARIO_ID ? (
+                <>
+                  <Textarea
+                    id="backend-scenario-script"
+                    value={config.scenarioScript || ''}
+                    onChange={(e) => setConfig(prev => ({ ...prev, scenarioScript: e.target.value }))}
+                    placeholder={SCENARIO_PLACEHOLDER}
+                    className="min-h-[140px] font-mono text-xs"
+                    spellCheck={false}
+                  />
+                  {scriptError ? (
+                    <p className="text-xs text-status-error">{scriptError}</p>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">
+                      Steps: input-loss, input-restore, service-crash, service-start, service-stop, bitrate-drop, cc-errors, pid-loss, pcr-jitter, power-off, power-on. <code className="text-primary/80">at</code> is in seconds.
+                    </p>
+                  )}
+                </>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  {builtInScenarios.find(s => s.id === scenarioId)?.description}
+                </p>
+              )}
+            </div>
+          ) : (
+            <>
+              {/* Backend URL */}
+              <div className="space-y-2">
+                <Label htmlFor="backend-url">Backend URL</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="backend-url"
+                    value={config.url}
+                    onChange={(e) => setConfig(prev => ({ ...prev, url: e.target.value }))}
+                    placeholder="http://192.168.1.100:3001"
+                    className="font-mono text-sm"
+                  />
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={handleTest}
+                    disabled={isTesting || !config.url}
+                    className="shrink-0"
+                  >
+                    {isTesting ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      'Test'
+                    )}
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Examples: <code className="text-primary/80">http://192.168.1.100:3001</code> or <code className="text-primary/80">http://[2a04:ee41::1]:3001</code> (IPv6)
+                </p>
+              </div>
+
+              {/* Authentication */}
+              <div className="space-y-2">
+                <Label htmlFor="backend-auth-mode">Authentication</Label>
+                <Select
+                  value={config.authMode}
+                  onValueChange={(v) => setConfig(prev => ({ ...prev, authMode: v as BackendAuthMode }))}
+                >
+                  <SelectTrigger id="backend-auth-mode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">None</SelectItem>
+                    <SelectItem value="apiKey">API key (X-API-Key)</SelectItem>
+                    <SelectItem value="token">Bearer token</SelectItem>
+                    <SelectItem value="account">User account</SelectItem>
+                  </SelectContent>
+                </Select>
+                {config.authMode === 'apiKey' && (
+                  <Input
+                    id="backend-api-key"
+                    type="password"
+                    value={config.apiKey || ''}
+                    onChange={(e) => setConfig(prev => ({ ...prev, apiKey: e.target.value }))}
+                    placeholder="API_KEY from the backend .env"
+                    className="font-mono text-sm"
+                    autoComplete="off"
+                  />
+                )}
+                {config.authMode === 'token' && (
+                  <Input
+                    id="backend-token"
+                    type="password"
+                    value={config.token || ''}
+                    onChange={(e) => setConfig(prev => ({ ...prev, token: e.target.value }))}
+                    placeholder="Bearer token"
+                    className="font-mono text-sm"
+                    autoComplete="off"
+                  />
+                )}
+                {config.authMode === 'account' && (
+                  <div className="flex gap-2">
+                    <Input
+                      id="backend-username"
+                      value={config.username || ''}
+                      onChange={(e) => setConfig(prev => ({ ...prev, username: e.target.value }))}
+                      placeholder="Username"
+                      className="text-sm"
+                      autoComplete="username"
+                    />
+                    <Input
+                      id="backend-password"
+                      type="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      placeholder={config.sessionToken ? 'Signed in' : 'Password'}
+                      className="text-sm"
+                      autoComplete="current-password"
+                    />
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      onClick={handleSignIn}
+                      disabled={isTesting || !config.url || !config.username?.trim() || !password}
+                      className="shrink-0"
+                    >
+                      Sign in
+                    </Button>
+                  </div>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  Required when the backend has user accounts, <code className="text-primary/80">API_KEY</code> or <code className="text-primary/80">API_TOKENS</code> set.
+                  Accounts get the permissions of their role; the key and tokens act as admin.
+                </p>
+              </div>
+            </>
+          )}
+
           {/* Test Result */}
           {testResult && (
             <div className={cn(
@@ -114,6 +421,8 @@ export function BackendSettings() {
             )}>
               {testResult.success ? (
                 <CheckCircle2 className="h-4 w-4 shrink-0" />
+              ) : testResult.unauthorized ? (
+                <ShieldAlert className="h-4 w-4 shrink-0" />
               ) : (
                 <XCircle className="h-4 w-4 shrink-0" />
               )}
@@ -126,7 +435,7 @@ export function BackendSettings() {
             <Button variant="ghost" onClick={() => setOpen(false)}>
               Cancel
             </Button>
-            <Button onClick={handleSave}>
+            <Button onClick={handleSave} disabled={!!scriptError}>
               Save Settings
             </Button>
           </div>
@@ -0,0 +1,30 @@
+import { Layers } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectSeparator, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useBackends } from '@/hooks/useBackends';
+import { ALL_BACKENDS, getBackendHost } from '@/services/backendConfig';
+
+// Header dropdown choosing which backend the dashboard shows, or all of them grouped by host
+export function BackendSwitcher() {
+  const { backends, activeId, setActive } = useBackends();
+
+  if (backends.length < 2) return null;
+
+  return (
+    <Select value={activeId} onValueChange={setActive}>
+      <SelectTrigger className="h-8 w-[180px] gap-2 text-xs border-border/50">
+        <Layers className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL_BACKENDS}>All backends</SelectItem>
+        <SelectSeparator />
+        {backends.map((backend) => (
+          <SelectItem key={backend.id} value={backend.id}>
+            <span>{backend.name}</span>
+            <span className="ml-2 font-mono text-[10px] text-muted-foreground">{getBackendHost(backend)}</span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,191 @@
+import { useState } from 'react';
+import { Area, CartesianGrid, ComposedChart, Line, ReferenceArea, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { LineChart as LineChartIcon, Loader2, ZoomOut } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { useBitrateHistory } from '@/hooks/useStreamAnalysis';
+import {
+  HISTORY_RANGES,
+  HistoryRange,
+  describeMarker,
+  formatTick,
+  markerStyles,
+  toChartPoints,
+} from '@/lib/bitrateHistory';
+
+interface BitrateHistoryChartProps {
+  backendId: string;
+  channelId: number;
+}
+
+const chartConfig = {
+  avg: { label: 'Average', color: 'hsl(var(--rx-color))' },
+  range: { label: 'Min – max', color: 'hsl(var(--rx-color))' },
+} satisfies ChartConfig;
+
+// Zooming in closer than this shows little more than single buckets
+const MIN_ZOOM_MS = 60_000;
+// Clicking a marker zooms to this much either side of it
+const MARKER_ZOOM_MS = 10 * 60_000;
+
+// Recorded bitrate with restart and input-drop markers; drag across the chart to zoom in
+export function BitrateHistoryChart({ backendId, channelId }: BitrateHistoryChartProps) {
+  const [range, setRange] = useState<HistoryRange>('1h');
+  const [zoom, setZoom] = useState<{ from: number; to: number } | null>(null);
+  const [drag, setDrag] = useState<{ start: number; end: number } | null>(null);
+  const { history, isLoading, isFetching, error } = useBitrateHistory(backendId, channelId, zoom ?? range);
+
+  const points = history ? toChartPoints(history) : [];
+  const from = history ? new Date(history.from).getTime() : 0;
+  const to = history ? new Date(history.to).getTime() : 0;
+  const markers = history?.markers ?? [];
+
+  const finishDrag = () => {
+    if (drag && Math.abs(drag.end - drag.start) >= MIN_ZOOM_MS) {
+      setZoom({ from: Math.min(drag.start, drag.end), to: Math.max(drag.start, drag.end) });
+    }
+    setDrag(null);
+  };
+
+  return (
+    <div className="rounded-lg border border-border bg-card p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h4 className="font-semibold flex items-center gap-2">
+          <LineChartIcon className="h-5 w-5 text-primary" />
+          Bitrate History
+          {isFetching && <Loader2 className="h-3.5 w-3.5 animate-spin text-muted-foreground" />}
+        </h4>
+        <div className="flex items-center gap-2">
+          {zoom && (
+            <Button variant="ghost" size="sm" className="h-7 gap-1 text-xs" onClick={() => setZoom(null)}>
+              <ZoomOut className="h-3.5 w-3.5" />
+              Reset zoom
+            </Button>
+          )}
+          <ToggleGroup
+            type="single"
+            size="sm"
+            variant="outline"
+            value={zoom ? '' : range}
+            onValueChange={(value) => {
+              if (!value) return;
+              setRange(value as HistoryRange);
+              setZoom(null);
+            }}
+          >
+            {HISTORY_RANGES.map(r => (
+              <ToggleGroupItem key={r.value} value={r.value} className="h-7 px-2.5 text-xs">
+                {r.label}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+      </div>
+
+      {error ? (
+        <p className="py-12 text-center text-sm text-status-error">{error}</p>
+      ) : isLoading || !history ? (
+        <div className="h-56 animate-pulse rounded bg-secondary" />
+      ) : points.every(p => p.avg === null) ? (
+        <p className="py-12 text-center text-sm text-muted-foreground">No bitrate recorded in this window</p>
+      ) : (
+        <ChartContainer config={chartConfig} className="aspect-auto h-56 w-full select-none">
+          <ComposedChart
+            data={points}
+            margin={{ top: 8, right: 8, bottom: 0, left: 0 }}
+            onMouseDown={(e) => e?.activeLabel !== undefined && setDrag({ start: Number(e.activeLabel), end: Number(e.activeLabel) })}
+            onMouseMove={(e) => drag && e?.activeLabel !== undefined && setDrag({ ...drag, end: Number(e.activeLabel) })}
+            onMouseUp={finishDrag}
+            onMouseLeave={() => setDrag(null)}
+          >
+            <CartesianGrid vertical={false} strokeDasharray="3 3" />
+            <XAxis
+              dataKey="time"
+              type="number"
+              scale="time"
+              domain={[from, to]}
+              tickFormatter={(time: number) => formatTick(time, to - from)}
+              tickLine={false}
+              axisLine={false}
+              minTickGap={40}
+            />
+            <YAxis width={44} tickLine={false} axisLine={false} unit=" M" domain={[0, 'auto']} />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  labelFormatter={(_, payload) => {
+                    const time = payload?.[0]?.payload?.time;
+                    return time ? new Date(time).toLocaleString() : '';
+                  }}
+                  formatter={(value, name) => (
+                    <div className="flex w-full justify-between gap-4">
+                      <span className="text-muted-foreground">{chartConfig[name as keyof typeof chartConfig]?.label}</span>
+                      <span className="font-mono">
+                        {Array.isArray(value) ? value.map(v => Number(v).toFixed(2)).join(' – ') : Number(value).toFixed(2)} Mbps
+                      </span>
+                    </div>
+                  )}
+                />
+              }
+            />
+            <Area
+              dataKey="range"
+              type="monotone"
+              stroke="none"
+              fill="var(--color-range)"
+              fillOpacity={0.15}
+              isAnimationActive={false}
+            />
+            <Line
+              dataKey="avg"
+              type="monotone"
+              stroke="var(--color-avg)"
+              strokeWidth={1.5}
+              dot={false}
+              isAnimationActive={false}
+            />
+            {markers.map(marker => (
+              <ReferenceLine
+                key={`${marker.timestamp}-${marker.kind}-${marker.service ?? ''}`}
+                x={new Date(marker.timestamp).getTime()}
+                stroke={markerStyles[marker.kind].color}
+                strokeDasharray="3 3"
+                ifOverflow="hidden"
+              />
+            ))}
+            {drag && <ReferenceArea x1={drag.start} x2={drag.end} strokeOpacity={0.3} fill="hsl(var(--primary))" fillOpacity={0.1} />}
+          </ComposedChart>
+        </ChartContainer>
+      )}
+
+      {history && (
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>Drag across the chart to zoom in</span>
+          <span>Resolution {history.resolutionSec >= 60 ? `${history.resolutionSec / 60} min` : `${history.resolutionSec} s`}</span>
+        </div>
+      )}
+
+      {markers.length > 0 && (
+        <div className="max-h-32 overflow-auto rounded-md border border-border/60 divide-y divide-border/40">
+          {[...markers].reverse().map(marker => {
+            const time = new Date(marker.timestamp).getTime();
+            return (
+              <button
+                key={`${marker.timestamp}-${marker.kind}-${marker.service ?? ''}`}
+                type="button"
+                onClick={() => setZoom({ from: time - MARKER_ZOOM_MS, to: Math.min(time + MARKER_ZOOM_MS, Date.now()) })}
+                className="flex w-full items-center gap-2 px-2 py-1 text-left text-xs hover:bg-secondary/50"
+                title="Zoom to this event"
+              >
+                <span className="h-2 w-2 shrink-0 rounded-full" style={{ backgroundColor: markerStyles[marker.kind].color }} />
+                <span className="font-mono text-muted-foreground">{new Date(marker.timestamp).toLocaleString()}</span>
+                <span className="truncate">{describeMarker(marker)}</span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
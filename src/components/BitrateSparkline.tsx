@@ -0,0 +1,39 @@
+import { Line, LineChart, YAxis } from 'recharts';
+import { ChartConfig, ChartContainer } from '@/components/ui/chart';
+import { useBitrateHistory } from '@/hooks/useStreamAnalysis';
+import { toChartPoints } from '@/lib/bitrateHistory';
+
+interface BitrateSparklineProps {
+  backendId: string;
+  channelId: number;
+}
+
+const chartConfig = {
+  avg: { label: 'Mbps', color: 'hsl(var(--rx-color))' },
+} satisfies ChartConfig;
+
+// Last hour of bitrate at a glance; gaps are where the input was down
+export function BitrateSparkline({ backendId, channelId }: BitrateSparklineProps) {
+  const { history } = useBitrateHistory(backendId, channelId, '1h', 60);
+  const points = history ? toChartPoints(history) : [];
+
+  if (points.every(p => p.avg === null)) {
+    return <div className="h-7 w-28" aria-hidden />;
+  }
+
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto h-7 w-28" title="Bitrate, last hour">
+      <LineChart data={points} margin={{ top: 2, right: 0, bottom: 2, left: 0 }}>
+        <YAxis hide domain={['dataMin', 'dataMax']} />
+        <Line
+          dataKey="avg"
+          type="monotone"
+          stroke="var(--color-avg)"
+          strokeWidth={1.5}
+          dot={false}
+          isAnimationActive={false}
+        />
+      </LineChart>
+    </ChartContainer>
+  );
+}
@@ -12,11 +12,13 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import { ServiceType } from '@/types/channel';
+import { permissionHint } from '@/lib/roles';
 import { cn } from '@/lib/utils';
 
 interface BulkControlsProps {
   onBulkAction: (service: ServiceType, action: 'start' | 'stop' | 'restart') => Promise<void>;
   isLoading: boolean;
+  canControl?: boolean;
 }
 
 const serviceConfig = {
@@ -25,7 +27,7 @@ const serviceConfig = {
   rtmp: { icon: Cast, label: 'RTMP', colorClass: 'text-rtmp', borderClass: 'border-rtmp/30', bgClass: 'bg-rtmp/5' },
 };
 
-export function BulkControls({ onBulkAction, isLoading }: BulkControlsProps) {
+export function BulkControls({ onBulkAction, isLoading, canControl = true }: BulkControlsProps) {
   const [confirmDialog, setConfirmDialog] = useState<{
     service: ServiceType;
     action: 'start' | 'stop' | 'restart';
@@ -65,7 +67,7 @@ export function BulkControls({ onBulkAction, isLoading }: BulkControlsProps) {
             {isLoading && <Loader2 className="h-4 w-4 animate-spin ml-auto" />}
           </h3>
           
-          <div className="grid grid-cols-3 gap-3">
+          <div className="grid grid-cols-3 gap-3" title={canControl ? undefined : permissionHint('controlServices')}>
             {services.map((service) => {
               const config = serviceConfig[service];
               const Icon = config.icon;
@@ -90,7 +92,7 @@ export function BulkControls({ onBulkAction, isLoading }: BulkControlsProps) {
                       size="sm"
                       className="flex-1 h-8 text-xs hover:bg-status-running/10 hover:text-status-running hover:border-status-running/30 border border-transparent transition-all"
                       onClick={() => handleAction(service, 'start')}
-                      disabled={isLoading}
+                      disabled={isLoading || !canControl}
                     >
                       <Play className="h-3 w-3" />
                     </Button>
@@ -99,7 +101,7 @@ export function BulkControls({ onBulkAction, isLoading }: BulkControlsProps) {
                       size="sm"
                       className="flex-1 h-8 text-xs hover:bg-status-stopped/10 hover:text-status-stopped hover:border-status-stopped/30 border border-transparent transition-all"
                       onClick={() => handleAction(service, 'stop')}
-                      disabled={isLoading}
+                      disabled={isLoading || !canControl}
                     >
                       <Square className="h-3 w-3" />
                     </Button>
@@ -108,7 +110,7 @@ export function BulkControls({ onBulkAction, isLoading }: BulkControlsProps) {
                       size="sm"
                       className="flex-1 h-8 text-xs hover:bg-primary/10 hover:text-primary hover:border-primary/30 border border-transparent transition-all"
                       onClick={() => handleAction(service, 'restart')}
-                      disabled={isLoading}
+                      disabled={isLoading || !canControl}
                     >
                       <RotateCcw className="h-3 w-3" />
                     </Button>
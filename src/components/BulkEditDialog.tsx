@@ -0,0 +1,349 @@
+import { useMemo, useState } from 'react';
+import { AlertCircle, AlertTriangle, CheckCircle2, Loader2, MinusCircle, RotateCcw, XCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Channel, ChannelConfig } from '@/types/channel';
+import { BulkChannelResult, BulkRestartStrategy } from '@/types/apply';
+import {
+  BULK_FIELDS,
+  BulkField,
+  BulkValue,
+  applyBulkEdits,
+  findBulkConflicts,
+  findConfigProblems,
+  getBulkField,
+  getPathValue,
+} from '@/lib/bulkEdit';
+import { ConfigSection, diffConfig, formatConfigValue, getAffectedServices } from '@/lib/configDiff';
+import { useBulkConfigUpdate } from '@/hooks/useChannels';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+
+interface BulkEditDialogProps {
+  backendId: string;
+  channels: Channel[];
+  // Every channel config on the backend, to catch clashes with channels that are not selected
+  existingConfigs: ChannelConfig[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const sectionTitles: Record<ConfigSection, { title: string; color: string }> = {
+  general: { title: 'Organisation', color: 'text-muted-foreground' },
+  rx: { title: 'SRT Input', color: 'text-rx' },
+  rec: { title: 'Recording', color: 'text-rec' },
+  rtmp: { title: 'RTMP Output', color: 'text-rtmp' },
+};
+
+const strategyLabels: Record<BulkRestartStrategy, string> = {
+  'save-only': 'Save only (apply on next restart)',
+  rolling: 'Apply one channel at a time, stop on failure',
+  parallel: 'Apply to all channels at once',
+};
+
+const resultStyles: Record<BulkChannelResult['status'], { icon: typeof CheckCircle2; className: string; label: string }> = {
+  saved: { icon: CheckCircle2, className: 'text-status-running', label: 'Saved' },
+  applied: { icon: CheckCircle2, className: 'text-status-running', label: 'Applied' },
+  'rolled-back': { icon: RotateCcw, className: 'text-status-error', label: 'Rolled back' },
+  'rollback-failed': { icon: XCircle, className: 'text-status-error', label: 'Rollback failed' },
+  failed: { icon: XCircle, className: 'text-status-error', label: 'Failed' },
+  skipped: { icon: MinusCircle, className: 'text-muted-foreground', label: 'Skipped' },
+};
+
+// Whole numbers, like the ConfigEditor inputs; an empty or unparseable field stays empty
+function parseNumber(text: string): BulkValue {
+  const value = parseInt(text, 10);
+  return Number.isNaN(value) ? '' : value;
+}
+
+// A ticked number field left empty is not set: it is kept out of the preview and blocks applying
+const isUnset = (path: string, value: BulkValue) => value === '' && getBulkField(path)?.kind === 'number';
+
+// Starting value when a field is ticked: the first channel's, or a neutral default.
+// A number field the first channel doesn't set starts empty rather than at 0.
+function initialValue(field: BulkField, channels: Channel[]): BulkValue {
+  const current = channels.length > 0 ? getPathValue(channels[0].config, field.path) : undefined;
+  if (field.kind === 'boolean') return typeof current === 'boolean' ? current : false;
+  if (field.kind === 'number') return typeof current === 'number' ? current : '';
+  if (field.kind === 'select') return current !== undefined ? String(current) : field.options?.[0]?.value ?? '';
+  return typeof current === 'string' ? current : '';
+}
+
+// Set chosen config fields on several channels at once, with a per-channel preview
+export function BulkEditDialog({ backendId, channels, existingConfigs, open, onOpenChange }: BulkEditDialogProps) {
+  const [edits, setEdits] = useState<Record<string, BulkValue>>({});
+  const [strategy, setStrategy] = useState<BulkRestartStrategy>('rolling');
+  const [comment, setComment] = useState('');
+  const [results, setResults] = useState<BulkChannelResult[] | null>(null);
+  const bulkUpdate = useBulkConfigUpdate(backendId);
+  const { toast } = useToast();
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (bulkUpdate.isPending) return;
+    if (!isOpen) {
+      setEdits({});
+      setComment('');
+      setResults(null);
+      bulkUpdate.reset();
+    }
+    onOpenChange(isOpen);
+  };
+
+  const toggleField = (field: BulkField, checked: boolean) => {
+    const next = { ...edits };
+    if (checked) next[field.path] = initialValue(field, channels);
+    else delete next[field.path];
+    setEdits(next);
+  };
+
+  const unsetFields = BULK_FIELDS.filter(field => field.path in edits && isUnset(field.path, edits[field.path]));
+  const editList = useMemo(
+    () => Object.entries(edits).filter(([path, value]) => !isUnset(path, value)).map(([path, value]) => ({ path, value })),
+    [edits],
+  );
+  const editedPaths = useMemo(() => editList.map(e => e.path), [editList]);
+
+  // What every selected channel would end up with
+  const previews = useMemo(() => {
+    const configs = channels.map(channel => applyBulkEdits(channel.config, editList));
+    const conflicts = findBulkConflicts(configs, existingConfigs);
+    return channels.map((channel, i) => {
+      const config = configs[i];
+      const changes = diffConfig(channel.config, config);
+      const problems = findConfigProblems(config, editedPaths);
+      return {
+        channel,
+        config,
+        changes,
+        services: getAffectedServices(changes),
+        errors: [...problems.errors, ...(conflicts.get(channel.id) ?? [])],
+        warnings: problems.warnings,
+      };
+    });
+  }, [channels, existingConfigs, editList, editedPaths]);
+
+  const changed = previews.filter(p => p.changes.length > 0);
+  const hasErrors = previews.some(p => p.errors.length > 0) || unsetFields.length > 0;
+
+  const handleApply = async () => {
+    try {
+      const data = await bulkUpdate.mutateAsync({
+        configs: changed.map(p => p.config),
+        strategy,
+        comment: comment.trim() || undefined,
+      });
+      setResults(data);
+      const ok = data.filter(r => r.status === 'saved' || r.status === 'applied').length;
+      toast({
+        title: ok === data.length ? 'Bulk edit complete' : 'Bulk edit partly failed',
+        description: `${ok} of ${data.length} channel${data.length === 1 ? '' : 's'} updated.`,
+        variant: ok === data.length ? undefined : 'destructive',
+      });
+    } catch (error) {
+      toast({ title: 'Bulk edit failed', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const renderControl = (field: BulkField) => {
+    const value = edits[field.path];
+    const enabled = value !== undefined;
+    const set = (next: BulkValue) => setEdits({ ...edits, [field.path]: next });
+
+    if (field.kind === 'boolean') {
+      return <Switch checked={enabled && value === true} onCheckedChange={set} disabled={!enabled} />;
+    }
+    if (field.kind === 'select') {
+      return (
+        <Select value={enabled ? String(value) : ''} onValueChange={set} disabled={!enabled}>
+          <SelectTrigger className="h-8 w-44">
+            <SelectValue placeholder="—" />
+          </SelectTrigger>
+          <SelectContent>
+            {field.options?.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+    return (
+      <Input
+        type={field.kind === 'number' ? 'number' : field.kind === 'secret' ? 'password' : 'text'}
+        value={enabled ? String(value) : ''}
+        onChange={(e) => set(field.kind === 'number' ? parseNumber(e.target.value) : e.target.value)}
+        placeholder={field.placeholder}
+        disabled={!enabled}
+        className={cn('h-8 w-44 font-mono text-xs', enabled && isUnset(field.path, value) && 'border-status-error')}
+      />
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Edit {channels.length} Channel{channels.length === 1 ? '' : 's'}</DialogTitle>
+          <DialogDescription>
+            Tick the fields to set on every selected channel. In text fields, %CHANNEL% becomes each channel's ID.
+          </DialogDescription>
+        </DialogHeader>
+
+        {results ? (
+          <div className="flex-1 overflow-y-auto rounded-md border border-border">
+            {results.map(result => {
+              const style = resultStyles[result.status];
+              const Icon = style.icon;
+              const channel = channels.find(c => c.id === result.channelId);
+              return (
+                <div key={result.channelId} className="flex items-start gap-3 border-b border-border px-3 py-2 text-sm last:border-0">
+                  <Icon className={cn('h-4 w-4 mt-0.5 shrink-0', style.className)} />
+                  <span className="font-mono text-muted-foreground">{result.channelId}</span>
+                  <span className="flex-1 min-w-0">
+                    <span className="truncate">{channel?.name}</span>
+                    {result.error && <span className="block text-xs text-status-error">{result.error}</span>}
+                  </span>
+                  {result.services.length > 0 && (
+                    <span className="text-xs text-muted-foreground">restarted {result.services.map(s => s.toUpperCase()).join(', ')}</span>
+                  )}
+                  <span className={cn('text-xs', style.className)}>{style.label}</span>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="flex-1 min-h-0 grid grid-cols-[minmax(0,1fr)_minmax(0,1fr)] gap-4">
+            <div className="overflow-y-auto pr-1 space-y-4">
+              {(Object.keys(sectionTitles) as ConfigSection[]).map(section => (
+                <div key={section} className="space-y-2">
+                  <h4 className={cn('text-xs font-semibold uppercase tracking-wider', sectionTitles[section].color)}>
+                    {sectionTitles[section].title}
+                  </h4>
+                  {BULK_FIELDS.filter(f => f.section === section).map(field => (
+                    <div key={field.path} className="flex items-center justify-between gap-2">
+                      <label className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={edits[field.path] !== undefined}
+                          onCheckedChange={(checked) => toggleField(field, checked === true)}
+                        />
+                        {field.label}
+                      </label>
+                      {renderControl(field)}
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+
+            <div className="overflow-y-auto space-y-2">
+              <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Preview</h4>
+              {editList.length === 0 ? (
+                <div className="rounded-md border border-border bg-secondary/30 p-3 text-center text-xs text-muted-foreground">
+                  No fields selected
+                </div>
+              ) : (
+                previews.map(preview => (
+                  <div key={preview.channel.id} className="rounded-md border border-border bg-secondary/30 p-2 text-xs">
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono text-muted-foreground">{preview.channel.id}</span>
+                      <span className="flex-1 truncate font-medium">{preview.channel.name}</span>
+                      {preview.changes.length === 0 ? (
+                        <span className="text-muted-foreground">no change</span>
+                      ) : (
+                        preview.services.map(s => (
+                          <Badge key={s} variant="outline" className={cn('px-1.5 py-0 text-[10px] uppercase', `text-${s}`)}>{s}</Badge>
+                        ))
+                      )}
+                    </div>
+                    {preview.changes.map(change => (
+                      <div key={change.path} className="mt-1 font-mono text-muted-foreground break-all">
+                        {change.path}: <span className="line-through">{formatConfigValue(change.path, change.before)}</span>
+                        {' → '}
+                        <span className="text-foreground">{formatConfigValue(change.path, change.after)}</span>
+                      </div>
+                    ))}
+                    {preview.errors.map(problem => (
+                      <div key={problem} className="mt-1 flex items-start gap-1 text-status-error">
+                        <AlertCircle className="h-3.5 w-3.5 shrink-0" />
+                        {problem}
+                      </div>
+                    ))}
+                    {preview.warnings.map(problem => (
+                      <div key={problem} className="mt-1 flex items-start gap-1 text-muted-foreground">
+                        <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+                        {problem}
+                      </div>
+                    ))}
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        )}
+
+        {!results && (
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="bulkStrategy" className="text-xs">Restart strategy</Label>
+              <Select value={strategy} onValueChange={(v) => setStrategy(v as BulkRestartStrategy)}>
+                <SelectTrigger id="bulkStrategy" className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(strategyLabels) as BulkRestartStrategy[]).map(s => (
+                    <SelectItem key={s} value={s}>{strategyLabels[s]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="bulkComment" className="text-xs">Change note</Label>
+              <Input
+                id="bulkComment"
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                placeholder="Why these channels changed"
+                className="h-8"
+              />
+            </div>
+          </div>
+        )}
+
+        {!results && unsetFields.length > 0 && (
+          <p className="flex items-center gap-1 text-xs text-status-error">
+            <AlertCircle className="h-3.5 w-3.5 shrink-0" />
+            Enter a value for {unsetFields.map(f => f.label).join(', ')} or untick {unsetFields.length === 1 ? 'it' : 'them'}.
+          </p>
+        )}
+
+        <DialogFooter>
+          {results ? (
+            <Button onClick={() => handleOpenChange(false)}>Done</Button>
+          ) : (
+            <>
+              <Button variant="secondary" onClick={() => handleOpenChange(false)} disabled={bulkUpdate.isPending}>
+                Cancel
+              </Button>
+              <Button onClick={handleApply} disabled={changed.length === 0 || hasErrors || bulkUpdate.isPending} className="gap-1">
+                {bulkUpdate.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+                {strategy === 'save-only' ? 'Save' : 'Apply'} to {changed.length} channel{changed.length === 1 ? '' : 's'}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
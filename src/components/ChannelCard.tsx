@@ -1,19 +1,28 @@
 import { useState } from 'react';
 import { Radio, HardDrive, Cast, ChevronRight, Copy, Check, Zap } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
 import { StatusBadge } from './StatusBadge';
 import { ServiceControl } from './ServiceControl';
 import { BitrateIndicator } from './BitrateIndicator';
+import { BitrateSparkline } from './BitrateSparkline';
 import { Channel, ServiceType } from '@/types/channel';
 import { ChannelAnalysis } from '@/types/stream';
+import { usePermissions } from '@/hooks/useAuth';
 import { cn } from '@/lib/utils';
 
 interface ChannelCardProps {
+  backendId: string;
   channel: Channel;
   analysis?: ChannelAnalysis;
+  // Host of the owning backend, shown in the aggregated view where channel IDs can repeat
+  hostLabel?: string;
   onServiceAction: (channelId: number, service: ServiceType, action: 'start' | 'stop' | 'restart') => Promise<void>;
   onOpenDetail: (channelId: number) => void;
   loadingStates: Record<string, boolean>;
+  // Multi-select for bulk editing; the checkbox is shown when onSelectedChange is set
+  selected?: boolean;
+  onSelectedChange?: (channelId: number, selected: boolean) => void;
 }
 
 const serviceIcons = {
@@ -40,8 +49,19 @@ const serviceBgColors = {
   rtmp: 'bg-rtmp/5',
 };
 
-export function ChannelCard({ channel, analysis, onServiceAction, onOpenDetail, loadingStates }: ChannelCardProps) {
+export function ChannelCard({
+  backendId,
+  channel,
+  analysis,
+  hostLabel,
+  onServiceAction,
+  onOpenDetail,
+  loadingStates,
+  selected = false,
+  onSelectedChange,
+}: ChannelCardProps) {
   const [copiedField, setCopiedField] = useState<string | null>(null);
+  const { can } = usePermissions(backendId);
 
   const copyToClipboard = (text: string, field: string) => {
     navigator.clipboard.writeText(text);
@@ -62,7 +82,8 @@ export function ChannelCard({ channel, analysis, onServiceAction, onOpenDetail,
         "bg-gradient-to-r from-card via-card to-background",
         "border border-border/60 hover:border-border",
         "hover:shadow-lg hover:shadow-primary/5",
-        anyError && "border-status-error/30"
+        anyError && "border-status-error/30",
+        selected && "border-primary/50"
       )}
     >
       {/* Left accent line */}
@@ -74,6 +95,13 @@ export function ChannelCard({ channel, analysis, onServiceAction, onOpenDetail,
       <div className="flex items-center">
         {/* Channel ID */}
         <div className="flex items-center gap-4 px-5 py-4 border-r border-border/40">
+          {onSelectedChange && (
+            <Checkbox
+              checked={selected}
+              onCheckedChange={(checked) => onSelectedChange(channel.id, checked === true)}
+              aria-label={`Select channel ${channel.id}`}
+            />
+          )}
           <div className={cn(
             "relative flex h-12 w-12 items-center justify-center rounded-lg",
             "bg-gradient-to-br from-primary/20 to-primary/5",
@@ -89,10 +117,22 @@ export function ChannelCard({ channel, analysis, onServiceAction, onOpenDetail,
           </div>
           <div className="min-w-[100px]">
             <h3 className="font-semibold tracking-tight">CH 500{channel.id}</h3>
+            {hostLabel && (
+              <p className="text-[10px] font-mono text-muted-foreground/80">@{hostLabel}</p>
+            )}
             <p className="text-xs text-muted-foreground font-mono flex items-center gap-1.5">
               <span className="inline-block h-1 w-1 rounded-full bg-primary/60" />
               {channel.ingestSummary}
             </p>
+            {channel.config.tags && channel.config.tags.length > 0 && (
+              <div className="mt-1 flex flex-wrap gap-1">
+                {channel.config.tags.map(tag => (
+                  <span key={tag} className="rounded bg-secondary px-1.5 py-px text-[10px] text-muted-foreground">
+                    {tag}
+                  </span>
+                ))}
+              </div>
+            )}
           </div>
         </div>
 
@@ -129,6 +169,7 @@ export function ChannelCard({ channel, analysis, onServiceAction, onOpenDetail,
                     onStop={() => onServiceAction(channel.id, service, 'stop')}
                     onRestart={() => onServiceAction(channel.id, service, 'restart')}
                     isLoading={isLoading}
+                    canControl={can('controlServices')}
                     compact
                   />
                 </div>
@@ -141,7 +182,8 @@ export function ChannelCard({ channel, analysis, onServiceAction, onOpenDetail,
         <div className="flex items-center gap-4 px-5 py-4 border-l border-border/40">
           <div className="text-right text-xs space-y-1.5">
             {/* Bitrate indicator */}
-            <div className="flex items-center justify-end">
+            <div className="flex items-center justify-end gap-2">
+              <BitrateSparkline backendId={backendId} channelId={channel.id} />
               <BitrateIndicator
                 bitrateMbps={analysis?.bitrate?.totalMbps || null}
                 available={analysis?.available || false}
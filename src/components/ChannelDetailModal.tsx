@@ -1,20 +1,33 @@
-import { useState, useEffect } from 'react';
-import { X, Radio, HardDrive, Cast, Clock, Hash, AlertTriangle, Activity } from 'lucide-react';
+import { X, Radio, HardDrive, Cast, Clock, Hash, AlertTriangle, Activity, RotateCcw } from 'lucide-react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
+import { Button } from '@/components/ui/button';
 import { StatusBadge } from './StatusBadge';
 import { ServiceControl } from './ServiceControl';
 import { LogViewer } from './LogViewer';
 import { ConfigEditor } from './ConfigEditor';
+import { ConfigHistory } from './ConfigHistory';
+import { ChannelEnvPreview } from './ChannelEnvPreview';
 import { BitrateIndicator } from './BitrateIndicator';
 import { PidTable } from './PidTable';
-import { Channel, ServiceType } from '@/types/channel';
-import { useStreamAnalysis } from '@/hooks/useStreamAnalysis';
-import { api } from '@/services/api';
+import { BitrateHistoryChart } from './BitrateHistoryChart';
+import { Tr101290Grid } from './Tr101290Grid';
+import { ServiceTimeline } from './ServiceTimeline';
+import { ServiceType } from '@/types/channel';
+import { usePidHistory, useResetPidHistory, useStreamAnalysis } from '@/hooks/useStreamAnalysis';
+import { useChannel } from '@/hooks/useChannels';
+import { usePermissions } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { ChannelDetailTab } from '@/lib/channelNavigation';
 import { cn } from '@/lib/utils';
 
 interface ChannelDetailModalProps {
+  backendId: string;
+  // Backend name and host, shown to tell apart channels with the same ID on different backends
+  backendLabel?: string;
   channelId: number | null;
+  // Tab to show on open
+  tab?: ChannelDetailTab;
   onClose: () => void;
   onServiceAction: (channelId: number, service: ServiceType, action: 'start' | 'stop' | 'restart') => Promise<void>;
   loadingStates: Record<string, boolean>;
@@ -26,33 +39,22 @@ const serviceConfig = {
   rtmp: { icon: Cast, label: 'RTMP', colorClass: 'text-rtmp', bgClass: 'bg-rtmp/10' },
 };
 
-export function ChannelDetailModal({ channelId, onClose, onServiceAction, loadingStates }: ChannelDetailModalProps) {
-  const [channel, setChannel] = useState<Channel | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
-  const { analysis, isLoading: analysisLoading } = useStreamAnalysis(channelId, 3000);
+export function ChannelDetailModal({ backendId, backendLabel, channelId, tab = 'status', onClose, onServiceAction, loadingStates }: ChannelDetailModalProps) {
+  const { data: channel, isLoading, error } = useChannel(backendId, channelId);
+  const { analysis } = useStreamAnalysis(backendId, channelId, 3000);
+  const { pidHistory } = usePidHistory(backendId, channelId);
+  const resetPids = useResetPidHistory(backendId, channelId ?? 0);
+  const { can } = usePermissions(backendId);
+  const { toast } = useToast();
+  // Config history is engineer-only on the backend
+  const openTab = tab === 'history' && !can('editConfig') ? 'status' : tab;
 
-  const fetchChannel = async () => {
-    if (!channelId) return;
-    setIsLoading(true);
-    const response = await api.getChannel(channelId);
-    if (response.success && response.data) {
-      setChannel(response.data);
-    }
-    setIsLoading(false);
+  const handleResetPids = (options: { counters: boolean; baseline: boolean }) => {
+    resetPids.mutate(options, {
+      onError: (err) => toast({ title: 'Reset failed', description: err.message, variant: 'destructive' }),
+    });
   };
 
-  useEffect(() => {
-    fetchChannel();
-  }, [channelId]);
-
-  useEffect(() => {
-    // Refresh channel data when loading states change
-    if (channelId) {
-      const timer = setTimeout(fetchChannel, 500);
-      return () => clearTimeout(timer);
-    }
-  }, [loadingStates]);
-
   const formatDate = (iso: string | undefined) => {
     if (!iso) return 'N/A';
     return new Date(iso).toLocaleString();
@@ -67,20 +69,33 @@ export function ChannelDetailModal({ channelId, onClose, onServiceAction, loadin
               {channelId}
             </div>
             <span>Channel 500{channelId}</span>
+            {backendLabel && (
+              <span className="text-xs font-normal font-mono text-muted-foreground bg-secondary/80 px-2 py-0.5 rounded-full border border-border/50">
+                {backendLabel}
+              </span>
+            )}
           </DialogTitle>
         </DialogHeader>
 
-        {isLoading || !channel ? (
+        {error && !channel ? (
+          <div className="flex-1 flex items-center justify-center gap-2 py-12 text-sm text-status-error">
+            <AlertTriangle className="h-4 w-4 shrink-0" />
+            <span>{error.message}</span>
+          </div>
+        ) : isLoading || !channel ? (
           <div className="flex-1 flex items-center justify-center">
             <div className="animate-spin h-8 w-8 border-2 border-primary border-t-transparent rounded-full" />
           </div>
         ) : (
-          <Tabs defaultValue="status" className="flex-1 flex flex-col overflow-hidden">
+          <Tabs key={openTab} defaultValue={openTab} className="flex-1 flex flex-col overflow-hidden">
             <TabsList className="shrink-0 w-full justify-start bg-secondary">
               <TabsTrigger value="status">Status</TabsTrigger>
               <TabsTrigger value="stream">Stream Analysis</TabsTrigger>
+              <TabsTrigger value="timeline">Timeline</TabsTrigger>
               <TabsTrigger value="logs">Logs</TabsTrigger>
               <TabsTrigger value="config">Configuration</TabsTrigger>
+              {can('editConfig') && <TabsTrigger value="history">History</TabsTrigger>}
+              <TabsTrigger value="env">Environment</TabsTrigger>
             </TabsList>
 
             <TabsContent value="status" className="flex-1 overflow-auto mt-4 space-y-4">
@@ -113,6 +128,7 @@ export function ChannelDetailModal({ channelId, onClose, onServiceAction, loadin
                         onStop={() => onServiceAction(channel.id, service, 'stop')}
                         onRestart={() => onServiceAction(channel.id, service, 'restart')}
                         isLoading={isLoading}
+                        canControl={can('controlServices')}
                       />
                     </div>
 
@@ -208,11 +224,51 @@ export function ChannelDetailModal({ channelId, onClose, onServiceAction, loadin
                 )}
               </div>
 
+              <BitrateHistoryChart backendId={backendId} channelId={channel.id} />
+
+              <Tr101290Grid backendId={backendId} channelId={channel.id} />
+
               {/* PID table */}
               <div className="rounded-lg border border-border bg-card p-4">
-                <h4 className="font-semibold mb-4">PID Analysis</h4>
+                <div className="flex items-start justify-between gap-2 mb-4">
+                  <div>
+                    <h4 className="font-semibold">PID Analysis</h4>
+                    {pidHistory && (
+                      <p className="text-xs text-muted-foreground">
+                        {pidHistory.baseline
+                          ? `Baseline of ${pidHistory.baseline.pids.length} PIDs from ${new Date(pidHistory.baseline.capturedAt).toLocaleString()}`
+                          : 'Baseline taken from the next analysis'}
+                        {' · '}errors counted since {new Date(pidHistory.countersResetAt).toLocaleString()}
+                      </p>
+                    )}
+                  </div>
+                  {pidHistory && (
+                    <div className="flex items-center gap-1 shrink-0">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 gap-1 text-xs"
+                        disabled={resetPids.isPending}
+                        onClick={() => handleResetPids({ counters: true, baseline: false })}
+                      >
+                        <RotateCcw className="h-3.5 w-3.5" />
+                        Reset counters
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 text-xs"
+                        disabled={resetPids.isPending}
+                        onClick={() => handleResetPids({ counters: false, baseline: true })}
+                        title="Expect exactly the PIDs currently in the stream"
+                      >
+                        New baseline
+                      </Button>
+                    </div>
+                  )}
+                </div>
                 {analysis?.available && analysis.pids ? (
-                  <PidTable pids={analysis.pids} />
+                  <PidTable pids={analysis.pids} history={pidHistory} />
                 ) : (
                   <div className="text-center py-8 text-muted-foreground">
                     <AlertTriangle className="h-8 w-8 mx-auto mb-2 opacity-50" />
@@ -246,12 +302,30 @@ export function ChannelDetailModal({ channelId, onClose, onServiceAction, loadin
               )}
             </TabsContent>
 
+            <TabsContent value="timeline" className="flex-1 overflow-auto mt-4">
+              <ServiceTimeline
+                backendId={backendId}
+                channelId={channel.id}
+                statuses={{ rx: channel.rx.status, rec: channel.rec.status, rtmp: channel.rtmp.status }}
+              />
+            </TabsContent>
+
             <TabsContent value="logs" className="flex-1 overflow-hidden mt-4">
-              <LogViewer channelId={channel.id} />
+              <LogViewer backendId={backendId} channelId={channel.id} />
             </TabsContent>
 
             <TabsContent value="config" className="flex-1 overflow-auto mt-4">
-              <ConfigEditor channelId={channel.id} onApply={() => fetchChannel()} />
+              <ConfigEditor backendId={backendId} channelId={channel.id} />
+            </TabsContent>
+
+            {can('editConfig') && (
+              <TabsContent value="history" className="flex-1 overflow-auto mt-4">
+                <ConfigHistory backendId={backendId} channelId={channel.id} />
+              </TabsContent>
+            )}
+
+            <TabsContent value="env" className="flex-1 overflow-auto mt-4">
+              <ChannelEnvPreview backendId={backendId} channelId={channel.id} />
             </TabsContent>
           </Tabs>
         )}
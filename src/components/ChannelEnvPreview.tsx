@@ -0,0 +1,57 @@
+import { AlertTriangle, CheckCircle2, FileText } from 'lucide-react';
+import { useChannelEnv } from '@/hooks/useChannels';
+
+interface ChannelEnvPreviewProps {
+  backendId: string;
+  channelId: number;
+}
+
+// Read-only view of the env file the channel's start scripts source
+export function ChannelEnvPreview({ backendId, channelId }: ChannelEnvPreviewProps) {
+  const { data: env, isLoading, error } = useChannelEnv(backendId, channelId);
+
+  if (error) {
+    return (
+      <div className="rounded-lg border border-status-error/50 bg-status-error/10 p-3 text-sm text-status-error">
+        {error.message}
+      </div>
+    );
+  }
+
+  if (isLoading || !env) {
+    return <div className="animate-pulse bg-secondary rounded h-64" />;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1.5 font-mono truncate">
+          <FileText className="h-3.5 w-3.5 shrink-0" />
+          {env.path}
+        </span>
+        {env.modifiedAt && <span className="shrink-0">Written {new Date(env.modifiedAt).toLocaleString()}</span>}
+      </div>
+
+      {env.inSync ? (
+        <div className="flex items-center gap-2 text-xs text-status-running">
+          <CheckCircle2 className="h-4 w-4 shrink-0" />
+          Matches the saved config. Services pick it up when they next start or restart.
+        </div>
+      ) : (
+        <div className="flex items-start gap-2 rounded-md border border-status-error/50 bg-status-error/10 p-2 text-xs text-status-error">
+          <AlertTriangle className="h-4 w-4 shrink-0" />
+          {env.exists
+            ? 'The file on disk differs from the saved config (edited by hand or written by an older controller). Saving the config rewrites it.'
+            : 'The file has not been written yet. Saving the config creates it.'}
+        </div>
+      )}
+
+      <pre className="max-h-96 overflow-auto rounded-md border border-border bg-secondary/30 p-3 font-mono text-xs leading-relaxed">
+        {env.content}
+      </pre>
+      <p className="text-xs text-muted-foreground">
+        Generated from the saved config; secrets are masked. Edit the configuration to change it.
+      </p>
+    </div>
+  );
+}
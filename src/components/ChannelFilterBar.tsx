@@ -0,0 +1,120 @@
+import { ChevronDown, FolderTree, Search, Tag, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Toggle } from '@/components/ui/toggle';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { ChannelFilters, EMPTY_FILTERS, STATUS_FILTERS, StatusFilter, hasActiveFilters } from '@/lib/channelFilters';
+
+// Focused by the '/' shortcut
+export const CHANNEL_SEARCH_ID = 'channel-search';
+
+interface ChannelFilterBarProps {
+  filters: ChannelFilters;
+  onChange: (filters: ChannelFilters) => void;
+  // Tags and groups in use across the visible backends
+  tags: string[];
+  groups: string[];
+  matchCount: number;
+  totalCount: number;
+}
+
+const toggle = <T,>(list: T[], value: T, on: boolean) => (on ? [...list, value] : list.filter(v => v !== value));
+
+// Search, status, tag and group filters for the channel list
+export function ChannelFilterBar({ filters, onChange, tags, groups, matchCount, totalCount }: ChannelFilterBarProps) {
+  const active = hasActiveFilters(filters);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <div className="relative w-64">
+        <Search className="absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          id={CHANNEL_SEARCH_ID}
+          value={filters.query}
+          onChange={(e) => onChange({ ...filters, query: e.target.value })}
+          placeholder="Search name, ID, ingest, output"
+          className="h-8 pl-8 text-sm"
+          aria-label="Search channels"
+        />
+      </div>
+
+      {STATUS_FILTERS.map(({ value, label }) => (
+        <Toggle
+          key={value}
+          size="sm"
+          variant="outline"
+          className="h-8 text-xs"
+          pressed={filters.statuses.includes(value)}
+          onPressedChange={(on) => onChange({ ...filters, statuses: toggle<StatusFilter>(filters.statuses, value, on) })}
+        >
+          {label}
+        </Toggle>
+      ))}
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="h-8 gap-1 text-xs" disabled={tags.length === 0}>
+            <Tag className="h-3.5 w-3.5" />
+            Tags{filters.tags.length > 0 && ` (${filters.tags.length})`}
+            <ChevronDown className="h-3.5 w-3.5" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          <DropdownMenuLabel className="text-xs">Channels with all of</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {tags.map(tag => (
+            <DropdownMenuCheckboxItem
+              key={tag}
+              checked={filters.tags.includes(tag)}
+              onCheckedChange={(on) => onChange({ ...filters, tags: toggle(filters.tags, tag, on) })}
+              onSelect={(e) => e.preventDefault()}
+            >
+              {tag}
+            </DropdownMenuCheckboxItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="h-8 gap-1 text-xs" disabled={groups.length === 0}>
+            <FolderTree className="h-3.5 w-3.5" />
+            Groups{filters.groups.length > 0 && ` (${filters.groups.length})`}
+            <ChevronDown className="h-3.5 w-3.5" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          {[...groups, ''].map(group => (
+            <DropdownMenuCheckboxItem
+              key={group || '(ungrouped)'}
+              checked={filters.groups.includes(group)}
+              onCheckedChange={(on) => onChange({ ...filters, groups: toggle(filters.groups, group, on) })}
+              onSelect={(e) => e.preventDefault()}
+            >
+              {group || <span className="italic text-muted-foreground">Ungrouped</span>}
+            </DropdownMenuCheckboxItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {active && (
+        <>
+          <span className="text-xs text-muted-foreground">
+            {matchCount} of {totalCount} channels
+          </span>
+          <Button variant="ghost" size="sm" className="h-8 gap-1 text-xs" onClick={() => onChange(EMPTY_FILTERS)}>
+            <X className="h-3.5 w-3.5" />
+            Clear
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
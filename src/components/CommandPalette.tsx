@@ -0,0 +1,491 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Activity,
+  AlertTriangle,
+  Cast,
+  FileCode,
+  FileText,
+  GanttChart,
+  HardDrive,
+  History,
+  Info,
+  Keyboard,
+  Play,
+  Power,
+  PowerOff,
+  Radio,
+  RefreshCw,
+  RotateCcw,
+  ScrollText,
+  Search,
+  Server,
+  Settings as SettingsIcon,
+  SlidersHorizontal,
+  Square,
+  Zap,
+} from 'lucide-react';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut,
+} from '@/components/ui/command';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { StatusBadge } from '@/components/StatusBadge';
+import { Channel, ServiceType } from '@/types/channel';
+import { BackendEntry } from '@/services/backendConfig';
+import { iloApi } from '@/services/iloApi';
+import { ServiceAction, useBulkServiceAction, useChannelsAcrossBackends, useServiceAction } from '@/hooks/useChannels';
+import { IloPowerAction, iloConfirmations, useIloPowerAction, useIloStatus } from '@/hooks/useIlo';
+import { usePermissions, usePermissionsAcrossBackends } from '@/hooks/useAuth';
+import { DASHBOARD_SHORTCUTS } from '@/hooks/useKeyboardShortcuts';
+import { useToast } from '@/hooks/use-toast';
+import { planChannelAction } from '@/lib/channelActions';
+import { ChannelDetailTab, ChannelDetailTarget, ChannelRef } from '@/lib/channelNavigation';
+
+export type CommandPalettePage = 'root' | 'shortcuts';
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Page shown when the palette opens ('?' opens the shortcut list)
+  startPage: CommandPalettePage;
+  backends: BackendEntry[];
+  // Label channels with their backend when several are on screen
+  isAggregated: boolean;
+  onOpenDetail: (target: ChannelDetailTarget) => void;
+  onRefresh: () => void;
+  onFocusSearch: () => void;
+}
+
+interface PendingConfirm {
+  title: string;
+  description: string;
+  actionLabel: string;
+  run: () => void;
+}
+
+const serviceConfig = {
+  rx: { icon: Radio, label: 'RX', colorClass: 'text-rx' },
+  rec: { icon: HardDrive, label: 'REC', colorClass: 'text-rec' },
+  rtmp: { icon: Cast, label: 'RTMP', colorClass: 'text-rtmp' },
+};
+
+const services: ServiceType[] = ['rx', 'rec', 'rtmp'];
+
+const detailTabs: { tab: ChannelDetailTab; label: string; icon: typeof Activity }[] = [
+  { tab: 'status', label: 'Status', icon: Info },
+  { tab: 'stream', label: 'Stream Analysis', icon: Activity },
+  { tab: 'timeline', label: 'Timeline', icon: GanttChart },
+  { tab: 'logs', label: 'Logs', icon: FileText },
+  { tab: 'config', label: 'Configuration', icon: SlidersHorizontal },
+  { tab: 'history', label: 'History', icon: History },
+  { tab: 'env', label: 'Environment', icon: FileCode },
+];
+
+const actionConfig = {
+  start: { icon: Play, label: 'Start', past: 'started' },
+  stop: { icon: Square, label: 'Stop', past: 'stopped' },
+  restart: { icon: RotateCcw, label: 'Restart', past: 'restarted' },
+};
+
+const iloActions: { action: IloPowerAction; label: string; icon: typeof Power; when: 'on' | 'off' }[] = [
+  { action: 'powerOn', label: 'Power on', icon: Power, when: 'off' },
+  { action: 'powerOff', label: 'Graceful shutdown', icon: PowerOff, when: 'on' },
+  { action: 'reset', label: 'Reset server', icon: RotateCcw, when: 'on' },
+  { action: 'powerCycle', label: 'Power cycle', icon: Zap, when: 'on' },
+  { action: 'forcePowerOff', label: 'Force power off', icon: PowerOff, when: 'on' },
+];
+
+// Ctrl+K: jump to channels and run service, bulk and iLO actions from the keyboard.
+// Stops, restarts and iLO power actions go through the same confirmation as the buttons,
+// and are only listed for users whose role may run them.
+export function CommandPalette({
+  open,
+  onOpenChange,
+  startPage,
+  backends,
+  isAggregated,
+  onOpenDetail,
+  onRefresh,
+  onFocusSearch,
+}: CommandPaletteProps) {
+  const [page, setPage] = useState<CommandPalettePage>(startPage);
+  // Channel whose actions are listed; null on the top-level pages
+  const [channelRef, setChannelRef] = useState<ChannelRef | null>(null);
+  const [search, setSearch] = useState('');
+  const [pending, setPending] = useState<PendingConfirm | null>(null);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const backendIds = useMemo(() => backends.map(b => b.id), [backends]);
+  const channelQueries = useChannelsAcrossBackends(backendIds);
+  const serviceAction = useServiceAction();
+  const bulkAction = useBulkServiceAction();
+  const can = usePermissionsAcrossBackends(backendIds);
+  // The iLO is reached through the backend chosen in the iLO panel
+  const iloBackendId = iloApi.getBackendId();
+  const canManagePower = usePermissions(iloBackendId).can('managePower');
+
+  const hasIloCredentials = open && iloApi.getCredentials() !== null;
+  const iloStatus = useIloStatus(iloBackendId, hasIloCredentials).data;
+  const iloAction = useIloPowerAction(iloBackendId);
+
+  useEffect(() => {
+    if (!open) return;
+    setPage(startPage);
+    setChannelRef(null);
+    setSearch('');
+  }, [open, startPage]);
+
+  const backendChannels = backends.map((backend, i) => ({ backend, channels: channelQueries[i]?.data ?? [] }));
+  const activeBackend = channelRef ? backends.find(b => b.id === channelRef.backendId) : undefined;
+  const activeChannel = channelRef
+    ? backendChannels.find(b => b.backend.id === channelRef.backendId)?.channels.find(c => c.id === channelRef.channelId)
+    : undefined;
+
+  const describeChannel = (backend: BackendEntry, channelId: number) =>
+    isAggregated ? `channel ${channelId} on ${backend.name}` : `channel ${channelId}`;
+
+  // Close the palette, then run the command or ask first
+  const select = (run: () => void, confirm?: Omit<PendingConfirm, 'run'>) => {
+    onOpenChange(false);
+    if (confirm) setPending({ ...confirm, run });
+    else run();
+  };
+
+  const runServiceAction = async (backend: BackendEntry, channelId: number, service: ServiceType, action: ServiceAction) => {
+    const target = `${service.toUpperCase()} on ${describeChannel(backend, channelId)}`;
+    try {
+      await serviceAction.mutateAsync({ backendId: backend.id, channelId, service, action });
+      toast({ title: `${service.toUpperCase()} ${actionConfig[action].past}`, description: `${target} has been ${actionConfig[action].past}.` });
+    } catch (error) {
+      toast({ title: 'Action failed', description: `Failed to ${action} ${target}: ${(error as Error).message}`, variant: 'destructive' });
+    }
+  };
+
+  // Service by service; stops at the first failure so outputs are not started without RX
+  const runChannelAction = async (backend: BackendEntry, channel: Channel, action: ServiceAction) => {
+    const name = describeChannel(backend, channel.id);
+    for (const step of planChannelAction(channel, action)) {
+      try {
+        await serviceAction.mutateAsync({ backendId: backend.id, channelId: channel.id, ...step });
+      } catch (error) {
+        toast({
+          title: 'Action failed',
+          description: `Failed to ${step.action} ${step.service.toUpperCase()} on ${name}: ${(error as Error).message}`,
+          variant: 'destructive',
+        });
+        return;
+      }
+    }
+    toast({ title: `Channel ${actionConfig[action].past}`, description: `${name} has been ${actionConfig[action].past}.` });
+  };
+
+  const runBulkAction = async (backend: BackendEntry, channels: Channel[], service: ServiceType, action: ServiceAction) => {
+    const scope = isAggregated ? ` on ${backend.name}` : '';
+    try {
+      await bulkAction.mutateAsync({ backendId: backend.id, service, action, channelIds: channels.map(c => c.id) });
+      toast({ title: `Bulk ${action} complete`, description: `All ${service.toUpperCase()} services${scope} have been ${actionConfig[action].past}.` });
+    } catch (error) {
+      toast({
+        title: 'Bulk action failed',
+        description: `Failed to ${action} all ${service.toUpperCase()} services${scope}: ${(error as Error).message}`,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const runIloAction = async (action: IloPowerAction) => {
+    try {
+      await iloAction.mutateAsync(action);
+      toast({
+        title: 'iLO Command Sent',
+        description: `Server ${action.replace(/([A-Z])/g, ' $1').toLowerCase()} command executed successfully.`,
+      });
+    } catch (error) {
+      toast({ title: 'iLO Error', description: `Failed to execute command: ${(error as Error).message}`, variant: 'destructive' });
+    }
+  };
+
+  const confirmFor = (action: ServiceAction, title: string, description: string): Omit<PendingConfirm, 'run'> | undefined =>
+    action === 'start' ? undefined : { title, description, actionLabel: actionConfig[action].label };
+
+  const openChannel = (ref: ChannelRef) => {
+    setChannelRef(ref);
+    setSearch('');
+  };
+
+  const goBack = () => {
+    setChannelRef(null);
+    setPage('root');
+    setSearch('');
+  };
+
+  const renderRoot = () => (
+    <>
+      {backendChannels.map(({ backend, channels }) => channels.length > 0 && (
+        <CommandGroup key={backend.id} heading={isAggregated ? `Channels · ${backend.name}` : 'Channels'}>
+          {channels.map(channel => (
+            <CommandItem
+              key={channel.id}
+              value={`channel ${backend.id} ${channel.id}`}
+              keywords={[String(channel.id), channel.name, backend.name, channel.config.group ?? '', ...(channel.config.tags ?? [])]}
+              onSelect={() => openChannel({ backendId: backend.id, channelId: channel.id })}
+            >
+              <span className="font-mono text-primary w-12 shrink-0">{channel.id}</span>
+              <span className="truncate">{channel.name}</span>
+              {services.some(s => channel[s].status === 'error') && (
+                <AlertTriangle className="!h-4 !w-4 text-status-error" />
+              )}
+              {isAggregated && <CommandShortcut>{backend.name}</CommandShortcut>}
+            </CommandItem>
+          ))}
+        </CommandGroup>
+      ))}
+
+      <CommandSeparator />
+
+      {backendChannels.map(({ backend, channels }) => channels.length > 0 && can(backend.id, 'controlServices') && (
+        <CommandGroup key={backend.id} heading={isAggregated ? `Bulk actions · ${backend.name}` : 'Bulk actions'}>
+          {services.flatMap(service => (['start', 'stop', 'restart'] as ServiceAction[]).map(action => {
+            const ActionIcon = actionConfig[action].icon;
+            const label = `${actionConfig[action].label} all ${serviceConfig[service].label}`;
+            return (
+              <CommandItem
+                key={`${service}-${action}`}
+                value={`bulk ${backend.id} ${service} ${action}`}
+                keywords={[label, backend.name]}
+                onSelect={() => select(
+                  () => runBulkAction(backend, channels, service, action),
+                  confirmFor(
+                    action,
+                    `Confirm Bulk ${actionConfig[action].label}`,
+                    `You are about to ${action} all ${service.toUpperCase()} services across ${channels.length} channel${channels.length === 1 ? '' : 's'}${isAggregated ? ` on ${backend.name}` : ''}. This action may interrupt active streams.`
+                  )
+                )}
+              >
+                <ActionIcon className={serviceConfig[service].colorClass} />
+                {label}
+              </CommandItem>
+            );
+          }))}
+        </CommandGroup>
+      ))}
+
+      {iloStatus && (
+        <CommandGroup heading="iLO">
+          {iloActions.filter(a => canManagePower && a.when === iloStatus.powerState).map(({ action, label, icon: Icon }) => (
+            <CommandItem
+              key={action}
+              value={`ilo ${action}`}
+              keywords={[label, 'ilo', 'server', 'power']}
+              onSelect={() => select(
+                () => runIloAction(action),
+                action === 'powerOn' ? undefined : { ...iloConfirmations[action], actionLabel: 'Confirm' }
+              )}
+            >
+              <Icon className="text-amber-500" />
+              {label}
+            </CommandItem>
+          ))}
+          <CommandItem value="ilo console" keywords={['Open iLO console']} onSelect={() => select(() => window.open(`https://${iloStatus.hostname}`, '_blank'))}>
+            <Server className="text-amber-500" />
+            Open iLO console
+          </CommandItem>
+        </CommandGroup>
+      )}
+
+      <CommandGroup heading="Dashboard">
+        <CommandItem value="refresh" keywords={['Refresh channels']} onSelect={() => select(onRefresh)}>
+          <RefreshCw />
+          Refresh
+          <CommandShortcut>R</CommandShortcut>
+        </CommandItem>
+        <CommandItem value="search" keywords={['Search channels', 'filter']} onSelect={() => select(onFocusSearch)}>
+          <Search />
+          Search channels
+          <CommandShortcut>/</CommandShortcut>
+        </CommandItem>
+        <CommandItem value="settings" keywords={['Open settings']} onSelect={() => select(() => navigate('/settings'))}>
+          <SettingsIcon />
+          Settings
+        </CommandItem>
+        {backendIds.some(id => can(id, 'editConfig')) && (
+          <CommandItem value="audit" keywords={['Audit log', 'history', 'who changed']} onSelect={() => select(() => navigate('/audit'))}>
+            <ScrollText />
+            Audit log
+          </CommandItem>
+        )}
+        <CommandItem value="shortcuts" keywords={['Keyboard shortcuts', 'help']} onSelect={() => { setPage('shortcuts'); setSearch(''); }}>
+          <Keyboard />
+          Keyboard shortcuts
+          <CommandShortcut>?</CommandShortcut>
+        </CommandItem>
+      </CommandGroup>
+    </>
+  );
+
+  const renderChannel = (backend: BackendEntry, channel: Channel) => {
+    const name = describeChannel(backend, channel.id);
+    const canControl = can(backend.id, 'controlServices');
+    // Config history holds the channel's secrets, so the backend only serves it to engineers
+    const tabs = can(backend.id, 'editConfig') ? detailTabs : detailTabs.filter(({ tab }) => tab !== 'history');
+    return (
+      <>
+        <CommandGroup heading={`${channel.name} · ${channel.id}${isAggregated ? ` · ${backend.name}` : ''}`}>
+          {tabs.map(({ tab, label, icon: Icon }) => (
+            <CommandItem
+              key={tab}
+              value={`open ${tab}`}
+              keywords={[`Open ${label}`]}
+              onSelect={() => select(() => onOpenDetail({ backendId: backend.id, channelId: channel.id, tab }))}
+            >
+              <Icon />
+              Open {label}
+            </CommandItem>
+          ))}
+        </CommandGroup>
+
+        {canControl && (
+          <CommandGroup heading="Channel">
+            {(['start', 'stop', 'restart'] as ServiceAction[]).map(action => {
+              const ActionIcon = actionConfig[action].icon;
+              return (
+                <CommandItem
+                  key={action}
+                  value={`channel ${action}`}
+                  keywords={[`${actionConfig[action].label} channel`]}
+                  onSelect={() => select(
+                    () => runChannelAction(backend, channel, action),
+                    confirmFor(
+                      action,
+                      `${actionConfig[action].label} Channel`,
+                      `You are about to ${action} every service on ${name}. This interrupts its stream${action === 'restart' ? ' briefly' : ''}.`
+                    )
+                  )}
+                >
+                  <ActionIcon />
+                  {actionConfig[action].label} channel
+                </CommandItem>
+              );
+            })}
+          </CommandGroup>
+        )}
+
+        {canControl && services.map(service => {
+          const { icon: Icon, label, colorClass } = serviceConfig[service];
+          const status = channel[service].status;
+          // Like the service buttons: a unit that is still starting can already be stopped
+          const isRunning = status === 'running' || status === 'starting';
+          const actions: ServiceAction[] = [isRunning ? 'stop' : 'start', 'restart'];
+          return (
+            <CommandGroup key={service} heading={label}>
+              {actions.map(action => (
+                <CommandItem
+                  key={action}
+                  value={`${service} ${action}`}
+                  keywords={[`${actionConfig[action].label} ${label}`]}
+                  onSelect={() => select(
+                    () => runServiceAction(backend, channel.id, service, action),
+                    confirmFor(
+                      action,
+                      `${actionConfig[action].label} ${label}`,
+                      `You are about to ${action} ${label} on ${name}. This may interrupt the stream.`
+                    )
+                  )}
+                >
+                  <Icon className={colorClass} />
+                  {actionConfig[action].label} {label}
+                  <span className="ml-auto"><StatusBadge status={status} /></span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          );
+        })}
+      </>
+    );
+  };
+
+  const renderShortcuts = () => (
+    <CommandGroup heading="Keyboard shortcuts">
+      {DASHBOARD_SHORTCUTS.map(({ keys, label }) => (
+        <CommandItem key={label} value={label} onSelect={() => {}}>
+          {label}
+          <CommandShortcut className="flex gap-1">
+            {keys.map(key => (
+              <kbd key={key} className="rounded border border-border bg-secondary px-1.5 font-mono text-[10px]">{key}</kbd>
+            ))}
+          </CommandShortcut>
+        </CommandItem>
+      ))}
+    </CommandGroup>
+  );
+
+  const onSubPage = page === 'shortcuts' || channelRef !== null;
+
+  return (
+    <>
+      <CommandDialog open={open} onOpenChange={onOpenChange}>
+        <CommandInput
+          value={search}
+          onValueChange={setSearch}
+          placeholder={channelRef ? 'Open a tab or run an action…' : 'Search channels and commands…'}
+          onKeyDown={(e) => {
+            // Backspace on an empty search goes back to the top level
+            if (e.key === 'Backspace' && !search && onSubPage) {
+              e.preventDefault();
+              goBack();
+            }
+          }}
+        />
+        <CommandList>
+          <CommandEmpty>No matching channels or commands.</CommandEmpty>
+          {page === 'shortcuts'
+            ? renderShortcuts()
+            : activeBackend && activeChannel
+              ? renderChannel(activeBackend, activeChannel)
+              : renderRoot()}
+        </CommandList>
+      </CommandDialog>
+
+      <AlertDialog open={pending !== null} onOpenChange={(isOpen) => !isOpen && setPending(null)}>
+        <AlertDialogContent className="border-border bg-card">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-status-error" />
+              {pending?.title}
+            </AlertDialogTitle>
+            <AlertDialogDescription>{pending?.description}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="border-border">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                pending?.run();
+                setPending(null);
+              }}
+              className="bg-status-stopped hover:bg-status-stopped/90"
+            >
+              {pending?.actionLabel}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
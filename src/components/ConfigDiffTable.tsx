@@ -0,0 +1,49 @@
+import { ConfigChange, ConfigSection, formatConfigValue } from '@/lib/configDiff';
+import { cn } from '@/lib/utils';
+
+interface ConfigDiffTableProps {
+  changes: ConfigChange[];
+  className?: string;
+}
+
+const sectionColors: Record<ConfigSection, string> = {
+  general: 'bg-muted-foreground',
+  rx: 'bg-rx',
+  rec: 'bg-rec',
+  rtmp: 'bg-rtmp',
+};
+
+// Field-level changes between two configs, one row per changed field
+export function ConfigDiffTable({ changes, className }: ConfigDiffTableProps) {
+  if (changes.length === 0) {
+    return (
+      <div className={cn('rounded-md border border-border bg-secondary/30 p-3 text-center text-xs text-muted-foreground', className)}>
+        No differences
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn('overflow-y-auto rounded-md border border-border bg-secondary/30', className)}>
+      <table className="w-full text-xs">
+        <tbody>
+          {changes.map(change => (
+            <tr key={change.path} className="border-b border-border last:border-0">
+              <td className="px-2 py-1.5 font-mono align-top">
+                <span className="flex items-center gap-1.5">
+                  <span className={cn('h-1.5 w-1.5 shrink-0 rounded-full', sectionColors[change.section])} />
+                  {change.path}
+                </span>
+              </td>
+              <td className="px-2 py-1.5 font-mono text-muted-foreground break-all">
+                <span className="line-through">{formatConfigValue(change.path, change.before)}</span>
+                {' → '}
+                <span className="text-foreground">{formatConfigValue(change.path, change.after)}</span>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
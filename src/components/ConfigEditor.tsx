@@ -1,40 +1,50 @@
-import { useState, useEffect } from 'react';
-import { Save, RefreshCw, Check, AlertCircle } from 'lucide-react';
+import { useState, useEffect, useMemo } from 'react';
+import { Save, RefreshCw, Check, AlertCircle, Clock, Lock } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { ChannelConfig, ServiceType, AudioPair } from '@/types/channel';
-import { api } from '@/services/api';
+import { useChannelConfig, useAppliedConfig, useSaveConfig, useApplyConfig } from '@/hooks/useChannels';
+import { ApplyProgress } from '@/components/ApplyProgress';
+import { ApplyPreviewDialog } from '@/components/ApplyPreviewDialog';
+import { TagInput } from '@/components/TagInput';
+import { diffConfig, getAffectedServices } from '@/lib/configDiff';
 import { useToast } from '@/hooks/use-toast';
+import { usePermissions } from '@/hooks/useAuth';
+import { permissionHint } from '@/lib/roles';
 
 interface ConfigEditorProps {
+  backendId: string;
   channelId: number;
-  onApply: (services: ServiceType[]) => void;
+  onApply?: (services: ServiceType[]) => void;
 }
 
-export function ConfigEditor({ channelId, onApply }: ConfigEditorProps) {
+export function ConfigEditor({ backendId, channelId, onApply }: ConfigEditorProps) {
+  const { data: storedConfig, isLoading, error: loadError } = useChannelConfig(backendId, channelId);
+  // null when the backend doesn't know what the services run with; the stored config stands in then
+  const { data: appliedConfig } = useAppliedConfig(backendId, channelId);
+  const saveConfig = useSaveConfig(backendId, channelId);
+  const applyConfig = useApplyConfig(backendId, channelId);
+  const canEdit = usePermissions(backendId).can('editConfig');
   const [config, setConfig] = useState<ChannelConfig | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
-  const [isSaving, setIsSaving] = useState(false);
   const [hasChanges, setHasChanges] = useState(false);
   const [errors, setErrors] = useState<string[]>([]);
+  // Also require stream data before an apply counts as successful
+  const [verifyStream, setVerifyStream] = useState(true);
+  const [previewOpen, setPreviewOpen] = useState(false);
+  // Recorded with the config version the save or apply creates
+  const [comment, setComment] = useState('');
   const { toast } = useToast();
+  const isSaving = saveConfig.isPending || applyConfig.isPending;
 
-  const fetchConfig = async () => {
-    setIsLoading(true);
-    const response = await api.getConfig(channelId);
-    if (response.success && response.data) {
-      setConfig(response.data);
-      setHasChanges(false);
-    }
-    setIsLoading(false);
-  };
-
+  // Take the stored config as the editing baseline unless there are local edits
   useEffect(() => {
-    fetchConfig();
-  }, [channelId]);
+    if (storedConfig && !hasChanges) {
+      setConfig(storedConfig);
+    }
+  }, [storedConfig, hasChanges]);
 
   const updateRxConfig = (field: string, value: string | number | boolean | undefined) => {
     if (!config) return;
@@ -75,6 +85,13 @@ export function ConfigEditor({ channelId, onApply }: ConfigEditorProps) {
     setHasChanges(true);
   };
 
+  // Tags and group only organise the dashboard
+  const updateOrganisation = (patch: Pick<ChannelConfig, 'tags' | 'group'>) => {
+    if (!config) return;
+    setConfig({ ...config, ...patch });
+    setHasChanges(true);
+  };
+
   const validate = (): boolean => {
     const errs: string[] = [];
     if (!config) return false;
@@ -114,33 +131,70 @@ export function ConfigEditor({ channelId, onApply }: ConfigEditorProps) {
 
   const handleSave = async () => {
     if (!config || !validate()) return;
-    setIsSaving(true);
-    const response = await api.saveConfig(channelId, config);
-    if (response.success) {
-      toast({ title: 'Config saved', description: 'Configuration has been saved successfully.' });
+    try {
+      await saveConfig.mutateAsync({ config, comment: comment.trim() || undefined });
+      toast({ title: 'Config saved', description: 'Saved without restarting services. Apply it when ready.' });
       setHasChanges(false);
+      setComment('');
+    } catch (error) {
+      toast({ title: 'Save failed', description: (error as Error).message, variant: 'destructive' });
     }
-    setIsSaving(false);
   };
 
-  const handleApply = async () => {
+  // Changes relative to what is running, and the services they need restarted
+  const runningConfig = appliedConfig ?? storedConfig;
+  const pendingChanges = useMemo(
+    () => (runningConfig && config ? diffConfig(runningConfig, config) : []),
+    [runningConfig, config]
+  );
+  const servicesToRestart = useMemo(() => getAffectedServices(pendingChanges), [pendingChanges]);
+  // Saved earlier with "Save" and not applied since
+  const hasSavedUnapplied = !hasChanges && !!appliedConfig && pendingChanges.length > 0;
+
+  const handlePreview = () => {
     if (!config || !validate()) return;
+    setPreviewOpen(true);
+  };
+
+  const handleApply = async () => {
+    setPreviewOpen(false);
+    if (!config) return;
     
-    const servicesToRestart: ServiceType[] = ['rx', 'rec', 'rtmp'];
-    
-    setIsSaving(true);
-    const response = await api.applyConfig(channelId, config, servicesToRestart);
-    if (response.success) {
-      toast({
-        title: 'Config applied',
-        description: 'Configuration saved and services restarted.',
+    try {
+      const result = await applyConfig.mutateAsync({
+        config,
+        services: servicesToRestart,
+        options: { verifyStream, change: { comment: comment.trim() || undefined } },
       });
-      setHasChanges(false);
-      onApply(servicesToRestart);
+      if (result.outcome === 'applied') {
+        toast({
+          title: 'Config applied',
+          description: 'Configuration saved, services restarted and verified.',
+        });
+        setHasChanges(false);
+        setComment('');
+        onApply?.(servicesToRestart);
+      } else {
+        // Keep the edits so they can be fixed and applied again
+        toast({
+          title: result.outcome === 'rolled-back' ? 'Apply rolled back' : 'Apply and rollback failed',
+          description: result.error,
+          variant: 'destructive',
+        });
+      }
+    } catch (error) {
+      toast({ title: 'Apply failed', description: (error as Error).message, variant: 'destructive' });
     }
-    setIsSaving(false);
   };
 
+  if (loadError && !config) {
+    return (
+      <div className="rounded-lg border border-status-error/50 bg-status-error/10 p-3 text-sm text-status-error">
+        {loadError.message}
+      </div>
+    );
+  }
+
   if (isLoading || !config) {
     return <div className="animate-pulse bg-secondary rounded h-64" />;
   }
@@ -148,7 +202,15 @@ export function ConfigEditor({ channelId, onApply }: ConfigEditorProps) {
   const isCallerMode = config.rx.srt.mode === 'caller';
 
   return (
-    <div className="space-y-6">
+    // Read-only for users who may not edit configs
+    <fieldset disabled={!canEdit} className="space-y-6 min-w-0">
+      {!canEdit && (
+        <div className="flex items-center gap-2 rounded-lg border border-border bg-secondary/40 p-3 text-sm text-muted-foreground">
+          <Lock className="h-4 w-4 shrink-0" />
+          Read-only: {permissionHint('editConfig').toLowerCase()} to change this config.
+        </div>
+      )}
+
       {errors.length > 0 && (
         <div className="rounded-lg border border-status-error/50 bg-status-error/10 p-3 text-sm">
           <div className="flex items-center gap-2 text-status-error font-medium mb-2">
@@ -163,6 +225,28 @@ export function ConfigEditor({ channelId, onApply }: ConfigEditorProps) {
         </div>
       )}
 
+      {/* Dashboard organisation */}
+      <div className="grid grid-cols-[minmax(0,1fr)_minmax(0,2fr)] gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="channelGroup">Group</Label>
+          <Input
+            id="channelGroup"
+            value={config.group || ''}
+            onChange={(e) => updateOrganisation({ group: e.target.value || undefined })}
+            placeholder="e.g. Studio A"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="channelTags">Tags</Label>
+          <TagInput
+            id="channelTags"
+            value={config.tags || []}
+            onChange={(tags) => updateOrganisation({ tags: tags.length > 0 ? tags : undefined })}
+            placeholder="Add a tag and press Enter"
+          />
+        </div>
+      </div>
+
       {/* RX Config - SRT */}
       <div className="space-y-4">
         <h4 className="font-semibold text-rx flex items-center gap-2">
@@ -594,31 +678,83 @@ export function ConfigEditor({ channelId, onApply }: ConfigEditorProps) {
         )}
       </div>
 
-      {/* Actions */}
-      <div className="flex items-center justify-between pt-4 border-t border-border">
-        <div className="flex items-center gap-2">
-          {hasChanges && (
-            <span className="text-sm text-status-error flex items-center gap-1">
-              <div className="h-2 w-2 rounded-full bg-status-error animate-pulse" />
-              Unsaved changes
-            </span>
+      {hasSavedUnapplied && !applyConfig.isPending && (
+        <div className="flex items-center justify-between gap-3 rounded-lg border border-status-error/30 bg-status-error/10 p-3 text-sm">
+          <span className="flex items-center gap-2 text-status-error">
+            <Clock className="h-4 w-4 shrink-0" />
+            {servicesToRestart.length > 0
+              ? `Saved changes are not applied yet; ${servicesToRestart.map(s => s.toUpperCase()).join(', ')} still run the previous config.`
+              : 'Saved changes are not applied yet.'}
+          </span>
+          {canEdit && (
+            <Button size="sm" variant="secondary" onClick={handlePreview}>
+              Apply now
+            </Button>
           )}
         </div>
-        <div className="flex items-center gap-2">
-          <Button variant="secondary" onClick={() => validate()}>
-            <Check className="h-4 w-4 mr-1" />
-            Validate
-          </Button>
-          <Button variant="secondary" onClick={handleSave} disabled={isSaving || !hasChanges}>
-            <Save className="h-4 w-4 mr-1" />
-            Save
-          </Button>
-          <Button onClick={handleApply} disabled={isSaving || !hasChanges} className="gap-1">
-            <RefreshCw className={`h-4 w-4 ${isSaving ? 'animate-spin' : ''}`} />
-            Apply & Restart
-          </Button>
+      )}
+
+      {/* Apply progress */}
+      {(applyConfig.isPending || applyConfig.data) && (
+        <ApplyProgress
+          steps={applyConfig.data?.steps ?? applyConfig.progress?.steps ?? []}
+          outcome={applyConfig.data?.outcome ?? null}
+          error={applyConfig.data?.error}
+          onDismiss={() => applyConfig.reset()}
+        />
+      )}
+
+      {/* Actions */}
+      {canEdit && (
+        <div className="flex items-center justify-between gap-2 pt-4 border-t border-border">
+          <div className="flex items-center gap-3 min-w-0 flex-1">
+            <Input
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="Change note (optional)"
+              className="h-9 max-w-64"
+              aria-label="Change note"
+            />
+            {hasChanges && (
+              <span className="text-sm text-status-error flex items-center gap-1">
+                <div className="h-2 w-2 rounded-full bg-status-error animate-pulse" />
+                Unsaved changes
+              </span>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="flex items-center gap-2 mr-2">
+              <Switch id="verifyStream" checked={verifyStream} onCheckedChange={setVerifyStream} />
+              <Label htmlFor="verifyStream" className="text-xs text-muted-foreground">Verify stream</Label>
+            </div>
+            <Button variant="secondary" onClick={() => validate()}>
+              <Check className="h-4 w-4 mr-1" />
+              Validate
+            </Button>
+            <Button
+              variant="secondary"
+              onClick={handleSave}
+              disabled={isSaving || !hasChanges}
+              title="Save without restarting services; apply later"
+            >
+              <Save className="h-4 w-4 mr-1" />
+              Save
+            </Button>
+            <Button onClick={handlePreview} disabled={isSaving || pendingChanges.length === 0} className="gap-1">
+              <RefreshCw className={`h-4 w-4 ${isSaving ? 'animate-spin' : ''}`} />
+              Apply & Restart
+            </Button>
+          </div>
         </div>
-      </div>
-    </div>
+      )}
+
+      <ApplyPreviewDialog
+        open={previewOpen}
+        onOpenChange={setPreviewOpen}
+        changes={pendingChanges}
+        services={servicesToRestart}
+        onConfirm={handleApply}
+      />
+    </fieldset>
   );
 }
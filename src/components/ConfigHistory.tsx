@@ -0,0 +1,213 @@
+import { useEffect, useMemo, useState } from 'react';
+import { History, RotateCcw, User } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAppliedConfig, useApplyConfig, useChannelConfig, useConfigHistory } from '@/hooks/useChannels';
+import { ConfigVersion, ConfigVersionSource } from '@/types/history';
+import { diffConfig, getAffectedServices } from '@/lib/configDiff';
+import { getChangeAuthor, setChangeAuthor } from '@/services/changeAuthor';
+import { ApplyPreviewDialog } from './ApplyPreviewDialog';
+import { ApplyProgress } from './ApplyProgress';
+import { ConfigDiffTable } from './ConfigDiffTable';
+import { useToast } from '@/hooks/use-toast';
+import { usePermissions } from '@/hooks/useAuth';
+import { permissionHint } from '@/lib/roles';
+import { cn } from '@/lib/utils';
+
+interface ConfigHistoryProps {
+  backendId: string;
+  channelId: number;
+}
+
+type CompareTarget = 'previous' | 'current';
+
+const sourceLabels: Record<ConfigVersionSource, string> = {
+  baseline: 'Baseline',
+  create: 'Created',
+  update: 'Updated',
+  save: 'Saved',
+  apply: 'Applied',
+};
+
+// Saved config versions with a field-level diff and revert through the normal apply path
+export function ConfigHistory({ backendId, channelId }: ConfigHistoryProps) {
+  const { data: versions, isLoading, error } = useConfigHistory(backendId, channelId);
+  const { data: storedConfig } = useChannelConfig(backendId, channelId);
+  const { data: appliedConfig } = useAppliedConfig(backendId, channelId);
+  const applyConfig = useApplyConfig(backendId, channelId);
+  const canEdit = usePermissions(backendId).can('editConfig');
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [compareTo, setCompareTo] = useState<CompareTarget>('previous');
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [author, setAuthor] = useState(getChangeAuthor);
+  const { toast } = useToast();
+
+  // Select the newest version until the user picks one
+  useEffect(() => {
+    if (selectedVersion === null && versions?.length) setSelectedVersion(versions[0].version);
+  }, [versions, selectedVersion]);
+
+  const selectedIndex = versions?.findIndex(v => v.version === selectedVersion) ?? -1;
+  const selected: ConfigVersion | undefined = versions?.[selectedIndex];
+  // Newest first, so the version before the selected one is the next entry
+  const previous: ConfigVersion | undefined = versions?.[selectedIndex + 1];
+
+  const changes = useMemo(() => {
+    if (!selected) return [];
+    if (compareTo === 'current') return storedConfig ? diffConfig(selected.config, storedConfig) : [];
+    return previous ? diffConfig(previous.config, selected.config) : [];
+  }, [selected, previous, compareTo, storedConfig]);
+
+  // Reverting applies the selected version over what is running now
+  const runningConfig = appliedConfig ?? storedConfig;
+  const revertChanges = useMemo(
+    () => (selected && runningConfig ? diffConfig(runningConfig, selected.config) : []),
+    [selected, runningConfig]
+  );
+  const revertServices = useMemo(() => getAffectedServices(revertChanges), [revertChanges]);
+  const isCurrent = !!selected && !!storedConfig && diffConfig(storedConfig, selected.config).length === 0;
+
+  const handleRevert = async () => {
+    setConfirmOpen(false);
+    if (!selected) return;
+    try {
+      const result = await applyConfig.mutateAsync({
+        config: selected.config,
+        services: revertServices,
+        options: { change: { comment: `Revert to v${selected.version}` } },
+      });
+      if (result.outcome === 'applied') {
+        toast({ title: 'Config reverted', description: `Version ${selected.version} is applied.` });
+        setSelectedVersion(null);
+      } else {
+        toast({
+          title: result.outcome === 'rolled-back' ? 'Revert rolled back' : 'Revert and rollback failed',
+          description: result.error,
+          variant: 'destructive',
+        });
+      }
+    } catch (err) {
+      toast({ title: 'Revert failed', description: (err as Error).message, variant: 'destructive' });
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="rounded-lg border border-status-error/50 bg-status-error/10 p-3 text-sm text-status-error">
+        {error.message}
+      </div>
+    );
+  }
+
+  if (isLoading || !versions) {
+    return <div className="animate-pulse bg-secondary rounded h-64" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <User className="h-4 w-4 text-muted-foreground" />
+        <Label htmlFor="changeAuthor" className="text-xs text-muted-foreground whitespace-nowrap">Record changes as</Label>
+        <Input
+          id="changeAuthor"
+          value={author}
+          onChange={(e) => setAuthor(e.target.value)}
+          onBlur={() => setChangeAuthor(author)}
+          placeholder="Your name"
+          className="h-8 max-w-48"
+        />
+      </div>
+
+      {versions.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          <History className="h-8 w-8 mx-auto mb-2 opacity-50" />
+          <p>No saved versions yet</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-[minmax(0,2fr)_minmax(0,3fr)] gap-4">
+          <ul className="max-h-96 overflow-y-auto space-y-1 pr-1">
+            {versions.map((version, index) => (
+              <li key={version.version}>
+                <button
+                  type="button"
+                  onClick={() => setSelectedVersion(version.version)}
+                  className={cn(
+                    'w-full rounded-md border px-3 py-2 text-left text-sm transition-colors',
+                    version.version === selectedVersion
+                      ? 'border-primary/50 bg-primary/10'
+                      : 'border-border hover:bg-secondary/50'
+                  )}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-mono font-medium">v{version.version}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {sourceLabels[version.source]}
+                      {index === 0 && ' · latest'}
+                    </span>
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {new Date(version.timestamp).toLocaleString()} · {version.author}
+                  </div>
+                  {version.comment && <div className="text-xs truncate">{version.comment}</div>}
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="space-y-3 min-w-0">
+            <div className="flex items-center justify-between gap-2">
+              <Select value={compareTo} onValueChange={(v) => setCompareTo(v as CompareTarget)}>
+                <SelectTrigger className="h-8 w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="previous">Changes from previous version</SelectItem>
+                  <SelectItem value="current">Differences to current config</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button
+                size="sm"
+                variant="secondary"
+                className="gap-1"
+                onClick={() => setConfirmOpen(true)}
+                disabled={!selected || isCurrent || applyConfig.isPending || !canEdit}
+                title={!canEdit ? permissionHint('editConfig') : isCurrent ? 'This version is the current config' : undefined}
+              >
+                <RotateCcw className="h-3.5 w-3.5" />
+                Revert to v{selected?.version}
+              </Button>
+            </div>
+
+            {compareTo === 'previous' && !previous ? (
+              <div className="rounded-md border border-border bg-secondary/30 p-3 text-center text-xs text-muted-foreground">
+                First recorded version
+              </div>
+            ) : (
+              <ConfigDiffTable changes={changes} className="max-h-80" />
+            )}
+
+            {(applyConfig.isPending || applyConfig.data) && (
+              <ApplyProgress
+                steps={applyConfig.data?.steps ?? applyConfig.progress?.steps ?? []}
+                outcome={applyConfig.data?.outcome ?? null}
+                error={applyConfig.data?.error}
+                onDismiss={() => applyConfig.reset()}
+              />
+            )}
+          </div>
+        </div>
+      )}
+
+      <ApplyPreviewDialog
+        open={confirmOpen}
+        onOpenChange={setConfirmOpen}
+        title={`Revert to v${selected?.version}`}
+        changes={revertChanges}
+        services={revertServices}
+        onConfirm={handleRevert}
+      />
+    </div>
+  );
+}
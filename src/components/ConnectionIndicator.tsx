@@ -1,4 +1,4 @@
-import { Wifi, WifiOff, Loader2 } from 'lucide-react';
+import { Wifi, WifiOff, Loader2, ShieldAlert } from 'lucide-react';
 import { useConnectionStatus } from '@/hooks/useConnectionStatus';
 import { cn } from '@/lib/utils';
 import {
@@ -8,8 +8,14 @@ import {
   TooltipTrigger,
 } from '@/components/ui/tooltip';
 
-export function ConnectionIndicator() {
-  const { status, message, url } = useConnectionStatus(10000);
+interface ConnectionIndicatorProps {
+  backendId: string;
+  // Backend name, shown when several indicators sit side by side
+  name?: string;
+}
+
+export function ConnectionIndicator({ backendId, name }: ConnectionIndicatorProps) {
+  const { status, message, url, live } = useConnectionStatus(backendId, 10000);
 
   const statusConfig = {
     connected: {
@@ -24,6 +30,12 @@ export function ConnectionIndicator() {
       bgColor: 'bg-status-error',
       label: 'Disconnected',
     },
+    unauthorized: {
+      icon: ShieldAlert,
+      color: 'text-status-error',
+      bgColor: 'bg-status-error',
+      label: 'Unauthorized',
+    },
     checking: {
       icon: Loader2,
       color: 'text-muted-foreground',
@@ -34,6 +46,7 @@ export function ConnectionIndicator() {
 
   const config = statusConfig[status];
   const Icon = config.icon;
+  const label = status === 'connected' && live ? 'Live' : config.label;
 
   return (
     <TooltipProvider>
@@ -52,12 +65,15 @@ export function ConnectionIndicator() {
                 </div>
               )}
             </div>
-            <span className="text-xs uppercase tracking-wider">{config.label}</span>
+            <span className="text-xs uppercase tracking-wider">
+              {name && <span className="normal-case tracking-normal text-foreground/80 mr-1.5">{name}</span>}
+              {label}
+            </span>
           </div>
         </TooltipTrigger>
         <TooltipContent side="bottom" className="max-w-xs">
           <div className="space-y-1">
-            <p className="font-medium">{config.label}</p>
+            <p className="font-medium">{name ? `${name} · ${label}` : label}</p>
             <p className="text-xs text-muted-foreground font-mono break-all">{url}</p>
             <p className="text-xs text-muted-foreground">{message}</p>
           </div>
@@ -12,6 +12,7 @@ import {
 } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import {
   Select,
   SelectContent,
@@ -19,21 +20,31 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { api } from '@/services/api';
+import { ChannelConfig } from '@/types/channel';
+import { useCreateChannel } from '@/hooks/useChannels';
+import { useGlobalSettings } from '@/hooks/useSettings';
+import { defaultRecordPath, expandChannelPlaceholder } from '@/lib/channelDefaults';
+import { ImportChannelsPanel } from './ImportChannelsPanel';
 import { useToast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
 
 interface CreateChannelDialogProps {
+  backendId: string;
   existingIds: number[];
-  onCreated: () => void;
+  // Checked against imported channels for ID and port conflicts
+  existingConfigs?: ChannelConfig[];
 }
 
-export function CreateChannelDialog({ existingIds, onCreated }: CreateChannelDialogProps) {
+export function CreateChannelDialog({ backendId, existingIds, existingConfigs = [] }: CreateChannelDialogProps) {
   const [open, setOpen] = useState(false);
+  const [mode, setMode] = useState<'new' | 'import'>('new');
   const [channelId, setChannelId] = useState<number>(1);
   const [name, setName] = useState('');
   const [srtMode, setSrtMode] = useState<'caller' | 'listener'>('listener');
-  const [isCreating, setIsCreating] = useState(false);
+  // null until edited: the backend's default applies
+  const [latencyMs, setLatencyMs] = useState<number | null>(null);
+  const { data: defaults } = useGlobalSettings(backendId);
+  const createChannel = useCreateChannel(backendId);
   const { toast } = useToast();
 
   // Find next available ID
@@ -52,6 +63,8 @@ export function CreateChannelDialog({ existingIds, onCreated }: CreateChannelDia
       setChannelId(nextId);
       setName(`Channel ${nextId}`);
       setSrtMode('listener');
+      setLatencyMs(null);
+      setMode('new');
     }
   };
 
@@ -65,37 +78,35 @@ export function CreateChannelDialog({ existingIds, onCreated }: CreateChannelDia
       return;
     }
 
-    setIsCreating(true);
-
-    const response = await api.createChannel(channelId, name, {
-      rx: {
-        srt: {
-          mode: srtMode,
-          listenPort: srtMode === 'listener' ? 5000 + channelId : undefined,
-          targetHost: srtMode === 'caller' ? '' : undefined,
-          targetPort: srtMode === 'caller' ? 5000 : undefined,
-          latencyMs: 200,
+    try {
+      await createChannel.mutateAsync({
+        channelId,
+        name,
+        config: {
+          rx: {
+            srt: {
+              mode: srtMode,
+              listenPort: srtMode === 'listener' ? 5000 + channelId : undefined,
+              targetHost: srtMode === 'caller' ? '' : undefined,
+              targetPort: srtMode === 'caller' ? 5000 : undefined,
+              latencyMs: latencyMs ?? undefined,
+            },
+            multicastEnabled: false,
+          },
         },
-        multicastEnabled: false,
-      },
-    });
-
-    if (response.success) {
+      });
       toast({
         title: 'Channel Created',
         description: `${name} has been created successfully.`,
       });
       setOpen(false);
-      onCreated();
-    } else {
+    } catch (error) {
       toast({
         title: 'Failed to Create',
-        description: response.error || 'Unknown error occurred',
+        description: (error as Error).message || 'Unknown error occurred',
         variant: 'destructive',
       });
     }
-
-    setIsCreating(false);
   };
 
   return (
@@ -112,80 +123,114 @@ export function CreateChannelDialog({ existingIds, onCreated }: CreateChannelDia
           Add Channel
         </Button>
       </DialogTrigger>
-      <DialogContent className="sm:max-w-[425px]">
+      <DialogContent className={mode === 'import' ? 'sm:max-w-[520px]' : 'sm:max-w-[425px]'}>
         <DialogHeader>
-          <DialogTitle>Create New Channel</DialogTitle>
+          <DialogTitle>{mode === 'import' ? 'Import Channels' : 'Create New Channel'}</DialogTitle>
           <DialogDescription>
-            Add a new streaming channel with basic SRT configuration.
+            {mode === 'import'
+              ? 'Create channels from a bundle exported on this or another controller.'
+              : 'Add a new streaming channel with basic SRT configuration.'}
           </DialogDescription>
         </DialogHeader>
-        <div className="grid gap-4 py-4">
-          <div className="grid grid-cols-4 items-center gap-4">
-            <Label htmlFor="channelId" className="text-right">
-              Channel ID
-            </Label>
-            <Input
-              id="channelId"
-              type="number"
-              min={1}
-              value={channelId}
-              onChange={(e) => setChannelId(parseInt(e.target.value) || 1)}
-              className="col-span-3 font-mono"
-            />
-          </div>
-          <div className="grid grid-cols-4 items-center gap-4">
-            <Label htmlFor="name" className="text-right">
-              Name
-            </Label>
-            <Input
-              id="name"
-              value={name}
-              onChange={(e) => setName(e.target.value)}
-              className="col-span-3"
-              placeholder="My Channel"
-            />
-          </div>
-          <div className="grid grid-cols-4 items-center gap-4">
-            <Label htmlFor="srtMode" className="text-right">
-              SRT Mode
-            </Label>
-            <Select value={srtMode} onValueChange={(v) => setSrtMode(v as 'caller' | 'listener')}>
-              <SelectTrigger className="col-span-3">
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="listener">
-                  <div className="flex flex-col items-start">
-                    <span>Listener</span>
-                    <span className="text-xs text-muted-foreground">Accept incoming SRT connections</span>
-                  </div>
-                </SelectItem>
-                <SelectItem value="caller">
-                  <div className="flex flex-col items-start">
-                    <span>Caller</span>
-                    <span className="text-xs text-muted-foreground">Connect to remote SRT source</span>
-                  </div>
-                </SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
-          {srtMode === 'listener' && (
-            <div className="grid grid-cols-4 items-center gap-4">
-              <Label className="text-right text-muted-foreground text-xs">Listen Port</Label>
-              <span className="col-span-3 font-mono text-sm text-muted-foreground">
-                {5000 + channelId} (auto-assigned)
-              </span>
+        <Tabs value={mode} onValueChange={(v) => setMode(v as 'new' | 'import')}>
+          <TabsList className="w-full">
+            <TabsTrigger value="new" className="flex-1">New</TabsTrigger>
+            <TabsTrigger value="import" className="flex-1">Import bundle</TabsTrigger>
+          </TabsList>
+          <TabsContent value="import">
+            <ImportChannelsPanel backendId={backendId} existingConfigs={existingConfigs} onImported={() => setOpen(false)} />
+          </TabsContent>
+          <TabsContent value="new">
+            <div className="grid gap-4 py-4">
+              <div className="grid grid-cols-4 items-center gap-4">
+                <Label htmlFor="channelId" className="text-right">
+                  Channel ID
+                </Label>
+                <Input
+                  id="channelId"
+                  type="number"
+                  min={1}
+                  value={channelId}
+                  onChange={(e) => setChannelId(parseInt(e.target.value) || 1)}
+                  className="col-span-3 font-mono"
+                />
+              </div>
+              <div className="grid grid-cols-4 items-center gap-4">
+                <Label htmlFor="name" className="text-right">
+                  Name
+                </Label>
+                <Input
+                  id="name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className="col-span-3"
+                  placeholder="My Channel"
+                />
+              </div>
+              <div className="grid grid-cols-4 items-center gap-4">
+                <Label htmlFor="srtMode" className="text-right">
+                  SRT Mode
+                </Label>
+                <Select value={srtMode} onValueChange={(v) => setSrtMode(v as 'caller' | 'listener')}>
+                  <SelectTrigger className="col-span-3">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="listener">
+                      <div className="flex flex-col items-start">
+                        <span>Listener</span>
+                        <span className="text-xs text-muted-foreground">Accept incoming SRT connections</span>
+                      </div>
+                    </SelectItem>
+                    <SelectItem value="caller">
+                      <div className="flex flex-col items-start">
+                        <span>Caller</span>
+                        <span className="text-xs text-muted-foreground">Connect to remote SRT source</span>
+                      </div>
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {srtMode === 'listener' && (
+                <div className="grid grid-cols-4 items-center gap-4">
+                  <Label className="text-right text-muted-foreground text-xs">Listen Port</Label>
+                  <span className="col-span-3 font-mono text-sm text-muted-foreground">
+                    {5000 + channelId} (auto-assigned)
+                  </span>
+                </div>
+              )}
+              <div className="grid grid-cols-4 items-center gap-4">
+                <Label htmlFor="latencyMs" className="text-right">
+                  Latency (ms)
+                </Label>
+                <Input
+                  id="latencyMs"
+                  type="number"
+                  min={20}
+                  value={latencyMs ?? defaults?.rx.defaultLatencyMs ?? ''}
+                  onChange={(e) => setLatencyMs(parseInt(e.target.value) || null)}
+                  className="col-span-3 font-mono"
+                />
+              </div>
+              {defaults && (
+                <div className="grid grid-cols-4 items-center gap-4">
+                  <Label className="text-right text-muted-foreground text-xs">Recording</Label>
+                  <span className="col-span-3 font-mono text-xs text-muted-foreground break-all">
+                    {defaultRecordPath(defaults, channelId)}/{expandChannelPlaceholder(defaults.rec.defaultFilenameTemplate, channelId)}
+                  </span>
+                </div>
+              )}
             </div>
-          )}
-        </div>
-        <DialogFooter>
-          <Button variant="secondary" onClick={() => setOpen(false)}>
-            Cancel
-          </Button>
-          <Button onClick={handleCreate} disabled={isCreating}>
-            {isCreating ? 'Creating...' : 'Create Channel'}
-          </Button>
-        </DialogFooter>
+            <DialogFooter>
+              <Button variant="secondary" onClick={() => setOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleCreate} disabled={createChannel.isPending}>
+                {createChannel.isPending ? 'Creating...' : 'Create Channel'}
+              </Button>
+            </DialogFooter>
+          </TabsContent>
+        </Tabs>
       </DialogContent>
     </Dialog>
   );
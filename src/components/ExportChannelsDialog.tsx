@@ -0,0 +1,138 @@
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Channel } from '@/types/channel';
+import { BundleFormat } from '@/types/bundle';
+import { createBundle, downloadBundle } from '@/lib/channelBundle';
+import { useToast } from '@/hooks/use-toast';
+
+interface ExportChannelsDialogProps {
+  channels: Channel[];
+  // Backend the channels come from, recorded in the bundle
+  source: { name: string; host: string };
+}
+
+// Export one, several or all channels of a backend as a JSON/YAML bundle
+export function ExportChannelsDialog({ channels, source }: ExportChannelsDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [format, setFormat] = useState<BundleFormat>('json');
+  const [redactSecrets, setRedactSecrets] = useState(true);
+  const { toast } = useToast();
+
+  const handleOpen = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (isOpen) setSelected(new Set(channels.map(c => c.id)));
+  };
+
+  const toggle = (id: number, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(id);
+    else next.delete(id);
+    setSelected(next);
+  };
+
+  const allSelected = selected.size === channels.length;
+
+  const handleExport = () => {
+    const configs = channels.filter(c => selected.has(c.id)).map(c => c.config);
+    const bundle = createBundle(configs, { redactSecrets, source });
+    const scope = configs.length === 1 ? `ch${configs[0].channelId}` : `${configs.length}-channels`;
+    downloadBundle(bundle, format, `${source.name.replace(/[^\w.-]+/g, '_')}-${scope}`);
+    toast({
+      title: 'Channels exported',
+      description: `${configs.length} channel${configs.length === 1 ? '' : 's'} exported${redactSecrets ? ' without secrets' : ''}.`,
+    });
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-1" disabled={channels.length === 0}>
+          <Download className="h-4 w-4" />
+          Export
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Export Channels</DialogTitle>
+          <DialogDescription>
+            Download channel configurations as a bundle that can be imported on another controller.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="rounded-md border border-border">
+            <label className="flex items-center gap-2 border-b border-border px-3 py-2 text-sm font-medium">
+              <Checkbox
+                checked={allSelected}
+                onCheckedChange={(checked) => setSelected(checked ? new Set(channels.map(c => c.id)) : new Set())}
+              />
+              All channels
+            </label>
+            <div className="max-h-48 overflow-y-auto">
+              {channels.map(channel => (
+                <label key={channel.id} className="flex items-center gap-2 px-3 py-1.5 text-sm hover:bg-secondary/50">
+                  <Checkbox
+                    checked={selected.has(channel.id)}
+                    onCheckedChange={(checked) => toggle(channel.id, checked === true)}
+                  />
+                  <span className="font-mono text-muted-foreground">{channel.id}</span>
+                  <span className="truncate">{channel.name}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-2">
+              <Label htmlFor="bundleFormat">Format</Label>
+              <Select value={format} onValueChange={(v) => setFormat(v as BundleFormat)}>
+                <SelectTrigger id="bundleFormat" className="h-8 w-24">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="json">JSON</SelectItem>
+                  <SelectItem value="yaml">YAML</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="redactSecrets" checked={redactSecrets} onCheckedChange={setRedactSecrets} />
+              <Label htmlFor="redactSecrets" className="text-sm">Redact secrets</Label>
+            </div>
+          </div>
+          {!redactSecrets && (
+            <p className="text-xs text-status-error">
+              The bundle will contain SRT passphrases and RTMP stream keys in plain text.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="secondary" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={selected.size === 0} className="gap-1">
+            <Download className="h-4 w-4" />
+            Export {selected.size}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
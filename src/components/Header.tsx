@@ -1,18 +1,41 @@
+import { useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Server, RefreshCw, Settings as SettingsIcon } from 'lucide-react';
+import { Server, RefreshCw, Settings as SettingsIcon, BellRing, ScrollText } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { BackendSettings } from '@/components/BackendSettings';
 import { ConnectionIndicator } from '@/components/ConnectionIndicator';
+import { BackendSwitcher } from '@/components/BackendSwitcher';
+import { AlertsPanel } from '@/components/AlertsPanel';
+import { AccountMenu } from '@/components/AccountMenu';
+import { useBackends } from '@/hooks/useBackends';
+import { usePermissionsAcrossBackends } from '@/hooks/useAuth';
+import { ChannelRef } from '@/lib/channelNavigation';
 import { cn } from '@/lib/utils';
 
 interface HeaderProps {
   onRefresh: () => void;
   isRefreshing: boolean;
   lastUpdated: Date | null;
+  onOpenChannel?: (channel: ChannelRef) => void;
+  // Failure alarms still sounding, see useFailureNotifications
+  ringingAlarms?: number;
+  onAcknowledgeAlarms?: () => void;
 }
 
-export function Header({ onRefresh, isRefreshing, lastUpdated }: HeaderProps) {
+export function Header({
+  onRefresh,
+  isRefreshing,
+  lastUpdated,
+  onOpenChannel,
+  ringingAlarms = 0,
+  onAcknowledgeAlarms,
+}: HeaderProps) {
   const navigate = useNavigate();
+  const { backends, visibleBackends, isAggregated, activeId } = useBackends();
+  const backendIds = useMemo(() => backends.map(b => b.id), [backends]);
+  const can = usePermissionsAcrossBackends(backendIds);
+  // The audit log is engineer-only; the page can switch to any backend that allows it
+  const canReadAudit = backendIds.some(id => can(id, 'editConfig'));
 
   return (
     <header className="sticky top-0 z-50 border-b border-border/60 bg-background/90 backdrop-blur-xl">
@@ -47,9 +70,18 @@ export function Header({ onRefresh, isRefreshing, lastUpdated }: HeaderProps) {
         </div>
 
         <div className="flex items-center gap-6">
-          {/* Connection status */}
+          {/* Backend switcher */}
+          <BackendSwitcher />
+
+          {/* Connection status, one per backend on screen */}
           <div className="flex items-center gap-4 text-sm">
-            <ConnectionIndicator />
+            {visibleBackends.map((backend) => (
+              <ConnectionIndicator
+                key={backend.id}
+                backendId={backend.id}
+                name={isAggregated ? backend.name : undefined}
+              />
+            ))}
             
             <div className="h-4 w-px bg-border" />
             
@@ -60,6 +92,42 @@ export function Header({ onRefresh, isRefreshing, lastUpdated }: HeaderProps) {
             )}
           </div>
 
+          {/* Sounding alarm */}
+          {ringingAlarms > 0 && onAcknowledgeAlarms && (
+            <Button
+              variant="destructive"
+              size="sm"
+              onClick={onAcknowledgeAlarms}
+              className="gap-2 animate-pulse"
+            >
+              <BellRing className="h-4 w-4" />
+              <span className="text-xs uppercase tracking-wider">
+                Acknowledge ({ringingAlarms})
+              </span>
+            </Button>
+          )}
+
+          {/* Alerts */}
+          <AlertsPanel onOpenChannel={onOpenChannel} />
+
+          {/* Audit Log Link */}
+          {canReadAudit && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => navigate('/audit')}
+              className={cn(
+                "gap-2 text-muted-foreground hover:text-foreground",
+                "border border-transparent hover:border-border/50"
+              )}
+            >
+              <ScrollText className="h-4 w-4" />
+              <span className="hidden sm:inline text-xs uppercase tracking-wider">
+                Audit
+              </span>
+            </Button>
+          )}
+
           {/* Settings Page Link */}
           <Button
             variant="ghost"
@@ -76,6 +144,9 @@ export function Header({ onRefresh, isRefreshing, lastUpdated }: HeaderProps) {
             </span>
           </Button>
 
+          {/* Signed-in user of the backend on screen */}
+          {!isAggregated && <AccountMenu backendId={activeId} />}
+
           {/* Backend Settings */}
           <BackendSettings />
 
@@ -31,18 +31,27 @@ import {
   CollapsibleContent,
   CollapsibleTrigger,
 } from '@/components/ui/collapsible';
-import { IloStatus, IloCredentials } from '@/types/ilo';
+import { IloCredentials } from '@/types/ilo';
 import { IloCredentialsForm } from '@/components/IloCredentialsForm';
 import { iloApi } from '@/services/iloApi';
+import { useIloStatus, useIloPowerAction, IloPowerAction, iloConfirmations } from '@/hooks/useIlo';
 import { useToast } from '@/hooks/use-toast';
+import { useBackends } from '@/hooks/useBackends';
+import { usePermissions } from '@/hooks/useAuth';
+import { permissionHint } from '@/lib/roles';
 import { cn } from '@/lib/utils';
 
 export function IloControlPanel() {
   const [credentials, setCredentials] = useState<IloCredentials | null>(null);
   const [showConfig, setShowConfig] = useState(false);
-  const [status, setStatus] = useState<IloStatus | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [actionLoading, setActionLoading] = useState<string | null>(null);
+  // Re-read when backends change, as removing the iLO backend moves it to the first one
+  useBackends();
+  const iloBackendId = iloApi.getBackendId();
+  const statusQuery = useIloStatus(iloBackendId, credentials !== null);
+  const powerAction = useIloPowerAction(iloBackendId);
+  const status = statusQuery.data ?? null;
+  const isLoading = statusQuery.isLoading;
+  const actionLoading = powerAction.isPending ? powerAction.variables : null;
   const [confirmDialog, setConfirmDialog] = useState<{
     action: 'powerOff' | 'forcePowerOff' | 'reset' | 'powerCycle';
     title: string;
@@ -50,6 +59,8 @@ export function IloControlPanel() {
   } | null>(null);
   const [isExpanded, setIsExpanded] = useState(false);
   const { toast } = useToast();
+  const canManagePower = usePermissions(iloBackendId).can('managePower');
+  const powerHint = canManagePower ? undefined : permissionHint('managePower');
 
   // Load credentials on mount
   useEffect(() => {
@@ -57,27 +68,9 @@ export function IloControlPanel() {
     setCredentials(stored);
     if (!stored) {
       setShowConfig(true);
-      setIsLoading(false);
     }
   }, []);
 
-  const fetchStatus = async () => {
-    if (!credentials) return;
-    const response = await iloApi.getStatus();
-    if (response.success && response.data) {
-      setStatus(response.data);
-    }
-    setIsLoading(false);
-  };
-
-  useEffect(() => {
-    if (credentials) {
-      fetchStatus();
-      const interval = setInterval(fetchStatus, 10000);
-      return () => clearInterval(interval);
-    }
-  }, [credentials]);
-
   const handleSaveCredentials = (newCredentials: IloCredentials) => {
     iloApi.saveCredentials(newCredentials);
     setCredentials(newCredentials);
@@ -88,55 +81,25 @@ export function IloControlPanel() {
     });
   };
 
-  const handleAction = async (action: 'powerOn' | 'powerOff' | 'forcePowerOff' | 'reset' | 'powerCycle') => {
+  const handleAction = async (action: IloPowerAction) => {
     // Confirm destructive actions
     if (action !== 'powerOn') {
-      const configs = {
-        powerOff: { title: 'Graceful Shutdown', description: 'This will gracefully shut down the server. All services will be stopped.' },
-        forcePowerOff: { title: 'Force Power Off', description: 'This will immediately cut power to the server. Data loss may occur!' },
-        reset: { title: 'Reset Server', description: 'This will perform a warm reset of the server.' },
-        powerCycle: { title: 'Power Cycle', description: 'This will power off and then power on the server (cold boot).' },
-      };
-      setConfirmDialog({ action, ...configs[action] });
+      setConfirmDialog({ action, ...iloConfirmations[action] });
       return;
     }
 
     executeAction(action);
   };
 
-  const executeAction = async (action: 'powerOn' | 'powerOff' | 'forcePowerOff' | 'reset' | 'powerCycle') => {
-    setActionLoading(action);
+  const executeAction = async (action: IloPowerAction) => {
     setConfirmDialog(null);
 
     try {
-      let response;
-      switch (action) {
-        case 'powerOn':
-          response = await iloApi.powerOn();
-          break;
-        case 'powerOff':
-          response = await iloApi.powerOff();
-          break;
-        case 'forcePowerOff':
-          response = await iloApi.forcePowerOff();
-          break;
-        case 'reset':
-          response = await iloApi.reset();
-          break;
-        case 'powerCycle':
-          response = await iloApi.powerCycle();
-          break;
-      }
-
-      if (response.success) {
-        toast({
-          title: 'iLO Command Sent',
-          description: `Server ${action.replace(/([A-Z])/g, ' $1').toLowerCase()} command executed successfully.`,
-        });
-        await fetchStatus();
-      } else {
-        throw new Error(response.error);
-      }
+      await powerAction.mutateAsync(action);
+      toast({
+        title: 'iLO Command Sent',
+        description: `Server ${action.replace(/([A-Z])/g, ' $1').toLowerCase()} command executed successfully.`,
+      });
     } catch (error) {
       toast({
         title: 'iLO Error',
@@ -144,8 +107,6 @@ export function IloControlPanel() {
         variant: 'destructive',
       });
     }
-
-    setActionLoading(null);
   };
 
   const getHealthColor = (health: string) => {
@@ -213,7 +174,12 @@ export function IloControlPanel() {
       <div className="rounded-lg border border-status-error/30 bg-status-error/5 p-4">
         <div className="flex items-center gap-3 text-status-error">
           <AlertTriangle className="h-5 w-5" />
-          <span>Failed to connect to iLO</span>
+          <div className="min-w-0">
+            <span>Failed to connect to iLO</span>
+            {statusQuery.error && (
+              <p className="text-xs text-status-error/80 break-words">{statusQuery.error.message}</p>
+            )}
+          </div>
           <Button
             variant="ghost"
             size="sm"
@@ -299,6 +265,8 @@ export function IloControlPanel() {
                     size="icon"
                     className="h-8 w-8"
                     onClick={() => setShowConfig(true)}
+                    disabled={!canManagePower}
+                    title={powerHint}
                   >
                     <Settings className="h-4 w-4" />
                   </Button>
@@ -308,7 +276,8 @@ export function IloControlPanel() {
                       size="sm"
                       className="gap-2 bg-status-running hover:bg-status-running/90"
                       onClick={() => handleAction('powerOn')}
-                      disabled={actionLoading !== null}
+                      disabled={actionLoading !== null || !canManagePower}
+                      title={powerHint}
                     >
                       {actionLoading === 'powerOn' ? (
                         <Loader2 className="h-4 w-4 animate-spin" />
@@ -324,7 +293,8 @@ export function IloControlPanel() {
                         size="sm"
                         className="gap-2 hover:bg-status-stopped/10 hover:text-status-stopped hover:border-status-stopped/30 border border-transparent"
                         onClick={() => handleAction('powerOff')}
-                        disabled={actionLoading !== null}
+                        disabled={actionLoading !== null || !canManagePower}
+                        title={powerHint}
                       >
                         {actionLoading === 'powerOff' ? (
                           <Loader2 className="h-4 w-4 animate-spin" />
@@ -338,7 +308,8 @@ export function IloControlPanel() {
                         size="sm"
                         className="gap-2 hover:bg-primary/10 hover:text-primary hover:border-primary/30 border border-transparent"
                         onClick={() => handleAction('reset')}
-                        disabled={actionLoading !== null}
+                        disabled={actionLoading !== null || !canManagePower}
+                        title={powerHint}
                       >
                         {actionLoading === 'reset' ? (
                           <Loader2 className="h-4 w-4 animate-spin" />
@@ -441,7 +412,8 @@ export function IloControlPanel() {
                     size="sm"
                     className="text-xs hover:bg-status-error/10 hover:text-status-error border border-transparent hover:border-status-error/30"
                     onClick={() => handleAction('forcePowerOff')}
-                    disabled={actionLoading !== null || status.powerState === 'off'}
+                    disabled={actionLoading !== null || status.powerState === 'off' || !canManagePower}
+                    title={powerHint}
                   >
                     {actionLoading === 'forcePowerOff' ? (
                       <Loader2 className="h-3 w-3 animate-spin mr-1" />
@@ -455,7 +427,8 @@ export function IloControlPanel() {
                     size="sm"
                     className="text-xs border border-transparent"
                     onClick={() => handleAction('powerCycle')}
-                    disabled={actionLoading !== null}
+                    disabled={actionLoading !== null || !canManagePower}
+                    title={powerHint}
                   >
                     {actionLoading === 'powerCycle' ? (
                       <Loader2 className="h-3 w-3 animate-spin mr-1" />
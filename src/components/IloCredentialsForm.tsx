@@ -2,10 +2,13 @@ import { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Settings, Eye, EyeOff, CheckCircle, XCircle, Loader2, Server, Wifi } from 'lucide-react';
 import { IloCredentials } from '@/types/ilo';
 import { iloApi } from '@/services/iloApi';
+import { getBackendHost } from '@/services/backendConfig';
+import { useBackends } from '@/hooks/useBackends';
 import { cn } from '@/lib/utils';
 
 interface IloCredentialsFormProps {
@@ -21,7 +24,8 @@ export const IloCredentialsForm = ({
   onCancel,
   compact = false 
 }: IloCredentialsFormProps) => {
-  const [apiUrl, setApiUrl] = useState(iloApi.getApiUrl() || '');
+  const { backends } = useBackends();
+  const [backendId, setBackendId] = useState(iloApi.getBackendId);
   const [host, setHost] = useState(credentials?.host || '');
   const [username, setUsername] = useState(credentials?.username || '');
   const [password, setPassword] = useState(credentials?.password || '');
@@ -30,23 +34,22 @@ export const IloCredentialsForm = ({
   const [testResult, setTestResult] = useState<'success' | 'error' | null>(null);
   const [backendStatus, setBackendStatus] = useState<'checking' | 'connected' | 'disconnected' | null>(null);
 
-  // Check backend connection on mount and when URL changes
+  // Check backend connection on mount and when another backend is picked
   useEffect(() => {
     const checkBackend = async () => {
-      if (!apiUrl) {
+      if (!iloApi.isUsingRealBackend(backendId)) {
         setBackendStatus(null);
         return;
       }
       
       setBackendStatus('checking');
-      iloApi.setApiUrl(apiUrl);
-      const result = await iloApi.checkBackendHealth();
+      const result = await iloApi.checkBackendHealth(backendId);
       setBackendStatus(result.success ? 'connected' : 'disconnected');
     };
 
     const debounce = setTimeout(checkBackend, 500);
     return () => clearTimeout(debounce);
-  }, [apiUrl]);
+  }, [backendId]);
 
   const handleTest = async () => {
     if (!host || !username || !password) return;
@@ -56,7 +59,7 @@ export const IloCredentialsForm = ({
     
     try {
       const creds: IloCredentials = { host, username, password };
-      const result = await iloApi.testConnection(creds);
+      const result = await iloApi.testConnection(backendId, creds);
       setTestResult(result.success ? 'success' : 'error');
     } catch {
       setTestResult('error');
@@ -68,19 +71,18 @@ export const IloCredentialsForm = ({
   const handleSave = async () => {
     if (!host || !username || !password) return;
     
-    // Save API URL
-    iloApi.setApiUrl(apiUrl || null);
+    iloApi.setBackendId(backendId);
     
-    // If using backend, send credentials there too
-    if (apiUrl) {
-      await iloApi.configureBackend({ host, username, password });
+    // If using a real backend, send credentials there too
+    if (iloApi.isUsingRealBackend(backendId)) {
+      await iloApi.configureBackend(backendId, { host, username, password });
     }
     
     onSave({ host, username, password });
   };
 
   const isValid = host.trim() && username.trim() && password.trim();
-  const usingBackend = !!apiUrl;
+  const usingBackend = iloApi.isUsingRealBackend(backendId);
 
   return (
     <Card className="card-line">
@@ -91,11 +93,11 @@ export const IloCredentialsForm = ({
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
-        {/* Backend Proxy URL */}
+        {/* Backend proxying the iLO */}
         <div className="space-y-2">
-          <Label htmlFor="api-url" className="text-xs uppercase tracking-wider text-muted-foreground flex items-center gap-2">
+          <Label htmlFor="ilo-backend" className="text-xs uppercase tracking-wider text-muted-foreground flex items-center gap-2">
             <Server className="h-3 w-3" />
-            Backend Proxy URL
+            Backend
             {backendStatus === 'checking' && (
               <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />
             )}
@@ -110,21 +112,29 @@ export const IloCredentialsForm = ({
               </span>
             )}
           </Label>
-          <Input
-            id="api-url"
-            placeholder="http://your-server:3001/api (leave empty for mock mode)"
-            value={apiUrl}
-            onChange={(e) => setApiUrl(e.target.value)}
-            className={cn(
-              "bg-secondary/50 border-border/60 focus:border-primary/50 font-mono text-sm",
-              backendStatus === 'connected' && "border-green-500/30",
-              backendStatus === 'disconnected' && "border-red-500/30"
-            )}
-          />
+          <Select value={backendId} onValueChange={setBackendId}>
+            <SelectTrigger
+              id="ilo-backend"
+              className={cn(
+                "bg-secondary/50 border-border/60 focus:border-primary/50 font-mono text-sm",
+                backendStatus === 'connected' && "border-green-500/30",
+                backendStatus === 'disconnected' && "border-red-500/30"
+              )}
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {backends.map(backend => (
+                <SelectItem key={backend.id} value={backend.id}>
+                  {backend.name} <span className="text-muted-foreground">· {getBackendHost(backend)}</span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
           <p className="text-xs text-muted-foreground">
             {usingBackend 
-              ? "Using real backend - credentials will be sent to your proxy server."
-              : "Mock mode - no real iLO connection. Deploy the backend proxy to enable real control."}
+              ? "The iLO is reached through this backend with its credentials and your role on it."
+              : "Simulated backend - no real iLO connection. Pick a real backend to enable real control."}
           </p>
         </div>
 
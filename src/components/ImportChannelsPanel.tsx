@@ -0,0 +1,203 @@
+import { useMemo, useState } from 'react';
+import { AlertCircle, FileUp, KeyRound } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { ChannelConfig } from '@/types/channel';
+import { ChannelBundle } from '@/types/bundle';
+import { findImportConflicts, parseBundle, remapChannelId } from '@/lib/channelBundle';
+import { useCreateChannel } from '@/hooks/useChannels';
+import { useToast } from '@/hooks/use-toast';
+
+interface ImportChannelsPanelProps {
+  backendId: string;
+  existingConfigs: ChannelConfig[];
+  onImported: () => void;
+}
+
+interface ImportRow {
+  config: ChannelConfig;
+  targetId: number;
+  include: boolean;
+}
+
+// Import flow of CreateChannelDialog: load a bundle, remap IDs, resolve conflicts, create
+export function ImportChannelsPanel({ backendId, existingConfigs, onImported }: ImportChannelsPanelProps) {
+  const [text, setText] = useState('');
+  const [bundle, setBundle] = useState<ChannelBundle | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+  const createChannel = useCreateChannel(backendId);
+  const { toast } = useToast();
+
+  const load = (content: string) => {
+    setText(content);
+    if (!content.trim()) {
+      setBundle(null);
+      setParseError(null);
+      setRows([]);
+      return;
+    }
+    const parsed = parseBundle(content);
+    if (!parsed.success) {
+      setBundle(null);
+      setParseError(parsed.error);
+      setRows([]);
+      return;
+    }
+    setBundle(parsed.bundle);
+    setParseError(null);
+    setRows(parsed.bundle.channels.map(config => ({ config, targetId: config.channelId, include: true })));
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (file) load(await file.text());
+  };
+
+  const updateRow = (index: number, patch: Partial<ImportRow>) => {
+    setRows(rows.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+  };
+
+  // Configs as they would be created, and what stands in their way
+  const included = rows.filter(row => row.include);
+  const remapped = useMemo(
+    () => rows.map(row => remapChannelId(row.config, row.targetId)),
+    [rows]
+  );
+  const conflicts = useMemo(() => {
+    const selected = remapped.filter((_, i) => rows[i].include);
+    const found = findImportConflicts(selected, existingConfigs);
+    let next = 0;
+    return rows.map(row => (row.include ? found[next++] : []));
+  }, [remapped, rows, existingConfigs]);
+  const hasConflicts = conflicts.some(list => list.length > 0);
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    const failures: string[] = [];
+    let created = 0;
+    // One at a time so a failure doesn't leave later channels half-created
+    for (let i = 0; i < rows.length; i++) {
+      if (!rows[i].include) continue;
+      const config = remapped[i];
+      try {
+        await createChannel.mutateAsync({
+          channelId: config.channelId,
+          name: config.name,
+          config: {
+            rx: config.rx,
+            rec: config.rec,
+            rtmp: config.rtmp,
+            extraArgs: config.extraArgs,
+            tags: config.tags,
+            group: config.group,
+          },
+        });
+        created++;
+      } catch (error) {
+        failures.push(`${config.channelId}: ${(error as Error).message}`);
+      }
+    }
+    setIsImporting(false);
+
+    if (failures.length === 0) {
+      toast({
+        title: 'Channels imported',
+        description: `${created} channel${created === 1 ? '' : 's'} created${bundle?.redacted ? '; re-enter their secrets before starting them' : ''}.`,
+      });
+      onImported();
+    } else {
+      toast({
+        title: created > 0 ? 'Import partly failed' : 'Import failed',
+        description: failures.join('; '),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="grid gap-4 py-4">
+      <div className="flex items-center gap-2">
+        <Button variant="secondary" size="sm" className="gap-1" asChild>
+          <label>
+            <FileUp className="h-4 w-4" />
+            Choose file
+            <input
+              type="file"
+              accept=".json,.yaml,.yml,application/json,application/yaml"
+              className="hidden"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </label>
+        </Button>
+        <span className="text-xs text-muted-foreground">or paste a JSON/YAML bundle below</span>
+      </div>
+      <Textarea
+        value={text}
+        onChange={(e) => load(e.target.value)}
+        placeholder="format: brateshub-channels"
+        className="h-24 font-mono text-xs"
+      />
+
+      {parseError && (
+        <div className="flex items-start gap-2 rounded-md border border-status-error/50 bg-status-error/10 p-2 text-xs text-status-error">
+          <AlertCircle className="h-4 w-4 shrink-0" />
+          {parseError}
+        </div>
+      )}
+
+      {bundle && (
+        <>
+          <div className="text-xs text-muted-foreground">
+            {bundle.channels.length} channel{bundle.channels.length === 1 ? '' : 's'}
+            {bundle.source && ` from ${bundle.source.name} (${bundle.source.host})`}
+            {`, exported ${new Date(bundle.exportedAt).toLocaleString()}`}
+          </div>
+          {bundle.redacted && (
+            <div className="flex items-center gap-2 text-xs text-status-error">
+              <KeyRound className="h-4 w-4 shrink-0" />
+              Secrets were redacted; SRT passphrases and RTMP stream keys must be re-entered after import.
+            </div>
+          )}
+
+          <div className="max-h-64 overflow-y-auto rounded-md border border-border">
+            {rows.map((row, index) => (
+              <div key={row.config.channelId} className="border-b border-border px-3 py-2 last:border-0">
+                <div className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={row.include}
+                    onCheckedChange={(checked) => updateRow(index, { include: checked === true })}
+                  />
+                  <span className="flex-1 truncate">{row.config.name}</span>
+                  <span className="font-mono text-xs text-muted-foreground">{row.config.channelId} →</span>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={row.targetId}
+                    onChange={(e) => updateRow(index, { targetId: parseInt(e.target.value) || 1 })}
+                    className="h-7 w-20 font-mono"
+                    aria-label={`New ID for channel ${row.config.channelId}`}
+                    disabled={!row.include}
+                  />
+                </div>
+                {conflicts[index].length > 0 && (
+                  <ul className="mt-1 ml-6 list-disc list-inside text-xs text-status-error">
+                    {conflicts[index].map(problem => <li key={problem}>{problem}</li>)}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-end">
+            <Button onClick={handleImport} disabled={isImporting || included.length === 0 || hasConflicts}>
+              {isImporting ? 'Importing...' : `Import ${included.length} channel${included.length === 1 ? '' : 's'}`}
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
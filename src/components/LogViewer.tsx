@@ -2,36 +2,23 @@ import { useState, useEffect, useRef } from 'react';
 import { Download, Filter, RefreshCw } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
-import { LogEntry, ServiceType } from '@/types/channel';
-import { api } from '@/services/api';
+import { ServiceType } from '@/types/channel';
+import { useChannelLogs } from '@/hooks/useChannels';
 import { cn } from '@/lib/utils';
 
 interface LogViewerProps {
+  backendId: string;
   channelId: number;
 }
 
 type LogFilter = 'all' | 'error' | 'warn' | 'recent';
 
-export function LogViewer({ channelId }: LogViewerProps) {
+export function LogViewer({ backendId, channelId }: LogViewerProps) {
   const [activeService, setActiveService] = useState<ServiceType>('rx');
-  const [logs, setLogs] = useState<LogEntry[]>([]);
   const [filter, setFilter] = useState<LogFilter>('all');
-  const [isLoading, setIsLoading] = useState(false);
+  const { data: logs = [], isFetching: isLoading, error, refetch } = useChannelLogs(backendId, channelId, activeService, 100);
   const logContainerRef = useRef<HTMLDivElement>(null);
 
-  const fetchLogs = async () => {
-    setIsLoading(true);
-    const response = await api.getLogs(channelId, activeService, 100);
-    if (response.success && response.data) {
-      setLogs(response.data);
-    }
-    setIsLoading(false);
-  };
-
-  useEffect(() => {
-    fetchLogs();
-  }, [channelId, activeService]);
-
   useEffect(() => {
     // Auto-scroll to bottom
     if (logContainerRef.current) {
@@ -101,7 +88,7 @@ export function LogViewer({ channelId }: LogViewerProps) {
                 </button>
               ))}
             </div>
-            <Button variant="ghost" size="icon" onClick={fetchLogs} disabled={isLoading}>
+            <Button variant="ghost" size="icon" onClick={() => refetch()} disabled={isLoading}>
               <RefreshCw className={cn('h-4 w-4', isLoading && 'animate-spin')} />
             </Button>
             <Button variant="ghost" size="icon" onClick={downloadLogs}>
@@ -116,7 +103,9 @@ export function LogViewer({ channelId }: LogViewerProps) {
               ref={logContainerRef}
               className="h-64 overflow-y-auto rounded-lg border border-border bg-background/50 p-3 log-scroll"
             >
-              {filteredLogs.length === 0 ? (
+              {error ? (
+                <p className="text-center text-status-error text-sm py-8">{error.message}</p>
+              ) : filteredLogs.length === 0 ? (
                 <p className="text-center text-muted-foreground text-sm py-8">No logs to display</p>
               ) : (
                 <div className="space-y-0.5">
@@ -127,10 +116,11 @@ export function LogViewer({ channelId }: LogViewerProps) {
                       </span>
                       <span
                         className={cn(
-                          'shrink-0 w-12',
+                          'shrink-0 w-14',
                           log.level === 'error' && 'log-error',
                           log.level === 'warn' && 'log-warn',
-                          log.level === 'info' && 'log-info'
+                          log.level === 'info' && 'log-info',
+                          log.level === 'debug' && 'log-debug'
                         )}
                       >
                         [{log.level.toUpperCase()}]
@@ -0,0 +1,613 @@
+import { useState } from 'react';
+import { Mail, Pencil, Plus, RefreshCw, Send, Trash2, Webhook, AlertCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { AlertSeverity } from '@/types/alerts';
+import {
+  DeliveryStatus,
+  DestinationType,
+  NotificationDestination,
+  NotificationDestinationInput,
+  SmtpSecurity,
+} from '@/types/notifications';
+import {
+  useCreateNotificationDestination,
+  useDeleteNotificationDestination,
+  useNotificationDeliveries,
+  useNotificationDestinations,
+  useTestNotificationDestination,
+  useUpdateNotificationDestination,
+} from '@/hooks/useNotificationDestinations';
+import { useToast } from '@/hooks/use-toast';
+import { severityStyles } from '@/lib/alerts';
+import { cn } from '@/lib/utils';
+
+interface NotificationDestinationsSettingsProps {
+  backendId: string;
+}
+
+// Text fields of the add/edit dialog
+interface DestinationForm {
+  name: string;
+  type: DestinationType;
+  enabled: boolean;
+  severities: AlertSeverity[];
+  notifyResolved: boolean;
+  url: string;
+  method: 'POST' | 'PUT';
+  // One "Name: value" per line
+  headers: string;
+  template: string;
+  host: string;
+  port: string;
+  security: SmtpSecurity;
+  username: string;
+  // Empty keeps the stored password
+  password: string;
+  hasPassword: boolean;
+  from: string;
+  // Comma-separated
+  to: string;
+}
+
+const EMPTY_FORM: DestinationForm = {
+  name: '',
+  type: 'webhook',
+  enabled: true,
+  severities: ['critical', 'warning'],
+  notifyResolved: true,
+  url: '',
+  method: 'POST',
+  headers: '',
+  template: '',
+  host: '',
+  port: '587',
+  security: 'starttls',
+  username: '',
+  password: '',
+  hasPassword: false,
+  from: '',
+  to: '',
+};
+
+const SECURITY_PORTS: Record<SmtpSecurity, string> = { none: '25', starttls: '587', tls: '465' };
+
+const TEMPLATE_PLACEHOLDER = '{\n  "text": "{{text}}",\n  "severity": "{{alert.severity}}"\n}';
+
+const STATUS_STYLES: Record<DeliveryStatus, string> = {
+  pending: 'text-muted-foreground',
+  retrying: 'text-status-stopped',
+  delivered: 'text-status-running',
+  failed: 'text-status-error',
+};
+
+function toForm(destination: NotificationDestination): DestinationForm {
+  return {
+    ...EMPTY_FORM,
+    name: destination.name,
+    type: destination.type,
+    enabled: destination.enabled,
+    severities: destination.severities,
+    notifyResolved: destination.notifyResolved,
+    url: destination.url ?? '',
+    method: destination.method ?? 'POST',
+    headers: Object.entries(destination.headers ?? {}).map(([key, value]) => `${key}: ${value}`).join('\n'),
+    template: destination.template ?? '',
+    host: destination.smtp?.host ?? '',
+    port: String(destination.smtp?.port ?? EMPTY_FORM.port),
+    security: destination.smtp?.security ?? 'starttls',
+    username: destination.smtp?.username ?? '',
+    hasPassword: destination.smtp?.hasPassword ?? false,
+    from: destination.from ?? '',
+    to: (destination.to ?? []).join(', '),
+  };
+}
+
+/**
+ * Request body for the form; throws with a message for fields that don't parse
+ */
+function toInput(form: DestinationForm): NotificationDestinationInput {
+  const base = {
+    name: form.name.trim(),
+    type: form.type,
+    enabled: form.enabled,
+    severities: form.severities,
+    notifyResolved: form.notifyResolved,
+  };
+  if (form.type === 'webhook') {
+    const headers: Record<string, string> = {};
+    for (const line of form.headers.split('\n').map(l => l.trim()).filter(Boolean)) {
+      const separator = line.indexOf(':');
+      if (separator < 1) throw new Error(`Header "${line}" should be "Name: value"`);
+      headers[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+    }
+    return { ...base, url: form.url.trim(), method: form.method, headers, template: form.template.trim() || null };
+  }
+  return {
+    ...base,
+    smtp: {
+      host: form.host.trim(),
+      port: parseInt(form.port, 10),
+      security: form.security,
+      username: form.username.trim() || null,
+      ...(form.password ? { password: form.password } : {}),
+    },
+    from: form.from.trim(),
+    to: form.to.split(',').map(s => s.trim()).filter(Boolean),
+  };
+}
+
+const describeTarget = (destination: NotificationDestination) =>
+  destination.type === 'webhook'
+    ? `${destination.method} ${destination.url}`
+    : `${(destination.to ?? []).join(', ')} via ${destination.smtp?.host}:${destination.smtp?.port}`;
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', { hour12: false, month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+// Where the backend sends alerts when nobody is watching the dashboard; saved as they are edited
+export function NotificationDestinationsSettings({ backendId }: NotificationDestinationsSettingsProps) {
+  const { toast } = useToast();
+  const { data: destinations, isLoading, error } = useNotificationDestinations(backendId);
+  const { data: deliveries } = useNotificationDeliveries(backendId);
+  const createDestination = useCreateNotificationDestination(backendId);
+  const updateDestination = useUpdateNotificationDestination(backendId);
+  const deleteDestination = useDeleteNotificationDestination(backendId);
+  const testDestination = useTestNotificationDestination(backendId);
+
+  // null id: adding a destination
+  const [editing, setEditing] = useState<{ id: string | null; form: DestinationForm } | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<NotificationDestination | null>(null);
+  const isSaving = createDestination.isPending || updateDestination.isPending;
+  const form = editing?.form;
+
+  const updateForm = (changes: Partial<DestinationForm>) =>
+    setEditing(prev => prev && { ...prev, form: { ...prev.form, ...changes } });
+
+  const toggleSeverity = (severity: AlertSeverity, checked: boolean) => {
+    if (!form) return;
+    const others = form.severities.filter(s => s !== severity);
+    updateForm({ severities: checked ? [...others, severity] : others });
+  };
+
+  const handleToggle = (destination: NotificationDestination, enabled: boolean) => {
+    updateDestination.mutate(
+      { id: destination.id, updates: { enabled } },
+      { onError: (err) => toast({ title: 'Failed to update destination', description: err.message, variant: 'destructive' }) }
+    );
+  };
+
+  const handleTest = (destination: NotificationDestination) => {
+    testDestination.mutate(destination.id, {
+      onSuccess: () => toast({ title: 'Test notification sent', description: destination.name }),
+      onError: (err) => toast({ title: 'Test notification failed', description: err.message, variant: 'destructive' }),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    let input: NotificationDestinationInput;
+    try {
+      input = toInput(editing.form);
+    } catch (err) {
+      toast({ title: 'Invalid destination', description: (err as Error).message, variant: 'destructive' });
+      return;
+    }
+    try {
+      if (editing.id) {
+        await updateDestination.mutateAsync({ id: editing.id, updates: input });
+      } else {
+        await createDestination.mutateAsync(input);
+      }
+      toast({ title: editing.id ? 'Destination saved' : 'Destination added', description: input.name });
+      setEditing(null);
+    } catch (err) {
+      toast({ title: 'Failed to save destination', description: (err as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const handleDelete = () => {
+    if (!pendingDelete) return;
+    const { id, name } = pendingDelete;
+    deleteDestination.mutate(id, {
+      onSuccess: () => toast({ title: 'Destination deleted', description: name }),
+      onError: (err) => toast({ title: 'Failed to delete destination', description: err.message, variant: 'destructive' }),
+    });
+    setPendingDelete(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <Send className="h-5 w-5" />
+              Notification Destinations
+            </CardTitle>
+            <CardDescription>
+              The backend sends alerts here, whether or not anyone has the dashboard open. The alert rules decide what is reported.
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={() => setEditing({ id: null, form: EMPTY_FORM })} className="gap-2 shrink-0">
+            <Plus className="h-4 w-4" />
+            Add Destination
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {error ? (
+            <div className="flex items-center gap-2 rounded-lg border border-status-error/50 bg-status-error/10 p-3 text-sm text-status-error">
+              <AlertCircle className="h-4 w-4 shrink-0" />
+              Could not load notification destinations: {error.message}
+            </div>
+          ) : isLoading || !destinations ? (
+            <div className="animate-pulse bg-secondary rounded h-24" />
+          ) : destinations.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">No destinations; alerts are only shown on the dashboard</p>
+          ) : (
+            <div className="divide-y divide-border/50">
+              {destinations.map(destination => {
+                const Icon = destination.type === 'email' ? Mail : Webhook;
+                const isTesting = testDestination.isPending && testDestination.variables === destination.id;
+                return (
+                  <div key={destination.id} className="flex items-center gap-4 py-3">
+                    <Switch
+                      checked={destination.enabled}
+                      onCheckedChange={(checked) => handleToggle(destination, checked)}
+                      aria-label={`Enable ${destination.name}`}
+                    />
+                    <div className={cn("flex-1 min-w-0", !destination.enabled && "opacity-60")}>
+                      <div className="flex items-center gap-2">
+                        <Icon className="h-4 w-4 text-muted-foreground shrink-0" />
+                        <span className="font-medium text-sm truncate">{destination.name}</span>
+                        {destination.severities.map(severity => (
+                          <span key={severity} className={cn("text-[10px] uppercase tracking-wider", severityStyles[severity].text)}>
+                            {severityStyles[severity].label}
+                          </span>
+                        ))}
+                      </div>
+                      <p className="text-xs text-muted-foreground font-mono truncate">{describeTarget(destination)}</p>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-2"
+                      onClick={() => handleTest(destination)}
+                      disabled={isTesting}
+                    >
+                      {isTesting ? <RefreshCw className="h-3.5 w-3.5 animate-spin" /> : <Send className="h-3.5 w-3.5" />}
+                      Test
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => setEditing({ id: destination.id, form: toForm(destination) })}
+                      aria-label={`Edit ${destination.name}`}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-muted-foreground hover:text-status-error"
+                      onClick={() => setPendingDelete(destination)}
+                      aria-label={`Delete ${destination.name}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Delivery History</CardTitle>
+          <CardDescription>Failed deliveries are retried up to 5 times with increasing delays.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!deliveries || deliveries.length === 0 ? (
+            <p className="py-4 text-center text-sm text-muted-foreground">Nothing sent yet</p>
+          ) : (
+            <div className="max-h-80 overflow-y-auto">
+              <table className="w-full text-xs">
+                <thead className="sticky top-0 bg-card">
+                  <tr className="text-left uppercase tracking-wider text-muted-foreground">
+                    <th className="py-1.5 font-medium">Time</th>
+                    <th className="py-1.5 font-medium">Destination</th>
+                    <th className="py-1.5 font-medium">Message</th>
+                    <th className="py-1.5 font-medium">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {deliveries.map(delivery => (
+                    <tr key={delivery.id} className="border-t border-border/50 align-top">
+                      <td className="py-1.5 pr-3 font-mono whitespace-nowrap">{formatTime(delivery.createdAt)}</td>
+                      <td className="py-1.5 pr-3">{delivery.destinationName}</td>
+                      <td className="py-1.5 pr-3">{delivery.summary}</td>
+                      <td className="py-1.5">
+                        <span className={cn("font-medium capitalize", STATUS_STYLES[delivery.status])}>{delivery.status}</span>
+                        {delivery.attempts > 1 && <span className="text-muted-foreground"> · {delivery.attempts} attempts</span>}
+                        {delivery.lastError && <p className="text-muted-foreground">{delivery.lastError}</p>}
+                        {delivery.nextAttemptAt && (
+                          <p className="text-muted-foreground">Next try {formatTime(delivery.nextAttemptAt)}</p>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing?.id ? 'Edit Destination' : 'Add Destination'}</DialogTitle>
+            <DialogDescription>Alerts of the ticked severities are sent when they fire.</DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="destinationName">Name</Label>
+                  <Input
+                    id="destinationName"
+                    value={form.name}
+                    onChange={(e) => updateForm({ name: e.target.value })}
+                    placeholder="On-call chat"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="destinationType">Type</Label>
+                  <Select
+                    value={form.type}
+                    onValueChange={(v) => updateForm({ type: v as DestinationType })}
+                    disabled={editing?.id !== null}
+                  >
+                    <SelectTrigger id="destinationType">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="webhook">Webhook</SelectItem>
+                      <SelectItem value="email">Email (SMTP)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Severities</Label>
+                <div className="flex items-center gap-4">
+                  {(Object.keys(severityStyles) as AlertSeverity[]).map(severity => (
+                    <label key={severity} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={form.severities.includes(severity)}
+                        onCheckedChange={(checked) => toggleSeverity(severity, checked === true)}
+                      />
+                      {severityStyles[severity].label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              {form.type === 'webhook' ? (
+                <>
+                  <div className="grid grid-cols-[6rem_1fr] gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="webhookMethod">Method</Label>
+                      <Select value={form.method} onValueChange={(v) => updateForm({ method: v as 'POST' | 'PUT' })}>
+                        <SelectTrigger id="webhookMethod">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="POST">POST</SelectItem>
+                          <SelectItem value="PUT">PUT</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="webhookUrl">URL</Label>
+                      <Input
+                        id="webhookUrl"
+                        value={form.url}
+                        onChange={(e) => updateForm({ url: e.target.value })}
+                        className="font-mono"
+                        placeholder="https://hooks.example.com/alerts"
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="webhookHeaders">Headers</Label>
+                    <Textarea
+                      id="webhookHeaders"
+                      value={form.headers}
+                      onChange={(e) => updateForm({ headers: e.target.value })}
+                      className="font-mono text-xs"
+                      rows={2}
+                      placeholder="Authorization: Bearer …"
+                    />
+                    {form.headers.includes('******') && (
+                      <p className="text-xs text-muted-foreground">Stored values show as ******; leave them to keep them</p>
+                    )}
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="webhookTemplate">Payload template</Label>
+                    <Textarea
+                      id="webhookTemplate"
+                      value={form.template}
+                      onChange={(e) => updateForm({ template: e.target.value })}
+                      className="font-mono text-xs"
+                      rows={5}
+                      placeholder={TEMPLATE_PLACEHOLDER}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      JSON with {'{{text}}'}, {'{{event}}'}, {'{{host}}'}, {'{{timestamp}}'} and {'{{alert.<field>}}'}.
+                      Leave empty to send the whole alert.
+                    </p>
+                  </div>
+                </>
+              ) : (
+                <>
+                  <div className="grid grid-cols-[1fr_6rem_8rem] gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="smtpHost">SMTP server</Label>
+                      <Input
+                        id="smtpHost"
+                        value={form.host}
+                        onChange={(e) => updateForm({ host: e.target.value })}
+                        className="font-mono"
+                        placeholder="smtp.example.com"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="smtpPort">Port</Label>
+                      <Input
+                        id="smtpPort"
+                        type="number"
+                        value={form.port}
+                        onChange={(e) => updateForm({ port: e.target.value })}
+                        className="font-mono"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="smtpSecurity">Security</Label>
+                      <Select
+                        value={form.security}
+                        onValueChange={(v) => updateForm({ security: v as SmtpSecurity, port: SECURITY_PORTS[v as SmtpSecurity] })}
+                      >
+                        <SelectTrigger id="smtpSecurity">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="starttls">STARTTLS</SelectItem>
+                          <SelectItem value="tls">TLS</SelectItem>
+                          <SelectItem value="none">None</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="smtpUsername">Username</Label>
+                      <Input
+                        id="smtpUsername"
+                        value={form.username}
+                        onChange={(e) => updateForm({ username: e.target.value })}
+                        autoComplete="off"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="smtpPassword">Password</Label>
+                      <Input
+                        id="smtpPassword"
+                        type="password"
+                        value={form.password}
+                        onChange={(e) => updateForm({ password: e.target.value })}
+                        placeholder={form.hasPassword ? 'Unchanged' : ''}
+                        autoComplete="new-password"
+                      />
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="emailFrom">From</Label>
+                      <Input
+                        id="emailFrom"
+                        value={form.from}
+                        onChange={(e) => updateForm({ from: e.target.value })}
+                        placeholder="controller@example.com"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="emailTo">To</Label>
+                      <Input
+                        id="emailTo"
+                        value={form.to}
+                        onChange={(e) => updateForm({ to: e.target.value })}
+                        placeholder="oncall@example.com, …"
+                      />
+                    </div>
+                  </div>
+                </>
+              )}
+
+              <div className="flex items-center gap-6">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="destinationResolved"
+                    checked={form.notifyResolved}
+                    onCheckedChange={(notifyResolved) => updateForm({ notifyResolved })}
+                  />
+                  <Label htmlFor="destinationResolved">Also send when resolved</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="destinationEnabled"
+                    checked={form.enabled}
+                    onCheckedChange={(enabled) => updateForm({ enabled })}
+                  />
+                  <Label htmlFor="destinationEnabled">Enabled</Label>
+                </div>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={isSaving || !form?.name.trim()}>
+              {isSaving && <RefreshCw className="h-4 w-4 mr-2 animate-spin" />}
+              {editing?.id ? 'Save Destination' : 'Add Destination'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent className="border-border bg-card">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete “{pendingDelete?.name}”?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Alerts will no longer be sent there, and its pending retries are dropped.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="border-border">Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-status-error hover:bg-status-error/90">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+import { useState } from 'react';
+import { BellRing, Volume2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Slider } from '@/components/ui/slider';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useBackends } from '@/hooks/useBackends';
+import { useChannelsAcrossBackends } from '@/hooks/useChannels';
+import { useNotificationSettings } from '@/hooks/useNotificationSettings';
+import { FailureSeverity, failureKey, isMuted } from '@/services/notificationSettings';
+import { playAlarm } from '@/services/alarmSound';
+import { FAILURE_SOURCES } from '@/lib/channelFailures';
+
+const REPEAT_OPTIONS = [
+  { seconds: 0, label: 'Play once' },
+  { seconds: 15, label: 'Every 15 s' },
+  { seconds: 30, label: 'Every 30 s' },
+  { seconds: 60, label: 'Every minute' },
+  { seconds: 300, label: 'Every 5 minutes' },
+];
+
+const SEVERITIES: { severity: FailureSeverity; label: string; description: string }[] = [
+  { severity: 'critical', label: 'Critical', description: 'RX failed or input lost' },
+  { severity: 'warning', label: 'Warning', description: 'REC or RTMP failed' },
+];
+
+const notificationPermission = () => ('Notification' in window ? Notification.permission : 'unsupported');
+
+// Per-browser notification and alarm preferences; saved as they change
+export function NotificationSettingsPanel() {
+  const { settings, update } = useNotificationSettings();
+  const { backends } = useBackends();
+  const channelResults = useChannelsAcrossBackends(backends.map(b => b.id));
+  const [permission, setPermission] = useState(notificationPermission);
+
+  const handleDesktopChange = async (enabled: boolean) => {
+    if (enabled && permission === 'default') {
+      setPermission(await Notification.requestPermission());
+    }
+    update({ desktop: enabled });
+  };
+
+  const updateSound = (severity: FailureSeverity, changes: Partial<typeof settings.sound.critical>) =>
+    update({ sound: { ...settings.sound, [severity]: { ...settings.sound[severity], ...changes } } });
+
+  const setMuted = (key: string, muted: boolean) => {
+    const others = settings.muted.filter(k => k !== key);
+    update({ muted: muted ? [...others, key] : others });
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <BellRing className="h-5 w-5" />
+            Desktop Notifications
+          </CardTitle>
+          <CardDescription>
+            Stored in this browser only. Failures are reported while the dashboard is open, even in a background tab.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor="desktopNotifications">Show desktop notifications</Label>
+              <p className="text-xs text-muted-foreground">
+                {permission === 'denied'
+                  ? 'Blocked by the browser; allow notifications for this site to use them.'
+                  : permission === 'unsupported'
+                    ? 'This browser does not support notifications.'
+                    : 'Clicking a notification opens the channel.'}
+              </p>
+            </div>
+            <Switch
+              id="desktopNotifications"
+              checked={settings.desktop && permission === 'granted'}
+              disabled={permission === 'denied' || permission === 'unsupported'}
+              onCheckedChange={handleDesktopChange}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Volume2 className="h-5 w-5" />
+            Alarm Sound
+          </CardTitle>
+          <CardDescription>
+            Repeats until acknowledged from the dashboard header or the failure clears.
+            Browsers only play sound after you have interacted with the page once.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {SEVERITIES.map(({ severity, label, description }) => (
+            <div key={severity} className="flex flex-wrap items-center gap-4">
+              <Switch
+                id={`sound-${severity}`}
+                checked={settings.sound[severity].enabled}
+                onCheckedChange={(enabled) => updateSound(severity, { enabled })}
+              />
+              <div className="flex-1 min-w-40 space-y-0.5">
+                <Label htmlFor={`sound-${severity}`}>{label}</Label>
+                <p className="text-xs text-muted-foreground">{description}</p>
+              </div>
+              <Select
+                value={String(settings.sound[severity].repeatSeconds)}
+                onValueChange={(v) => updateSound(severity, { repeatSeconds: Number(v) })}
+                disabled={!settings.sound[severity].enabled}
+              >
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {REPEAT_OPTIONS.map(({ seconds, label: optionLabel }) => (
+                    <SelectItem key={seconds} value={String(seconds)}>{optionLabel}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" size="sm" onClick={() => playAlarm(severity, settings.volume)}>
+                Test
+              </Button>
+            </div>
+          ))}
+          <div className="space-y-2 max-w-sm">
+            <Label>Volume</Label>
+            <Slider
+              value={[Math.round(settings.volume * 100)]}
+              min={0}
+              max={100}
+              step={5}
+              onValueChange={([value]) => update({ volume: value / 100 })}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Channels</CardTitle>
+          <CardDescription>
+            Untick what this browser should not notify about. Failures still count in the tab badge.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {backends.map((backend, i) => {
+            const channels = channelResults[i]?.data ?? [];
+            return (
+              <div key={backend.id} className="space-y-2">
+                {backends.length > 1 && <h3 className="text-sm font-semibold">{backend.name}</h3>}
+                {channelResults[i]?.isLoading ? (
+                  <div className="animate-pulse bg-secondary rounded h-16" />
+                ) : channels.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No channels</p>
+                ) : (
+                  <table className="w-full max-w-lg text-sm">
+                    <thead>
+                      <tr className="text-xs uppercase tracking-wider text-muted-foreground">
+                        <th className="py-1 text-left font-medium">Channel</th>
+                        {FAILURE_SOURCES.map(({ source, label }) => (
+                          <th key={source} className="py-1 font-medium">{label}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {channels.map(channel => (
+                        <tr key={channel.id} className="border-t border-border/50">
+                          <td className="py-1.5 font-mono">
+                            {channel.id}
+                            <span className="ml-2 font-sans text-muted-foreground">{channel.name}</span>
+                          </td>
+                          {FAILURE_SOURCES.map(({ source, label }) => {
+                            const key = failureKey(backend.id, channel.id, source);
+                            return (
+                              <td key={source} className="py-1.5 text-center">
+                                <Checkbox
+                                  checked={!isMuted(settings, key)}
+                                  onCheckedChange={(checked) => setMuted(key, checked !== true)}
+                                  aria-label={`${label} notifications for channel ${channel.id}`}
+                                />
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
-import { StreamPid } from '@/types/stream';
+import { Bar, ComposedChart, Line, YAxis } from 'recharts';
+import { PidHistory, PidHistoryEntry, StreamPid } from '@/types/stream';
 import { cn } from '@/lib/utils';
 import { Lock, AlertTriangle } from 'lucide-react';
+import { ChartConfig, ChartContainer } from '@/components/ui/chart';
 import {
   Table,
   TableBody,
@@ -14,9 +16,41 @@ import { Progress } from '@/components/ui/progress';
 
 interface PidTableProps {
   pids: StreamPid[];
+  // Backend history: adds trend graphs, error counters since the last reset and baseline comparison
+  history?: PidHistory | null;
   compact?: boolean;
 }
 
+const trendConfig = {
+  bps: { label: 'Bitrate', color: 'hsl(var(--rx-color))' },
+  ccErrors: { label: 'CC errors', color: 'hsl(var(--status-error))' },
+} satisfies ChartConfig;
+
+// Bitrate over the last hour with continuity errors as bars; flat at zero while the PID was missing
+function PidTrend({ entry }: { entry: PidHistoryEntry }) {
+  if (entry.samples.length < 2) {
+    return <div className="h-6 w-24" aria-hidden />;
+  }
+  return (
+    <ChartContainer config={trendConfig} className="aspect-auto h-6 w-24" title="Bitrate and CC errors, last hour">
+      <ComposedChart data={entry.samples} margin={{ top: 1, right: 0, bottom: 1, left: 0 }}>
+        <YAxis yAxisId="bps" hide domain={[0, 'dataMax']} />
+        <YAxis yAxisId="cc" hide domain={[0, 'dataMax']} />
+        <Bar yAxisId="cc" dataKey="ccErrors" fill="var(--color-ccErrors)" isAnimationActive={false} />
+        <Line
+          yAxisId="bps"
+          dataKey="bps"
+          type="monotone"
+          stroke="var(--color-bps)"
+          strokeWidth={1.25}
+          dot={false}
+          isAnimationActive={false}
+        />
+      </ComposedChart>
+    </ChartContainer>
+  );
+}
+
 const getPidTypeColor = (type: string): string => {
   const lowerType = type.toLowerCase();
   if (lowerType.includes('video')) return 'text-rx';
@@ -26,7 +60,7 @@ const getPidTypeColor = (type: string): string => {
   return 'text-muted-foreground';
 };
 
-export function PidTable({ pids, compact = false }: PidTableProps) {
+export function PidTable({ pids, history, compact = false }: PidTableProps) {
   if (!pids || pids.length === 0) {
     return (
       <div className="flex items-center justify-center py-8 text-muted-foreground">
@@ -41,6 +75,14 @@ export function PidTable({ pids, compact = false }: PidTableProps) {
     .filter(p => p.pid !== 8191) // Filter out null packets
     .slice(0, compact ? 5 : undefined);
 
+  // Compared with the baseline from the backend: expected PIDs absent from this snapshot, and unexpected ones in it
+  const historyByPid = new Map(history?.pids.map(entry => [entry.pid, entry]) ?? []);
+  const baseline = history?.baseline ? new Set(history.baseline.pids) : null;
+  const missingPids = compact || !baseline
+    ? []
+    : [...baseline].filter(pid => !pids.some(p => p.pid === pid)).sort((a, b) => a - b);
+  const showTrend = !compact && !!history;
+
   return (
     <div className="rounded-md border border-border/60">
       <Table>
@@ -50,55 +92,109 @@ export function PidTable({ pids, compact = false }: PidTableProps) {
             <TableHead>Type</TableHead>
             <TableHead className="w-28 text-right">Bitrate</TableHead>
             <TableHead className="w-24">Share</TableHead>
+            {showTrend && <TableHead className="w-28">Last hour</TableHead>}
             {!compact && <TableHead className="w-16 text-center">Flags</TableHead>}
           </TableRow>
         </TableHeader>
         <TableBody>
-          {displayPids.map((pid) => (
-            <TableRow 
-              key={pid.pid} 
-              className="hover:bg-muted/30 border-border/40"
-            >
-              <TableCell className="font-mono text-sm">
-                {pid.pid}
-              </TableCell>
-              <TableCell>
-                <span className={cn("text-sm font-medium", getPidTypeColor(pid.type))}>
-                  {pid.type}
-                </span>
-              </TableCell>
-              <TableCell className="text-right font-mono text-sm tabular-nums">
-                {pid.bitrateMbps} Mbps
-              </TableCell>
-              <TableCell>
-                <div className="flex items-center gap-2">
-                  <Progress 
-                    value={parseFloat(pid.percentage)} 
-                    className="h-1.5 flex-1"
-                  />
-                  <span className="text-xs text-muted-foreground w-10 text-right tabular-nums">
-                    {pid.percentage}%
-                  </span>
-                </div>
-              </TableCell>
-              {!compact && (
-                <TableCell className="text-center">
-                  <div className="flex items-center justify-center gap-1">
-                    {pid.scrambled && (
-                      <Badge variant="secondary" className="text-xs px-1">
-                        <Lock className="h-3 w-3" />
-                      </Badge>
-                    )}
-                    {pid.discontinuities > 0 && (
-                      <Badge variant="destructive" className="text-xs px-1.5">
-                        {pid.discontinuities}
+          {displayPids.map((pid) => {
+            const entry = historyByPid.get(pid.pid);
+            const isNew = !compact && baseline !== null && !baseline.has(pid.pid);
+            // Errors since the last reset when the backend keeps count, else this snapshot's
+            const ccErrors = entry ? entry.ccErrors : pid.discontinuities;
+            return (
+              <TableRow 
+                key={pid.pid} 
+                className={cn("hover:bg-muted/30 border-border/40", isNew && "bg-status-stopped/5")}
+              >
+                <TableCell className="font-mono text-sm">
+                  <div className="flex items-center gap-1.5">
+                    {pid.pid}
+                    {isNew && (
+                      <Badge variant="outline" className="text-[10px] px-1 py-0 text-status-stopped border-status-stopped/40" title="Not in the baseline">
+                        New
                       </Badge>
                     )}
                   </div>
                 </TableCell>
-              )}
-            </TableRow>
-          ))}
+                <TableCell>
+                  <span className={cn("text-sm font-medium", getPidTypeColor(pid.type))}>
+                    {pid.type}
+                  </span>
+                </TableCell>
+                <TableCell className="text-right font-mono text-sm tabular-nums">
+                  {pid.bitrateMbps} Mbps
+                </TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <Progress 
+                      value={parseFloat(pid.percentage)} 
+                      className="h-1.5 flex-1"
+                    />
+                    <span className="text-xs text-muted-foreground w-10 text-right tabular-nums">
+                      {pid.percentage}%
+                    </span>
+                  </div>
+                </TableCell>
+                {showTrend && (
+                  <TableCell>
+                    {entry && <PidTrend entry={entry} />}
+                  </TableCell>
+                )}
+                {!compact && (
+                  <TableCell className="text-center">
+                    <div className="flex items-center justify-center gap-1">
+                      {pid.scrambled && (
+                        <Badge variant="secondary" className="text-xs px-1">
+                          <Lock className="h-3 w-3" />
+                        </Badge>
+                      )}
+                      {ccErrors > 0 && (
+                        <Badge
+                          variant="destructive"
+                          className="text-xs px-1.5"
+                          title={entry && history ? `Continuity errors since ${new Date(history.countersResetAt).toLocaleString()}` : 'Continuity errors'}
+                        >
+                          {ccErrors}
+                        </Badge>
+                      )}
+                    </div>
+                  </TableCell>
+                )}
+              </TableRow>
+            );
+          })}
+          {missingPids.map((pid) => {
+            const entry = historyByPid.get(pid);
+            return (
+              <TableRow key={pid} className="border-border/40 bg-status-error/5 hover:bg-status-error/10">
+                <TableCell className="font-mono text-sm">
+                  <div className="flex items-center gap-1.5">
+                    {pid}
+                    <Badge variant="destructive" className="text-[10px] px-1 py-0" title="In the baseline but not in the stream">
+                      Missing
+                    </Badge>
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <span className="text-sm text-muted-foreground">{entry?.type ?? 'Unknown'}</span>
+                </TableCell>
+                <TableCell colSpan={2} className="text-xs text-muted-foreground">
+                  {entry?.lastSeen ? `Last seen ${new Date(entry.lastSeen).toLocaleTimeString()}` : 'Not seen recently'}
+                </TableCell>
+                {showTrend && (
+                  <TableCell>
+                    {entry && <PidTrend entry={entry} />}
+                  </TableCell>
+                )}
+                <TableCell className="text-center">
+                  {entry && entry.ccErrors > 0 && (
+                    <Badge variant="destructive" className="text-xs px-1.5">{entry.ccErrors}</Badge>
+                  )}
+                </TableCell>
+              </TableRow>
+            );
+          })}
         </TableBody>
       </Table>
       {compact && pids.length > 5 && (
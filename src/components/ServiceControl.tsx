@@ -1,6 +1,7 @@
 import { Play, Square, RotateCcw, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { ServiceStatus, ServiceType } from '@/types/channel';
+import { permissionHint } from '@/lib/roles';
 import { cn } from '@/lib/utils';
 
 interface ServiceControlProps {
@@ -12,6 +13,8 @@ interface ServiceControlProps {
   onRestart: () => void;
   isLoading?: boolean;
   compact?: boolean;
+  // False for users below the operator role: compact controls are hidden, full ones disabled
+  canControl?: boolean;
 }
 
 export function ServiceControl({
@@ -21,10 +24,14 @@ export function ServiceControl({
   onRestart,
   isLoading = false,
   compact = false,
+  canControl = true,
 }: ServiceControlProps) {
-  const isRunning = status === 'running';
+  // A unit that is still starting can already be stopped
+  const isRunning = status === 'running' || status === 'starting';
+  const hint = canControl ? undefined : permissionHint('controlServices');
 
   if (compact) {
+    if (!canControl) return null;
     return (
       <div className="flex items-center gap-1">
         {isLoading ? (
@@ -68,7 +75,7 @@ export function ServiceControl({
   }
 
   return (
-    <div className="flex items-center gap-2">
+    <div className="flex items-center gap-2" title={hint}>
       {isLoading ? (
         <Button variant="secondary" size="sm" disabled className="gap-2">
           <Loader2 className="h-4 w-4 animate-spin" />
@@ -84,7 +91,7 @@ export function ServiceControl({
               !isRunning && 'bg-status-running/10 text-status-running hover:bg-status-running/20'
             )}
             onClick={onStart}
-            disabled={isRunning}
+            disabled={isRunning || !canControl}
           >
             <Play className="h-3.5 w-3.5" />
             Start
@@ -97,7 +104,7 @@ export function ServiceControl({
               isRunning && 'bg-status-stopped/10 text-status-stopped hover:bg-status-stopped/20'
             )}
             onClick={onStop}
-            disabled={!isRunning}
+            disabled={!isRunning || !canControl}
           >
             <Square className="h-3.5 w-3.5" />
             Stop
@@ -107,6 +114,7 @@ export function ServiceControl({
             size="sm"
             className="gap-1.5"
             onClick={onRestart}
+            disabled={!canControl}
           >
             <RotateCcw className="h-3.5 w-3.5" />
             Restart
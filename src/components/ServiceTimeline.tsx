@@ -0,0 +1,208 @@
+import { useState } from 'react';
+import { GanttChart, Loader2 } from 'lucide-react';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ServiceStatus, ServiceType } from '@/types/channel';
+import { ServiceEventCause } from '@/types/serviceEvents';
+import { useServiceEvents } from '@/hooks/useServiceEvents';
+import { HISTORY_RANGES, HistoryRange, formatTick, rangeMs } from '@/lib/bitrateHistory';
+import {
+  causeLabels,
+  causeStyles,
+  countIncidents,
+  describeEvent,
+  segmentClasses,
+  toSegments,
+} from '@/lib/serviceTimeline';
+import { cn } from '@/lib/utils';
+
+interface ServiceTimelineProps {
+  backendId: string;
+  channelId: number;
+  // Current status per service, for services without transitions in the window
+  statuses: Record<ServiceType, ServiceStatus>;
+}
+
+const SERVICES: { service: ServiceType; label: string; colorClass: string }[] = [
+  { service: 'rx', label: 'RX', colorClass: 'text-rx' },
+  { service: 'rec', label: 'REC', colorClass: 'text-rec' },
+  { service: 'rtmp', label: 'RTMP', colorClass: 'text-rtmp' },
+];
+
+const LEGEND: ServiceStatus[] = ['running', 'starting', 'stopping', 'stopped', 'error'];
+const TICKS = 5;
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit', hour12: false });
+
+// State of each service over time, with the operator actions that caused transitions marked on top
+export function ServiceTimeline({ backendId, channelId, statuses }: ServiceTimelineProps) {
+  const [range, setRange] = useState<HistoryRange>('24h');
+  const [serviceFilter, setServiceFilter] = useState<ServiceType | 'all'>('all');
+  const [causeFilter, setCauseFilter] = useState<ServiceEventCause | 'all'>('all');
+  const { events, fetchedAt, isLoading, isFetching, error } = useServiceEvents(backendId, channelId, range);
+
+  const to = fetchedAt || Date.now();
+  const from = to - rangeMs(range);
+  const span = to - from;
+  const position = (time: number) => `${((time - from) / span) * 100}%`;
+
+  const listed = events.filter(e =>
+    (serviceFilter === 'all' || e.service === serviceFilter) && (causeFilter === 'all' || e.cause === causeFilter));
+
+  return (
+    <div className="rounded-lg border border-border bg-card p-4 space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <h4 className="font-semibold flex items-center gap-2">
+          <GanttChart className="h-5 w-5 text-primary" />
+          Service Timeline
+          {isFetching && <Loader2 className="h-3.5 w-3.5 animate-spin text-muted-foreground" />}
+        </h4>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          variant="outline"
+          value={range}
+          onValueChange={(value) => value && setRange(value as HistoryRange)}
+        >
+          {HISTORY_RANGES.map(r => (
+            <ToggleGroupItem key={r.value} value={r.value} className="h-7 px-2.5 text-xs">
+              {r.label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      {error ? (
+        <p className="py-12 text-center text-sm text-status-error">{error}</p>
+      ) : isLoading ? (
+        <div className="h-32 animate-pulse rounded bg-secondary" />
+      ) : (
+        <>
+          <div className="space-y-2">
+            {SERVICES.map(({ service, label, colorClass }) => {
+              const { failures, restarts } = countIncidents(events, service);
+              const actions = events.filter(e => e.kind === 'action' && e.service === service);
+              return (
+                <div key={service} className="grid grid-cols-[3.5rem_1fr_7rem] items-center gap-3">
+                  <span className={cn('text-xs font-semibold', colorClass)}>{label}</span>
+                  <div className="relative h-6 overflow-hidden rounded bg-secondary">
+                    {toSegments(events, service, statuses[service], from, to).map(segment => (
+                      <div
+                        key={segment.from}
+                        className={cn('absolute inset-y-0', segmentClasses[segment.status])}
+                        style={{ left: position(segment.from), width: `${((segment.to - segment.from) / span) * 100}%` }}
+                        title={`${segment.status} · ${formatTime(new Date(segment.from).toISOString())} – ${formatTime(new Date(segment.to).toISOString())}`}
+                      />
+                    ))}
+                    {actions.map(action => (
+                      <div
+                        key={action.id}
+                        className={cn(
+                          'absolute inset-y-0 w-[3px] -translate-x-1/2 rounded-full ring-1 ring-background',
+                          action.error ? 'bg-status-error' : 'bg-foreground'
+                        )}
+                        style={{ left: position(new Date(action.timestamp).getTime()) }}
+                        title={`${formatTime(action.timestamp)} · ${describeEvent(action)}`}
+                      />
+                    ))}
+                  </div>
+                  <span className="text-[11px] text-muted-foreground text-right">
+                    <span className={cn(failures > 0 && 'text-status-error')}>{failures} failed</span>
+                    {' · '}
+                    <span className={cn(restarts > 0 && 'text-status-stopped')}>{restarts} restarted</span>
+                  </span>
+                </div>
+              );
+            })}
+            <div className="grid grid-cols-[3.5rem_1fr_7rem] gap-3">
+              <div className="relative col-start-2 h-4 text-[10px] text-muted-foreground font-mono">
+                {Array.from({ length: TICKS }, (_, i) => from + (span * i) / (TICKS - 1)).map((time, i) => (
+                  <span
+                    key={time}
+                    className={cn('absolute', i === 0 ? 'left-0' : i === TICKS - 1 ? 'right-0' : '-translate-x-1/2')}
+                    style={i > 0 && i < TICKS - 1 ? { left: position(time) } : undefined}
+                  >
+                    {formatTick(time, span)}
+                  </span>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-[11px] text-muted-foreground">
+            {LEGEND.map(status => (
+              <span key={status} className="flex items-center gap-1.5 capitalize">
+                <span className={cn('h-2 w-3 rounded-sm', segmentClasses[status])} />
+                {status}
+              </span>
+            ))}
+            <span className="flex items-center gap-1.5">
+              <span className="h-3 w-[3px] rounded-full bg-foreground" />
+              Start/stop/restart requested
+            </span>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <h5 className="text-sm font-medium">Events</h5>
+              <div className="flex items-center gap-2">
+                <Select value={serviceFilter} onValueChange={(v) => setServiceFilter(v as ServiceType | 'all')}>
+                  <SelectTrigger className="h-7 w-28 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All services</SelectItem>
+                    {SERVICES.map(({ service, label }) => (
+                      <SelectItem key={service} value={service}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={causeFilter} onValueChange={(v) => setCauseFilter(v as ServiceEventCause | 'all')}>
+                  <SelectTrigger className="h-7 w-32 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All causes</SelectItem>
+                    {(Object.keys(causeLabels) as ServiceEventCause[]).map(cause => (
+                      <SelectItem key={cause} value={cause}>{causeLabels[cause]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {listed.length === 0 ? (
+              <p className="py-6 text-center text-sm text-muted-foreground">No service events in this window</p>
+            ) : (
+              <div className="max-h-64 overflow-y-auto">
+                <table className="w-full text-xs">
+                  <tbody>
+                    {listed.map(event => (
+                      <tr key={event.id} className="border-t border-border/50 first:border-t-0">
+                        <td className="py-1.5 pr-3 font-mono whitespace-nowrap text-muted-foreground">{formatTime(event.timestamp)}</td>
+                        <td className={cn('py-1.5 pr-3 font-semibold', SERVICES.find(s => s.service === event.service)?.colorClass)}>
+                          {event.service.toUpperCase()}
+                        </td>
+                        <td className={cn('py-1.5 pr-3', event.kind === 'action' && 'font-medium')}>
+                          {describeEvent(event)}
+                          {event.kind === 'transition' && event.detail && (
+                            <span className="text-muted-foreground"> · {event.detail}</span>
+                          )}
+                        </td>
+                        <td className="py-1.5 text-right">
+                          <span className={cn('rounded border px-1.5 py-0.5 text-[10px] uppercase tracking-wider', causeStyles[event.cause])}>
+                            {event.kind === 'action' ? 'Action' : causeLabels[event.cause]}
+                          </span>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
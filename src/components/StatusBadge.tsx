@@ -8,13 +8,25 @@ interface StatusBadgeProps {
   pulse?: boolean;
 }
 
-const statusConfig = {
+const statusConfig: Record<ServiceStatus, { label: string; dotClass: string; textClass: string; glowClass: string }> = {
   running: {
     label: 'Running',
     dotClass: 'bg-status-running',
     textClass: 'text-status-running',
     glowClass: 'shadow-[0_0_8px_hsl(150_80%_45%/0.5)]',
   },
+  starting: {
+    label: 'Starting',
+    dotClass: 'bg-status-running/60',
+    textClass: 'text-status-running/80',
+    glowClass: '',
+  },
+  stopping: {
+    label: 'Stopping',
+    dotClass: 'bg-status-stopped/60',
+    textClass: 'text-status-stopped/80',
+    glowClass: '',
+  },
   stopped: {
     label: 'Stopped',
     dotClass: 'bg-status-stopped',
@@ -27,6 +39,12 @@ const statusConfig = {
     textClass: 'text-status-error',
     glowClass: 'shadow-[0_0_8px_hsl(30_95%_55%/0.5)]',
   },
+  'not-found': {
+    label: 'Not Installed',
+    dotClass: 'bg-status-unknown',
+    textClass: 'text-status-unknown',
+    glowClass: '',
+  },
   unknown: {
     label: 'Unknown',
     dotClass: 'bg-status-unknown',
@@ -57,7 +75,7 @@ export function StatusBadge({ status, showLabel = true, size = 'md', pulse = tru
           'rounded-full',
           sizeClasses.dot,
           config.dotClass,
-          pulse && status === 'running' && 'status-pulse',
+          pulse && (status === 'running' || status === 'starting' || status === 'stopping') && 'status-pulse',
           config.glowClass
         )}
       />
@@ -0,0 +1,59 @@
+import { KeyboardEvent, useState } from 'react';
+import { X } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+
+interface TagInputProps {
+  id?: string;
+  value: string[];
+  onChange: (tags: string[]) => void;
+  placeholder?: string;
+  className?: string;
+}
+
+// Tags as removable chips; Enter or comma adds the typed tag, Backspace on empty input removes the last
+export function TagInput({ id, value, onChange, placeholder, className }: TagInputProps) {
+  const [draft, setDraft] = useState('');
+
+  const add = (text: string) => {
+    const tag = text.trim();
+    if (tag && !value.includes(tag)) onChange([...value, tag]);
+    setDraft('');
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      add(draft);
+    } else if (e.key === 'Backspace' && !draft && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className={cn('flex flex-wrap items-center gap-1 rounded-md border border-input bg-background px-2 py-1', className)}>
+      {value.map(tag => (
+        <span key={tag} className="flex items-center gap-1 rounded bg-secondary px-1.5 py-0.5 text-xs">
+          {tag}
+          <button
+            type="button"
+            onClick={() => onChange(value.filter(t => t !== tag))}
+            className="text-muted-foreground hover:text-foreground"
+            aria-label={`Remove tag ${tag}`}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </span>
+      ))}
+      <Input
+        id={id}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => add(draft)}
+        placeholder={value.length === 0 ? placeholder : undefined}
+        className="h-7 min-w-24 flex-1 border-0 px-1 shadow-none focus-visible:ring-0 focus-visible:ring-offset-0"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import { ListChecks, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Tr101290Indicator } from '@/types/stream';
+import { useResetTr101290, useTr101290 } from '@/hooks/useStreamAnalysis';
+import { usePermissions } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { permissionHint } from '@/lib/roles';
+import { cn } from '@/lib/utils';
+
+interface Tr101290GridProps {
+  backendId: string;
+  channelId: number;
+}
+
+// Red: failing in the latest run; amber: failed since the counters were reset
+function lightClass(indicator: Tr101290Indicator): string {
+  if (indicator.status === 'error') return 'bg-status-stopped glow-stopped';
+  if (indicator.status === 'unknown') return 'bg-status-unknown';
+  return indicator.errors > 0 ? 'bg-status-error' : 'bg-status-running';
+}
+
+function IndicatorCell({ indicator }: { indicator: Tr101290Indicator }) {
+  const title = [indicator.description, indicator.lastDetail && `Last: ${indicator.lastDetail}`].filter(Boolean).join('\n');
+
+  return (
+    <div className="flex items-center gap-3 rounded-md bg-secondary/50 px-3 py-2" title={title}>
+      <span className={cn("h-3 w-3 shrink-0 rounded-full", lightClass(indicator))} />
+      <div className="flex-1 min-w-0">
+        <div className="text-sm truncate">
+          <span className="font-mono text-xs text-muted-foreground mr-1.5">{indicator.id}</span>
+          {indicator.name}
+        </div>
+        <div className="text-xs text-muted-foreground truncate">
+          {indicator.lastOccurredAt
+            ? `Last ${new Date(indicator.lastOccurredAt).toLocaleString()}`
+            : indicator.status === 'unknown' ? 'Not measured' : 'No errors'}
+        </div>
+      </div>
+      <span className={cn("font-mono text-sm", indicator.errors > 0 ? "text-status-error" : "text-muted-foreground")}>
+        {indicator.errors.toLocaleString()}
+      </span>
+    </div>
+  );
+}
+
+// TR 101 290 priority 1 and 2 indicators from the backend's periodic analysis runs
+export function Tr101290Grid({ backendId, channelId }: Tr101290GridProps) {
+  const { report, error } = useTr101290(backendId, channelId);
+  const reset = useResetTr101290(backendId, channelId);
+  const { can } = usePermissions(backendId);
+  const { toast } = useToast();
+  const canReset = can('controlServices');
+
+  const handleReset = () => {
+    reset.mutate(undefined, {
+      onError: (err) => toast({ title: 'Reset failed', description: err.message, variant: 'destructive' }),
+    });
+  };
+
+  return (
+    <div className="rounded-lg border border-border bg-card p-4">
+      <div className="flex items-start justify-between gap-2 mb-4">
+        <div>
+          <h4 className="font-semibold flex items-center gap-2">
+            <ListChecks className="h-5 w-5 text-primary" />
+            TR 101 290
+          </h4>
+          {report && (
+            <p className="text-xs text-muted-foreground">
+              {report.updatedAt
+                ? `Checked ${new Date(report.updatedAt).toLocaleTimeString()}${report.available ? '' : ' without a stream'}`
+                : 'Not checked yet'}
+              {' · '}errors counted since {new Date(report.countersResetAt).toLocaleString()}
+            </p>
+          )}
+        </div>
+        {report && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 gap-1 text-xs shrink-0"
+            disabled={!canReset || reset.isPending}
+            onClick={handleReset}
+            title={!canReset ? permissionHint('controlServices') : undefined}
+          >
+            <RotateCcw className="h-3.5 w-3.5" />
+            Reset counters
+          </Button>
+        )}
+      </div>
+
+      {report ? (
+        <div className="grid gap-4 md:grid-cols-2">
+          {([1, 2] as const).map(priority => (
+            <div key={priority} className="space-y-2">
+              <p className="text-xs font-medium uppercase tracking-wider text-muted-foreground">Priority {priority}</p>
+              {report.indicators
+                .filter(indicator => indicator.priority === priority)
+                .map(indicator => <IndicatorCell key={indicator.id} indicator={indicator} />)}
+            </div>
+          ))}
+        </div>
+      ) : error ? (
+        <p className="text-sm text-status-error">{error}</p>
+      ) : (
+        <div className="animate-pulse bg-secondary rounded h-32" />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,282 @@
+import { useState } from 'react';
+import { AlertCircle, KeyRound, Plus, RefreshCw, Trash2, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Role, User } from '@/types/auth';
+import { useCreateUser, useCurrentUser, useDeleteUser, useUpdateUser, useUsers } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { ROLES, roleDescriptions, roleLabels } from '@/lib/roles';
+import { cn } from '@/lib/utils';
+
+interface UsersSettingsProps {
+  backendId: string;
+}
+
+// Add-user dialog, or the new password for an existing user
+interface UserForm {
+  // null: adding a user
+  user: User | null;
+  username: string;
+  password: string;
+  role: Role;
+}
+
+const EMPTY_FORM: UserForm = { user: null, username: '', password: '', role: 'viewer' };
+
+export function UsersSettings({ backendId }: UsersSettingsProps) {
+  const { data: users, isLoading, error } = useUsers(backendId);
+  const { data: currentUser } = useCurrentUser(backendId);
+  const createUser = useCreateUser(backendId);
+  const updateUser = useUpdateUser(backendId);
+  const deleteUser = useDeleteUser(backendId);
+  const { toast } = useToast();
+
+  const [form, setForm] = useState<UserForm | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<User | null>(null);
+  const isSaving = createUser.isPending || updateUser.isPending;
+
+  const updateForm = (changes: Partial<UserForm>) => setForm(prev => prev && { ...prev, ...changes });
+
+  const handleUpdate = (user: User, updates: { role?: Role; disabled?: boolean }) => {
+    updateUser.mutate(
+      { id: user.id, updates },
+      { onError: (err) => toast({ title: 'Failed to update user', description: err.message, variant: 'destructive' }) }
+    );
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    try {
+      if (form.user) {
+        await updateUser.mutateAsync({ id: form.user.id, updates: { password: form.password } });
+        toast({ title: 'Password changed', description: `${form.user.username} has been signed out everywhere` });
+      } else {
+        await createUser.mutateAsync({ username: form.username.trim(), password: form.password, role: form.role });
+        toast({ title: 'User added', description: form.username.trim() });
+      }
+      setForm(null);
+    } catch (err) {
+      toast({ title: 'Failed to save user', description: (err as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const handleDelete = () => {
+    if (!pendingDelete) return;
+    const { id, username } = pendingDelete;
+    deleteUser.mutate(id, {
+      onSuccess: () => toast({ title: 'User deleted', description: username }),
+      onError: (err) => toast({ title: 'Failed to delete user', description: err.message, variant: 'destructive' }),
+    });
+    setPendingDelete(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <Users className="h-5 w-5" />
+              Users
+            </CardTitle>
+            <CardDescription>
+              Accounts that can sign in to this backend. Each role can do everything the ones above it in the list can.
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={() => setForm(users?.length === 0 ? { ...EMPTY_FORM, role: 'admin' } : EMPTY_FORM)} className="gap-2 shrink-0">
+            <Plus className="h-4 w-4" />
+            Add User
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {error ? (
+            <div className="flex items-center gap-2 rounded-lg border border-status-error/50 bg-status-error/10 p-3 text-sm text-status-error">
+              <AlertCircle className="h-4 w-4 shrink-0" />
+              Could not load users: {error.message}
+            </div>
+          ) : isLoading || !users ? (
+            <div className="animate-pulse bg-secondary rounded h-24" />
+          ) : users.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">
+              No users; the backend is open to anyone unless an API key or tokens are set. The first user must be an admin.
+            </p>
+          ) : (
+            <div className="divide-y divide-border/50">
+              {users.map(user => {
+                const isSelf = user.username === currentUser?.username;
+                return (
+                  <div key={user.id} className="flex items-center gap-4 py-3">
+                    <Switch
+                      checked={!user.disabled}
+                      onCheckedChange={(enabled) => handleUpdate(user, { disabled: !enabled })}
+                      disabled={isSelf}
+                      aria-label={`Enable ${user.username}`}
+                    />
+                    <div className={cn("flex-1 min-w-0", user.disabled && "opacity-60")}>
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-sm truncate">{user.username}</span>
+                        {isSelf && <span className="text-[10px] uppercase tracking-wider text-muted-foreground">You</span>}
+                        {user.disabled && <span className="text-[10px] uppercase tracking-wider text-muted-foreground">Disabled</span>}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Added {new Date(user.createdAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <Select value={user.role} onValueChange={(role) => handleUpdate(user, { role: role as Role })}>
+                      <SelectTrigger className="w-36" aria-label={`Role of ${user.username}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ROLES.map(role => (
+                          <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => setForm({ ...EMPTY_FORM, user, username: user.username, role: user.role })}
+                      aria-label={`Change password of ${user.username}`}
+                    >
+                      <KeyRound className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-muted-foreground hover:text-status-error"
+                      onClick={() => setPendingDelete(user)}
+                      disabled={isSelf}
+                      aria-label={`Delete ${user.username}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Roles</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <dl className="grid grid-cols-[auto_1fr] gap-x-6 gap-y-2 text-sm">
+            {ROLES.map(role => (
+              <div key={role} className="contents">
+                <dt className="font-medium">{roleLabels[role]}</dt>
+                <dd className="text-muted-foreground">{roleDescriptions[role]}</dd>
+              </div>
+            ))}
+          </dl>
+        </CardContent>
+      </Card>
+
+      <Dialog open={form !== null} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent className="sm:max-w-md border-border bg-card">
+          <DialogHeader>
+            <DialogTitle>{form?.user ? `Change password of ${form.user.username}` : 'Add User'}</DialogTitle>
+            <DialogDescription>
+              {form?.user
+                ? 'The user is signed out everywhere and signs in again with the new password.'
+                : 'The user signs in with this username and password.'}
+            </DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              {!form.user && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="userUsername">Username</Label>
+                    <Input
+                      id="userUsername"
+                      value={form.username}
+                      onChange={(e) => updateForm({ username: e.target.value })}
+                      placeholder="e.g. jdoe"
+                      autoComplete="off"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="userRole">Role</Label>
+                    <Select value={form.role} onValueChange={(role) => updateForm({ role: role as Role })}>
+                      <SelectTrigger id="userRole">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ROLES.map(role => (
+                          <SelectItem key={role} value={role}>
+                            {roleLabels[role]} <span className="text-muted-foreground">· {roleDescriptions[role]}</span>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="userPassword">{form.user ? 'New password' : 'Password'}</Label>
+                <Input
+                  id="userPassword"
+                  type="password"
+                  value={form.password}
+                  onChange={(e) => updateForm({ password: e.target.value })}
+                  placeholder="At least 8 characters"
+                  autoComplete="new-password"
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={isSaving || !form?.password || (!form.user && !form.username.trim())}>
+              {isSaving && <RefreshCw className="h-4 w-4 mr-2 animate-spin" />}
+              {form?.user ? 'Change Password' : 'Add User'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent className="border-border bg-card">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete “{pendingDelete?.username}”?</AlertDialogTitle>
+            <AlertDialogDescription>
+              They are signed out and can no longer sign in. Their entries in the audit log are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="border-border">Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-status-error hover:bg-status-error/90">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
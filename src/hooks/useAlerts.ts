@@ -0,0 +1,121 @@
+import { useQuery, useQueries, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Alert, AlertRule, AlertRuleInput } from '@/types/alerts';
+import { getApi, unwrap } from '@/services/api';
+import { queryKeys } from '@/services/queryKeys';
+import { mergeAlert } from '@/lib/alerts';
+import { useLiveEventFromBackends } from './useLiveEvents';
+
+export interface BackendAlert extends Alert {
+  backendId: string;
+}
+
+export interface SilenceAlertVariables {
+  backendId: string;
+  id: string;
+  durationMinutes: number;
+}
+
+// Alerts from several backends, kept current by 'alert' live events and refetched after a reconnect
+export function useAlertsAcrossBackends(backendIds: string[]) {
+  const queryClient = useQueryClient();
+
+  useLiveEventFromBackends(backendIds, 'alert', (backendId, event) => {
+    queryClient.setQueryData<Alert[]>(queryKeys.alertList(backendId), (prev) => mergeAlert(prev, event.alert));
+  });
+
+  useLiveEventFromBackends(backendIds, 'snapshot', (backendId) => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.alertList(backendId) });
+  });
+
+  return useQueries({
+    queries: backendIds.map((backendId) => ({
+      queryKey: queryKeys.alertList(backendId),
+      queryFn: ({ signal }: { signal: AbortSignal }) => unwrap(getApi(backendId).getAlerts({ signal })),
+      refetchInterval: 60000,
+    })),
+    combine: (results) => ({
+      alerts: results.flatMap((result, i) =>
+        (result.data ?? []).map((alert): BackendAlert => ({ ...alert, backendId: backendIds[i] }))
+      ),
+      isLoading: results.some((result) => result.isLoading),
+    }),
+  });
+}
+
+export function useAcknowledgeAlert() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ backendId, id }: { backendId: string; id: string }) =>
+      unwrap(getApi(backendId).acknowledgeAlert(id)),
+    onSuccess: (alert, { backendId }) => {
+      queryClient.setQueryData<Alert[]>(queryKeys.alertList(backendId), (prev) => mergeAlert(prev, alert));
+    },
+  });
+}
+
+// Silence an alert's rule and subject for durationMinutes; 0 lifts the silence
+export function useSilenceAlert() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ backendId, id, durationMinutes }: SilenceAlertVariables) =>
+      unwrap(getApi(backendId).silenceAlert(id, durationMinutes)),
+    onSuccess: (alert, { backendId }) => {
+      queryClient.setQueryData<Alert[]>(queryKeys.alertList(backendId), (prev) => mergeAlert(prev, alert));
+    },
+  });
+}
+
+export function useAlertRules(backendId: string) {
+  return useQuery({
+    queryKey: queryKeys.alertRules(backendId),
+    queryFn: ({ signal }) => unwrap(getApi(backendId).getAlertRules({ signal })),
+  });
+}
+
+export function useCreateAlertRule(backendId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (rule: AlertRuleInput) => unwrap(getApi(backendId).createAlertRule(rule)),
+    onSuccess: (rule) => {
+      queryClient.setQueryData<AlertRule[]>(queryKeys.alertRules(backendId), (prev) => prev && [...prev, rule]);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.alertRules(backendId) });
+    },
+  });
+}
+
+export function useUpdateAlertRule(backendId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, updates }: { id: string; updates: Partial<AlertRuleInput> }) =>
+      unwrap(getApi(backendId).updateAlertRule(id, updates)),
+    onSuccess: (rule) => {
+      queryClient.setQueryData<AlertRule[]>(queryKeys.alertRules(backendId), (prev) =>
+        prev?.map((r) => (r.id === rule.id ? rule : r))
+      );
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.alertRules(backendId) });
+    },
+  });
+}
+
+// Open alerts of a deleted rule resolve on the backend's next evaluation and arrive as live events
+export function useDeleteAlertRule(backendId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => unwrap(getApi(backendId).deleteAlertRule(id)),
+    onSuccess: (_data, id) => {
+      queryClient.setQueryData<AlertRule[]>(queryKeys.alertRules(backendId), (prev) => prev?.filter((r) => r.id !== id));
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.alertRules(backendId) });
+    },
+  });
+}
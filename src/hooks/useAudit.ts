@@ -0,0 +1,26 @@
+import { useQuery, useMutation, keepPreviousData } from '@tanstack/react-query';
+import { AuditFilters } from '@/types/audit';
+import { getApi, unwrap } from '@/services/api';
+import { queryKeys } from '@/services/queryKeys';
+
+// Most entries the backend returns in one request, and so the most one export holds
+export const AUDIT_EXPORT_LIMIT = 5000;
+
+// One page of the audit log; the previous page stays up while the next loads
+export function useAuditLog(backendId: string, filters: AuditFilters, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.auditPage(backendId, filters),
+    queryFn: ({ signal }) => unwrap(getApi(backendId).getAuditLog(filters, { signal })),
+    enabled,
+    refetchInterval: 30000,
+    placeholderData: keepPreviousData,
+  });
+}
+
+// Every entry matching the filters, newest first, for a CSV export
+export function useExportAuditLog(backendId: string) {
+  return useMutation({
+    mutationFn: (filters: AuditFilters) =>
+      unwrap(getApi(backendId).getAuditLog({ ...filters, offset: 0, limit: AUDIT_EXPORT_LIMIT })),
+  });
+}
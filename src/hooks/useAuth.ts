@@ -0,0 +1,140 @@
+import { useEffect } from 'react';
+import { useQuery, useQueries, useMutation, useQueryClient } from '@tanstack/react-query';
+import { CurrentUser, Role, User, UserInput, UserUpdate } from '@/types/auth';
+import { getApi, unwrap } from '@/services/api';
+import { queryKeys } from '@/services/queryKeys';
+import { ApiError } from '@/services/http';
+import { getBackendUrl, signIn, updateBackend } from '@/services/backendConfig';
+import { PERMISSIONS, Permission, hasRole } from '@/lib/roles';
+
+// Who this browser is signed in as on a backend, and with which role
+export function useCurrentUser(backendId: string) {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: queryKeys.currentUser(backendId),
+    queryFn: ({ signal }) => unwrap(getApi(backendId).getCurrentUser({ signal })),
+    staleTime: 60_000,
+  });
+
+  // Signing in or out, or new credentials, change who we are
+  useEffect(() => {
+    const handleConfigChange = () => queryClient.invalidateQueries({ queryKey: queryKeys.currentUser(backendId) });
+    window.addEventListener('backend-config-change', handleConfigChange);
+    return () => window.removeEventListener('backend-config-change', handleConfigChange);
+  }, [backendId, queryClient]);
+
+  return query;
+}
+
+function effectiveRole(user: CurrentUser | undefined, error: Error | null): Role | null {
+  const legacy = error instanceof ApiError && error.status === 404;
+  return user?.role ?? (legacy ? 'admin' : null);
+}
+
+/**
+ * What the current user may do on a backend. Controls stay disabled until the
+ * role is known; backends from before accounts existed have no /api/auth/me
+ * and let everyone do everything.
+ */
+export function usePermissions(backendId: string) {
+  const { data, error } = useCurrentUser(backendId);
+  const role = effectiveRole(data, error);
+  const can = (permission: Permission) => hasRole(role, PERMISSIONS[permission]);
+  return { role, can };
+}
+
+// usePermissions for several backends at once, e.g. actions listed across backends
+export function usePermissionsAcrossBackends(backendIds: string[]) {
+  const results = useQueries({
+    queries: backendIds.map((backendId) => ({
+      queryKey: queryKeys.currentUser(backendId),
+      queryFn: ({ signal }: { signal: AbortSignal }) => unwrap(getApi(backendId).getCurrentUser({ signal })),
+      staleTime: 60_000,
+    })),
+  });
+
+  return (backendId: string, permission: Permission) => {
+    const result = results[backendIds.indexOf(backendId)];
+    return !!result && hasRole(effectiveRole(result.data, result.error), PERMISSIONS[permission]);
+  };
+}
+
+// Sign in to a saved backend with a user account, switching it to account auth
+export function useSignIn(backendId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ username, password }: { username: string; password: string }) => {
+      const result = await signIn(getBackendUrl(backendId), username, password);
+      if (!result.success) throw new Error(result.message);
+      return { authMode: 'account' as const, username, sessionToken: result.sessionToken };
+    },
+    onSuccess: (session) => {
+      updateBackend(backendId, session);
+      // Everything that failed while signed out
+      queryClient.invalidateQueries();
+    },
+  });
+}
+
+// End the session and forget its token
+export function useSignOut(backendId: string) {
+  return useMutation({
+    mutationFn: () => unwrap(getApi(backendId).logout()),
+    onSettled: () => updateBackend(backendId, { sessionToken: undefined }),
+  });
+}
+
+export function useUsers(backendId: string, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.users(backendId),
+    queryFn: ({ signal }) => unwrap(getApi(backendId).getUsers({ signal })),
+    enabled,
+  });
+}
+
+export function useCreateUser(backendId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: UserInput) => unwrap(getApi(backendId).createUser(input)),
+    onSuccess: (user) => {
+      queryClient.setQueryData<User[]>(queryKeys.users(backendId), (prev) => prev && [...prev, user]);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.users(backendId) });
+    },
+  });
+}
+
+export function useUpdateUser(backendId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, updates }: { id: string; updates: UserUpdate }) =>
+      unwrap(getApi(backendId).updateUser(id, updates)),
+    onSuccess: (user) => {
+      queryClient.setQueryData<User[]>(queryKeys.users(backendId), (prev) => prev?.map((u) => (u.id === user.id ? user : u)));
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.users(backendId) });
+      // Our own role may have changed
+      queryClient.invalidateQueries({ queryKey: queryKeys.currentUser(backendId) });
+    },
+  });
+}
+
+export function useDeleteUser(backendId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => unwrap(getApi(backendId).deleteUser(id)),
+    onSuccess: (_, id) => {
+      queryClient.setQueryData<User[]>(queryKeys.users(backendId), (prev) => prev?.filter((u) => u.id !== id));
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.users(backendId) });
+    },
+  });
+}
@@ -0,0 +1,45 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  BackendEntry,
+  ALL_BACKENDS,
+  getBackends,
+  getActiveBackendId,
+  setActiveBackendId,
+} from '@/services/backendConfig';
+
+interface BackendsState {
+  backends: BackendEntry[];
+  activeId: string;
+}
+
+function readState(): BackendsState {
+  return { backends: getBackends(), activeId: getActiveBackendId() };
+}
+
+// Configured backends and the header switcher selection, kept in sync with localStorage
+export function useBackends() {
+  const [state, setState] = useState<BackendsState>(readState);
+
+  useEffect(() => {
+    const handleConfigChange = () => setState(readState());
+    window.addEventListener('backend-config-change', handleConfigChange);
+    return () => window.removeEventListener('backend-config-change', handleConfigChange);
+  }, []);
+
+  const setActive = useCallback((id: string) => setActiveBackendId(id), []);
+
+  const isAggregated = state.activeId === ALL_BACKENDS;
+  const visibleBackends = useMemo(
+    () => (isAggregated ? state.backends : state.backends.filter(b => b.id === state.activeId)),
+    [isAggregated, state.backends, state.activeId]
+  );
+
+  return {
+    backends: state.backends,
+    activeId: state.activeId,
+    isAggregated,
+    // Backends shown on the dashboard: all of them in the aggregated view, else the active one
+    visibleBackends,
+    setActive,
+  };
+}
@@ -0,0 +1,14 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { ChannelFilters, filtersFromParams, filtersToParams } from '@/lib/channelFilters';
+
+// Dashboard filters backed by the URL query; updates replace the history entry so typing doesn't flood it
+export function useChannelFilters() {
+  const [params, setParams] = useSearchParams();
+  const filters = useMemo(() => filtersFromParams(params), [params]);
+  const setFilters = useCallback(
+    (next: ChannelFilters) => setParams(current => filtersToParams(next, current), { replace: true }),
+    [setParams]
+  );
+  return { filters, setFilters };
+}
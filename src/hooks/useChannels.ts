@@ -0,0 +1,324 @@
+import { useRef, useState } from 'react';
+import { useQuery, useQueries, useMutation, useQueryClient, useMutationState, QueryClient } from '@tanstack/react-query';
+import { Channel, ChannelConfig, ServiceState, ServiceType } from '@/types/channel';
+import { ApplyOptions, BulkChannelResult, BulkRestartStrategy } from '@/types/apply';
+import { ChangeInfo } from '@/types/history';
+import { ConfigApplyEvent } from '@/types/events';
+import { getApi, unwrap } from '@/services/api';
+import { queryKeys } from '@/services/queryKeys';
+import { getChangeAuthor } from '@/services/changeAuthor';
+import { diffConfig, getAffectedServices } from '@/lib/configDiff';
+import { useLiveEvent, useLiveStreamStatus } from './useLiveEvents';
+
+export type ServiceAction = 'start' | 'stop' | 'restart';
+
+export interface ServiceActionVariables {
+  backendId: string;
+  channelId: number;
+  service: ServiceType;
+  action: ServiceAction;
+}
+
+export interface BulkActionVariables {
+  backendId: string;
+  service: ServiceType;
+  action: ServiceAction;
+  channelIds?: number[];
+}
+
+const SERVICE_ACTION_KEY = ['service-action'] as const;
+const BULK_ACTION_KEY = ['bulk-action'] as const;
+
+// Patch a service state in both the channel list and channel detail caches
+function setServiceState(
+  queryClient: QueryClient,
+  backendId: string,
+  channelId: number,
+  service: ServiceType,
+  state: Partial<ServiceState>
+) {
+  queryClient.setQueryData<Channel[]>(queryKeys.channelList(backendId), (prev) =>
+    prev?.map((ch) => (ch.id === channelId ? { ...ch, [service]: { ...ch[service], ...state } } : ch))
+  );
+  queryClient.setQueryData<Channel>(queryKeys.channel(backendId, channelId), (prev) =>
+    prev ? { ...prev, [service]: { ...prev[service], ...state } } : prev
+  );
+}
+
+// All channels on a backend with status; kept current by live events, polled while the stream is down
+export function useChannels(backendId: string) {
+  const queryClient = useQueryClient();
+  const isLive = useLiveStreamStatus(backendId) === 'open';
+
+  const query = useQuery({
+    queryKey: queryKeys.channelList(backendId),
+    queryFn: ({ signal }) => unwrap(getApi(backendId).getChannels({ signal })),
+    refetchInterval: isLive ? false : 5000,
+  });
+
+  useLiveEvent(backendId, 'service-state', (event) => {
+    setServiceState(queryClient, backendId, event.channelId, event.service, event.state);
+  });
+
+  useLiveEvent(backendId, 'snapshot', (snapshot) => {
+    for (const entry of snapshot.services) {
+      setServiceState(queryClient, backendId, entry.channelId, entry.service, entry.state);
+    }
+  });
+
+  useLiveEvent(backendId, 'channels-changed', () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.backendChannels(backendId) });
+  });
+
+  return query;
+}
+
+// Channel lists for several backends at once, read from the same cache entries as useChannels;
+// refreshing and live patching are left to the per-backend useChannels observers
+export function useChannelsAcrossBackends(backendIds: string[]) {
+  return useQueries({
+    queries: backendIds.map((backendId) => ({
+      queryKey: queryKeys.channelList(backendId),
+      queryFn: ({ signal }: { signal: AbortSignal }) => unwrap(getApi(backendId).getChannels({ signal })),
+    })),
+  });
+}
+
+// Single channel, seeded from the channel list so opening details doesn't refetch
+export function useChannel(backendId: string, id: number | null) {
+  const queryClient = useQueryClient();
+
+  return useQuery({
+    queryKey: queryKeys.channel(backendId, id ?? 0),
+    queryFn: ({ signal }) => unwrap(getApi(backendId).getChannel(id as number, { signal })),
+    enabled: id !== null,
+    staleTime: 5000,
+    initialData: () =>
+      queryClient.getQueryData<Channel[]>(queryKeys.channelList(backendId))?.find((c) => c.id === id),
+    initialDataUpdatedAt: () => queryClient.getQueryState(queryKeys.channelList(backendId))?.dataUpdatedAt,
+  });
+}
+
+// Channel configuration, seeded from the cached channel list
+export function useChannelConfig(backendId: string, id: number) {
+  const queryClient = useQueryClient();
+
+  return useQuery({
+    queryKey: queryKeys.config(backendId, id),
+    queryFn: ({ signal }) => unwrap(getApi(backendId).getConfig(id, { signal })),
+    staleTime: 5000,
+    initialData: () =>
+      queryClient.getQueryData<Channel[]>(queryKeys.channelList(backendId))?.find((c) => c.id === id)?.config,
+    initialDataUpdatedAt: () => queryClient.getQueryState(queryKeys.channelList(backendId))?.dataUpdatedAt,
+  });
+}
+
+// Config the channel's services are running with (null if the backend doesn't know)
+export function useAppliedConfig(backendId: string, id: number) {
+  return useQuery({
+    queryKey: queryKeys.appliedConfig(backendId, id),
+    queryFn: ({ signal }) => unwrap(getApi(backendId).getAppliedConfig(id, { signal })),
+    staleTime: 5000,
+  });
+}
+
+// Env file the services start with; refreshed by channels-changed like other channel queries
+export function useChannelEnv(backendId: string, id: number) {
+  return useQuery({
+    queryKey: queryKeys.channelEnv(backendId, id),
+    queryFn: ({ signal }) => unwrap(getApi(backendId).getChannelEnv(id, { signal })),
+  });
+}
+
+// Saved versions of the channel config, newest first; refreshed by channels-changed like other channel queries
+export function useConfigHistory(backendId: string, id: number) {
+  return useQuery({
+    queryKey: queryKeys.configHistory(backendId, id),
+    queryFn: ({ signal }) => unwrap(getApi(backendId).getConfigHistory(id, { signal })),
+  });
+}
+
+export function useChannelLogs(backendId: string, id: number, service: ServiceType, lines = 100) {
+  return useQuery({
+    queryKey: queryKeys.logs(backendId, id, service, lines),
+    queryFn: ({ signal }) => unwrap(getApi(backendId).getLogs(id, service, lines, { signal })),
+  });
+}
+
+const serviceActions = {
+  start: 'startService',
+  stop: 'stopService',
+  restart: 'restartService',
+} as const;
+
+// Start/stop/restart with an optimistic starting/stopping status, rolled back on failure
+export function useServiceAction() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: SERVICE_ACTION_KEY,
+    mutationFn: ({ backendId, channelId, service, action }: ServiceActionVariables) =>
+      unwrap(getApi(backendId)[serviceActions[action]](channelId, service)),
+    onMutate: async ({ backendId, channelId, service, action }) => {
+      await Promise.all([
+        queryClient.cancelQueries({ queryKey: queryKeys.channelList(backendId) }),
+        queryClient.cancelQueries({ queryKey: queryKeys.channel(backendId, channelId) }),
+      ]);
+      const previousList = queryClient.getQueryData<Channel[]>(queryKeys.channelList(backendId));
+      const previousChannel = queryClient.getQueryData<Channel>(queryKeys.channel(backendId, channelId));
+
+      setServiceState(queryClient, backendId, channelId, service, { status: action === 'stop' ? 'stopping' : 'starting' });
+
+      return { previousList, previousChannel };
+    },
+    onError: (_error, { backendId, channelId }, context) => {
+      if (context?.previousList) queryClient.setQueryData(queryKeys.channelList(backendId), context.previousList);
+      if (context?.previousChannel) queryClient.setQueryData(queryKeys.channel(backendId, channelId), context.previousChannel);
+    },
+    onSettled: (_data, _error, { backendId, channelId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.channelList(backendId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.channel(backendId, channelId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.appliedConfig(backendId, channelId) });
+    },
+  });
+}
+
+// In-flight service actions on one backend, keyed as `${channelId}-${service}`
+export function usePendingServiceActions(backendId: string): Record<string, boolean> {
+  const pending = useMutationState({
+    filters: { mutationKey: SERVICE_ACTION_KEY, status: 'pending' },
+    select: (mutation) => mutation.state.variables as ServiceActionVariables,
+  });
+
+  const states: Record<string, boolean> = {};
+  for (const { backendId: actionBackendId, channelId, service } of pending) {
+    if (actionBackendId !== backendId) continue;
+    states[`${channelId}-${service}`] = true;
+  }
+  return states;
+}
+
+export function useBulkServiceAction() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: BULK_ACTION_KEY,
+    mutationFn: ({ backendId, service, action, channelIds }: BulkActionVariables) =>
+      unwrap(getApi(backendId).bulkOperation(service, action, channelIds)),
+    onSettled: (_data, _error, { backendId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.backendChannels(backendId) });
+    },
+  });
+}
+
+// Whether a bulk action is running on a backend, wherever it was started from
+export function useIsBulkActionPending(backendId: string): boolean {
+  const pending = useMutationState({
+    filters: { mutationKey: BULK_ACTION_KEY, status: 'pending' },
+    select: (mutation) => (mutation.state.variables as BulkActionVariables).backendId,
+  });
+  return pending.includes(backendId);
+}
+
+export function useCreateChannel(backendId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ channelId, name, config }: { channelId: number; name: string; config?: Partial<ChannelConfig> }) =>
+      unwrap(getApi(backendId).createChannel(channelId, name, config)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.channelList(backendId) });
+    },
+  });
+}
+
+export function useSaveConfig(backendId: string, channelId: number) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ config, comment }: { config: ChannelConfig; comment?: string }) =>
+      unwrap(getApi(backendId).saveConfig(channelId, config, { author: getChangeAuthor(), comment })),
+    onSuccess: (_data, { config }) => {
+      queryClient.setQueryData(queryKeys.config(backendId, channelId), config);
+      queryClient.invalidateQueries({ queryKey: queryKeys.configHistory(backendId, channelId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.channelList(backendId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.channel(backendId, channelId) });
+    },
+  });
+}
+
+// Apply run ids correlate config-apply events with the request (randomUUID needs a secure context)
+const createApplyId = (channelId: number) =>
+  `${channelId}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Transactional apply (save, restart, verify, roll back on failure);
+// progress carries the live config-apply steps of the latest run
+export function useApplyConfig(backendId: string, channelId: number) {
+  const queryClient = useQueryClient();
+  const applyIdRef = useRef<string | null>(null);
+  const [progress, setProgress] = useState<ConfigApplyEvent | null>(null);
+
+  useLiveEvent(backendId, 'config-apply', (event) => {
+    if (event.applyId === applyIdRef.current) setProgress(event);
+  });
+
+  const mutation = useMutation({
+    mutationFn: ({ config, services, options }: { config: ChannelConfig; services: ServiceType[]; options?: ApplyOptions }) => {
+      const applyId = createApplyId(channelId);
+      applyIdRef.current = applyId;
+      setProgress(null);
+      const change: ChangeInfo = { author: getChangeAuthor(), ...options?.change };
+      return unwrap(getApi(backendId).applyConfig(channelId, config, services, { ...options, applyId, change }));
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.config(backendId, channelId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.appliedConfig(backendId, channelId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.configHistory(backendId, channelId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.channelList(backendId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.channel(backendId, channelId) });
+    },
+  });
+
+  return { ...mutation, progress };
+}
+
+// Save or apply edited configs on several channels, resolving with one result per channel.
+// Each channel restarts only the services its change affects, compared with what it runs now.
+export function useBulkConfigUpdate(backendId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ configs, strategy, comment }: { configs: ChannelConfig[]; strategy: BulkRestartStrategy; comment?: string }) => {
+      const api = getApi(backendId);
+      const change: ChangeInfo = { author: getChangeAuthor(), comment };
+
+      const update = async (config: ChannelConfig): Promise<BulkChannelResult> => {
+        const channelId = config.channelId;
+        try {
+          if (strategy === 'save-only') {
+            await unwrap(api.saveConfig(channelId, config, change));
+            return { channelId, status: 'saved', services: [] };
+          }
+          const running = (await unwrap(api.getAppliedConfig(channelId))) ?? (await unwrap(api.getConfig(channelId)));
+          const services = getAffectedServices(diffConfig(running, config));
+          const result = await unwrap(api.applyConfig(channelId, config, services, { applyId: createApplyId(channelId), change }));
+          return { channelId, status: result.outcome, services, error: result.error };
+        } catch (error) {
+          return { channelId, status: 'failed', services: [], error: (error as Error).message };
+        }
+      };
+
+      if (strategy === 'parallel') return Promise.all(configs.map(update));
+      const results: BulkChannelResult[] = [];
+      for (const config of configs) {
+        // Rolling: leave the remaining channels alone once one doesn't take the new config
+        const halted = strategy === 'rolling' && results.some(r => r.status !== 'applied');
+        results.push(halted ? { channelId: config.channelId, status: 'skipped', services: [] } : await update(config));
+      }
+      return results;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.backendChannels(backendId) });
+    },
+  });
+}
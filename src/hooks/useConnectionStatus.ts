@@ -1,36 +1,81 @@
 import { useState, useEffect, useCallback } from 'react';
-import { testBackendConnection, getBackendUrl } from '@/services/backendConfig';
+import { testBackendConnection, getBackendConfig, getBackendUrl, getActiveBackendId, UNAUTHORIZED_EVENT } from '@/services/backendConfig';
+import { useLiveEvent, useLiveStreamStatus } from './useLiveEvents';
 
 export interface ConnectionState {
-  status: 'connected' | 'disconnected' | 'checking';
+  status: 'connected' | 'disconnected' | 'unauthorized' | 'checking';
   message: string;
   url: string;
   lastChecked: Date | null;
+  live: boolean;
 }
 
-export function useConnectionStatus(checkInterval = 10000) {
+// Connection status of one backend. Heartbeats from its live event stream keep
+// the status fresh; the health endpoint is only polled while the stream is down
+export function useConnectionStatus(backendId: string, checkInterval = 10000) {
   const [state, setState] = useState<ConnectionState>({
     status: 'checking',
     message: 'Checking connection...',
-    url: getBackendUrl(),
+    url: getBackendUrl(backendId),
     lastChecked: null,
+    live: false,
   });
+  const isLive = useLiveStreamStatus(backendId) === 'open';
+
+  useLiveEvent(backendId, 'heartbeat', () => {
+    setState(prev => ({ ...prev, status: 'connected', lastChecked: new Date() }));
+  });
+
+  useEffect(() => {
+    if (isLive) {
+      setState({
+        status: 'connected',
+        message: 'Live updates active',
+        url: getBackendUrl(backendId),
+        lastChecked: new Date(),
+        live: true,
+      });
+    }
+  }, [isLive, backendId]);
 
   const checkConnection = useCallback(async () => {
-    const url = getBackendUrl();
+    const url = getBackendUrl(backendId);
     setState(prev => ({ ...prev, status: 'checking', url }));
     
-    const result = await testBackendConnection(url);
+    const result = await testBackendConnection(url, getBackendConfig(backendId));
     
     setState({
-      status: result.success ? 'connected' : 'disconnected',
+      status: result.success ? 'connected' : result.unauthorized ? 'unauthorized' : 'disconnected',
       message: result.message,
       url,
       lastChecked: new Date(),
+      live: false,
     });
-  }, []);
+  }, [backendId]);
 
+  // Any request to this backend rejected with 401 flips the indicator immediately
   useEffect(() => {
+    const handleUnauthorized = (e: Event) => {
+      // Requests without a backend id went to the active backend
+      const source = (e as CustomEvent<{ backendId?: string }>).detail?.backendId ?? getActiveBackendId();
+      if (source !== backendId) return;
+      setState(prev => ({
+        ...prev,
+        status: 'unauthorized',
+        message: getBackendConfig(backendId).authMode === 'account'
+          ? 'Signed out - sign in again'
+          : 'Unauthorized - check API key or token',
+        lastChecked: new Date(),
+        live: false,
+      }));
+    };
+    window.addEventListener(UNAUTHORIZED_EVENT, handleUnauthorized);
+    return () => window.removeEventListener(UNAUTHORIZED_EVENT, handleUnauthorized);
+  }, [backendId]);
+
+  useEffect(() => {
+    if (isLive) return;
+
     checkConnection();
     const interval = setInterval(checkConnection, checkInterval);
     
@@ -44,7 +89,7 @@ export function useConnectionStatus(checkInterval = 10000) {
       clearInterval(interval);
       window.removeEventListener('backend-config-change', handleConfigChange);
     };
-  }, [checkConnection, checkInterval]);
+  }, [checkConnection, checkInterval, isLive]);
 
   return { ...state, refresh: checkConnection };
 }
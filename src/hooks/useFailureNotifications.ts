@@ -0,0 +1,128 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useQueries } from '@tanstack/react-query';
+import { ChannelAnalysis } from '@/types/stream';
+import { queryKeys } from '@/services/queryKeys';
+import { FailureSeverity, isMuted } from '@/services/notificationSettings';
+import { playAlarm } from '@/services/alarmSound';
+import { ChannelFailure, channelFailures, hasInput } from '@/lib/channelFailures';
+import { ChannelRef } from '@/lib/channelNavigation';
+import { setTabBadge } from '@/lib/tabBadge';
+import { useChannelsAcrossBackends } from './useChannels';
+import { useNotificationSettings } from './useNotificationSettings';
+
+interface BackendRef {
+  id: string;
+  name: string;
+}
+
+const sameFailures = (a: ChannelFailure[], b: ChannelFailure[]) =>
+  a.length === b.length && a.every((f, i) => f.key === b[i].key && f.message === b[i].message);
+
+/**
+ * Watches the channels on screen for failures: desktop notifications and alarms
+ * for new ones, and the failing channel count in the tab title and favicon.
+ * Failures already present when the dashboard opens only count towards the badge.
+ */
+export function useFailureNotifications(backends: BackendRef[], onOpenChannel?: (channel: ChannelRef) => void) {
+  const { settings } = useNotificationSettings();
+  const backendIds = useMemo(() => backends.map(b => b.id), [backends]);
+  const channelResults = useChannelsAcrossBackends(backendIds);
+
+  // Bitrates from the cache entries the channel sections poll and patch
+  const analysisResults = useQueries({
+    queries: backendIds.map((backendId, i) => ({
+      queryKey: queryKeys.bitrates(backendId, (channelResults[i]?.data ?? []).map(c => c.id)),
+      enabled: false,
+    })),
+  });
+
+  const [failures, setFailures] = useState<ChannelFailure[]>([]);
+  // Alarms waiting for acknowledgement, by failure key
+  const [ringing, setRinging] = useState<Map<string, FailureSeverity>>(new Map());
+  const hadInput = useRef(new Set<string>());
+  const known = useRef<Set<string> | null>(null);
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const onOpenChannelRef = useRef(onOpenChannel);
+  onOpenChannelRef.current = onOpenChannel;
+
+  const notify = useCallback((added: ChannelFailure[]) => {
+    const { desktop, sound, volume } = settingsRef.current;
+
+    if (desktop && 'Notification' in window && Notification.permission === 'granted') {
+      for (const failure of added) {
+        const backendName = backends.find(b => b.id === failure.backendId)?.name;
+        const notification = new Notification(`Channel ${failure.channelId}: ${failure.message}`, {
+          body: backends.length > 1 ? backendName : undefined,
+          tag: failure.key,
+          requireInteraction: failure.severity === 'critical',
+        });
+        notification.onclick = () => {
+          window.focus();
+          onOpenChannelRef.current?.({ backendId: failure.backendId, channelId: failure.channelId });
+          notification.close();
+        };
+      }
+    }
+
+    const alarms = added.filter(f => sound[f.severity].enabled);
+    if (alarms.length > 0) {
+      playAlarm(alarms.some(f => f.severity === 'critical') ? 'critical' : 'warning', volume);
+      setRinging(prev => new Map([...prev, ...alarms.map(f => [f.key, f.severity] as const)]));
+    }
+  }, [backends]);
+
+  useEffect(() => {
+    if (channelResults.every(r => !r.data)) return;
+
+    const next: ChannelFailure[] = [];
+    backendIds.forEach((backendId, i) => {
+      const analyses = analysisResults[i]?.data as Record<number, ChannelAnalysis> | undefined;
+      for (const channel of channelResults[i].data ?? []) {
+        const analysis = analyses?.[channel.id];
+        const inputKey = `${backendId}:${channel.id}`;
+        if (channel.rx.status !== 'running') hadInput.current.delete(inputKey);
+        else if (hasInput(analysis)) hadInput.current.add(inputKey);
+        next.push(...channelFailures(backendId, channel, analysis, hadInput.current.has(inputKey)));
+      }
+    });
+
+    const current = new Set(next.map(f => f.key));
+    const previous = known.current;
+    known.current = current;
+    setFailures(prev => (sameFailures(prev, next) ? prev : next));
+    setRinging(prev => {
+      const remaining = new Map([...prev].filter(([key]) => current.has(key)));
+      return remaining.size === prev.size ? prev : remaining;
+    });
+
+    const added = previous
+      ? next.filter(f => !previous.has(f.key) && !isMuted(settingsRef.current, f.key))
+      : [];
+    if (added.length > 0) notify(added);
+  }, [backendIds, channelResults, analysisResults, notify]);
+
+  // Repeat the loudest ringing alarm until acknowledged
+  const ringingSeverity: FailureSeverity | null = ringing.size === 0
+    ? null
+    : [...ringing.values()].includes('critical') ? 'critical' : 'warning';
+  const repeatSeconds = ringingSeverity ? settings.sound[ringingSeverity].repeatSeconds : 0;
+
+  useEffect(() => {
+    if (!ringingSeverity || repeatSeconds <= 0) return;
+    const timer = setInterval(() => playAlarm(ringingSeverity, settingsRef.current.volume), repeatSeconds * 1000);
+    return () => clearInterval(timer);
+  }, [ringingSeverity, repeatSeconds]);
+
+  const failingChannels = new Set(failures.map(f => `${f.backendId}:${f.channelId}`)).size;
+
+  useEffect(() => {
+    setTabBadge(failingChannels);
+  }, [failingChannels]);
+
+  useEffect(() => () => { setTabBadge(0); }, []);
+
+  const acknowledge = useCallback(() => setRinging(new Map()), []);
+
+  return { failures, failingChannels, ringingCount: ringing.size, acknowledge };
+}
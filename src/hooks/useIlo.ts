@@ -0,0 +1,48 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { iloApi } from '@/services/iloApi';
+import { ApiError } from '@/services/http';
+import { queryKeys } from '@/services/queryKeys';
+
+export type IloPowerAction = 'powerOn' | 'powerOff' | 'forcePowerOff' | 'reset' | 'powerCycle';
+
+// Every action but power on takes the server's channels down, so it is confirmed first
+export const iloConfirmations: Record<Exclude<IloPowerAction, 'powerOn'>, { title: string; description: string }> = {
+  powerOff: { title: 'Graceful Shutdown', description: 'This will gracefully shut down the server. All services will be stopped.' },
+  forcePowerOff: { title: 'Force Power Off', description: 'This will immediately cut power to the server. Data loss may occur!' },
+  reset: { title: 'Reset Server', description: 'This will perform a warm reset of the server.' },
+  powerCycle: { title: 'Power Cycle', description: 'This will power off and then power on the server (cold boot).' },
+};
+
+// backendId is the backend the iLO is reached through (iloApi.getBackendId())
+export function useIloStatus(backendId: string, enabled: boolean, refreshInterval = 10000) {
+  return useQuery({
+    queryKey: queryKeys.iloStatus(backendId),
+    queryFn: async () => {
+      const response = await iloApi.getStatus(backendId);
+      if (!response.success || !response.data) {
+        throw new ApiError(response.error || 'Failed to get iLO status', response.errorKind ?? 'http');
+      }
+      return response.data;
+    },
+    enabled,
+    refetchInterval: refreshInterval,
+    retry: false,
+  });
+}
+
+export function useIloPowerAction(backendId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (action: IloPowerAction) => {
+      const response = await iloApi[action](backendId);
+      if (!response.success) {
+        throw new ApiError(response.error || 'iLO command failed', response.errorKind ?? 'http');
+      }
+      return response;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.iloStatus(backendId) });
+    },
+  });
+}
@@ -0,0 +1,50 @@
+import { useEffect, useRef } from 'react';
+
+// Keys as KeyboardEvent.key ('r', '/', '?'), or 'mod+<key>' for Ctrl (Cmd on macOS)
+export type ShortcutBindings = Record<string, () => void>;
+
+export const DASHBOARD_SHORTCUTS: { keys: string[]; label: string }[] = [
+  { keys: ['Ctrl', 'K'], label: 'Open the command palette' },
+  { keys: ['/'], label: 'Search channels' },
+  { keys: ['R'], label: 'Refresh' },
+  { keys: ['J'], label: 'Next channel' },
+  { keys: ['K'], label: 'Previous channel' },
+  { keys: ['Enter'], label: 'Open the focused channel' },
+  { keys: ['L'], label: 'Open the focused channel\'s logs' },
+  { keys: ['?'], label: 'Show keyboard shortcuts' },
+];
+
+function isEditable(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+// Single-key shortcuts stay out of the way of dialogs and menus, which handle their own keys
+const hasOverlay = () => document.querySelector('[role="dialog"], [role="alertdialog"], [role="menu"]') !== null;
+
+/**
+ * Window-level shortcuts. Single keys are ignored while typing or while a dialog is open;
+ * mod+ combinations always fire.
+ */
+export function useKeyboardShortcuts(bindings: ShortcutBindings) {
+  // Latest handlers without re-registering the listener on every render
+  const bindingsRef = useRef(bindings);
+  bindingsRef.current = bindings;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.altKey || e.repeat) return;
+      const mod = e.ctrlKey || e.metaKey;
+      if (!mod && (isEditable(e.target) || hasOverlay())) return;
+      const key = mod ? `mod+${e.key.toLowerCase()}` : e.key.length === 1 ? e.key.toLowerCase() : e.key;
+      // '?' is Shift+/ and arrives as '?'; other shifted keys are left alone
+      if (e.shiftKey && key !== '?') return;
+      const handler = bindingsRef.current[key];
+      if (!handler) return;
+      e.preventDefault();
+      handler();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+}
@@ -0,0 +1,52 @@
+import { useState, useEffect, useRef } from 'react';
+import { LiveEventMap, LiveEventType, LiveStreamStatus } from '@/types/events';
+import { getEventStream } from '@/services/eventStream';
+
+// Current status of a backend's shared live event stream
+export function useLiveStreamStatus(backendId: string): LiveStreamStatus {
+  const [status, setStatus] = useState<LiveStreamStatus>(() => getEventStream(backendId).getStatus());
+
+  useEffect(() => {
+    const stream = getEventStream(backendId);
+    const unsubscribe = stream.onStatusChange(setStatus);
+    setStatus(stream.getStatus());
+    return unsubscribe;
+  }, [backendId]);
+
+  return status;
+}
+
+// Subscribe to a backend's live event type for the lifetime of the component
+export function useLiveEvent<K extends LiveEventType>(
+  backendId: string,
+  type: K,
+  handler: (data: LiveEventMap[K]) => void,
+  enabled = true
+) {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    if (!enabled) return;
+    return getEventStream(backendId).subscribe(type, (data) => handlerRef.current(data));
+  }, [backendId, type, enabled]);
+}
+
+// Subscribe to a live event type on several backends at once; the handler gets the source backend
+export function useLiveEventFromBackends<K extends LiveEventType>(
+  backendIds: string[],
+  type: K,
+  handler: (backendId: string, data: LiveEventMap[K]) => void
+) {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+  const key = backendIds.join(',');
+
+  useEffect(() => {
+    if (!key) return;
+    const unsubscribes = key.split(',').map((backendId) =>
+      getEventStream(backendId).subscribe(type, (data) => handlerRef.current(backendId, data))
+    );
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, [key, type]);
+}
@@ -0,0 +1,86 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { NotificationDestination, NotificationDestinationInput } from '@/types/notifications';
+import { getApi, unwrap } from '@/services/api';
+import { queryKeys } from '@/services/queryKeys';
+
+// Webhook and email destinations the backend sends alerts to
+export function useNotificationDestinations(backendId: string) {
+  return useQuery({
+    queryKey: queryKeys.notificationDestinations(backendId),
+    queryFn: ({ signal }) => unwrap(getApi(backendId).getNotificationDestinations({ signal })),
+  });
+}
+
+// Recent deliveries, newest first; polled since retries happen in the background
+export function useNotificationDeliveries(backendId: string) {
+  return useQuery({
+    queryKey: queryKeys.notificationDeliveries(backendId),
+    queryFn: ({ signal }) => unwrap(getApi(backendId).getNotificationDeliveries({ signal })),
+    refetchInterval: 10000,
+  });
+}
+
+export function useCreateNotificationDestination(backendId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (destination: NotificationDestinationInput) =>
+      unwrap(getApi(backendId).createNotificationDestination(destination)),
+    onSuccess: (destination) => {
+      queryClient.setQueryData<NotificationDestination[]>(
+        queryKeys.notificationDestinations(backendId),
+        (prev) => prev && [...prev, destination]
+      );
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.notificationDestinations(backendId) });
+    },
+  });
+}
+
+export function useUpdateNotificationDestination(backendId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, updates }: { id: string; updates: Partial<NotificationDestinationInput> }) =>
+      unwrap(getApi(backendId).updateNotificationDestination(id, updates)),
+    onSuccess: (destination) => {
+      queryClient.setQueryData<NotificationDestination[]>(
+        queryKeys.notificationDestinations(backendId),
+        (prev) => prev?.map((d) => (d.id === destination.id ? destination : d))
+      );
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.notificationDestinations(backendId) });
+    },
+  });
+}
+
+export function useDeleteNotificationDestination(backendId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => unwrap(getApi(backendId).deleteNotificationDestination(id)),
+    onSuccess: (_data, id) => {
+      queryClient.setQueryData<NotificationDestination[]>(
+        queryKeys.notificationDestinations(backendId),
+        (prev) => prev?.filter((d) => d.id !== id)
+      );
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.notificationDestinations(backendId) });
+    },
+  });
+}
+
+// Send a test message; fails with the delivery error if it didn't go through
+export function useTestNotificationDestination(backendId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => unwrap(getApi(backendId).testNotificationDestination(id)),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.notificationDeliveries(backendId) });
+    },
+  });
+}
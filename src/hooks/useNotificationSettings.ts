@@ -0,0 +1,29 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  NotificationSettings,
+  NOTIFICATION_SETTINGS_EVENT,
+  getNotificationSettings,
+  saveNotificationSettings,
+} from '@/services/notificationSettings';
+
+// This browser's notification preferences, kept in sync across components
+export function useNotificationSettings() {
+  const [settings, setSettings] = useState<NotificationSettings>(getNotificationSettings);
+
+  useEffect(() => {
+    const handleChange = () => setSettings(getNotificationSettings());
+    window.addEventListener(NOTIFICATION_SETTINGS_EVENT, handleChange);
+    // Other tabs of the dashboard
+    window.addEventListener('storage', handleChange);
+    return () => {
+      window.removeEventListener(NOTIFICATION_SETTINGS_EVENT, handleChange);
+      window.removeEventListener('storage', handleChange);
+    };
+  }, []);
+
+  const update = useCallback((updates: Partial<NotificationSettings>) => {
+    saveNotificationSettings({ ...getNotificationSettings(), ...updates });
+  }, []);
+
+  return { settings, update };
+}
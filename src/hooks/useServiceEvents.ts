@@ -0,0 +1,42 @@
+import { useQuery, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { HistoryRange, rangeMs } from '@/lib/bitrateHistory';
+import { getApi, unwrap } from '@/services/api';
+import { queryKeys } from '@/services/queryKeys';
+import { useLiveEvent } from './useLiveEvents';
+
+// Enough for a week of a service flapping every few minutes
+const MAX_EVENTS = 5000;
+
+// A channel's state transitions and operator actions over a range up to now
+export function useServiceEvents(backendId: string, channelId: number | null, range: HistoryRange) {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: queryKeys.serviceEvents(backendId, channelId ?? 0, range),
+    queryFn: ({ signal }) => {
+      const to = Date.now();
+      return unwrap(getApi(backendId).getServiceEvents(
+        { channelId: channelId as number, from: to - rangeMs(range), limit: MAX_EVENTS },
+        { signal }
+      ));
+    },
+    enabled: channelId !== null,
+    refetchInterval: 60_000,
+    placeholderData: keepPreviousData,
+  });
+
+  // Every status change is recorded, so fetch again when one is pushed
+  useLiveEvent(backendId, 'service-state', (event) => {
+    if (event.channelId !== channelId || event.previousStatus === event.state.status) return;
+    queryClient.invalidateQueries({ queryKey: queryKeys.serviceEvents(backendId, event.channelId, range) });
+  }, channelId !== null);
+
+  return {
+    events: query.data ?? [],
+    // End of the window the events were fetched for
+    fetchedAt: query.dataUpdatedAt,
+    isLoading: query.isLoading,
+    isFetching: query.isFetching,
+    error: query.error ? query.error.message : null,
+  };
+}
@@ -0,0 +1,31 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { GlobalSettings } from '@/types/settings';
+import { getApi, unwrap } from '@/services/api';
+import { queryKeys } from '@/services/queryKeys';
+import { useLiveEvent } from './useLiveEvents';
+
+// Global defaults for new channels on one backend; refreshed when another client changes them
+export function useGlobalSettings(backendId: string) {
+  const queryClient = useQueryClient();
+
+  useLiveEvent(backendId, 'settings-changed', () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.settings(backendId) });
+  });
+
+  return useQuery({
+    queryKey: queryKeys.settings(backendId),
+    queryFn: ({ signal }) => unwrap(getApi(backendId).getSettings({ signal })),
+    staleTime: 30000,
+  });
+}
+
+export function useSaveGlobalSettings(backendId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (settings: GlobalSettings) => unwrap(getApi(backendId).saveSettings(settings)),
+    onSuccess: (saved) => {
+      queryClient.setQueryData(queryKeys.settings(backendId), saved);
+    },
+  });
+}
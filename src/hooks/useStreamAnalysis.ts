@@ -1,90 +1,173 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { ChannelAnalysis, StreamAnalysis } from '@/types/stream';
-import { api } from '@/services/api';
+import { useMutation, useQuery, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { ChannelAnalysis, PidResetOptions } from '@/types/stream';
+import { HistoryRange, rangeMs } from '@/lib/bitrateHistory';
+import { getApi, unwrap } from '@/services/api';
+import { ApiError } from '@/services/http';
+import { queryKeys } from '@/services/queryKeys';
+import { useLiveEvent, useLiveStreamStatus } from './useLiveEvents';
+
+type AnalysisMap = Record<number, ChannelAnalysis>;
+
+function describeError(error: Error | null, fallback: string): string | null {
+  if (!error) return null;
+  if (error instanceof ApiError && (error.kind === 'timeout' || error.kind === 'network')) {
+    return `Backend not responding (${error.message})`;
+  }
+  return fallback;
+}
 
 // Hook for bulk channel bitrate monitoring
-export function useChannelAnalysis(refreshInterval = 2000, channelIds: number[] = []) {
-  const [analyses, setAnalyses] = useState<Record<number, ChannelAnalysis>>({});
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
-
-  const fetchAnalyses = useCallback(async () => {
-    if (channelIds.length === 0) {
-      setIsLoading(false);
-      return;
-    }
-    
-    try {
-      const result = await api.getStreamAnalyses(channelIds);
-      if (result.success && result.data) {
-        const analysisMap: Record<number, ChannelAnalysis> = {};
-        for (const analysis of result.data) {
-          analysisMap[analysis.channelId] = analysis;
-        }
-        setAnalyses(analysisMap);
-        setError(null);
+// Uses pushed bitrate samples while the live stream is open, polls otherwise
+export function useChannelAnalysis(backendId: string, refreshInterval = 2000, channelIds: number[] = []) {
+  const queryClient = useQueryClient();
+  const isLive = useLiveStreamStatus(backendId) === 'open';
+  const queryKey = queryKeys.bitrates(backendId, channelIds);
+
+  const query = useQuery({
+    queryKey,
+    // Polls don't retry (the next poll is the retry) and give up before piling up;
+    // a changed channel list or unmount cancels the request in flight
+    queryFn: async ({ signal }) => {
+      const data = await unwrap(getApi(backendId).getStreamAnalyses(channelIds, {
+        signal,
+        timeoutMs: Math.max(refreshInterval * 2, 4000),
+        retries: 0,
+      }));
+      const analysisMap: AnalysisMap = {};
+      for (const analysis of data) {
+        analysisMap[analysis.channelId] = analysis;
       }
-    } catch (err) {
-      setError('Failed to fetch stream analyses');
-    } finally {
-      setIsLoading(false);
-    }
-  }, [channelIds]);
-
-  useEffect(() => {
-    fetchAnalyses();
-    intervalRef.current = setInterval(fetchAnalyses, refreshInterval);
-    
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
+      return analysisMap;
+    },
+    enabled: channelIds.length > 0,
+    refetchInterval: isLive ? false : refreshInterval,
+    placeholderData: keepPreviousData,
+  });
+
+  useLiveEvent(backendId, 'bitrate', (sample) => {
+    if (!channelIds.includes(sample.channelId)) return;
+    queryClient.setQueryData<AnalysisMap>(queryKey, (prev) => ({ ...prev, [sample.channelId]: sample }));
+  });
+
+  useLiveEvent(backendId, 'snapshot', (snapshot) => {
+    const analysisMap: AnalysisMap = {};
+    for (const sample of snapshot.bitrates) {
+      if (channelIds.includes(sample.channelId)) {
+        analysisMap[sample.channelId] = sample;
       }
-    };
-  }, [fetchAnalyses, refreshInterval]);
+    }
+    queryClient.setQueryData<AnalysisMap>(queryKey, analysisMap);
+  });
 
-  return { analyses, isLoading, error, refetch: fetchAnalyses };
+  return {
+    analyses: query.data ?? {},
+    isLoading: query.isLoading,
+    error: describeError(query.error, 'Failed to fetch stream analyses'),
+    isLive,
+    refetch: query.refetch,
+  };
 }
 
 // Hook for single channel detailed analysis
-export function useStreamAnalysis(channelId: number | null, refreshInterval = 3000) {
-  const [analysis, setAnalysis] = useState<StreamAnalysis | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
-
-  const fetchAnalysis = useCallback(async () => {
-    if (channelId === null) return;
-    
-    setIsLoading(true);
-    try {
-      const result = await api.getStreamAnalysis(channelId);
-      if (result.success && result.data) {
-        setAnalysis(result.data);
-        setError(null);
-      }
-    } catch (err) {
-      setError('Failed to fetch stream analysis');
-    } finally {
-      setIsLoading(false);
-    }
-  }, [channelId]);
+export function useStreamAnalysis(backendId: string, channelId: number | null, refreshInterval = 3000) {
+  const query = useQuery({
+    queryKey: queryKeys.streamAnalysis(backendId, channelId ?? 0),
+    queryFn: ({ signal }) => unwrap(getApi(backendId).getStreamAnalysis(channelId as number, {
+      signal,
+      timeoutMs: Math.max(refreshInterval * 2, 4000),
+      retries: 0,
+    })),
+    enabled: channelId !== null,
+    refetchInterval: refreshInterval,
+  });
 
-  useEffect(() => {
-    if (channelId === null) {
-      setAnalysis(null);
-      return;
-    }
+  return {
+    analysis: channelId !== null ? query.data ?? null : null,
+    isLoading: query.isFetching,
+    error: describeError(query.error, 'Failed to fetch stream analysis'),
+    refetch: query.refetch,
+  };
+}
 
-    fetchAnalysis();
-    intervalRef.current = setInterval(fetchAnalysis, refreshInterval);
-    
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-      }
-    };
-  }, [channelId, fetchAnalysis, refreshInterval]);
+// Recorded bitrate history: a range up to now (refreshed), or a fixed window (e.g. a zoomed-in span)
+export function useBitrateHistory(
+  backendId: string,
+  channelId: number | null,
+  view: HistoryRange | { from: number; to: number },
+  maxPoints = 500
+) {
+  const isRange = typeof view === 'string';
+  const key = isRange ? view : `${view.from}-${view.to}`;
+
+  const query = useQuery({
+    queryKey: queryKeys.bitrateHistory(backendId, channelId ?? 0, key, maxPoints),
+    queryFn: ({ signal }) => {
+      const to = isRange ? Date.now() : view.to;
+      const from = isRange ? to - rangeMs(view) : view.from;
+      return unwrap(getApi(backendId).getBitrateHistory(channelId as number, { from, to, maxPoints }, { signal }));
+    },
+    enabled: channelId !== null,
+    // New buckets close every 10 s; longer ranges change more slowly
+    refetchInterval: isRange ? (view === '1h' ? 30_000 : 60_000) : false,
+    placeholderData: keepPreviousData,
+  });
+
+  return {
+    history: query.data ?? null,
+    isLoading: query.isLoading,
+    isFetching: query.isFetching,
+    error: describeError(query.error, 'Failed to fetch bitrate history'),
+  };
+}
+
+// Per-PID history from the backend's periodic tsanalyze runs (every 10 s)
+export function usePidHistory(backendId: string, channelId: number | null) {
+  const query = useQuery({
+    queryKey: queryKeys.pidHistory(backendId, channelId ?? 0),
+    queryFn: ({ signal }) => unwrap(getApi(backendId).getPidHistory(channelId as number, { signal })),
+    enabled: channelId !== null,
+    refetchInterval: 10_000,
+  });
+
+  return {
+    pidHistory: channelId !== null ? query.data ?? null : null,
+    error: describeError(query.error, 'Failed to fetch PID history'),
+  };
+}
+
+export function useResetPidHistory(backendId: string, channelId: number) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (options: PidResetOptions) => unwrap(getApi(backendId).resetPidHistory(channelId, options)),
+    onSuccess: (history) => {
+      queryClient.setQueryData(queryKeys.pidHistory(backendId, channelId), history);
+    },
+  });
+}
+
+// TR 101 290 indicators evaluated on the same periodic runs as the PID history
+export function useTr101290(backendId: string, channelId: number | null) {
+  const query = useQuery({
+    queryKey: queryKeys.tr101290(backendId, channelId ?? 0),
+    queryFn: ({ signal }) => unwrap(getApi(backendId).getTr101290(channelId as number, { signal })),
+    enabled: channelId !== null,
+    refetchInterval: 10_000,
+  });
+
+  return {
+    report: channelId !== null ? query.data ?? null : null,
+    error: describeError(query.error, 'Failed to fetch TR 101 290 status'),
+  };
+}
+
+export function useResetTr101290(backendId: string, channelId: number) {
+  const queryClient = useQueryClient();
 
-  return { analysis, isLoading, error, refetch: fetchAnalysis };
+  return useMutation({
+    mutationFn: () => unwrap(getApi(backendId).resetTr101290(channelId)),
+    onSuccess: (report) => {
+      queryClient.setQueryData(queryKeys.tr101290(backendId, channelId), report);
+    },
+  });
 }
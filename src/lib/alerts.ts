@@ -0,0 +1,92 @@
+// Helpers shared by the alerts panel and the alert rule settings
+
+import { Alert, AlertRule, AlertRuleInput, AlertRuleType, AlertSeverity } from '@/types/alerts';
+
+export const RULE_TYPE_LABELS: Record<AlertRuleType, string> = {
+  'service-state': 'Service state',
+  'bitrate': 'Bitrate',
+  'pid-missing': 'PID missing',
+  'cc-errors': 'Continuity errors',
+  'ilo-health': 'Server health',
+  'ilo-temperature': 'Server temperature',
+  'disk-space': 'Disk space',
+};
+
+export const CHANNEL_RULE_TYPES: AlertRuleType[] = ['service-state', 'bitrate', 'pid-missing', 'cc-errors'];
+
+export const severityStyles: Record<AlertSeverity, { label: string; text: string; dot: string }> = {
+  critical: { label: 'Critical', text: 'text-status-error', dot: 'bg-status-error' },
+  warning: { label: 'Warning', text: 'text-status-stopped', dot: 'bg-status-stopped' },
+  info: { label: 'Info', text: 'text-primary', dot: 'bg-primary' },
+};
+
+export const SILENCE_OPTIONS = [
+  { minutes: 15, label: '15 minutes' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 240, label: '4 hours' },
+  { minutes: 1440, label: '24 hours' },
+];
+
+export const isOpen = (alert: Alert) => alert.state !== 'resolved';
+
+export const isSilenced = (alert: Alert, now = Date.now()) =>
+  !!alert.silencedUntil && new Date(alert.silencedUntil).getTime() > now;
+
+// Firing, not silenced: what the bell counts
+export const needsAttention = (alert: Alert) => alert.state === 'firing' && !isSilenced(alert);
+
+/**
+ * Open alerts newest first, then resolved ones most recently resolved first, like GET /api/alerts
+ */
+export function sortAlerts(alerts: Alert[]): Alert[] {
+  const open = alerts.filter(isOpen).sort((a, b) => b.firedAt.localeCompare(a.firedAt));
+  const resolved = alerts
+    .filter(alert => !isOpen(alert))
+    .sort((a, b) => (b.resolvedAt ?? '').localeCompare(a.resolvedAt ?? ''));
+  return [...open, ...resolved];
+}
+
+/**
+ * Apply an updated or new alert (from a live event or a mutation) to a cached list
+ */
+export function mergeAlert(alerts: Alert[] | undefined, alert: Alert): Alert[] {
+  const others = (alerts ?? []).filter(a => a.id !== alert.id);
+  return sortAlerts([alert, ...others]);
+}
+
+/**
+ * One-line summary of what a rule checks, e.g. "Bitrate below 0.1 Mbps for 30 s on all channels"
+ */
+export function describeRule(rule: AlertRule | AlertRuleInput): string {
+  let condition: string;
+  switch (rule.type) {
+    case 'service-state':
+      condition = `${rule.service?.toUpperCase()} is ${rule.status}`;
+      break;
+    case 'bitrate':
+      condition = `Bitrate ${rule.comparison} ${rule.threshold} Mbps`;
+      break;
+    case 'pid-missing':
+      condition = 'A baseline PID is missing';
+      break;
+    case 'cc-errors':
+      condition = `More than ${rule.threshold} continuity errors a minute`;
+      break;
+    case 'ilo-health':
+      condition = 'Server health is warning or critical';
+      break;
+    case 'ilo-temperature':
+      condition = `A sensor is above ${rule.threshold} °C`;
+      break;
+    case 'disk-space':
+      condition = `Less than ${rule.threshold}% free on ${rule.path}`;
+      break;
+  }
+  const duration = rule.forSeconds > 0 ? ` for ${rule.forSeconds} s` : '';
+  const scope = !CHANNEL_RULE_TYPES.includes(rule.type)
+    ? ''
+    : rule.channelIds.length > 0
+      ? ` on ${rule.channelIds.join(', ')}`
+      : ' on all channels';
+  return `${condition}${duration}${scope}`;
+}
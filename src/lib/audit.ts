@@ -0,0 +1,76 @@
+// Audit log labels, change summaries and CSV export
+
+import { AuditAction, AuditCategory, AuditEntry } from '@/types/audit';
+import { ConfigChange, diffObjects, formatConfigValue } from './configDiff';
+
+export const actionLabels: Record<AuditAction, string> = {
+  'service.start': 'Service start',
+  'service.stop': 'Service stop',
+  'service.restart': 'Service restart',
+  'service.bulk': 'Bulk service action',
+  'channel.create': 'Channel created',
+  'channel.update': 'Channel updated',
+  'channel.delete': 'Channel deleted',
+  'config.save': 'Config saved',
+  'config.apply': 'Config applied',
+  'settings.update': 'Settings updated',
+  'ilo.power': 'iLO power',
+  'ilo.credentials': 'iLO credentials',
+  'auth.login': 'Sign-in',
+  'user.create': 'User created',
+  'user.update': 'User updated',
+  'user.delete': 'User deleted',
+};
+
+export const categoryLabels: Record<AuditCategory, string> = {
+  service: 'Services',
+  channel: 'Channels',
+  config: 'Config',
+  settings: 'Settings',
+  ilo: 'iLO',
+  auth: 'Sign-ins',
+  user: 'Users',
+};
+
+// What an edit changed; a create or delete lists every field it set or removed
+export function entryChanges(entry: AuditEntry): ConfigChange[] {
+  if (!entry.before && !entry.after) return [];
+  return diffObjects(entry.before ?? {}, entry.after ?? {});
+}
+
+const csvCell = (value: unknown) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const CSV_COLUMNS = ['Time', 'Actor', 'Credential', 'IP', 'Action', 'Channel', 'Service', 'Outcome', 'Summary', 'Error', 'Changes'];
+
+// One row per entry; changes are listed as path: before → after with secrets masked
+export function toCsv(entries: AuditEntry[]): string {
+  const rows = entries.map(entry => [
+    entry.timestamp,
+    entry.actor,
+    entry.credential,
+    entry.ip,
+    entry.action,
+    entry.channelId,
+    entry.service,
+    entry.outcome,
+    entry.summary,
+    entry.error,
+    entryChanges(entry)
+      .map(change => `${change.path}: ${formatConfigValue(change.path, change.before)} → ${formatConfigValue(change.path, change.after)}`)
+      .join('; '),
+  ].map(csvCell).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+}
+
+// Save entries as a CSV file through a temporary download link
+export function downloadCsv(entries: AuditEntry[], filename: string) {
+  const url = URL.createObjectURL(new Blob([toCsv(entries)], { type: 'text/csv' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${filename}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,53 @@
+// Bitrate history ranges, chart points and marker styling
+
+import { BitrateHistory, BitrateMarker, BitrateMarkerKind } from '@/types/stream';
+
+export type HistoryRange = '1h' | '6h' | '24h' | '7d';
+
+export const HISTORY_RANGES: { value: HistoryRange; label: string; ms: number }[] = [
+  { value: '1h', label: '1h', ms: 3_600_000 },
+  { value: '6h', label: '6h', ms: 6 * 3_600_000 },
+  { value: '24h', label: '24h', ms: 86_400_000 },
+  { value: '7d', label: '7d', ms: 7 * 86_400_000 },
+];
+
+export const rangeMs = (range: HistoryRange) => HISTORY_RANGES.find(r => r.value === range)?.ms ?? 3_600_000;
+
+export interface BitratePoint {
+  time: number;
+  // Mbps; null breaks the line where there was no stream
+  avg: number | null;
+  // [min, max] for the band around the average
+  range: [number, number] | null;
+}
+
+const toMbps = (bps: number) => Math.round(bps / 10_000) / 100;
+
+export function toChartPoints(history: BitrateHistory): BitratePoint[] {
+  return history.samples.map(sample => ({
+    time: new Date(sample.timestamp).getTime(),
+    avg: sample.avgBps === null ? null : toMbps(sample.avgBps),
+    range: sample.minBps === null || sample.maxBps === null ? null : [toMbps(sample.minBps), toMbps(sample.maxBps)],
+  }));
+}
+
+export const markerStyles: Record<BitrateMarkerKind, { label: string; color: string }> = {
+  restart: { label: 'Restarted', color: 'hsl(var(--primary))' },
+  stop: { label: 'Stopped', color: 'hsl(var(--status-unknown))' },
+  failure: { label: 'Failed', color: 'hsl(var(--status-stopped))' },
+  'input-lost': { label: 'Input lost', color: 'hsl(var(--status-error))' },
+  'input-restored': { label: 'Input restored', color: 'hsl(var(--status-running))' },
+};
+
+export function describeMarker(marker: BitrateMarker): string {
+  const label = markerStyles[marker.kind].label;
+  const subject = marker.service ? `${marker.service.toUpperCase()} ${label.toLowerCase()}` : label;
+  return marker.message ? `${subject}: ${marker.message}` : subject;
+}
+
+// Axis labels: clock time within a day, date and hour beyond
+export function formatTick(time: number, spanMs: number): string {
+  const date = new Date(time);
+  if (spanMs <= 86_400_000) return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false });
+  return date.toLocaleDateString([], { month: 'short', day: 'numeric' }) + ' ' + date.toLocaleTimeString([], { hour: '2-digit', hour12: false });
+}
@@ -0,0 +1,181 @@
+// Bulk config edits: the fields that can be set on several channels at once,
+// applying a set of edits to one channel's config, and what would be wrong with the result.
+
+import { ChannelConfig } from '@/types/channel';
+import { ConfigSection } from '@/lib/configDiff';
+import { expandChannelPlaceholder } from '@/lib/channelDefaults';
+
+export type BulkFieldKind = 'number' | 'boolean' | 'text' | 'secret' | 'select';
+
+export interface BulkField {
+  // Dotted config path, as in ConfigChange
+  path: string;
+  section: ConfigSection;
+  label: string;
+  kind: BulkFieldKind;
+  options?: { value: string; label: string }[];
+  // Text fields expand %CHANNEL% per channel
+  placeholder?: string;
+}
+
+export type BulkValue = string | number | boolean;
+
+export interface BulkEdit {
+  path: string;
+  value: BulkValue;
+}
+
+const presets = ['ultrafast', 'superfast', 'veryfast', 'faster', 'fast', 'medium', 'slow'];
+
+// Fields that make sense to share across channels; per-channel ones (ports, hosts, multicast groups) are left out
+export const BULK_FIELDS: BulkField[] = [
+  { path: 'group', section: 'general', label: 'Group', kind: 'text', placeholder: 'Studio A' },
+  { path: 'rx.srt.latencyMs', section: 'rx', label: 'SRT latency (ms)', kind: 'number' },
+  { path: 'rx.srt.bandwidthOverhead', section: 'rx', label: 'SRT bandwidth overhead (%)', kind: 'number' },
+  { path: 'rx.srt.passphrase', section: 'rx', label: 'SRT passphrase', kind: 'secret' },
+  {
+    path: 'rx.srt.pbkeylen',
+    section: 'rx',
+    label: 'SRT key length',
+    kind: 'select',
+    options: [16, 24, 32].map(n => ({ value: String(n), label: `AES-${n * 8}` })),
+  },
+  { path: 'rx.maxBitrateMbps', section: 'rx', label: 'Max bitrate (Mbps)', kind: 'number' },
+  { path: 'rx.interface', section: 'rx', label: 'Network interface', kind: 'text', placeholder: 'eth0' },
+  { path: 'rec.recordEnabled', section: 'rec', label: 'Recording enabled', kind: 'boolean' },
+  { path: 'rec.recordPath', section: 'rec', label: 'Record path', kind: 'text', placeholder: '/srv/recordings/ch%CHANNEL%' },
+  { path: 'rec.filenameTemplate', section: 'rec', label: 'Filename template', kind: 'text', placeholder: 'ch%CHANNEL%_%Y%m%d_%H%M%S' },
+  { path: 'rec.segmentMode', section: 'rec', label: 'Segment mode', kind: 'boolean' },
+  { path: 'rec.segmentDurationSec', section: 'rec', label: 'Segment duration (sec)', kind: 'number' },
+  { path: 'rec.repackToMp4', section: 'rec', label: 'Repack to MP4', kind: 'boolean' },
+  { path: 'rtmp.rtmpEnabled', section: 'rtmp', label: 'RTMP enabled', kind: 'boolean' },
+  { path: 'rtmp.rtmpUrl', section: 'rtmp', label: 'RTMP URL', kind: 'text', placeholder: 'rtmp://live.example.com/app' },
+  {
+    path: 'rtmp.videoCodec',
+    section: 'rtmp',
+    label: 'Video codec',
+    kind: 'select',
+    options: [
+      { value: 'copy', label: 'Copy (passthrough)' },
+      { value: 'libx264', label: 'H.264 (libx264)' },
+      { value: 'libx265', label: 'H.265 (libx265)' },
+    ],
+  },
+  {
+    path: 'rtmp.videoPreset',
+    section: 'rtmp',
+    label: 'Encoding preset',
+    kind: 'select',
+    options: presets.map(p => ({ value: p, label: p })),
+  },
+  { path: 'rtmp.videoBitrate', section: 'rtmp', label: 'Video bitrate (kbps)', kind: 'number' },
+  {
+    path: 'rtmp.audioCodec',
+    section: 'rtmp',
+    label: 'Audio codec',
+    kind: 'select',
+    options: [
+      { value: 'copy', label: 'Copy (passthrough)' },
+      { value: 'aac', label: 'AAC' },
+    ],
+  },
+  { path: 'rtmp.audioBitrate', section: 'rtmp', label: 'Audio bitrate (kbps)', kind: 'number' },
+  {
+    path: 'rtmp.audioPair',
+    section: 'rtmp',
+    label: 'Audio pair',
+    kind: 'select',
+    options: ['primary', 'secondary', 'both'].map(p => ({ value: p, label: p })),
+  },
+];
+
+export const getBulkField = (path: string) => BULK_FIELDS.find(f => f.path === path);
+
+// Select values are strings in the UI; numeric options (key length) are stored as numbers
+function coerce(field: BulkField, value: BulkValue): BulkValue {
+  if (field.kind === 'select' && field.options?.every(o => /^\d+$/.test(o.value))) return Number(value);
+  return value;
+}
+
+export function getPathValue(config: ChannelConfig, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (node, key) => (node && typeof node === 'object' ? (node as Record<string, unknown>)[key] : undefined),
+    config
+  );
+}
+
+/**
+ * Config with the edits applied; %CHANNEL% in text values becomes the channel ID
+ */
+export function applyBulkEdits(config: ChannelConfig, edits: BulkEdit[]): ChannelConfig {
+  const next = structuredClone(config);
+  for (const edit of edits) {
+    const field = getBulkField(edit.path);
+    if (!field) continue;
+    let value = coerce(field, edit.value);
+    if (typeof value === 'string' && field.kind === 'text') value = expandChannelPlaceholder(value, config.channelId);
+    const keys = edit.path.split('.');
+    const parent = keys.slice(0, -1).reduce<Record<string, unknown>>(
+      (node, key) => node[key] as Record<string, unknown>,
+      next as unknown as Record<string, unknown>
+    );
+    parent[keys[keys.length - 1]] = value;
+  }
+  return next;
+}
+
+export interface ConfigProblems {
+  // Would make the services fail or the config invalid; block the edit
+  errors: string[];
+  // Edited settings the channel would ignore or can't use yet
+  warnings: string[];
+}
+
+/**
+ * Problems with one edited config
+ */
+export function findConfigProblems(config: ChannelConfig, editedPaths: string[]): ConfigProblems {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const edited = (path: string) => editedPaths.includes(path);
+  const { rx, rec, rtmp } = config;
+  const passphrase = rx.srt.passphrase;
+  if (passphrase && (passphrase.length < 10 || passphrase.length > 79)) {
+    errors.push('SRT passphrase must be 10 to 79 characters');
+  }
+  if (rec.recordEnabled && !rec.recordPath) errors.push('Recording is enabled without a record path');
+  if (rtmp.rtmpEnabled && !rtmp.rtmpUrl) warnings.push('RTMP is enabled without a URL');
+  if (rtmp.videoCodec === 'copy' && (edited('rtmp.videoPreset') || edited('rtmp.videoBitrate'))) {
+    warnings.push('Video preset and bitrate are ignored while the video codec is copy');
+  }
+  if (rtmp.audioCodec === 'copy' && edited('rtmp.audioBitrate')) {
+    warnings.push('Audio bitrate is ignored while the audio codec is copy');
+  }
+  if (!rec.segmentMode && edited('rec.segmentDurationSec')) {
+    warnings.push('Segment duration is ignored while segment mode is off');
+  }
+  if (rx.srt.pbkeylen && !passphrase && edited('rx.srt.pbkeylen')) {
+    warnings.push('Key length is ignored without a passphrase');
+  }
+  return { errors, warnings };
+}
+
+/**
+ * Clashes of the edited configs with each other and with the backend's other channels (errors):
+ * channels that would record into the same directory. `existing` is every channel config on the backend.
+ */
+export function findBulkConflicts(configs: ChannelConfig[], existing: ChannelConfig[]): Map<number, string[]> {
+  const conflicts = new Map<number, string[]>();
+  const editedIds = new Set(configs.map(c => c.channelId));
+  const all = [...configs, ...existing.filter(c => !editedIds.has(c.channelId))];
+  for (const config of configs) {
+    if (!config.rec.recordEnabled) continue;
+    const others = all.filter(c => c.channelId !== config.channelId && c.rec.recordEnabled && c.rec.recordPath === config.rec.recordPath);
+    if (others.length > 0) {
+      conflicts.set(config.channelId, [
+        `Records into ${config.rec.recordPath} like channel${others.length === 1 ? '' : 's'} ${others.map(c => c.channelId).join(', ')} (use %CHANNEL%)`,
+      ]);
+    }
+  }
+  return conflicts;
+}
@@ -0,0 +1,28 @@
+// Start/stop/restart of a whole channel as a sequence of service actions.
+// rec@ and rtmp@ are BindsTo=rx@, so they stop whenever RX stops and have to be started again after it.
+
+import { Channel, ServiceType } from '@/types/channel';
+import { ServiceAction } from '@/hooks/useChannels';
+
+export interface ServiceActionStep {
+  service: ServiceType;
+  action: ServiceAction;
+}
+
+// Outputs the channel is configured to run
+function enabledOutputs(channel: Channel): ServiceType[] {
+  const outputs: ServiceType[] = [];
+  if (channel.config.rec.recordEnabled) outputs.push('rec');
+  if (channel.config.rtmp.rtmpEnabled) outputs.push('rtmp');
+  return outputs;
+}
+
+export function planChannelAction(channel: Channel, action: ServiceAction): ServiceActionStep[] {
+  if (action === 'stop') {
+    return (['rtmp', 'rec', 'rx'] as ServiceType[]).map(service => ({ service, action: 'stop' }));
+  }
+  return [
+    { service: 'rx', action },
+    ...enabledOutputs(channel).map(service => ({ service, action: 'start' as const })),
+  ];
+}
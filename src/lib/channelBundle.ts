@@ -0,0 +1,140 @@
+// Portable channel bundles: export configs to JSON/YAML, parse and validate them on import,
+// remap channel IDs and find ID/port clashes with the channels already on a backend.
+
+import YAML from 'yaml';
+import { ChannelConfig } from '@/types/channel';
+import { BundleFormat, ChannelBundle } from '@/types/bundle';
+import { BUNDLE_FORMAT, BUNDLE_VERSION, channelBundleSchema } from '@/schemas/bundle';
+import { formatZodError } from '@/schemas/validate';
+
+// Like ApiResponse: bundle on success, error otherwise
+export interface ParsedBundle {
+  success: boolean;
+  bundle?: ChannelBundle;
+  error?: string;
+}
+
+// Strip secrets from a config copy
+function redactConfig(config: ChannelConfig): ChannelConfig {
+  const copy = structuredClone(config);
+  delete copy.rx.srt.passphrase;
+  delete copy.rtmp.rtmpStreamKey;
+  return copy;
+}
+
+export function createBundle(
+  configs: ChannelConfig[],
+  options: { redactSecrets: boolean; source?: { name: string; host: string } }
+): ChannelBundle {
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    source: options.source,
+    redacted: options.redactSecrets,
+    channels: configs.map(config => (options.redactSecrets ? redactConfig(config) : structuredClone(config))),
+  };
+}
+
+export function serializeBundle(bundle: ChannelBundle, format: BundleFormat): string {
+  return format === 'yaml' ? YAML.stringify(bundle) : JSON.stringify(bundle, null, 2);
+}
+
+// Save a bundle as a file through a temporary download link
+export function downloadBundle(bundle: ChannelBundle, format: BundleFormat, filename: string) {
+  const type = format === 'yaml' ? 'application/yaml' : 'application/json';
+  const url = URL.createObjectURL(new Blob([serializeBundle(bundle, format)], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${filename}.${format === 'yaml' ? 'yaml' : 'json'}`;
+  link.click();
+  // Revoked once the click has started the download; revoking straight away can cancel it
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+// JSON is valid YAML, so one parser reads both formats
+export function parseBundle(text: string): ParsedBundle {
+  let raw: unknown;
+  try {
+    raw = YAML.parse(text);
+  } catch (error) {
+    return { success: false, error: `Not valid JSON or YAML: ${(error as Error).message}` };
+  }
+  if (!raw || typeof raw !== 'object' || (raw as { format?: unknown }).format !== BUNDLE_FORMAT) {
+    return { success: false, error: 'Not a channel bundle (missing "format: brateshub-channels")' };
+  }
+  const result = channelBundleSchema.safeParse(raw);
+  if (!result.success) {
+    return { success: false, error: `Invalid bundle: ${formatZodError(result.error)}` };
+  }
+  const ids = result.data.channels.map(c => c.channelId);
+  const duplicate = ids.find((id, i) => ids.indexOf(id) !== i);
+  if (duplicate !== undefined) {
+    return { success: false, error: `Invalid bundle: channel ${duplicate} appears more than once` };
+  }
+  return { success: true, bundle: result.data };
+}
+
+/**
+ * Give a config a new channel ID, moving the values that default from the ID along with it
+ * (listener port 5000+id and "ch<id>" in recording paths)
+ */
+export function remapChannelId(config: ChannelConfig, newId: number): ChannelConfig {
+  const oldId = config.channelId;
+  if (oldId === newId) return config;
+  const copy = structuredClone(config);
+  copy.channelId = newId;
+  if (copy.rx.srt.listenPort === 5000 + oldId) copy.rx.srt.listenPort = 5000 + newId;
+  const oldTag = new RegExp(`\\bch${oldId}\\b`, 'g');
+  copy.rec.recordPath = copy.rec.recordPath.replace(oldTag, `ch${newId}`);
+  if (copy.rec.filenameTemplate) copy.rec.filenameTemplate = copy.rec.filenameTemplate.replace(new RegExp(`^ch${oldId}_`), `ch${newId}_`);
+  if (copy.rec.repackPath) copy.rec.repackPath = copy.rec.repackPath.replace(oldTag, `ch${newId}`);
+  return copy;
+}
+
+// SRT listener port, defaulting like the backend's ingest summary
+function listenerPort(config: ChannelConfig): number | null {
+  return config.rx.srt.mode === 'listener' ? config.rx.srt.listenPort || 5000 + config.channelId : null;
+}
+
+function multicastTarget(config: ChannelConfig): string | null {
+  return config.rx.multicastEnabled && config.rx.multicastDstIp
+    ? `${config.rx.multicastDstIp}:${config.rx.multicastDstPort ?? ''}`
+    : null;
+}
+
+/**
+ * Problems that would stop each imported channel from being created or running,
+ * by index into `incoming`: IDs already taken, and listener ports or multicast outputs in use
+ */
+export function findImportConflicts(incoming: ChannelConfig[], existing: ChannelConfig[]): string[][] {
+  return incoming.map((config, index) => {
+    const problems: string[] = [];
+    const others = incoming.filter((_, i) => i !== index);
+
+    if (existing.some(c => c.channelId === config.channelId)) {
+      problems.push(`Channel ${config.channelId} already exists`);
+    }
+    if (others.some(c => c.channelId === config.channelId)) {
+      problems.push(`Channel ID ${config.channelId} is used twice in this import`);
+    }
+
+    const port = listenerPort(config);
+    if (port !== null) {
+      const holder = existing.find(c => listenerPort(c) === port);
+      if (holder) problems.push(`SRT port ${port} is used by channel ${holder.channelId}`);
+      const clash = others.find(c => listenerPort(c) === port);
+      if (clash) problems.push(`SRT port ${port} is also used by imported channel ${clash.channelId}`);
+    }
+
+    const target = multicastTarget(config);
+    if (target !== null) {
+      const holder = existing.find(c => multicastTarget(c) === target);
+      if (holder) problems.push(`Multicast ${target} is used by channel ${holder.channelId}`);
+      const clash = others.find(c => multicastTarget(c) === target);
+      if (clash) problems.push(`Multicast ${target} is also used by imported channel ${clash.channelId}`);
+    }
+
+    return problems;
+  });
+}
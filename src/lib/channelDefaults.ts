@@ -0,0 +1,72 @@
+// New-channel config from the global defaults. Mirrors getDefaultChannelConfig in
+// backend/src/services/settingsStore.js; used by the simulator and for previews.
+
+import { ChannelConfig } from '@/types/channel';
+import { GlobalSettings } from '@/types/settings';
+
+// Built-in defaults, as used by a backend without a settings file
+export const DEFAULT_GLOBAL_SETTINGS: GlobalSettings = {
+  rx: {
+    defaultLatencyMs: 200,
+    defaultBandwidthOverhead: 25,
+    defaultInterface: 'eth0',
+  },
+  rec: {
+    defaultRecordPath: '/srv/recordings',
+    defaultFilenameTemplate: 'ch%CHANNEL%_%Y%m%d_%H%M%S',
+    defaultSegmentDurationSec: 3600,
+    defaultRepackToMp4: false,
+  },
+  rtmp: {
+    defaultVideoBitrate: 6000,
+    defaultAudioBitrate: 192,
+    defaultVideoCodec: 'copy',
+    defaultVideoPreset: 'veryfast',
+    defaultAudioCodec: 'copy',
+  },
+};
+
+export function expandChannelPlaceholder(template: string, id: number): string {
+  return template.replace(/%CHANNEL%/g, String(id));
+}
+
+export function defaultRecordPath(settings: GlobalSettings, id: number): string {
+  return `${settings.rec.defaultRecordPath.replace(/\/+$/, '')}/ch${id}`;
+}
+
+export function buildDefaultChannelConfig(settings: GlobalSettings, id: number, name?: string): ChannelConfig {
+  const { rx, rec, rtmp } = settings;
+  const copyVideo = rtmp.defaultVideoCodec === 'copy';
+  const copyAudio = rtmp.defaultAudioCodec === 'copy';
+  return {
+    channelId: id,
+    name: name || `Channel ${id}`,
+    rx: {
+      srt: {
+        mode: 'listener',
+        listenPort: 5000 + id,
+        latencyMs: rx.defaultLatencyMs,
+        bandwidthOverhead: rx.defaultBandwidthOverhead,
+      },
+      multicastEnabled: false,
+      interface: rx.defaultInterface || undefined,
+    },
+    rec: {
+      recordEnabled: false,
+      recordPath: defaultRecordPath(settings, id),
+      filenameTemplate: expandChannelPlaceholder(rec.defaultFilenameTemplate, id),
+      segmentDurationSec: rec.defaultSegmentDurationSec,
+      repackToMp4: rec.defaultRepackToMp4,
+    },
+    rtmp: {
+      rtmpEnabled: false,
+      videoCodec: rtmp.defaultVideoCodec,
+      videoPreset: copyVideo ? undefined : rtmp.defaultVideoPreset,
+      videoBitrate: copyVideo ? undefined : rtmp.defaultVideoBitrate,
+      audioCodec: rtmp.defaultAudioCodec,
+      audioBitrate: copyAudio ? undefined : rtmp.defaultAudioBitrate,
+      audioPair: 'primary',
+      qualityPreset: copyVideo ? 'passthrough' : 'custom',
+    },
+  };
+}
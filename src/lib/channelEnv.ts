@@ -0,0 +1,98 @@
+// channel<PORT>.env as the backend renders it from a channel config (channelEnvService);
+// used by the simulator so its env preview matches a real controller.
+
+import { ChannelConfig } from '@/types/channel';
+
+type EnvValue = string | number | boolean | undefined;
+
+// Variables that hold secrets, masked in previews
+const SECRET_KEYS = ['SRT_PASSPHRASE', 'RTMP_URL'];
+
+// Same quoting as the backend: bare when safe, otherwise double-quoted with shell escapes
+function quote(value: string | number | boolean): string {
+  const text = String(value);
+  if (/^[\w.,:/@%+=-]*$/.test(text)) return text;
+  return `"${text.replace(/[\\"`$]/g, '\\$&')}"`;
+}
+
+function rtmpTarget(config: ChannelConfig): string | undefined {
+  const { rtmpUrl, rtmpStreamKey } = config.rtmp;
+  if (!rtmpUrl) return undefined;
+  if (!rtmpStreamKey) return rtmpUrl;
+  return `${rtmpUrl.replace(/\/+$/, '')}/${rtmpStreamKey}`;
+}
+
+function buildEnv(config: ChannelConfig): { title: string; vars: Record<string, EnvValue> }[] {
+  const { rx, rec, rtmp } = config;
+  const srt = rx.srt;
+  const transcodeVideo = !!rtmp.videoCodec && rtmp.videoCodec !== 'copy';
+  const transcodeAudio = !!rtmp.audioCodec && rtmp.audioCodec !== 'copy';
+
+  return [
+    {
+      title: 'SRT Input (RX Service)',
+      vars: {
+        SRT_MODE: srt.mode,
+        SRT_PORT: srt.mode === 'listener' ? srt.listenPort : undefined,
+        SRT_CALLER_HOST: srt.mode === 'caller' ? srt.targetHost : undefined,
+        SRT_CALLER_PORT: srt.mode === 'caller' ? srt.targetPort : undefined,
+        SRT_STREAMID: srt.streamId,
+        SRT_LATENCY: srt.latencyMs,
+        SRT_OHEADBW: srt.bandwidthOverhead,
+        SRT_MAXBW_MBPS: rx.maxBitrateMbps,
+        SRT_PASSPHRASE: srt.passphrase || '',
+        SRT_PBKEYLEN: srt.passphrase ? srt.pbkeylen : undefined,
+        MULTICAST_ENABLED: !!rx.multicastEnabled,
+        MULTICAST_DST: rx.multicastEnabled && rx.multicastDstIp
+          ? `${rx.multicastDstIp}:${rx.multicastDstPort || 5000}`
+          : undefined,
+        MULTICAST_INTERFACE: rx.interface,
+      },
+    },
+    {
+      title: 'Recording (REC Service)',
+      vars: {
+        REC_ENABLED: !!rec.recordEnabled,
+        REC_DIR: rec.recordPath,
+        REC_FORMAT: rec.filenameTemplate,
+        REC_SEGMENT_DURATION: rec.segmentMode ? rec.segmentDurationSec || 3600 : 0,
+        REC_REPACK_MP4: !!rec.repackToMp4,
+        REC_REPACK_DIR: rec.repackToMp4 ? rec.repackPath : undefined,
+      },
+    },
+    {
+      title: 'RTMP Output (RTMP Service)',
+      vars: {
+        RTMP_ENABLED: !!rtmp.rtmpEnabled,
+        RTMP_URL: rtmpTarget(config),
+        RTMP_VIDEO_CODEC: rtmp.videoCodec,
+        RTMP_VIDEO_PRESET: transcodeVideo ? rtmp.videoPreset : undefined,
+        RTMP_VIDEO_BITRATE: transcodeVideo ? rtmp.videoBitrate : undefined,
+        RTMP_VIDEO_WIDTH: transcodeVideo ? rtmp.videoWidth : undefined,
+        RTMP_VIDEO_HEIGHT: transcodeVideo ? rtmp.videoHeight : undefined,
+        RTMP_VIDEO_FPS: transcodeVideo ? rtmp.videoFps : undefined,
+        RTMP_GOP: transcodeVideo ? rtmp.gopSize : undefined,
+        RTMP_AUDIO_CODEC: rtmp.audioCodec,
+        RTMP_AUDIO_BITRATE: transcodeAudio ? rtmp.audioBitrate : undefined,
+        RTMP_AUDIO_RATE: transcodeAudio ? rtmp.audioSampleRate : undefined,
+        RTMP_AUDIO_PAIR: rtmp.audioPair,
+      },
+    },
+  ];
+}
+
+export function renderChannelEnv(config: ChannelConfig, options: { maskSecrets?: boolean } = {}): string {
+  const lines = [
+    `# Channel ${config.channelId} (${String(config.name).replace(/\s+/g, ' ')})`,
+    '# Generated by the BratesHUB controller from channels.json; edits here are overwritten on save',
+  ];
+  for (const { title, vars } of buildEnv(config)) {
+    lines.push('', `# ${title}`);
+    for (const [key, value] of Object.entries(vars)) {
+      if (value === undefined || value === null) continue;
+      const masked = options.maskSecrets && SECRET_KEYS.includes(key) && value !== '';
+      lines.push(`${key}=${masked ? '******' : quote(value)}`);
+    }
+  }
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,72 @@
+// What counts as a failing channel for desktop notifications, alarms and the tab badge
+
+import { Channel, ServiceType } from '@/types/channel';
+import { ChannelAnalysis } from '@/types/stream';
+import { FailureSeverity, FailureSource, failureKey } from '@/services/notificationSettings';
+
+export interface ChannelFailure {
+  key: string;
+  backendId: string;
+  channelId: number;
+  source: FailureSource;
+  severity: FailureSeverity;
+  message: string;
+}
+
+export const FAILURE_SOURCES: { source: FailureSource; label: string }[] = [
+  { source: 'rx', label: 'RX' },
+  { source: 'rec', label: 'REC' },
+  { source: 'rtmp', label: 'RTMP' },
+  { source: 'input', label: 'Input' },
+];
+
+const SERVICES: ServiceType[] = ['rx', 'rec', 'rtmp'];
+
+// Losing RX takes everything downstream with it
+const SERVICE_SEVERITY: Record<ServiceType, FailureSeverity> = {
+  rx: 'critical',
+  rec: 'warning',
+  rtmp: 'warning',
+};
+
+export const hasInput = (analysis: ChannelAnalysis | undefined) =>
+  !!analysis?.available && (analysis.bitrate?.total ?? 0) > 0;
+
+/**
+ * Current failures of a channel. Input loss needs hadInput, so a channel that
+ * is still starting up (or never had a signal) isn't reported as lost.
+ */
+export function channelFailures(
+  backendId: string,
+  channel: Channel,
+  analysis: ChannelAnalysis | undefined,
+  hadInput: boolean
+): ChannelFailure[] {
+  const failures: ChannelFailure[] = [];
+
+  for (const service of SERVICES) {
+    const state = channel[service];
+    if (state.status !== 'error' && state.status !== 'not-found') continue;
+    failures.push({
+      key: failureKey(backendId, channel.id, service),
+      backendId,
+      channelId: channel.id,
+      source: service,
+      severity: SERVICE_SEVERITY[service],
+      message: state.error ?? `${service.toUpperCase()} is ${state.status}`,
+    });
+  }
+
+  if (channel.rx.status === 'running' && hadInput && analysis && !hasInput(analysis)) {
+    failures.push({
+      key: failureKey(backendId, channel.id, 'input'),
+      backendId,
+      channelId: channel.id,
+      source: 'input',
+      severity: 'critical',
+      message: analysis.error ?? 'No input bitrate',
+    });
+  }
+
+  return failures;
+}
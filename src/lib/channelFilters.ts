@@ -0,0 +1,108 @@
+// Dashboard filters: free-text search, status, tags and groups, kept in the URL
+// (?q=&status=&tag=&group=) so a link reproduces the view.
+
+import { Channel } from '@/types/channel';
+
+export type StatusFilter = 'error' | 'rx-down' | 'recording' | 'streaming';
+
+export interface ChannelFilters {
+  query: string;
+  // A channel matches if any selected status applies
+  statuses: StatusFilter[];
+  // A channel matches only if it has every selected tag
+  tags: string[];
+  // A channel matches if it is in any selected group; '' selects ungrouped channels
+  groups: string[];
+}
+
+export const STATUS_FILTERS: { value: StatusFilter; label: string }[] = [
+  { value: 'error', label: 'Any error' },
+  { value: 'rx-down', label: 'RX down' },
+  { value: 'recording', label: 'Recording' },
+  { value: 'streaming', label: 'Streaming' },
+];
+
+export const EMPTY_FILTERS: ChannelFilters = { query: '', statuses: [], tags: [], groups: [] };
+
+const isStatusFilter = (value: string): value is StatusFilter => STATUS_FILTERS.some(s => s.value === value);
+
+// Repeated params (?tag=a&tag=b) keep values containing commas intact
+export function filtersFromParams(params: URLSearchParams): ChannelFilters {
+  return {
+    query: params.get('q') ?? '',
+    statuses: params.getAll('status').filter(isStatusFilter),
+    tags: params.getAll('tag'),
+    groups: params.getAll('group'),
+  };
+}
+
+export function filtersToParams(filters: ChannelFilters, base?: URLSearchParams): URLSearchParams {
+  const params = new URLSearchParams(base);
+  ['q', 'status', 'tag', 'group'].forEach(key => params.delete(key));
+  if (filters.query) params.set('q', filters.query);
+  filters.statuses.forEach(s => params.append('status', s));
+  filters.tags.forEach(t => params.append('tag', t));
+  filters.groups.forEach(g => params.append('group', g));
+  return params;
+}
+
+export function hasActiveFilters(filters: ChannelFilters): boolean {
+  return !!filters.query || filters.statuses.length > 0 || filters.tags.length > 0 || filters.groups.length > 0;
+}
+
+function matchesStatus(channel: Channel, status: StatusFilter): boolean {
+  switch (status) {
+    case 'error':
+      return [channel.rx, channel.rec, channel.rtmp].some(s => s.status === 'error');
+    case 'rx-down':
+      return channel.rx.status !== 'running';
+    case 'recording':
+      return channel.rec.status === 'running';
+    case 'streaming':
+      return channel.rtmp.status === 'running';
+  }
+}
+
+export function matchesFilters(channel: Channel, filters: ChannelFilters): boolean {
+  const query = filters.query.trim().toLowerCase();
+  if (query) {
+    const haystack = [String(channel.id), channel.name, channel.ingestSummary, channel.outputSummary]
+      .join(' ')
+      .toLowerCase();
+    if (!haystack.includes(query)) return false;
+  }
+  if (filters.statuses.length > 0 && !filters.statuses.some(s => matchesStatus(channel, s))) return false;
+  const tags = channel.config.tags ?? [];
+  if (!filters.tags.every(t => tags.includes(t))) return false;
+  if (filters.groups.length > 0 && !filters.groups.includes(channel.config.group ?? '')) return false;
+  return true;
+}
+
+// Tags and groups in use, sorted, for the filter menus
+export function collectTagsAndGroups(channels: Channel[]): { tags: string[]; groups: string[] } {
+  const tags = new Set<string>();
+  const groups = new Set<string>();
+  for (const channel of channels) {
+    channel.config.tags?.forEach(t => tags.add(t));
+    if (channel.config.group) groups.add(channel.config.group);
+  }
+  return { tags: [...tags].sort(), groups: [...groups].sort() };
+}
+
+export interface ChannelGroup {
+  // '' for channels without a group
+  name: string;
+  channels: Channel[];
+}
+
+// Named groups alphabetically, ungrouped channels last; channels keep their order
+export function groupChannels(channels: Channel[]): ChannelGroup[] {
+  const byName = new Map<string, Channel[]>();
+  for (const channel of channels) {
+    const name = channel.config.group ?? '';
+    byName.set(name, [...(byName.get(name) ?? []), channel]);
+  }
+  return [...byName.entries()]
+    .sort(([a], [b]) => (a === '' ? 1 : b === '' ? -1 : a.localeCompare(b)))
+    .map(([name, list]) => ({ name, channels: list }));
+}
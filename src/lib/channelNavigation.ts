@@ -0,0 +1,56 @@
+// Keyboard navigation between channel cards. Cards are found in the DOM so collapsed
+// groups, filters and backend sections are handled by whatever is actually rendered.
+
+const CARD_SELECTOR = '[data-channel-nav]';
+
+export interface ChannelRef {
+  backendId: string;
+  channelId: number;
+}
+
+export type ChannelDetailTab = 'status' | 'stream' | 'timeline' | 'logs' | 'config' | 'history' | 'env';
+
+// A channel's detail modal, open on a tab
+export interface ChannelDetailTarget extends ChannelRef {
+  tab: ChannelDetailTab;
+}
+
+/**
+ * Props for the focusable wrapper around a channel card
+ */
+export function channelNavProps({ backendId, channelId }: ChannelRef) {
+  return {
+    'data-channel-nav': '',
+    'data-backend-id': backendId,
+    'data-channel-id': String(channelId),
+    tabIndex: 0,
+  };
+}
+
+function currentCard(): HTMLElement | null {
+  return document.activeElement instanceof HTMLElement ? document.activeElement.closest<HTMLElement>(CARD_SELECTOR) : null;
+}
+
+/**
+ * Move focus to the next (1) or previous (-1) channel card; starts at the first or last one
+ */
+export function focusAdjacentChannel(delta: 1 | -1) {
+  const cards = Array.from(document.querySelectorAll<HTMLElement>(CARD_SELECTOR));
+  if (cards.length === 0) return;
+  const current = currentCard();
+  const index = current ? cards.indexOf(current) : -1;
+  const next = index === -1
+    ? (delta === 1 ? 0 : cards.length - 1)
+    : Math.min(cards.length - 1, Math.max(0, index + delta));
+  cards[next].focus();
+  cards[next].scrollIntoView({ block: 'nearest' });
+}
+
+/**
+ * The channel whose card (or something inside it) has focus
+ */
+export function getFocusedChannel(): ChannelRef | null {
+  const card = currentCard();
+  if (!card?.dataset.backendId || !card.dataset.channelId) return null;
+  return { backendId: card.dataset.backendId, channelId: Number(card.dataset.channelId) };
+}
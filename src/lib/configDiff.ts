@@ -0,0 +1,82 @@
+// Field-level diff of two channel configs and the services each change needs restarted.
+// REC and RTMP consume the stream RX produces, so an RX change restarts all three;
+// REC and RTMP changes only restart their own service.
+
+import { ChannelConfig, ServiceType } from '@/types/channel';
+
+export type ConfigSection = 'general' | ServiceType;
+
+export interface ConfigChange {
+  // Dotted path, e.g. "rx.srt.latencyMs"
+  path: string;
+  section: ConfigSection;
+  before: unknown;
+  after: unknown;
+}
+
+export const ALL_SERVICES: ServiceType[] = ['rx', 'rec', 'rtmp'];
+
+// Top-level fields that don't reach any service
+const METADATA_FIELDS = new Set(['channelId', 'name', 'tags', 'group']);
+
+const SERVICE_DEPENDENTS: Record<ServiceType, ServiceType[]> = {
+  rx: ['rx', 'rec', 'rtmp'],
+  rec: ['rec'],
+  rtmp: ['rtmp'],
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function sectionOf(path: string): ConfigSection {
+  const root = path.split('.')[0];
+  return root === 'rx' || root === 'rec' || root === 'rtmp' ? root : 'general';
+}
+
+function collect(before: unknown, after: unknown, path: string, changes: ConfigChange[]) {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      collect(before[key], after[key], path ? `${path}.${key}` : key, changes);
+    }
+    return;
+  }
+  // Leaves and arrays compare by value; an absent field equals an undefined one
+  if (JSON.stringify(before) !== JSON.stringify(after)) {
+    changes.push({ path, section: sectionOf(path), before, after });
+  }
+}
+
+export function diffConfig(before: ChannelConfig, after: ChannelConfig): ConfigChange[] {
+  return diffObjects(before, after);
+}
+
+// Same diff for any pair of objects, e.g. the settings or configs kept in the audit log
+export function diffObjects(before: Record<string, unknown>, after: Record<string, unknown>): ConfigChange[] {
+  const changes: ConfigChange[] = [];
+  collect(before, after, '', changes);
+  return changes;
+}
+
+// Services to restart for a set of changes, in rx/rec/rtmp order.
+// Unknown top-level fields (e.g. extraArgs) may be read by any service, so they restart everything.
+export function getAffectedServices(changes: ConfigChange[]): ServiceType[] {
+  const affected = new Set<ServiceType>();
+  for (const change of changes) {
+    if (change.section === 'general') {
+      if (!METADATA_FIELDS.has(change.path.split('.')[0])) ALL_SERVICES.forEach(s => affected.add(s));
+      continue;
+    }
+    SERVICE_DEPENDENTS[change.section].forEach(s => affected.add(s));
+  }
+  return ALL_SERVICES.filter(s => affected.has(s));
+}
+
+const SECRET_FIELDS = /(passphrase|streamKey)$/i;
+
+// Display form of a changed value; secrets are masked
+export function formatConfigValue(path: string, value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (SECRET_FIELDS.test(path)) return '••••••';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
@@ -0,0 +1,34 @@
+// Roles and what each one may do, mirroring the backend's route checks
+
+import { Role } from '@/types/auth';
+
+export const ROLES: Role[] = ['viewer', 'operator', 'engineer', 'admin'];
+
+export const roleLabels: Record<Role, string> = {
+  viewer: 'Viewer',
+  operator: 'Operator',
+  engineer: 'Engineer',
+  admin: 'Admin',
+};
+
+export const roleDescriptions: Record<Role, string> = {
+  viewer: 'Read-only',
+  operator: 'Start, stop and restart services; handle alerts',
+  engineer: 'Edit and apply channel configs, settings and alert rules',
+  admin: 'iLO power and user management',
+};
+
+export const hasRole = (role: Role | null | undefined, required: Role) =>
+  !!role && ROLES.indexOf(role) >= ROLES.indexOf(required);
+
+// Role each kind of control needs
+export const PERMISSIONS = {
+  controlServices: 'operator',
+  editConfig: 'engineer',
+  managePower: 'admin',
+  manageUsers: 'admin',
+} as const satisfies Record<string, Role>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const permissionHint = (permission: Permission) => `Requires the ${roleLabels[PERMISSIONS[permission]].toLowerCase()} role`;
@@ -0,0 +1,80 @@
+// Service timeline lanes, segments and event descriptions
+
+import { ServiceStatus, ServiceType } from '@/types/channel';
+import { ServiceEvent, ServiceEventCause } from '@/types/serviceEvents';
+
+export const causeLabels: Record<ServiceEventCause, string> = {
+  operator: 'Operator',
+  apply: 'Config apply',
+  failure: 'Failure',
+  restart: 'Auto-restart',
+  external: 'External',
+};
+
+export const causeStyles: Record<ServiceEventCause, string> = {
+  operator: 'text-primary border-primary/40',
+  apply: 'text-primary border-primary/40',
+  failure: 'text-status-error border-status-error/40',
+  restart: 'text-status-stopped border-status-stopped/40',
+  external: 'text-muted-foreground border-border',
+};
+
+// Segment fill per status, matching the StatusBadge dots
+export const segmentClasses: Record<ServiceStatus, string> = {
+  running: 'bg-status-running',
+  starting: 'bg-status-running/60',
+  stopping: 'bg-status-stopped/60',
+  stopped: 'bg-status-stopped',
+  error: 'bg-status-error',
+  'not-found': 'bg-status-unknown',
+  unknown: 'bg-status-unknown',
+};
+
+export interface TimelineSegment {
+  status: ServiceStatus;
+  from: number;
+  to: number;
+}
+
+/**
+ * Status segments of one service across [from, to]. Before the first
+ * transition the service was in that transition's from-status; without any
+ * transitions it was in its current status all along.
+ */
+export function toSegments(events: ServiceEvent[], service: ServiceType, current: ServiceStatus, from: number, to: number): TimelineSegment[] {
+  const transitions = events
+    .filter(e => e.kind === 'transition' && e.service === service)
+    .map(e => ({ time: new Date(e.timestamp).getTime(), from: e.from ?? current, to: e.to ?? current }))
+    .filter(t => t.time >= from && t.time <= to)
+    .sort((a, b) => a.time - b.time);
+
+  const segments: TimelineSegment[] = [];
+  let status = transitions[0]?.from ?? current;
+  let start = from;
+  for (const transition of transitions) {
+    if (transition.time > start) segments.push({ status, from: start, to: transition.time });
+    status = transition.to;
+    start = transition.time;
+  }
+  segments.push({ status, from: start, to });
+  return segments;
+}
+
+// Failures and automatic restarts in a window, for the lane summaries
+export function countIncidents(events: ServiceEvent[], service: ServiceType) {
+  const transitions = events.filter(e => e.kind === 'transition' && e.service === service);
+  return {
+    failures: transitions.filter(e => e.cause === 'failure').length,
+    restarts: transitions.filter(e => e.cause === 'restart' && e.to === 'running').length,
+  };
+}
+
+export function describeEvent(event: ServiceEvent): string {
+  if (event.kind === 'action') {
+    const action = `${causeLabels[event.cause]} ${event.action}`;
+    return event.error ? `${action} failed: ${event.error}` : action;
+  }
+  if (event.from === event.to) return `restarted${event.pid ? ` (PID ${event.pid})` : ''}`;
+  const change = `${event.from} → ${event.to}`;
+  return event.exitCode != null ? `${change}, exit code ${event.exitCode}` : change;
+}
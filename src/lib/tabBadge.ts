@@ -0,0 +1,71 @@
+// Failing channel count in the tab title and favicon, visible while the tab is in the background
+
+const ICON_SIZE = 32;
+
+let baseTitle: string | null = null;
+let baseIconHref: string | null = null;
+let baseIcon: Promise<HTMLImageElement | null> | null = null;
+
+function iconLink(): HTMLLinkElement {
+  let link = document.querySelector<HTMLLinkElement>('link[rel~="icon"]');
+  if (!link) {
+    link = document.createElement('link');
+    link.rel = 'icon';
+    link.href = '/favicon.ico';
+    document.head.appendChild(link);
+  }
+  return link;
+}
+
+function loadBaseIcon(href: string): Promise<HTMLImageElement | null> {
+  baseIcon ??= new Promise((resolve) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => resolve(null);
+    image.src = href;
+  });
+  return baseIcon;
+}
+
+async function drawBadge(count: number): Promise<string | null> {
+  const canvas = document.createElement('canvas');
+  canvas.width = ICON_SIZE;
+  canvas.height = ICON_SIZE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx || !baseIconHref) return null;
+
+  const image = await loadBaseIcon(baseIconHref);
+  if (image) ctx.drawImage(image, 0, 0, ICON_SIZE, ICON_SIZE);
+
+  const radius = ICON_SIZE * 0.32;
+  const cx = ICON_SIZE - radius;
+  const cy = radius;
+  ctx.fillStyle = '#dc2626';
+  ctx.beginPath();
+  ctx.arc(cx, cy, radius, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.fillStyle = '#ffffff';
+  ctx.font = `bold ${Math.round(radius * 1.4)}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(count > 9 ? '9+' : String(count), cx, cy + 1);
+  return canvas.toDataURL('image/png');
+}
+
+// Requests can overlap while the icon loads; only the latest count is applied
+let latest = 0;
+
+/**
+ * Show count in the title and favicon; 0 restores the originals
+ */
+export async function setTabBadge(count: number): Promise<void> {
+  baseTitle ??= document.title;
+  const link = iconLink();
+  baseIconHref ??= link.href;
+
+  document.title = count > 0 ? `(${count}) ${baseTitle}` : baseTitle;
+
+  const request = ++latest;
+  const href = count > 0 ? await drawBadge(count) : baseIconHref;
+  if (request === latest && href) link.href = href;
+}
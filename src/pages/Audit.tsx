@@ -0,0 +1,343 @@
+import { Fragment, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AlertCircle, ArrowLeft, ChevronDown, ChevronLeft, ChevronRight, Download, Loader2, ScrollText, Search, User } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ConfigDiffTable } from '@/components/ConfigDiffTable';
+import { AuditCategory, AuditEntry, AuditFilters, AuditOutcome } from '@/types/audit';
+import { useBackends } from '@/hooks/useBackends';
+import { useCurrentUser, usePermissions } from '@/hooks/useAuth';
+import { AUDIT_EXPORT_LIMIT, useAuditLog, useExportAuditLog } from '@/hooks/useAudit';
+import { actionLabels, categoryLabels, downloadCsv, entryChanges } from '@/lib/audit';
+import { permissionHint } from '@/lib/roles';
+import { getBackendHost } from '@/services/backendConfig';
+import { getChangeAuthor, setChangeAuthor } from '@/services/changeAuthor';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+
+const PAGE_SIZE = 50;
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString([], { year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit', hour12: false });
+
+// datetime-local value to epoch milliseconds
+const toTime = (value: string) => (value ? new Date(value).getTime() : undefined);
+
+function EntryDetails({ entry }: { entry: AuditEntry }) {
+  const changes = entryChanges(entry);
+  return (
+    <div className="space-y-3 py-2">
+      <dl className="grid grid-cols-[7rem_1fr] gap-x-3 gap-y-1 text-xs">
+        <dt className="text-muted-foreground">Credential</dt>
+        <dd className="font-mono">{entry.credential ?? '—'}</dd>
+        <dt className="text-muted-foreground">Address</dt>
+        <dd className="font-mono">{entry.ip ?? '—'}</dd>
+        {entry.error && (
+          <>
+            <dt className="text-muted-foreground">Error</dt>
+            <dd className="font-mono text-status-error break-all">{entry.error}</dd>
+          </>
+        )}
+        {entry.details && (
+          <>
+            <dt className="text-muted-foreground">Details</dt>
+            <dd className="font-mono break-all">{JSON.stringify(entry.details)}</dd>
+          </>
+        )}
+      </dl>
+      {(entry.before || entry.after) && <ConfigDiffTable changes={changes} className="max-h-64" />}
+    </div>
+  );
+}
+
+// Who did what and when on a backend, with the config before and after each edit
+const Audit = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { backends, activeId, isAggregated } = useBackends();
+  const [backendId, setBackendId] = useState(() => (isAggregated ? backends[0].id : activeId));
+  const [search, setSearch] = useState('');
+  const [category, setCategory] = useState<AuditCategory | 'all'>('all');
+  const [outcome, setOutcome] = useState<AuditOutcome | 'all'>('all');
+  const [actor, setActor] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [offset, setOffset] = useState(0);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [author, setAuthor] = useState(getChangeAuthor);
+
+  const filters: AuditFilters = {
+    search: search.trim() || undefined,
+    action: category === 'all' ? undefined : category,
+    outcome: outcome === 'all' ? undefined : outcome,
+    actor: actor.trim() || undefined,
+    from: toTime(from),
+    to: toTime(to),
+  };
+  // The backend only serves the audit log to engineers and admins
+  const { can } = usePermissions(backendId);
+  const currentUser = useCurrentUser(backendId);
+  const canRead = can('editConfig');
+  const { data, isLoading, isFetching, error } = useAuditLog(backendId, { ...filters, offset, limit: PAGE_SIZE }, canRead);
+  const exportLog = useExportAuditLog(backendId);
+  const total = data?.total ?? 0;
+
+  // Any filter change starts again from the newest entries
+  const filterSetter = <T,>(set: (value: T) => void) => (value: T) => {
+    set(value);
+    setOffset(0);
+  };
+
+  const handleBackendChange = (id: string) => {
+    setBackendId(id);
+    setOffset(0);
+    setExpanded(null);
+  };
+
+  const handleExport = async () => {
+    try {
+      const page = await exportLog.mutateAsync(filters);
+      downloadCsv(page.entries, `audit-${new Date().toISOString().slice(0, 10)}`);
+      if (page.total > page.entries.length) {
+        toast({
+          title: 'Export truncated',
+          description: `Exported the newest ${page.entries.length} of ${page.total} entries. Narrow the filters to export the rest.`,
+        });
+      }
+    } catch (err) {
+      toast({ title: 'Export failed', description: (err as Error).message, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="sticky top-0 z-50 border-b border-border/60 bg-background/90 backdrop-blur-xl">
+        <div className="absolute top-0 left-0 right-0 h-px bg-gradient-to-r from-transparent via-primary/40 to-transparent" />
+
+        <div className="container flex h-16 items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => navigate('/')}
+              className="gap-2"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back
+            </Button>
+            <div className="h-6 w-px bg-border" />
+            <h1 className="text-lg font-bold tracking-tight">Audit Log</h1>
+          </div>
+
+          <Button onClick={handleExport} disabled={!canRead || exportLog.isPending || total === 0}>
+            {exportLog.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Download className="h-4 w-4 mr-2" />
+            )}
+            Export CSV
+          </Button>
+        </div>
+      </header>
+
+      <main className="container py-6 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <p className="text-muted-foreground">
+            Service actions, config changes and iLO operations on the backend, newest first. Exports hold up to {AUDIT_EXPORT_LIMIT} entries.
+          </p>
+          <div className="flex flex-wrap items-center gap-4">
+            <div className="flex items-center gap-2">
+              <User className="h-4 w-4 text-muted-foreground" />
+              <Label htmlFor="auditAuthor" className="text-sm text-muted-foreground whitespace-nowrap">Record my actions as</Label>
+              <Input
+                id="auditAuthor"
+                value={author}
+                onChange={(e) => setAuthor(e.target.value)}
+                onBlur={() => setChangeAuthor(author)}
+                placeholder="Your name"
+                className="h-9 w-40"
+              />
+            </div>
+            {backends.length > 1 && (
+              <div className="flex items-center gap-2">
+                <Label htmlFor="auditBackend" className="text-sm text-muted-foreground">Backend</Label>
+                <Select value={backendId} onValueChange={handleBackendChange}>
+                  <SelectTrigger id="auditBackend" className="w-64">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {backends.map(backend => (
+                      <SelectItem key={backend.id} value={backend.id}>
+                        {backend.name} <span className="text-muted-foreground">· {getBackendHost(backend)}</span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {canRead && (
+          <div className="flex flex-wrap items-end gap-3 rounded-lg border border-border bg-card p-3">
+            <div className="relative min-w-56 flex-1">
+              <Search className="absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                value={search}
+                onChange={(e) => filterSetter(setSearch)(e.target.value)}
+                placeholder="Search summary, actor, address, error…"
+                className="h-9 pl-8"
+              />
+            </div>
+            <Select value={category} onValueChange={(v) => filterSetter(setCategory)(v as AuditCategory | 'all')}>
+              <SelectTrigger className="h-9 w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All actions</SelectItem>
+                {(Object.keys(categoryLabels) as AuditCategory[]).map(c => (
+                  <SelectItem key={c} value={c}>{categoryLabels[c]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={outcome} onValueChange={(v) => filterSetter(setOutcome)(v as AuditOutcome | 'all')}>
+              <SelectTrigger className="h-9 w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All outcomes</SelectItem>
+                <SelectItem value="success">Succeeded</SelectItem>
+                <SelectItem value="failure">Failed</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              value={actor}
+              onChange={(e) => filterSetter(setActor)(e.target.value)}
+              placeholder="Actor"
+              className="h-9 w-36"
+            />
+            <div className="flex items-center gap-2">
+              <Label htmlFor="auditFrom" className="text-xs text-muted-foreground">From</Label>
+              <Input id="auditFrom" type="datetime-local" value={from} onChange={(e) => filterSetter(setFrom)(e.target.value)} className="h-9 w-52" />
+            </div>
+            <div className="flex items-center gap-2">
+              <Label htmlFor="auditTo" className="text-xs text-muted-foreground">To</Label>
+              <Input id="auditTo" type="datetime-local" value={to} onChange={(e) => filterSetter(setTo)(e.target.value)} className="h-9 w-52" />
+            </div>
+          </div>
+        )}
+
+        {!canRead ? (
+          currentUser.isLoading ? (
+            <div className="animate-pulse bg-secondary rounded h-64" />
+          ) : (
+            <div className="rounded-lg border border-border bg-card py-12 text-center text-muted-foreground">
+              <ScrollText className="h-8 w-8 mx-auto mb-2 opacity-50" />
+              <p>{permissionHint('editConfig')} on this backend to read its audit log</p>
+            </div>
+          )
+        ) : error && !data ? (
+          <div className="flex items-center gap-2 rounded-lg border border-status-error/50 bg-status-error/10 p-3 text-sm text-status-error">
+            <AlertCircle className="h-4 w-4 shrink-0" />
+            Could not load the audit log: {error.message}
+          </div>
+        ) : isLoading || !data ? (
+          <div className="animate-pulse bg-secondary rounded h-64" />
+        ) : data.entries.length === 0 ? (
+          <div className="rounded-lg border border-border bg-card py-12 text-center text-muted-foreground">
+            <ScrollText className="h-8 w-8 mx-auto mb-2 opacity-50" />
+            <p>No audit entries match these filters</p>
+          </div>
+        ) : (
+          <div className="rounded-lg border border-border bg-card">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-border text-left text-xs uppercase tracking-wider text-muted-foreground">
+                  <th className="w-8 px-3 py-2" />
+                  <th className="px-3 py-2 font-medium">Time</th>
+                  <th className="px-3 py-2 font-medium">Actor</th>
+                  <th className="px-3 py-2 font-medium">Action</th>
+                  <th className="px-3 py-2 font-medium">Summary</th>
+                  <th className="px-3 py-2 font-medium text-right">Outcome</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.entries.map(entry => {
+                  const isExpanded = expanded === entry.id;
+                  return (
+                    <Fragment key={entry.id}>
+                      <tr
+                        className="cursor-pointer border-b border-border/50 last:border-0 hover:bg-secondary/40"
+                        onClick={() => setExpanded(isExpanded ? null : entry.id)}
+                      >
+                        <td className="px-3 py-2">
+                          <ChevronDown className={cn('h-4 w-4 text-muted-foreground transition-transform', !isExpanded && '-rotate-90')} />
+                        </td>
+                        <td className="px-3 py-2 font-mono text-xs whitespace-nowrap text-muted-foreground">{formatTime(entry.timestamp)}</td>
+                        <td className="px-3 py-2 whitespace-nowrap">
+                          {entry.actor ?? <span className="text-muted-foreground">{entry.credential ?? 'Unknown'}</span>}
+                        </td>
+                        <td className="px-3 py-2 whitespace-nowrap">{actionLabels[entry.action]}</td>
+                        <td className="px-3 py-2">{entry.summary}</td>
+                        <td className="px-3 py-2 text-right">
+                          <span className={cn(
+                            'rounded border px-1.5 py-0.5 text-[10px] uppercase tracking-wider',
+                            entry.outcome === 'success'
+                              ? 'text-status-running border-status-running/40'
+                              : 'text-status-error border-status-error/40'
+                          )}>
+                            {entry.outcome === 'success' ? 'Succeeded' : 'Failed'}
+                          </span>
+                        </td>
+                      </tr>
+                      {isExpanded && (
+                        <tr className="border-b border-border/50 bg-secondary/20">
+                          <td />
+                          <td colSpan={5} className="px-3">
+                            <EntryDetails entry={entry} />
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+
+            <div className="flex items-center justify-between border-t border-border px-3 py-2 text-xs text-muted-foreground">
+              <span className="flex items-center gap-2">
+                {offset + 1}–{offset + data.entries.length} of {total}
+                {isFetching && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+              </span>
+              <div className="flex items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={offset === 0}
+                  onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                  Newer
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={offset + PAGE_SIZE >= total}
+                  onClick={() => setOffset(offset + PAGE_SIZE)}
+                >
+                  Older
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Audit;
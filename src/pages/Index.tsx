@@ -1,113 +1,60 @@
-import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useMemo, useState } from 'react';
+import { useQueryClient, useIsFetching } from '@tanstack/react-query';
 import { Header } from '@/components/Header';
-import { ChannelCard } from '@/components/ChannelCard';
-import { ChannelDetailModal } from '@/components/ChannelDetailModal';
-import { BulkControls } from '@/components/BulkControls';
 import { IloControlPanel } from '@/components/IloControlPanel';
-import { CreateChannelDialog } from '@/components/CreateChannelDialog';
-import { Channel, ServiceType } from '@/types/channel';
-import { api } from '@/services/api';
-import { useChannelAnalysis } from '@/hooks/useStreamAnalysis';
-import { useToast } from '@/hooks/use-toast';
-import { Radio, HardDrive, Cast, Inbox } from 'lucide-react';
+import { BackendChannelSection } from '@/components/BackendChannelSection';
+import { CHANNEL_SEARCH_ID, ChannelFilterBar } from '@/components/ChannelFilterBar';
+import { CommandPalette, CommandPalettePage } from '@/components/CommandPalette';
+import { useBackends } from '@/hooks/useBackends';
+import { useChannelsAcrossBackends } from '@/hooks/useChannels';
+import { useChannelFilters } from '@/hooks/useChannelFilters';
+import { useKeyboardShortcuts } from '@/hooks/useKeyboardShortcuts';
+import { useFailureNotifications } from '@/hooks/useFailureNotifications';
+import { collectTagsAndGroups, matchesFilters } from '@/lib/channelFilters';
+import { ChannelDetailTarget, ChannelRef, focusAdjacentChannel, getFocusedChannel } from '@/lib/channelNavigation';
+import { queryKeys } from '@/services/queryKeys';
+import { Radio, HardDrive, Cast } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 const Index = () => {
-  const [channels, setChannels] = useState<Channel[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [isRefreshing, setIsRefreshing] = useState(false);
-  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
-  const [selectedChannelId, setSelectedChannelId] = useState<number | null>(null);
-  const [loadingStates, setLoadingStates] = useState<Record<string, boolean>>({});
-  const [isBulkLoading, setIsBulkLoading] = useState(false);
-  const { toast } = useToast();
-
-  // Get channel IDs for analysis
-  const channelIds = useMemo(() => channels.map(c => c.id), [channels]);
-  const { analyses } = useChannelAnalysis(2000, channelIds);
-
-  const fetchChannels = useCallback(async (showLoading = false) => {
-    if (showLoading) setIsLoading(true);
-    setIsRefreshing(true);
-
-    const response = await api.getChannels();
-    if (response.success && response.data) {
-      setChannels(response.data);
-      setLastUpdated(new Date());
-    }
-
-    setIsLoading(false);
-    setIsRefreshing(false);
-  }, []);
-
-  useEffect(() => {
-    fetchChannels(true);
-    const interval = setInterval(() => fetchChannels(false), 5000);
-    return () => clearInterval(interval);
-  }, [fetchChannels]);
-
-  const handleServiceAction = async (
-    channelId: number,
-    service: ServiceType,
-    action: 'start' | 'stop' | 'restart'
-  ) => {
-    const key = `${channelId}-${service}`;
-    setLoadingStates((prev) => ({ ...prev, [key]: true }));
-
-    try {
-      let response;
-      switch (action) {
-        case 'start':
-          response = await api.startService(channelId, service);
-          break;
-        case 'stop':
-          response = await api.stopService(channelId, service);
-          break;
-        case 'restart':
-          response = await api.restartService(channelId, service);
-          break;
-      }
-
-      if (response.success) {
-        toast({
-          title: `${service.toUpperCase()} ${action}ed`,
-          description: `Channel ${channelId} ${service.toUpperCase()} has been ${action}ed.`,
-        });
-        await fetchChannels(false);
-      }
-    } catch (error) {
-      toast({
-        title: 'Action failed',
-        description: `Failed to ${action} ${service.toUpperCase()} on channel ${channelId}.`,
-        variant: 'destructive',
-      });
+  const queryClient = useQueryClient();
+  const { visibleBackends, isAggregated } = useBackends();
+
+  // Stats cover every backend on screen; each section keeps its own list fresh
+  const backendIds = useMemo(() => visibleBackends.map(b => b.id), [visibleBackends]);
+  const channelQueries = useChannelsAcrossBackends(backendIds);
+  const channels = channelQueries.flatMap(q => q.data ?? []);
+  const updatedAt = Math.max(0, ...channelQueries.map(q => q.dataUpdatedAt));
+  const lastUpdated = updatedAt ? new Date(updatedAt) : null;
+  const isRefreshing = useIsFetching({ queryKey: queryKeys.channels }) > 0;
+  const { filters, setFilters } = useChannelFilters();
+  const { tags, groups } = collectTagsAndGroups(channels);
+  const matchCount = channels.filter(ch => matchesFilters(ch, filters)).length;
+  const [detail, setDetail] = useState<ChannelDetailTarget | null>(null);
+  const [palette, setPalette] = useState<{ open: boolean; page: CommandPalettePage }>({ open: false, page: 'root' });
+  const openChannel = (channel: ChannelRef) => setDetail({ ...channel, tab: 'status' });
+  const alarms = useFailureNotifications(visibleBackends, openChannel);
+
+  const handleRefresh = () => {
+    for (const backendId of backendIds) {
+      queryClient.invalidateQueries({ queryKey: queryKeys.backendChannels(backendId) });
     }
-
-    setLoadingStates((prev) => ({ ...prev, [key]: false }));
   };
 
-  const handleBulkAction = async (service: ServiceType, action: 'start' | 'stop' | 'restart') => {
-    setIsBulkLoading(true);
-
-    try {
-      const response = await api.bulkOperation(service, action, channelIds);
-      if (response.success) {
-        toast({
-          title: `Bulk ${action} complete`,
-          description: `All ${service.toUpperCase()} services have been ${action}ed.`,
-        });
-        await fetchChannels(false);
-      }
-    } catch (error) {
-      toast({
-        title: 'Bulk action failed',
-        description: `Failed to ${action} all ${service.toUpperCase()} services.`,
-        variant: 'destructive',
-      });
-    }
-
-    setIsBulkLoading(false);
-  };
+  const focusSearch = () => document.getElementById(CHANNEL_SEARCH_ID)?.focus();
+
+  useKeyboardShortcuts({
+    'mod+k': () => setPalette(p => ({ open: !p.open, page: 'root' })),
+    '?': () => setPalette({ open: true, page: 'shortcuts' }),
+    '/': focusSearch,
+    r: handleRefresh,
+    j: () => focusAdjacentChannel(1),
+    k: () => focusAdjacentChannel(-1),
+    l: () => {
+      const focused = getFocusedChannel();
+      if (focused) setDetail({ ...focused, tab: 'logs' });
+    },
+  });
 
   // Count running services
   const runningCounts = channels.reduce(
@@ -130,9 +77,12 @@ const Index = () => {
   return (
     <div className="min-h-screen bg-background">
       <Header
-        onRefresh={() => fetchChannels(false)}
+        onRefresh={handleRefresh}
         isRefreshing={isRefreshing}
         lastUpdated={lastUpdated}
+        onOpenChannel={openChannel}
+        ringingAlarms={alarms.ringingCount}
+        onAcknowledgeAlarms={alarms.acknowledge}
       />
 
       <main className="container py-6 space-y-6">
@@ -163,73 +113,38 @@ const Index = () => {
           ))}
         </div>
 
-        {/* Bulk controls */}
-        {channels.length > 0 && (
-          <BulkControls onBulkAction={handleBulkAction} isLoading={isBulkLoading} />
-        )}
-
-        {/* Section divider with Add Channel button */}
-        <div className="relative py-2">
-          <div className="section-divider" />
-          <div className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 flex items-center gap-4 bg-background px-4">
-            <span className="text-xs uppercase tracking-widest text-muted-foreground">
-              Channels
-            </span>
-            <CreateChannelDialog 
-              existingIds={channelIds} 
-              onCreated={() => fetchChannels(false)} 
-            />
-          </div>
-        </div>
-
-        {/* Channel list */}
-        {isLoading ? (
-          <div className="space-y-3">
-            {Array.from({ length: 3 }).map((_, i) => (
-              <div key={i} className="h-20 animate-pulse rounded-lg bg-card border border-border/40" />
-            ))}
-          </div>
-        ) : channels.length === 0 ? (
-          <div className="flex flex-col items-center justify-center py-16 text-center">
-            <div className={cn(
-              "flex h-16 w-16 items-center justify-center rounded-full mb-4",
-              "bg-gradient-to-br from-muted/50 to-muted/20",
-              "border border-border/50"
-            )}>
-              <Inbox className="h-8 w-8 text-muted-foreground" />
-            </div>
-            <h3 className="text-lg font-semibold mb-2">No Channels</h3>
-            <p className="text-muted-foreground max-w-md mb-6">
-              Get started by adding your first streaming channel. Each channel can have its own SRT input, 
-              recording settings, and RTMP output configuration.
-            </p>
-            <CreateChannelDialog 
-              existingIds={[]} 
-              onCreated={() => fetchChannels(false)} 
-            />
-          </div>
-        ) : (
-          <div className="space-y-2">
-            {channels.map((channel) => (
-              <ChannelCard
-                key={channel.id}
-                channel={channel}
-                analysis={analyses[channel.id]}
-                onServiceAction={handleServiceAction}
-                onOpenDetail={setSelectedChannelId}
-                loadingStates={loadingStates}
-              />
-            ))}
-          </div>
-        )}
+        <ChannelFilterBar
+          filters={filters}
+          onChange={setFilters}
+          tags={tags}
+          groups={groups}
+          matchCount={matchCount}
+          totalCount={totalChannels}
+        />
+
+        {/* Channels, grouped by backend in the aggregated view */}
+        {visibleBackends.map((backend) => (
+          <BackendChannelSection
+            key={backend.id}
+            backend={backend}
+            grouped={isAggregated}
+            filters={filters}
+            detail={detail}
+            onOpenDetail={setDetail}
+            onCloseDetail={() => setDetail(null)}
+          />
+        ))}
       </main>
 
-      {/* Channel detail modal */}
-      <ChannelDetailModal
-        channelId={selectedChannelId}
-        onClose={() => setSelectedChannelId(null)}
-        onServiceAction={handleServiceAction}
-        loadingStates={loadingStates}
+      <CommandPalette
+        open={palette.open}
+        onOpenChange={(open) => setPalette(p => ({ ...p, open }))}
+        startPage={palette.page}
+        backends={visibleBackends}
+        isAggregated={isAggregated}
+        onOpenDetail={setDetail}
+        onRefresh={handleRefresh}
+        onFocusSearch={focusSearch}
       />
     </div>
   );
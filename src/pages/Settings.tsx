@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { ArrowLeft, Radio, HardDrive, Cast, Save, RefreshCw, AlertCircle } from 'lucide-react';
+import { ArrowLeft, Radio, HardDrive, Cast, Save, RefreshCw, AlertCircle, History, Bell, BellRing, Users } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -8,36 +8,25 @@ import { Switch } from '@/components/ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { AlertRulesSettings } from '@/components/AlertRulesSettings';
+import { NotificationSettingsPanel } from '@/components/NotificationSettingsPanel';
+import { NotificationDestinationsSettings } from '@/components/NotificationDestinationsSettings';
+import { UsersSettings } from '@/components/UsersSettings';
+import { GlobalSettings, GlobalRxSettings, GlobalRecSettings, GlobalRtmpSettings } from '@/types/settings';
+import { useBackends } from '@/hooks/useBackends';
+import { useGlobalSettings, useSaveGlobalSettings } from '@/hooks/useSettings';
+import { usePermissions } from '@/hooks/useAuth';
+import { getBackendHost } from '@/services/backendConfig';
 import { useToast } from '@/hooks/use-toast';
+import { permissionHint } from '@/lib/roles';
 import { cn } from '@/lib/utils';
 
-// Default configurations for new channels
-interface GlobalRxSettings {
-  defaultLatencyMs: number;
-  defaultBandwidthOverhead: number;
-  defaultInterface: string;
-}
-
-interface GlobalRecSettings {
-  defaultRecordPath: string;
-  defaultFilenameTemplate: string;
-  defaultSegmentDurationSec: number;
-  defaultRepackToMp4: boolean;
-}
-
-interface GlobalRtmpSettings {
-  defaultVideoBitrate: number;
-  defaultAudioBitrate: number;
-  defaultVideoCodec: 'libx264' | 'copy';
-  defaultVideoPreset: 'ultrafast' | 'superfast' | 'veryfast' | 'faster' | 'fast' | 'medium';
-  defaultAudioCodec: 'aac' | 'copy';
-}
+// Defaults saved in this browser before they moved to the backend
+const LEGACY_STORAGE_KEY = 'brateshub-global-settings';
 
-const STORAGE_KEY = 'brateshub-global-settings';
-
-function getStoredSettings() {
+function getLegacySettings(): Partial<GlobalSettings> | null {
   try {
-    const stored = localStorage.getItem(STORAGE_KEY);
+    const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
     if (stored) return JSON.parse(stored);
   } catch (e) {
     console.warn('Failed to parse global settings:', e);
@@ -45,76 +34,72 @@ function getStoredSettings() {
   return null;
 }
 
-function saveSettings(settings: { rx: GlobalRxSettings; rec: GlobalRecSettings; rtmp: GlobalRtmpSettings }) {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
-}
-
 const Settings = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
-  
-  const [rxSettings, setRxSettings] = useState<GlobalRxSettings>({
-    defaultLatencyMs: 200,
-    defaultBandwidthOverhead: 25,
-    defaultInterface: 'eth0',
-  });
-  
-  const [recSettings, setRecSettings] = useState<GlobalRecSettings>({
-    defaultRecordPath: '/srv/recordings',
-    defaultFilenameTemplate: 'ch%CHANNEL%_%Y%m%d_%H%M%S',
-    defaultSegmentDurationSec: 3600,
-    defaultRepackToMp4: true,
-  });
-  
-  const [rtmpSettings, setRtmpSettings] = useState<GlobalRtmpSettings>({
-    defaultVideoBitrate: 6000,
-    defaultAudioBitrate: 192,
-    defaultVideoCodec: 'copy',
-    defaultVideoPreset: 'veryfast',
-    defaultAudioCodec: 'aac',
-  });
-  
+  const { backends, activeId, isAggregated } = useBackends();
+  // Defaults are per backend; start with the one selected in the dashboard
+  const [backendId, setBackendId] = useState(() => (isAggregated ? backends[0].id : activeId));
+  const { data: storedSettings, isLoading, error: loadError } = useGlobalSettings(backendId);
+  const saveSettings = useSaveGlobalSettings(backendId);
+  const { can } = usePermissions(backendId);
+  const [draft, setDraft] = useState<GlobalSettings | null>(null);
   const [hasChanges, setHasChanges] = useState(false);
-  const [isSaving, setIsSaving] = useState(false);
+  const [legacySettings, setLegacySettings] = useState(getLegacySettings);
+  const isSaving = saveSettings.isPending;
 
+  // Take the backend's settings as the editing baseline unless there are local edits
   useEffect(() => {
-    const stored = getStoredSettings();
-    if (stored) {
-      if (stored.rx) setRxSettings(stored.rx);
-      if (stored.rec) setRecSettings(stored.rec);
-      if (stored.rtmp) setRtmpSettings(stored.rtmp);
-    }
-  }, []);
+    if (storedSettings && !hasChanges) setDraft(storedSettings);
+  }, [storedSettings, hasChanges]);
 
-  const handleSave = async () => {
-    setIsSaving(true);
-    
-    // Simulate save delay
-    await new Promise(resolve => setTimeout(resolve, 500));
-    
-    saveSettings({ rx: rxSettings, rec: recSettings, rtmp: rtmpSettings });
-    
-    toast({
-      title: 'Settings saved',
-      description: 'Global default settings have been saved.',
-    });
-    
+  const handleBackendChange = (id: string) => {
+    setBackendId(id);
+    setDraft(null);
     setHasChanges(false);
-    setIsSaving(false);
+  };
+
+  const handleUseLegacy = () => {
+    if (!draft || !legacySettings) return;
+    setDraft({
+      rx: { ...draft.rx, ...legacySettings.rx },
+      rec: { ...draft.rec, ...legacySettings.rec },
+      rtmp: { ...draft.rtmp, ...legacySettings.rtmp },
+    });
+    setHasChanges(true);
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    try {
+      await saveSettings.mutateAsync(draft);
+      // Once on the backend, the browser copy is no longer needed
+      if (legacySettings) {
+        localStorage.removeItem(LEGACY_STORAGE_KEY);
+        setLegacySettings(null);
+      }
+      toast({
+        title: 'Settings saved',
+        description: 'New channels on this backend will use these defaults.',
+      });
+      setHasChanges(false);
+    } catch (error) {
+      toast({ title: 'Save failed', description: (error as Error).message, variant: 'destructive' });
+    }
   };
 
   const updateRx = (field: keyof GlobalRxSettings, value: number | string) => {
-    setRxSettings(prev => ({ ...prev, [field]: value }));
+    setDraft(prev => prev && { ...prev, rx: { ...prev.rx, [field]: value } });
     setHasChanges(true);
   };
 
   const updateRec = (field: keyof GlobalRecSettings, value: number | string | boolean) => {
-    setRecSettings(prev => ({ ...prev, [field]: value }));
+    setDraft(prev => prev && { ...prev, rec: { ...prev.rec, [field]: value } });
     setHasChanges(true);
   };
 
   const updateRtmp = (field: keyof GlobalRtmpSettings, value: number | string) => {
-    setRtmpSettings(prev => ({ ...prev, [field]: value }));
+    setDraft(prev => prev && { ...prev, rtmp: { ...prev.rtmp, [field]: value } });
     setHasChanges(true);
   };
 
@@ -146,7 +131,11 @@ const Settings = () => {
                 Unsaved changes
               </span>
             )}
-            <Button onClick={handleSave} disabled={isSaving || !hasChanges}>
+            <Button
+              onClick={handleSave}
+              disabled={isSaving || !hasChanges || !draft || !can('editConfig')}
+              title={can('editConfig') ? undefined : permissionHint('editConfig')}
+            >
               {isSaving ? (
                 <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
               ) : (
@@ -159,14 +148,52 @@ const Settings = () => {
       </header>
 
       <main className="container py-6">
-        <div className="mb-6">
+        <div className="mb-6 flex flex-wrap items-center justify-between gap-4">
           <p className="text-muted-foreground">
-            Configure default settings for all channels. Individual channel settings can override these defaults.
+            Defaults for new channels, stored on the backend and shared by every operator. Individual channel settings can override these defaults.
           </p>
+          {backends.length > 1 && (
+            <div className="flex items-center gap-2">
+              <Label htmlFor="settingsBackend" className="text-sm text-muted-foreground">Backend</Label>
+              <Select value={backendId} onValueChange={handleBackendChange}>
+                <SelectTrigger id="settingsBackend" className="w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {backends.map(backend => (
+                    <SelectItem key={backend.id} value={backend.id}>
+                      {backend.name} <span className="text-muted-foreground">· {getBackendHost(backend)}</span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
         </div>
 
+        {legacySettings && draft && (
+          <div className="mb-6 flex items-center justify-between gap-3 rounded-lg border border-border bg-secondary/30 p-3 text-sm">
+            <span className="flex items-center gap-2 text-muted-foreground">
+              <History className="h-4 w-4 shrink-0" />
+              This browser has defaults saved before they moved to the backend.
+            </span>
+            <Button size="sm" variant="secondary" onClick={handleUseLegacy}>
+              Load them
+            </Button>
+          </div>
+        )}
+
+        {loadError && !draft ? (
+          <div className="flex items-center gap-2 rounded-lg border border-status-error/50 bg-status-error/10 p-3 text-sm text-status-error">
+            <AlertCircle className="h-4 w-4 shrink-0" />
+            Could not load settings: {loadError.message}
+          </div>
+        ) : isLoading || !draft ? (
+          <div className="animate-pulse bg-secondary rounded h-64" />
+        ) : (
+
         <Tabs defaultValue="rx" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-3 max-w-md">
+          <TabsList className={cn("grid w-full", can('manageUsers') ? "grid-cols-6 max-w-3xl" : "grid-cols-5 max-w-2xl")}>
             <TabsTrigger value="rx" className="gap-2">
               <Radio className="h-4 w-4" />
               SRT RX
@@ -179,6 +206,20 @@ const Settings = () => {
               <Cast className="h-4 w-4" />
               RTMP
             </TabsTrigger>
+            <TabsTrigger value="alerts" className="gap-2">
+              <Bell className="h-4 w-4" />
+              Alerts
+            </TabsTrigger>
+            <TabsTrigger value="notifications" className="gap-2">
+              <BellRing className="h-4 w-4" />
+              Notifications
+            </TabsTrigger>
+            {can('manageUsers') && (
+              <TabsTrigger value="users" className="gap-2">
+                <Users className="h-4 w-4" />
+                Users
+              </TabsTrigger>
+            )}
           </TabsList>
 
           {/* RX Settings */}
@@ -200,7 +241,7 @@ const Settings = () => {
                     <Input
                       id="defaultLatency"
                       type="number"
-                      value={rxSettings.defaultLatencyMs}
+                      value={draft.rx.defaultLatencyMs}
                       onChange={(e) => updateRx('defaultLatencyMs', parseInt(e.target.value))}
                       className="font-mono"
                     />
@@ -213,7 +254,7 @@ const Settings = () => {
                     <Input
                       id="defaultOverhead"
                       type="number"
-                      value={rxSettings.defaultBandwidthOverhead}
+                      value={draft.rx.defaultBandwidthOverhead}
                       onChange={(e) => updateRx('defaultBandwidthOverhead', parseInt(e.target.value))}
                       className="font-mono"
                     />
@@ -226,7 +267,7 @@ const Settings = () => {
                   <Label htmlFor="defaultInterface">Default Network Interface</Label>
                   <Input
                     id="defaultInterface"
-                    value={rxSettings.defaultInterface}
+                    value={draft.rx.defaultInterface}
                     onChange={(e) => updateRx('defaultInterface', e.target.value)}
                     className="font-mono"
                     placeholder="eth0"
@@ -256,7 +297,7 @@ const Settings = () => {
                   <Label htmlFor="defaultRecordPath">Default Record Path</Label>
                   <Input
                     id="defaultRecordPath"
-                    value={recSettings.defaultRecordPath}
+                    value={draft.rec.defaultRecordPath}
                     onChange={(e) => updateRec('defaultRecordPath', e.target.value)}
                     className="font-mono"
                     placeholder="/srv/recordings"
@@ -269,7 +310,7 @@ const Settings = () => {
                   <Label htmlFor="defaultFilename">Filename Template</Label>
                   <Input
                     id="defaultFilename"
-                    value={recSettings.defaultFilenameTemplate}
+                    value={draft.rec.defaultFilenameTemplate}
                     onChange={(e) => updateRec('defaultFilenameTemplate', e.target.value)}
                     className="font-mono"
                     placeholder="ch%CHANNEL%_%Y%m%d_%H%M%S"
@@ -284,7 +325,7 @@ const Settings = () => {
                     <Input
                       id="segmentDuration"
                       type="number"
-                      value={recSettings.defaultSegmentDurationSec}
+                      value={draft.rec.defaultSegmentDurationSec}
                       onChange={(e) => updateRec('defaultSegmentDurationSec', parseInt(e.target.value))}
                       className="font-mono"
                     />
@@ -300,7 +341,7 @@ const Settings = () => {
                       </p>
                     </div>
                     <Switch
-                      checked={recSettings.defaultRepackToMp4}
+                      checked={draft.rec.defaultRepackToMp4}
                       onCheckedChange={(v) => updateRec('defaultRepackToMp4', v)}
                     />
                   </div>
@@ -328,7 +369,7 @@ const Settings = () => {
                     <Input
                       id="defaultVideoBitrate"
                       type="number"
-                      value={rtmpSettings.defaultVideoBitrate}
+                      value={draft.rtmp.defaultVideoBitrate}
                       onChange={(e) => updateRtmp('defaultVideoBitrate', parseInt(e.target.value))}
                       className="font-mono"
                     />
@@ -338,7 +379,7 @@ const Settings = () => {
                     <Input
                       id="defaultAudioBitrate"
                       type="number"
-                      value={rtmpSettings.defaultAudioBitrate}
+                      value={draft.rtmp.defaultAudioBitrate}
                       onChange={(e) => updateRtmp('defaultAudioBitrate', parseInt(e.target.value))}
                       className="font-mono"
                     />
@@ -348,7 +389,7 @@ const Settings = () => {
                   <div className="space-y-2">
                     <Label htmlFor="defaultVideoCodec">Video Codec</Label>
                     <Select
-                      value={rtmpSettings.defaultVideoCodec}
+                      value={draft.rtmp.defaultVideoCodec}
                       onValueChange={(v) => updateRtmp('defaultVideoCodec', v)}
                     >
                       <SelectTrigger id="defaultVideoCodec">
@@ -366,9 +407,9 @@ const Settings = () => {
                   <div className="space-y-2">
                     <Label htmlFor="defaultVideoPreset">Encoding Preset</Label>
                     <Select
-                      value={rtmpSettings.defaultVideoPreset}
+                      value={draft.rtmp.defaultVideoPreset}
                       onValueChange={(v) => updateRtmp('defaultVideoPreset', v as GlobalRtmpSettings['defaultVideoPreset'])}
-                      disabled={rtmpSettings.defaultVideoCodec === 'copy'}
+                      disabled={draft.rtmp.defaultVideoCodec === 'copy'}
                     >
                       <SelectTrigger id="defaultVideoPreset">
                         <SelectValue />
@@ -390,7 +431,7 @@ const Settings = () => {
                 <div className="space-y-2">
                   <Label htmlFor="defaultAudioCodec">Audio Codec</Label>
                   <Select
-                    value={rtmpSettings.defaultAudioCodec}
+                    value={draft.rtmp.defaultAudioCodec}
                     onValueChange={(v) => updateRtmp('defaultAudioCodec', v)}
                   >
                     <SelectTrigger id="defaultAudioCodec" className="max-w-xs">
@@ -405,7 +446,26 @@ const Settings = () => {
               </CardContent>
             </Card>
           </TabsContent>
+
+          {/* Alert rules, saved as they are edited */}
+          <TabsContent value="alerts">
+            <AlertRulesSettings backendId={backendId} />
+          </TabsContent>
+
+          {/* Destinations live on the backend (engineers only, they hold credentials); desktop and sound settings in this browser only */}
+          <TabsContent value="notifications" className="space-y-6">
+            {can('editConfig') && <NotificationDestinationsSettings backendId={backendId} />}
+            <NotificationSettingsPanel />
+          </TabsContent>
+
+          {/* Accounts on this backend, admins only */}
+          {can('manageUsers') && (
+            <TabsContent value="users">
+              <UsersSettings backendId={backendId} />
+            </TabsContent>
+          )}
         </Tabs>
+        )}
       </main>
     </div>
   );
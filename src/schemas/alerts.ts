@@ -0,0 +1,55 @@
+// Runtime contracts for /api/alerts (alerts and alert rules); types/alerts.ts infers from these
+
+import { z } from 'zod';
+import { serviceStatusSchema, serviceTypeSchema } from './channel';
+
+export const alertRuleTypeSchema = z.enum([
+  'service-state',
+  'bitrate',
+  'pid-missing',
+  'cc-errors',
+  'ilo-health',
+  'ilo-temperature',
+  'disk-space',
+]);
+
+export const alertSeveritySchema = z.enum(['critical', 'warning', 'info']);
+
+// Fields beyond the common ones depend on the type, see backend/README.md
+export const alertRuleSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: alertRuleTypeSchema,
+  enabled: z.boolean(),
+  severity: alertSeveritySchema,
+  // Channel rules only; empty means every channel
+  channelIds: z.array(z.number()),
+  // How long the condition must hold before the alert fires
+  forSeconds: z.number(),
+  service: serviceTypeSchema.optional(),
+  status: serviceStatusSchema.optional(),
+  comparison: z.enum(['below', 'above']).optional(),
+  // Mbps, errors per minute, °C or percent free, depending on the type
+  threshold: z.number().optional(),
+  path: z.string().optional(),
+});
+
+export const alertStateSchema = z.enum(['firing', 'acknowledged', 'resolved']);
+
+export const alertSchema = z.object({
+  id: z.string(),
+  ruleId: z.string(),
+  ruleName: z.string(),
+  type: alertRuleTypeSchema,
+  severity: alertSeveritySchema,
+  channelId: z.number().nullable(),
+  // What the alert is about within its rule, e.g. 'ch5001', 'ch5001:pid257', 'disk:/srv'
+  subject: z.string(),
+  message: z.string(),
+  value: z.number().nullable(),
+  state: alertStateSchema,
+  firedAt: z.string(),
+  acknowledgedAt: z.string().nullable(),
+  resolvedAt: z.string().nullable(),
+  silencedUntil: z.string().nullable(),
+});
@@ -0,0 +1,22 @@
+// Runtime contracts for POST /api/channels/:id/apply and its config-apply progress events
+
+import { z } from 'zod';
+
+export const applyStepSchema = z.object({
+  key: z.string(), // e.g. 'save', 'restart-rx', 'stop-rec', 'rollback-verify-rx'
+  label: z.string(),
+  status: z.enum(['running', 'done', 'failed']),
+  detail: z.string().optional(),
+});
+
+// rolled-back: the new config failed verification and the previous one is running again
+export const applyOutcomeSchema = z.enum(['applied', 'rolled-back', 'rollback-failed']);
+
+export const applyResultSchema = z.object({
+  applyId: z.string(),
+  channelId: z.number(),
+  outcome: applyOutcomeSchema,
+  steps: z.array(applyStepSchema),
+  // Why the new config was rolled back
+  error: z.string().optional(),
+});
@@ -0,0 +1,48 @@
+// Runtime contract for /api/audit; types/audit.ts infers from these
+
+import { z } from 'zod';
+
+export const auditActionSchema = z.enum([
+  'service.start',
+  'service.stop',
+  'service.restart',
+  'service.bulk',
+  'channel.create',
+  'channel.update',
+  'channel.delete',
+  'config.save',
+  'config.apply',
+  'settings.update',
+  'ilo.power',
+  'ilo.credentials',
+  'auth.login',
+  'user.create',
+  'user.update',
+  'user.delete',
+]);
+
+export const auditOutcomeSchema = z.enum(['success', 'failure']);
+
+export const auditEntrySchema = z.object({
+  id: z.string(),
+  timestamp: z.string(),
+  // Signed-in user or the operator name sent as X-Change-Author, and the session, API key or token used
+  actor: z.string().nullable(),
+  credential: z.string().nullable(),
+  ip: z.string().nullable(),
+  action: auditActionSchema,
+  channelId: z.number().nullable(),
+  service: z.string().nullable(),
+  summary: z.string(),
+  outcome: auditOutcomeSchema,
+  error: z.string().nullable(),
+  details: z.record(z.unknown()).nullable(),
+  // Config or settings before and after an edit
+  before: z.record(z.unknown()).nullable(),
+  after: z.record(z.unknown()).nullable(),
+});
+
+export const auditPageSchema = z.object({
+  total: z.number(),
+  entries: z.array(auditEntrySchema),
+});
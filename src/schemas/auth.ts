@@ -0,0 +1,30 @@
+// Runtime contracts for /api/auth and /api/users; types/auth.ts infers from these
+
+import { z } from 'zod';
+
+// Lowest to highest; each role can do everything the ones before it can
+export const roleSchema = z.enum(['viewer', 'operator', 'engineer', 'admin']);
+
+// Password hashes never leave the backend
+export const userSchema = z.object({
+  id: z.string(),
+  username: z.string(),
+  role: roleSchema,
+  disabled: z.boolean(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const sessionSchema = z.object({
+  token: z.string(),
+  expiresAt: z.string(),
+  user: userSchema,
+});
+
+// username is null for the API key, API tokens and backends without accounts, which act as admin
+export const currentUserSchema = z.object({
+  username: z.string().nullable(),
+  role: roleSchema,
+  credential: z.string().nullable(),
+  authEnabled: z.boolean(),
+});
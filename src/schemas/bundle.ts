@@ -0,0 +1,21 @@
+// File format for channel import/export bundles (JSON or YAML)
+
+import { z } from 'zod';
+import { channelConfigSchema } from './channel';
+
+export const BUNDLE_FORMAT = 'brateshub-channels';
+export const BUNDLE_VERSION = 1;
+
+export const channelBundleSchema = z.object({
+  format: z.literal(BUNDLE_FORMAT),
+  version: z.literal(BUNDLE_VERSION),
+  exportedAt: z.string(),
+  // Backend the channels were exported from
+  source: z.object({
+    name: z.string(),
+    host: z.string(),
+  }).optional(),
+  // Secrets (SRT passphrase, RTMP stream key) were left out
+  redacted: z.boolean(),
+  channels: z.array(channelConfigSchema).min(1, 'Bundle contains no channels'),
+});
@@ -0,0 +1,138 @@
+// Runtime contracts for channel responses from the backend.
+// The types in types/channel.ts are inferred from these, so a field added
+// or renamed here is a compile error everywhere it is used.
+
+import { z } from 'zod';
+
+// Mirrors systemdService.getServiceStatus on the backend
+export const serviceStatusSchema = z.enum([
+  'running',
+  'stopped',
+  'starting',
+  'stopping',
+  'error',
+  'not-found',
+  'unknown',
+]);
+
+export const serviceTypeSchema = z.enum(['rx', 'rec', 'rtmp']);
+
+export const serviceStateSchema = z.object({
+  status: serviceStatusSchema,
+  serviceName: z.string().optional(),
+  // systemd reports no PID/memory for stopped units
+  pid: z.number().nullish(),
+  uptime: z.string().nullish(),
+  memory: z.number().nullish(),
+  subState: z.string().optional(),
+  error: z.string().optional(),
+  lastStartTime: z.string().optional(),
+  lastExitCode: z.number().optional(),
+  lastFailureTime: z.string().optional(),
+});
+
+// Config objects pass unknown keys through so saving a config never drops
+// fields written by a newer backend
+export const srtConfigSchema = z.object({
+  // SRT Mode - caller or listener
+  mode: z.enum(['caller', 'listener']),
+  // Caller mode settings
+  targetHost: z.string().optional(),
+  targetPort: z.number().optional(),
+  // Listener mode settings (listen on this port)
+  listenPort: z.number().optional(),
+  // Common settings
+  streamId: z.string().optional(),
+  latencyMs: z.number().optional(),
+  bandwidthOverhead: z.number().optional(),
+  // Optional passphrase for encryption
+  passphrase: z.string().optional(),
+  pbkeylen: z.union([z.literal(16), z.literal(24), z.literal(32)]).optional(),
+}).passthrough();
+
+export const rxConfigSchema = z.object({
+  srt: srtConfigSchema,
+  maxBitrateMbps: z.number().optional(),
+  // Multicast output
+  multicastEnabled: z.boolean(),
+  multicastDstIp: z.string().optional(),
+  multicastDstPort: z.number().optional(),
+  interface: z.string().optional(),
+}).passthrough();
+
+export const recConfigSchema = z.object({
+  recordEnabled: z.boolean(),
+  recordPath: z.string(),
+  // Recording filename template (e.g., "channel_%Y%m%d_%H%M%S")
+  filenameTemplate: z.string().optional(),
+  segmentMode: z.boolean().optional(),
+  segmentDurationSec: z.number().optional(),
+  repackToMp4: z.boolean(),
+  repackPath: z.string().optional(),
+}).passthrough();
+
+// Audio pair selection - some sources have multiple audio tracks
+export const audioPairSchema = z.enum(['primary', 'secondary', 'both']);
+
+export const rtmpConfigSchema = z.object({
+  rtmpEnabled: z.boolean(),
+  rtmpUrl: z.string().optional(),
+  rtmpStreamKey: z.string().optional(),
+  // Video settings
+  videoCodec: z.enum(['libx264', 'libx265', 'copy']).optional(),
+  videoPreset: z.enum(['ultrafast', 'superfast', 'veryfast', 'faster', 'fast', 'medium', 'slow']).optional(),
+  videoBitrate: z.number().optional(), // kbps
+  videoWidth: z.number().optional(),
+  videoHeight: z.number().optional(),
+  videoFps: z.number().optional(),
+  gopSize: z.number().optional(), // keyframe interval
+  // Audio settings
+  audioCodec: z.enum(['aac', 'copy']).optional(),
+  audioBitrate: z.number().optional(), // kbps
+  audioSampleRate: z.union([z.literal(48000), z.literal(44100)]).optional(),
+  audioPair: audioPairSchema.optional(),
+  // Quality presets
+  qualityPreset: z.enum(['passthrough', '1080p', '720p', '480p', 'custom']).optional(),
+}).passthrough();
+
+export const channelConfigSchema = z.object({
+  channelId: z.number(),
+  name: z.string(),
+  rx: rxConfigSchema,
+  rec: recConfigSchema,
+  rtmp: rtmpConfigSchema,
+  extraArgs: z.string().optional(),
+  // Dashboard organisation only; no service reads these
+  tags: z.array(z.string()).optional(),
+  group: z.string().optional(),
+}).passthrough();
+
+export const channelSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  rx: serviceStateSchema,
+  rec: serviceStateSchema,
+  rtmp: serviceStateSchema,
+  config: channelConfigSchema,
+  ingestSummary: z.string(),
+  outputSummary: z.string(),
+});
+
+export const logEntrySchema = z.object({
+  timestamp: z.string(),
+  level: z.enum(['debug', 'info', 'warn', 'error']),
+  message: z.string(),
+});
+
+// Env file the channel's start scripts read, rendered from its stored config (secrets masked)
+export const channelEnvSchema = z.object({
+  path: z.string(),
+  content: z.string(),
+  exists: z.boolean(),
+  // false when the file on disk differs from what the stored config renders to
+  inSync: z.boolean(),
+  modifiedAt: z.string().nullable(),
+});
+
+// Endpoints that only acknowledge (start/stop/save...); any payload is ignored
+export const acknowledgementSchema = z.unknown().transform((): void => undefined);
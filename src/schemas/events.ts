@@ -0,0 +1,64 @@
+// Runtime contracts for the live event stream (GET /api/events); types/events.ts infers from these
+
+import { z } from 'zod';
+import { serviceStateSchema, serviceStatusSchema, serviceTypeSchema } from './channel';
+import { channelAnalysisSchema } from './stream';
+import { applyResultSchema } from './apply';
+import { alertSchema } from './alerts';
+
+export const serviceStateEventSchema = z.object({
+  channelId: z.number(),
+  service: serviceTypeSchema,
+  state: serviceStateSchema,
+  previousStatus: serviceStatusSchema.optional(),
+  timestamp: z.string(),
+});
+
+export const bitrateEventSchema = channelAnalysisSchema.extend({
+  timestamp: z.string(),
+});
+
+export const heartbeatEventSchema = z.object({
+  clients: z.number(),
+  timestamp: z.string(),
+});
+
+export const channelsChangedEventSchema = z.object({
+  reason: z.enum(['created', 'updated', 'deleted', 'discovered']),
+  channelId: z.number().optional(),
+  timestamp: z.string(),
+});
+
+export const settingsChangedEventSchema = z.object({
+  timestamp: z.string(),
+});
+
+// Progress of a transactional config apply; outcome is null until it finishes
+export const configApplyEventSchema = applyResultSchema.extend({
+  outcome: applyResultSchema.shape.outcome.nullable(),
+  timestamp: z.string(),
+});
+
+// An alert fired, was acknowledged, silenced or resolved
+export const alertEventSchema = z.object({
+  alert: alertSchema,
+  timestamp: z.string(),
+});
+
+export const snapshotEventSchema = z.object({
+  services: z.array(serviceStateEventSchema.omit({ timestamp: true, previousStatus: true })),
+  bitrates: z.array(bitrateEventSchema),
+  timestamp: z.string(),
+});
+
+// Event name -> payload schema, as sent by GET /api/events
+export const liveEventSchemas = {
+  'snapshot': snapshotEventSchema,
+  'service-state': serviceStateEventSchema,
+  'bitrate': bitrateEventSchema,
+  'heartbeat': heartbeatEventSchema,
+  'channels-changed': channelsChangedEventSchema,
+  'config-apply': configApplyEventSchema,
+  'settings-changed': settingsChangedEventSchema,
+  'alert': alertEventSchema,
+};
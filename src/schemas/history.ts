@@ -0,0 +1,16 @@
+// Runtime contract for GET /api/channels/:id/history
+
+import { z } from 'zod';
+import { channelConfigSchema } from './channel';
+
+// baseline: the config a channel had before its history started
+export const configVersionSourceSchema = z.enum(['baseline', 'create', 'update', 'save', 'apply']);
+
+export const configVersionSchema = z.object({
+  version: z.number(),
+  timestamp: z.string(),
+  author: z.string(),
+  comment: z.string().optional(),
+  source: configVersionSourceSchema,
+  config: channelConfigSchema,
+});
@@ -0,0 +1,81 @@
+// Runtime contract for GET /ilo/status. The backend forwards Redfish readings
+// (temperature/fan lists, power metrics object, 'healthy' health), which are
+// normalized here into the IloStatus shape the panel renders.
+
+import { z } from 'zod';
+
+export const serverPowerStateSchema = z.enum(['on', 'off', 'unknown']);
+export const iloHealthSchema = z.enum(['ok', 'warning', 'critical', 'unknown']);
+export const fanStatusSchema = z.enum(['ok', 'warning', 'failed']);
+
+export const iloStatusSchema = z.object({
+  connected: z.boolean(),
+  hostname: z.string(),
+  powerState: serverPowerStateSchema,
+  health: iloHealthSchema,
+  model: z.string(),
+  serialNumber: z.string(),
+  biosVersion: z.string(),
+  iloVersion: z.string(),
+  temperatures: z.object({
+    inlet: z.number(),
+    cpu1: z.number(),
+    cpu2: z.number().optional(),
+  }),
+  fans: z.array(z.object({
+    name: z.string(),
+    speed: z.number(),
+    status: fanStatusSchema,
+  })),
+  powerConsumption: z.number(), // watts
+  uptime: z.string(),
+  lastBootTime: z.string().optional(),
+});
+
+// Backend health strings ('healthy' etc. from iloService.parseHealth)
+const backendHealthSchema = z.enum(['healthy', 'warning', 'critical', 'unknown']);
+
+const toIloHealth = (health: z.infer<typeof backendHealthSchema>) =>
+  health === 'healthy' ? 'ok' : health;
+
+const toFanStatus = (health: z.infer<typeof backendHealthSchema>) =>
+  health === 'critical' ? 'failed' : health === 'warning' ? 'warning' : 'ok';
+
+const backendReadingSchema = z.object({
+  name: z.string(),
+  status: backendHealthSchema,
+});
+
+export const iloBackendStatusSchema = z.object({
+  powerState: serverPowerStateSchema,
+  health: backendHealthSchema,
+  model: z.string().nullish(),
+  serialNumber: z.string().nullish(),
+  biosVersion: z.string().nullish(),
+  hostname: z.string().nullish(),
+  uptime: z.string().nullish(),
+  temperatures: z.array(backendReadingSchema.extend({ value: z.number() })),
+  fans: z.array(backendReadingSchema.extend({ speed: z.number() })),
+  powerConsumption: z.object({ current: z.number().nullish() }).nullable(),
+}).transform((status): z.infer<typeof iloStatusSchema> => {
+  const reading = (pattern: RegExp) => status.temperatures.find(t => pattern.test(t.name))?.value;
+
+  return {
+    connected: true,
+    hostname: status.hostname ?? '',
+    powerState: status.powerState,
+    health: toIloHealth(status.health),
+    model: status.model ?? '',
+    serialNumber: status.serialNumber ?? '',
+    biosVersion: status.biosVersion ?? '',
+    iloVersion: '',
+    temperatures: {
+      inlet: reading(/inlet|ambient/i) ?? 0,
+      cpu1: reading(/cpu ?1/i) ?? 0,
+      cpu2: reading(/cpu ?2/i),
+    },
+    fans: status.fans.map(fan => ({ name: fan.name, speed: fan.speed, status: toFanStatus(fan.status) })),
+    powerConsumption: status.powerConsumption?.current ?? 0,
+    uptime: status.uptime ?? '',
+  };
+});
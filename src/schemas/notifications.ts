@@ -0,0 +1,58 @@
+// Runtime contracts for /api/notifications (destinations and delivery history); types/notifications.ts infers from these
+
+import { z } from 'zod';
+import { alertSeveritySchema } from './alerts';
+
+export const destinationTypeSchema = z.enum(['webhook', 'email']);
+
+export const smtpSecuritySchema = z.enum(['none', 'starttls', 'tls']);
+
+// The password is write-only; hasPassword says whether one is stored
+export const smtpSettingsSchema = z.object({
+  host: z.string(),
+  port: z.number(),
+  security: smtpSecuritySchema,
+  username: z.string().nullable(),
+  hasPassword: z.boolean(),
+});
+
+// Fields beyond the common ones depend on the type, see backend/README.md
+export const notificationDestinationSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: destinationTypeSchema,
+  enabled: z.boolean(),
+  severities: z.array(alertSeveritySchema),
+  notifyResolved: z.boolean(),
+  // Webhooks
+  url: z.string().optional(),
+  method: z.enum(['POST', 'PUT']).optional(),
+  headers: z.record(z.string()).optional(),
+  // JSON with {{placeholders}}; null sends the default payload
+  template: z.string().nullable().optional(),
+  // Email
+  smtp: smtpSettingsSchema.optional(),
+  from: z.string().optional(),
+  to: z.array(z.string()).optional(),
+});
+
+export const deliveryEventSchema = z.enum(['firing', 'resolved', 'test']);
+
+export const deliveryStatusSchema = z.enum(['pending', 'retrying', 'delivered', 'failed']);
+
+export const notificationDeliverySchema = z.object({
+  id: z.string(),
+  destinationId: z.string(),
+  destinationName: z.string(),
+  destinationType: destinationTypeSchema,
+  event: deliveryEventSchema,
+  alertId: z.string(),
+  summary: z.string(),
+  status: deliveryStatusSchema,
+  attempts: z.number(),
+  lastError: z.string().nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  deliveredAt: z.string().nullable(),
+  nextAttemptAt: z.string().nullable(),
+});
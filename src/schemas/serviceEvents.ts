@@ -0,0 +1,29 @@
+// Runtime contract for /api/services/events; types/serviceEvents.ts infers from these
+
+import { z } from 'zod';
+import { serviceStatusSchema, serviceTypeSchema } from './channel';
+
+export const serviceEventKindSchema = z.enum(['transition', 'action']);
+
+// What caused a transition; actions carry the cause they were requested as
+export const serviceEventCauseSchema = z.enum(['operator', 'apply', 'failure', 'restart', 'external']);
+
+export const serviceActionSchema = z.enum(['start', 'stop', 'restart']);
+
+export const serviceEventSchema = z.object({
+  id: z.string(),
+  timestamp: z.string(),
+  channelId: z.number(),
+  service: serviceTypeSchema,
+  kind: serviceEventKindSchema,
+  cause: serviceEventCauseSchema,
+  // Transitions
+  from: serviceStatusSchema.optional(),
+  to: serviceStatusSchema.optional(),
+  exitCode: z.number().nullish(),
+  pid: z.number().nullish(),
+  detail: z.string().nullish(),
+  // Actions; error is set when the command itself failed
+  action: serviceActionSchema.optional(),
+  error: z.string().nullish(),
+});
@@ -0,0 +1,31 @@
+// Runtime contract for GET/PUT /api/settings (global defaults for new channels)
+
+import { z } from 'zod';
+
+export const globalRxSettingsSchema = z.object({
+  defaultLatencyMs: z.number(),
+  defaultBandwidthOverhead: z.number(),
+  defaultInterface: z.string(),
+});
+
+export const globalRecSettingsSchema = z.object({
+  defaultRecordPath: z.string(),
+  // %CHANNEL% is replaced with the channel ID
+  defaultFilenameTemplate: z.string(),
+  defaultSegmentDurationSec: z.number(),
+  defaultRepackToMp4: z.boolean(),
+});
+
+export const globalRtmpSettingsSchema = z.object({
+  defaultVideoBitrate: z.number(),
+  defaultAudioBitrate: z.number(),
+  defaultVideoCodec: z.enum(['libx264', 'copy']),
+  defaultVideoPreset: z.enum(['ultrafast', 'superfast', 'veryfast', 'faster', 'fast', 'medium']),
+  defaultAudioCodec: z.enum(['aac', 'copy']),
+});
+
+export const globalSettingsSchema = z.object({
+  rx: globalRxSettingsSchema,
+  rec: globalRecSettingsSchema,
+  rtmp: globalRtmpSettingsSchema,
+});
@@ -0,0 +1,142 @@
+// Runtime contracts for /api/analyze responses; types/stream.ts infers from these
+
+import { z } from 'zod';
+import { serviceTypeSchema } from './channel';
+
+export const streamPidSchema = z.object({
+  pid: z.number(),
+  type: z.string(),
+  bitrate: z.number(),
+  bitrateMbps: z.string(),
+  percentage: z.string(),
+  scrambled: z.boolean(),
+  discontinuities: z.number(),
+});
+
+export const streamServiceSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  provider: z.string(),
+  type: z.string(),
+  // Not every tsanalyze build reports these
+  pmtPid: z.number().optional(),
+  pcrPid: z.number().optional(),
+});
+
+export const streamBitrateSchema = z.object({
+  total: z.number(),
+  totalMbps: z.string(),
+});
+
+export const streamAnalysisSchema = z.object({
+  available: z.boolean(),
+  timestamp: z.string(),
+  error: z.string().optional(),
+  bitrate: streamBitrateSchema.optional(),
+  pids: z.array(streamPidSchema).optional(),
+  services: z.array(streamServiceSchema).optional(),
+  packets: z.number().optional(),
+  invalid: z.number().optional(),
+  suspectIgnored: z.number().optional(),
+});
+
+export const channelAnalysisSchema = z.object({
+  channelId: z.number(),
+  available: z.boolean(),
+  timestamp: z.string().optional(),
+  error: z.string().optional(),
+  bitrate: streamBitrateSchema.optional(),
+});
+
+// One history bucket; the bitrates are null where there was no stream
+export const bitrateSampleSchema = z.object({
+  timestamp: z.string(),
+  avgBps: z.number().nullable(),
+  minBps: z.number().nullable(),
+  maxBps: z.number().nullable(),
+});
+
+export const bitrateMarkerKindSchema = z.enum(['restart', 'stop', 'failure', 'input-lost', 'input-restored']);
+
+export const bitrateMarkerSchema = z.object({
+  timestamp: z.string(),
+  kind: bitrateMarkerKindSchema,
+  // Set for service markers
+  service: serviceTypeSchema.optional(),
+  message: z.string().optional(),
+});
+
+// GET /api/analyze/:id/history
+export const bitrateHistorySchema = z.object({
+  channelId: z.number(),
+  from: z.string(),
+  to: z.string(),
+  resolutionSec: z.number(),
+  samples: z.array(bitrateSampleSchema),
+  markers: z.array(bitrateMarkerSchema),
+});
+
+// One periodic tsanalyze run; bps is 0 while the PID was missing and null without a stream
+export const pidSampleSchema = z.object({
+  timestamp: z.string(),
+  bps: z.number().nullable(),
+  ccErrors: z.number(),
+});
+
+// Compared with the baseline: missing = expected but absent, new = present but not expected
+export const pidStatusSchema = z.enum(['ok', 'missing', 'new']);
+
+export const pidHistoryEntrySchema = z.object({
+  pid: z.number(),
+  type: z.string(),
+  status: pidStatusSchema,
+  // Continuity errors since countersResetAt
+  ccErrors: z.number(),
+  lastSeen: z.string().nullable(),
+  samples: z.array(pidSampleSchema),
+});
+
+// GET /api/analyze/:id/pids and POST /api/analyze/:id/pids/reset
+export const pidHistorySchema = z.object({
+  channelId: z.number(),
+  updatedAt: z.string().nullable(),
+  available: z.boolean(),
+  baseline: z.object({
+    capturedAt: z.string(),
+    pids: z.array(z.number()),
+  }).nullable(),
+  countersResetAt: z.string(),
+  pids: z.array(pidHistoryEntrySchema),
+});
+
+// Traffic light of one TR 101 290 indicator in the latest run; unknown without a stream or measurement
+export const tr101290StatusSchema = z.enum(['ok', 'error', 'unknown']);
+
+export const tr101290IndicatorSchema = z.object({
+  // Numbering of the standard, e.g. '1.3' or '2.3a'
+  id: z.string(),
+  priority: z.union([z.literal(1), z.literal(2)]),
+  name: z.string(),
+  description: z.string(),
+  status: tr101290StatusSchema,
+  // Errors since countersResetAt
+  errors: z.number(),
+  lastOccurredAt: z.string().nullable(),
+  lastDetail: z.string().nullable(),
+});
+
+// GET /api/analyze/:id/tr101290 and POST /api/analyze/:id/tr101290/reset
+export const tr101290ReportSchema = z.object({
+  channelId: z.number(),
+  updatedAt: z.string().nullable(),
+  available: z.boolean(),
+  countersResetAt: z.string(),
+  indicators: z.array(tr101290IndicatorSchema),
+});
+
+// GET /api/analyze/:id/bitrate - a quick reading, or null when there is no stream
+export const bitrateReadingSchema = z.object({
+  bps: z.number(),
+  mbps: z.string(),
+  timestamp: z.string(),
+}).nullable();
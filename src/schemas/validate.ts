@@ -0,0 +1,36 @@
+import { z } from 'zod';
+import { ApiResponse } from '@/types/channel';
+
+// How many issues to list before summarizing the rest
+const MAX_ISSUES = 3;
+
+function formatIssue(issue: z.ZodIssue): string {
+  const path = issue.path.length ? issue.path.join('.') : '(root)';
+  return `${path}: ${issue.message}`;
+}
+
+/**
+ * One-line summary of a validation failure, listing the first few issues
+ */
+export function formatZodError(error: z.ZodError): string {
+  const issues = error.issues;
+  const listed = issues.slice(0, MAX_ISSUES).map(formatIssue).join('; ');
+  const more = issues.length > MAX_ISSUES ? ` (+${issues.length - MAX_ISSUES} more)` : '';
+  return `${listed}${more}`;
+}
+
+/**
+ * Validate a backend payload, describing every mismatch in one line,
+ * e.g. "Unexpected response from GET /api/channels: 0.rx.status: Invalid enum value..."
+ */
+export function validateResponse<S extends z.ZodTypeAny>(
+  schema: S,
+  payload: unknown,
+  source: string
+): ApiResponse<z.output<S>> {
+  const result = schema.safeParse(payload);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return { success: false, error: `Unexpected response from ${source}: ${formatZodError(result.error)}`, errorKind: 'parse' };
+}
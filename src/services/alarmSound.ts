@@ -0,0 +1,41 @@
+// Alarm tones generated with Web Audio, so there are no sound files to ship.
+// Browsers keep audio suspended until the page has had a user gesture; after
+// that the context stays usable even while the tab is in the background.
+
+import { FailureSeverity } from './notificationSettings';
+
+// [frequency Hz, start s, duration s]
+const PATTERNS: Record<FailureSeverity, [number, number, number][]> = {
+  critical: [[880, 0, 0.18], [660, 0.22, 0.18], [880, 0.44, 0.18], [660, 0.66, 0.18]],
+  warning: [[660, 0, 0.25], [660, 0.4, 0.25]],
+};
+
+let context: AudioContext | null = null;
+
+function getContext(): AudioContext | null {
+  if (typeof window === 'undefined' || !('AudioContext' in window)) return null;
+  context ??= new AudioContext();
+  if (context.state === 'suspended') context.resume().catch(() => undefined);
+  return context;
+}
+
+export function playAlarm(severity: FailureSeverity, volume: number): void {
+  const ctx = getContext();
+  if (!ctx || volume <= 0) return;
+
+  const start = ctx.currentTime + 0.05;
+  for (const [frequency, offset, duration] of PATTERNS[severity]) {
+    const oscillator = ctx.createOscillator();
+    const gain = ctx.createGain();
+    oscillator.type = 'square';
+    oscillator.frequency.value = frequency;
+    // Short ramps avoid clicks at the tone edges
+    gain.gain.setValueAtTime(0, start + offset);
+    gain.gain.linearRampToValueAtTime(volume * 0.3, start + offset + 0.01);
+    gain.gain.setValueAtTime(volume * 0.3, start + offset + duration - 0.02);
+    gain.gain.linearRampToValueAtTime(0, start + offset + duration);
+    oscillator.connect(gain).connect(ctx.destination);
+    oscillator.start(start + offset);
+    oscillator.stop(start + offset + duration);
+  }
+}
@@ -1,69 +1,241 @@
-// API layer that connects directly to the backend
-// Mock mode has been removed - all requests go to the real backend
-
-import { Channel, ChannelConfig, LogEntry, ServiceType, ApiResponse } from '@/types/channel';
-import { StreamAnalysis, ChannelAnalysis } from '@/types/stream';
-import { realApi } from './realApi';
-
-// Unified API that directly uses the real backend
-export const api = {
-  getChannels(): Promise<ApiResponse<Channel[]>> {
-    return realApi.getChannels();
-  },
-
-  getChannel(id: number): Promise<ApiResponse<Channel>> {
-    return realApi.getChannel(id);
-  },
-
-  createChannel(channelId: number, name: string, config?: Partial<ChannelConfig>): Promise<ApiResponse<ChannelConfig>> {
-    return realApi.createChannel(channelId, name, config);
-  },
-
-  updateChannel(id: number, updates: Partial<ChannelConfig>): Promise<ApiResponse<ChannelConfig>> {
-    return realApi.updateChannel(id, updates);
-  },
-
-  deleteChannel(id: number): Promise<ApiResponse<void>> {
-    return realApi.deleteChannel(id);
-  },
-
-  getLogs(channelId: number, service: ServiceType, lines?: number): Promise<ApiResponse<LogEntry[]>> {
-    return realApi.getLogs(channelId, service, lines);
-  },
-
-  startService(channelId: number, service: ServiceType): Promise<ApiResponse<void>> {
-    return realApi.startService(channelId, service);
-  },
-
-  stopService(channelId: number, service: ServiceType): Promise<ApiResponse<void>> {
-    return realApi.stopService(channelId, service);
-  },
-
-  restartService(channelId: number, service: ServiceType): Promise<ApiResponse<void>> {
-    return realApi.restartService(channelId, service);
-  },
-
-  bulkOperation(service: ServiceType, action: 'start' | 'stop' | 'restart', channelIds?: number[]): Promise<ApiResponse<void>> {
-    return realApi.bulkOperation(service, action, channelIds);
-  },
-
-  getConfig(channelId: number): Promise<ApiResponse<ChannelConfig>> {
-    return realApi.getConfig(channelId);
-  },
-
-  saveConfig(channelId: number, config: ChannelConfig): Promise<ApiResponse<void>> {
-    return realApi.saveConfig(channelId, config);
-  },
-
-  applyConfig(channelId: number, config: ChannelConfig, restartServices: ServiceType[]): Promise<ApiResponse<void>> {
-    return realApi.applyConfig(channelId, config, restartServices);
-  },
-
-  getStreamAnalyses(channelIds: number[]): Promise<ApiResponse<ChannelAnalysis[]>> {
-    return realApi.getStreamAnalyses(channelIds);
-  },
-
-  getStreamAnalysis(channelId: number): Promise<ApiResponse<StreamAnalysis>> {
-    return realApi.getStreamAnalysis(channelId);
-  },
-};
+// API layer: per backend, either the HTTP backend or the in-browser simulator
+// (services/simulator), depending on the backend's mode
+
+import { Channel, ChannelConfig, ChannelEnv, LogEntry, ServiceType, ApiResponse } from '@/types/channel';
+import { StreamAnalysis, ChannelAnalysis, BitrateHistory, BitrateHistoryWindow, PidHistory, PidResetOptions, Tr101290Report } from '@/types/stream';
+import { ApplyOptions, ApplyResult } from '@/types/apply';
+import { ChangeInfo, ConfigVersion } from '@/types/history';
+import { GlobalSettings } from '@/types/settings';
+import { Alert, AlertRule, AlertRuleInput } from '@/types/alerts';
+import { NotificationDelivery, NotificationDestination, NotificationDestinationInput } from '@/types/notifications';
+import { ServiceEvent, ServiceEventFilters } from '@/types/serviceEvents';
+import { AuditFilters, AuditPage } from '@/types/audit';
+import { CurrentUser, User, UserInput, UserUpdate } from '@/types/auth';
+import { createRealApi, BackendClient } from './realApi';
+import { ApiError, RequestOptions } from './http';
+import { getBackendConfig } from './backendConfig';
+import { getSimulator } from './simulator/simulatedBackend';
+
+// Unwrap an ApiResponse for TanStack Query, throwing on failure so the
+// query/mutation enters its error state instead of resolving with success: false.
+// The thrown ApiError keeps the error kind for the UI.
+export async function unwrap<T>(request: Promise<ApiResponse<T>>): Promise<T> {
+  const response = await request;
+  if (!response.success) {
+    throw new ApiError(response.error || 'Request failed', response.errorKind ?? 'http', response.status);
+  }
+  return response.data as T;
+}
+
+// Unified API for one backend; the client is picked per call so switching a
+// backend between HTTP and simulated takes effect without recreating anything
+function createApi(backendId?: string) {
+  const httpApi = createRealApi(backendId);
+  const client = (): BackendClient => {
+    const config = getBackendConfig(backendId);
+    return config.mode === 'simulated' ? getSimulator(config.id).api : httpApi;
+  };
+
+  return {
+    getChannels(requestOptions?: RequestOptions): Promise<ApiResponse<Channel[]>> {
+      return client().getChannels(requestOptions);
+    },
+
+    getChannel(id: number, requestOptions?: RequestOptions): Promise<ApiResponse<Channel>> {
+      return client().getChannel(id, requestOptions);
+    },
+
+    createChannel(channelId: number, name: string, config?: Partial<ChannelConfig>): Promise<ApiResponse<ChannelConfig>> {
+      return client().createChannel(channelId, name, config);
+    },
+
+    updateChannel(id: number, updates: Partial<ChannelConfig>): Promise<ApiResponse<ChannelConfig>> {
+      return client().updateChannel(id, updates);
+    },
+
+    deleteChannel(id: number): Promise<ApiResponse<void>> {
+      return client().deleteChannel(id);
+    },
+
+    getLogs(channelId: number, service: ServiceType, lines?: number, requestOptions?: RequestOptions): Promise<ApiResponse<LogEntry[]>> {
+      return client().getLogs(channelId, service, lines, requestOptions);
+    },
+
+    startService(channelId: number, service: ServiceType): Promise<ApiResponse<void>> {
+      return client().startService(channelId, service);
+    },
+
+    stopService(channelId: number, service: ServiceType): Promise<ApiResponse<void>> {
+      return client().stopService(channelId, service);
+    },
+
+    restartService(channelId: number, service: ServiceType): Promise<ApiResponse<void>> {
+      return client().restartService(channelId, service);
+    },
+
+    bulkOperation(service: ServiceType, action: 'start' | 'stop' | 'restart', channelIds?: number[]): Promise<ApiResponse<void>> {
+      return client().bulkOperation(service, action, channelIds);
+    },
+
+    getServiceEvents(filters: ServiceEventFilters, requestOptions?: RequestOptions): Promise<ApiResponse<ServiceEvent[]>> {
+      return client().getServiceEvents(filters, requestOptions);
+    },
+
+    getConfig(channelId: number, requestOptions?: RequestOptions): Promise<ApiResponse<ChannelConfig>> {
+      return client().getConfig(channelId, requestOptions);
+    },
+
+    saveConfig(channelId: number, config: ChannelConfig, change?: ChangeInfo): Promise<ApiResponse<void>> {
+      return client().saveConfig(channelId, config, change);
+    },
+
+    getConfigHistory(channelId: number, requestOptions?: RequestOptions): Promise<ApiResponse<ConfigVersion[]>> {
+      return client().getConfigHistory(channelId, requestOptions);
+    },
+
+    getAppliedConfig(channelId: number, requestOptions?: RequestOptions): Promise<ApiResponse<ChannelConfig | null>> {
+      return client().getAppliedConfig(channelId, requestOptions);
+    },
+
+    getChannelEnv(channelId: number, requestOptions?: RequestOptions): Promise<ApiResponse<ChannelEnv>> {
+      return client().getChannelEnv(channelId, requestOptions);
+    },
+
+    applyConfig(channelId: number, config: ChannelConfig, restartServices: ServiceType[], options?: ApplyOptions): Promise<ApiResponse<ApplyResult>> {
+      return client().applyConfig(channelId, config, restartServices, options);
+    },
+
+    getSettings(requestOptions?: RequestOptions): Promise<ApiResponse<GlobalSettings>> {
+      return client().getSettings(requestOptions);
+    },
+
+    saveSettings(settings: GlobalSettings): Promise<ApiResponse<GlobalSettings>> {
+      return client().saveSettings(settings);
+    },
+
+    getStreamAnalyses(channelIds: number[], requestOptions?: RequestOptions): Promise<ApiResponse<ChannelAnalysis[]>> {
+      return client().getStreamAnalyses(channelIds, requestOptions);
+    },
+
+    getStreamAnalysis(channelId: number, requestOptions?: RequestOptions): Promise<ApiResponse<StreamAnalysis>> {
+      return client().getStreamAnalysis(channelId, requestOptions);
+    },
+
+    getBitrateHistory(channelId: number, window: BitrateHistoryWindow, requestOptions?: RequestOptions): Promise<ApiResponse<BitrateHistory>> {
+      return client().getBitrateHistory(channelId, window, requestOptions);
+    },
+
+    getAlerts(requestOptions?: RequestOptions): Promise<ApiResponse<Alert[]>> {
+      return client().getAlerts(requestOptions);
+    },
+
+    acknowledgeAlert(id: string): Promise<ApiResponse<Alert>> {
+      return client().acknowledgeAlert(id);
+    },
+
+    silenceAlert(id: string, durationMinutes: number): Promise<ApiResponse<Alert>> {
+      return client().silenceAlert(id, durationMinutes);
+    },
+
+    getAlertRules(requestOptions?: RequestOptions): Promise<ApiResponse<AlertRule[]>> {
+      return client().getAlertRules(requestOptions);
+    },
+
+    createAlertRule(rule: AlertRuleInput): Promise<ApiResponse<AlertRule>> {
+      return client().createAlertRule(rule);
+    },
+
+    updateAlertRule(id: string, updates: Partial<AlertRuleInput>): Promise<ApiResponse<AlertRule>> {
+      return client().updateAlertRule(id, updates);
+    },
+
+    deleteAlertRule(id: string): Promise<ApiResponse<void>> {
+      return client().deleteAlertRule(id);
+    },
+
+    getNotificationDestinations(requestOptions?: RequestOptions): Promise<ApiResponse<NotificationDestination[]>> {
+      return client().getNotificationDestinations(requestOptions);
+    },
+
+    createNotificationDestination(destination: NotificationDestinationInput): Promise<ApiResponse<NotificationDestination>> {
+      return client().createNotificationDestination(destination);
+    },
+
+    updateNotificationDestination(id: string, updates: Partial<NotificationDestinationInput>): Promise<ApiResponse<NotificationDestination>> {
+      return client().updateNotificationDestination(id, updates);
+    },
+
+    deleteNotificationDestination(id: string): Promise<ApiResponse<void>> {
+      return client().deleteNotificationDestination(id);
+    },
+
+    testNotificationDestination(id: string): Promise<ApiResponse<NotificationDelivery>> {
+      return client().testNotificationDestination(id);
+    },
+
+    getNotificationDeliveries(requestOptions?: RequestOptions): Promise<ApiResponse<NotificationDelivery[]>> {
+      return client().getNotificationDeliveries(requestOptions);
+    },
+
+    getPidHistory(channelId: number, requestOptions?: RequestOptions): Promise<ApiResponse<PidHistory>> {
+      return client().getPidHistory(channelId, requestOptions);
+    },
+
+    resetPidHistory(channelId: number, options: PidResetOptions): Promise<ApiResponse<PidHistory>> {
+      return client().resetPidHistory(channelId, options);
+    },
+
+    getTr101290(channelId: number, requestOptions?: RequestOptions): Promise<ApiResponse<Tr101290Report>> {
+      return client().getTr101290(channelId, requestOptions);
+    },
+
+    resetTr101290(channelId: number): Promise<ApiResponse<Tr101290Report>> {
+      return client().resetTr101290(channelId);
+    },
+
+    getAuditLog(filters: AuditFilters, requestOptions?: RequestOptions): Promise<ApiResponse<AuditPage>> {
+      return client().getAuditLog(filters, requestOptions);
+    },
+
+    logout(): Promise<ApiResponse<void>> {
+      return client().logout();
+    },
+
+    getCurrentUser(requestOptions?: RequestOptions): Promise<ApiResponse<CurrentUser>> {
+      return client().getCurrentUser(requestOptions);
+    },
+
+    getUsers(requestOptions?: RequestOptions): Promise<ApiResponse<User[]>> {
+      return client().getUsers(requestOptions);
+    },
+
+    createUser(input: UserInput): Promise<ApiResponse<User>> {
+      return client().createUser(input);
+    },
+
+    updateUser(id: string, updates: UserUpdate): Promise<ApiResponse<User>> {
+      return client().updateUser(id, updates);
+    },
+
+    deleteUser(id: string): Promise<ApiResponse<void>> {
+      return client().deleteUser(id);
+    },
+  };
+}
+
+export type BackendApi = ReturnType<typeof createApi>;
+
+const clients = new Map<string, BackendApi>();
+
+// API bound to a specific backend, cached per backend id
+export function getApi(backendId: string): BackendApi {
+  let client = clients.get(backendId);
+  if (!client) {
+    client = createApi(backendId);
+    clients.set(backendId, client);
+  }
+  return client;
+}
+
+// API for the active backend
+export const api = createApi();
@@ -1,13 +1,69 @@
 // Backend configuration storage using localStorage
 
-export interface BackendConfig {
+import { simulatedIlo } from './simulator/simulatedIlo';
+import { fetchWithRetry, ApiError } from './http';
+
+export type BackendAuthMode = 'none' | 'apiKey' | 'token' | 'account';
+
+export interface BackendAuth {
+  authMode: BackendAuthMode;
+  // Sent as X-API-Key (matches API_KEY on the backend)
+  apiKey?: string;
+  // Sent as Authorization: Bearer <token>
+  token?: string;
+  // User account: the session from signing in is sent like a bearer token
+  username?: string;
+  sessionToken?: string;
+}
+
+// 'simulated' runs an in-browser backend (services/simulator) instead of calling url
+export type BackendMode = 'http' | 'simulated';
+
+export interface BackendConfig extends BackendAuth {
   url: string;
+  mode: BackendMode;
+  // Simulated backends: built-in scenario id, or 'custom' to play scenarioScript (JSON)
+  scenarioId?: string;
+  scenarioScript?: string;
+}
+
+// One controller box in the backend list
+export interface BackendEntry extends BackendConfig {
+  id: string;
+  name: string;
+}
+
+export interface ConnectionTestResult {
+  success: boolean;
+  message: string;
+  unauthorized?: boolean;
+}
+
+export interface SignInResult {
+  success: boolean;
+  message: string;
+  sessionToken?: string;
 }
 
-const STORAGE_KEY = 'brateshub-backend-config';
+// Single-backend config from before multi-controller support; migrated on first load
+const LEGACY_STORAGE_KEY = 'brateshub-backend-config';
+const STORAGE_KEY = 'brateshub-backends';
+
+// Pseudo backend id selecting the aggregated view of every backend
+export const ALL_BACKENDS = 'all';
+
+interface BackendStore {
+  backends: BackendEntry[];
+  activeId: string;
+}
+
+// Dispatched whenever the backend rejects our credentials
+export const UNAUTHORIZED_EVENT = 'backend-unauthorized';
 
 const DEFAULT_CONFIG: BackendConfig = {
   url: 'http://localhost:3001',
+  authMode: 'none',
+  mode: 'http',
 };
 
 /**
@@ -41,57 +97,227 @@ function normalizeUrl(input: string): string {
   return url;
 }
 
-export function getBackendConfig(): BackendConfig {
+function createBackendId(): string {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/**
+ * Short host:port label used to tell channels on different backends apart
+ */
+export function getHostLabel(url: string): string {
+  try {
+    return new URL(normalizeUrl(url)).host;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Host label for a backend entry; simulated backends have no host
+ */
+export function getBackendHost(config: BackendConfig): string {
+  return config.mode === 'simulated' ? 'simulated' : getHostLabel(config.url);
+}
+
+function loadStore(): BackendStore {
   try {
     const stored = localStorage.getItem(STORAGE_KEY);
     if (stored) {
-      return { ...DEFAULT_CONFIG, ...JSON.parse(stored) };
+      const parsed = JSON.parse(stored) as BackendStore;
+      if (parsed.backends?.length) {
+        return {
+          backends: parsed.backends.map(b => ({ ...DEFAULT_CONFIG, ...b })),
+          activeId: parsed.activeId || parsed.backends[0].id,
+        };
+      }
     }
+
+    const legacy = localStorage.getItem(LEGACY_STORAGE_KEY);
+    const config: BackendConfig = legacy ? { ...DEFAULT_CONFIG, ...JSON.parse(legacy) } : DEFAULT_CONFIG;
+    return {
+      backends: [{ ...config, id: 'default', name: getHostLabel(config.url) }],
+      activeId: 'default',
+    };
   } catch (e) {
     console.warn('Failed to parse backend config:', e);
   }
-  return DEFAULT_CONFIG;
+  return {
+    backends: [{ ...DEFAULT_CONFIG, id: 'default', name: getHostLabel(DEFAULT_CONFIG.url) }],
+    activeId: 'default',
+  };
+}
+
+function saveStore(store: BackendStore): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  // Dispatch event for components to react to config changes
+  window.dispatchEvent(new CustomEvent('backend-config-change', { detail: store }));
+}
+
+export function getBackends(): BackendEntry[] {
+  return loadStore().backends;
+}
+
+export function getBackend(id: string): BackendEntry | undefined {
+  return getBackends().find(b => b.id === id);
+}
+
+/**
+ * Backend selected in the header switcher, or ALL_BACKENDS for the aggregated view
+ */
+export function getActiveBackendId(): string {
+  const { backends, activeId } = loadStore();
+  if (activeId === ALL_BACKENDS || backends.some(b => b.id === activeId)) {
+    return activeId;
+  }
+  return backends[0].id;
 }
 
-export function setBackendConfig(config: Partial<BackendConfig>): void {
-  const current = getBackendConfig();
-  const updated = { 
-    ...current, 
+export function setActiveBackendId(id: string): void {
+  const store = loadStore();
+  saveStore({ ...store, activeId: id });
+}
+
+export function addBackend(config: Omit<BackendEntry, 'id'>): BackendEntry {
+  const store = loadStore();
+  const entry: BackendEntry = {
+    ...DEFAULT_CONFIG,
     ...config,
-    url: config.url ? normalizeUrl(config.url) : current.url
+    id: createBackendId(),
+    url: normalizeUrl(config.url),
   };
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
-  // Dispatch event for components to react to config changes
-  window.dispatchEvent(new CustomEvent('backend-config-change', { detail: updated }));
+  saveStore({ ...store, backends: [...store.backends, entry] });
+  return entry;
+}
+
+export function updateBackend(id: string, config: Partial<Omit<BackendEntry, 'id'>>): void {
+  const store = loadStore();
+  saveStore({
+    ...store,
+    backends: store.backends.map(b =>
+      b.id === id
+        ? { ...b, ...config, url: config.url ? normalizeUrl(config.url) : b.url }
+        : b
+    ),
+  });
+}
+
+// The last remaining backend cannot be removed
+export function removeBackend(id: string): void {
+  const store = loadStore();
+  const backends = store.backends.filter(b => b.id !== id);
+  if (backends.length === 0) return;
+  saveStore({
+    backends,
+    activeId: store.activeId === id ? backends[0].id : store.activeId,
+  });
+}
+
+/**
+ * Config for a backend; defaults to the active one (the first backend in the aggregated view)
+ */
+export function getBackendConfig(backendId?: string): BackendEntry {
+  const { backends } = loadStore();
+  const id = backendId ?? getActiveBackendId();
+  return backends.find(b => b.id === id) ?? backends[0];
+}
+
+export function setBackendConfig(config: Partial<BackendConfig>, backendId?: string): void {
+  updateBackend(backendId ?? getBackendConfig().id, config);
+}
+
+export function getBackendUrl(backendId?: string): string {
+  return normalizeUrl(getBackendConfig(backendId).url);
+}
+
+/**
+ * Headers carrying the configured credentials, if any
+ */
+export function getAuthHeaders(auth: BackendAuth = getBackendConfig()): Record<string, string> {
+  if (auth.authMode === 'apiKey' && auth.apiKey) {
+    return { 'X-API-Key': auth.apiKey };
+  }
+  if (auth.authMode === 'token' && auth.token) {
+    return { Authorization: `Bearer ${auth.token}` };
+  }
+  if (auth.authMode === 'account' && auth.sessionToken) {
+    return { Authorization: `Bearer ${auth.sessionToken}` };
+  }
+  return {};
 }
 
-export function getBackendUrl(): string {
-  return normalizeUrl(getBackendConfig().url);
+/**
+ * Credentials as query parameters, for clients that cannot set headers (EventSource)
+ */
+export function getAuthQuery(auth: BackendAuth = getBackendConfig()): string {
+  if (auth.authMode === 'apiKey' && auth.apiKey) {
+    return `apiKey=${encodeURIComponent(auth.apiKey)}`;
+  }
+  if (auth.authMode === 'token' && auth.token) {
+    return `token=${encodeURIComponent(auth.token)}`;
+  }
+  if (auth.authMode === 'account' && auth.sessionToken) {
+    return `token=${encodeURIComponent(auth.sessionToken)}`;
+  }
+  return '';
 }
 
-export async function testBackendConnection(url?: string): Promise<{ success: boolean; message: string }> {
+export function notifyUnauthorized(backendId?: string): void {
+  window.dispatchEvent(new CustomEvent(UNAUTHORIZED_EVENT, { detail: { backendId } }));
+}
+
+export async function testBackendConnection(
+  url?: string,
+  auth?: BackendAuth & { mode?: BackendMode }
+): Promise<ConnectionTestResult> {
+  if (auth?.mode === 'simulated') {
+    return simulatedIlo.isPoweredOn()
+      ? { success: true, message: 'Simulated backend is running' }
+      : { success: false, message: 'Simulated host is powered off' };
+  }
+
   const targetUrl = normalizeUrl(url || getBackendUrl());
+  // One quick attempt each: this backs the connection indicator and the Test button
+  const options = { timeoutMs: 5000, retries: 0 };
   try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 5000);
-    
-    const response = await fetch(`${targetUrl}/api/health`, {
-      signal: controller.signal,
-    });
-    
-    clearTimeout(timeoutId);
-    
-    if (response.ok) {
-      return { success: true, message: 'Connected successfully' };
+    // /api/health is public; /api/health/auth checks the credentials
+    const response = await fetchWithRetry(`${targetUrl}/api/health`, {}, options);
+    if (!response.ok) {
+      return { success: false, message: `Server returned ${response.status}` };
     }
-    return { success: false, message: `Server returned ${response.status}` };
+
+    const authResponse = await fetchWithRetry(`${targetUrl}/api/health/auth`, { headers: getAuthHeaders(auth) }, options);
+    if (authResponse.status === 401) {
+      return {
+        success: false,
+        unauthorized: true,
+        message: auth?.authMode === 'account' ? 'Signed out - sign in again' : 'Unauthorized - check API key or token',
+      };
+    }
+    return { success: true, message: 'Connected successfully' };
   } catch (error) {
-    if (error instanceof Error) {
-      if (error.name === 'AbortError') {
-        return { success: false, message: 'Connection timed out' };
-      }
-      return { success: false, message: error.message };
+    if (error instanceof ApiError && error.kind === 'timeout') {
+      return { success: false, message: 'Connection timed out' };
+    }
+    return { success: false, message: error instanceof Error ? error.message : 'Connection failed' };
+  }
+}
+
+/**
+ * Sign in to a backend with a user account; url may be a backend that is not saved yet
+ */
+export async function signIn(url: string, username: string, password: string): Promise<SignInResult> {
+  try {
+    const response = await fetchWithRetry(`${normalizeUrl(url)}/api/auth/login`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username, password }),
+    }, { timeoutMs: 10000 });
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+      return { success: false, message: body?.error || `Server returned ${response.status}` };
     }
-    return { success: false, message: 'Connection failed' };
+    return { success: true, message: `Signed in as ${body.data.user.username}`, sessionToken: body.data.token };
+  } catch (error) {
+    return { success: false, message: error instanceof Error ? error.message : 'Sign-in failed' };
   }
 }
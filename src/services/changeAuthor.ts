@@ -0,0 +1,22 @@
+// Name recorded as the author of config changes and audited actions made from this browser
+
+const AUTHOR_KEY = 'brateshub-change-author';
+
+export function getChangeAuthor(): string {
+  return localStorage.getItem(AUTHOR_KEY) ?? '';
+}
+
+export function setChangeAuthor(name: string): void {
+  const trimmed = name.trim();
+  if (trimmed) {
+    localStorage.setItem(AUTHOR_KEY, trimmed);
+  } else {
+    localStorage.removeItem(AUTHOR_KEY);
+  }
+}
+
+// Sent with every request so the backend's audit log knows who acted
+export function authorHeaders(): Record<string, string> {
+  const author = getChangeAuthor();
+  return author ? { 'X-Change-Author': encodeURIComponent(author) } : {};
+}
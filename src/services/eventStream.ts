@@ -0,0 +1,215 @@
+// Live event stream client (Server-Sent Events from /api/events)
+// One stream per backend, shared by all of its subscribers; connects on
+// first subscription and disconnects when the last one leaves. Simulated
+// backends feed the same listeners from the in-browser simulator.
+
+import { LiveEventMap, LiveEventType, LiveStreamStatus } from '@/types/events';
+import { liveEventSchemas } from '@/schemas/events';
+import { validateResponse } from '@/schemas/validate';
+import { getBackendUrl, getBackendConfig, getAuthQuery } from './backendConfig';
+import { getSimulator, SimulatedBackend } from './simulator/simulatedBackend';
+
+type EventListener<K extends LiveEventType> = (data: LiveEventMap[K]) => void;
+type StatusListener = (status: LiveStreamStatus) => void;
+
+const EVENT_TYPES: LiveEventType[] = ['snapshot', 'service-state', 'bitrate', 'heartbeat', 'channels-changed', 'config-apply', 'settings-changed', 'alert'];
+
+// Consider the stream dead if nothing (not even a heartbeat) arrives for this long
+const STALE_TIMEOUT_MS = 35000;
+
+function createEventStream(backendId: string) {
+  const listeners = new Map<LiveEventType, Set<EventListener<LiveEventType>>>();
+  const statusListeners = new Set<StatusListener>();
+
+  let source: EventSource | null = null;
+  let simulator: SimulatedBackend | null = null;
+  let unsubscribeSimulator: (() => void) | null = null;
+  let endpoint: string | null = null;
+  let status: LiveStreamStatus = 'closed';
+  let refCount = 0;
+  let staleTimer: ReturnType<typeof setTimeout> | null = null;
+
+  function getEndpoint(): string {
+    if (getBackendConfig(backendId).mode === 'simulated') return `simulated://${backendId}`;
+    // EventSource cannot send headers, so credentials go in the query string
+    const authQuery = getAuthQuery(getBackendConfig(backendId));
+    return `${getBackendUrl(backendId)}/api/events${authQuery ? `?${authQuery}` : ''}`;
+  }
+
+  function setStatus(next: LiveStreamStatus) {
+    if (status === next) return;
+    status = next;
+    statusListeners.forEach(listener => listener(next));
+  }
+
+  function resetStaleTimer() {
+    if (staleTimer) clearTimeout(staleTimer);
+    staleTimer = setTimeout(() => {
+      console.warn(`Live event stream for backend '${backendId}' went quiet, reconnecting`);
+      connect();
+    }, STALE_TIMEOUT_MS);
+  }
+
+  function dispatchRaw(type: LiveEventType, raw: string) {
+    let payload: unknown;
+    try {
+      payload = JSON.parse(raw);
+    } catch (e) {
+      resetStaleTimer();
+      console.warn(`Failed to parse live event '${type}':`, e);
+      return;
+    }
+    dispatch(type, payload);
+  }
+
+  function dispatch<K extends LiveEventType>(type: K, payload: unknown) {
+    resetStaleTimer();
+    // Drop events that don't match the contract rather than patching caches with them
+    const validated = validateResponse(liveEventSchemas[type], payload, `live event '${type}'`);
+    if (!validated.success) {
+      console.warn(validated.error);
+      return;
+    }
+    const data = validated.data as LiveEventMap[K];
+    listeners.get(type)?.forEach(listener => listener(data));
+  }
+
+  function disconnect() {
+    if (staleTimer) {
+      clearTimeout(staleTimer);
+      staleTimer = null;
+    }
+    if (source) {
+      source.close();
+      source = null;
+    }
+    if (unsubscribeSimulator) {
+      unsubscribeSimulator();
+      unsubscribeSimulator = null;
+    }
+    simulator = null;
+    endpoint = null;
+    setStatus('closed');
+  }
+
+  function connect() {
+    disconnect();
+    if (typeof EventSource === 'undefined') return;
+
+    setStatus('connecting');
+    endpoint = getEndpoint();
+    if (getBackendConfig(backendId).mode === 'simulated') {
+      connectSimulator();
+      return;
+    }
+    const es = new EventSource(endpoint);
+    source = es;
+
+    es.onopen = () => {
+      setStatus('open');
+      resetStaleTimer();
+    };
+
+    // EventSource retries on its own; report closed meanwhile so callers fall back to polling
+    es.onerror = () => {
+      setStatus(es.readyState === EventSource.CONNECTING ? 'connecting' : 'closed');
+    };
+
+    for (const type of EVENT_TYPES) {
+      es.addEventListener(type, (e) => dispatchRaw(type, (e as MessageEvent).data));
+    }
+  }
+
+  function connectSimulator() {
+    const current = getSimulator(backendId);
+    simulator = current;
+    unsubscribeSimulator = current.subscribe({
+      onOpen: () => {
+        setStatus('open');
+        resetStaleTimer();
+      },
+      onEvent: (type, data) => dispatch(type, data),
+      // Host powered off or simulator replaced: reconnect to a replacement right
+      // away, otherwise retry when the stale timer fires (like EventSource retries)
+      onClose: () => {
+        unsubscribeSimulator = null;
+        if (getSimulator(backendId) !== current) {
+          connect();
+          return;
+        }
+        setStatus('connecting');
+        resetStaleTimer();
+      },
+    });
+  }
+
+  function retain() {
+    refCount++;
+    if (refCount === 1) connect();
+  }
+
+  function release() {
+    refCount = Math.max(0, refCount - 1);
+    if (refCount === 0) disconnect();
+  }
+
+  if (typeof window !== 'undefined') {
+    // Only reconnect when this backend's URL, credentials or scenario actually changed
+    window.addEventListener('backend-config-change', () => {
+      if (refCount === 0) return;
+      const simulatorChanged = simulator !== null && getBackendConfig(backendId).mode === 'simulated'
+        && getSimulator(backendId) !== simulator;
+      if (endpoint !== getEndpoint() || simulatorChanged) connect();
+    });
+  }
+
+  return {
+    getStatus(): LiveStreamStatus {
+      return status;
+    },
+
+    // Subscribe to one event type; returns an unsubscribe function
+    subscribe<K extends LiveEventType>(type: K, listener: EventListener<K>): () => void {
+      let set = listeners.get(type);
+      if (!set) {
+        set = new Set();
+        listeners.set(type, set);
+      }
+      set.add(listener as EventListener<LiveEventType>);
+      retain();
+
+      return () => {
+        set.delete(listener as EventListener<LiveEventType>);
+        release();
+      };
+    },
+
+    // Watch connection status; also keeps the stream open while subscribed
+    onStatusChange(listener: StatusListener): () => void {
+      statusListeners.add(listener);
+      retain();
+      return () => {
+        statusListeners.delete(listener);
+        release();
+      };
+    },
+
+    reconnect(): void {
+      if (refCount > 0) connect();
+    },
+  };
+}
+
+export type EventStream = ReturnType<typeof createEventStream>;
+
+const streams = new Map<string, EventStream>();
+
+// Shared stream for a backend, created on first use
+export function getEventStream(backendId: string): EventStream {
+  let stream = streams.get(backendId);
+  if (!stream) {
+    stream = createEventStream(backendId);
+    streams.set(backendId, stream);
+  }
+  return stream;
+}
@@ -0,0 +1,116 @@
+// fetch with a per-request timeout, caller cancellation and retries.
+// Only idempotent methods are retried, with exponential backoff and full jitter,
+// and only for failures that may be transient (network, timeout, 502/503/504).
+
+import { ApiErrorKind } from '@/types/channel';
+
+export interface RequestOptions {
+  // Cancels the request (and any pending retry), e.g. TanStack Query's queryFn signal
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  // Extra attempts after the first; ignored for non-idempotent methods
+  retries?: number;
+}
+
+// Thrown by unwrap() and fetchWithRetry() so callers can tell failures apart
+export class ApiError extends Error {
+  constructor(message: string, public readonly kind: ApiErrorKind, public readonly status?: number) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_RETRIES = 2;
+const BACKOFF_BASE_MS = 300;
+const BACKOFF_MAX_MS = 5000;
+
+// DELETE is idempotent too, but a retry after a lost response would report 404 for a delete that succeeded.
+// PUT is left out as well: each config save adds a history revision and an audit entry, so a retry
+// after a slow save would record them twice.
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+const RETRYABLE_STATUSES = new Set([502, 503, 504]);
+
+export function isIdempotent(method = 'GET'): boolean {
+  return IDEMPOTENT_METHODS.has(method.toUpperCase());
+}
+
+function backoffDelay(attempt: number): number {
+  return Math.random() * Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ApiError('Request cancelled', 'aborted'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ApiError('Request cancelled', 'aborted'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// One attempt: resolves with any HTTP response, throws ApiError for network/timeout/abort
+async function attempt(url: string, init: RequestInit, signal: AbortSignal | undefined, timeoutMs: number): Promise<Response> {
+  if (signal?.aborted) throw new ApiError('Request cancelled', 'aborted');
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (timedOut) {
+      const limit = timeoutMs >= 1000 ? `${Math.round(timeoutMs / 1000)}s` : `${timeoutMs}ms`;
+      throw new ApiError(`Request timed out after ${limit}`, 'timeout');
+    }
+    if (signal?.aborted) throw new ApiError('Request cancelled', 'aborted');
+    throw new ApiError(error instanceof Error ? error.message : 'Network error', 'network');
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * fetch() that gives up after timeoutMs and retries transient failures of idempotent requests.
+ * Non-2xx responses are returned, not thrown; only a final 502/503/504 is returned after retrying.
+ */
+export async function fetchWithRetry(url: string, init: RequestInit = {}, options: RequestOptions = {}): Promise<Response> {
+  const { signal, timeoutMs = DEFAULT_TIMEOUT_MS } = options;
+  const retries = isIdempotent(init.method) ? options.retries ?? DEFAULT_RETRIES : 0;
+
+  for (let i = 0; ; i++) {
+    const isLast = i >= retries;
+    try {
+      const response = await attempt(url, init, signal, timeoutMs);
+      if (isLast || !RETRYABLE_STATUSES.has(response.status)) return response;
+    } catch (error) {
+      if (isLast || (error instanceof ApiError && error.kind === 'aborted')) throw error;
+    }
+    await sleep(backoffDelay(i), signal);
+  }
+}
+
+/**
+ * Failure ApiResponse for an error thrown by fetchWithRetry
+ */
+export function toErrorResponse(error: unknown): { success: false; error: string; errorKind: ApiErrorKind } {
+  if (error instanceof ApiError) {
+    return { success: false, error: error.message, errorKind: error.kind };
+  }
+  return { success: false, error: error instanceof Error ? error.message : 'Network error', errorKind: 'network' };
+}
@@ -1,64 +1,79 @@
 import { IloStatus, IloCredentials } from '@/types/ilo';
+import { ApiErrorKind } from '@/types/channel';
+import { iloBackendStatusSchema } from '@/schemas/ilo';
+import { validateResponse } from '@/schemas/validate';
+import { simulatedIlo } from './simulator/simulatedIlo';
+import { BackendEntry, getBackends, getBackendUrl, getAuthHeaders, notifyUnauthorized } from './backendConfig';
+import { authorHeaders } from './changeAuthor';
+import { fetchWithRetry, ApiError } from './http';
 
 // Storage keys
 const CREDENTIALS_KEY = 'ilo_credentials';
-const API_URL_KEY = 'ilo_api_url';
+const BACKEND_KEY = 'ilo_backend_id';
+// iLO requests used to go to a URL of their own; it picks the backend until one is chosen
+const LEGACY_API_URL_KEY = 'ilo_api_url';
 
-// Default to mock mode, set API URL to enable real mode
-let apiBaseUrl: string | null = localStorage.getItem(API_URL_KEY);
+// Redfish power actions can take a while to be acknowledged
+const POWER_TIMEOUT_MS = 30000;
+
+type IloResult = { success: boolean; message?: string; error?: string; errorKind?: ApiErrorKind };
 
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
-// ============================================
-// MOCK DATA (used when no backend is configured)
-// ============================================
+// Backend entry whose controller proxies the iLO: the chosen one, else the first backend
+function getIloBackend(): BackendEntry {
+  const backends = getBackends();
+  const stored = localStorage.getItem(BACKEND_KEY);
+  const legacyUrl = localStorage.getItem(LEGACY_API_URL_KEY)?.replace(/\/+$/, '');
+  return backends.find(b => b.id === stored)
+    ?? (legacyUrl ? backends.find(b => `${getBackendUrl(b.id)}/api` === legacyUrl) : undefined)
+    ?? backends[0];
+}
 
-let mockIloStatus: IloStatus = {
-  connected: true,
-  hostname: 'hp-server-ilo.local',
-  powerState: 'on',
-  health: 'ok',
-  model: 'ProLiant DL380 Gen10',
-  serialNumber: 'CZ12345678',
-  biosVersion: 'U30 v2.62',
-  iloVersion: 'iLO 5 v2.72',
-  temperatures: {
-    inlet: 24,
-    cpu1: 42,
-    cpu2: 45,
-  },
-  fans: [
-    { name: 'Fan 1', speed: 18, status: 'ok' },
-    { name: 'Fan 2', speed: 18, status: 'ok' },
-    { name: 'Fan 3', speed: 22, status: 'ok' },
-    { name: 'Fan 4', speed: 20, status: 'ok' },
-  ],
-  powerConsumption: 187,
-  uptime: '14d 6h 32m',
-  lastBootTime: new Date(Date.now() - 14 * 24 * 60 * 60 * 1000).toISOString(),
-};
+// The backend to send iLO requests to; null for a simulated backend, which uses the simulated iLO
+function realBackend(backendId: string): BackendEntry | null {
+  const backend = getBackends().find(b => b.id === backendId);
+  return backend?.mode === 'http' ? backend : null;
+}
+
+// Fetch from the backend's iLO proxy with that backend's credentials attached
+async function iloFetch(backend: BackendEntry, path: string, init: RequestInit = {}, timeoutMs?: number): Promise<Response> {
+  const response = await fetchWithRetry(`${getBackendUrl(backend.id)}/api${path}`, {
+    ...init,
+    headers: { ...getAuthHeaders(backend), ...authorHeaders(), ...init.headers },
+  }, { timeoutMs });
+  if (response.status === 401) {
+    notifyUnauthorized(backend.id);
+  }
+  return response;
+}
+
+// Failure result keeping the error kind; anything but an ApiError came from response.json()
+function iloFailure(error: unknown): IloResult & { success: false } {
+  if (error instanceof ApiError) {
+    const message = error.kind === 'network' ? 'Failed to connect to backend server' : error.message;
+    return { success: false, error: message, errorKind: error.kind };
+  }
+  return { success: false, error: 'Invalid response from backend server', errorKind: 'parse' };
+}
 
 // ============================================
 // API IMPLEMENTATION
 // ============================================
 
 export const iloApi = {
-  // Backend URL management
-  getApiUrl: (): string | null => {
-    return apiBaseUrl;
+  // Backend whose controller the iLO is reached through
+  getBackendId: (): string => {
+    return getIloBackend().id;
   },
 
-  setApiUrl: (url: string | null): void => {
-    apiBaseUrl = url;
-    if (url) {
-      localStorage.setItem(API_URL_KEY, url);
-    } else {
-      localStorage.removeItem(API_URL_KEY);
-    }
+  setBackendId: (backendId: string): void => {
+    localStorage.setItem(BACKEND_KEY, backendId);
+    localStorage.removeItem(LEGACY_API_URL_KEY);
   },
 
-  isUsingRealBackend: (): boolean => {
-    return !!apiBaseUrl;
+  isUsingRealBackend: (backendId: string): boolean => {
+    return realBackend(backendId) !== null;
   },
 
   // Credentials management (stored locally, sent to backend when needed)
@@ -80,21 +95,22 @@ export const iloApi = {
   },
 
   // Test connection
-  async testConnection(credentials: IloCredentials): Promise<{ success: boolean; message?: string; error?: string }> {
-    if (apiBaseUrl) {
+  async testConnection(backendId: string, credentials: IloCredentials): Promise<IloResult> {
+    const backend = realBackend(backendId);
+    if (backend) {
       try {
-        const response = await fetch(`${apiBaseUrl}/ilo/test`, {
+        const response = await iloFetch(backend, '/ilo/test', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify(credentials)
         });
         return response.json();
       } catch (error) {
-        return { success: false, error: 'Failed to connect to backend server' };
+        return iloFailure(error);
       }
     }
     
-    // Mock mode
+    // Simulated iLO
     await delay(1500);
     if (credentials.host && credentials.username && credentials.password) {
       return { success: true, message: 'Connection successful (mock)' };
@@ -103,142 +119,146 @@ export const iloApi = {
   },
 
   // Get iLO status
-  async getStatus(): Promise<{ success: boolean; data?: IloStatus; error?: string }> {
-    if (apiBaseUrl) {
+  async getStatus(backendId: string): Promise<IloResult & { data?: IloStatus }> {
+    const backend = realBackend(backendId);
+    if (backend) {
       try {
-        const response = await fetch(`${apiBaseUrl}/ilo/status`);
-        return response.json();
+        const response = await iloFetch(backend, '/ilo/status');
+        const body = await response.json();
+        if (!body.success) return body;
+        return validateResponse(iloBackendStatusSchema, body.data, 'GET /ilo/status');
       } catch (error) {
-        return { success: false, error: 'Failed to connect to backend server' };
+        return iloFailure(error);
       }
     }
 
-    // Mock mode
+    // Simulated iLO
     await delay(300);
-    return { success: true, data: { ...mockIloStatus } };
+    return { success: true, data: simulatedIlo.getStatus() };
   },
 
   // Power on server
-  async powerOn(): Promise<{ success: boolean; message?: string; error?: string }> {
-    if (apiBaseUrl) {
+  async powerOn(backendId: string): Promise<IloResult> {
+    const backend = realBackend(backendId);
+    if (backend) {
       try {
-        const response = await fetch(`${apiBaseUrl}/ilo/power/powerOn`, { method: 'POST' });
+        const response = await iloFetch(backend, '/ilo/power/powerOn', { method: 'POST' }, POWER_TIMEOUT_MS);
         return response.json();
       } catch (error) {
-        return { success: false, error: 'Failed to connect to backend server' };
+        return iloFailure(error);
       }
     }
 
-    // Mock mode
+    // Simulated iLO
     await delay(2000);
-    mockIloStatus.powerState = 'on';
-    mockIloStatus.lastBootTime = new Date().toISOString();
-    mockIloStatus.uptime = '0h 0m';
+    simulatedIlo.setPower(true);
     return { success: true, message: 'Power on command sent successfully' };
   },
 
   // Power off server (graceful)
-  async powerOff(): Promise<{ success: boolean; message?: string; error?: string }> {
-    if (apiBaseUrl) {
+  async powerOff(backendId: string): Promise<IloResult> {
+    const backend = realBackend(backendId);
+    if (backend) {
       try {
-        const response = await fetch(`${apiBaseUrl}/ilo/power/powerOff`, { method: 'POST' });
+        const response = await iloFetch(backend, '/ilo/power/powerOff', { method: 'POST' }, POWER_TIMEOUT_MS);
         return response.json();
       } catch (error) {
-        return { success: false, error: 'Failed to connect to backend server' };
+        return iloFailure(error);
       }
     }
 
-    // Mock mode
+    // Simulated iLO
     await delay(3000);
-    mockIloStatus.powerState = 'off';
+    simulatedIlo.setPower(false);
     return { success: true, message: 'Graceful shutdown initiated' };
   },
 
   // Force power off
-  async forcePowerOff(): Promise<{ success: boolean; message?: string; error?: string }> {
-    if (apiBaseUrl) {
+  async forcePowerOff(backendId: string): Promise<IloResult> {
+    const backend = realBackend(backendId);
+    if (backend) {
       try {
-        const response = await fetch(`${apiBaseUrl}/ilo/power/forcePowerOff`, { method: 'POST' });
+        const response = await iloFetch(backend, '/ilo/power/forcePowerOff', { method: 'POST' }, POWER_TIMEOUT_MS);
         return response.json();
       } catch (error) {
-        return { success: false, error: 'Failed to connect to backend server' };
+        return iloFailure(error);
       }
     }
 
-    // Mock mode
+    // Simulated iLO
     await delay(1000);
-    mockIloStatus.powerState = 'off';
+    simulatedIlo.setPower(false);
     return { success: true, message: 'Force power off executed' };
   },
 
   // Reset/reboot server
-  async reset(): Promise<{ success: boolean; message?: string; error?: string }> {
-    if (apiBaseUrl) {
+  async reset(backendId: string): Promise<IloResult> {
+    const backend = realBackend(backendId);
+    if (backend) {
       try {
-        const response = await fetch(`${apiBaseUrl}/ilo/power/reset`, { method: 'POST' });
+        const response = await iloFetch(backend, '/ilo/power/reset', { method: 'POST' }, POWER_TIMEOUT_MS);
         return response.json();
       } catch (error) {
-        return { success: false, error: 'Failed to connect to backend server' };
+        return iloFailure(error);
       }
     }
 
-    // Mock mode
+    // Simulated iLO
     await delay(2000);
-    mockIloStatus.powerState = 'on';
-    mockIloStatus.lastBootTime = new Date().toISOString();
-    mockIloStatus.uptime = '0h 0m';
+    simulatedIlo.cycle();
     return { success: true, message: 'System reset initiated' };
   },
 
   // Cold boot (power cycle)
-  async powerCycle(): Promise<{ success: boolean; message?: string; error?: string }> {
-    if (apiBaseUrl) {
+  async powerCycle(backendId: string): Promise<IloResult> {
+    const backend = realBackend(backendId);
+    if (backend) {
       try {
-        const response = await fetch(`${apiBaseUrl}/ilo/power/powerCycle`, { method: 'POST' });
+        const response = await iloFetch(backend, '/ilo/power/powerCycle', { method: 'POST' }, POWER_TIMEOUT_MS);
         return response.json();
       } catch (error) {
-        return { success: false, error: 'Failed to connect to backend server' };
+        return iloFailure(error);
       }
     }
 
-    // Mock mode
+    // Simulated iLO
     await delay(4000);
-    mockIloStatus.powerState = 'on';
-    mockIloStatus.lastBootTime = new Date().toISOString();
-    mockIloStatus.uptime = '0h 0m';
+    simulatedIlo.cycle();
     return { success: true, message: 'Power cycle initiated' };
   },
 
   // Send credentials to backend
-  async configureBackend(credentials: IloCredentials): Promise<{ success: boolean; message?: string; error?: string }> {
-    if (!apiBaseUrl) {
-      return { success: false, error: 'Backend URL not configured' };
+  async configureBackend(backendId: string, credentials: IloCredentials): Promise<IloResult> {
+    const backend = realBackend(backendId);
+    if (!backend) {
+      return { success: false, error: 'Not a real backend' };
     }
 
     try {
-      const response = await fetch(`${apiBaseUrl}/ilo/credentials`, {
+      const response = await iloFetch(backend, '/ilo/credentials', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(credentials)
       });
       return response.json();
     } catch (error) {
-      return { success: false, error: 'Failed to connect to backend server' };
+      return iloFailure(error);
     }
   },
 
   // Check backend health
-  async checkBackendHealth(): Promise<{ success: boolean; configured?: boolean; host?: string; error?: string }> {
-    if (!apiBaseUrl) {
+  async checkBackendHealth(backendId: string): Promise<IloResult & { configured?: boolean; host?: string }> {
+    const backend = realBackend(backendId);
+    if (!backend) {
       return { success: true, configured: false };
     }
 
     try {
-      const response = await fetch(`${apiBaseUrl}/health`);
+      const response = await iloFetch(backend, '/health');
       const data = await response.json();
       return { success: true, ...data };
     } catch (error) {
-      return { success: false, error: 'Failed to connect to backend server' };
+      return iloFailure(error);
     }
   }
 };
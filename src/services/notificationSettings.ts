@@ -0,0 +1,67 @@
+// Desktop notification and alarm preferences, kept per browser in localStorage
+
+import { ServiceType } from '@/types/channel';
+
+// 'input' is the RX bitrate dropping to nothing while RX is running
+export type FailureSource = ServiceType | 'input';
+
+export type FailureSeverity = 'critical' | 'warning';
+
+export interface AlarmSound {
+  enabled: boolean;
+  // Seconds between repeats until acknowledged; 0 plays once
+  repeatSeconds: number;
+}
+
+export interface NotificationSettings {
+  desktop: boolean;
+  sound: Record<FailureSeverity, AlarmSound>;
+  // 0-1
+  volume: number;
+  // Sources not notified, as failureKey() strings
+  muted: string[];
+}
+
+const STORAGE_KEY = 'brateshub-notification-settings';
+
+export const NOTIFICATION_SETTINGS_EVENT = 'notification-settings-change';
+
+const DEFAULT_SETTINGS: NotificationSettings = {
+  desktop: false,
+  sound: {
+    critical: { enabled: true, repeatSeconds: 30 },
+    warning: { enabled: false, repeatSeconds: 0 },
+  },
+  volume: 0.5,
+  muted: [],
+};
+
+export function failureKey(backendId: string, channelId: number, source: FailureSource): string {
+  return `${backendId}:${channelId}:${source}`;
+}
+
+export function getNotificationSettings(): NotificationSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as Partial<NotificationSettings>;
+      return {
+        ...DEFAULT_SETTINGS,
+        ...parsed,
+        sound: { ...DEFAULT_SETTINGS.sound, ...parsed.sound },
+      };
+    }
+  } catch (e) {
+    console.warn('Failed to parse notification settings:', e);
+  }
+  return DEFAULT_SETTINGS;
+}
+
+export function saveNotificationSettings(settings: NotificationSettings): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  window.dispatchEvent(new CustomEvent(NOTIFICATION_SETTINGS_EVENT, { detail: settings }));
+}
+
+export function isMuted(settings: NotificationSettings, key: string): boolean {
+  return settings.muted.includes(key);
+}
@@ -0,0 +1,47 @@
+// TanStack Query keys for every backend resource
+// Hierarchical so that invalidating a prefix (e.g. ['channels']) refreshes everything below it;
+// channel and analysis keys are scoped by backend id so IDs from different controllers never collide
+
+import { ServiceType } from '@/types/channel';
+import { AuditFilters } from '@/types/audit';
+
+export const queryKeys = {
+  channels: ['channels'] as const,
+  backendChannels: (backendId: string) => [...queryKeys.channels, backendId] as const,
+  channelList: (backendId: string) => [...queryKeys.backendChannels(backendId), 'list'] as const,
+  channel: (backendId: string, id: number) => [...queryKeys.backendChannels(backendId), 'detail', id] as const,
+  config: (backendId: string, id: number) => [...queryKeys.backendChannels(backendId), 'config', id] as const,
+  appliedConfig: (backendId: string, id: number) => [...queryKeys.backendChannels(backendId), 'applied', id] as const,
+  configHistory: (backendId: string, id: number) => [...queryKeys.backendChannels(backendId), 'history', id] as const,
+  channelEnv: (backendId: string, id: number) => [...queryKeys.backendChannels(backendId), 'env', id] as const,
+  logs: (backendId: string, id: number, service: ServiceType, lines: number) =>
+    [...queryKeys.backendChannels(backendId), 'logs', id, service, lines] as const,
+  // range as for bitrateHistory
+  serviceEvents: (backendId: string, id: number, range: string) =>
+    [...queryKeys.backendChannels(backendId), 'service-events', id, range] as const,
+
+  analysis: ['analysis'] as const,
+  bitrates: (backendId: string, channelIds: number[]) => [...queryKeys.analysis, backendId, 'bitrate', channelIds] as const,
+  streamAnalysis: (backendId: string, id: number) => [...queryKeys.analysis, backendId, 'detail', id] as const,
+  // range is a relative range ('1h') or a fixed window (`${from}-${to}`)
+  bitrateHistory: (backendId: string, id: number, range: string, maxPoints: number) =>
+    [...queryKeys.analysis, backendId, 'history', id, range, maxPoints] as const,
+  pidHistory: (backendId: string, id: number) => [...queryKeys.analysis, backendId, 'pids', id] as const,
+  tr101290: (backendId: string, id: number) => [...queryKeys.analysis, backendId, 'tr101290', id] as const,
+
+  settings: (backendId: string) => ['settings', backendId] as const,
+
+  alerts: (backendId: string) => ['alerts', backendId] as const,
+  alertList: (backendId: string) => [...queryKeys.alerts(backendId), 'list'] as const,
+  alertRules: (backendId: string) => [...queryKeys.alerts(backendId), 'rules'] as const,
+  notifications: (backendId: string) => ['notifications', backendId] as const,
+  notificationDestinations: (backendId: string) => [...queryKeys.notifications(backendId), 'destinations'] as const,
+  notificationDeliveries: (backendId: string) => [...queryKeys.notifications(backendId), 'deliveries'] as const,
+  audit: (backendId: string) => ['audit', backendId] as const,
+  auditPage: (backendId: string, filters: AuditFilters) => [...queryKeys.audit(backendId), filters] as const,
+  currentUser: (backendId: string) => ['auth', backendId, 'me'] as const,
+  users: (backendId: string) => ['auth', backendId, 'users'] as const,
+
+  ilo: ['ilo'] as const,
+  iloStatus: (backendId: string) => [...queryKeys.ilo, backendId, 'status'] as const,
+};
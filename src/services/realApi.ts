@@ -1,146 +1,414 @@
 // Real API service that makes actual fetch calls to the backend
 
-import { Channel, ChannelConfig, LogEntry, ServiceType, ApiResponse } from '@/types/channel';
-import { StreamAnalysis, ChannelAnalysis } from '@/types/stream';
-import { getBackendUrl } from './backendConfig';
+import { z } from 'zod';
+import { Channel, ChannelConfig, ChannelEnv, LogEntry, ServiceType, ApiResponse } from '@/types/channel';
+import { StreamAnalysis, ChannelAnalysis, BitrateHistory, BitrateHistoryWindow, PidHistory, PidResetOptions, Tr101290Report } from '@/types/stream';
+import { ApplyOptions, ApplyResult } from '@/types/apply';
+import { ChangeInfo, ConfigVersion } from '@/types/history';
+import { GlobalSettings } from '@/types/settings';
+import { Alert, AlertRule, AlertRuleInput } from '@/types/alerts';
+import { NotificationDelivery, NotificationDestination, NotificationDestinationInput } from '@/types/notifications';
+import { ServiceEvent, ServiceEventFilters } from '@/types/serviceEvents';
+import { AuditFilters, AuditPage } from '@/types/audit';
+import { CurrentUser, User, UserInput, UserUpdate } from '@/types/auth';
+import { channelSchema, channelConfigSchema, channelEnvSchema, logEntrySchema, acknowledgementSchema } from '@/schemas/channel';
+import { streamAnalysisSchema, bitrateReadingSchema, bitrateHistorySchema, pidHistorySchema, tr101290ReportSchema } from '@/schemas/stream';
+import { applyResultSchema } from '@/schemas/apply';
+import { configVersionSchema } from '@/schemas/history';
+import { globalSettingsSchema } from '@/schemas/settings';
+import { alertSchema, alertRuleSchema } from '@/schemas/alerts';
+import { notificationDestinationSchema, notificationDeliverySchema } from '@/schemas/notifications';
+import { serviceEventSchema } from '@/schemas/serviceEvents';
+import { auditPageSchema } from '@/schemas/audit';
+import { currentUserSchema, userSchema } from '@/schemas/auth';
+import { validateResponse } from '@/schemas/validate';
+import { fetchWithRetry, toErrorResponse, RequestOptions } from './http';
+import { getBackendConfig, getBackendUrl, getAuthHeaders, notifyUnauthorized } from './backendConfig';
+import { authorHeaders } from './changeAuthor';
 
-async function fetchApi<T>(endpoint: string, options?: RequestInit): Promise<ApiResponse<T>> {
-  const url = `${getBackendUrl()}${endpoint}`;
+// backendId selects the controller; undefined follows the active backend.
+// Successful payloads are checked against the schema so contract drift shows up as an error, not a bad cast.
+async function fetchApi<S extends z.ZodTypeAny>(
+  backendId: string | undefined,
+  endpoint: string,
+  schema: S,
+  options?: RequestInit,
+  requestOptions?: RequestOptions
+): Promise<ApiResponse<z.output<S>>> {
+  const url = `${getBackendUrl(backendId)}${endpoint}`;
+  const method = options?.method ?? 'GET';
+
+  let response: Response;
   try {
-    const response = await fetch(url, {
+    response = await fetchWithRetry(url, {
       ...options,
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(getBackendConfig(backendId)),
+        ...authorHeaders(),
         ...options?.headers,
       },
-    });
+    }, requestOptions);
+  } catch (error) {
+    const failure = toErrorResponse(error);
+    if (failure.errorKind !== 'aborted') {
+      console.error(`API Error [${endpoint}]:`, failure.error);
+    }
+    return failure;
+  }
 
-    const data = await response.json();
+  if (response.status === 401) {
+    notifyUnauthorized(backendId);
+    return { success: false, error: 'Unauthorized: invalid or missing API key', errorKind: 'http', status: 401 };
+  }
 
+  let data;
+  try {
+    data = await response.json();
+  } catch {
+    // Proxies answer 502/504 with HTML; report the status rather than the parse failure
     if (!response.ok) {
-      return { success: false, error: data.error || `Request failed with status ${response.status}` };
+      return { success: false, error: `Request failed with status ${response.status}`, errorKind: 'http', status: response.status };
     }
+    console.error(`API Error [${endpoint}]: response is not JSON`);
+    return { success: false, error: `Unexpected response from ${method} ${endpoint}: not JSON`, errorKind: 'parse' };
+  }
 
-    return { success: true, data: data.data ?? data };
-  } catch (error) {
-    const message = error instanceof Error ? error.message : 'Network error';
-    console.error(`API Error [${endpoint}]:`, message);
-    return { success: false, error: message };
+  if (!response.ok) {
+    return {
+      success: false,
+      error: data?.error || `Request failed with status ${response.status}`,
+      errorKind: 'http',
+      status: response.status,
+    };
   }
+
+  // Unwrap the { success, data } envelope; data may legitimately be null
+  const payload = data && typeof data === 'object' && 'data' in data ? data.data : data;
+  const validated = validateResponse(schema, payload, `${method} ${endpoint}`);
+  if (!validated.success) {
+    console.error(`API Error [${endpoint}]:`, validated.error);
+  }
+  return validated;
 }
 
-export const realApi = {
-  // Get all channels with status
-  async getChannels(): Promise<ApiResponse<Channel[]>> {
-    return fetchApi<Channel[]>('/api/channels');
-  },
-
-  // Get single channel
-  async getChannel(id: number): Promise<ApiResponse<Channel>> {
-    return fetchApi<Channel>(`/api/channels/${id}`);
-  },
-
-  // Create new channel
-  async createChannel(channelId: number, name: string, config?: Partial<ChannelConfig>): Promise<ApiResponse<ChannelConfig>> {
-    return fetchApi<ChannelConfig>('/api/channels', {
-      method: 'POST',
-      body: JSON.stringify({ channelId, name, ...config }),
-    });
-  },
-
-  // Update channel
-  async updateChannel(id: number, updates: Partial<ChannelConfig>): Promise<ApiResponse<ChannelConfig>> {
-    return fetchApi<ChannelConfig>(`/api/channels/${id}`, {
-      method: 'PUT',
-      body: JSON.stringify(updates),
-    });
-  },
-
-  // Delete channel
-  async deleteChannel(id: number): Promise<ApiResponse<void>> {
-    return fetchApi<void>(`/api/channels/${id}`, { method: 'DELETE' });
-  },
-
-  // Get logs for a service
-  async getLogs(channelId: number, service: ServiceType, lines: number = 50): Promise<ApiResponse<LogEntry[]>> {
-    return fetchApi<LogEntry[]>(`/api/logs/${channelId}/${service}?lines=${lines}`);
-  },
-
-  // Start a service
-  async startService(channelId: number, service: ServiceType): Promise<ApiResponse<void>> {
-    return fetchApi<void>(`/api/services/${channelId}/${service}/start`, { method: 'POST' });
-  },
-
-  // Stop a service
-  async stopService(channelId: number, service: ServiceType): Promise<ApiResponse<void>> {
-    return fetchApi<void>(`/api/services/${channelId}/${service}/stop`, { method: 'POST' });
-  },
-
-  // Restart a service
-  async restartService(channelId: number, service: ServiceType): Promise<ApiResponse<void>> {
-    return fetchApi<void>(`/api/services/${channelId}/${service}/restart`, { method: 'POST' });
-  },
-
-  // Bulk operations
-  async bulkOperation(service: ServiceType, action: 'start' | 'stop' | 'restart', channelIds?: number[]): Promise<ApiResponse<void>> {
-    const body = channelIds ? { channelIds } : {};
-    return fetchApi<void>(`/api/services/bulk/${service}/${action}`, { 
-      method: 'POST',
-      body: JSON.stringify(body),
-    });
-  },
-
-  // Get config
-  async getConfig(channelId: number): Promise<ApiResponse<ChannelConfig>> {
-    return fetchApi<ChannelConfig>(`/api/channels/${channelId}/config`);
-  },
-
-  // Save config
-  async saveConfig(channelId: number, config: ChannelConfig): Promise<ApiResponse<void>> {
-    return fetchApi<void>(`/api/channels/${channelId}/config`, {
-      method: 'PUT',
-      body: JSON.stringify(config),
-    });
-  },
-
-  // Apply config (save + restart affected services)
-  async applyConfig(channelId: number, config: ChannelConfig, restartServices: ServiceType[]): Promise<ApiResponse<void>> {
-    // First save the config
-    const saveResult = await this.saveConfig(channelId, config);
-    if (!saveResult.success) return saveResult;
-
-    // Then restart each service
-    for (const service of restartServices) {
-      const restartResult = await this.restartService(channelId, service);
-      if (!restartResult.success) return restartResult;
-    }
-    return { success: true };
-  },
+// Service actions wait for systemctl on the backend, which gives up after 30 s
+// (the recorder alone may take that long to stop), then read the new state
+const SERVICE_ACTION_OPTIONS: RequestOptions = { timeoutMs: 45000 };
 
-  // Get stream analysis for all channels (lightweight bitrate only)
-  async getStreamAnalyses(channelIds: number[]): Promise<ApiResponse<ChannelAnalysis[]>> {
-    if (channelIds.length === 0) {
-      return { success: true, data: [] };
-    }
+// Author and comment travel as headers so config bodies stay plain configs
+function changeHeaders(change?: ChangeInfo): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (change?.author) headers['X-Change-Author'] = encodeURIComponent(change.author);
+  if (change?.comment) headers['X-Change-Comment'] = encodeURIComponent(change.comment);
+  return headers;
+}
+
+// API client bound to one backend
+export function createRealApi(backendId?: string) {
+  const request = <S extends z.ZodTypeAny>(endpoint: string, schema: S, options?: RequestInit, requestOptions?: RequestOptions) =>
+    fetchApi(backendId, endpoint, schema, options, requestOptions);
+
+  return {
+    // Get all channels with status
+    async getChannels(requestOptions?: RequestOptions): Promise<ApiResponse<Channel[]>> {
+      return request('/api/channels', z.array(channelSchema), undefined, requestOptions);
+    },
+
+    // Get single channel
+    async getChannel(id: number, requestOptions?: RequestOptions): Promise<ApiResponse<Channel>> {
+      return request(`/api/channels/${id}`, channelSchema, undefined, requestOptions);
+    },
+
+    // Create new channel
+    async createChannel(channelId: number, name: string, config?: Partial<ChannelConfig>): Promise<ApiResponse<ChannelConfig>> {
+      return request('/api/channels', channelConfigSchema, {
+        method: 'POST',
+        body: JSON.stringify({ channelId, name, ...config }),
+      });
+    },
+
+    // Update channel
+    async updateChannel(id: number, updates: Partial<ChannelConfig>): Promise<ApiResponse<ChannelConfig>> {
+      return request(`/api/channels/${id}`, channelConfigSchema, {
+        method: 'PUT',
+        body: JSON.stringify(updates),
+      });
+    },
+
+    // Delete channel
+    async deleteChannel(id: number): Promise<ApiResponse<void>> {
+      return request(`/api/channels/${id}`, acknowledgementSchema, { method: 'DELETE' }, SERVICE_ACTION_OPTIONS);
+    },
+
+    // Get logs for a service
+    async getLogs(channelId: number, service: ServiceType, lines: number = 50, requestOptions?: RequestOptions): Promise<ApiResponse<LogEntry[]>> {
+      return request(`/api/logs/${channelId}/${service}?lines=${lines}`, z.array(logEntrySchema), undefined, requestOptions);
+    },
+
+    // Start a service
+    async startService(channelId: number, service: ServiceType): Promise<ApiResponse<void>> {
+      return request(`/api/services/${channelId}/${service}/start`, acknowledgementSchema, { method: 'POST' }, SERVICE_ACTION_OPTIONS);
+    },
+
+    // Stop a service
+    async stopService(channelId: number, service: ServiceType): Promise<ApiResponse<void>> {
+      return request(`/api/services/${channelId}/${service}/stop`, acknowledgementSchema, { method: 'POST' }, SERVICE_ACTION_OPTIONS);
+    },
+
+    // Restart a service
+    async restartService(channelId: number, service: ServiceType): Promise<ApiResponse<void>> {
+      return request(`/api/services/${channelId}/${service}/restart`, acknowledgementSchema, { method: 'POST' }, SERVICE_ACTION_OPTIONS);
+    },
+
+    // Bulk operations
+    async bulkOperation(service: ServiceType, action: 'start' | 'stop' | 'restart', channelIds?: number[]): Promise<ApiResponse<void>> {
+      const body = channelIds ? { channelIds } : {};
+      return request(`/api/services/bulk/${service}/${action}`, acknowledgementSchema, { 
+        method: 'POST',
+        body: JSON.stringify(body),
+      }, SERVICE_ACTION_OPTIONS);
+    },
+
+    // State transitions and the actions that caused them, newest first
+    async getServiceEvents(filters: ServiceEventFilters, requestOptions?: RequestOptions): Promise<ApiResponse<ServiceEvent[]>> {
+      const params = new URLSearchParams();
+      for (const [key, value] of Object.entries(filters)) {
+        if (value !== undefined) params.set(key, String(value));
+      }
+      return request(`/api/services/events?${params}`, z.array(serviceEventSchema), undefined, requestOptions);
+    },
+
+    // Get config
+    async getConfig(channelId: number, requestOptions?: RequestOptions): Promise<ApiResponse<ChannelConfig>> {
+      return request(`/api/channels/${channelId}/config`, channelConfigSchema, undefined, requestOptions);
+    },
+
+    // Save config
+    async saveConfig(channelId: number, config: ChannelConfig, change?: ChangeInfo): Promise<ApiResponse<void>> {
+      return request(`/api/channels/${channelId}/config`, acknowledgementSchema, {
+        method: 'PUT',
+        headers: changeHeaders(change),
+        body: JSON.stringify(config),
+      });
+    },
+
+    // Saved config versions, newest first
+    async getConfigHistory(channelId: number, requestOptions?: RequestOptions): Promise<ApiResponse<ConfigVersion[]>> {
+      return request(`/api/channels/${channelId}/history`, z.array(configVersionSchema), undefined, requestOptions);
+    },
+
+    // Config the services are running with; null when the backend doesn't know it
+    async getAppliedConfig(channelId: number, requestOptions?: RequestOptions): Promise<ApiResponse<ChannelConfig | null>> {
+      return request(`/api/channels/${channelId}/applied`, channelConfigSchema.nullable(), undefined, requestOptions);
+    },
+
+    async getChannelEnv(channelId: number, requestOptions?: RequestOptions): Promise<ApiResponse<ChannelEnv>> {
+      return request(`/api/channels/${channelId}/env`, channelEnvSchema, undefined, requestOptions);
+    },
+
+    // Apply config as one backend transaction: save, restart, verify, roll back on failure.
+    // A rolled-back apply still succeeds as a request; check result.outcome.
+    async applyConfig(channelId: number, config: ChannelConfig, restartServices: ServiceType[], options: ApplyOptions = {}): Promise<ApiResponse<ApplyResult>> {
+      const { change, ...applyOptions } = options;
+      const phaseMs = (applyOptions.timeoutSec ?? 20) * 1000;
+      return request(`/api/channels/${channelId}/apply`, applyResultSchema, {
+        method: 'POST',
+        headers: changeHeaders(change),
+        body: JSON.stringify({ config, services: restartServices, ...applyOptions }),
+      }, {
+        // Apply and rollback phases plus the systemctl calls themselves
+        timeoutMs: 2 * phaseMs + 60000,
+      });
+    },
+
+    // Global defaults for new channels
+    async getSettings(requestOptions?: RequestOptions): Promise<ApiResponse<GlobalSettings>> {
+      return request('/api/settings', globalSettingsSchema, undefined, requestOptions);
+    },
+
+    async saveSettings(settings: GlobalSettings): Promise<ApiResponse<GlobalSettings>> {
+      return request('/api/settings', globalSettingsSchema, {
+        method: 'PUT',
+        body: JSON.stringify(settings),
+      });
+    },
+
+    // Get stream analysis for all channels (lightweight bitrate only)
+    async getStreamAnalyses(channelIds: number[], requestOptions?: RequestOptions): Promise<ApiResponse<ChannelAnalysis[]>> {
+      if (channelIds.length === 0) {
+        return { success: true, data: [] };
+      }
     
-    // Fetch analyses for provided channel IDs in parallel
-    const promises = channelIds.map(id => 
-      fetchApi<{ available: boolean; bitrate?: { total: number; totalMbps: string } }>(
-        `/api/analyze/${id}/bitrate`
-      ).then(result => ({
-        channelId: id,
-        available: result.success && result.data?.available,
-        timestamp: new Date().toISOString(),
-        bitrate: result.success && result.data?.available ? result.data.bitrate : undefined,
-      }))
-    );
-
-    const analyses = await Promise.all(promises);
-    return { success: true, data: analyses };
-  },
-
-  // Get detailed stream analysis for a single channel
-  async getStreamAnalysis(channelId: number): Promise<ApiResponse<StreamAnalysis>> {
-    return fetchApi<StreamAnalysis>(`/api/analyze/${channelId}`);
-  },
-};
+      // Fetch quick bitrate readings ({ bps, mbps } or null) in parallel
+      const promises = channelIds.map(id =>
+        request(`/api/analyze/${id}/bitrate`, bitrateReadingSchema, undefined, requestOptions).then((result): ChannelAnalysis => {
+          if (!result.success) {
+            return { channelId: id, available: false, timestamp: new Date().toISOString(), error: result.error };
+          }
+          const reading = result.data;
+          return reading
+            ? {
+                channelId: id,
+                available: true,
+                timestamp: reading.timestamp,
+                bitrate: { total: reading.bps, totalMbps: reading.mbps },
+              }
+            : { channelId: id, available: false, timestamp: new Date().toISOString() };
+        })
+      );
+
+      const analyses = await Promise.all(promises);
+      // A superseded poll should not overwrite the cache with a row of "cancelled" readings
+      if (requestOptions?.signal?.aborted) {
+        return { success: false, error: 'Request cancelled', errorKind: 'aborted' };
+      }
+      return { success: true, data: analyses };
+    },
+
+    // Get detailed stream analysis for a single channel
+    async getStreamAnalysis(channelId: number, requestOptions?: RequestOptions): Promise<ApiResponse<StreamAnalysis>> {
+      return request(`/api/analyze/${channelId}`, streamAnalysisSchema, undefined, requestOptions);
+    },
+
+    // Recorded bitrate and restart/input markers for a time window
+    async getBitrateHistory(channelId: number, window: BitrateHistoryWindow, requestOptions?: RequestOptions): Promise<ApiResponse<BitrateHistory>> {
+      const params = new URLSearchParams({ from: String(window.from), to: String(window.to) });
+      if (window.maxPoints) params.set('maxPoints', String(window.maxPoints));
+      return request(`/api/analyze/${channelId}/history?${params}`, bitrateHistorySchema, undefined, requestOptions);
+    },
+
+    // Open alerts, then the most recent resolved ones
+    async getAlerts(requestOptions?: RequestOptions): Promise<ApiResponse<Alert[]>> {
+      return request('/api/alerts', z.array(alertSchema), undefined, requestOptions);
+    },
+
+    async acknowledgeAlert(id: string): Promise<ApiResponse<Alert>> {
+      return request(`/api/alerts/${id}/acknowledge`, alertSchema, { method: 'POST' });
+    },
+
+    // Quiets the alert's rule and subject for a while; 0 lifts the silence
+    async silenceAlert(id: string, durationMinutes: number): Promise<ApiResponse<Alert>> {
+      return request(`/api/alerts/${id}/silence`, alertSchema, {
+        method: 'POST',
+        body: JSON.stringify({ durationMinutes }),
+      });
+    },
+
+    async getAlertRules(requestOptions?: RequestOptions): Promise<ApiResponse<AlertRule[]>> {
+      return request('/api/alerts/rules', z.array(alertRuleSchema), undefined, requestOptions);
+    },
+
+    async createAlertRule(rule: AlertRuleInput): Promise<ApiResponse<AlertRule>> {
+      return request('/api/alerts/rules', alertRuleSchema, {
+        method: 'POST',
+        body: JSON.stringify(rule),
+      });
+    },
+
+    async updateAlertRule(id: string, updates: Partial<AlertRuleInput>): Promise<ApiResponse<AlertRule>> {
+      return request(`/api/alerts/rules/${id}`, alertRuleSchema, {
+        method: 'PUT',
+        body: JSON.stringify(updates),
+      });
+    },
+
+    async deleteAlertRule(id: string): Promise<ApiResponse<void>> {
+      return request(`/api/alerts/rules/${id}`, acknowledgementSchema, { method: 'DELETE' });
+    },
+
+    // Webhook and email destinations alerts are sent to
+    async getNotificationDestinations(requestOptions?: RequestOptions): Promise<ApiResponse<NotificationDestination[]>> {
+      return request('/api/notifications/destinations', z.array(notificationDestinationSchema), undefined, requestOptions);
+    },
+
+    async createNotificationDestination(destination: NotificationDestinationInput): Promise<ApiResponse<NotificationDestination>> {
+      return request('/api/notifications/destinations', notificationDestinationSchema, {
+        method: 'POST',
+        body: JSON.stringify(destination),
+      });
+    },
+
+    async updateNotificationDestination(id: string, updates: Partial<NotificationDestinationInput>): Promise<ApiResponse<NotificationDestination>> {
+      return request(`/api/notifications/destinations/${id}`, notificationDestinationSchema, {
+        method: 'PUT',
+        body: JSON.stringify(updates),
+      });
+    },
+
+    async deleteNotificationDestination(id: string): Promise<ApiResponse<void>> {
+      return request(`/api/notifications/destinations/${id}`, acknowledgementSchema, { method: 'DELETE' });
+    },
+
+    async testNotificationDestination(id: string): Promise<ApiResponse<NotificationDelivery>> {
+      return request(`/api/notifications/destinations/${id}/test`, notificationDeliverySchema, { method: 'POST' });
+    },
+
+    async getNotificationDeliveries(requestOptions?: RequestOptions): Promise<ApiResponse<NotificationDelivery[]>> {
+      return request('/api/notifications/deliveries', z.array(notificationDeliverySchema), undefined, requestOptions);
+    },
+
+    // Per-PID bitrate and continuity-error history, compared with the baseline
+    async getPidHistory(channelId: number, requestOptions?: RequestOptions): Promise<ApiResponse<PidHistory>> {
+      return request(`/api/analyze/${channelId}/pids`, pidHistorySchema, undefined, requestOptions);
+    },
+
+    async resetPidHistory(channelId: number, options: PidResetOptions): Promise<ApiResponse<PidHistory>> {
+      return request(`/api/analyze/${channelId}/pids/reset`, pidHistorySchema, {
+        method: 'POST',
+        body: JSON.stringify(options),
+      });
+    },
+
+    // TR 101 290 priority 1 and 2 indicators with error counters
+    async getTr101290(channelId: number, requestOptions?: RequestOptions): Promise<ApiResponse<Tr101290Report>> {
+      return request(`/api/analyze/${channelId}/tr101290`, tr101290ReportSchema, undefined, requestOptions);
+    },
+
+    async resetTr101290(channelId: number): Promise<ApiResponse<Tr101290Report>> {
+      return request(`/api/analyze/${channelId}/tr101290/reset`, tr101290ReportSchema, { method: 'POST' });
+    },
+
+    // Operator actions matching the filters, newest first, one page at a time
+    async getAuditLog(filters: AuditFilters, requestOptions?: RequestOptions): Promise<ApiResponse<AuditPage>> {
+      const params = new URLSearchParams();
+      for (const [key, value] of Object.entries(filters)) {
+        if (value !== undefined && value !== '') params.set(key, String(value));
+      }
+      return request(`/api/audit?${params}`, auditPageSchema, undefined, requestOptions);
+    },
+
+    // Signing in goes through backendConfig.signIn, which works before a backend is saved
+    async logout(): Promise<ApiResponse<void>> {
+      return request('/api/auth/logout', acknowledgementSchema, { method: 'POST' });
+    },
+
+    async getCurrentUser(requestOptions?: RequestOptions): Promise<ApiResponse<CurrentUser>> {
+      return request('/api/auth/me', currentUserSchema, undefined, requestOptions);
+    },
+
+    async getUsers(requestOptions?: RequestOptions): Promise<ApiResponse<User[]>> {
+      return request('/api/users', z.array(userSchema), undefined, requestOptions);
+    },
+
+    async createUser(input: UserInput): Promise<ApiResponse<User>> {
+      return request('/api/users', userSchema, {
+        method: 'POST',
+        body: JSON.stringify(input),
+      });
+    },
+
+    async updateUser(id: string, updates: UserUpdate): Promise<ApiResponse<User>> {
+      return request(`/api/users/${id}`, userSchema, {
+        method: 'PUT',
+        body: JSON.stringify(updates),
+      });
+    },
+
+    async deleteUser(id: string): Promise<ApiResponse<void>> {
+      return request(`/api/users/${id}`, acknowledgementSchema, { method: 'DELETE' });
+    },
+  };
+}
+
+export type BackendClient = ReturnType<typeof createRealApi>;
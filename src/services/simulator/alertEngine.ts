@@ -0,0 +1,306 @@
+// Simulated alert engine, evaluating the same rules as the backend's
+// alertService against the simulator's state: firing until acknowledged,
+// resolved once the condition clears, silences per rule and subject.
+
+import { Alert, AlertRule, AlertRuleInput } from '@/types/alerts';
+import { ServiceStatus, ServiceType } from '@/types/channel';
+import { IloStatus } from '@/types/ilo';
+
+const CC_WINDOW_MS = 60_000;
+const MAX_HISTORY = 500;
+
+const SERVICE_LABELS: Record<ServiceType, string> = { rx: 'Receiver', rec: 'Recorder', rtmp: 'Restreamer' };
+const CHANNEL_RULE_TYPES: AlertRule['type'][] = ['service-state', 'bitrate', 'pid-missing', 'cc-errors'];
+
+// Same as the backend's defaults (alertRuleStore.js)
+const DEFAULT_RULES: AlertRule[] = ([
+  { id: 'rx-error', name: 'Receiver failed', type: 'service-state', severity: 'critical', forSeconds: 0, service: 'rx', status: 'error' },
+  { id: 'rec-error', name: 'Recorder failed', type: 'service-state', severity: 'warning', forSeconds: 0, service: 'rec', status: 'error' },
+  { id: 'rtmp-error', name: 'Restreamer failed', type: 'service-state', severity: 'warning', forSeconds: 0, service: 'rtmp', status: 'error' },
+  { id: 'no-input', name: 'No input', type: 'bitrate', severity: 'critical', forSeconds: 30, comparison: 'below', threshold: 0.1 },
+  { id: 'pid-missing', name: 'PID missing', type: 'pid-missing', severity: 'warning', forSeconds: 30 },
+  { id: 'cc-errors', name: 'Continuity errors', type: 'cc-errors', severity: 'warning', forSeconds: 0, threshold: 10 },
+  { id: 'ilo-health', name: 'Server health', type: 'ilo-health', severity: 'critical', forSeconds: 0 },
+  { id: 'ilo-temperature', name: 'Server temperature', type: 'ilo-temperature', severity: 'warning', forSeconds: 60, threshold: 80 },
+  { id: 'disk-space', name: 'Recording disk space', type: 'disk-space', severity: 'warning', forSeconds: 0, path: '/srv/recordings', threshold: 10 },
+] as Omit<AlertRule, 'enabled' | 'channelIds'>[]).map(rule => ({ enabled: true, channelIds: [], ...rule }));
+
+export interface AlertInputs {
+  channelIds: () => number[];
+  serviceStatus: (channelId: number, service: ServiceType) => ServiceStatus;
+  // null without a stream
+  bitrateBps: (channelId: number) => number | null;
+  pidSummary: (channelId: number, windowMs: number) => { missing: { pid: number; type: string }[]; ccErrors: number };
+  iloStatus: () => IloStatus | null;
+  diskFreePercent: (path: string) => number | null;
+}
+
+interface Match {
+  subject: string;
+  channelId: number | null;
+  value: number | null;
+  message: string;
+}
+
+// Only the fields that apply to the rule's type, like the backend's normalizeRule
+function normalizeRule(rule: AlertRule): AlertRule {
+  const base: AlertRule = {
+    id: rule.id,
+    name: rule.name.trim(),
+    type: rule.type,
+    enabled: rule.enabled,
+    severity: rule.severity,
+    channelIds: CHANNEL_RULE_TYPES.includes(rule.type) ? rule.channelIds : [],
+    forSeconds: rule.forSeconds,
+  };
+  switch (rule.type) {
+    case 'service-state':
+      return { ...base, service: rule.service, status: rule.status ?? 'error' };
+    case 'bitrate':
+      return { ...base, comparison: rule.comparison ?? 'below', threshold: rule.threshold };
+    case 'cc-errors':
+    case 'ilo-temperature':
+      return { ...base, threshold: rule.threshold };
+    case 'disk-space':
+      return { ...base, path: rule.path, threshold: rule.threshold };
+    default:
+      return base;
+  }
+}
+
+function validateRule(rule: AlertRule): string[] {
+  const errors: string[] = [];
+  if (!rule.name) errors.push('name is required');
+  if (!Number.isFinite(rule.forSeconds) || rule.forSeconds < 0) errors.push('forSeconds must be 0 or more');
+  const needsThreshold = ['bitrate', 'cc-errors', 'ilo-temperature', 'disk-space'].includes(rule.type);
+  if (needsThreshold && (!Number.isFinite(rule.threshold) || (rule.threshold ?? -1) < 0)) {
+    errors.push('threshold must be 0 or more');
+  }
+  if (rule.type === 'service-state' && !rule.service) errors.push('service is required');
+  if (rule.type === 'disk-space' && !rule.path?.startsWith('/')) errors.push('path must be an absolute path');
+  if (rule.type === 'disk-space' && (rule.threshold ?? 0) > 100) errors.push('threshold (percent free) must be at most 100');
+  return errors;
+}
+
+export function createAlertEngine(inputs: AlertInputs, onChange: (alert: Alert) => void) {
+  let rules = DEFAULT_RULES;
+  const openAlerts = new Map<string, Alert & { key: string }>();
+  let history: Alert[] = [];
+  const silences = new Map<string, string>();
+  const pending = new Map<string, number>();
+
+  const ruleChannels = (rule: AlertRule) => {
+    const ids = inputs.channelIds();
+    return rule.channelIds.length > 0 ? ids.filter(id => rule.channelIds.includes(id)) : ids;
+  };
+  const rxRunning = (channelId: number) => inputs.serviceStatus(channelId, 'rx') === 'running';
+  const strip = ({ key: _key, ...alert }: Alert & { key: string }): Alert => alert;
+
+  function conditions(rule: AlertRule): Match[] {
+    const threshold = rule.threshold ?? 0;
+    switch (rule.type) {
+      case 'service-state':
+        return ruleChannels(rule)
+          .filter(id => rule.service && inputs.serviceStatus(id, rule.service) === rule.status)
+          .map(id => ({
+            subject: `ch${id}`,
+            channelId: id,
+            value: null,
+            message: `${SERVICE_LABELS[rule.service as ServiceType]} on channel ${id} is ${rule.status}`,
+          }));
+      case 'bitrate':
+        return ruleChannels(rule)
+          .filter(rxRunning)
+          .map(id => ({ id, mbps: (inputs.bitrateBps(id) ?? 0) / 1_000_000 }))
+          .filter(({ mbps }) => (rule.comparison === 'above' ? mbps > threshold : mbps < threshold))
+          .map(({ id, mbps }) => ({
+            subject: `ch${id}`,
+            channelId: id,
+            value: Number(mbps.toFixed(2)),
+            message: `Bitrate on channel ${id} is ${mbps.toFixed(2)} Mbps, ${rule.comparison} ${threshold} Mbps`,
+          }));
+      case 'pid-missing':
+        return ruleChannels(rule)
+          .filter(rxRunning)
+          .flatMap(id => inputs.pidSummary(id, CC_WINDOW_MS).missing.map(({ pid, type }) => ({
+            subject: `ch${id}:pid${pid}`,
+            channelId: id,
+            value: pid,
+            message: `PID ${pid} (${type}) is missing from channel ${id}`,
+          })));
+      case 'cc-errors':
+        return ruleChannels(rule)
+          .filter(rxRunning)
+          .map(id => ({ id, perMinute: inputs.pidSummary(id, CC_WINDOW_MS).ccErrors }))
+          .filter(({ perMinute }) => perMinute > threshold)
+          .map(({ id, perMinute }) => ({
+            subject: `ch${id}`,
+            channelId: id,
+            value: perMinute,
+            message: `${perMinute} continuity errors in the last minute on channel ${id}`,
+          }));
+      case 'ilo-health': {
+        const ilo = inputs.iloStatus();
+        return ilo && (ilo.health === 'warning' || ilo.health === 'critical')
+          ? [{ subject: 'ilo', channelId: null, value: null, message: `Server health is ${ilo.health}` }]
+          : [];
+      }
+      case 'ilo-temperature': {
+        const ilo = inputs.iloStatus();
+        if (!ilo) return [];
+        const sensors: [string, number | undefined][] = [
+          ['Inlet Ambient', ilo.temperatures.inlet],
+          ['CPU 1', ilo.temperatures.cpu1],
+          ['CPU 2', ilo.temperatures.cpu2],
+        ];
+        return sensors
+          .filter(([, value]) => value !== undefined && value > threshold)
+          .map(([name, value]) => ({
+            subject: `ilo:${name}`,
+            channelId: null,
+            value: value as number,
+            message: `${name} is at ${value} °C, above ${threshold} °C`,
+          }));
+      }
+      case 'disk-space': {
+        const free = rule.path ? inputs.diskFreePercent(rule.path) : null;
+        return free !== null && free < threshold
+          ? [{ subject: `disk:${rule.path}`, channelId: null, value: free, message: `${free}% free on ${rule.path}, below ${threshold}%` }]
+          : [];
+      }
+    }
+  }
+
+  function isSilenced(key: string, now: number): boolean {
+    const until = silences.get(key);
+    return !!until && new Date(until).getTime() > now;
+  }
+
+  function fire(rule: AlertRule, match: Match, key: string, now: number) {
+    const alert = {
+      key,
+      id: crypto.randomUUID(),
+      ruleId: rule.id,
+      ruleName: rule.name,
+      type: rule.type,
+      severity: rule.severity,
+      channelId: match.channelId,
+      subject: match.subject,
+      message: match.message,
+      value: match.value,
+      state: 'firing' as const,
+      firedAt: new Date(now).toISOString(),
+      acknowledgedAt: null,
+      resolvedAt: null,
+      silencedUntil: isSilenced(key, now) ? silences.get(key) ?? null : null,
+    };
+    openAlerts.set(key, alert);
+    onChange(strip(alert));
+  }
+
+  function resolve(alert: Alert & { key: string }, now: number) {
+    openAlerts.delete(alert.key);
+    const resolved = strip({ ...alert, state: 'resolved', resolvedAt: new Date(now).toISOString() });
+    history = [...history, resolved].slice(-MAX_HISTORY);
+    onChange(resolved);
+  }
+
+  function findOpen(id: string) {
+    return Array.from(openAlerts.values()).find(a => a.id === id);
+  }
+
+  return {
+    evaluate() {
+      const now = Date.now();
+      const active = new Set<string>();
+
+      for (const rule of rules.filter(r => r.enabled)) {
+        for (const match of conditions(rule)) {
+          const key = `${rule.id}|${match.subject}`;
+          active.add(key);
+          if (!pending.has(key)) pending.set(key, now);
+          if (now - (pending.get(key) ?? now) < rule.forSeconds * 1000) continue;
+
+          const open = openAlerts.get(key);
+          if (!open) fire(rule, match, key, now);
+          else if (open.message !== match.message) openAlerts.set(key, { ...open, message: match.message, value: match.value });
+        }
+      }
+
+      for (const key of Array.from(pending.keys())) {
+        if (!active.has(key)) pending.delete(key);
+      }
+      for (const alert of Array.from(openAlerts.values())) {
+        if (!active.has(alert.key)) resolve(alert, now);
+      }
+      silences.forEach((until, key) => {
+        if (new Date(until).getTime() > now) return;
+        silences.delete(key);
+        const open = openAlerts.get(key);
+        if (open?.silencedUntil) {
+          const updated = { ...open, silencedUntil: null };
+          openAlerts.set(key, updated);
+          onChange(strip(updated));
+        }
+      });
+    },
+
+    list(): Alert[] {
+      const open = Array.from(openAlerts.values()).sort((a, b) => b.firedAt.localeCompare(a.firedAt));
+      return [...open.map(strip), ...history.slice().reverse()].slice(0, 200);
+    },
+
+    acknowledge(id: string): Alert | null {
+      const alert = findOpen(id);
+      if (!alert) return null;
+      if (alert.state === 'acknowledged') return strip(alert);
+      const updated = { ...alert, state: 'acknowledged' as const, acknowledgedAt: new Date().toISOString() };
+      openAlerts.set(alert.key, updated);
+      onChange(strip(updated));
+      return strip(updated);
+    },
+
+    silence(id: string, durationMinutes: number): Alert | null {
+      const open = findOpen(id);
+      const alert = open ?? history.find(a => a.id === id);
+      if (!alert) return null;
+      const key = open?.key ?? `${alert.ruleId}|${alert.subject}`;
+      const until = durationMinutes > 0 ? new Date(Date.now() + durationMinutes * 60_000).toISOString() : null;
+      if (until) silences.set(key, until);
+      else silences.delete(key);
+      if (!open) return { ...alert, silencedUntil: until };
+      const updated = { ...open, silencedUntil: until };
+      openAlerts.set(key, updated);
+      onChange(strip(updated));
+      return strip(updated);
+    },
+
+    getRules(): AlertRule[] {
+      return rules;
+    },
+
+    createRule(input: AlertRuleInput): { rule?: AlertRule; errors?: string[] } {
+      const rule = normalizeRule({ ...input, id: crypto.randomUUID() });
+      const errors = validateRule(rule);
+      if (errors.length > 0) return { errors };
+      rules = [...rules, rule];
+      return { rule };
+    },
+
+    updateRule(id: string, updates: Partial<AlertRuleInput>): { rule?: AlertRule; errors?: string[] } | null {
+      const current = rules.find(r => r.id === id);
+      if (!current) return null;
+      const rule = normalizeRule({ ...current, ...updates, id });
+      const errors = validateRule(rule);
+      if (errors.length > 0) return { errors };
+      rules = rules.map(r => (r.id === id ? rule : r));
+      return { rule };
+    },
+
+    deleteRule(id: string): boolean {
+      if (!rules.some(r => r.id === id)) return false;
+      rules = rules.filter(r => r.id !== id);
+      return true;
+    },
+  };
+}
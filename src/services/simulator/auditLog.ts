@@ -0,0 +1,69 @@
+// Simulated audit log, kept like the backend's auditService: every action
+// taken through the simulated API, attributed to this browser's operator name.
+
+import { getChangeAuthor } from '../changeAuthor';
+import { AuditEntry, AuditFilters } from '@/types/audit';
+
+const MAX_ENTRIES = 20000;
+
+type AuditInput = Pick<AuditEntry, 'action' | 'summary'> & Partial<Omit<AuditEntry, 'id' | 'timestamp' | 'actor' | 'credential' | 'ip'>>;
+
+// Secrets stay out of the trail, as on the backend
+const SECRET_FIELDS = [['rx', 'srt', 'passphrase'], ['rtmp', 'rtmpStreamKey'], ['rtmp', 'rtmpUrl']];
+
+function maskField(object: Record<string, unknown>, [key, ...rest]: string[]): Record<string, unknown> {
+  const value = object[key];
+  if (!value) return object;
+  if (rest.length === 0) return { ...object, [key]: '******' };
+  return typeof value === 'object' ? { ...object, [key]: maskField(value as Record<string, unknown>, rest) } : object;
+}
+
+function redact(config: Record<string, unknown> | null | undefined): Record<string, unknown> | null {
+  if (!config) return null;
+  return SECRET_FIELDS.reduce(maskField, config);
+}
+
+export function createAuditLog() {
+  // Oldest first
+  let entries: AuditEntry[] = [];
+
+  return {
+    record({ action, summary, channelId, service, outcome = 'success', error, details, before, after }: AuditInput) {
+      entries.push({
+        id: crypto.randomUUID(),
+        timestamp: new Date().toISOString(),
+        actor: getChangeAuthor() || null,
+        credential: null,
+        ip: null,
+        action,
+        channelId: channelId ?? null,
+        service: service ?? null,
+        summary,
+        outcome,
+        error: error ?? null,
+        details: details ?? null,
+        before: redact(before),
+        after: redact(after),
+      });
+      if (entries.length > MAX_ENTRIES) entries = entries.slice(-MAX_ENTRIES);
+    },
+
+    // Newest first, like GET /api/audit
+    query({ action, actor, channelId, outcome, from, to, search, offset = 0, limit = 50 }: AuditFilters) {
+      const needle = search?.toLowerCase();
+      const actorNeedle = actor?.toLowerCase();
+      const matches = entries.filter(entry => {
+        const time = new Date(entry.timestamp).getTime();
+        return (!action || entry.action === action || entry.action.startsWith(`${action}.`))
+          && (!actorNeedle || (entry.actor ?? '').toLowerCase().includes(actorNeedle))
+          && (channelId === undefined || entry.channelId === channelId)
+          && (!outcome || entry.outcome === outcome)
+          && (from === undefined || time >= from)
+          && (to === undefined || time <= to)
+          && (!needle || [entry.summary, entry.actor, entry.action, entry.error, entry.channelId]
+            .some(value => value != null && String(value).toLowerCase().includes(needle)));
+      }).reverse();
+      return { total: matches.length, entries: matches.slice(offset, offset + limit) };
+    },
+  };
+}
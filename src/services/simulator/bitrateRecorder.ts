@@ -0,0 +1,202 @@
+// Simulated bitrate history, kept like the backend's bitrateHistoryService:
+// 10 s buckets for 24 h and 5 min buckets for 7 days, plus restart and input markers.
+// Time before the simulator started is filled in with a synthetic curve so the
+// longer ranges have something to show.
+
+import { ServiceStatus, ServiceType } from '@/types/channel';
+import { BitrateHistory, BitrateMarker } from '@/types/stream';
+
+const RETENTION_MS = 7 * 86_400_000;
+const MAX_MARKERS = 1000;
+const DEFAULT_MAX_POINTS = 500;
+// The simulator samples every 2 s; synthetic buckets count as that many samples
+const SAMPLE_MS = 2000;
+
+const TIERS = [
+  { name: 'fine', bucketMs: 10_000, retentionMs: 86_400_000 },
+  { name: 'coarse', bucketMs: 300_000, retentionMs: RETENTION_MS },
+] as const;
+
+type TierName = (typeof TIERS)[number]['name'];
+
+interface Bucket {
+  t: number;
+  avg: number | null;
+  min: number | null;
+  max: number | null;
+  n: number;
+}
+
+interface OpenBucket {
+  t: number;
+  sum: number;
+  n: number;
+  min: number | null;
+  max: number | null;
+}
+
+interface ChannelHistory {
+  tiers: Record<TierName, Bucket[]>;
+  open: Record<TierName, OpenBucket | null>;
+  markers: BitrateMarker[];
+  inputUp: boolean | null;
+  rxStatus: ServiceStatus | null;
+  // Nominal bitrate for the synthetic history before startedAt; null for channels created later
+  backfillBps: number | null;
+}
+
+const closeBucket = (bucket: OpenBucket): Bucket => ({
+  t: bucket.t,
+  avg: bucket.n > 0 ? Math.round(bucket.sum / bucket.n) : null,
+  min: bucket.n > 0 ? bucket.min : null,
+  max: bucket.n > 0 ? bucket.max : null,
+  n: bucket.n,
+});
+
+function mergeBuckets(buckets: Bucket[], resolutionMs: number): Bucket[] {
+  const merged: OpenBucket[] = [];
+  for (const bucket of buckets) {
+    const t = Math.floor(bucket.t / resolutionMs) * resolutionMs;
+    let last = merged[merged.length - 1];
+    if (!last || last.t !== t) {
+      last = { t, sum: 0, n: 0, min: null, max: null };
+      merged.push(last);
+    }
+    if (bucket.n > 0 && bucket.avg !== null) {
+      last.sum += bucket.avg * bucket.n;
+      last.n += bucket.n;
+      last.min = last.min === null ? bucket.min : Math.min(last.min, bucket.min ?? last.min);
+      last.max = last.max === null ? bucket.max : Math.max(last.max, bucket.max ?? last.max);
+    }
+  }
+  return merged.map(closeBucket);
+}
+
+// Slow daily drift plus faster wobble, deterministic so repeated queries agree
+function syntheticBucket(nominalBps: number, t: number, bucketMs: number, channelId: number): Bucket {
+  const phase = channelId * 1.7;
+  const factor = 1
+    + 0.04 * Math.sin((2 * Math.PI * t) / 86_400_000 + phase)
+    + 0.015 * Math.sin((2 * Math.PI * t) / 1_020_000 + phase * 3);
+  const avg = Math.round(nominalBps * factor);
+  return { t, avg, min: Math.round(avg * 0.97), max: Math.round(avg * 1.03), n: Math.max(1, bucketMs / SAMPLE_MS) };
+}
+
+export function createBitrateRecorder(startedAt: number) {
+  const channels = new Map<number, ChannelHistory>();
+
+  function history(channelId: number): ChannelHistory {
+    let entry = channels.get(channelId);
+    if (!entry) {
+      entry = {
+        tiers: { fine: [], coarse: [] },
+        open: { fine: null, coarse: null },
+        markers: [],
+        inputUp: null,
+        rxStatus: null,
+        backfillBps: null,
+      };
+      channels.set(channelId, entry);
+    }
+    return entry;
+  }
+
+  function addMarker(entry: ChannelHistory, marker: BitrateMarker) {
+    const cutoff = Date.now() - RETENTION_MS;
+    entry.markers = [...entry.markers, marker]
+      .filter(m => new Date(m.timestamp).getTime() >= cutoff)
+      .slice(-MAX_MARKERS);
+  }
+
+  return {
+    // Channels that were streaming when the simulator started get a synthetic past
+    setBackfill(channelId: number, nominalBps: number) {
+      history(channelId).backfillBps = nominalBps;
+    },
+
+    addSample(channelId: number, timestamp: string, bps: number | null) {
+      const entry = history(channelId);
+      const time = new Date(timestamp).getTime();
+      for (const tier of TIERS) {
+        const t = Math.floor(time / tier.bucketMs) * tier.bucketMs;
+        let bucket = entry.open[tier.name];
+        if (bucket && bucket.t !== t) {
+          entry.tiers[tier.name].push(closeBucket(bucket));
+          bucket = null;
+        }
+        if (!bucket) {
+          bucket = { t, sum: 0, n: 0, min: null, max: null };
+          entry.open[tier.name] = bucket;
+        }
+        if (bps !== null) {
+          bucket.sum += bps;
+          bucket.n += 1;
+          bucket.min = bucket.min === null ? bps : Math.min(bucket.min, bps);
+          bucket.max = bucket.max === null ? bps : Math.max(bucket.max, bps);
+        }
+        const cutoff = time - tier.retentionMs;
+        if (entry.tiers[tier.name][0]?.t < cutoff) {
+          entry.tiers[tier.name] = entry.tiers[tier.name].filter(b => b.t >= cutoff);
+        }
+      }
+
+      const inputUp = bps !== null && bps > 0;
+      const rxUp = entry.rxStatus === null || entry.rxStatus === 'running';
+      if (entry.inputUp !== null && inputUp !== entry.inputUp && rxUp) {
+        addMarker(entry, { timestamp, kind: inputUp ? 'input-restored' : 'input-lost' });
+      }
+      entry.inputUp = inputUp;
+    },
+
+    serviceState(channelId: number, service: ServiceType, status: ServiceStatus, previousStatus: ServiceStatus, timestamp: string, error?: string) {
+      const entry = history(channelId);
+      if (service === 'rx') entry.rxStatus = status;
+      let kind: BitrateMarker['kind'] | null = null;
+      if (status === 'running' && previousStatus !== 'running') kind = 'restart';
+      else if (status === 'error' && previousStatus !== 'error') kind = 'failure';
+      else if (status === 'stopped' && (previousStatus === 'running' || previousStatus === 'stopping')) kind = 'stop';
+      if (kind) addMarker(entry, { timestamp, kind, service, message: error });
+    },
+
+    query(channelId: number, from: number, to: number, maxPoints = DEFAULT_MAX_POINTS): BitrateHistory {
+      const entry = history(channelId);
+      const now = Date.now();
+      const tier = TIERS.find(t => now - from <= t.retentionMs) ?? TIERS[TIERS.length - 1];
+      const open = entry.open[tier.name];
+
+      const synthetic: Bucket[] = [];
+      if (entry.backfillBps !== null) {
+        const start = Math.floor(Math.max(from, now - tier.retentionMs) / tier.bucketMs) * tier.bucketMs;
+        for (let t = start; t < Math.min(to, startedAt); t += tier.bucketMs) {
+          synthetic.push(syntheticBucket(entry.backfillBps, t, tier.bucketMs, channelId));
+        }
+      }
+      const recorded = [...entry.tiers[tier.name], ...(open ? [closeBucket(open)] : [])]
+        .filter(b => b.t >= from - tier.bucketMs && b.t <= to);
+
+      const windowMs = Math.max(to - from, tier.bucketMs);
+      const resolutionMs = Math.ceil(windowMs / maxPoints / tier.bucketMs) * tier.bucketMs;
+
+      return {
+        channelId,
+        from: new Date(from).toISOString(),
+        to: new Date(to).toISOString(),
+        resolutionSec: resolutionMs / 1000,
+        samples: mergeBuckets([...synthetic, ...recorded], resolutionMs).map(b => ({
+          timestamp: new Date(b.t).toISOString(),
+          avgBps: b.avg,
+          minBps: b.min,
+          maxBps: b.max,
+        })),
+        markers: entry.markers.filter(m => {
+          const time = new Date(m.timestamp).getTime();
+          return time >= from && time <= to;
+        }),
+      };
+    },
+
+    remove(channelId: number) {
+      channels.delete(channelId);
+    },
+  };
+}
@@ -0,0 +1,147 @@
+// Simulated notification destinations, following the backend's notificationService:
+// alerts go to the destinations whose severities match, on firing and (with
+// notifyResolved) on resolve. Nothing leaves the browser; every delivery succeeds.
+
+import { Alert } from '@/types/alerts';
+import {
+  DeliveryEvent,
+  NotificationDelivery,
+  NotificationDestination,
+  NotificationDestinationInput,
+} from '@/types/notifications';
+
+const MAX_DELIVERIES = 200;
+const EMAIL_PATTERN = /^[^\s@<>]+@[^\s@<>]+$/;
+
+function validateDestination(destination: NotificationDestination): string[] {
+  const errors: string[] = [];
+  if (!destination.name) errors.push('name is required');
+  if (destination.type === 'webhook') {
+    if (!/^https?:\/\/\S+$/.test(destination.url ?? '')) errors.push('url must be an http(s) URL');
+    if (destination.template) {
+      try {
+        JSON.parse(destination.template);
+      } catch (error) {
+        errors.push(`template is not valid JSON: ${(error as Error).message}`);
+      }
+    }
+  } else {
+    if (!destination.smtp?.host) errors.push('smtp.host is required');
+    if (!EMAIL_PATTERN.test(destination.from ?? '')) errors.push('from must be an email address');
+    if (!destination.to?.length || !destination.to.every(to => EMAIL_PATTERN.test(to))) {
+      errors.push('to must be a list of email addresses');
+    }
+  }
+  return errors;
+}
+
+function toDestination(id: string, input: Partial<NotificationDestinationInput>, current?: NotificationDestination): NotificationDestination {
+  const merged = { ...current, ...input };
+  const base = {
+    id,
+    name: (merged.name ?? '').trim(),
+    type: merged.type ?? 'webhook',
+    enabled: merged.enabled ?? true,
+    severities: merged.severities ?? ['critical', 'warning'],
+    notifyResolved: merged.notifyResolved ?? true,
+  };
+  if (base.type === 'webhook') {
+    // Like the backend, header values only ever come back masked
+    const headers = Object.fromEntries(Object.keys(merged.headers ?? {}).map(name => [name, '******']));
+    return { ...base, url: merged.url, method: merged.method ?? 'POST', headers, template: merged.template || null };
+  }
+  const smtp = { ...current?.smtp, ...input.smtp };
+  const hasPassword = input.smtp?.password !== undefined ? Boolean(input.smtp.password) : Boolean(current?.smtp?.hasPassword);
+  return {
+    ...base,
+    smtp: {
+      host: smtp.host ?? '',
+      port: smtp.port ?? (smtp.security === 'tls' ? 465 : 587),
+      security: smtp.security ?? 'starttls',
+      username: smtp.username || null,
+      hasPassword,
+    },
+    from: merged.from,
+    to: merged.to ?? [],
+  };
+}
+
+export function createNotificationOutbox() {
+  let destinations: NotificationDestination[] = [];
+  let deliveries: NotificationDelivery[] = [];
+  // Alerts a firing message went out for, so resolves are only sent for those
+  const notified = new Set<string>();
+
+  function deliver(destination: NotificationDestination, event: DeliveryEvent, alert: Pick<Alert, 'id' | 'severity' | 'ruleName' | 'message'>) {
+    const now = new Date().toISOString();
+    const label = event === 'resolved' ? 'RESOLVED' : alert.severity.toUpperCase();
+    const delivery: NotificationDelivery = {
+      id: crypto.randomUUID(),
+      destinationId: destination.id,
+      destinationName: destination.name,
+      destinationType: destination.type,
+      event,
+      alertId: alert.id,
+      summary: event === 'test' ? 'Test notification from BratesHUB on simulator' : `[${label}] ${alert.ruleName}: ${alert.message}`,
+      status: 'delivered',
+      attempts: 1,
+      lastError: null,
+      createdAt: now,
+      updatedAt: now,
+      deliveredAt: now,
+      nextAttemptAt: null,
+    };
+    deliveries = [...deliveries, delivery].slice(-MAX_DELIVERIES);
+    return delivery;
+  }
+
+  return {
+    handleAlert(alert: Alert) {
+      const silenced = !!alert.silencedUntil && new Date(alert.silencedUntil).getTime() > Date.now();
+      let event: DeliveryEvent | null = null;
+      if (alert.state === 'firing' && !silenced && !notified.has(alert.id)) event = 'firing';
+      else if (alert.state === 'resolved' && notified.has(alert.id)) event = 'resolved';
+      if (!event) return;
+
+      if (event === 'firing') notified.add(alert.id);
+      else notified.delete(alert.id);
+      destinations
+        .filter(d => d.enabled && d.severities.includes(alert.severity) && (event === 'firing' || d.notifyResolved))
+        .forEach(d => deliver(d, event as DeliveryEvent, alert));
+    },
+
+    list: () => destinations,
+
+    create(input: NotificationDestinationInput): { destination?: NotificationDestination; errors?: string[] } {
+      const destination = toDestination(crypto.randomUUID(), input);
+      const errors = validateDestination(destination);
+      if (errors.length > 0) return { errors };
+      destinations = [...destinations, destination];
+      return { destination };
+    },
+
+    update(id: string, updates: Partial<NotificationDestinationInput>): { destination?: NotificationDestination; errors?: string[] } | null {
+      const current = destinations.find(d => d.id === id);
+      if (!current) return null;
+      const destination = toDestination(id, updates, current);
+      const errors = validateDestination(destination);
+      if (errors.length > 0) return { errors };
+      destinations = destinations.map(d => (d.id === id ? destination : d));
+      return { destination };
+    },
+
+    remove(id: string): boolean {
+      const before = destinations.length;
+      destinations = destinations.filter(d => d.id !== id);
+      return destinations.length < before;
+    },
+
+    test(id: string): NotificationDelivery | null {
+      const destination = destinations.find(d => d.id === id);
+      if (!destination) return null;
+      return deliver(destination, 'test', { id: `test-${crypto.randomUUID()}`, severity: 'info', ruleName: 'Test notification', message: '' });
+    },
+
+    deliveries: () => [...deliveries].reverse(),
+  };
+}
@@ -0,0 +1,136 @@
+// Simulated per-PID history, kept like the backend's pidHistoryService:
+// the last hour of periodic analysis runs per PID, error counters since the
+// last reset and a baseline of the PIDs the channel is expected to carry.
+
+import { PidHistory, PidResetOptions, StreamPid } from '@/types/stream';
+
+const RETENTION_MS = 3_600_000;
+const NULL_PID = 8191;
+
+interface PidEntry {
+  type: string;
+  samples: { t: number; bps: number | null; cc: number }[];
+  ccErrors: number;
+  lastSeen: string | null;
+}
+
+interface ChannelPids {
+  pids: Map<number, PidEntry>;
+  baseline: { capturedAt: string; pids: number[] } | null;
+  countersResetAt: string;
+  lastSample: { timestamp: string; available: boolean; present: number[] } | null;
+}
+
+export function createPidRecorder() {
+  const channels = new Map<number, ChannelPids>();
+
+  function history(channelId: number): ChannelPids {
+    let entry = channels.get(channelId);
+    if (!entry) {
+      entry = { pids: new Map(), baseline: null, countersResetAt: new Date().toISOString(), lastSample: null };
+      channels.set(channelId, entry);
+    }
+    return entry;
+  }
+
+  function query(channelId: number): PidHistory {
+    const entry = history(channelId);
+    const present = new Set(entry.lastSample?.present ?? []);
+    const expected = entry.baseline ? new Set(entry.baseline.pids) : present;
+
+    return {
+      channelId,
+      updatedAt: entry.lastSample?.timestamp ?? null,
+      available: entry.lastSample?.available ?? false,
+      baseline: entry.baseline,
+      countersResetAt: entry.countersResetAt,
+      pids: Array.from(entry.pids.entries())
+        .sort(([a], [b]) => a - b)
+        .map(([pid, pidEntry]) => ({
+          pid,
+          type: pidEntry.type,
+          status: !present.has(pid) ? 'missing' : expected.has(pid) ? 'ok' : 'new',
+          ccErrors: pidEntry.ccErrors,
+          lastSeen: pidEntry.lastSeen,
+          samples: pidEntry.samples.map(s => ({ timestamp: new Date(s.t).toISOString(), bps: s.bps, ccErrors: s.cc })),
+        })),
+    };
+  }
+
+  return {
+    // pids carry the errors seen during this run, not a running total
+    addRun(channelId: number, timestamp: string, available: boolean, pids: StreamPid[] = []) {
+      const entry = history(channelId);
+      const time = new Date(timestamp).getTime();
+      const seen = new Map((available ? pids : []).filter(p => p.pid !== NULL_PID).map(p => [p.pid, p]));
+
+      for (const [pid, analysed] of seen) {
+        if (!entry.pids.has(pid)) entry.pids.set(pid, { type: analysed.type, samples: [], ccErrors: 0, lastSeen: null });
+      }
+
+      const cutoff = time - RETENTION_MS;
+      for (const [pid, pidEntry] of entry.pids) {
+        const analysed = seen.get(pid);
+        if (analysed) {
+          pidEntry.type = analysed.type;
+          pidEntry.ccErrors += analysed.discontinuities;
+          pidEntry.lastSeen = timestamp;
+        }
+        pidEntry.samples.push({ t: time, bps: available ? analysed?.bitrate ?? 0 : null, cc: analysed?.discontinuities ?? 0 });
+        if (pidEntry.samples[0].t < cutoff) pidEntry.samples = pidEntry.samples.filter(s => s.t >= cutoff);
+
+        const expected = entry.baseline?.pids.includes(pid);
+        if (!expected && (!pidEntry.lastSeen || new Date(pidEntry.lastSeen).getTime() < cutoff)) {
+          entry.pids.delete(pid);
+        }
+      }
+
+      if (available) {
+        entry.lastSample = { timestamp, available, present: Array.from(seen.keys()) };
+        if (!entry.baseline && seen.size > 0) {
+          entry.baseline = { capturedAt: timestamp, pids: Array.from(seen.keys()).sort((a, b) => a - b) };
+        }
+      } else if (entry.lastSample) {
+        entry.lastSample = { ...entry.lastSample, timestamp, available };
+      }
+    },
+
+    query,
+
+    // Missing baseline PIDs and continuity errors within the last windowMs, for alert rules
+    summarize(channelId: number, windowMs: number) {
+      const entry = history(channelId);
+      const present = new Set(entry.lastSample?.present ?? []);
+      const since = Date.now() - windowMs;
+      let ccErrors = 0;
+      entry.pids.forEach(pidEntry => {
+        pidEntry.samples.forEach(s => { if (s.t >= since) ccErrors += s.cc; });
+      });
+      const missing = entry.baseline && entry.lastSample?.available
+        ? entry.baseline.pids
+          .filter(pid => !present.has(pid))
+          .map(pid => ({ pid, type: entry.pids.get(pid)?.type ?? 'Unknown' }))
+        : [];
+      return { missing, ccErrors };
+    },
+
+    reset(channelId: number, { counters = true, baseline = true }: PidResetOptions): PidHistory {
+      const entry = history(channelId);
+      if (counters) {
+        entry.pids.forEach(pidEntry => { pidEntry.ccErrors = 0; });
+        entry.countersResetAt = new Date().toISOString();
+      }
+      if (baseline) {
+        const current = entry.lastSample?.available ? entry.lastSample : null;
+        entry.baseline = current
+          ? { capturedAt: new Date().toISOString(), pids: [...current.present].sort((a, b) => a - b) }
+          : null;
+      }
+      return query(channelId);
+    },
+
+    remove(channelId: number) {
+      channels.delete(channelId);
+    },
+  };
+}
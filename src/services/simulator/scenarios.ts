@@ -0,0 +1,140 @@
+// Scripted scenarios for the simulated backend.
+// A scenario seeds the channels and then plays timed steps, e.g.
+// { at: 30, action: 'input-loss', channelId: 5003 } = "channel 5003 loses input at t=30s".
+
+import { z } from 'zod';
+import { serviceTypeSchema } from '@/schemas/channel';
+import { formatZodError } from '@/schemas/validate';
+
+const at = z.number().min(0); // seconds since the scenario started
+const channelId = z.number().int().positive();
+
+export const scenarioStepSchema = z.discriminatedUnion('action', [
+  // Source stops delivering packets; RX keeps running but analysis goes dark
+  z.object({ at, action: z.literal('input-loss'), channelId, duration: z.number().positive().optional() }),
+  z.object({ at, action: z.literal('input-restore'), channelId }),
+  // Main process exits with an error; autoRestart mimics systemd Restart=on-failure
+  z.object({
+    at,
+    action: z.literal('service-crash'),
+    channelId,
+    service: serviceTypeSchema,
+    exitCode: z.number().int().optional(),
+    autoRestart: z.boolean().optional(),
+  }),
+  z.object({ at, action: z.literal('service-start'), channelId, service: serviceTypeSchema }),
+  z.object({ at, action: z.literal('service-stop'), channelId, service: serviceTypeSchema }),
+  // Scale the stream bitrate (0.5 = half), optionally only for a while
+  z.object({
+    at,
+    action: z.literal('bitrate-drop'),
+    channelId,
+    factor: z.number().min(0),
+    duration: z.number().positive().optional(),
+  }),
+  // Continuity counter errors on the video PID
+  z.object({ at, action: z.literal('cc-errors'), channelId, count: z.number().int().positive() }),
+  // A PID disappears from the stream, optionally only for a while
+  z.object({
+    at,
+    action: z.literal('pid-loss'),
+    channelId,
+    pid: z.number().int().min(0).max(8191),
+    duration: z.number().positive().optional(),
+  }),
+  // PCR accuracy errors on the video PID, optionally only for a while
+  z.object({ at, action: z.literal('pcr-jitter'), channelId, duration: z.number().positive().optional() }),
+  // Server power via the simulated iLO
+  z.object({ at, action: z.literal('power-off') }),
+  z.object({ at, action: z.literal('power-on') }),
+]);
+
+export const scenarioSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  channels: z.array(channelId).default([5001, 5002, 5003, 5004]),
+  // Services started on every channel when the scenario begins
+  running: z.array(serviceTypeSchema).default(['rx', 'rec', 'rtmp']),
+  // Replay the steps every N seconds
+  loopSeconds: z.number().positive().optional(),
+  steps: z.array(scenarioStepSchema).default([]),
+});
+
+export type ScenarioStep = z.infer<typeof scenarioStepSchema>;
+export type Scenario = z.infer<typeof scenarioSchema>;
+
+export const CUSTOM_SCENARIO_ID = 'custom';
+
+export const builtInScenarios: Scenario[] = [
+  scenarioSchema.parse({
+    id: 'steady',
+    name: 'Steady state',
+    description: 'Four healthy channels with every service running.',
+  }),
+  scenarioSchema.parse({
+    id: 'input-loss',
+    name: 'Input loss',
+    description: 'Channel 5003 loses its SRT input at t=30s and recovers at t=90s.',
+    loopSeconds: 150,
+    steps: [
+      { at: 30, action: 'input-loss', channelId: 5003 },
+      { at: 90, action: 'input-restore', channelId: 5003 },
+    ],
+  }),
+  scenarioSchema.parse({
+    id: 'crash-loop',
+    name: 'Crash and restart',
+    description: 'RTMP on 5002 crashes at t=20s and is restarted by systemd; at t=60s it crashes for good.',
+    steps: [
+      { at: 20, action: 'service-crash', channelId: 5002, service: 'rtmp', exitCode: 1, autoRestart: true },
+      { at: 60, action: 'service-crash', channelId: 5002, service: 'rtmp', exitCode: 137 },
+    ],
+  }),
+  scenarioSchema.parse({
+    id: 'degraded',
+    name: 'Degraded streams',
+    description: 'Bitrate on 5001 halves for a minute from t=15s; 5004 picks up continuity errors and loses its AC3 audio PID for 30s at t=60s; PCR on 5002 jitters for 20s at t=80s.',
+    loopSeconds: 120,
+    steps: [
+      { at: 10, action: 'cc-errors', channelId: 5004, count: 3 },
+      { at: 15, action: 'bitrate-drop', channelId: 5001, factor: 0.5, duration: 60 },
+      { at: 40, action: 'cc-errors', channelId: 5004, count: 12 },
+      { at: 60, action: 'pid-loss', channelId: 5004, pid: 259, duration: 30 },
+      { at: 80, action: 'pcr-jitter', channelId: 5002, duration: 20 },
+    ],
+  }),
+  scenarioSchema.parse({
+    id: 'power-outage',
+    name: 'Power outage',
+    description: 'The server powers off at t=60s and comes back at t=120s.',
+    steps: [
+      { at: 60, action: 'power-off' },
+      { at: 120, action: 'power-on' },
+    ],
+  }),
+];
+
+export const DEFAULT_SCENARIO_ID = builtInScenarios[0].id;
+
+/**
+ * Parse a custom scenario script (JSON); the error names the offending step/field
+ */
+export function parseScenarioScript(script: string): { scenario?: Scenario; error?: string } {
+  let json: unknown;
+  try {
+    json = JSON.parse(script);
+  } catch (e) {
+    return { error: `Invalid JSON: ${(e as Error).message}` };
+  }
+  const result = scenarioSchema.safeParse({ id: CUSTOM_SCENARIO_ID, name: 'Custom script', ...(json as object) });
+  return result.success ? { scenario: result.data } : { error: formatZodError(result.error) };
+}
+
+export function getScenario(id: string | undefined, script?: string): Scenario {
+  if (id === CUSTOM_SCENARIO_ID && script) {
+    const { scenario } = parseScenarioScript(script);
+    if (scenario) return scenario;
+  }
+  return builtInScenarios.find(s => s.id === id) ?? builtInScenarios[0];
+}
@@ -0,0 +1,77 @@
+// Simulated service event log, kept like the backend's serviceEventService:
+// every status change with its cause, and the actions requested through the
+// API so the transitions that follow can be put down to them.
+
+import { ServiceState, ServiceStatus, ServiceType } from '@/types/channel';
+import { ServiceAction, ServiceEvent, ServiceEventCause, ServiceEventFilters } from '@/types/serviceEvents';
+
+const MAX_EVENTS = 10000;
+const ACTION_WINDOW_MS = 60_000;
+
+export function createServiceEventLog() {
+  // Oldest first
+  let events: ServiceEvent[] = [];
+  const expected = new Map<string, { cause: ServiceEventCause; until: number }>();
+
+  const key = (channelId: number, service: ServiceType) => `${channelId}-${service}`;
+
+  function add(event: Omit<ServiceEvent, 'id' | 'timestamp'>, timestamp = new Date().toISOString()) {
+    events.push({ id: crypto.randomUUID(), timestamp, ...event });
+    if (events.length > MAX_EVENTS) events = events.slice(-MAX_EVENTS);
+  }
+
+  function causeOf(channelId: number, service: ServiceType, from: ServiceStatus, state: ServiceState): ServiceEventCause {
+    if (state.status === 'error') return 'failure';
+    const expectation = expected.get(key(channelId, service));
+    if (expectation && expectation.until >= Date.now()) return expectation.cause;
+    if (from === 'error') return 'restart';
+    return 'external';
+  }
+
+  return {
+    action(channelId: number, service: ServiceType, action: ServiceAction, cause: ServiceEventCause = 'operator') {
+      add({ channelId, service, kind: 'action', cause, action, error: null });
+      expected.set(key(channelId, service), { cause, until: Date.now() + ACTION_WINDOW_MS });
+    },
+
+    // systemd bringing a failed service back by itself
+    expectRestart(channelId: number, service: ServiceType) {
+      expected.set(key(channelId, service), { cause: 'restart', until: Date.now() + ACTION_WINDOW_MS });
+    },
+
+    transition(channelId: number, service: ServiceType, from: ServiceStatus, state: ServiceState, timestamp?: string, cause?: ServiceEventCause) {
+      if (from === state.status || state.status === 'unknown') return;
+      add({
+        channelId,
+        service,
+        kind: 'transition',
+        cause: cause ?? causeOf(channelId, service, from, state),
+        from,
+        to: state.status,
+        exitCode: state.status === 'error' ? state.lastExitCode ?? null : null,
+        pid: state.pid ?? null,
+        detail: state.error || state.subState || null,
+      }, timestamp);
+    },
+
+    // Newest first, like GET /api/services/events
+    query({ channelId, service, kind, cause, from, to, limit = 500 }: ServiceEventFilters): ServiceEvent[] {
+      return events
+        .filter(e => {
+          const time = new Date(e.timestamp).getTime();
+          return (channelId === undefined || e.channelId === channelId)
+            && (!service || e.service === service)
+            && (!kind || e.kind === kind)
+            && (!cause || e.cause === cause)
+            && (from === undefined || time >= from)
+            && (to === undefined || time <= to);
+        })
+        .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+        .slice(0, limit);
+    },
+
+    remove(channelId: number) {
+      events = events.filter(e => e.channelId !== channelId);
+    },
+  };
+}
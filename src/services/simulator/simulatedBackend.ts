@@ -0,0 +1,1312 @@
+// In-browser simulated backend: channels, systemd-like service lifecycles,
+// bitrate/PID analysis, logs and live events, driven by a scenario script.
+// Time is evaluated lazily (on every call, and on a tick while the live
+// stream is open), so an idle tab costs nothing.
+
+import { Channel, ChannelConfig, ChannelEnv, LogEntry, ServiceState, ServiceType, ApiResponse } from '@/types/channel';
+import { StreamAnalysis, ChannelAnalysis, StreamPid, BitrateHistory, PidHistory, Tr101290Report } from '@/types/stream';
+import { LiveEventMap, LiveEventType } from '@/types/events';
+import { ApplyOptions, ApplyOutcome, ApplyResult, ApplyStep } from '@/types/apply';
+import { ChangeInfo, ConfigVersion, ConfigVersionSource } from '@/types/history';
+import { GlobalSettings } from '@/types/settings';
+import { Alert, AlertRule } from '@/types/alerts';
+import { NotificationDelivery, NotificationDestination } from '@/types/notifications';
+import { DEFAULT_GLOBAL_SETTINGS, buildDefaultChannelConfig } from '@/lib/channelDefaults';
+import { renderChannelEnv } from '@/lib/channelEnv';
+import type { BackendClient } from '../realApi';
+import type { RequestOptions } from '../http';
+import { getBackendConfig } from '../backendConfig';
+import { Scenario, ScenarioStep, getScenario } from './scenarios';
+import { simulatedIlo } from './simulatedIlo';
+import { createBitrateRecorder } from './bitrateRecorder';
+import { createPidRecorder } from './pidRecorder';
+import { Tr101290Measurements, createTr101290Monitor } from './tr101290Monitor';
+import { createAlertEngine } from './alertEngine';
+import { createNotificationOutbox } from './notificationOutbox';
+import { createServiceEventLog } from './serviceEventLog';
+import { createAuditLog } from './auditLog';
+import { createUserDirectory } from './userDirectory';
+import { getChangeAuthor } from '../changeAuthor';
+
+const SERVICES: ServiceType[] = ['rx', 'rec', 'rtmp'];
+
+const LATENCY_MS = 120;
+const START_DELAY_MS = 1200;
+const STOP_DELAY_MS = 800;
+// systemd RestartSec for autoRestart crashes
+const RESTART_DELAY_MS = 5000;
+const TICK_MS = 500;
+const BITRATE_INTERVAL_MS = 2000;
+// Like the backend monitor's MONITOR_PID_INTERVAL_MS
+const PID_INTERVAL_MS = 10000;
+// Like the backend's alert evaluation interval
+const ALERT_INTERVAL_MS = 5000;
+// Free space reported for every disk-space alert rule
+const DISK_FREE_PERCENT = 38.5;
+const HEARTBEAT_INTERVAL_MS = 15000;
+const MAX_LOG_ENTRIES = 200;
+const APPLY_POLL_MS = 250;
+// Like the backend: a service must stay running this long to count as up
+const APPLY_SETTLE_MS = 2000;
+
+const SERVICE_LABELS: Record<ServiceType, string> = {
+  rx: 'SRT receiver',
+  rec: 'Recorder',
+  rtmp: 'RTMP restreamer',
+};
+
+interface SimulatedChannel {
+  config: ChannelConfig;
+  // Config the services were last started with
+  applied: ChannelConfig;
+  // Oldest first, like the backend's history file
+  history: ConfigVersion[];
+  // channel<PORT>.env as last written on save
+  envFile: { content: string; modifiedAt: string };
+  services: Record<ServiceType, ServiceState>;
+  // Bumped on every transition so stale delayed transitions are skipped
+  generations: Record<ServiceType, number>;
+  logs: Record<ServiceType, LogEntry[]>;
+  inputLost: boolean;
+  bitrateFactor: number;
+  discontinuities: number;
+  // Part of discontinuities already handed to the PID recorder
+  ccReported: number;
+  // PIDs dropped from the stream by a pid-loss step
+  missingPids: number[];
+  // PCR accuracy errors from a pcr-jitter step
+  pcrJitter: boolean;
+}
+
+interface PendingAction {
+  due: number;
+  run: () => void;
+}
+
+export interface LiveHandlers {
+  onOpen: () => void;
+  onEvent: <K extends LiveEventType>(type: K, data: LiveEventMap[K]) => void;
+  onClose: () => void;
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function formatUptime(since: string | undefined): string | null {
+  if (!since) return null;
+  const diffMs = Date.now() - new Date(since).getTime();
+  const days = Math.floor(diffMs / 86_400_000);
+  const hours = Math.floor((diffMs % 86_400_000) / 3_600_000);
+  const minutes = Math.floor((diffMs % 3_600_000) / 60_000);
+  const seconds = Math.floor((diffMs % 60_000) / 1000);
+  if (days > 0) return `${days}d ${hours}h ${minutes}m`;
+  if (hours > 0) return `${hours}h ${minutes}m ${seconds}s`;
+  if (minutes > 0) return `${minutes}m ${seconds}s`;
+  return `${seconds}s`;
+}
+
+// Stable per-channel base bitrate between 18 and 27 Mbps
+const baseBitrate = (id: number) => 18_000_000 + (id % 7) * 1_500_000;
+
+const pidEntry = (pid: number, type: string, bitrate: number, total: number, discontinuities = 0): StreamPid => ({
+  pid,
+  type,
+  bitrate: Math.round(bitrate),
+  bitrateMbps: (bitrate / 1_000_000).toFixed(3),
+  percentage: total > 0 ? ((bitrate / total) * 100).toFixed(1) : '0.0',
+  scrambled: false,
+  discontinuities,
+});
+
+function createSimulatedBackend(scenario: Scenario) {
+  const channels = new Map<number, SimulatedChannel>();
+  let settings: GlobalSettings = structuredClone(DEFAULT_GLOBAL_SETTINGS);
+  const liveHandlers = new Set<LiveHandlers>();
+  let pending: PendingAction[] = [];
+  const startedAt = Date.now();
+  let playedMs = 0;
+  let tickTimer: ReturnType<typeof setInterval> | null = null;
+  let lastBitrateAt = 0;
+  let lastPidsAt = 0;
+  let lastAlertsAt = 0;
+  let lastHeartbeatAt = 0;
+  let disposed = false;
+  // Filled by the live-stream tick, like the backend monitor fills its history
+  const bitrateRecorder = createBitrateRecorder(startedAt);
+  const pidRecorder = createPidRecorder();
+  const tr101290Monitor = createTr101290Monitor();
+  const notificationOutbox = createNotificationOutbox();
+  const serviceEvents = createServiceEventLog();
+  const auditLog = createAuditLog();
+  const userDirectory = createUserDirectory();
+  const alertEngine = createAlertEngine({
+    channelIds: () => [...channels.keys()],
+    serviceStatus: (channelId, service) => channels.get(channelId)?.services[service].status ?? 'unknown',
+    bitrateBps: (channelId) => {
+      const channel = channels.get(channelId);
+      return channel && isStreaming(channel) ? currentBitrate(channel) : null;
+    },
+    pidSummary: (channelId, windowMs) => pidRecorder.summarize(channelId, windowMs),
+    iloStatus: () => simulatedIlo.getStatus(),
+    diskFreePercent: () => DISK_FREE_PERCENT,
+  }, (alert) => {
+    emit('alert', { alert, timestamp: new Date().toISOString() });
+    notificationOutbox.handleAlert(alert);
+  });
+
+  // -- events ----------------------------------------------------------------
+
+  function emit<K extends LiveEventType>(type: K, data: LiveEventMap[K]) {
+    liveHandlers.forEach(handlers => handlers.onEvent(type, data));
+  }
+
+  function log(channel: SimulatedChannel, service: ServiceType, level: LogEntry['level'], message: string) {
+    const entries = channel.logs[service];
+    entries.push({ timestamp: new Date().toISOString(), level, message });
+    if (entries.length > MAX_LOG_ENTRIES) entries.splice(0, entries.length - MAX_LOG_ENTRIES);
+  }
+
+  function schedule(delayMs: number, run: () => void) {
+    pending.push({ due: Date.now() + delayMs, run });
+  }
+
+  // -- channels and services -------------------------------------------------
+
+  function recordVersion(channel: SimulatedChannel, source: ConfigVersionSource, change: ChangeInfo = {}) {
+    const last = channel.history[channel.history.length - 1];
+    channel.history.push({
+      version: last ? last.version + 1 : 1,
+      timestamp: new Date().toISOString(),
+      author: change.author || 'unknown',
+      comment: change.comment,
+      source,
+      config: structuredClone(channel.config),
+    });
+  }
+
+  // Like the backend, every save rewrites the env file the services start with
+  function writeEnv(channel: SimulatedChannel) {
+    channel.envFile = { content: renderChannelEnv(channel.config), modifiedAt: new Date().toISOString() };
+  }
+
+  function addChannel(config: ChannelConfig, source: ConfigVersionSource = 'baseline', change?: ChangeInfo) {
+    const id = config.channelId;
+    const services = {} as Record<ServiceType, ServiceState>;
+    const logs = {} as Record<ServiceType, LogEntry[]>;
+    for (const service of SERVICES) {
+      services[service] = { status: 'stopped', serviceName: `${service}${id}.service`, pid: null, memory: null, subState: 'dead' };
+      logs[service] = [];
+    }
+    channels.set(id, {
+      config,
+      applied: structuredClone(config),
+      history: [],
+      envFile: { content: renderChannelEnv(config), modifiedAt: new Date().toISOString() },
+      services,
+      generations: { rx: 0, rec: 0, rtmp: 0 },
+      logs,
+      inputLost: false,
+      bitrateFactor: 1,
+      discontinuities: 0,
+      ccReported: 0,
+      missingPids: [],
+      pcrJitter: false,
+    });
+    recordVersion(channels.get(id)!, source, source === 'baseline' ? { author: 'system', comment: 'Initial config' } : change);
+  }
+
+  function setServiceState(channelId: number, service: ServiceType, patch: Partial<ServiceState>) {
+    const channel = channels.get(channelId);
+    if (!channel) return;
+    const previous = channel.services[service];
+    const state: ServiceState = { ...previous, ...patch };
+    channel.services[service] = state;
+    channel.generations[service]++;
+    const timestamp = new Date().toISOString();
+    bitrateRecorder.serviceState(channelId, service, state.status, previous.status, timestamp, state.error);
+    serviceEvents.transition(channelId, service, previous.status, state, timestamp);
+    emit('service-state', {
+      channelId,
+      service,
+      state: readServiceState(channel, service),
+      previousStatus: previous.status,
+      timestamp,
+    });
+  }
+
+  function readServiceState(channel: SimulatedChannel, service: ServiceType): ServiceState {
+    const state = channel.services[service];
+    if (state.status !== 'running') return { ...state };
+    return {
+      ...state,
+      uptime: formatUptime(state.lastStartTime),
+      memory: (state.memory ?? 40) + Math.round((Math.random() - 0.5) * 4),
+    };
+  }
+
+  // Config mistakes that make the real service exit right after starting
+  function startupError(channel: SimulatedChannel, service: ServiceType): string | null {
+    const { channelId, rx, rec, rtmp } = channel.config;
+    if (service === 'rx' && rx.srt.mode === 'listener') {
+      const port = rx.srt.listenPort ?? 5000 + channelId;
+      const clash = [...channels.values()].find(other =>
+        other !== channel
+        && other.config.rx.srt.mode === 'listener'
+        && (other.config.rx.srt.listenPort ?? 5000 + other.config.channelId) === port
+        && other.services.rx.status === 'running');
+      if (clash) return `srt: bind :${port} failed: Address already in use`;
+    }
+    if (service === 'rec' && rec.recordEnabled && !rec.recordPath.startsWith('/srv/')) {
+      return `Cannot open ${rec.recordPath}: Permission denied`;
+    }
+    if (service === 'rtmp' && rtmp.rtmpEnabled && !rtmp.rtmpUrl?.startsWith('rtmp')) {
+      return `rtmp: invalid output URL '${rtmp.rtmpUrl ?? ''}'`;
+    }
+    return null;
+  }
+
+  // Run fn after delayMs unless the service has transitioned again meanwhile
+  function scheduleTransition(channelId: number, service: ServiceType, delayMs: number, fn: () => void) {
+    const generation = channels.get(channelId)?.generations[service];
+    schedule(delayMs, () => {
+      if (channels.get(channelId)?.generations[service] === generation) fn();
+    });
+  }
+
+  function startService(channelId: number, service: ServiceType) {
+    const channel = channels.get(channelId);
+    if (!channel) return;
+    const status = channel.services[service].status;
+    if (status === 'running' || status === 'starting') return;
+
+    channel.applied = { ...channel.applied, [service]: structuredClone(channel.config[service]) };
+    setServiceState(channelId, service, { status: 'starting', subState: 'start', error: undefined });
+    scheduleTransition(channelId, service, START_DELAY_MS, () => {
+      const failure = startupError(channel, service);
+      if (failure) {
+        log(channel, service, 'error', failure);
+        crashService(channelId, service, 1, false);
+        return;
+      }
+      setServiceState(channelId, service, {
+        status: 'running',
+        subState: 'running',
+        pid: 10000 + Math.floor(Math.random() * 50000),
+        memory: 30 + Math.floor(Math.random() * 60),
+        lastStartTime: new Date().toISOString(),
+      });
+      log(channel, service, 'info', `Started ${SERVICE_LABELS[service]} for channel ${channelId}.`);
+      if (service === 'rx') {
+        const srt = channel.config.rx.srt;
+        log(channel, service, 'info', srt.mode === 'caller'
+          ? `srt: connecting to ${srt.targetHost}:${srt.targetPort}`
+          : `srt: listening on :${srt.listenPort ?? 5000 + channelId}`);
+      }
+    });
+  }
+
+  function stopService(channelId: number, service: ServiceType, then?: () => void) {
+    const channel = channels.get(channelId);
+    if (!channel) return;
+    if (channel.services[service].status === 'stopped') {
+      then?.();
+      return;
+    }
+
+    setServiceState(channelId, service, { status: 'stopping', subState: 'stop-sigterm' });
+    scheduleTransition(channelId, service, STOP_DELAY_MS, () => {
+      setServiceState(channelId, service, { status: 'stopped', subState: 'dead', pid: null, memory: null, uptime: null });
+      log(channel, service, 'info', `Stopped ${SERVICE_LABELS[service]} for channel ${channelId}.`);
+      then?.();
+    });
+  }
+
+  function restartService(channelId: number, service: ServiceType) {
+    stopService(channelId, service, () => startService(channelId, service));
+  }
+
+  function crashService(channelId: number, service: ServiceType, exitCode: number, autoRestart: boolean) {
+    const channel = channels.get(channelId);
+    if (!channel) return;
+    const message = `Main process exited, code=exited, status=${exitCode}/FAILURE`;
+    log(channel, service, 'error', message);
+    log(channel, service, 'error', `${service}${channelId}.service: Failed with result 'exit-code'.`);
+    setServiceState(channelId, service, {
+      status: 'error',
+      subState: autoRestart ? 'auto-restart' : 'failed',
+      pid: null,
+      memory: null,
+      uptime: null,
+      error: message,
+      lastExitCode: exitCode,
+      lastFailureTime: new Date().toISOString(),
+    });
+    if (autoRestart) {
+      scheduleTransition(channelId, service, RESTART_DELAY_MS, () => {
+        log(channel, service, 'warn', `${service}${channelId}.service: Scheduled restart job, restart counter is at 1.`);
+        serviceEvents.expectRestart(channelId, service);
+        startService(channelId, service);
+      });
+    }
+  }
+
+  // -- scenario playback -----------------------------------------------------
+
+  function runStep(step: ScenarioStep) {
+    if (step.action === 'power-off' || step.action === 'power-on') {
+      simulatedIlo.setPower(step.action === 'power-on');
+      return;
+    }
+
+    const channel = channels.get(step.channelId);
+    if (!channel) return;
+
+    switch (step.action) {
+      case 'input-loss':
+        channel.inputLost = true;
+        log(channel, 'rx', 'warn', 'srt: connection lost, no data received (timeout)');
+        if (step.duration) schedule(step.duration * 1000, () => runStep({ at: step.at, action: 'input-restore', channelId: step.channelId }));
+        break;
+      case 'input-restore':
+        if (!channel.inputLost) break;
+        channel.inputLost = false;
+        log(channel, 'rx', 'info', 'srt: connection established, receiving data');
+        break;
+      case 'service-crash':
+        crashService(step.channelId, step.service, step.exitCode ?? 1, step.autoRestart ?? false);
+        break;
+      case 'service-start':
+        startService(step.channelId, step.service);
+        break;
+      case 'service-stop':
+        stopService(step.channelId, step.service);
+        break;
+      case 'bitrate-drop':
+        channel.bitrateFactor = step.factor;
+        log(channel, 'rx', 'warn', `Input bitrate dropped to ${Math.round(step.factor * 100)}% of nominal`);
+        if (step.duration) {
+          schedule(step.duration * 1000, () => {
+            channel.bitrateFactor = 1;
+            log(channel, 'rx', 'info', 'Input bitrate back to nominal');
+          });
+        }
+        break;
+      case 'cc-errors':
+        channel.discontinuities += step.count;
+        log(channel, 'rx', 'warn', `TS continuity errors on PID 257: ${step.count}`);
+        break;
+      case 'pid-loss':
+        if (channel.missingPids.includes(step.pid)) break;
+        channel.missingPids = [...channel.missingPids, step.pid];
+        log(channel, 'rx', 'warn', `PID ${step.pid} no longer present in the stream`);
+        if (step.duration) {
+          schedule(step.duration * 1000, () => {
+            channel.missingPids = channel.missingPids.filter(pid => pid !== step.pid);
+            log(channel, 'rx', 'info', `PID ${step.pid} back in the stream`);
+          });
+        }
+        break;
+      case 'pcr-jitter':
+        channel.pcrJitter = true;
+        log(channel, 'rx', 'warn', 'PCR jitter beyond ±500 ns on PID 257');
+        if (step.duration) {
+          schedule(step.duration * 1000, () => {
+            channel.pcrJitter = false;
+            log(channel, 'rx', 'info', 'PCR accuracy back within limits');
+          });
+        }
+        break;
+    }
+  }
+
+  // Play every step due between the last call and now, looping if configured
+  function playSteps(untilMs: number) {
+    const steps = [...scenario.steps].sort((a, b) => a.at - b.at);
+    const loopMs = scenario.loopSeconds ? scenario.loopSeconds * 1000 : Infinity;
+
+    while (playedMs < untilMs) {
+      const cycleStart = Number.isFinite(loopMs) ? Math.floor(playedMs / loopMs) * loopMs : 0;
+      const windowEnd = Math.min(untilMs, cycleStart + loopMs);
+      for (const step of steps) {
+        const stepMs = cycleStart + step.at * 1000;
+        if (stepMs >= playedMs && stepMs < windowEnd) runStep(step);
+      }
+      playedMs = windowEnd;
+    }
+  }
+
+  function runPending() {
+    const now = Date.now();
+    // Actions may schedule further actions, so loop until nothing is due
+    for (;;) {
+      const due = pending.filter(action => action.due <= now).sort((a, b) => a.due - b.due);
+      if (due.length === 0) return;
+      pending = pending.filter(action => action.due > now);
+      due.forEach(action => action.run());
+    }
+  }
+
+  function advance() {
+    if (disposed) return;
+    playSteps(Date.now() - startedAt + 1);
+    runPending();
+  }
+
+  // -- analysis ----------------------------------------------------------------
+
+  function isStreaming(channel: SimulatedChannel): boolean {
+    return channel.services.rx.status === 'running' && !channel.inputLost && channel.bitrateFactor > 0;
+  }
+
+  function currentBitrate(channel: SimulatedChannel): number {
+    const jitter = 1 + (Math.random() - 0.5) * 0.06;
+    return Math.round(baseBitrate(channel.config.channelId) * channel.bitrateFactor * jitter);
+  }
+
+  function getChannelAnalysis(channel: SimulatedChannel): ChannelAnalysis {
+    const channelId = channel.config.channelId;
+    const timestamp = new Date().toISOString();
+    if (!isStreaming(channel)) return { channelId, available: false, timestamp };
+    const total = currentBitrate(channel);
+    return { channelId, available: true, timestamp, bitrate: { total, totalMbps: (total / 1_000_000).toFixed(2) } };
+  }
+
+  function getStreamAnalysis(channel: SimulatedChannel): StreamAnalysis {
+    const channelId = channel.config.channelId;
+    const timestamp = new Date().toISOString();
+    if (channel.services.rx.status !== 'running') {
+      return { available: false, error: 'Stream not available', timestamp };
+    }
+    if (!isStreaming(channel)) {
+      return { available: false, error: 'No stream data (timeout)', timestamp };
+    }
+
+    const total = currentBitrate(channel);
+    return {
+      available: true,
+      timestamp,
+      bitrate: { total, totalMbps: (total / 1_000_000).toFixed(2) },
+      pids: [
+        pidEntry(0, 'PAT', 15000, total),
+        pidEntry(17, 'SDT', 3000, total),
+        pidEntry(256, 'PMT', 15000, total),
+        pidEntry(257, 'Video (HEVC)', total * 0.85, total, channel.discontinuities),
+        pidEntry(258, 'Audio (AAC)', total * 0.08, total),
+        pidEntry(259, 'Audio (AC3)', total * 0.05, total),
+      ].filter(pid => !channel.missingPids.includes(pid.pid)),
+      services: [
+        { id: 1, name: `Channel ${channelId} HD`, provider: 'BratesHUB', type: 'Digital TV', pmtPid: 256, pcrPid: 257 },
+      ],
+      packets: Math.round(total / 188),
+      invalid: 0,
+      suspectIgnored: 0,
+    };
+  }
+
+  // TR 101 290 measurements of one run, from the same state as the PID table
+  function measureTr101290(channel: SimulatedChannel, ccErrors: number): Tr101290Measurements {
+    const jitterErrors = channel.pcrJitter ? 3 + Math.floor(Math.random() * 8) : 0;
+    return {
+      syncLosses: 0,
+      transportErrors: 0,
+      ccErrors,
+      pat: { present: !channel.missingPids.includes(0), maxIntervalMs: 100, scrambled: false },
+      pmts: [{ pid: 256, present: !channel.missingPids.includes(256), maxIntervalMs: 100, scrambled: false }],
+      missingPids: [257, 258, 259].filter(pid => channel.missingPids.includes(pid)),
+      pcr: {
+        maxIntervalMs: 38,
+        discontinuities: 0,
+        jitterErrors,
+        maxJitterNs: jitterErrors > 0 ? 600 + Math.floor(Math.random() * 1400) : 120,
+      },
+      pts: { maxIntervalMs: 40 },
+    };
+  }
+
+  // -- live stream -------------------------------------------------------------
+
+  function tick() {
+    advance();
+    const now = Date.now();
+    if (now - lastBitrateAt >= BITRATE_INTERVAL_MS) {
+      lastBitrateAt = now;
+      channels.forEach(channel => {
+        const analysis = getChannelAnalysis(channel);
+        bitrateRecorder.addSample(analysis.channelId, analysis.timestamp ?? new Date().toISOString(), analysis.bitrate?.total ?? null);
+        emit('bitrate', { ...analysis, timestamp: analysis.timestamp ?? new Date().toISOString() });
+      });
+    }
+    if (now - lastPidsAt >= PID_INTERVAL_MS) {
+      lastPidsAt = now;
+      channels.forEach((channel, channelId) => {
+        if (channel.services.rx.status !== 'running') return;
+        // tsanalyze reports the errors of its own run, not a running total
+        const newErrors = channel.discontinuities - channel.ccReported;
+        channel.ccReported = channel.discontinuities;
+        const analysis = getStreamAnalysis(channel);
+        const pids = analysis.pids?.map(pid => (pid.discontinuities > 0 ? { ...pid, discontinuities: newErrors } : pid));
+        pidRecorder.addRun(channelId, analysis.timestamp, analysis.available, pids);
+        tr101290Monitor.addRun(channelId, analysis.timestamp, analysis.available ? measureTr101290(channel, newErrors) : undefined);
+      });
+    }
+    if (now - lastAlertsAt >= ALERT_INTERVAL_MS) {
+      lastAlertsAt = now;
+      alertEngine.evaluate();
+    }
+    if (now - lastHeartbeatAt >= HEARTBEAT_INTERVAL_MS) {
+      lastHeartbeatAt = now;
+      emit('heartbeat', { clients: liveHandlers.size, timestamp: new Date().toISOString() });
+    }
+  }
+
+  function sendSnapshot(handlers: LiveHandlers) {
+    const services: LiveEventMap['snapshot']['services'] = [];
+    const bitrates: LiveEventMap['snapshot']['bitrates'] = [];
+    channels.forEach((channel, channelId) => {
+      for (const service of SERVICES) {
+        services.push({ channelId, service, state: readServiceState(channel, service) });
+      }
+      const analysis = getChannelAnalysis(channel);
+      bitrates.push({ ...analysis, timestamp: analysis.timestamp ?? new Date().toISOString() });
+    });
+    handlers.onEvent('snapshot', { services, bitrates, timestamp: new Date().toISOString() });
+  }
+
+  function closeLiveStream() {
+    if (tickTimer) {
+      clearInterval(tickTimer);
+      tickTimer = null;
+    }
+    const handlers = [...liveHandlers];
+    liveHandlers.clear();
+    handlers.forEach(h => h.onClose());
+  }
+
+  // -- power -------------------------------------------------------------------
+
+  // Services that were running when the host went down come back on boot,
+  // like enabled systemd units
+  let runningBeforePowerOff: Array<[number, ServiceType]> = [];
+
+  const unsubscribePower = simulatedIlo.onPowerChange(on => {
+    if (!on) {
+      runningBeforePowerOff = [];
+      pending = [];
+      channels.forEach((channel, channelId) => {
+        for (const service of SERVICES) {
+          const status = channel.services[service].status;
+          if (status === 'running' || status === 'starting') runningBeforePowerOff.push([channelId, service]);
+          channel.services[service] = { ...channel.services[service], status: 'stopped', subState: 'dead', pid: null, memory: null, uptime: null };
+          channel.generations[service]++;
+        }
+      });
+      closeLiveStream();
+      return;
+    }
+    runningBeforePowerOff.forEach(([channelId, service]) => startService(channelId, service));
+    runningBeforePowerOff = [];
+  });
+
+  // -- seed --------------------------------------------------------------------
+
+  for (const id of scenario.channels) {
+    addChannel(buildDefaultChannelConfig(settings, id));
+    if (scenario.running.includes('rx')) bitrateRecorder.setBackfill(id, baseBitrate(id));
+    for (const service of scenario.running) {
+      const channel = channels.get(id)!;
+      channel.services[service] = {
+        ...channel.services[service],
+        status: 'running',
+        subState: 'running',
+        pid: 10000 + Math.floor(Math.random() * 50000),
+        memory: 30 + Math.floor(Math.random() * 60),
+        lastStartTime: new Date(Date.now() - Math.random() * 3 * 86_400_000).toISOString(),
+      };
+      serviceEvents.transition(id, service, 'stopped', channel.services[service], channel.services[service].lastStartTime, 'external');
+      log(channel, service, 'info', `Started ${SERVICE_LABELS[service]} for channel ${id}.`);
+    }
+  }
+
+  // -- config apply --------------------------------------------------------------
+
+  const applying = new Set<number>();
+
+  async function waitUntil(deadline: number, check: () => boolean | string): Promise<void> {
+    for (;;) {
+      advance();
+      const result = check();
+      if (result === true) return;
+      if (typeof result === 'string') throw new Error(result);
+      if (Date.now() >= deadline) throw new Error('Timed out');
+      await delay(APPLY_POLL_MS);
+    }
+  }
+
+  async function waitForRunning(channelId: number, service: ServiceType, deadline: number) {
+    let runningSince: number | null = null;
+    await waitUntil(deadline, () => {
+      const state = channels.get(channelId)?.services[service];
+      if (!state) return 'Channel was deleted';
+      if (state.status === 'error') return `${service} is error (${state.subState})`;
+      if (state.status !== 'running') {
+        runningSince = null;
+        return false;
+      }
+      runningSince = runningSince ?? Date.now();
+      return Date.now() - runningSince >= APPLY_SETTLE_MS;
+    }).catch((error: Error) => {
+      throw new Error(error.message === 'Timed out' ? `${service} did not reach running in time` : error.message);
+    });
+  }
+
+  async function waitForStopped(channelId: number, service: ServiceType, deadline: number) {
+    await waitUntil(deadline, () => {
+      const state = channels.get(channelId)?.services[service];
+      if (!state) return 'Channel was deleted';
+      return state.status === 'stopped';
+    }).catch((error: Error) => {
+      throw new Error(error.message === 'Timed out' ? `${service} did not stop in time` : error.message);
+    });
+  }
+
+  // Like the backend: disabled recording and RTMP services are stopped by an apply, not restarted
+  function isServiceEnabled(config: ChannelConfig, service: ServiceType): boolean {
+    if (service === 'rec') return config.rec.recordEnabled;
+    if (service === 'rtmp') return config.rtmp.rtmpEnabled;
+    return true;
+  }
+
+  async function runApply(channelId: number, nextConfig: ChannelConfig, services: ServiceType[], options: ApplyOptions): Promise<ApplyResult> {
+    const applyId = options.applyId ?? `${channelId}-${Date.now()}`;
+    const timeoutMs = (options.timeoutSec ?? 20) * 1000;
+    const verifyStream = !!options.verifyStream && services.includes('rx');
+    const steps: ApplyStep[] = [];
+    let outcome: ApplyOutcome | null = null;
+    let failure: string | undefined;
+    let snapshot: ChannelConfig | null = null;
+
+    const publish = () => emit('config-apply', {
+      applyId,
+      channelId,
+      steps: steps.map(step => ({ ...step })),
+      outcome,
+      error: failure,
+      timestamp: new Date().toISOString(),
+    });
+
+    const step = async (key: string, label: string, fn: () => void | Promise<void>) => {
+      const entry: ApplyStep = { key, label, status: 'running' };
+      steps.push(entry);
+      publish();
+      try {
+        await fn();
+        entry.status = 'done';
+      } catch (error) {
+        entry.status = 'failed';
+        entry.detail = (error as Error).message;
+        throw error;
+      } finally {
+        publish();
+      }
+    };
+
+    const runPhase = async (prefix: string, phaseConfig: ChannelConfig, label: string) => {
+      await step(`${prefix}save`, `${label} config`, () => {
+        const channel = channels.get(channelId);
+        if (!channel) throw new Error(`Channel ${channelId} not found`);
+        channel.config = { ...phaseConfig, channelId };
+        writeEnv(channel);
+        // Fields no service reads count as applied once saved through an apply
+        channel.applied = {
+          ...channel.applied,
+          name: phaseConfig.name,
+          extraArgs: phaseConfig.extraArgs,
+          tags: phaseConfig.tags,
+          group: phaseConfig.group,
+        };
+      });
+      for (const service of services) {
+        if (isServiceEnabled(phaseConfig, service)) {
+          await step(`${prefix}restart-${service}`, `Restart ${service.toUpperCase()}`, () => {
+            serviceEvents.action(channelId, service, 'restart', 'apply');
+            restartService(channelId, service);
+          });
+        } else {
+          await step(`${prefix}stop-${service}`, `Stop ${service.toUpperCase()}`, () => {
+            serviceEvents.action(channelId, service, 'stop', 'apply');
+            stopService(channelId, service);
+          });
+        }
+      }
+      const deadline = Date.now() + timeoutMs;
+      const results = await Promise.allSettled(services.map(service => (isServiceEnabled(phaseConfig, service)
+        ? step(`${prefix}verify-${service}`, `${service.toUpperCase()} running`, () => waitForRunning(channelId, service, deadline))
+        : step(`${prefix}verify-${service}`, `${service.toUpperCase()} stopped`, () => waitForStopped(channelId, service, deadline)))));
+      const failed = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+      if (failed) throw failed.reason;
+      if (verifyStream) {
+        await step(`${prefix}verify-stream`, 'Stream data', () =>
+          waitUntil(deadline, () => {
+            const channel = channels.get(channelId);
+            return !!channel && isStreaming(channel);
+          }).catch(() => {
+            throw new Error('No stream data within the timeout');
+          }));
+      }
+    };
+
+    applying.add(channelId);
+    try {
+      await step('snapshot', 'Snapshot current config', () => {
+        snapshot = structuredClone(channels.get(channelId)!.config);
+      });
+      try {
+        await runPhase('', nextConfig, 'Save new');
+        outcome = 'applied';
+        const channel = channels.get(channelId);
+        if (channel) recordVersion(channel, 'apply', options.change);
+      } catch (error) {
+        failure = (error as Error).message;
+        try {
+          await runPhase('rollback-', snapshot!, 'Restore previous');
+          outcome = 'rolled-back';
+        } catch {
+          outcome = 'rollback-failed';
+        }
+      }
+    } finally {
+      applying.delete(channelId);
+    }
+
+    publish();
+    emit('channels-changed', { reason: 'updated', channelId, timestamp: new Date().toISOString() });
+    return { applyId, channelId, outcome: outcome ?? 'rollback-failed', steps, error: failure };
+  }
+
+  // -- API ---------------------------------------------------------------------
+
+  // Every call sees the simulated network latency and the current scenario time
+  async function respond<T>(handler: () => ApiResponse<T>, requestOptions?: RequestOptions): Promise<ApiResponse<T>> {
+    await delay(LATENCY_MS);
+    if (requestOptions?.signal?.aborted) {
+      return { success: false, error: 'Request cancelled', errorKind: 'aborted' };
+    }
+    advance();
+    if (!simulatedIlo.isPoweredOn()) {
+      return { success: false, error: 'Simulated host is powered off', errorKind: 'network' };
+    }
+    const response = handler();
+    // Hand out copies so callers can't mutate simulator state
+    return response.data === undefined ? response : { ...response, data: structuredClone(response.data) };
+  }
+
+  const notFound = (id: number): ApiResponse<never> => ({ success: false, error: `Channel ${id} not found`, errorKind: 'http', status: 404 });
+  const applyInProgress = (id: number): ApiResponse<never> => ({ success: false, error: `An apply is in progress for channel ${id}`, errorKind: 'http', status: 409 });
+  const alertNotFound = (id: string): ApiResponse<never> => ({ success: false, error: `No open alert ${id}`, errorKind: 'http', status: 404 });
+  const ruleNotFound = (id: string): ApiResponse<never> => ({ success: false, error: `Alert rule ${id} not found`, errorKind: 'http', status: 404 });
+  const invalidRule = (errors: string[] = []): ApiResponse<never> => ({ success: false, error: errors.join('; '), errorKind: 'http', status: 400 });
+  const destinationNotFound = (id: string): ApiResponse<never> => ({ success: false, error: `Notification destination ${id} not found`, errorKind: 'http', status: 404 });
+  const invalidDestination = (errors: string[] = []): ApiResponse<never> => ({ success: false, error: errors.join('; '), errorKind: 'http', status: 400 });
+
+  function toChannel(channel: SimulatedChannel): Channel {
+    const id = channel.config.channelId;
+    const srt = channel.config.rx.srt;
+    return {
+      id,
+      name: channel.config.name,
+      rx: readServiceState(channel, 'rx'),
+      rec: readServiceState(channel, 'rec'),
+      rtmp: readServiceState(channel, 'rtmp'),
+      config: channel.config,
+      ingestSummary: srt.mode === 'caller' ? `SRT→${srt.targetHost}:${srt.targetPort}` : `SRT←:${srt.listenPort || 5000 + id}`,
+      outputSummary: channel.config.rtmp.rtmpEnabled
+        ? (channel.config.rtmp.rtmpUrl || 'RTMP').split('/').slice(-1)[0]
+        : 'No output',
+    };
+  }
+
+  // An operator's start/stop/restart through the API
+  function controlService(channelId: number, service: ServiceType, action: 'start' | 'stop' | 'restart') {
+    serviceEvents.action(channelId, service, action);
+    if (action === 'start') startService(channelId, service);
+    else if (action === 'stop') stopService(channelId, service);
+    else restartService(channelId, service);
+  }
+
+  function auditServiceAction(channelId: number, service: ServiceType, action: 'start' | 'stop' | 'restart') {
+    auditLog.record({ action: `service.${action}`, channelId, service, summary: `${service.toUpperCase()} ${action} on channel ${channelId}` });
+  }
+
+  const api: BackendClient = {
+    getChannels(requestOptions) {
+      return respond(() => ({ success: true, data: [...channels.values()].map(toChannel) }), requestOptions);
+    },
+
+    getChannel(id, requestOptions) {
+      return respond(() => {
+        const channel = channels.get(id);
+        return channel ? { success: true, data: toChannel(channel) } : notFound(id);
+      }, requestOptions);
+    },
+
+    createChannel(channelId, name, config) {
+      return respond(() => {
+        if (channels.has(channelId)) {
+          return { success: false, error: `Channel ${channelId} already exists`, errorKind: 'http', status: 409 };
+        }
+        const newChannel = buildDefaultChannelConfig(settings, channelId, name);
+        if (config?.rx) newChannel.rx = { ...newChannel.rx, ...config.rx, srt: { ...newChannel.rx.srt, ...config.rx.srt } };
+        if (config?.rec) newChannel.rec = { ...newChannel.rec, ...config.rec };
+        if (config?.rtmp) newChannel.rtmp = { ...newChannel.rtmp, ...config.rtmp };
+        if (typeof config?.extraArgs === 'string') newChannel.extraArgs = config.extraArgs;
+        if (Array.isArray(config?.tags)) newChannel.tags = config.tags;
+        if (typeof config?.group === 'string') newChannel.group = config.group;
+        addChannel(newChannel, 'create');
+        auditLog.record({
+          action: 'channel.create',
+          channelId,
+          summary: `Created channel ${channelId}${name ? ` (${name})` : ''}`,
+          after: newChannel,
+        });
+        emit('channels-changed', { reason: 'created', channelId, timestamp: new Date().toISOString() });
+        return { success: true, data: newChannel };
+      });
+    },
+
+    updateChannel(id, updates) {
+      return respond(() => {
+        const channel = channels.get(id);
+        if (!channel) return notFound(id);
+        if (applying.has(id)) return applyInProgress(id);
+        const previous = channel.config;
+        channel.config = { ...channel.config, ...updates, channelId: id };
+        writeEnv(channel);
+        recordVersion(channel, 'update');
+        auditLog.record({ action: 'channel.update', channelId: id, summary: `Updated channel ${id}`, before: previous, after: channel.config });
+        emit('channels-changed', { reason: 'updated', channelId: id, timestamp: new Date().toISOString() });
+        return { success: true, data: channel.config };
+      });
+    },
+
+    deleteChannel(id) {
+      return respond(() => {
+        const channel = channels.get(id);
+        if (!channel) return notFound(id);
+        if (applying.has(id)) return applyInProgress(id);
+        channels.delete(id);
+        bitrateRecorder.remove(id);
+        pidRecorder.remove(id);
+        tr101290Monitor.remove(id);
+        serviceEvents.remove(id);
+        auditLog.record({
+          action: 'channel.delete',
+          channelId: id,
+          summary: `Deleted channel ${id}${channel.config.name ? ` (${channel.config.name})` : ''}`,
+          before: channel.config,
+        });
+        emit('channels-changed', { reason: 'deleted', channelId: id, timestamp: new Date().toISOString() });
+        return { success: true };
+      });
+    },
+
+    getLogs(channelId, service, lines = 50, requestOptions) {
+      return respond(() => {
+        const channel = channels.get(channelId);
+        return channel ? { success: true, data: channel.logs[service].slice(-lines) } : notFound(channelId);
+      }, requestOptions);
+    },
+
+    startService(channelId, service) {
+      return respond(() => {
+        if (!channels.has(channelId)) return notFound(channelId);
+        controlService(channelId, service, 'start');
+        auditServiceAction(channelId, service, 'start');
+        return { success: true };
+      });
+    },
+
+    stopService(channelId, service) {
+      return respond(() => {
+        if (!channels.has(channelId)) return notFound(channelId);
+        controlService(channelId, service, 'stop');
+        auditServiceAction(channelId, service, 'stop');
+        return { success: true };
+      });
+    },
+
+    restartService(channelId, service) {
+      return respond(() => {
+        if (!channels.has(channelId)) return notFound(channelId);
+        controlService(channelId, service, 'restart');
+        auditServiceAction(channelId, service, 'restart');
+        return { success: true };
+      });
+    },
+
+    bulkOperation(service, action, channelIds) {
+      return respond(() => {
+        const ids = channelIds ?? [...channels.keys()];
+        const known = ids.filter(id => channels.has(id));
+        known.forEach(id => controlService(id, service, action));
+        const failed = ids.length - known.length;
+        auditLog.record({
+          action: 'service.bulk',
+          service,
+          summary: `${service.toUpperCase()} ${action} on ${ids.length} channels (${known.length} succeeded, ${failed} failed)`,
+          outcome: failed === 0 ? 'success' : 'failure',
+          details: { action, channelIds: ids, failedChannelIds: ids.filter(id => !channels.has(id)) },
+        });
+        return { success: true };
+      });
+    },
+
+    getServiceEvents(filters, requestOptions) {
+      return respond(() => ({ success: true, data: serviceEvents.query(filters) }), requestOptions);
+    },
+
+    getConfig(channelId, requestOptions) {
+      return respond(() => {
+        const channel = channels.get(channelId);
+        return channel ? { success: true, data: channel.config } : notFound(channelId);
+      }, requestOptions);
+    },
+
+    saveConfig(channelId, config, change) {
+      return respond(() => {
+        const channel = channels.get(channelId);
+        if (!channel) return notFound(channelId);
+        if (applying.has(channelId)) return applyInProgress(channelId);
+        const previous = channel.config;
+        channel.config = { ...config, channelId };
+        writeEnv(channel);
+        recordVersion(channel, 'save', change);
+        auditLog.record({ action: 'config.save', channelId, summary: `Saved config of channel ${channelId}`, before: previous, after: channel.config });
+        emit('channels-changed', { reason: 'updated', channelId, timestamp: new Date().toISOString() });
+        return { success: true };
+      });
+    },
+
+    getConfigHistory(channelId, requestOptions) {
+      return respond(() => {
+        const channel = channels.get(channelId);
+        return channel ? { success: true, data: [...channel.history].reverse() } : notFound(channelId);
+      }, requestOptions);
+    },
+
+    getAppliedConfig(channelId, requestOptions) {
+      return respond(() => {
+        const channel = channels.get(channelId);
+        return channel ? { success: true, data: channel.applied } : notFound(channelId);
+      }, requestOptions);
+    },
+
+    getChannelEnv(channelId, requestOptions) {
+      return respond<ChannelEnv>(() => {
+        const channel = channels.get(channelId);
+        if (!channel) return notFound(channelId);
+        return {
+          success: true,
+          data: {
+            path: `/opt/brateshub/configs/channel${channelId}.env`,
+            content: renderChannelEnv(channel.config, { maskSecrets: true }),
+            exists: true,
+            inSync: channel.envFile.content === renderChannelEnv(channel.config),
+            modifiedAt: channel.envFile.modifiedAt,
+          },
+        };
+      }, requestOptions);
+    },
+
+    // Same transaction as POST /api/channels/:id/apply, including config-apply events
+    async applyConfig(channelId, config, restartServices, options = {}) {
+      const check = await respond(() => {
+        if (!channels.has(channelId)) return notFound(channelId);
+        if (applying.has(channelId)) {
+          return { success: false, error: `An apply is already in progress for channel ${channelId}`, errorKind: 'http', status: 409 };
+        }
+        return { success: true };
+      });
+      if (!check.success) return check;
+      const previous = channels.get(channelId)?.config;
+      const result = await runApply(channelId, config, restartServices, options);
+      auditLog.record({
+        action: 'config.apply',
+        channelId,
+        summary: `Applied config to channel ${channelId}, restarting ${restartServices.join(', ') || 'no services'}: ${result.outcome}`,
+        outcome: result.outcome === 'applied' ? 'success' : 'failure',
+        error: result.error,
+        details: { services: restartServices, outcome: result.outcome },
+        before: previous,
+        after: { ...config, channelId },
+      });
+      return { success: true, data: result };
+    },
+
+    getSettings(requestOptions) {
+      return respond(() => ({ success: true, data: settings }), requestOptions);
+    },
+
+    saveSettings(next) {
+      return respond(() => {
+        auditLog.record({ action: 'settings.update', summary: 'Updated the global channel defaults', before: settings, after: next });
+        settings = structuredClone(next);
+        emit('settings-changed', { timestamp: new Date().toISOString() });
+        return { success: true, data: settings };
+      });
+    },
+
+    getStreamAnalyses(channelIds, requestOptions) {
+      return respond(() => ({
+        success: true,
+        data: channelIds.map(id => {
+          const channel = channels.get(id);
+          return channel
+            ? getChannelAnalysis(channel)
+            : { channelId: id, available: false, timestamp: new Date().toISOString(), error: `Channel ${id} not found` };
+        }),
+      }), requestOptions);
+    },
+
+    getStreamAnalysis(channelId, requestOptions) {
+      return respond(() => {
+        const channel = channels.get(channelId);
+        return channel ? { success: true, data: getStreamAnalysis(channel) } : notFound(channelId);
+      }, requestOptions);
+    },
+
+    getBitrateHistory(channelId, window, requestOptions) {
+      return respond<BitrateHistory>(() => {
+        if (!channels.has(channelId)) return notFound(channelId);
+        return { success: true, data: bitrateRecorder.query(channelId, window.from, window.to, window.maxPoints) };
+      }, requestOptions);
+    },
+
+    getAlerts(requestOptions) {
+      return respond<Alert[]>(() => ({ success: true, data: alertEngine.list() }), requestOptions);
+    },
+
+    acknowledgeAlert(id) {
+      return respond<Alert>(() => {
+        const alert = alertEngine.acknowledge(id);
+        return alert ? { success: true, data: alert } : alertNotFound(id);
+      });
+    },
+
+    silenceAlert(id, durationMinutes) {
+      return respond<Alert>(() => {
+        const alert = alertEngine.silence(id, durationMinutes);
+        return alert ? { success: true, data: alert } : alertNotFound(id);
+      });
+    },
+
+    getAlertRules(requestOptions) {
+      return respond<AlertRule[]>(() => ({ success: true, data: alertEngine.getRules() }), requestOptions);
+    },
+
+    createAlertRule(input) {
+      return respond<AlertRule>(() => {
+        const { rule, errors } = alertEngine.createRule(input);
+        return rule ? { success: true, data: rule } : invalidRule(errors);
+      });
+    },
+
+    updateAlertRule(id, updates) {
+      return respond<AlertRule>(() => {
+        const result = alertEngine.updateRule(id, updates);
+        if (!result) return ruleNotFound(id);
+        return result.rule ? { success: true, data: result.rule } : invalidRule(result.errors);
+      });
+    },
+
+    deleteAlertRule(id) {
+      return respond(() => (alertEngine.deleteRule(id) ? { success: true } : ruleNotFound(id)));
+    },
+
+    getNotificationDestinations(requestOptions) {
+      return respond<NotificationDestination[]>(() => ({ success: true, data: notificationOutbox.list() }), requestOptions);
+    },
+
+    createNotificationDestination(input) {
+      return respond<NotificationDestination>(() => {
+        const { destination, errors } = notificationOutbox.create(input);
+        return destination ? { success: true, data: destination } : invalidDestination(errors);
+      });
+    },
+
+    updateNotificationDestination(id, updates) {
+      return respond<NotificationDestination>(() => {
+        const result = notificationOutbox.update(id, updates);
+        if (!result) return destinationNotFound(id);
+        return result.destination ? { success: true, data: result.destination } : invalidDestination(result.errors);
+      });
+    },
+
+    deleteNotificationDestination(id) {
+      return respond(() => (notificationOutbox.remove(id) ? { success: true } : destinationNotFound(id)));
+    },
+
+    testNotificationDestination(id) {
+      return respond<NotificationDelivery>(() => {
+        const delivery = notificationOutbox.test(id);
+        return delivery ? { success: true, data: delivery } : destinationNotFound(id);
+      });
+    },
+
+    getNotificationDeliveries(requestOptions) {
+      return respond<NotificationDelivery[]>(() => ({ success: true, data: notificationOutbox.deliveries() }), requestOptions);
+    },
+
+    getPidHistory(channelId, requestOptions) {
+      return respond<PidHistory>(() => {
+        if (!channels.has(channelId)) return notFound(channelId);
+        return { success: true, data: pidRecorder.query(channelId) };
+      }, requestOptions);
+    },
+
+    resetPidHistory(channelId, options) {
+      return respond<PidHistory>(() => {
+        if (!channels.has(channelId)) return notFound(channelId);
+        return { success: true, data: pidRecorder.reset(channelId, options) };
+      });
+    },
+
+    getTr101290(channelId, requestOptions) {
+      return respond<Tr101290Report>(() => {
+        if (!channels.has(channelId)) return notFound(channelId);
+        return { success: true, data: tr101290Monitor.query(channelId) };
+      }, requestOptions);
+    },
+
+    resetTr101290(channelId) {
+      return respond<Tr101290Report>(() => {
+        if (!channels.has(channelId)) return notFound(channelId);
+        return { success: true, data: tr101290Monitor.reset(channelId) };
+      });
+    },
+
+    getAuditLog(filters, requestOptions) {
+      return respond(() => ({ success: true, data: auditLog.query(filters) }), requestOptions);
+    },
+
+    logout() {
+      return respond(() => ({ success: true }));
+    },
+
+    // Like a backend without accounts: everyone acts as admin
+    getCurrentUser(requestOptions) {
+      return respond(() => ({
+        success: true,
+        data: { username: getChangeAuthor() || null, role: 'admin' as const, credential: null, authEnabled: false },
+      }), requestOptions);
+    },
+
+    getUsers(requestOptions) {
+      return respond(() => ({ success: true, data: userDirectory.list() }), requestOptions);
+    },
+
+    createUser(input) {
+      return respond(() => {
+        const result = userDirectory.create(input);
+        if (result.success) {
+          auditLog.record({
+            action: 'user.create',
+            summary: `Created user ${input.username} as ${input.role}`,
+            details: { username: input.username, role: input.role },
+          });
+        }
+        return result;
+      });
+    },
+
+    updateUser(id, updates) {
+      return respond(() => {
+        const result = userDirectory.update(id, updates);
+        if (result.success && result.data) {
+          auditLog.record({
+            action: 'user.update',
+            summary: `Updated user ${result.data.username}`,
+            details: { username: result.data.username, role: result.data.role, disabled: result.data.disabled, passwordReset: updates.password !== undefined },
+          });
+        }
+        return result;
+      });
+    },
+
+    deleteUser(id) {
+      return respond(() => {
+        const user = userDirectory.list().find(u => u.id === id);
+        const result = userDirectory.remove(id);
+        if (result.success && user) {
+          auditLog.record({ action: 'user.delete', summary: `Deleted user ${user.username}`, details: { username: user.username, role: user.role } });
+        }
+        return result;
+      });
+    },
+  };
+
+  return {
+    scenario,
+    api,
+
+    // Open a live event feed (the simulated /api/events); returns an unsubscribe function
+    subscribe(handlers: LiveHandlers): () => void {
+      if (disposed || !simulatedIlo.isPoweredOn()) {
+        // Like a refused connection: fail asynchronously
+        setTimeout(handlers.onClose, 0);
+        return () => {};
+      }
+      liveHandlers.add(handlers);
+      if (!tickTimer) tickTimer = setInterval(tick, TICK_MS);
+      setTimeout(() => {
+        if (!liveHandlers.has(handlers)) return;
+        advance();
+        handlers.onOpen();
+        sendSnapshot(handlers);
+      }, 0);
+
+      return () => {
+        liveHandlers.delete(handlers);
+        if (liveHandlers.size === 0 && tickTimer) {
+          clearInterval(tickTimer);
+          tickTimer = null;
+        }
+      };
+    },
+
+    dispose(): void {
+      disposed = true;
+      pending = [];
+      unsubscribePower();
+      closeLiveStream();
+    },
+  };
+}
+
+export type SimulatedBackend = ReturnType<typeof createSimulatedBackend>;
+
+const simulators = new Map<string, { key: string; simulator: SimulatedBackend }>();
+
+function scenarioKey(backendId: string): string {
+  const config = getBackendConfig(backendId);
+  return `${config.scenarioId ?? ''}\n${config.scenarioScript ?? ''}`;
+}
+
+// Simulator for a backend, recreated when its scenario changes
+export function getSimulator(backendId: string): SimulatedBackend {
+  const key = scenarioKey(backendId);
+  const entry = simulators.get(backendId);
+  if (entry && entry.key === key) return entry.simulator;
+
+  const config = getBackendConfig(backendId);
+  const simulator = createSimulatedBackend(getScenario(config.scenarioId, config.scenarioScript));
+  // Register before disposing: the old simulator's live subscribers reconnect from onClose
+  simulators.set(backendId, { key, simulator });
+  entry?.simulator.dispose();
+  return simulator;
+}
+
+// Start the backend's scenario over from t=0
+export function resetSimulator(backendId: string): void {
+  const entry = simulators.get(backendId);
+  simulators.delete(backendId);
+  entry?.simulator.dispose();
+}
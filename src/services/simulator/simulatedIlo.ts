@@ -0,0 +1,112 @@
+// Simulated HP iLO for the server hosting the simulated backends.
+// Used by iloApi when no iLO backend URL is set; powering off here also takes
+// every simulated backend down, so outages can be demoed end to end.
+
+import { IloStatus } from '@/types/ilo';
+
+type PowerListener = (on: boolean) => void;
+
+const BASE_STATUS: IloStatus = {
+  connected: true,
+  hostname: 'hp-server-ilo.local',
+  powerState: 'on',
+  health: 'ok',
+  model: 'ProLiant DL380 Gen10',
+  serialNumber: 'CZ12345678',
+  biosVersion: 'U30 v2.62',
+  iloVersion: 'iLO 5 v2.72',
+  temperatures: {
+    inlet: 24,
+    cpu1: 42,
+    cpu2: 45,
+  },
+  fans: [
+    { name: 'Fan 1', speed: 18, status: 'ok' },
+    { name: 'Fan 2', speed: 18, status: 'ok' },
+    { name: 'Fan 3', speed: 22, status: 'ok' },
+    { name: 'Fan 4', speed: 20, status: 'ok' },
+  ],
+  powerConsumption: 187,
+  uptime: '',
+  lastBootTime: '',
+};
+
+// Time between power on and the OS (and its services) being up
+const BOOT_DELAY_MS = 4000;
+
+const listeners = new Set<PowerListener>();
+let poweredOn = true;
+let bootTime = Date.now() - 14 * 24 * 60 * 60 * 1000;
+let bootTimer: ReturnType<typeof setTimeout> | null = null;
+
+function formatUptime(ms: number): string {
+  const days = Math.floor(ms / 86_400_000);
+  const hours = Math.floor((ms % 86_400_000) / 3_600_000);
+  const minutes = Math.floor((ms % 3_600_000) / 60_000);
+  return `${days}d ${hours}h ${minutes}m`;
+}
+
+const jitter = (value: number, spread: number) => Math.round(value + (Math.random() - 0.5) * spread);
+
+export const simulatedIlo = {
+  isPoweredOn(): boolean {
+    return poweredOn;
+  },
+
+  getStatus(): IloStatus {
+    if (!poweredOn) {
+      return {
+        ...BASE_STATUS,
+        powerState: 'off',
+        temperatures: { inlet: BASE_STATUS.temperatures.inlet, cpu1: 0, cpu2: 0 },
+        fans: BASE_STATUS.fans.map(fan => ({ ...fan, speed: 0 })),
+        powerConsumption: 12,
+        uptime: '0h 0m',
+        lastBootTime: new Date(bootTime).toISOString(),
+      };
+    }
+    return {
+      ...BASE_STATUS,
+      temperatures: {
+        inlet: jitter(BASE_STATUS.temperatures.inlet, 2),
+        cpu1: jitter(BASE_STATUS.temperatures.cpu1, 4),
+        cpu2: jitter(BASE_STATUS.temperatures.cpu2 ?? 45, 4),
+      },
+      powerConsumption: jitter(BASE_STATUS.powerConsumption, 20),
+      uptime: formatUptime(Date.now() - bootTime),
+      lastBootTime: new Date(bootTime).toISOString(),
+    };
+  },
+
+  // Power changes reach listeners once the host is down / has finished booting
+  setPower(on: boolean): void {
+    if (bootTimer) {
+      clearTimeout(bootTimer);
+      bootTimer = null;
+    }
+    if (!on) {
+      if (!poweredOn) return;
+      poweredOn = false;
+      listeners.forEach(listener => listener(false));
+      return;
+    }
+    if (poweredOn) return;
+    bootTimer = setTimeout(() => {
+      bootTimer = null;
+      poweredOn = true;
+      bootTime = Date.now();
+      listeners.forEach(listener => listener(true));
+    }, BOOT_DELAY_MS);
+  },
+
+  // Reset / power cycle: drop power, then boot again
+  cycle(): void {
+    simulatedIlo.setPower(false);
+    simulatedIlo.setPower(true);
+  },
+
+  onPowerChange(listener: PowerListener): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  },
+};
@@ -0,0 +1,222 @@
+// Simulated TR 101 290 monitoring, kept like the backend's tr101290Service:
+// priority 1 and 2 indicators evaluated on each periodic analysis run, with
+// error counters and the last occurrence of each since the last reset.
+
+import { Tr101290Report } from '@/types/stream';
+
+// Limits from TR 101 290
+const PSI_INTERVAL_MAX_MS = 500;
+const PCR_INTERVAL_MAX_MS = 40;
+const PTS_INTERVAL_MAX_MS = 700;
+
+interface PsiTable {
+  present: boolean;
+  maxIntervalMs: number | null;
+  scrambled: boolean;
+}
+
+// What one analysis run measured, like the backend's tsanalyzeService reports it
+export interface Tr101290Measurements {
+  syncLosses: number;
+  transportErrors: number;
+  ccErrors: number;
+  pat: PsiTable;
+  pmts: (PsiTable & { pid: number })[];
+  missingPids: number[];
+  pcr: { maxIntervalMs: number | null; discontinuities: number; jitterErrors: number; maxJitterNs: number } | null;
+  pts: { maxIntervalMs: number | null } | null;
+}
+
+type CheckResult = { errors: number; detail: string } | null;
+
+interface Indicator {
+  id: string;
+  priority: 1 | 2;
+  name: string;
+  description: string;
+  check: (m: Tr101290Measurements) => CheckResult;
+}
+
+const psiProblem = (table: string, { present, scrambled, maxIntervalMs }: PsiTable): string | null => {
+  if (!present) return `${table} missing`;
+  if (scrambled) return `${table} scrambled`;
+  if (maxIntervalMs !== null && maxIntervalMs > PSI_INTERVAL_MAX_MS) return `${table} repeated after ${maxIntervalMs} ms`;
+  return null;
+};
+
+const INDICATORS: Indicator[] = [
+  {
+    id: '1.1',
+    priority: 1,
+    name: 'TS sync loss',
+    description: 'Packets without the 0x47 sync byte',
+    check: (m) => ({ errors: m.syncLosses, detail: `${m.syncLosses} packet(s) out of sync` }),
+  },
+  {
+    id: '1.3',
+    priority: 1,
+    name: 'PAT error',
+    description: `PAT missing, scrambled or repeated less often than every ${PSI_INTERVAL_MAX_MS} ms`,
+    check: (m) => {
+      const problem = psiProblem('PAT', m.pat);
+      return { errors: problem ? 1 : 0, detail: problem ?? '' };
+    },
+  },
+  {
+    id: '1.4',
+    priority: 1,
+    name: 'Continuity count error',
+    description: 'Packets lost, duplicated or out of order',
+    check: (m) => ({ errors: m.ccErrors, detail: `${m.ccErrors} continuity error(s)` }),
+  },
+  {
+    id: '1.5',
+    priority: 1,
+    name: 'PMT error',
+    description: `A PMT missing, scrambled or repeated less often than every ${PSI_INTERVAL_MAX_MS} ms`,
+    check: (m) => {
+      if (m.pmts.length === 0) return null;
+      const problems = m.pmts.map(pmt => psiProblem(`PMT on PID ${pmt.pid}`, pmt)).filter(Boolean);
+      return { errors: problems.length, detail: problems.join('; ') };
+    },
+  },
+  {
+    id: '1.6',
+    priority: 1,
+    name: 'PID error',
+    description: 'A PID referenced by a PMT is not in the stream',
+    check: (m) => ({ errors: m.missingPids.length, detail: `PID ${m.missingPids.join(', ')} absent` }),
+  },
+  {
+    id: '2.1',
+    priority: 2,
+    name: 'Transport error',
+    description: 'Packets with the transport error indicator set',
+    check: (m) => ({ errors: m.transportErrors, detail: `${m.transportErrors} packet(s) flagged` }),
+  },
+  {
+    id: '2.3a',
+    priority: 2,
+    name: 'PCR repetition error',
+    description: `PCRs further apart than ${PCR_INTERVAL_MAX_MS} ms`,
+    check: (m) => {
+      if (m.pcr?.maxIntervalMs == null) return null;
+      const late = m.pcr.maxIntervalMs > PCR_INTERVAL_MAX_MS;
+      return { errors: late ? 1 : 0, detail: `PCR interval ${m.pcr.maxIntervalMs} ms` };
+    },
+  },
+  {
+    id: '2.3b',
+    priority: 2,
+    name: 'PCR discontinuity',
+    description: 'PCR jumped by more than 100 ms or backwards without its discontinuity_indicator set',
+    check: (m) => m.pcr && { errors: m.pcr.discontinuities, detail: `${m.pcr.discontinuities} PCR jump(s)` },
+  },
+  {
+    id: '2.4',
+    priority: 2,
+    name: 'PCR accuracy error',
+    description: 'PCR jitter beyond ±500 ns',
+    check: (m) => m.pcr && {
+      errors: m.pcr.jitterErrors,
+      detail: `${m.pcr.jitterErrors} PCR(s) off, up to ${m.pcr.maxJitterNs} ns`,
+    },
+  },
+  {
+    id: '2.5',
+    priority: 2,
+    name: 'PTS error',
+    description: `PTSs further apart than ${PTS_INTERVAL_MAX_MS} ms`,
+    check: (m) => {
+      if (m.pts?.maxIntervalMs == null) return null;
+      const late = m.pts.maxIntervalMs > PTS_INTERVAL_MAX_MS;
+      return { errors: late ? 1 : 0, detail: `PTS interval ${m.pts.maxIntervalMs} ms` };
+    },
+  },
+];
+
+interface Counter {
+  errors: number;
+  lastOccurredAt: string;
+  lastDetail: string;
+}
+
+interface ChannelState {
+  counters: Map<string, Counter>;
+  countersResetAt: string;
+  lastRun: { timestamp: string; available: boolean; results: Map<string, CheckResult> } | null;
+}
+
+export function createTr101290Monitor() {
+  const channels = new Map<number, ChannelState>();
+
+  function state(channelId: number): ChannelState {
+    let entry = channels.get(channelId);
+    if (!entry) {
+      entry = { counters: new Map(), countersResetAt: new Date().toISOString(), lastRun: null };
+      channels.set(channelId, entry);
+    }
+    return entry;
+  }
+
+  function query(channelId: number): Tr101290Report {
+    const entry = state(channelId);
+    const run = entry.lastRun;
+
+    return {
+      channelId,
+      updatedAt: run?.timestamp ?? null,
+      available: run?.available ?? false,
+      countersResetAt: entry.countersResetAt,
+      indicators: INDICATORS.map(({ id, priority, name, description }) => {
+        const result = run?.available ? run.results.get(id) : null;
+        const counter = entry.counters.get(id);
+        return {
+          id,
+          priority,
+          name,
+          description,
+          status: !result ? 'unknown' : result.errors > 0 ? 'error' : 'ok',
+          errors: counter?.errors ?? 0,
+          lastOccurredAt: counter?.lastOccurredAt ?? null,
+          lastDetail: counter?.lastDetail ?? null,
+        };
+      }),
+    };
+  }
+
+  return {
+    // measurements is undefined when the run had no stream
+    addRun(channelId: number, timestamp: string, measurements?: Tr101290Measurements) {
+      const entry = state(channelId);
+      const results = new Map<string, CheckResult>();
+
+      for (const indicator of INDICATORS) {
+        const result = measurements ? indicator.check(measurements) : null;
+        results.set(indicator.id, result);
+        if (!result || result.errors === 0) continue;
+        const counter = entry.counters.get(indicator.id);
+        entry.counters.set(indicator.id, {
+          errors: (counter?.errors ?? 0) + result.errors,
+          lastOccurredAt: timestamp,
+          lastDetail: result.detail,
+        });
+      }
+
+      entry.lastRun = { timestamp, available: !!measurements, results };
+    },
+
+    query,
+
+    reset(channelId: number): Tr101290Report {
+      const entry = state(channelId);
+      entry.counters.clear();
+      entry.countersResetAt = new Date().toISOString();
+      return query(channelId);
+    },
+
+    remove(channelId: number) {
+      channels.delete(channelId);
+    },
+  };
+}
@@ -0,0 +1,68 @@
+// Simulated user accounts with the backend's userStore rules. Simulated
+// backends never ask for a sign-in, so passwords are only checked for length.
+
+import { ApiResponse } from '@/types/channel';
+import { User, UserInput, UserUpdate } from '@/types/auth';
+import { ROLES } from '@/lib/roles';
+
+const USERNAME_PATTERN = /^[a-zA-Z0-9._-]{2,32}$/;
+const MIN_PASSWORD_LENGTH = 8;
+
+const invalid = (errors: string[]): ApiResponse<never> => ({ success: false, error: errors.join('; '), errorKind: 'http', status: 400 });
+const notFound = (id: string): ApiResponse<never> => ({ success: false, error: `User ${id} not found`, errorKind: 'http', status: 404 });
+
+export function createUserDirectory() {
+  let users: User[] = [];
+
+  function validate(user: User, password?: string): string[] {
+    const errors: string[] = [];
+    if (!USERNAME_PATTERN.test(user.username)) {
+      errors.push('username must be 2-32 letters, digits, dots, dashes or underscores');
+    } else if (users.some(u => u.id !== user.id && u.username.toLowerCase() === user.username.toLowerCase())) {
+      errors.push(`username ${user.username} is taken`);
+    }
+    if (!ROLES.includes(user.role)) errors.push(`role must be one of ${ROLES.join(', ')}`);
+    if (password !== undefined && password.length < MIN_PASSWORD_LENGTH) {
+      errors.push(`password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    }
+    return errors;
+  }
+
+  const keepsAdmin = (next: User[]) => next.some(u => u.role === 'admin' && !u.disabled);
+
+  return {
+    list(): User[] {
+      return users;
+    },
+
+    create({ username, password, role }: UserInput): ApiResponse<User> {
+      const now = new Date().toISOString();
+      const user: User = { id: crypto.randomUUID(), username: username.trim(), role, disabled: false, createdAt: now, updatedAt: now };
+      const errors = validate(user, password);
+      if (errors.length === 0 && !keepsAdmin([...users, user])) errors.push('at least one enabled admin is required');
+      if (errors.length > 0) return invalid(errors);
+      users = [...users, user];
+      return { success: true, data: user };
+    },
+
+    update(id: string, { role, disabled, password }: UserUpdate): ApiResponse<User> {
+      const current = users.find(u => u.id === id);
+      if (!current) return notFound(id);
+      const user: User = { ...current, role: role ?? current.role, disabled: disabled ?? current.disabled, updatedAt: new Date().toISOString() };
+      const errors = validate(user, password);
+      const next = users.map(u => (u.id === id ? user : u));
+      if (errors.length === 0 && !keepsAdmin(next)) errors.push('at least one enabled admin is required');
+      if (errors.length > 0) return invalid(errors);
+      users = next;
+      return { success: true, data: user };
+    },
+
+    remove(id: string): ApiResponse<void> {
+      if (!users.some(u => u.id === id)) return notFound(id);
+      const next = users.filter(u => u.id !== id);
+      if (!keepsAdmin(next)) return invalid(['at least one enabled admin is required']);
+      users = next;
+      return { success: true };
+    },
+  };
+}
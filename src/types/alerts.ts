@@ -0,0 +1,18 @@
+import { z } from 'zod';
+import {
+  alertRuleTypeSchema,
+  alertSeveritySchema,
+  alertRuleSchema,
+  alertStateSchema,
+  alertSchema,
+} from '@/schemas/alerts';
+
+// Inferred from the runtime schemas in schemas/alerts.ts
+export type AlertRuleType = z.infer<typeof alertRuleTypeSchema>;
+export type AlertSeverity = z.infer<typeof alertSeveritySchema>;
+export type AlertRule = z.infer<typeof alertRuleSchema>;
+export type AlertState = z.infer<typeof alertStateSchema>;
+export type Alert = z.infer<typeof alertSchema>;
+
+// Body of POST /api/alerts/rules
+export type AlertRuleInput = Omit<AlertRule, 'id'>;
@@ -0,0 +1,32 @@
+import { z } from 'zod';
+import { applyStepSchema, applyOutcomeSchema, applyResultSchema } from '@/schemas/apply';
+import { ChangeInfo } from './history';
+import { ServiceType } from './channel';
+
+// Inferred from the runtime schemas in schemas/apply.ts
+export type ApplyStep = z.infer<typeof applyStepSchema>;
+export type ApplyOutcome = z.infer<typeof applyOutcomeSchema>;
+export type ApplyResult = z.infer<typeof applyResultSchema>;
+
+export interface ApplyOptions {
+  // Also wait for the stream analysis to show data (only when RX is restarted)
+  verifyStream?: boolean;
+  // Per phase; the backend defaults to 20s
+  timeoutSec?: number;
+  // Correlates config-apply events with this request
+  applyId?: string;
+  // Recorded with the config version if the apply succeeds
+  change?: ChangeInfo;
+}
+
+// How a bulk edit reaches the services: save only (next restart picks it up),
+// apply channel by channel stopping at the first failure, or apply to all channels at once
+export type BulkRestartStrategy = 'save-only' | 'rolling' | 'parallel';
+
+export interface BulkChannelResult {
+  channelId: number;
+  status: 'saved' | ApplyOutcome | 'failed' | 'skipped';
+  // Services restarted by the apply
+  services: ServiceType[];
+  error?: string;
+}
@@ -0,0 +1,24 @@
+import { z } from 'zod';
+import { auditActionSchema, auditOutcomeSchema, auditEntrySchema, auditPageSchema } from '@/schemas/audit';
+
+// Inferred from the runtime schemas in schemas/audit.ts
+export type AuditAction = z.infer<typeof auditActionSchema>;
+export type AuditOutcome = z.infer<typeof auditOutcomeSchema>;
+export type AuditEntry = z.infer<typeof auditEntrySchema>;
+export type AuditPage = z.infer<typeof auditPageSchema>;
+
+// The part of an action before the dot
+export type AuditCategory = 'service' | 'channel' | 'config' | 'settings' | 'ilo' | 'auth' | 'user';
+
+// Query of GET /api/audit; action may be a category; from and to are epoch milliseconds
+export interface AuditFilters {
+  action?: AuditAction | AuditCategory;
+  actor?: string;
+  channelId?: number;
+  outcome?: AuditOutcome;
+  from?: number;
+  to?: number;
+  search?: string;
+  offset?: number;
+  limit?: number;
+}
@@ -0,0 +1,22 @@
+import { z } from 'zod';
+import { roleSchema, userSchema, sessionSchema, currentUserSchema } from '@/schemas/auth';
+
+// Inferred from the runtime schemas in schemas/auth.ts
+export type Role = z.infer<typeof roleSchema>;
+export type User = z.infer<typeof userSchema>;
+export type Session = z.infer<typeof sessionSchema>;
+export type CurrentUser = z.infer<typeof currentUserSchema>;
+
+// Body of POST /api/users
+export interface UserInput {
+  username: string;
+  password: string;
+  role: Role;
+}
+
+// Body of PUT /api/users/:id; a password replaces the current one
+export interface UserUpdate {
+  role?: Role;
+  disabled?: boolean;
+  password?: string;
+}
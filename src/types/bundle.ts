@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { channelBundleSchema } from '@/schemas/bundle';
+
+// Inferred from the runtime schema in schemas/bundle.ts
+export type ChannelBundle = z.infer<typeof channelBundleSchema>;
+
+export type BundleFormat = 'json' | 'yaml';
@@ -0,0 +1,31 @@
+import { z } from 'zod';
+import {
+  serviceStateEventSchema,
+  bitrateEventSchema,
+  heartbeatEventSchema,
+  channelsChangedEventSchema,
+  snapshotEventSchema,
+  configApplyEventSchema,
+  settingsChangedEventSchema,
+  alertEventSchema,
+  liveEventSchemas,
+} from '@/schemas/events';
+
+// Inferred from the runtime schemas in schemas/events.ts
+export type ServiceStateEvent = z.infer<typeof serviceStateEventSchema>;
+export type BitrateEvent = z.infer<typeof bitrateEventSchema>;
+export type HeartbeatEvent = z.infer<typeof heartbeatEventSchema>;
+export type ChannelsChangedEvent = z.infer<typeof channelsChangedEventSchema>;
+export type SnapshotEvent = z.infer<typeof snapshotEventSchema>;
+export type ConfigApplyEvent = z.infer<typeof configApplyEventSchema>;
+export type SettingsChangedEvent = z.infer<typeof settingsChangedEventSchema>;
+export type AlertEvent = z.infer<typeof alertEventSchema>;
+
+// Event name -> payload, as sent by GET /api/events
+export type LiveEventMap = {
+  [K in keyof typeof liveEventSchemas]: z.infer<(typeof liveEventSchemas)[K]>;
+};
+
+export type LiveEventType = keyof LiveEventMap;
+
+export type LiveStreamStatus = 'connecting' | 'open' | 'closed';
@@ -0,0 +1,12 @@
+import { z } from 'zod';
+import { configVersionSchema, configVersionSourceSchema } from '@/schemas/history';
+
+// Inferred from the runtime schemas in schemas/history.ts
+export type ConfigVersion = z.infer<typeof configVersionSchema>;
+export type ConfigVersionSource = z.infer<typeof configVersionSourceSchema>;
+
+// Who made a config change and why; recorded with the version it creates
+export interface ChangeInfo {
+  author?: string;
+  comment?: string;
+}
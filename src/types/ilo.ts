@@ -1,29 +1,10 @@
-export type ServerPowerState = 'on' | 'off' | 'unknown';
-export type IloHealth = 'ok' | 'warning' | 'critical' | 'unknown';
+import { z } from 'zod';
+import { serverPowerStateSchema, iloHealthSchema, iloStatusSchema } from '@/schemas/ilo';
 
-export interface IloStatus {
-  connected: boolean;
-  hostname: string;
-  powerState: ServerPowerState;
-  health: IloHealth;
-  model: string;
-  serialNumber: string;
-  biosVersion: string;
-  iloVersion: string;
-  temperatures: {
-    inlet: number;
-    cpu1: number;
-    cpu2?: number;
-  };
-  fans: {
-    name: string;
-    speed: number;
-    status: 'ok' | 'warning' | 'failed';
-  }[];
-  powerConsumption: number; // watts
-  uptime: string;
-  lastBootTime: string;
-}
+// Inferred from the runtime schemas in schemas/ilo.ts
+export type ServerPowerState = z.infer<typeof serverPowerStateSchema>;
+export type IloHealth = z.infer<typeof iloHealthSchema>;
+export type IloStatus = z.infer<typeof iloStatusSchema>;
 
 export interface IloCredentials {
   host: string;
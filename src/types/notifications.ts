@@ -0,0 +1,29 @@
+import { z } from 'zod';
+import {
+  destinationTypeSchema,
+  smtpSecuritySchema,
+  smtpSettingsSchema,
+  notificationDestinationSchema,
+  deliveryEventSchema,
+  deliveryStatusSchema,
+  notificationDeliverySchema,
+} from '@/schemas/notifications';
+
+// Inferred from the runtime schemas in schemas/notifications.ts
+export type DestinationType = z.infer<typeof destinationTypeSchema>;
+export type SmtpSecurity = z.infer<typeof smtpSecuritySchema>;
+export type SmtpSettings = z.infer<typeof smtpSettingsSchema>;
+export type NotificationDestination = z.infer<typeof notificationDestinationSchema>;
+export type DeliveryEvent = z.infer<typeof deliveryEventSchema>;
+export type DeliveryStatus = z.infer<typeof deliveryStatusSchema>;
+export type NotificationDelivery = z.infer<typeof notificationDeliverySchema>;
+
+// SMTP settings as sent to the backend: a password replaces the stored one, omitted keeps it
+export interface SmtpSettingsInput extends Omit<SmtpSettings, 'hasPassword'> {
+  password?: string;
+}
+
+// Body of POST /api/notifications/destinations
+export interface NotificationDestinationInput extends Omit<NotificationDestination, 'id' | 'smtp'> {
+  smtp?: SmtpSettingsInput;
+}
@@ -0,0 +1,25 @@
+import { z } from 'zod';
+import {
+  serviceEventKindSchema,
+  serviceEventCauseSchema,
+  serviceActionSchema,
+  serviceEventSchema,
+} from '@/schemas/serviceEvents';
+import { ServiceType } from './channel';
+
+// Inferred from the runtime schemas in schemas/serviceEvents.ts
+export type ServiceEventKind = z.infer<typeof serviceEventKindSchema>;
+export type ServiceEventCause = z.infer<typeof serviceEventCauseSchema>;
+export type ServiceAction = z.infer<typeof serviceActionSchema>;
+export type ServiceEvent = z.infer<typeof serviceEventSchema>;
+
+// Query of GET /api/services/events; from and to are epoch milliseconds
+export interface ServiceEventFilters {
+  channelId?: number;
+  service?: ServiceType;
+  kind?: ServiceEventKind;
+  cause?: ServiceEventCause;
+  from?: number;
+  to?: number;
+  limit?: number;
+}
@@ -0,0 +1,13 @@
+import { z } from 'zod';
+import {
+  globalRxSettingsSchema,
+  globalRecSettingsSchema,
+  globalRtmpSettingsSchema,
+  globalSettingsSchema,
+} from '@/schemas/settings';
+
+// Inferred from the runtime schemas in schemas/settings.ts
+export type GlobalRxSettings = z.infer<typeof globalRxSettingsSchema>;
+export type GlobalRecSettings = z.infer<typeof globalRecSettingsSchema>;
+export type GlobalRtmpSettings = z.infer<typeof globalRtmpSettingsSchema>;
+export type GlobalSettings = z.infer<typeof globalSettingsSchema>;
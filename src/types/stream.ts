@@ -1,43 +1,50 @@
-export interface StreamPid {
-  pid: number;
-  type: string;
-  bitrate: number;
-  bitrateMbps: string;
-  percentage: string;
-  scrambled: boolean;
-  discontinuities: number;
-}
-
-export interface StreamService {
-  id: number;
-  name: string;
-  provider: string;
-  type: string;
-  pmtPid: number;
-  pcrPid: number;
-}
+import { z } from 'zod';
+import {
+  streamPidSchema,
+  streamServiceSchema,
+  streamBitrateSchema,
+  streamAnalysisSchema,
+  channelAnalysisSchema,
+  bitrateSampleSchema,
+  bitrateMarkerKindSchema,
+  bitrateMarkerSchema,
+  bitrateHistorySchema,
+  pidSampleSchema,
+  pidStatusSchema,
+  pidHistoryEntrySchema,
+  pidHistorySchema,
+  tr101290StatusSchema,
+  tr101290IndicatorSchema,
+  tr101290ReportSchema,
+} from '@/schemas/stream';
 
-export interface StreamBitrate {
-  total: number;
-  totalMbps: string;
-}
+// Inferred from the runtime schemas in schemas/stream.ts
+export type StreamPid = z.infer<typeof streamPidSchema>;
+export type StreamService = z.infer<typeof streamServiceSchema>;
+export type StreamBitrate = z.infer<typeof streamBitrateSchema>;
+export type StreamAnalysis = z.infer<typeof streamAnalysisSchema>;
+export type ChannelAnalysis = z.infer<typeof channelAnalysisSchema>;
+export type BitrateSample = z.infer<typeof bitrateSampleSchema>;
+export type BitrateMarkerKind = z.infer<typeof bitrateMarkerKindSchema>;
+export type BitrateMarker = z.infer<typeof bitrateMarkerSchema>;
+export type BitrateHistory = z.infer<typeof bitrateHistorySchema>;
+export type PidSample = z.infer<typeof pidSampleSchema>;
+export type PidStatus = z.infer<typeof pidStatusSchema>;
+export type PidHistoryEntry = z.infer<typeof pidHistoryEntrySchema>;
+export type PidHistory = z.infer<typeof pidHistorySchema>;
+export type Tr101290Status = z.infer<typeof tr101290StatusSchema>;
+export type Tr101290Indicator = z.infer<typeof tr101290IndicatorSchema>;
+export type Tr101290Report = z.infer<typeof tr101290ReportSchema>;
 
-export interface StreamAnalysis {
-  available: boolean;
-  timestamp: string;
-  error?: string;
-  bitrate?: StreamBitrate;
-  pids?: StreamPid[];
-  services?: StreamService[];
-  packets?: number;
-  invalid?: number;
-  suspectIgnored?: number;
+// Time window for GET /api/analyze/:id/history, in epoch milliseconds
+export interface BitrateHistoryWindow {
+  from: number;
+  to: number;
+  maxPoints?: number;
 }
 
-export interface ChannelAnalysis {
-  channelId: number;
-  available: boolean;
-  timestamp?: string;
-  error?: string;
-  bitrate?: StreamBitrate;
+// Body of POST /api/analyze/:id/pids/reset; both default to true
+export interface PidResetOptions {
+  counters?: boolean;
+  baseline?: boolean;
 }